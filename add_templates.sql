@@ -1,41 +0,0 @@
--- Consumer Law - Adding 2 more templates
-INSERT INTO document_templates (template_type, subcategory, title, description, language, template_content, fields, jurisdiction)
-VALUES 
-('consumer', 'debt-collection', 'Debt Collection Dispute Letter', 'Formal letter to dispute debt collection practices', 'en', '# DEBT COLLECTION DISPUTE LETTER\n\n**Date:** {{currentDate}}\n\n**From:**\n{{fullName}}\n{{address}}\n{{city}}, {{province}} {{postalCode}}\n\n**To:**\n{{collectorName}}\n{{collectorAddress}}\n{{collectorCity}}, {{collectorProvince}} {{collectorPostalCode}}\n\n**RE: Account Number: {{accountNumber}}\n\nDear {{collectorName}},\n\nI am writing to dispute a debt you claim I owe. According to the Consumer Protection Act and the Collection and Debt Settlement Services Act, I have the right to request verification of this debt.\n\nThe debt in question relates to account number {{accountNumber}} in the amount of {{debtAmount}}. I dispute this debt for the following reasons:\n\n{{disputeReasons}}\n\nI request that you provide me with the following information within 30 days:\n\n1. Documentation confirming the original debt amount and the current amount being claimed\n2. The name of the original creditor\n3. Documentation showing you are authorized to collect this debt\n4. A complete accounting showing how the current amount was calculated, including any fees or interest charges\n5. Proof that the applicable limitation period has not expired\n\nUntil you provide this verification, I request that you:\n\n1. Cease all collection activities related to this debt\n2. Stop contacting me about this debt except to provide the requested verification\n3. Remove any negative information you may have reported to credit bureaus regarding this account\n\nThis letter is being sent to you in accordance with the Consumer Protection Act and the Collection and Debt Settlement Services Act. Please note that any failure to comply with this request may violate applicable laws.\n\nI await your written response with the requested verification.\n\nSincerely,\n\n{{signature}}\n{{fullName}}\n\nCC: {{ccRecipients}}', '[{"name":"fullName","label":"Full Name","type":"text","required":true},{"name":"address","label":"Street Address","type":"text","required":true},{"name":"city","label":"City","type":"text","required":true},{"name":"province","label":"Province","type":"text","required":true},{"name":"postalCode","label":"Postal Code","type":"text","required":true},{"name":"collectorName","label":"Debt Collector Name","type":"text","required":true},{"name":"collectorAddress","label":"Debt Collector Address","type":"text","required":true},{"name":"collectorCity","label":"Debt Collector City","type":"text","required":true},{"name":"collectorProvince","label":"Debt Collector Province","type":"text","required":true},{"name":"collectorPostalCode","label":"Debt Collector Postal Code","type":"text","required":true},{"name":"accountNumber","label":"Account Number","type":"text","required":true},{"name":"debtAmount","label":"Debt Amount","type":"text","required":true},{"name":"disputeReasons","label":"Dispute Reasons","type":"textarea","required":true},{"name":"signature","label":"Signature","type":"text","required":true},{"name":"ccRecipients","label":"CC Recipients","type":"text","required":false},{"name":"currentDate","label":"Current Date","type":"date","required":true}]', 'Canada'),
-
-('consumer', 'warranties', 'Product Warranty Claim', 'Letter to claim warranty service or replacement', 'en', '# PRODUCT WARRANTY CLAIM\n\n**Date:** {{currentDate}}\n\n**From:**\n{{fullName}}\n{{address}}\n{{city}}, {{province}} {{postalCode}}\n{{phone}}\n{{email}}\n\n**To:**\n{{companyName}}\n{{companyAddress}}\n{{companyCity}}, {{companyProvince}} {{companyPostalCode}}\n\n**RE: Warranty Claim for {{productName}}, Model {{modelNumber}}\n\nDear Customer Service Department,\n\nI am writing to submit a warranty claim for the {{productName}}, model number {{modelNumber}}, which I purchased on {{purchaseDate}} from {{retailerName}} located at {{retailerLocation}}. My proof of purchase is attached to this letter.\n\n**Product Details:**\n- Product Name: {{productName}}\n- Model Number: {{modelNumber}}\n- Serial Number: {{serialNumber}}\n- Date of Purchase: {{purchaseDate}}\n- Warranty Period: {{warrantyPeriod}}\n\n**Description of the Problem:**\n{{problemDescription}}\n\n**Previous Attempts to Resolve the Issue:**\n{{previousAttempts}}\n\nAccording to the warranty terms, this product is still covered for repair or replacement. The warranty specifically states that {{warrantyTerms}}.\n\nI am requesting the following remedy under the warranty:\n{{requestedRemedy}}\n\nCanadian consumer protection laws, including the Consumer Protection Act and Sale of Goods Act in my province, protect my right to receive products that are of acceptable quality and fit for their intended purpose. I believe the issues with this product constitute a breach of these guarantees.\n\nPlease contact me at your earliest convenience to arrange for the requested warranty service. I can be reached at {{phone}} or {{email}}.\n\nI look forward to a prompt and satisfactory resolution of this matter.\n\nSincerely,\n\n{{signature}}\n{{fullName}}\n\n**Attachments:**\n- Copy of receipt/proof of purchase\n- Photos of the defective product\n- Copy of warranty documentation', '[{"name":"fullName","label":"Full Name","type":"text","required":true},{"name":"address","label":"Street Address","type":"text","required":true},{"name":"city","label":"City","type":"text","required":true},{"name":"province","label":"Province","type":"text","required":true},{"name":"postalCode","label":"Postal Code","type":"text","required":true},{"name":"phone","label":"Phone Number","type":"text","required":true},{"name":"email","label":"Email Address","type":"text","required":true},{"name":"companyName","label":"Company Name","type":"text","required":true},{"name":"companyAddress","label":"Company Address","type":"text","required":true},{"name":"companyCity","label":"Company City","type":"text","required":true},{"name":"companyProvince","label":"Company Province","type":"text","required":true},{"name":"companyPostalCode","label":"Company Postal Code","type":"text","required":true},{"name":"productName","label":"Product Name","type":"text","required":true},{"name":"modelNumber","label":"Model Number","type":"text","required":true},{"name":"serialNumber","label":"Serial Number","type":"text","required":true},{"name":"purchaseDate","label":"Purchase Date","type":"date","required":true},{"name":"retailerName","label":"Retailer Name","type":"text","required":true},{"name":"retailerLocation","label":"Retailer Location","type":"text","required":true},{"name":"warrantyPeriod","label":"Warranty Period","type":"text","required":true},{"name":"problemDescription","label":"Problem Description","type":"textarea","required":true},{"name":"previousAttempts","label":"Previous Attempts to Resolve","type":"textarea","required":false},{"name":"warrantyTerms","label":"Relevant Warranty Terms","type":"textarea","required":true},{"name":"requestedRemedy","label":"Requested Remedy","type":"textarea","required":true},{"name":"signature","label":"Signature","type":"text","required":true},{"name":"currentDate","label":"Current Date","type":"date","required":true}]', 'Canada');
-
--- Contract Law - Adding 2 more templates
-INSERT INTO document_templates (template_type, subcategory, title, description, language, template_content, fields, jurisdiction)
-VALUES 
-('contract', 'partnership-agreement', 'Partnership Agreement', 'Legal agreement to establish a business partnership', 'en', '# PARTNERSHIP AGREEMENT\n\n## BETWEEN:\n\n**{{partner1Name}}**, residing at {{partner1Address}}, {{partner1City}}, {{partner1Province}} {{partner1PostalCode}}\n(hereinafter referred to as "Partner 1")\n\n**AND**\n\n**{{partner2Name}}**, residing at {{partner2Address}}, {{partner2City}}, {{partner2Province}} {{partner2PostalCode}}\n(hereinafter referred to as "Partner 2")\n\n(collectively referred to as the "Partners")\n\n## RECITALS:\n\nWHEREAS the Partners wish to establish a general partnership for the purpose of {{businessPurpose}};\n\nWHEREAS the Partners desire to set forth their respective rights and obligations with respect to the Partnership;\n\nNOW THEREFORE, in consideration of the mutual covenants and agreements herein contained, the Partners agree as follows:\n\n## 1. PARTNERSHIP FORMATION\n\n1.1 **Partnership Name**. The Partners hereby form a general partnership (the "Partnership") under the name of "{{partnershipName}}" which shall be carried on in accordance with the provisions of the Partnership Act ({{jurisdictionProvince}}) and this Agreement.\n\n1.2 **Principal Place of Business**. The principal place of business of the Partnership shall be located at {{businessAddress}}, {{businessCity}}, {{businessProvince}} {{businessPostalCode}}, or such other location as the Partners may from time to time agree upon.\n\n1.3 **Term**. The Partnership shall commence on {{commencementDate}} and shall continue until dissolved in accordance with this Agreement.\n\n## 2. BUSINESS PURPOSE\n\n2.1 The business of the Partnership shall be {{businessDescription}}.\n\n## 3. CAPITAL CONTRIBUTIONS\n\n3.1 **Initial Capital Contributions**. The Partners shall make the following initial capital contributions to the Partnership:\n\n(a) Partner 1: {{partner1Contribution}} ({{partner1ContributionDesc}})\n(b) Partner 2: {{partner2Contribution}} ({{partner2ContributionDesc}})\n\n3.2 **Additional Capital Contributions**. No Partner shall be required to make any additional capital contributions to the Partnership without the written consent of all Partners.\n\n## 4. PROFIT AND LOSS ALLOCATION\n\n4.1 **Profits**. The net profits of the Partnership shall be allocated among the Partners as follows:\n\n(a) Partner 1: {{partner1ProfitPercentage}}%\n(b) Partner 2: {{partner2ProfitPercentage}}%\n\n4.2 **Losses**. The losses of the Partnership shall be allocated among the Partners in the same proportion as profits.\n\n## 5. MANAGEMENT\n\n5.1 **Management Rights**. Each Partner shall have equal rights in the management of the Partnership business. All decisions affecting the Partnership shall require the unanimous consent of the Partners.\n\n5.2 **Banking**. All funds of the Partnership shall be deposited in the Partnership bank account(s) at {{bankName}} or such other financial institutions as the Partners may designate.\n\n## 6. BOOKS AND RECORDS\n\n6.1 The Partnership shall maintain complete and accurate books and records of the Partnership's business at its principal place of business. Each Partner shall have access to the books and records at all reasonable times.\n\n## 7. DISSOLUTION\n\n7.1 **Events of Dissolution**. The Partnership shall be dissolved upon the occurrence of any of the following events:\n\n(a) The agreement of all Partners to dissolve the Partnership;\n(b) The death, bankruptcy, insolvency, or incapacity of any Partner;\n(c) The expiration of the term of the Partnership; or\n(d) As otherwise provided by law.\n\n## 8. DISPUTE RESOLUTION\n\n8.1 **Mediation**. In the event of any dispute arising between the Partners concerning this Agreement or the Partnership, the Partners shall first attempt to resolve the dispute through good-faith negotiation. If the dispute cannot be resolved through negotiation, the Partners agree to submit the dispute to mediation before pursuing any other remedy.\n\n## 9. MISCELLANEOUS PROVISIONS\n\n9.1 **Entire Agreement**. This Agreement constitutes the entire agreement between the Partners with respect to the subject matter hereof and supersedes all prior agreements and understandings.\n\n9.2 **Amendment**. This Agreement may be amended only by a written instrument executed by all Partners.\n\n9.3 **Governing Law**. This Agreement shall be governed by and construed in accordance with the laws of {{jurisdictionProvince}}, Canada.\n\nIN WITNESS WHEREOF, the Partners have executed this Agreement as of the {{executionDate}}.\n\n________________________________\n{{partner1Name}}\n\n________________________________\n{{partner2Name}}', '[{"name":"partner1Name","label":"Partner 1 Name","type":"text","required":true},{"name":"partner1Address","label":"Partner 1 Address","type":"text","required":true},{"name":"partner1City","label":"Partner 1 City","type":"text","required":true},{"name":"partner1Province","label":"Partner 1 Province","type":"text","required":true},{"name":"partner1PostalCode","label":"Partner 1 Postal Code","type":"text","required":true},{"name":"partner2Name","label":"Partner 2 Name","type":"text","required":true},{"name":"partner2Address","label":"Partner 2 Address","type":"text","required":true},{"name":"partner2City","label":"Partner 2 City","type":"text","required":true},{"name":"partner2Province","label":"Partner 2 Province","type":"text","required":true},{"name":"partner2PostalCode","label":"Partner 2 Postal Code","type":"text","required":true},{"name":"businessPurpose","label":"Business Purpose","type":"text","required":true},{"name":"partnershipName","label":"Partnership Name","type":"text","required":true},{"name":"jurisdictionProvince","label":"Jurisdiction Province","type":"text","required":true},{"name":"businessAddress","label":"Business Address","type":"text","required":true},{"name":"businessCity","label":"Business City","type":"text","required":true},{"name":"businessProvince","label":"Business Province","type":"text","required":true},{"name":"businessPostalCode","label":"Business Postal Code","type":"text","required":true},{"name":"commencementDate","label":"Commencement Date","type":"date","required":true},{"name":"businessDescription","label":"Business Description","type":"textarea","required":true},{"name":"partner1Contribution","label":"Partner 1 Contribution Amount","type":"text","required":true},{"name":"partner1ContributionDesc","label":"Partner 1 Contribution Description","type":"text","required":true},{"name":"partner2Contribution","label":"Partner 2 Contribution Amount","type":"text","required":true},{"name":"partner2ContributionDesc","label":"Partner 2 Contribution Description","type":"text","required":true},{"name":"partner1ProfitPercentage","label":"Partner 1 Profit Percentage","type":"number","required":true},{"name":"partner2ProfitPercentage","label":"Partner 2 Profit Percentage","type":"number","required":true},{"name":"bankName","label":"Bank Name","type":"text","required":true},{"name":"executionDate","label":"Execution Date","type":"date","required":true}]', 'Canada'),
-
-('contract', 'consulting-agreement', 'Consulting Services Agreement', 'Contract outlining consulting services terms and conditions', 'en', '# CONSULTING SERVICES AGREEMENT\n\n## DATE: {{effectiveDate}}\n\n## BETWEEN:\n\n**{{clientName}}**\n{{clientAddress}}\n{{clientCity}}, {{clientProvince}} {{clientPostalCode}}\n(hereinafter referred to as the "Client")\n\n**AND**\n\n**{{consultantName}}**\n{{consultantAddress}}\n{{consultantCity}}, {{consultantProvince}} {{consultantPostalCode}}\n(hereinafter referred to as the "Consultant")\n\n## 1. CONSULTING SERVICES\n\n1.1 The Client hereby engages the Consultant to perform the following services (the "Services"):\n\n{{servicesDescription}}\n\n1.2 The Consultant shall provide the Services at the following location(s): {{serviceLocation}}\n\n## 2. TERM\n\n2.1 This Agreement shall commence on {{startDate}} and continue until {{endDate}}, unless terminated earlier in accordance with the provisions of this Agreement (the "Term").\n\n## 3. COMPENSATION\n\n3.1 **Fee Structure**: In consideration for the Services, the Client shall pay the Consultant according to the following structure:\n\n{{feeStructure}}\n\n3.2 **Expenses**: The Client shall reimburse the Consultant for the following pre-approved expenses:\n\n{{reimbursableExpenses}}\n\n3.3 **Payment Schedule**: Payments shall be made according to the following schedule:\n\n{{paymentSchedule}}\n\n3.4 **Invoicing**: The Consultant shall submit detailed invoices for all Services rendered and expenses incurred. Invoices shall be payable within {{paymentTerms}} days of receipt.\n\n## 4. INDEPENDENT CONTRACTOR RELATIONSHIP\n\n4.1 The Consultant is engaged as an independent contractor and not as an employee. The Consultant acknowledges that:\n\n(a) The Consultant is not entitled to employment benefits from the Client;\n(b) The Client will not withhold income taxes, Employment Insurance, or Canada Pension Plan contributions;\n(c) The Consultant is responsible for all tax filings and payments required by law; and\n(d) The Consultant has no authority to bind the Client to any agreement or obligation.\n\n## 5. CONFIDENTIALITY\n\n5.1 The Consultant acknowledges that in the course of providing the Services, the Consultant may receive confidential information relating to the Client (the "Confidential Information").\n\n5.2 The Consultant agrees to maintain the confidentiality of the Confidential Information and not to disclose such information to any third party without the prior written consent of the Client.\n\n5.3 This confidentiality obligation shall survive the termination of this Agreement for a period of {{confidentialityPeriod}} years.\n\n## 6. INTELLECTUAL PROPERTY\n\n6.1 All work product, including but not limited to reports, documents, designs, and software, created by the Consultant in the performance of the Services (the "Work Product") shall be the exclusive property of the Client.\n\n6.2 The Consultant hereby assigns all rights, title, and interest in the Work Product to the Client.\n\n## 7. TERMINATION\n\n7.1 **Termination for Convenience**: Either party may terminate this Agreement by providing {{terminationNotice}} days' written notice to the other party.\n\n7.2 **Termination for Cause**: Either party may terminate this Agreement immediately upon written notice if the other party breaches any material term of this Agreement and fails to remedy such breach within {{breachCurePeriod}} days of receiving notice of the breach.\n\n## 8. GENERAL PROVISIONS\n\n8.1 **Entire Agreement**: This Agreement constitutes the entire agreement between the parties with respect to the subject matter hereof and supersedes all prior agreements, understandings, and negotiations.\n\n8.2 **Amendment**: This Agreement may only be amended by a written document signed by both parties.\n\n8.3 **Governing Law**: This Agreement shall be governed by and construed in accordance with the laws of the Province of {{governingLawProvince}}, Canada.\n\n8.4 **Dispute Resolution**: Any dispute arising out of or relating to this Agreement shall be resolved through binding arbitration in accordance with the Arbitration Act of {{governingLawProvince}}.\n\nIN WITNESS WHEREOF, the parties have executed this Agreement as of the date first written above.\n\n**CLIENT**\n\n_________________________\nBy: {{clientSignatoryName}}\nTitle: {{clientSignatoryTitle}}\n\n**CONSULTANT**\n\n_________________________\nBy: {{consultantSignatoryName}}\nTitle: {{consultantSignatoryTitle}}', '[{"name":"effectiveDate","label":"Effective Date","type":"date","required":true},{"name":"clientName","label":"Client Name","type":"text","required":true},{"name":"clientAddress","label":"Client Address","type":"text","required":true},{"name":"clientCity","label":"Client City","type":"text","required":true},{"name":"clientProvince","label":"Client Province","type":"text","required":true},{"name":"clientPostalCode","label":"Client Postal Code","type":"text","required":true},{"name":"consultantName","label":"Consultant Name","type":"text","required":true},{"name":"consultantAddress","label":"Consultant Address","type":"text","required":true},{"name":"consultantCity","label":"Consultant City","type":"text","required":true},{"name":"consultantProvince","label":"Consultant Province","type":"text","required":true},{"name":"consultantPostalCode","label":"Consultant Postal Code","type":"text","required":true},{"name":"servicesDescription","label":"Description of Services","type":"textarea","required":true},{"name":"serviceLocation","label":"Service Location","type":"text","required":true},{"name":"startDate","label":"Start Date","type":"date","required":true},{"name":"endDate","label":"End Date","type":"date","required":true},{"name":"feeStructure","label":"Fee Structure","type":"textarea","required":true},{"name":"reimbursableExpenses","label":"Reimbursable Expenses","type":"textarea","required":true},{"name":"paymentSchedule","label":"Payment Schedule","type":"textarea","required":true},{"name":"paymentTerms","label":"Payment Terms (Days)","type":"number","required":true},{"name":"confidentialityPeriod","label":"Confidentiality Period (Years)","type":"number","required":true},{"name":"terminationNotice","label":"Termination Notice Period (Days)","type":"number","required":true},{"name":"breachCurePeriod","label":"Breach Cure Period (Days)","type":"number","required":true},{"name":"governingLawProvince","label":"Governing Law Province","type":"text","required":true},{"name":"clientSignatoryName","label":"Client Signatory Name","type":"text","required":true},{"name":"clientSignatoryTitle","label":"Client Signatory Title","type":"text","required":true},{"name":"consultantSignatoryName","label":"Consultant Signatory Name","type":"text","required":true},{"name":"consultantSignatoryTitle","label":"Consultant Signatory Title","type":"text","required":false}]', 'Canada');
-
--- Criminal Law - Adding 2 more templates
-INSERT INTO document_templates (template_type, subcategory, title, description, language, template_content, fields, jurisdiction)
-VALUES 
-('criminal', 'pardon-application', 'Record Suspension (Pardon) Application', 'Application to suspend a criminal record', 'en', '# RECORD SUSPENSION (PARDON) APPLICATION FORM\n\n## APPLICANT INFORMATION\n\nFull Legal Name: {{fullName}}\nDate of Birth: {{dateOfBirth}}\nPlace of Birth: {{placeOfBirth}}\nGender: {{gender}}\nCurrent Address: {{currentAddress}}\nCity: {{city}}\nProvince: {{province}}\nPostal Code: {{postalCode}}\nPhone: {{phone}}\nEmail: {{email}}\n\n## IDENTIFICATION DETAILS\n\nCanadian Citizen: {{canadianCitizen}}\nPermanent Resident: {{permanentResident}}\nOther Status: {{otherStatus}}\n\nIdentification Document Type: {{identificationType}}\nIdentification Number: {{identificationNumber}}\nExpiry Date: {{identificationExpiry}}\n\n## CRIMINAL CONVICTION INFORMATION\n\nOffence 1: {{offence1}}\nDate of Conviction: {{convictionDate1}}\nCourt Location: {{courtLocation1}}\nSentence: {{sentence1}}\nDate Sentence Completed: {{sentenceCompletionDate1}}\n\nOffence 2 (if applicable): {{offence2}}\nDate of Conviction: {{convictionDate2}}\nCourt Location: {{courtLocation2}}\nSentence: {{sentence2}}\nDate Sentence Completed: {{sentenceCompletionDate2}}\n\nOffence 3 (if applicable): {{offence3}}\nDate of Conviction: {{convictionDate3}}\nCourt Location: {{courtLocation3}}\nSentence: {{sentence3}}\nDate Sentence Completed: {{sentenceCompletionDate3}}\n\n## WAITING PERIOD CONFIRMATION\n\nI confirm that:\n- For summary conviction offences, at least 5 years have passed since the completion of my sentence: {{summaryWaitingPeriodConfirmation}}\n- For indictable offences, at least 10 years have passed since the completion of my sentence: {{indictableWaitingPeriodConfirmation}}\n\n## GOOD CONDUCT CONFIRMATION\n\nI confirm that I have been of good conduct since my conviction(s) and have not been convicted of any new criminal offences: {{goodConductConfirmation}}\n\n## REASON FOR RECORD SUSPENSION\n\nPlease explain why you are seeking a record suspension and how it will benefit you:\n\n{{reasonForSuspension}}\n\n## SUPPORTING DOCUMENTS CHECKLIST\n\nI have included the following required documents with my application:\n\n- Proof of Conviction (court documents for each conviction): {{proofOfConviction}}\n- Criminal Record Check (RCMP certified): {{criminalRecordCheck}}\n- Court Information Form: {{courtInformationForm}}\n- Proof of Completed Sentence(s): {{proofOfCompletedSentence}}\n- Local Police Records Check: {{localPoliceRecordsCheck}}\n- Reference Letters (3): {{referenceLetters}}\n- Application Fee Payment: {{feePayment}}\n\n## DECLARATION\n\nI, {{fullName}}, hereby declare that the information provided in this application is true and complete to the best of my knowledge. I understand that providing false or misleading information may result in the denial of my application or the revocation of a record suspension if one is granted.\n\nI authorize the Parole Board of Canada, the Royal Canadian Mounted Police, local police forces, and any other government agencies to collect and share information about me that is necessary to process my application for a record suspension.\n\nSignature: ______________________\n\nDate: {{applicationDate}}\n\n## FOR OFFICIAL USE ONLY\n\nApplication Received Date: ____________\nFile Number: ____________\nProcessing Officer: ____________\nApplication Status: ____________', '[{"name":"fullName","label":"Full Legal Name","type":"text","required":true},{"name":"dateOfBirth","label":"Date of Birth","type":"date","required":true},{"name":"placeOfBirth","label":"Place of Birth","type":"text","required":true},{"name":"gender","label":"Gender","type":"text","required":true},{"name":"currentAddress","label":"Current Address","type":"text","required":true},{"name":"city","label":"City","type":"text","required":true},{"name":"province","label":"Province","type":"text","required":true},{"name":"postalCode","label":"Postal Code","type":"text","required":true},{"name":"phone","label":"Phone Number","type":"text","required":true},{"name":"email","label":"Email Address","type":"text","required":true},{"name":"canadianCitizen","label":"Canadian Citizen (Yes/No)","type":"text","required":true},{"name":"permanentResident","label":"Permanent Resident (Yes/No)","type":"text","required":true},{"name":"otherStatus","label":"Other Status (Specify)","type":"text","required":false},{"name":"identificationType","label":"Identification Type","type":"text","required":true},{"name":"identificationNumber","label":"Identification Number","type":"text","required":true},{"name":"identificationExpiry","label":"Identification Expiry Date","type":"date","required":true},{"name":"offence1","label":"Offence 1","type":"text","required":true},{"name":"convictionDate1","label":"Conviction Date 1","type":"date","required":true},{"name":"courtLocation1","label":"Court Location 1","type":"text","required":true},{"name":"sentence1","label":"Sentence 1","type":"text","required":true},{"name":"sentenceCompletionDate1","label":"Sentence Completion Date 1","type":"date","required":true},{"name":"offence2","label":"Offence 2 (if applicable)","type":"text","required":false},{"name":"convictionDate2","label":"Conviction Date 2","type":"date","required":false},{"name":"courtLocation2","label":"Court Location 2","type":"text","required":false},{"name":"sentence2","label":"Sentence 2","type":"text","required":false},{"name":"sentenceCompletionDate2","label":"Sentence Completion Date 2","type":"date","required":false},{"name":"offence3","label":"Offence 3 (if applicable)","type":"text","required":false},{"name":"convictionDate3","label":"Conviction Date 3","type":"date","required":false},{"name":"courtLocation3","label":"Court Location 3","type":"text","required":false},{"name":"sentence3","label":"Sentence 3","type":"text","required":false},{"name":"sentenceCompletionDate3","label":"Sentence Completion Date 3","type":"date","required":false},{"name":"summaryWaitingPeriodConfirmation","label":"Summary Waiting Period Confirmation (Yes/No)","type":"text","required":true},{"name":"indictableWaitingPeriodConfirmation","label":"Indictable Waiting Period Confirmation (Yes/No)","type":"text","required":true},{"name":"goodConductConfirmation","label":"Good Conduct Confirmation (Yes/No)","type":"text","required":true},{"name":"reasonForSuspension","label":"Reason for Record Suspension","type":"textarea","required":true},{"name":"proofOfConviction","label":"Proof of Conviction (Yes/No)","type":"text","required":true},{"name":"criminalRecordCheck","label":"Criminal Record Check (Yes/No)","type":"text","required":true},{"name":"courtInformationForm","label":"Court Information Form (Yes/No)","type":"text","required":true},{"name":"proofOfCompletedSentence","label":"Proof of Completed Sentence (Yes/No)","type":"text","required":true},{"name":"localPoliceRecordsCheck","label":"Local Police Records Check (Yes/No)","type":"text","required":true},{"name":"referenceLetters","label":"Reference Letters (Yes/No)","type":"text","required":true},{"name":"feePayment","label":"Fee Payment (Yes/No)","type":"text","required":true},{"name":"applicationDate","label":"Application Date","type":"date","required":true}]', 'Canada'),
-
-('criminal', 'victim-impact', 'Victim Impact Statement', 'Document to describe the effects of a crime on the victim', 'en', '# VICTIM IMPACT STATEMENT\n\n**Court File No.:** {{courtFileNumber}}\n\n**In the matter of:** {{caseName}}\n\n## INTRODUCTION\n\nThis statement is provided by {{victimName}}, in relation to the offence(s) committed by {{accusedName}} on or about {{offenceDate}} in {{offenceLocation}}.\n\n## EMOTIONAL IMPACT\n\n{{emotionalImpact}}\n\n## PHYSICAL IMPACT\n\n{{physicalImpact}}\n\n## FINANCIAL IMPACT\n\n{{financialImpact}}\n\n## IMPACT ON RELATIONSHIPS AND LIFESTYLE\n\n{{relationshipLifestyleImpact}}\n\n## FEARS FOR SECURITY\n\n{{securityFears}}\n\n## VIEWS ON SENTENCING (OPTIONAL)\n\n{{sentencingViews}}\n\n## ADDITIONAL INFORMATION\n\n{{additionalInformation}}\n\n---\n\nI hereby declare that the information provided in this Victim Impact Statement is true to the best of my knowledge and belief.\n\nSignature: ____________________\n\nName: {{victimName}}\n\nDate: {{statementDate}}\n\n---\n\n## Information about Victim Impact Statements\n\nA Victim Impact Statement is a written statement that describes the harm or loss suffered by the victim of an offence. The Criminal Code of Canada gives victims the right to prepare and file a statement with the court. The statement will be considered by the judge when determining the sentence of an offender who has been found guilty.\n\nA Victim Impact Statement allows victims to participate in the sentencing process by explaining, in their own words, how the crime has affected them physically, emotionally, financially, and socially. It provides information to the court about the impact of the crime that might not otherwise be available.\n\nThe statement should be factual and provide specific details about how the crime has affected you. It should not include:\n- Statements about offences for which the offender was not convicted\n- Allegations of other criminal acts committed by the offender\n- Comments about the offender's character unrelated to the offence\n- Recommendations about the sentence\n\nThe statement will be disclosed to the Crown, the offender, and the offender's lawyer. You may be questioned about the content of your statement during the sentencing hearing.\n\nYou have the right to read your Victim Impact Statement aloud in court if you wish. You may also request to present your statement by:\n- Reading it behind a screen or outside the courtroom by closed-circuit television\n- Having someone else read it for you\n- Presenting it in another format (e.g., video recording)\n\nIf you need assistance preparing this statement, please contact your local Victim Services office.', '[{"name":"courtFileNumber","label":"Court File Number","type":"text","required":true},{"name":"caseName","label":"Case Name","type":"text","required":true},{"name":"victimName","label":"Victim Name","type":"text","required":true},{"name":"accusedName","label":"Accused Name","type":"text","required":true},{"name":"offenceDate","label":"Offence Date","type":"date","required":true},{"name":"offenceLocation","label":"Offence Location","type":"text","required":true},{"name":"emotionalImpact","label":"Emotional Impact","type":"textarea","required":true,"helper":"Describe your feelings and emotional reactions to the crime, such as fear, anxiety, stress, depression, loss of sleep, etc."},{"name":"physicalImpact","label":"Physical Impact","type":"textarea","required":false,"helper":"Describe any physical injuries or symptoms you have experienced as a result of the crime, including any medical treatment required or ongoing health issues."},{"name":"financialImpact","label":"Financial Impact","type":"textarea","required":false,"helper":"Describe any financial losses you have suffered because of the crime, such as property damage, loss of income, medical expenses, therapy costs, etc."},{"name":"relationshipLifestyleImpact","label":"Impact on Relationships and Lifestyle","type":"textarea","required":false,"helper":"Describe how the crime has affected your relationships with family, friends, colleagues, and your daily activities or lifestyle."},{"name":"securityFears","label":"Fears for Security","type":"textarea","required":false,"helper":"Describe any concerns you have about your safety or security as a result of the crime."},{"name":"sentencingViews","label":"Views on Sentencing (Optional)","type":"textarea","required":false,"helper":"If you wish, you may express your views about the sentence. However, the final decision on sentencing rests with the judge."},{"name":"additionalInformation","label":"Additional Information","type":"textarea","required":false,"helper":"Any other information you want the court to know about how the crime has affected you."},{"name":"statementDate","label":"Statement Date","type":"date","required":true}]', 'Canada');
-
--- Health Law - Adding 3 more templates
-INSERT INTO document_templates (template_type, subcategory, title, description, language, template_content, fields, jurisdiction)
-VALUES 
-('health', 'privacy-consent', 'Medical Information Release Authorization', 'Authorization for the release of medical information', 'en', '# AUTHORIZATION FOR RELEASE OF MEDICAL INFORMATION\n\n## PATIENT INFORMATION\n\nPatient Name: {{patientName}}\nDate of Birth: {{dateOfBirth}}\nHealth Card Number: {{healthCardNumber}}\nAddress: {{patientAddress}}\nCity: {{patientCity}}\nProvince: {{patientProvince}}\nPostal Code: {{patientPostalCode}}\nPhone: {{patientPhone}}\nEmail: {{patientEmail}}\n\n## HEALTHCARE PROVIDER/FACILITY\n\nI authorize the following healthcare provider or facility to release my medical information:\n\nProvider/Facility Name: {{providerName}}\nAddress: {{providerAddress}}\nCity: {{providerCity}}\nProvince: {{providerProvince}}\nPostal Code: {{providerPostalCode}}\nPhone: {{providerPhone}}\nFax: {{providerFax}}\n\n## RECIPIENT OF INFORMATION\n\nI authorize my medical information to be released to:\n\nName/Organization: {{recipientName}}\nRelationship to Patient: {{recipientRelationship}}\nAddress: {{recipientAddress}}\nCity: {{recipientCity}}\nProvince: {{recipientProvince}}\nPostal Code: {{recipientPostalCode}}\nPhone: {{recipientPhone}}\nFax: {{recipientFax}}\nEmail: {{recipientEmail}}\n\n## INFORMATION TO BE RELEASED\n\nI authorize the release of the following medical information (check all that apply):\n\n- {{completeRecord}} Complete Medical Record\n- {{medicalHistory}} Medical History, Examination, Reports\n- {{hospitalRecords}} Hospital Records including Reports\n- {{laboratoryReports}} Laboratory Reports\n- {{diagnosticImagingReports}} X-ray/Imaging Reports\n- {{consultationReports}} Consultation Reports\n- {{mentalhealthRecords}} Mental Health Records\n- {{substanceAbuseRecords}} Substance Abuse Treatment Records\n- {{hivAidsInformation}} HIV/AIDS-Related Information\n- {{geneticTesting}} Genetic Testing Information\n- {{medicationRecords}} Medication Records\n- {{otherInformation}} Other: {{otherInformationSpecify}}\n\nFor the following date range: {{fromDate}} to {{toDate}}\n\n## PURPOSE OF DISCLOSURE\n\nThis information is to be released for the following purpose(s):\n\n- {{continuingCare}} Continuing Medical Care\n- {{insurance}} Insurance Purposes\n- {{legal}} Legal Purposes\n- {{disability}} Disability Determination\n- {{personalUse}} Personal Use\n- {{otherPurpose}} Other: {{otherPurposeSpecify}}\n\n## AUTHORIZATION EXPIRATION\n\nThis authorization will expire on {{expirationDate}} or upon the following event: {{expirationEvent}}.\n\nIf no expiration date or event is specified, this authorization will expire one year from the date of signature.\n\n## RIGHTS AND UNDERSTANDINGS\n\nI understand that:\n\n1. I have the right to revoke this authorization at any time by notifying the providing healthcare facility/provider in writing. Revocation will not apply to information that has already been disclosed in response to this authorization.\n\n2. Treatment, payment, enrollment, or eligibility for benefits may not be conditioned on whether I sign this authorization.\n\n3. Information disclosed pursuant to this authorization may be re-disclosed by the recipient and may no longer be protected by federal or provincial privacy regulations.\n\n4. The healthcare provider/facility will not receive compensation for the use or disclosure of my health information.\n\n5. I have the right to inspect or copy the health information to be disclosed.\n\n6. I have the right to receive a copy of this authorization.\n\n## SIGNATURES\n\nBy signing below, I authorize the release of my medical information as described above:\n\nSignature of Patient or Legal Representative: _______________________\n\nDate: {{signatureDate}}\n\nIf signed by Legal Representative, Relationship to Patient: {{representativeRelationship}}\n\nWitness Signature: _______________________\n\nWitness Name: {{witnessName}}\n\nDate: {{witnessDate}}', '[{"name":"patientName","label":"Patient Name","type":"text","required":true},{"name":"dateOfBirth","label":"Date of Birth","type":"date","required":true},{"name":"healthCardNumber","label":"Health Card Number","type":"text","required":true},{"name":"patientAddress","label":"Patient Address","type":"text","required":true},{"name":"patientCity","label":"Patient City","type":"text","required":true},{"name":"patientProvince","label":"Patient Province","type":"text","required":true},{"name":"patientPostalCode","label":"Patient Postal Code","type":"text","required":true},{"name":"patientPhone","label":"Patient Phone","type":"text","required":true},{"name":"patientEmail","label":"Patient Email","type":"text","required":false},{"name":"providerName","label":"Provider/Facility Name","type":"text","required":true},{"name":"providerAddress","label":"Provider Address","type":"text","required":true},{"name":"providerCity","label":"Provider City","type":"text","required":true},{"name":"providerProvince","label":"Provider Province","type":"text","required":true},{"name":"providerPostalCode","label":"Provider Postal Code","type":"text","required":true},{"name":"providerPhone","label":"Provider Phone","type":"text","required":true},{"name":"providerFax","label":"Provider Fax","type":"text","required":false},{"name":"recipientName","label":"Recipient Name/Organization","type":"text","required":true},{"name":"recipientRelationship","label":"Recipient Relationship to Patient","type":"text","required":true},{"name":"recipientAddress","label":"Recipient Address","type":"text","required":true},{"name":"recipientCity","label":"Recipient City","type":"text","required":true},{"name":"recipientProvince","label":"Recipient Province","type":"text","required":true},{"name":"recipientPostalCode","label":"Recipient Postal Code","type":"text","required":true},{"name":"recipientPhone","label":"Recipient Phone","type":"text","required":true},{"name":"recipientFax","label":"Recipient Fax","type":"text","required":false},{"name":"recipientEmail","label":"Recipient Email","type":"text","required":false},{"name":"completeRecord","label":"Complete Medical Record","type":"checkbox","required":false},{"name":"medicalHistory","label":"Medical History, Examination, Reports","type":"checkbox","required":false},{"name":"hospitalRecords","label":"Hospital Records including Reports","type":"checkbox","required":false},{"name":"laboratoryReports","label":"Laboratory Reports","type":"checkbox","required":false},{"name":"diagnosticImagingReports","label":"X-ray/Imaging Reports","type":"checkbox","required":false},{"name":"consultationReports","label":"Consultation Reports","type":"checkbox","required":false},{"name":"mentalhealthRecords","label":"Mental Health Records","type":"checkbox","required":false},{"name":"substanceAbuseRecords","label":"Substance Abuse Treatment Records","type":"checkbox","required":false},{"name":"hivAidsInformation","label":"HIV/AIDS-Related Information","type":"checkbox","required":false},{"name":"geneticTesting","label":"Genetic Testing Information","type":"checkbox","required":false},{"name":"medicationRecords","label":"Medication Records","type":"checkbox","required":false},{"name":"otherInformation","label":"Other Information","type":"checkbox","required":false},{"name":"otherInformationSpecify","label":"Other Information (Specify)","type":"text","required":false},{"name":"fromDate","label":"From Date","type":"date","required":true},{"name":"toDate","label":"To Date","type":"date","required":true},{"name":"continuingCare","label":"Continuing Medical Care","type":"checkbox","required":false},{"name":"insurance","label":"Insurance Purposes","type":"checkbox","required":false},{"name":"legal","label":"Legal Purposes","type":"checkbox","required":false},{"name":"disability","label":"Disability Determination","type":"checkbox","required":false},{"name":"personalUse","label":"Personal Use","type":"checkbox","required":false},{"name":"otherPurpose","label":"Other Purpose","type":"checkbox","required":false},{"name":"otherPurposeSpecify","label":"Other Purpose (Specify)","type":"text","required":false},{"name":"expirationDate","label":"Expiration Date","type":"date","required":false},{"name":"expirationEvent","label":"Expiration Event","type":"text","required":false},{"name":"signatureDate","label":"Signature Date","type":"date","required":true},{"name":"representativeRelationship","label":"Representative Relationship to Patient","type":"text","required":false},{"name":"witnessName","label":"Witness Name","type":"text","required":false},{"name":"witnessDate","label":"Witness Date","type":"date","required":false}]', 'Canada'),
-
-('health', 'substitute-decision', 'Substitute Decision Maker Designation', 'Document designating a substitute decision maker for healthcare', 'en', '# DESIGNATION OF SUBSTITUTE DECISION MAKER FOR HEALTH CARE\n\n## 1. PERSONAL INFORMATION\n\nI, {{fullName}}, born on {{dateOfBirth}}, residing at {{homeAddress}}, {{city}}, {{province}}, {{postalCode}}, being of sound mind, voluntarily make this designation of a substitute decision maker for health care.\n\n## 2. DESIGNATION OF SUBSTITUTE DECISION MAKER\n\nI hereby designate the following person(s) as my substitute decision maker(s) for health care, to make health care decisions on my behalf should I become incapable of making my own health care decisions:\n\n### PRIMARY SUBSTITUTE DECISION MAKER\n\nName: {{primarySDMName}}\nRelationship: {{primarySDMRelationship}}\nAddress: {{primarySDMAddress}}\nPhone: {{primarySDMPhone}}\nEmail: {{primarySDMEmail}}\n\n### ALTERNATE SUBSTITUTE DECISION MAKER (if the above person is unable or unwilling to act)\n\nName: {{alternateSDMName}}\nRelationship: {{alternateSDMRelationship}}\nAddress: {{alternateSDMAddress}}\nPhone: {{alternateSDMPhone}}\nEmail: {{alternateSDMEmail}}\n\n## 3. EFFECTIVE DATE AND DURATION\n\nThis designation becomes effective when I am determined to be incapable of making my own health care decisions. This determination shall be made by {{determinationMethod}}.\n\nThis designation shall remain in effect until my death or until I revoke it while I am capable.\n\n## 4. SCOPE OF AUTHORITY\n\nI grant my substitute decision maker the authority to consent, refuse consent, or withdraw consent to any care, treatment, service, or procedure to maintain, diagnose, or otherwise affect a physical or mental condition, subject to any specific limitations or instructions stated below.\n\n## 5. SPECIFIC LIMITATIONS AND INSTRUCTIONS\n\n{{specificLimitations}}\n\n## 6. GENERAL INSTRUCTIONS FOR MY SUBSTITUTE DECISION MAKER\n\nWhen making decisions on my behalf, my substitute decision maker should consider the following:\n\n1. My wishes, values, and beliefs as known to my substitute decision maker;\n2. The likely effects of the proposed health care, treatment, or procedures;\n3. Alternative courses of action; and\n4. Whether the benefits of the proposed health care, treatment, or procedures outweigh the risks.\n\n## 7. ACCESS TO HEALTH INFORMATION\n\nI authorize my substitute decision maker to access my personal health information as necessary to make informed decisions about my health care.\n\n## 8. RELIANCE AND INDEMNIFICATION\n\nAny person who relies in good faith on any representations by my substitute decision maker as to the scope of their authority shall not be liable to me, my estate, my heirs, or assigns for recognizing the substitute decision maker\'s authority.\n\n## 9. REVOCATION\n\nI understand that I may revoke this designation at any time by communicating my intent to revoke in any manner that communicates my intent to revoke to my substitute decision maker or health care provider.\n\n## 10. GOVERNING LAW\n\nThis designation shall be governed by the laws of the Province of {{province}}.\n\n## 11. SIGNATURES\n\nI sign this designation of substitute decision maker freely and voluntarily.\n\nSignature: ___________________________\n\nDate: {{signatureDate}}\n\n## WITNESS STATEMENT\n\nI declare that the person who signed this document is personally known to me and appears to be of sound mind and acting willingly and free from duress. They signed (or asked another to sign for them) this document in my presence.\n\nWitness 1 Signature: ___________________________\n\nWitness 1 Name: {{witness1Name}}\n\nWitness 1 Address: {{witness1Address}}\n\nDate: {{witness1Date}}\n\nWitness 2 Signature: ___________________________\n\nWitness 2 Name: {{witness2Name}}\n\nWitness 2 Address: {{witness2Address}}\n\nDate: {{witness2Date}}\n\n## ACCEPTANCE BY SUBSTITUTE DECISION MAKER(S)\n\nI accept the designation as substitute decision maker for health care for {{fullName}}.\n\nPrimary Substitute Decision Maker Signature: ___________________________\n\nDate: {{primarySDMSignatureDate}}\n\nAlternate Substitute Decision Maker Signature: ___________________________\n\nDate: {{alternateSDMSignatureDate}}', '[{"name":"fullName","label":"Full Name","type":"text","required":true},{"name":"dateOfBirth","label":"Date of Birth","type":"date","required":true},{"name":"homeAddress","label":"Home Address","type":"text","required":true},{"name":"city","label":"City","type":"text","required":true},{"name":"province","label":"Province","type":"text","required":true},{"name":"postalCode","label":"Postal Code","type":"text","required":true},{"name":"primarySDMName","label":"Primary Substitute Decision Maker Name","type":"text","required":true},{"name":"primarySDMRelationship","label":"Primary Substitute Decision Maker Relationship","type":"text","required":true},{"name":"primarySDMAddress","label":"Primary Substitute Decision Maker Address","type":"text","required":true},{"name":"primarySDMPhone","label":"Primary Substitute Decision Maker Phone","type":"text","required":true},{"name":"primarySDMEmail","label":"Primary Substitute Decision Maker Email","type":"text","required":false},{"name":"alternateSDMName","label":"Alternate Substitute Decision Maker Name","type":"text","required":false},{"name":"alternateSDMRelationship","label":"Alternate Substitute Decision Maker Relationship","type":"text","required":false},{"name":"alternateSDMAddress","label":"Alternate Substitute Decision Maker Address","type":"text","required":false},{"name":"alternateSDMPhone","label":"Alternate Substitute Decision Maker Phone","type":"text","required":false},{"name":"alternateSDMEmail","label":"Alternate Substitute Decision Maker Email","type":"text","required":false},{"name":"determinationMethod","label":"Method of Determining Incapacity","type":"text","required":true,"helper":"E.g., \"my personal physician\" or \"two licensed physicians\""},{"name":"specificLimitations","label":"Specific Limitations and Instructions","type":"textarea","required":false,"helper":"Include any specific instructions regarding treatments you want or do not want, or any other limitations on your substitute decision maker's authority"},{"name":"signatureDate","label":"Signature Date","type":"date","required":true},{"name":"witness1Name","label":"Witness 1 Name","type":"text","required":true},{"name":"witness1Address","label":"Witness 1 Address","type":"text","required":true},{"name":"witness1Date","label":"Witness 1 Date","type":"date","required":true},{"name":"witness2Name","label":"Witness 2 Name","type":"text","required":true},{"name":"witness2Address","label":"Witness 2 Address","type":"text","required":true},{"name":"witness2Date","label":"Witness 2 Date","type":"date","required":true},{"name":"primarySDMSignatureDate","label":"Primary Substitute Decision Maker Signature Date","type":"date","required":true},{"name":"alternateSDMSignatureDate","label":"Alternate Substitute Decision Maker Signature Date","type":"date","required":false}]', 'Canada'),
-
-('health', 'physician-referral', 'Specialist Referral Request', 'Medical referral letter for specialist services', 'en', '# SPECIALIST REFERRAL REQUEST\n\n**Date:** {{referralDate}}\n\n## REFERRING PHYSICIAN INFORMATION\n\nName: {{referringPhysicianName}}\nLicense Number: {{referringPhysicianLicense}}\nClinic/Hospital: {{referringClinic}}\nAddress: {{referringAddress}}\nCity: {{referringCity}}, {{referringProvince}} {{referringPostalCode}}\nPhone: {{referringPhone}}\nFax: {{referringFax}}\nEmail: {{referringEmail}}\n\n## PATIENT INFORMATION\n\nName: {{patientName}}\nDate of Birth: {{patientDOB}}\nHealth Card Number: {{healthCardNumber}}\nGender: {{patientGender}}\nAddress: {{patientAddress}}\nCity: {{patientCity}}, {{patientProvince}} {{patientPostalCode}}\nPhone: {{patientPhone}}\nEmail: {{patientEmail}}\nEmergency Contact: {{emergencyContact}}\nRelationship: {{emergencyRelationship}}\nEmergency Phone: {{emergencyPhone}}\n\n## REFERRAL TO\n\nSpecialty: {{specialtyRequested}}\nSpecific Physician (if preferred): {{preferredSpecialist}}\nReason for Specific Physician (if applicable): {{specialistPreferenceReason}}\n\n## URGENCY\n\nPlease indicate the urgency of this referral:\n\n- {{urgencyEmergent}} Emergent (Immediate) \n- {{urgencyUrgent}} Urgent (Within 1-7 days)\n- {{urgencySemiUrgent}} Semi-Urgent (Within 8-30 days)\n- {{urgencyRoutine}} Routine (Next available)\n\n## REASON FOR REFERRAL\n\n{{referralReason}}\n\n## RELEVANT CLINICAL INFORMATION\n\n**Chief Complaint:** {{chiefComplaint}}\n\n**History of Present Illness:** {{presentIllnessHistory}}\n\n**Duration of Symptoms:** {{symptomDuration}}\n\n**Relevant Past Medical History:** {{pastMedicalHistory}}\n\n**Relevant Family History:** {{familyHistory}}\n\n**Current Medications:** {{currentMedications}}\n\n**Allergies:** {{allergies}}\n\n**Previous Related Treatments/Interventions:** {{previousTreatments}}\n\n**Recent Lab/Diagnostic Test Results:** {{recentTests}}\n\n## PROVISIONAL DIAGNOSIS\n\n{{provisionalDiagnosis}}\n\n## SPECIFIC QUESTIONS FOR THE CONSULTANT\n\n{{consultantQuestions}}\n\n## ATTACHMENTS\n\nThe following additional information is being provided with this referral:\n\n- {{attachLabResults}} Laboratory Results\n- {{attachImagingReports}} Imaging Reports\n- {{attachPreviousConsults}} Previous Consultation Reports\n- {{attachPharmacyRecords}} Pharmacy Records\n- {{attachOther}} Other: {{attachOtherDescription}}\n\n## CONFIRMATION OF PATIENT CONSENT\n\nI confirm that the patient has been informed of this referral and has consented to the sharing of their personal health information with the specialist for the purpose of this consultation.\n\n{{patientConsent}} Yes, patient consent has been obtained\n\n## ADDITIONAL COMMENTS\n\n{{additionalComments}}\n\n---\n\nReferring Physician Signature: _______________________________\n\nDate: {{signatureDate}}\n\n---\n\n**Please send appointment confirmation to referring physician by:**\n\n- {{confirmByFax}} Fax\n- {{confirmByEmail}} Email\n- {{confirmByPhone}} Phone', '[{"name":"referralDate","label":"Referral Date","type":"date","required":true},{"name":"referringPhysicianName","label":"Referring Physician Name","type":"text","required":true},{"name":"referringPhysicianLicense","label":"Referring Physician License Number","type":"text","required":true},{"name":"referringClinic","label":"Referring Clinic/Hospital","type":"text","required":true},{"name":"referringAddress","label":"Referring Clinic Address","type":"text","required":true},{"name":"referringCity","label":"Referring Clinic City","type":"text","required":true},{"name":"referringProvince","label":"Referring Clinic Province","type":"text","required":true},{"name":"referringPostalCode","label":"Referring Clinic Postal Code","type":"text","required":true},{"name":"referringPhone","label":"Referring Clinic Phone","type":"text","required":true},{"name":"referringFax","label":"Referring Clinic Fax","type":"text","required":true},{"name":"referringEmail","label":"Referring Clinic Email","type":"text","required":false},{"name":"patientName","label":"Patient Name","type":"text","required":true},{"name":"patientDOB","label":"Patient Date of Birth","type":"date","required":true},{"name":"healthCardNumber","label":"Health Card Number","type":"text","required":true},{"name":"patientGender","label":"Patient Gender","type":"text","required":true},{"name":"patientAddress","label":"Patient Address","type":"text","required":true},{"name":"patientCity","label":"Patient City","type":"text","required":true},{"name":"patientProvince","label":"Patient Province","type":"text","required":true},{"name":"patientPostalCode","label":"Patient Postal Code","type":"text","required":true},{"name":"patientPhone","label":"Patient Phone","type":"text","required":true},{"name":"patientEmail","label":"Patient Email","type":"text","required":false},{"name":"emergencyContact","label":"Emergency Contact Name","type":"text","required":false},{"name":"emergencyRelationship","label":"Emergency Contact Relationship","type":"text","required":false},{"name":"emergencyPhone","label":"Emergency Contact Phone","type":"text","required":false},{"name":"specialtyRequested","label":"Specialty Requested","type":"text","required":true},{"name":"preferredSpecialist","label":"Preferred Specialist (if applicable)","type":"text","required":false},{"name":"specialistPreferenceReason","label":"Reason for Specialist Preference","type":"text","required":false},{"name":"urgencyEmergent","label":"Emergent (Immediate)","type":"checkbox","required":false},{"name":"urgencyUrgent","label":"Urgent (Within 1-7 days)","type":"checkbox","required":false},{"name":"urgencySemiUrgent","label":"Semi-Urgent (Within 8-30 days)","type":"checkbox","required":false},{"name":"urgencyRoutine","label":"Routine (Next available)","type":"checkbox","required":false},{"name":"referralReason","label":"Reason for Referral","type":"textarea","required":true},{"name":"chiefComplaint","label":"Chief Complaint","type":"text","required":true},{"name":"presentIllnessHistory","label":"History of Present Illness","type":"textarea","required":true},{"name":"symptomDuration","label":"Duration of Symptoms","type":"text","required":true},{"name":"pastMedicalHistory","label":"Relevant Past Medical History","type":"textarea","required":true},{"name":"familyHistory","label":"Relevant Family History","type":"textarea","required":false},{"name":"currentMedications","label":"Current Medications","type":"textarea","required":true},{"name":"allergies","label":"Allergies","type":"textarea","required":true},{"name":"previousTreatments","label":"Previous Related Treatments/Interventions","type":"textarea","required":false},{"name":"recentTests","label":"Recent Lab/Diagnostic Test Results","type":"textarea","required":false},{"name":"provisionalDiagnosis","label":"Provisional Diagnosis","type":"textarea","required":true},{"name":"consultantQuestions","label":"Specific Questions for the Consultant","type":"textarea","required":false},{"name":"attachLabResults","label":"Laboratory Results","type":"checkbox","required":false},{"name":"attachImagingReports","label":"Imaging Reports","type":"checkbox","required":false},{"name":"attachPreviousConsults","label":"Previous Consultation Reports","type":"checkbox","required":false},{"name":"attachPharmacyRecords","label":"Pharmacy Records","type":"checkbox","required":false},{"name":"attachOther","label":"Other Attachments","type":"checkbox","required":false},{"name":"attachOtherDescription","label":"Other Attachments Description","type":"text","required":false},{"name":"patientConsent","label":"Patient Consent Obtained","type":"checkbox","required":true},{"name":"additionalComments","label":"Additional Comments","type":"textarea","required":false},{"name":"signatureDate","label":"Signature Date","type":"date","required":true},{"name":"confirmByFax","label":"Confirm by Fax","type":"checkbox","required":false},{"name":"confirmByEmail","label":"Confirm by Email","type":"checkbox","required":false},{"name":"confirmByPhone","label":"Confirm by Phone","type":"checkbox","required":false}]', 'Canada');
-
--- Immigration Law - Adding 3 more templates
-INSERT INTO document_templates (template_type, subcategory, title, description, language, template_content, fields, jurisdiction)
-VALUES 
-('immigration', 'citizenship', 'Citizenship Application Cover Letter', 'Cover letter for Canadian citizenship application', 'en', '# CANADIAN CITIZENSHIP APPLICATION COVER LETTER\n\n**Date:** {{currentDate}}\n\n**Immigration, Refugees and Citizenship Canada**\nCase Processing Centre - Sydney\nCitizenship Grants\nP.O. Box 7000\nSydney, NS B1P 6V6\n\n**RE: Application for Canadian Citizenship**\n\nDear Citizenship Officer,\n\nI, {{fullName}}, am pleased to submit my application for Canadian citizenship. I have carefully prepared the enclosed application package in accordance with the requirements set forth by Immigration, Refugees and Citizenship Canada.\n\n## PERSONAL INFORMATION\n\n- Full Name: {{fullName}}\n- Date of Birth: {{dateOfBirth}}\n- Country of Birth: {{countryOfBirth}}\n- Current Address: {{currentAddress}}, {{city}}, {{province}}, {{postalCode}}\n- Phone Number: {{phoneNumber}}\n- Email Address: {{emailAddress}}\n- Permanent Resident Card Number: {{prCardNumber}}\n- Date Permanent Residence Obtained: {{prDate}}\n- Client ID (UCI): {{clientID}}\n\n## ELIGIBILITY CONFIRMATION\n\nI confirm that I meet all eligibility requirements for Canadian citizenship, including:\n\n1. **Permanent Resident Status:** I have been a permanent resident of Canada for {{yearsAsPermRes}} years and {{monthsAsPermRes}} months.\n\n2. **Physical Presence in Canada:** I have been physically present in Canada for at least 1,095 days (3 years) within the 5 years immediately before the date of my application. My exact number of days of physical presence in Canada in the relevant 5-year period is {{daysInCanada}} days, as documented in my application.\n\n3. **Income Tax Filing:** I have filed income tax returns for {{taxYearsFiled}} tax years that fall within the 5 years before the date of my application, as required.\n\n4. **Language Proficiency:** I have demonstrated my ability in English and/or French at the minimum level required (Canadian Language Benchmark/Niveau de compétence linguistique canadien 4).\n\n5. **Knowledge of Canada:** I have prepared for and am ready to take the citizenship test that assesses my knowledge of Canada's values, history, symbols, institutions, and rights and responsibilities of citizenship.\n\n## APPLICATION PACKAGE CONTENTS\n\nI have enclosed the following documents as part of my citizenship application package:\n\n1. Application for Canadian Citizenship - Adults (Form CIT 0002), completed and signed\n2. Document Checklist (Form CIT 0014)\n3. Photocopy of my Permanent Resident Card (both sides)\n4. Photocopies of my passports/travel documents covering the relevant period\n5. Two citizenship photographs that meet the specified requirements\n6. Language proficiency evidence: {{languageProofType}}\n7. Proof of application fee payment: {{paymentReceipt}}\n8. {{additionalDocs}}\n\n## TRAVEL HISTORY\n\nFor your reference, I have detailed all my absences from Canada during the relevant 5-year period in my application form. These absences total {{totalAbsenceDays}} days, which still allows me to meet the physical presence requirement of 1,095 days in Canada.\n\n## SPECIAL CONSIDERATIONS (IF APPLICABLE)\n\n{{specialConsiderations}}\n\n## CONCLUSION\n\nI am excited about the prospect of becoming a Canadian citizen and fully participating in Canadian society. Should you require any additional information or documentation to process my application, please do not hesitate to contact me at {{phoneNumber}} or {{emailAddress}}.\n\nThank you for your attention to my application. I look forward to hearing from you regarding the next steps in the citizenship process.\n\nSincerely,\n\n{{signature}}\n\n{{fullName}}\n\n## ENCLOSURES\n\n- Completed and signed Application for Canadian Citizenship - Adults (Form CIT 0002)\n- Document Checklist (Form CIT 0014)\n- Photocopy of Permanent Resident Card (both sides)\n- Photocopies of passports/travel documents\n- Two citizenship photographs\n- Language proficiency evidence\n- Proof of application fee payment\n- {{additionalDocsEnclosed}}', '[{"name":"currentDate","label":"Current Date","type":"date","required":true},{"name":"fullName","label":"Full Name","type":"text","required":true},{"name":"dateOfBirth","label":"Date of Birth","type":"date","required":true},{"name":"countryOfBirth","label":"Country of Birth","type":"text","required":true},{"name":"currentAddress","label":"Current Address","type":"text","required":true},{"name":"city","label":"City","type":"text","required":true},{"name":"province","label":"Province","type":"text","required":true},{"name":"postalCode","label":"Postal Code","type":"text","required":true},{"name":"phoneNumber","label":"Phone Number","type":"text","required":true},{"name":"emailAddress","label":"Email Address","type":"text","required":true},{"name":"prCardNumber","label":"Permanent Resident Card Number","type":"text","required":true},{"name":"prDate","label":"Date Permanent Residence Obtained","type":"date","required":true},{"name":"clientID","label":"Client ID (UCI)","type":"text","required":true},{"name":"yearsAsPermRes","label":"Years as Permanent Resident","type":"number","required":true},{"name":"monthsAsPermRes","label":"Months as Permanent Resident","type":"number","required":true},{"name":"daysInCanada","label":"Days Physically Present in Canada","type":"number","required":true},{"name":"taxYearsFiled","label":"Number of Tax Years Filed","type":"number","required":true},{"name":"languageProofType","label":"Language Proficiency Evidence Type","type":"text","required":true},{"name":"paymentReceipt","label":"Payment Receipt Number","type":"text","required":true},{"name":"additionalDocs","label":"Additional Documents","type":"textarea","required":false},{"name":"totalAbsenceDays","label":"Total Days Absent from Canada","type":"number","required":true},{"name":"specialConsiderations","label":"Special Considerations","type":"textarea","required":false},{"name":"signature","label":"Signature","type":"text","required":true},{"name":"additionalDocsEnclosed","label":"Additional Documents Enclosed","type":"textarea","required":false}]', 'Canada'),
-
-('immigration', 'work-permit', 'Work Permit Extension Application', 'Application letter for extending a temporary work permit', 'en', '# WORK PERMIT EXTENSION APPLICATION LETTER\n\n**Date:** {{currentDate}}\n\n**Immigration, Refugees and Citizenship Canada**\nCase Processing Centre\n{{processingCentreAddress}}\n\n**RE: Application to Extend Work Permit - {{fullName}} (UCI: {{uciNumber}})**\n\nDear Immigration Officer,\n\nI, {{fullName}}, am writing to apply for an extension of my work permit, which is currently set to expire on {{currentPermitExpiryDate}}. I respectfully request that my work permit be extended for {{requestedDuration}} to allow me to continue my employment with {{employerName}} as a {{jobTitle}}.\n\n## PERSONAL INFORMATION\n\n- Full Name: {{fullName}}\n- Date of Birth: {{dateOfBirth}}\n- Country of Citizenship: {{citizenshipCountry}}\n- Passport Number: {{passportNumber}}\n- Passport Expiry Date: {{passportExpiryDate}}\n- Current Address in Canada: {{canadianAddress}}, {{city}}, {{province}}, {{postalCode}}\n- Phone Number: {{phoneNumber}}\n- Email Address: {{emailAddress}}\n- Unique Client Identifier (UCI): {{uciNumber}}\n- Current Work Permit Number: {{currentPermitNumber}}\n- Current Work Permit Expiry Date: {{currentPermitExpiryDate}}\n\n## EMPLOYMENT DETAILS\n\n- Employer Name: {{employerName}}\n- Employer Address: {{employerAddress}}\n- Employer Phone Number: {{employerPhone}}\n- Job Title/Position: {{jobTitle}}\n- Labour Market Impact Assessment (LMIA) Number (if applicable): {{lmiaNumber}}\n- LMIA Expiry Date (if applicable): {{lmiaExpiryDate}}\n- Employment Start Date: {{employmentStartDate}}\n\n## REASON FOR EXTENSION\n\n{{extensionReason}}\n\n## COMPLIANCE WITH PREVIOUS WORK PERMIT CONDITIONS\n\nI confirm that I have complied with all conditions of my current work permit, including:\n\n1. Working only for the employer specified on my work permit;\n2. Working only in the occupation specified on my work permit;\n3. Maintaining legal status in Canada throughout my stay;\n4. Not studying without authorization; and\n5. Leaving Canada upon the expiry of my authorized stay, unless authorized to remain.\n\n## DOCUMENTS INCLUDED WITH THIS APPLICATION\n\nI have enclosed the following documents to support my application:\n\n1. Application to Change Conditions, Extend my Stay or Remain in Canada as a Worker (IMM 5710), completed and signed\n2. Document Checklist (IMM 5556)\n3. Photocopy of my current work permit\n4. Photocopy of my passport (identification pages and all pages with stamps, visas, or markings)\n5. Digital photo meeting IRCC specifications\n6. Proof of application fee payment: {{receiptNumber}}\n7. Letter from my employer confirming continued employment\n8. Copy of my employment contract\n9. {{additionalDocuments}}\n\n## FUTURE PLANS\n\n{{futurePlans}}\n\n## CONTACT INFORMATION\n\nShould you require any additional information or documentation to process my application, please do not hesitate to contact me at {{phoneNumber}} or {{emailAddress}}.\n\nThank you for your consideration of my work permit extension application. I look forward to your favorable response.\n\nSincerely,\n\n{{signature}}\n\n{{fullName}}\n\n## ENCLOSURES:\n\n- Completed and signed Application to Change Conditions, Extend my Stay or Remain in Canada as a Worker (IMM 5710)\n- Document Checklist (IMM 5556)\n- Photocopy of current work permit\n- Photocopy of passport\n- Digital photo\n- Proof of application fee payment\n- Employer letter confirming continued employment\n- Copy of employment contract\n- {{additionalDocumentsEnclosed}}', '[{"name":"currentDate","label":"Current Date","type":"date","required":true},{"name":"processingCentreAddress","label":"Processing Centre Address","type":"textarea","required":true},{"name":"fullName","label":"Full Name","type":"text","required":true},{"name":"uciNumber","label":"Unique Client Identifier (UCI)","type":"text","required":true},{"name":"currentPermitExpiryDate","label":"Current Permit Expiry Date","type":"date","required":true},{"name":"requestedDuration","label":"Requested Extension Duration","type":"text","required":true},{"name":"employerName","label":"Employer Name","type":"text","required":true},{"name":"jobTitle","label":"Job Title","type":"text","required":true},{"name":"dateOfBirth","label":"Date of Birth","type":"date","required":true},{"name":"citizenshipCountry","label":"Country of Citizenship","type":"text","required":true},{"name":"passportNumber","label":"Passport Number","type":"text","required":true},{"name":"passportExpiryDate","label":"Passport Expiry Date","type":"date","required":true},{"name":"canadianAddress","label":"Canadian Address","type":"text","required":true},{"name":"city","label":"City","type":"text","required":true},{"name":"province","label":"Province","type":"text","required":true},{"name":"postalCode","label":"Postal Code","type":"text","required":true},{"name":"phoneNumber","label":"Phone Number","type":"text","required":true},{"name":"emailAddress","label":"Email Address","type":"text","required":true},{"name":"currentPermitNumber","label":"Current Work Permit Number","type":"text","required":true},{"name":"employerAddress","label":"Employer Address","type":"text","required":true},{"name":"employerPhone","label":"Employer Phone Number","type":"text","required":true},{"name":"lmiaNumber","label":"LMIA Number (if applicable)","type":"text","required":false},{"name":"lmiaExpiryDate","label":"LMIA Expiry Date (if applicable)","type":"date","required":false},{"name":"employmentStartDate","label":"Employment Start Date","type":"date","required":true},{"name":"extensionReason","label":"Reason for Extension","type":"textarea","required":true},{"name":"receiptNumber","label":"Receipt Number for Fee Payment","type":"text","required":true},{"name":"additionalDocuments","label":"Additional Documents","type":"textarea","required":false},{"name":"futurePlans","label":"Future Plans","type":"textarea","required":false},{"name":"signature","label":"Signature","type":"text","required":true},{"name":"additionalDocumentsEnclosed","label":"Additional Documents Enclosed","type":"textarea","required":false}]', 'Canada'),
-
-('immigration', 'refugee-claim', 'Refugee Claim Basis of Claim Form', 'Form detailing the basis for a refugee protection claim', 'en', '# BASIS OF CLAIM FORM FOR REFUGEE PROTECTION\n\n**For Information Only: Official Form Must Be Submitted to the Immigration and Refugee Board of Canada**\n\n## SECTION 1: CLAIMANT INFORMATION\n\nFull Name: {{fullName}}\nDate of Birth: {{dateOfBirth}}\nGender: {{gender}}\nCountry of Birth: {{countryOfBirth}}\nCountry of Citizenship: {{countryOfCitizenship}}\nAddress in Canada: {{addressInCanada}}\nPhone Number: {{phoneNumber}}\nEmail Address: {{emailAddress}}\nUCI (Client ID): {{uciNumber}}\nLanguage(s) Spoken: {{languages}}\n\n## SECTION 2: FEAR OF RETURN\n\n### 2.1 Why are you afraid to return to your country? Explain in detail.\n\n{{reasonForFear}}\n\n### 2.2 If you had to return to your country, what do you think would happen to you?\n\n{{potentialHarm}}\n\n### 2.3 Who do you fear would harm you if you returned to your country?\n\n{{persecutors}}\n\n### 2.4 What power or authority do the people you fear have?\n\n{{persecutorsPower}}\n\n### 2.5 Has anyone in your family or close to you ever experienced problems similar to the ones you have described? If yes, explain in detail.\n\n{{familyExperiences}}\n\n## SECTION 3: INCIDENTS OF PERSECUTION\n\n### 3.1 Have you or your family members ever experienced harm, mistreatment, or threats in your country?\n\n{{experiencedHarm}}\n\n### 3.2 Please describe in detail the specific events, in chronological order, starting with the earliest event.\n\n#### Incident 1:\n- Date: {{incident1Date}}\n- Location: {{incident1Location}}\n- Description of what happened: {{incident1Description}}\n- Who caused the harm or threats: {{incident1Persecutors}}\n- What you believe was the reason for this treatment: {{incident1Reason}}\n\n#### Incident 2:\n- Date: {{incident2Date}}\n- Location: {{incident2Location}}\n- Description of what happened: {{incident2Description}}\n- Who caused the harm or threats: {{incident2Persecutors}}\n- What you believe was the reason for this treatment: {{incident2Reason}}\n\n#### Incident 3:\n- Date: {{incident3Date}}\n- Location: {{incident3Location}}\n- Description of what happened: {{incident3Description}}\n- Who caused the harm or threats: {{incident3Persecutors}}\n- What you believe was the reason for this treatment: {{incident3Reason}}\n\n### 3.3 Did you report any of these incidents to the police or any other government authorities in your country?\n\n{{reportedToAuthorities}}\n\n### 3.4 If yes, what was the response? If no, why not?\n\n{{authoritiesResponse}}\n\n## SECTION 4: DEPARTURE FROM COUNTRY\n\n### 4.1 When did you leave your country?\n\n{{departureDate}}\n\n### 4.2 Why did you leave your country at that specific time?\n\n{{reasonForDeparture}}\n\n### 4.3 Please describe how you left your country and traveled to Canada.\n\n{{travelToCanada}}\n\n### 4.4 If you did not come directly to Canada after leaving your country, explain why you did not claim refugee protection in any of the other countries where you stayed.\n\n{{otherCountriesStay}}\n\n### 4.5 Did you claim refugee protection in any other country?\n\n{{otherRefugeeClaims}}\n\n## SECTION 5: RETURN TO COUNTRY OF PERSECUTION\n\n### 5.1 Have you returned to your country since the events that made you afraid to live there?\n\n{{returnedToCountry}}\n\n### 5.2 If yes, when and why did you return? What happened when you returned?\n\n{{returnDetails}}\n\n## SECTION 6: INTERNAL FLIGHT ALTERNATIVE\n\n### 6.1 Is there any place in your country where you would be safe from the people you fear?\n\n{{internalFlightAlternative}}\n\n### 6.2 If no, explain why you would not be safe anywhere in your country.\n\n{{whyNoSafePlace}}\n\n## SECTION 7: PROTECTION BY HOME COUNTRY AUTHORITIES\n\n### 7.1 Did you seek protection from authorities in your country?\n\n{{soughtProtection}}\n\n### 7.2 If yes, what was the result? If no, explain why not.\n\n{{protectionResult}}\n\n### 7.3 Is there any reason why the police or government in your country would not be able or willing to protect you?\n\n{{lackOfProtectionReason}}\n\n## SECTION 8: IDENTITY DOCUMENTS\n\n### 8.1 List all identity documents (passport, birth certificate, identity card, etc.) that you possessed in your country, whether you have them with you or not.\n\n{{identityDocumentsList}}\n\n### 8.2 For any documents not in your possession, explain where they are now.\n\n{{missingDocumentsExplanation}}\n\n## SECTION 9: ADDITIONAL INFORMATION\n\n### 9.1 Is there any other information you want the Refugee Protection Division to know about your claim?\n\n{{additionalInformation}}\n\n## SECTION 10: DECLARATION\n\nI, {{fullName}}, solemnly declare that the information I have provided in this form is true, complete, and correct to the best of my knowledge.\n\nI understand that providing false or misleading information may result in my claim being rejected, my permanent resident status being revoked (if granted), and possible removal from Canada.\n\nSignature: ____________________\n\nDate: {{signatureDate}}\n\nPlace: {{signaturePlace}}', '[{"name":"fullName","label":"Full Name","type":"text","required":true},{"name":"dateOfBirth","label":"Date of Birth","type":"date","required":true},{"name":"gender","label":"Gender","type":"text","required":true},{"name":"countryOfBirth","label":"Country of Birth","type":"text","required":true},{"name":"countryOfCitizenship","label":"Country of Citizenship","type":"text","required":true},{"name":"addressInCanada","label":"Address in Canada","type":"text","required":true},{"name":"phoneNumber","label":"Phone Number","type":"text","required":true},{"name":"emailAddress","label":"Email Address","type":"text","required":true},{"name":"uciNumber","label":"UCI (Client ID)","type":"text","required":true},{"name":"languages","label":"Languages Spoken","type":"text","required":true},{"name":"reasonForFear","label":"Reason for Fear of Return","type":"textarea","required":true},{"name":"potentialHarm","label":"Potential Harm if Returned","type":"textarea","required":true},{"name":"persecutors","label":"Who You Fear Would Harm You","type":"textarea","required":true},{"name":"persecutorsPower","label":"Power or Authority of Persecutors","type":"textarea","required":true},{"name":"familyExperiences","label":"Similar Problems Experienced by Family","type":"textarea","required":true},{"name":"experiencedHarm","label":"Experience of Harm or Mistreatment","type":"textarea","required":true},{"name":"incident1Date","label":"Incident 1 Date","type":"date","required":true},{"name":"incident1Location","label":"Incident 1 Location","type":"text","required":true},{"name":"incident1Description","label":"Incident 1 Description","type":"textarea","required":true},{"name":"incident1Persecutors","label":"Incident 1 Persecutors","type":"text","required":true},{"name":"incident1Reason","label":"Incident 1 Reason","type":"textarea","required":true},{"name":"incident2Date","label":"Incident 2 Date","type":"date","required":false},{"name":"incident2Location","label":"Incident 2 Location","type":"text","required":false},{"name":"incident2Description","label":"Incident 2 Description","type":"textarea","required":false},{"name":"incident2Persecutors","label":"Incident 2 Persecutors","type":"text","required":false},{"name":"incident2Reason","label":"Incident 2 Reason","type":"textarea","required":false},{"name":"incident3Date","label":"Incident 3 Date","type":"date","required":false},{"name":"incident3Location","label":"Incident 3 Location","type":"text","required":false},{"name":"incident3Description","label":"Incident 3 Description","type":"textarea","required":false},{"name":"incident3Persecutors","label":"Incident 3 Persecutors","type":"text","required":false},{"name":"incident3Reason","label":"Incident 3 Reason","type":"textarea","required":false},{"name":"reportedToAuthorities","label":"Reported to Authorities","type":"textarea","required":true},{"name":"authoritiesResponse","label":"Authorities Response","type":"textarea","required":true},{"name":"departureDate","label":"Departure Date from Country","type":"date","required":true},{"name":"reasonForDeparture","label":"Reason for Departure at That Time","type":"textarea","required":true},{"name":"travelToCanada","label":"Travel to Canada Details","type":"textarea","required":true},{"name":"otherCountriesStay","label":"Stay in Other Countries","type":"textarea","required":true},{"name":"otherRefugeeClaims","label":"Refugee Claims in Other Countries","type":"textarea","required":true},{"name":"returnedToCountry","label":"Returned to Country Since Events","type":"textarea","required":true},{"name":"returnDetails","label":"Details of Return to Country","type":"textarea","required":false},{"name":"internalFlightAlternative","label":"Internal Flight Alternative","type":"textarea","required":true},{"name":"whyNoSafePlace","label":"Why No Safe Place in Country","type":"textarea","required":false},{"name":"soughtProtection","label":"Sought Protection from Authorities","type":"textarea","required":true},{"name":"protectionResult","label":"Result of Seeking Protection","type":"textarea","required":false},{"name":"lackOfProtectionReason","label":"Reason for Lack of Protection","type":"textarea","required":true},{"name":"identityDocumentsList","label":"Identity Documents List","type":"textarea","required":true},{"name":"missingDocumentsExplanation","label":"Missing Documents Explanation","type":"textarea","required":true},{"name":"additionalInformation","label":"Additional Information","type":"textarea","required":false},{"name":"signatureDate","label":"Signature Date","type":"date","required":true},{"name":"signaturePlace","label":"Signature Place","type":"text","required":true}]', 'Canada');
-
--- I'll continue with the next part of the script in subsequent calls
-psql $DATABASE_URL < ./add_templates.sql
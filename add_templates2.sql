@@ -1,22 +0,0 @@
--- Environmental Law - Adding 4 more templates
-INSERT INTO document_templates (template_type, subcategory, title, description, language, template_content, fields, jurisdiction)
-VALUES 
-('environmental', 'assessment', 'Environmental Impact Assessment Report Template', 'Template for documenting environmental impact assessments', 'en', '# ENVIRONMENTAL IMPACT ASSESSMENT REPORT\n\n## PROJECT INFORMATION\n\n**Project Name:** {{projectName}}\n**Project Location:** {{projectLocation}}\n**Prepared For:** {{clientName}}\n**Prepared By:** {{assessorName}}\n**Date:** {{reportDate}}\n**Reference Number:** {{referenceNumber}}\n\n## EXECUTIVE SUMMARY\n\n{{executiveSummary}}\n\n## 1. INTRODUCTION\n\n### 1.1 Project Overview\n\n{{projectOverview}}\n\n### 1.2 Purpose and Need for Project\n\n{{projectPurpose}}\n\n### 1.3 Regulatory Framework\n\n{{regulatoryFramework}}\n\n## 2. PROJECT DESCRIPTION\n\n### 2.1 Detailed Project Description\n\n{{detailedDescription}}\n\n### 2.2 Project Alternatives Considered\n\n{{projectAlternatives}}\n\n### 2.3 No-Action Alternative\n\n{{noActionAlternative}}\n\n## 3. ENVIRONMENTAL SETTING\n\n### 3.1 Physical Environment\n\n#### 3.1.1 Topography and Soils\n{{topographySoils}}\n\n#### 3.1.2 Geology and Seismicity\n{{geologySeismicity}}\n\n#### 3.1.3 Hydrology and Water Resources\n{{hydrologyWater}}\n\n#### 3.1.4 Air Quality and Climate\n{{airQualityClimate}}\n\n### 3.2 Biological Environment\n\n#### 3.2.1 Ecosystems and Vegetation\n{{ecosystemsVegetation}}\n\n#### 3.2.2 Wildlife and Habitat\n{{wildlifeHabitat}}\n\n#### 3.2.3 Threatened and Endangered Species\n{{endangeredSpecies}}\n\n#### 3.2.4 Wetlands and Sensitive Areas\n{{wetlandsSensitiveAreas}}\n\n### 3.3 Socio-Economic Environment\n\n#### 3.3.1 Land Use and Planning\n{{landUsePlanning}}\n\n#### 3.3.2 Cultural and Historical Resources\n{{culturalHistoricalResources}}\n\n#### 3.3.3 Visual Resources\n{{visualResources}}\n\n#### 3.3.4 Community and Economy\n{{communityEconomy}}\n\n## 4. IMPACT ASSESSMENT\n\n### 4.1 Assessment Methodology\n\n{{assessmentMethodology}}\n\n### 4.2 Environmental Impacts\n\n#### 4.2.1 Construction Phase\n\n{{constructionImpacts}}\n\n#### 4.2.2 Operational Phase\n\n{{operationalImpacts}}\n\n#### 4.2.3 Decommissioning Phase (if applicable)\n\n{{decommissioningImpacts}}\n\n### 4.3 Cumulative Effects\n\n{{cumulativeEffects}}\n\n### 4.4 Impact Significance Assessment\n\n| Environmental Component | Impact | Magnitude | Duration | Extent | Probability | Significance | \n|-------------------------|--------|-----------|----------|--------|------------|-------------|\n| {{component1}} | {{impact1}} | {{magnitude1}} | {{duration1}} | {{extent1}} | {{probability1}} | {{significance1}} |\n| {{component2}} | {{impact2}} | {{magnitude2}} | {{duration2}} | {{extent2}} | {{probability2}} | {{significance2}} |\n| {{component3}} | {{impact3}} | {{magnitude3}} | {{duration3}} | {{extent3}} | {{probability3}} | {{significance3}} |\n| {{component4}} | {{impact4}} | {{magnitude4}} | {{duration4}} | {{extent4}} | {{probability4}} | {{significance4}} |\n| {{component5}} | {{impact5}} | {{magnitude5}} | {{duration5}} | {{extent5}} | {{probability5}} | {{significance5}} |\n\n## 5. MITIGATION MEASURES\n\n### 5.1 Physical Environment Mitigation\n\n{{physicalMitigation}}\n\n### 5.2 Biological Environment Mitigation\n\n{{biologicalMitigation}}\n\n### 5.3 Socio-Economic Environment Mitigation\n\n{{socioeconomicMitigation}}\n\n## 6. ENVIRONMENTAL MANAGEMENT PLAN\n\n### 6.1 Pre-Construction Management\n\n{{preConstructionManagement}}\n\n### 6.2 Construction Management\n\n{{constructionManagement}}\n\n### 6.3 Operational Management\n\n{{operationalManagement}}\n\n### 6.4 Monitoring Program\n\n{{monitoringProgram}}\n\n## 7. PUBLIC CONSULTATION\n\n### 7.1 Consultation Activities\n\n{{consultationActivities}}\n\n### 7.2 Key Issues Raised and Responses\n\n{{consultationIssuesResponses}}\n\n## 8. CONCLUSION AND RECOMMENDATIONS\n\n{{conclusionRecommendations}}\n\n## 9. REFERENCES\n\n{{references}}\n\n## 10. APPENDICES\n\n{{appendices}}\n\n## CERTIFICATION\n\nI certify that this environmental impact assessment report has been prepared in accordance with applicable environmental legislation and guidelines, and that the information contained herein is true and accurate to the best of my knowledge.\n\n**Prepared by:**\n\n____________________\n{{assessorName}}\n{{assessorQualifications}}\n{{assessorCompany}}\n\n**Date:** {{certificationDate}}', '[{"name":"projectName","label":"Project Name","type":"text","required":true},{"name":"projectLocation","label":"Project Location","type":"text","required":true},{"name":"clientName","label":"Client Name","type":"text","required":true},{"name":"assessorName","label":"Assessor Name","type":"text","required":true},{"name":"reportDate","label":"Report Date","type":"date","required":true},{"name":"referenceNumber","label":"Reference Number","type":"text","required":true},{"name":"executiveSummary","label":"Executive Summary","type":"textarea","required":true},{"name":"projectOverview","label":"Project Overview","type":"textarea","required":true},{"name":"projectPurpose","label":"Project Purpose and Need","type":"textarea","required":true},{"name":"regulatoryFramework","label":"Regulatory Framework","type":"textarea","required":true},{"name":"detailedDescription","label":"Detailed Project Description","type":"textarea","required":true},{"name":"projectAlternatives","label":"Project Alternatives Considered","type":"textarea","required":true},{"name":"noActionAlternative","label":"No-Action Alternative","type":"textarea","required":true},{"name":"topographySoils","label":"Topography and Soils","type":"textarea","required":true},{"name":"geologySeismicity","label":"Geology and Seismicity","type":"textarea","required":true},{"name":"hydrologyWater","label":"Hydrology and Water Resources","type":"textarea","required":true},{"name":"airQualityClimate","label":"Air Quality and Climate","type":"textarea","required":true},{"name":"ecosystemsVegetation","label":"Ecosystems and Vegetation","type":"textarea","required":true},{"name":"wildlifeHabitat","label":"Wildlife and Habitat","type":"textarea","required":true},{"name":"endangeredSpecies","label":"Threatened and Endangered Species","type":"textarea","required":true},{"name":"wetlandsSensitiveAreas","label":"Wetlands and Sensitive Areas","type":"textarea","required":true},{"name":"landUsePlanning","label":"Land Use and Planning","type":"textarea","required":true},{"name":"culturalHistoricalResources","label":"Cultural and Historical Resources","type":"textarea","required":true},{"name":"visualResources","label":"Visual Resources","type":"textarea","required":true},{"name":"communityEconomy","label":"Community and Economy","type":"textarea","required":true},{"name":"assessmentMethodology","label":"Assessment Methodology","type":"textarea","required":true},{"name":"constructionImpacts","label":"Construction Phase Impacts","type":"textarea","required":true},{"name":"operationalImpacts","label":"Operational Phase Impacts","type":"textarea","required":true},{"name":"decommissioningImpacts","label":"Decommissioning Phase Impacts","type":"textarea","required":false},{"name":"cumulativeEffects","label":"Cumulative Effects","type":"textarea","required":true},{"name":"component1","label":"Environmental Component 1","type":"text","required":true},{"name":"impact1","label":"Impact 1","type":"text","required":true},{"name":"magnitude1","label":"Magnitude 1","type":"text","required":true},{"name":"duration1","label":"Duration 1","type":"text","required":true},{"name":"extent1","label":"Extent 1","type":"text","required":true},{"name":"probability1","label":"Probability 1","type":"text","required":true},{"name":"significance1","label":"Significance 1","type":"text","required":true},{"name":"component2","label":"Environmental Component 2","type":"text","required":false},{"name":"impact2","label":"Impact 2","type":"text","required":false},{"name":"magnitude2","label":"Magnitude 2","type":"text","required":false},{"name":"duration2","label":"Duration 2","type":"text","required":false},{"name":"extent2","label":"Extent 2","type":"text","required":false},{"name":"probability2","label":"Probability 2","type":"text","required":false},{"name":"significance2","label":"Significance 2","type":"text","required":false},{"name":"component3","label":"Environmental Component 3","type":"text","required":false},{"name":"impact3","label":"Impact 3","type":"text","required":false},{"name":"magnitude3","label":"Magnitude 3","type":"text","required":false},{"name":"duration3","label":"Duration 3","type":"text","required":false},{"name":"extent3","label":"Extent 3","type":"text","required":false},{"name":"probability3","label":"Probability 3","type":"text","required":false},{"name":"significance3","label":"Significance 3","type":"text","required":false},{"name":"component4","label":"Environmental Component 4","type":"text","required":false},{"name":"impact4","label":"Impact 4","type":"text","required":false},{"name":"magnitude4","label":"Magnitude 4","type":"text","required":false},{"name":"duration4","label":"Duration 4","type":"text","required":false},{"name":"extent4","label":"Extent 4","type":"text","required":false},{"name":"probability4","label":"Probability 4","type":"text","required":false},{"name":"significance4","label":"Significance 4","type":"text","required":false},{"name":"component5","label":"Environmental Component 5","type":"text","required":false},{"name":"impact5","label":"Impact 5","type":"text","required":false},{"name":"magnitude5","label":"Magnitude 5","type":"text","required":false},{"name":"duration5","label":"Duration 5","type":"text","required":false},{"name":"extent5","label":"Extent 5","type":"text","required":false},{"name":"probability5","label":"Probability 5","type":"text","required":false},{"name":"significance5","label":"Significance 5","type":"text","required":false},{"name":"physicalMitigation","label":"Physical Environment Mitigation","type":"textarea","required":true},{"name":"biologicalMitigation","label":"Biological Environment Mitigation","type":"textarea","required":true},{"name":"socioeconomicMitigation","label":"Socio-Economic Environment Mitigation","type":"textarea","required":true},{"name":"preConstructionManagement","label":"Pre-Construction Management","type":"textarea","required":true},{"name":"constructionManagement","label":"Construction Management","type":"textarea","required":true},{"name":"operationalManagement","label":"Operational Management","type":"textarea","required":true},{"name":"monitoringProgram","label":"Monitoring Program","type":"textarea","required":true},{"name":"consultationActivities","label":"Consultation Activities","type":"textarea","required":true},{"name":"consultationIssuesResponses","label":"Consultation Issues and Responses","type":"textarea","required":true},{"name":"conclusionRecommendations","label":"Conclusion and Recommendations","type":"textarea","required":true},{"name":"references","label":"References","type":"textarea","required":true},{"name":"appendices","label":"Appendices","type":"textarea","required":false},{"name":"assessorQualifications","label":"Assessor Qualifications","type":"text","required":true},{"name":"assessorCompany","label":"Assessor Company","type":"text","required":true},{"name":"certificationDate","label":"Certification Date","type":"date","required":true}]', 'Canada'),
-
-('environmental', 'conservation', 'Conservation Easement Agreement', 'Legal agreement for voluntary conservation of private land', 'en', '# CONSERVATION EASEMENT AGREEMENT\n\n## THIS CONSERVATION EASEMENT AGREEMENT (the "Agreement") is made this {{executionDate}} day of {{executionMonth}}, {{executionYear}},\n\n## BETWEEN:\n\n**{{landowwerName}}**\nResiding at {{landowwerAddress}}\n(hereinafter referred to as the "Landowner")\n\n## AND:\n\n**{{conservationOrganizationName}}**\nA not-for-profit conservation organization having its registered office at {{conservationOrganizationAddress}}\n(hereinafter referred to as the "Conservation Organization")\n\n(Collectively referred to as the "Parties")\n\n## RECITALS:\n\n**WHEREAS** the Landowner is the registered owner in fee simple of certain real property located at {{propertyAddress}}, legally described as {{legalDescription}}, consisting of approximately {{propertyAcreage}} acres/hectares, as more particularly described in Schedule "A" attached hereto (the "Protected Property");\n\n**WHEREAS** the Protected Property possesses significant natural, scenic, open space, scientific, biological, and ecological conservation values (collectively, the "Conservation Values") of great importance to the Landowner, the Conservation Organization, and the people of {{province}}, Canada;\n\n**WHEREAS** the Conservation Values include: {{conservationValues}};\n\n**WHEREAS** the Landowner intends that the Conservation Values of the Protected Property be preserved and maintained in perpetuity by the continuation of land use patterns that do not significantly impair or interfere with those Conservation Values;\n\n**WHEREAS** the Landowner desires to grant to the Conservation Organization, and the Conservation Organization desires to accept, a conservation easement over the Protected Property, imposing certain limitations and affirmative obligations on the Landowner for the protection of the Conservation Values, all in accordance with the laws of {{province}} and Canada;\n\n**NOW THEREFORE**, in consideration of the mutual covenants, terms, conditions, and restrictions contained herein, and for other good and valuable consideration, the receipt and sufficiency of which is hereby acknowledged, the Parties agree as follows:\n\n## 1. GRANT OF CONSERVATION EASEMENT\n\n1.1 The Landowner hereby voluntarily grants and conveys to the Conservation Organization, and the Conservation Organization hereby accepts, a conservation easement in perpetuity over the Protected Property of the nature and character and to the extent set forth herein (the "Conservation Easement").\n\n1.2 This Conservation Easement is created pursuant to the applicable conservation easement legislation in the Province of {{province}}.\n\n## 2. PURPOSE\n\n2.1 The purpose of this Conservation Easement is to ensure that the Protected Property will be retained forever predominantly in its natural, scenic, forested, agricultural, and/or open space condition; to protect any rare plants, animals, or plant communities on the Protected Property; and to prevent any use of the Protected Property that will significantly impair or interfere with the Conservation Values of the Protected Property (the "Purpose").\n\n## 3. RIGHTS OF CONSERVATION ORGANIZATION\n\n3.1 The Conservation Organization shall have the following rights:\n\n(a) To preserve and protect the Conservation Values of the Protected Property;\n\n(b) To enter upon the Protected Property at reasonable times in order to monitor compliance with and otherwise enforce the terms of this Conservation Easement; provided that such entry shall be upon prior reasonable notice to Landowner, and the Conservation Organization shall not unreasonably interfere with Landowner\'s use and quiet enjoyment of the Protected Property;\n\n(c) To prevent any activity on or use of the Protected Property that is inconsistent with the Purpose of this Conservation Easement and to require the restoration of such areas or features of the Protected Property that may be damaged by any inconsistent activity or use; and\n\n(d) To require that the Landowner\'s reserved rights be exercised in a manner that does not impair the Conservation Values.\n\n## 4. PROHIBITED USES\n\n4.1 Any activity on or use of the Protected Property inconsistent with the Purpose of this Conservation Easement is prohibited. Without limiting the generality of the foregoing, the following activities and uses are expressly prohibited:\n\n(a) {{prohibitedUse1}}\n\n(b) {{prohibitedUse2}}\n\n(c) {{prohibitedUse3}}\n\n(d) {{prohibitedUse4}}\n\n(e) {{prohibitedUse5}}\n\n## 5. RESERVED RIGHTS\n\n5.1 The Landowner reserves to itself, and to its personal representatives, heirs, successors, and assigns, all rights accruing from its ownership of the Protected Property, including the right to engage in or permit or invite others to engage in all uses of the Protected Property that are not expressly prohibited herein and are not inconsistent with the Purpose of this Conservation Easement.\n\n5.2 Without limiting the generality of Section 5.1, the following rights are expressly reserved:\n\n(a) {{reservedRight1}}\n\n(b) {{reservedRight2}}\n\n(c) {{reservedRight3}}\n\n(d) {{reservedRight4}}\n\n## 6. NOTICE AND APPROVAL\n\n6.1 Wherever notice to or approval by the Conservation Organization is required under this Agreement, the Landowner shall notify the Conservation Organization in writing not less than sixty (60) days prior to the date the Landowner intends to undertake the activity in question. The notice shall describe the nature, scope, design, location, timetable, and any other material aspect of the proposed activity in sufficient detail to permit the Conservation Organization to make an informed judgment as to its consistency with the Purpose of this Conservation Easement.\n\n6.2 The Conservation Organization shall grant or withhold its approval in writing within forty-five (45) days of receipt of the Landowner\'s written request. The Conservation Organization\'s approval may be withheld only upon a reasonable determination by the Conservation Organization that the action as proposed would be inconsistent with the Purpose of this Conservation Easement.\n\n## 7. CONSERVATION ORGANIZATION\'S REMEDIES\n\n7.1 If the Conservation Organization determines that the Landowner is in breach of the terms of this Agreement, the Conservation Organization shall notify the Landowner in writing of such breach and the Landowner shall have thirty (30) days to cure the breach. If the breach is not cured within thirty (30) days, or if the breach cannot reasonably be cured within thirty (30) days, if the Landowner fails to begin curing such breach within the thirty (30) day period or fails to continue diligently to cure such breach until finally cured, the Conservation Organization may:\n\n(a) Require restoration of the Protected Property to its condition prior to such breach;\n\n(b) Enjoin the breach by temporary or permanent injunction;\n\n(c) Seek specific performance or declaratory relief; and/or\n\n(d) Seek any other legal or equitable remedy available under the law.\n\n## 8. COSTS AND LIABILITIES\n\n8.1 The Landowner retains all responsibilities and shall bear all costs and liabilities of any kind related to the ownership, operation, upkeep, and maintenance of the Protected Property, including the maintenance of adequate liability insurance coverage.\n\n8.2 The Landowner agrees to indemnify and hold the Conservation Organization harmless from any and all costs, claims, or liability, including reasonable attorneys\' fees, arising from or in any way connected with the Protected Property or this Agreement. Notwithstanding the foregoing, the Landowner shall not be responsible for any costs, claims, or liability arising from the negligent acts or omissions of the Conservation Organization.\n\n## 9. TAXES\n\n9.1 The Landowner shall pay all taxes and assessments levied against the Protected Property.\n\n## 10. EXTINGUISHMENT\n\n10.1 If circumstances arise in the future that render the Purpose of this Conservation Easement impossible to accomplish, this Conservation Easement can only be terminated or extinguished, whether in whole or in part, by judicial proceedings in a court of competent jurisdiction.\n\n## 11. ASSIGNMENT\n\n11.1 This Conservation Easement is transferable, but the Conservation Organization may assign its rights and obligations under this Conservation Easement only to an organization that is a qualified organization at the time of transfer under the applicable conservation easement legislation, and authorized to acquire and hold conservation easements.\n\n## 12. SUBSEQUENT TRANSFERS\n\n12.1 The Landowner agrees to incorporate the terms of this Conservation Easement in any deed or other legal instrument by which it divests itself of any interest in all or a portion of the Protected Property, including, without limitation, a leasehold interest.\n\n## 13. GENERAL PROVISIONS\n\n13.1 **Governing Law**: This Agreement shall be governed by and construed in accordance with the laws of the Province of {{province}} and the laws of Canada applicable therein.\n\n13.2 **Severability**: If any provision of this Agreement, or its application to any person or circumstance, is found to be invalid, the remainder of the provisions of this Agreement, or the application of such provision to persons or circumstances other than those as to which it is found to be invalid, shall not be affected.\n\n13.3 **Entire Agreement**: This Agreement sets forth the entire agreement of the Parties with respect to the Conservation Easement and supersedes all prior discussions, negotiations, understandings, or agreements relating to the Conservation Easement, all of which are merged herein.\n\n13.4 **Joint Obligation**: The obligations imposed by this Agreement upon the Landowner shall be joint and several.\n\n13.5 **Captions**: The captions in this Agreement have been inserted solely for convenience of reference and are not a part of this Agreement and shall have no effect upon its construction or interpretation.\n\n13.6 **Counterparts**: The Parties may execute this Agreement in two or more counterparts, which shall, in the aggregate, be signed by both Parties; each counterpart shall be deemed an original instrument as against any party who has signed it. In the event of any disparity between the counterparts produced, the recorded counterpart shall be controlling.\n\n## 14. SCHEDULE\n\nThe following are attached to and form part of this Agreement:\n\nSchedule "A" - Legal Description of Protected Property\nSchedule "B" - Baseline Documentation Report\n\n## IN WITNESS WHEREOF the Parties have executed this Conservation Easement Agreement as of the date first above written.\n\nSIGNED, SEALED AND DELIVERED\nin the presence of:\n\n__________________________________\nWitness\n\n__________________________________\n{{landowwerName}}\n\n__________________________________\nFor {{conservationOrganizationName}}\nName: {{organizationSignatoryName}}\nTitle: {{organizationSignatoryTitle}}', '[{"name":"executionDate","label":"Execution Date (day)","type":"text","required":true},{"name":"executionMonth","label":"Execution Month","type":"text","required":true},{"name":"executionYear","label":"Execution Year","type":"text","required":true},{"name":"landowwerName","label":"Landowner Name","type":"text","required":true},{"name":"landowwerAddress","label":"Landowner Address","type":"text","required":true},{"name":"conservationOrganizationName","label":"Conservation Organization Name","type":"text","required":true},{"name":"conservationOrganizationAddress","label":"Conservation Organization Address","type":"text","required":true},{"name":"propertyAddress","label":"Property Address","type":"text","required":true},{"name":"legalDescription","label":"Legal Description of Property","type":"textarea","required":true},{"name":"propertyAcreage","label":"Property Acreage/Hectares","type":"text","required":true},{"name":"province","label":"Province","type":"text","required":true},{"name":"conservationValues","label":"Conservation Values","type":"textarea","required":true},{"name":"prohibitedUse1","label":"Prohibited Use 1","type":"textarea","required":true},{"name":"prohibitedUse2","label":"Prohibited Use 2","type":"textarea","required":true},{"name":"prohibitedUse3","label":"Prohibited Use 3","type":"textarea","required":true},{"name":"prohibitedUse4","label":"Prohibited Use 4","type":"textarea","required":true},{"name":"prohibitedUse5","label":"Prohibited Use 5","type":"textarea","required":true},{"name":"reservedRight1","label":"Reserved Right 1","type":"textarea","required":true},{"name":"reservedRight2","label":"Reserved Right 2","type":"textarea","required":true},{"name":"reservedRight3","label":"Reserved Right 3","type":"textarea","required":true},{"name":"reservedRight4","label":"Reserved Right 4","type":"textarea","required":true},{"name":"organizationSignatoryName","label":"Organization Signatory Name","type":"text","required":true},{"name":"organizationSignatoryTitle","label":"Organization Signatory Title","type":"text","required":true}]', 'Canada'),
-
-('environmental', 'remediation', 'Environmental Site Remediation Plan', 'Detailed plan for remediation of a contaminated site', 'en', '# ENVIRONMENTAL SITE REMEDIATION PLAN\n\n## PROJECT IDENTIFICATION\n\n**Site Name:** {{siteName}}\n**Site Address:** {{siteAddress}}\n**Site Identification Number:** {{siteID}}\n**Report Date:** {{reportDate}}\n**Prepared By:** {{preparedBy}}\n**Client/Owner:** {{clientOwner}}\n\n## EXECUTIVE SUMMARY\n\n{{executiveSummary}}\n\n## 1. INTRODUCTION\n\n### 1.1 Background\n\n{{background}}\n\n### 1.2 Site Description\n\n{{siteDescription}}\n\n### 1.3 Purpose and Scope\n\n{{purposeScope}}\n\n### 1.4 Regulatory Framework\n\n{{regulatoryFramework}}\n\n## 2. ENVIRONMENTAL SITE ASSESSMENT SUMMARY\n\n### 2.1 Previous Investigations\n\n{{previousInvestigations}}\n\n### 2.2 Nature and Extent of Contamination\n\n#### 2.2.1 Soil Contamination\n\n{{soilContamination}}\n\n#### 2.2.2 Groundwater Contamination\n\n{{groundwaterContamination}}\n\n#### 2.2.3 Surface Water Contamination\n\n{{surfaceWaterContamination}}\n\n#### 2.2.4 Sediment Contamination\n\n{{sedimentContamination}}\n\n#### 2.2.5 Soil Vapor/Air Quality Concerns\n\n{{vaporAirConcerns}}\n\n### 2.3 Contaminants of Concern\n\n{{contaminantsOfConcern}}\n\n### 2.4 Applicable Remediation Standards\n\n{{remediationStandards}}\n\n## 3. CONCEPTUAL SITE MODEL\n\n### 3.1 Source-Pathway-Receptor Analysis\n\n{{sourcePathwayReceptor}}\n\n### 3.2 Risk Assessment Summary\n\n{{riskAssessment}}\n\n## 4. REMEDIATION OBJECTIVES\n\n### 4.1 Cleanup Goals\n\n{{cleanupGoals}}\n\n### 4.2 Remediation Criteria\n\n{{remediationCriteria}}\n\n## 5. REMEDIATION ALTERNATIVES ANALYSIS\n\n### 5.1 Identification of Remedial Options\n\n{{remedialOptions}}\n\n### 5.2 Evaluation Criteria\n\n{{evaluationCriteria}}\n\n### 5.3 Analysis of Alternatives\n\n{{alternativesAnalysis}}\n\n### 5.4 Recommended Remedial Approach\n\n{{recommendedApproach}}\n\n## 6. REMEDIATION IMPLEMENTATION PLAN\n\n### 6.1 Pre-Remediation Activities\n\n#### 6.1.1 Permits and Approvals\n\n{{permitsApprovals}}\n\n#### 6.1.2 Site Preparation\n\n{{sitePreparation}}\n\n#### 6.1.3 Health and Safety Plan\n\n{{healthSafetyPlan}}\n\n### 6.2 Remediation Methods and Procedures\n\n{{remediationMethods}}\n\n### 6.3 Waste Management Plan\n\n{{wasteManagement}}\n\n### 6.4 Quality Assurance/Quality Control\n\n{{qualityAssurance}}\n\n### 6.5 Schedule and Timeline\n\n{{schedule}}\n\n## 7. MONITORING PLAN\n\n### 7.1 During Remediation Monitoring\n\n{{duringRemediationMonitoring}}\n\n### 7.2 Post-Remediation Monitoring\n\n{{postRemediationMonitoring}}\n\n### 7.3 Long-Term Monitoring (if applicable)\n\n{{longTermMonitoring}}\n\n## 8. CONFIRMATION SAMPLING PLAN\n\n### 8.1 Sampling Locations and Frequency\n\n{{samplingLocations}}\n\n### 8.2 Analytical Methods\n\n{{analyticalMethods}}\n\n### 8.3 Data Evaluation\n\n{{dataEvaluation}}\n\n## 9. CONTINGENCY PLAN\n\n{{contingencyPlan}}\n\n## 10. SITE RESTORATION PLAN\n\n{{siteRestoration}}\n\n## 11. PROJECT MANAGEMENT\n\n### 11.1 Project Organization and Responsibilities\n\n{{projectOrganization}}\n\n### 11.2 Communication Plan\n\n{{communicationPlan}}\n\n### 11.3 Documentation and Reporting\n\n{{documentationReporting}}\n\n## 12. COST ESTIMATE\n\n{{costEstimate}}\n\n## 13. CLOSURE PLAN/CLOSURE CRITERIA\n\n{{closurePlan}}\n\n## 14. REFERENCES\n\n{{references}}\n\n## APPENDICES\n\n- Appendix A: Site Maps and Figures\n- Appendix B: Previous Assessment Reports (Executive Summaries)\n- Appendix C: Laboratory Analytical Data\n- Appendix D: Health and Safety Plan\n- Appendix E: Permits and Regulatory Correspondence\n- Appendix F: Technical Specifications\n- Appendix G: Standard Operating Procedures\n\n## CERTIFICATION\n\nI, {{certifierName}}, certify that this Environmental Site Remediation Plan has been prepared in accordance with applicable environmental laws, regulations, and guidance, and that the information contained herein is true and accurate to the best of my knowledge.\n\n____________________  \n{{certifierName}}, {{certifierTitle}}  \n{{certifierLicense}}  \n\nDate: {{certificationDate}}', '[{"name":"siteName","label":"Site Name","type":"text","required":true},{"name":"siteAddress","label":"Site Address","type":"text","required":true},{"name":"siteID","label":"Site Identification Number","type":"text","required":true},{"name":"reportDate","label":"Report Date","type":"date","required":true},{"name":"preparedBy","label":"Prepared By","type":"text","required":true},{"name":"clientOwner","label":"Client/Owner","type":"text","required":true},{"name":"executiveSummary","label":"Executive Summary","type":"textarea","required":true},{"name":"background","label":"Background","type":"textarea","required":true},{"name":"siteDescription","label":"Site Description","type":"textarea","required":true},{"name":"purposeScope","label":"Purpose and Scope","type":"textarea","required":true},{"name":"regulatoryFramework","label":"Regulatory Framework","type":"textarea","required":true},{"name":"previousInvestigations","label":"Previous Investigations","type":"textarea","required":true},{"name":"soilContamination","label":"Soil Contamination","type":"textarea","required":true},{"name":"groundwaterContamination","label":"Groundwater Contamination","type":"textarea","required":true},{"name":"surfaceWaterContamination","label":"Surface Water Contamination","type":"textarea","required":false},{"name":"sedimentContamination","label":"Sediment Contamination","type":"textarea","required":false},{"name":"vaporAirConcerns","label":"Vapor/Air Concerns","type":"textarea","required":false},{"name":"contaminantsOfConcern","label":"Contaminants of Concern","type":"textarea","required":true},{"name":"remediationStandards","label":"Remediation Standards","type":"textarea","required":true},{"name":"sourcePathwayReceptor","label":"Source-Pathway-Receptor Analysis","type":"textarea","required":true},{"name":"riskAssessment","label":"Risk Assessment Summary","type":"textarea","required":true},{"name":"cleanupGoals","label":"Cleanup Goals","type":"textarea","required":true},{"name":"remediationCriteria","label":"Remediation Criteria","type":"textarea","required":true},{"name":"remedialOptions","label":"Remedial Options","type":"textarea","required":true},{"name":"evaluationCriteria","label":"Evaluation Criteria","type":"textarea","required":true},{"name":"alternativesAnalysis","label":"Alternatives Analysis","type":"textarea","required":true},{"name":"recommendedApproach","label":"Recommended Approach","type":"textarea","required":true},{"name":"permitsApprovals","label":"Permits and Approvals","type":"textarea","required":true},{"name":"sitePreparation","label":"Site Preparation","type":"textarea","required":true},{"name":"healthSafetyPlan","label":"Health and Safety Plan","type":"textarea","required":true},{"name":"remediationMethods","label":"Remediation Methods","type":"textarea","required":true},{"name":"wasteManagement","label":"Waste Management Plan","type":"textarea","required":true},{"name":"qualityAssurance","label":"Quality Assurance/Quality Control","type":"textarea","required":true},{"name":"schedule","label":"Schedule and Timeline","type":"textarea","required":true},{"name":"duringRemediationMonitoring","label":"During Remediation Monitoring","type":"textarea","required":true},{"name":"postRemediationMonitoring","label":"Post-Remediation Monitoring","type":"textarea","required":true},{"name":"longTermMonitoring","label":"Long-Term Monitoring","type":"textarea","required":false},{"name":"samplingLocations","label":"Sampling Locations and Frequency","type":"textarea","required":true},{"name":"analyticalMethods","label":"Analytical Methods","type":"textarea","required":true},{"name":"dataEvaluation","label":"Data Evaluation","type":"textarea","required":true},{"name":"contingencyPlan","label":"Contingency Plan","type":"textarea","required":true},{"name":"siteRestoration","label":"Site Restoration Plan","type":"textarea","required":true},{"name":"projectOrganization","label":"Project Organization and Responsibilities","type":"textarea","required":true},{"name":"communicationPlan","label":"Communication Plan","type":"textarea","required":true},{"name":"documentationReporting","label":"Documentation and Reporting","type":"textarea","required":true},{"name":"costEstimate","label":"Cost Estimate","type":"textarea","required":true},{"name":"closurePlan","label":"Closure Plan/Criteria","type":"textarea","required":true},{"name":"references","label":"References","type":"textarea","required":true},{"name":"certifierName","label":"Certifier Name","type":"text","required":true},{"name":"certifierTitle","label":"Certifier Title","type":"text","required":true},{"name":"certifierLicense","label":"Certifier License Number","type":"text","required":true},{"name":"certificationDate","label":"Certification Date","type":"date","required":true}]', 'Canada'),
-
-('environmental', 'compliance', 'Environmental Compliance Audit Checklist', 'Comprehensive checklist for environmental compliance auditing', 'en', '# ENVIRONMENTAL COMPLIANCE AUDIT CHECKLIST\n\n## FACILITY INFORMATION\n\n**Facility Name:** {{facilityName}}\n**Facility Address:** {{facilityAddress}}\n**Contact Person:** {{contactPerson}}\n**Contact Phone:** {{contactPhone}}\n**Contact Email:** {{contactEmail}}\n**Facility Type/Industry:** {{facilityType}}\n**Audit Date:** {{auditDate}}\n**Audit Conducted By:** {{auditorName}}\n\n## INTRODUCTION\n\nThis Environmental Compliance Audit Checklist has been prepared to evaluate compliance with applicable federal, provincial, and local environmental laws, regulations, permits, and company environmental management practices. This document is designed to identify areas of compliance and non-compliance, and to recommend corrective actions where necessary.\n\n## INSTRUCTIONS\n\n1. Complete all applicable sections of this checklist.\n2. For each item, mark compliance status as:\n   - C = Compliant\n   - NC = Non-Compliant\n   - NA = Not Applicable\n   - NE = Not Evaluated\n3. Provide comments and observations for each item, especially for non-compliant items.\n4. Recommend corrective actions for non-compliant items.\n5. Support findings with photographs, measurements, or other documentation where possible.\n\n## 1. GENERAL ENVIRONMENTAL MANAGEMENT\n\n| Item | Description | Status | Comments |\n|------|-------------|--------|----------|\n| 1.1 | Environmental policy established and communicated | {{status1_1}} | {{comments1_1}} |\n| 1.2 | Environmental management system (EMS) in place | {{status1_2}} | {{comments1_2}} |\n| 1.3 | Environmental responsibilities assigned and documented | {{status1_3}} | {{comments1_3}} |\n| 1.4 | Regular internal environmental audits conducted | {{status1_4}} | {{comments1_4}} |\n| 1.5 | Staff trained on environmental requirements | {{status1_5}} | {{comments1_5}} |\n| 1.6 | Environmental records organized and accessible | {{status1_6}} | {{comments1_6}} |\n| 1.7 | Environmental incidents procedure established | {{status1_7}} | {{comments1_7}} |\n| 1.8 | Emergency response plan in place | {{status1_8}} | {{comments1_8}} |\n\n## 2. ENVIRONMENTAL PERMITS AND APPROVALS\n\n| Item | Description | Status | Comments |\n|------|-------------|--------|----------|\n| 2.1 | All required environmental permits current and available | {{status2_1}} | {{comments2_1}} |\n| 2.2 | Permit conditions understood and implemented | {{status2_2}} | {{comments2_2}} |\n| 2.3 | Permit renewal process established | {{status2_3}} | {{comments2_3}} |\n| 2.4 | Permit modification requirements understood | {{status2_4}} | {{comments2_4}} |\n| 2.5 | Permit-required monitoring conducted | {{status2_5}} | {{comments2_5}} |\n| 2.6 | Permit-required reporting completed and submitted on time | {{status2_6}} | {{comments2_6}} |\n\n## 3. AIR EMISSIONS\n\n| Item | Description | Status | Comments |\n|------|-------------|--------|----------|\n| 3.1 | Air emission sources identified and inventoried | {{status3_1}} | {{comments3_1}} |\n| 3.2 | Air emission permits current | {{status3_2}} | {{comments3_2}} |\n| 3.3 | Emission control equipment properly maintained | {{status3_3}} | {{comments3_3}} |\n| 3.4 | Required stack testing performed | {{status3_4}} | {{comments3_4}} |\n| 3.5 | Continuous emission monitoring systems (CEMS) calibrated and maintained | {{status3_5}} | {{comments3_5}} |\n| 3.6 | Fugitive emission controls implemented | {{status3_6}} | {{comments3_6}} |\n| 3.7 | Greenhouse gas emissions tracked | {{status3_7}} | {{comments3_7}} |\n| 3.8 | Ozone-depleting substances properly managed | {{status3_8}} | {{comments3_8}} |\n| 3.9 | Dust control measures implemented | {{status3_9}} | {{comments3_9}} |\n| 3.10 | Odor control measures implemented | {{status3_10}} | {{comments3_10}} |\n\n## 4. WASTEWATER MANAGEMENT\n\n| Item | Description | Status | Comments |\n|------|-------------|--------|----------|\n| 4.1 | Wastewater discharge points identified and permitted | {{status4_1}} | {{comments4_1}} |\n| 4.2 | Wastewater treatment systems properly operated and maintained | {{status4_2}} | {{comments4_2}} |\n| 4.3 | Discharge monitoring conducted as required | {{status4_3}} | {{comments4_3}} |\n| 4.4 | Discharge limits consistently met | {{status4_4}} | {{comments4_4}} |\n| 4.5 | Stormwater management practices implemented | {{status4_5}} | {{comments4_5}} |\n| 4.6 | Spill prevention controls in place | {{status4_6}} | {{comments4_6}} |\n| 4.7 | Sanitary sewer connections properly permitted | {{status4_7}} | {{comments4_7}} |\n| 4.8 | Oil-water separators maintained | {{status4_8}} | {{comments4_8}} |\n\n## 5. HAZARDOUS MATERIALS MANAGEMENT\n\n| Item | Description | Status | Comments |\n|------|-------------|--------|----------|\n| 5.1 | Hazardous materials inventory maintained | {{status5_1}} | {{comments5_1}} |\n| 5.2 | Safety Data Sheets (SDS) available and accessible | {{status5_2}} | {{comments5_2}} |\n| 5.3 | Proper storage practices implemented | {{status5_3}} | {{comments5_3}} |\n| 5.4 | Secondary containment provided where required | {{status5_4}} | {{comments5_4}} |\n| 5.5 | Containers properly labeled | {{status5_5}} | {{comments5_5}} |\n| 5.6 | Incompatible materials segregated | {{status5_6}} | {{comments5_6}} |\n| 5.7 | Spill response equipment available | {{status5_7}} | {{comments5_7}} |\n| 5.8 | Staff trained in spill response | {{status5_8}} | {{comments5_8}} |\n| 5.9 | Regular storage area inspections conducted | {{status5_9}} | {{comments5_9}} |\n\n## 6. WASTE MANAGEMENT\n\n| Item | Description | Status | Comments |\n|------|-------------|--------|----------|\n| 6.1 | Waste generators registration completed | {{status6_1}} | {{comments6_1}} |\n| 6.2 | Waste properly characterized and classified | {{status6_2}} | {{comments6_2}} |\n| 6.3 | Hazardous waste properly stored | {{status6_3}} | {{comments6_3}} |\n| 6.4 | Waste storage time limits observed | {{status6_4}} | {{comments6_4}} |\n| 6.5 | Proper waste containers used | {{status6_5}} | {{comments6_5}} |\n| 6.6 | Waste containers properly labeled | {{status6_6}} | {{comments6_6}} |\n| 6.7 | Waste manifests/shipping documents properly completed | {{status6_7}} | {{comments6_7}} |\n| 6.8 | Licensed waste transporters used | {{status6_8}} | {{comments6_8}} |\n| 6.9 | Approved disposal facilities used | {{status6_9}} | {{comments6_9}} |\n| 6.10 | Waste minimization program in place | {{status6_10}} | {{comments6_10}} |\n| 6.11 | Recycling program implemented | {{status6_11}} | {{comments6_11}} |\n\n## 7. STORAGE TANKS\n\n| Item | Description | Status | Comments |\n|------|-------------|--------|----------|\n| 7.1 | Storage tanks registered with authorities | {{status7_1}} | {{comments7_1}} |\n| 7.2 | Tanks inspected and tested as required | {{status7_2}} | {{comments7_2}} |\n| 7.3 | Leak detection systems functioning | {{status7_3}} | {{comments7_3}} |\n| 7.4 | Secondary containment in good condition | {{status7_4}} | {{comments7_4}} |\n| 7.5 | Overfill protection functioning | {{status7_5}} | {{comments7_5}} |\n| 7.6 | Tank gauging/monitoring systems operational | {{status7_6}} | {{comments7_6}} |\n| 7.7 | Tank certification current | {{status7_7}} | {{comments7_7}} |\n| 7.8 | Proper tank filling procedures followed | {{status7_8}} | {{comments7_8}} |\n\n## 8. HAZARDOUS SUBSTANCE REPORTING\n\n| Item | Description | Status | Comments |\n|------|-------------|--------|----------|\n| 8.1 | Chemical inventory reporting completed | {{status8_1}} | {{comments8_1}} |\n| 8.2 | Toxic Release Inventory (TRI)/National Pollutant Release Inventory (NPRI) reporting | {{status8_2}} | {{comments8_2}} |\n| 8.3 | Hazardous material transportation requirements met | {{status8_3}} | {{comments8_3}} |\n| 8.4 | Spill/release reporting procedures established | {{status8_4}} | {{comments8_4}} |\n| 8.5 | Records of past spills maintained | {{status8_5}} | {{comments8_5}} |\n\n## 9. NATURAL RESOURCES\n\n| Item | Description | Status | Comments |\n|------|-------------|--------|----------|\n| 9.1 | Wetlands protection measures implemented | {{status9_1}} | {{comments9_1}} |\n| 9.2 | Threatened/endangered species protection | {{status9_2}} | {{comments9_2}} |\n| 9.3 | Water use permits current | {{status9_3}} | {{comments9_3}} |\n| 9.4 | Water conservation measures implemented | {{status9_4}} | {{comments9_4}} |\n| 9.5 | Erosion and sediment controls in place | {{status9_5}} | {{comments9_5}} |\n\n## 10. SITE CONTAMINATION\n\n| Item | Description | Status | Comments |\n|------|-------------|--------|----------|\n| 10.1 | Known contaminated areas identified and mapped | {{status10_1}} | {{comments10_1}} |\n| 10.2 | Soil management procedures established | {{status10_2}} | {{comments10_2}} |\n| 10.3 | Groundwater monitoring conducted | {{status10_3}} | {{comments10_3}} |\n| 10.4 | Remediation activities properly managed | {{status10_4}} | {{comments10_4}} |\n| 10.5 | Land use restrictions observed | {{status10_5}} | {{comments10_5}} |\n\n## 11. NOISE AND VIBRATION\n\n| Item | Description | Status | Comments |\n|------|-------------|--------|----------|\n| 11.1 | Noise monitoring conducted | {{status11_1}} | {{comments11_1}} |\n| 11.2 | Noise levels within permitted limits | {{status11_2}} | {{comments11_2}} |\n| 11.3 | Noise reduction measures implemented | {{status11_3}} | {{comments11_3}} |\n| 11.4 | Vibration control measures implemented | {{status11_4}} | {{comments11_4}} |\n\n## 12. COMMUNITY RELATIONS\n\n| Item | Description | Status | Comments |\n|------|-------------|--------|----------|\n| 12.1 | Community complaints procedure established | {{status12_1}} | {{comments12_1}} |\n| 12.2 | Environmental information publicly available | {{status12_2}} | {{comments12_2}} |\n| 12.3 | Community engagement on environmental issues | {{status12_3}} | {{comments12_3}} |\n\n## SUMMARY OF FINDINGS\n\n### Compliance Status Summary\n\n{{complianceSummary}}\n\n### Key Non-Compliance Issues\n\n{{nonComplianceIssues}}\n\n### Recommended Corrective Actions\n\n{{correctiveActions}}\n\n## AUDIT CERTIFICATION\n\nI certify that this environmental compliance audit was conducted in accordance with established audit procedures and that the information contained herein is accurate to the best of my knowledge.\n\n**Auditor Signature:** ______________________\n\n**Auditor Name:** {{auditorName}}\n\n**Auditor Qualifications:** {{auditorQualifications}}\n\n**Date:** {{certificationDate}}\n\n## FACILITY REPRESENTATIVE ACKNOWLEDGMENT\n\nI acknowledge receipt of this Environmental Compliance Audit Report and understand the findings presented.\n\n**Facility Representative Signature:** ______________________\n\n**Facility Representative Name:** {{facilityRepName}}\n\n**Title:** {{facilityRepTitle}}\n\n**Date:** {{facilityRepDate}}', '[{"name":"facilityName","label":"Facility Name","type":"text","required":true},{"name":"facilityAddress","label":"Facility Address","type":"text","required":true},{"name":"contactPerson","label":"Contact Person","type":"text","required":true},{"name":"contactPhone","label":"Contact Phone","type":"text","required":true},{"name":"contactEmail","label":"Contact Email","type":"text","required":true},{"name":"facilityType","label":"Facility Type/Industry","type":"text","required":true},{"name":"auditDate","label":"Audit Date","type":"date","required":true},{"name":"auditorName","label":"Auditor Name","type":"text","required":true},{"name":"status1_1","label":"Environmental Policy Status","type":"text","required":true},{"name":"comments1_1","label":"Environmental Policy Comments","type":"text","required":false},{"name":"status1_2","label":"EMS Status","type":"text","required":true},{"name":"comments1_2","label":"EMS Comments","type":"text","required":false},{"name":"status1_3","label":"Environmental Responsibilities Status","type":"text","required":true},{"name":"comments1_3","label":"Environmental Responsibilities Comments","type":"text","required":false},{"name":"status1_4","label":"Internal Audits Status","type":"text","required":true},{"name":"comments1_4","label":"Internal Audits Comments","type":"text","required":false},{"name":"status1_5","label":"Staff Training Status","type":"text","required":true},{"name":"comments1_5","label":"Staff Training Comments","type":"text","required":false},{"name":"status1_6","label":"Environmental Records Status","type":"text","required":true},{"name":"comments1_6","label":"Environmental Records Comments","type":"text","required":false},{"name":"status1_7","label":"Incidents Procedure Status","type":"text","required":true},{"name":"comments1_7","label":"Incidents Procedure Comments","type":"text","required":false},{"name":"status1_8","label":"Emergency Response Status","type":"text","required":true},{"name":"comments1_8","label":"Emergency Response Comments","type":"text","required":false},{"name":"status2_1","label":"Environmental Permits Status","type":"text","required":true},{"name":"comments2_1","label":"Environmental Permits Comments","type":"text","required":false},{"name":"status2_2","label":"Permit Conditions Status","type":"text","required":true},{"name":"comments2_2","label":"Permit Conditions Comments","type":"text","required":false},{"name":"status2_3","label":"Permit Renewal Status","type":"text","required":true},{"name":"comments2_3","label":"Permit Renewal Comments","type":"text","required":false},{"name":"status2_4","label":"Permit Modification Status","type":"text","required":true},{"name":"comments2_4","label":"Permit Modification Comments","type":"text","required":false},{"name":"status2_5","label":"Permit Monitoring Status","type":"text","required":true},{"name":"comments2_5","label":"Permit Monitoring Comments","type":"text","required":false},{"name":"status2_6","label":"Permit Reporting Status","type":"text","required":true},{"name":"comments2_6","label":"Permit Reporting Comments","type":"text","required":false},{"name":"status3_1","label":"Air Emission Sources Status","type":"text","required":true},{"name":"comments3_1","label":"Air Emission Sources Comments","type":"text","required":false},{"name":"status3_2","label":"Air Permits Status","type":"text","required":true},{"name":"comments3_2","label":"Air Permits Comments","type":"text","required":false},{"name":"status3_3","label":"Emission Control Status","type":"text","required":true},{"name":"comments3_3","label":"Emission Control Comments","type":"text","required":false},{"name":"status3_4","label":"Stack Testing Status","type":"text","required":true},{"name":"comments3_4","label":"Stack Testing Comments","type":"text","required":false},{"name":"status3_5","label":"CEMS Status","type":"text","required":true},{"name":"comments3_5","label":"CEMS Comments","type":"text","required":false},{"name":"status3_6","label":"Fugitive Emissions Status","type":"text","required":true},{"name":"comments3_6","label":"Fugitive Emissions Comments","type":"text","required":false},{"name":"status3_7","label":"GHG Emissions Status","type":"text","required":true},{"name":"comments3_7","label":"GHG Emissions Comments","type":"text","required":false},{"name":"status3_8","label":"Ozone Substances Status","type":"text","required":true},{"name":"comments3_8","label":"Ozone Substances Comments","type":"text","required":false},{"name":"status3_9","label":"Dust Control Status","type":"text","required":true},{"name":"comments3_9","label":"Dust Control Comments","type":"text","required":false},{"name":"status3_10","label":"Odor Control Status","type":"text","required":true},{"name":"comments3_10","label":"Odor Control Comments","type":"text","required":false},{"name":"complianceSummary","label":"Compliance Status Summary","type":"textarea","required":true},{"name":"nonComplianceIssues","label":"Key Non-Compliance Issues","type":"textarea","required":true},{"name":"correctiveActions","label":"Recommended Corrective Actions","type":"textarea","required":true},{"name":"auditorQualifications","label":"Auditor Qualifications","type":"text","required":true},{"name":"certificationDate","label":"Certification Date","type":"date","required":true},{"name":"facilityRepName","label":"Facility Representative Name","type":"text","required":true},{"name":"facilityRepTitle","label":"Facility Representative Title","type":"text","required":true},{"name":"facilityRepDate","label":"Facility Representative Date","type":"date","required":true}]', 'Canada');
-
--- Municipal Law - Adding 2 more templates
-INSERT INTO document_templates (template_type, subcategory, title, description, language, template_content, fields, jurisdiction)
-VALUES 
-('municipal', 'noise-exemption', 'Noise Bylaw Exemption Application', 'Application for an exemption from local noise bylaws', 'en', '# APPLICATION FOR EXEMPTION FROM NOISE CONTROL BYLAW\n\n## APPLICANT INFORMATION\n\n**Date of Application:** {{applicationDate}}\n\n**Applicant Name:** {{applicantName}}\n\n**Organization/Company (if applicable):** {{organization}}\n\n**Mailing Address:** {{mailingAddress}}\n\n**City:** {{city}}\n\n**Province:** {{province}}\n\n**Postal Code:** {{postalCode}}\n\n**Phone Number:** {{phoneNumber}}\n\n**Email Address:** {{emailAddress}}\n\n## EVENT/ACTIVITY INFORMATION\n\n**Type of Event/Activity:** {{eventType}}\n\n**Purpose of Event/Activity:** {{eventPurpose}}\n\n**Location of Event/Activity:** {{eventLocation}}\n\n**Date(s) of Event/Activity:** {{eventDates}}\n\n**Start Time:** {{startTime}}\n\n**End Time:** {{endTime}}\n\n## NOISE SOURCE INFORMATION\n\n**Types of Noise Sources (check all that apply):**\n\n- {{musicOutdoor}} Outdoor Amplified Music/Sound\n- {{musicIndoor}} Indoor Amplified Music/Sound\n- {{liveMusic}} Live Music/Band/Performance\n- {{machinery}} Construction/Demolition Equipment\n- {{generators}} Generators\n- {{fireworks}} Fireworks\n- {{vehicles}} Vehicles/Engines\n- {{publicAddress}} Public Address System\n- {{other}} Other: {{otherSpecify}}\n\n**Describe the noise sources in detail:**\n\n{{noiseSourceDetails}}\n\n**Expected noise levels (if known):**\n\n{{noiseLevels}}\n\n## REASON FOR EXEMPTION REQUEST\n\n**Please provide a detailed explanation of why this exemption is necessary:**\n\n{{exemptionReason}}\n\n## NOISE MITIGATION MEASURES\n\n**Describe measures that will be taken to minimize noise impacts:**\n\n{{mitigationMeasures}}\n\n## NOTIFICATION PLAN\n\n**Describe how you will notify residents and businesses in the affected area:**\n\n{{notificationPlan}}\n\n**Radius of notification (in meters):** {{notificationRadius}}\n\n**Date(s) when notification will be provided:** {{notificationDates}}\n\n## PREVIOUS EXEMPTIONS\n\n**Have you previously applied for a noise exemption for this or a similar event?**\n\n{{previousExemption}}\n\n**If yes, please provide details (dates, locations, etc.):**\n\n{{previousExemptionDetails}}\n\n**Were there any noise complaints from previous events?**\n\n{{previousComplaints}}\n\n**If yes, please provide details and how these issues have been addressed:**\n\n{{complaintResolution}}\n\n## SITE PLAN\n\n**Please attach a site plan showing:**\n\n1. Location of event/activity\n2. Location of sound sources\n3. Direction of sound projection\n4. Location of nearby residences, businesses, and sensitive receptors (hospitals, schools, etc.)\n5. Sound monitoring locations (if applicable)\n\n{{sitePlanAttached}}\n\n## ADDITIONAL INFORMATION\n\n**Please provide any additional information that may support your application:**\n\n{{additionalInformation}}\n\n## TERMS AND CONDITIONS\n\n1. The applicant agrees to abide by all conditions imposed as part of any exemption granted.\n2. The municipality reserves the right to revoke any exemption granted if conditions are not met or if valid complaints are received.\n3. The applicant may be required to monitor noise levels during the event if specified as a condition of approval.\n4. The applicant agrees to respond promptly to any noise complaints received during the exemption period.\n5. A copy of the noise exemption approval must be available on-site during the event/activity.\n\n## DECLARATION\n\nI, {{applicantName}}, hereby certify that the information provided in this application is true and correct to the best of my knowledge. I understand that any false or misleading information may result in the denial or revocation of the noise exemption.\n\nI acknowledge that I have read and understand the terms and conditions associated with this application.\n\n**Signature:** ________________________\n\n**Date:** {{signatureDate}}\n\n## FOR MUNICIPAL USE ONLY\n\n**Application Received By:** _____________________\n\n**Date Received:** _____________________\n\n**File Number:** _____________________\n\n**Application Fee Paid:** _____________________\n\n**Decision:**\n\n- [ ] Approved\n- [ ] Approved with Conditions\n- [ ] Denied\n\n**Conditions of Approval:**\n\n_____________________\n_____________________\n_____________________\n_____________________\n\n**Authorized Signature:** _____________________\n\n**Title:** _____________________\n\n**Date:** _____________________', '[{"name":"applicationDate","label":"Application Date","type":"date","required":true},{"name":"applicantName","label":"Applicant Name","type":"text","required":true},{"name":"organization","label":"Organization/Company","type":"text","required":false},{"name":"mailingAddress","label":"Mailing Address","type":"text","required":true},{"name":"city","label":"City","type":"text","required":true},{"name":"province","label":"Province","type":"text","required":true},{"name":"postalCode","label":"Postal Code","type":"text","required":true},{"name":"phoneNumber","label":"Phone Number","type":"text","required":true},{"name":"emailAddress","label":"Email Address","type":"text","required":true},{"name":"eventType","label":"Type of Event/Activity","type":"text","required":true},{"name":"eventPurpose","label":"Purpose of Event/Activity","type":"textarea","required":true},{"name":"eventLocation","label":"Location of Event/Activity","type":"text","required":true},{"name":"eventDates","label":"Date(s) of Event/Activity","type":"text","required":true},{"name":"startTime","label":"Start Time","type":"text","required":true},{"name":"endTime","label":"End Time","type":"text","required":true},{"name":"musicOutdoor","label":"Outdoor Amplified Music/Sound","type":"checkbox","required":false},{"name":"musicIndoor","label":"Indoor Amplified Music/Sound","type":"checkbox","required":false},{"name":"liveMusic","label":"Live Music/Band/Performance","type":"checkbox","required":false},{"name":"machinery","label":"Construction/Demolition Equipment","type":"checkbox","required":false},{"name":"generators","label":"Generators","type":"checkbox","required":false},{"name":"fireworks","label":"Fireworks","type":"checkbox","required":false},{"name":"vehicles","label":"Vehicles/Engines","type":"checkbox","required":false},{"name":"publicAddress","label":"Public Address System","type":"checkbox","required":false},{"name":"other","label":"Other","type":"checkbox","required":false},{"name":"otherSpecify","label":"Other (Specify)","type":"text","required":false},{"name":"noiseSourceDetails","label":"Noise Source Details","type":"textarea","required":true},{"name":"noiseLevels","label":"Expected Noise Levels","type":"text","required":false},{"name":"exemptionReason","label":"Reason for Exemption","type":"textarea","required":true},{"name":"mitigationMeasures","label":"Mitigation Measures","type":"textarea","required":true},{"name":"notificationPlan","label":"Notification Plan","type":"textarea","required":true},{"name":"notificationRadius","label":"Notification Radius (meters)","type":"text","required":true},{"name":"notificationDates","label":"Notification Dates","type":"text","required":true},{"name":"previousExemption","label":"Previous Exemption (Yes/No)","type":"text","required":true},{"name":"previousExemptionDetails","label":"Previous Exemption Details","type":"textarea","required":false},{"name":"previousComplaints","label":"Previous Complaints (Yes/No)","type":"text","required":true},{"name":"complaintResolution","label":"Complaint Resolution","type":"textarea","required":false},{"name":"sitePlanAttached","label":"Site Plan Attached (Yes/No)","type":"text","required":true},{"name":"additionalInformation","label":"Additional Information","type":"textarea","required":false},{"name":"signatureDate","label":"Signature Date","type":"date","required":true}]', 'Canada'),
-
-('municipal', 'property-variance', 'Zoning Variance Request Letter', 'Letter requesting a variance from municipal zoning requirements', 'en', '# ZONING VARIANCE REQUEST LETTER\n\n{{currentDate}}\n\n{{municipalPlanningDepartment}}\n{{municipalAddress}}\n{{municipalCity}}, {{municipalProvince}} {{municipalPostalCode}}\n\nRE: Request for Zoning Variance for Property Located at {{propertyAddress}}\n\nDear Members of the {{decisionMakingBody}}:\n\nI, {{applicantName}}, am writing to request a zoning variance for my property located at {{propertyAddress}}, {{propertyCity}}, {{propertyProvince}}, with the legal description of {{legalDescription}} and property identification number {{propertyID}}. I am seeking relief from certain zoning requirements as detailed below.\n\n## PROPERTY INFORMATION\n\n**Current Zoning:** {{currentZoning}}\n**Property Size:** {{propertySize}}\n**Current Use:** {{currentUse}}\n**Proposed Use (if changing):** {{proposedUse}}\n\n## VARIANCE REQUESTED\n\nI am requesting a variance from the following section(s) of the municipal zoning bylaw:\n\n**Bylaw/Section Number:** {{bylawSectionNumber}}\n**Bylaw Requirement:** {{bylawRequirement}}\n**Requested Variance:** {{requestedVariance}}\n\n**Additional Variances (if applicable):**\n{{additionalVariances}}\n\n## REASON FOR VARIANCE REQUEST\n\n{{varianceReason}}\n\n## CRITERIA FOR VARIANCE APPROVAL\n\nI understand that in order to be granted a variance, my request must meet certain criteria established by municipal regulations. Below, I address how my request meets each of these criteria:\n\n### 1. Special Circumstances/Hardship\n\n{{specialCircumstances}}\n\n### 2. Not Self-Created\n\n{{notSelfCreated}}\n\n### 3. Essential Character of Neighborhood\n\n{{neighborhoodCharacter}}\n\n### 4. Minimum Variance Necessary\n\n{{minimumVariance}}\n\n### 5. Public Interest\n\n{{publicInterest}}\n\n## IMPACT ON ADJACENT PROPERTIES\n\n{{adjacentImpact}}\n\n## PROPOSED MITIGATION MEASURES\n\n{{mitigationMeasures}}\n\n## COMMUNITY CONSULTATION\n\nI have undertaken the following steps to consult with and inform my neighbors about this variance request:\n\n{{communityConsultation}}\n\n## SUPPORTING DOCUMENTATION\n\nThe following documents are enclosed to support this variance request:\n\n1. Survey/Site Plan showing the property and proposed variance\n2. Photographs of the property and surrounding area\n3. Building/development plans (if applicable)\n4. Letters of support from neighbors (if available)\n5. {{additionalDocuments}}\n\n## CONCLUSION\n\nBased on the information provided above, I respectfully request that the {{decisionMakingBody}} approve this variance request. The requested variance represents the minimum deviation necessary from the zoning requirements to allow reasonable use of my property while maintaining the integrity of the zoning bylaw and the character of the neighborhood.\n\nI am available to answer any questions, provide additional information, or meet with municipal staff as needed. I can be reached at {{phoneNumber}} or {{emailAddress}}.\n\nThank you for your consideration of this request.\n\nSincerely,\n\n{{signature}}\n\n{{applicantName}}\n{{applicantAddress}}\n{{applicantCity}}, {{applicantProvince}} {{applicantPostalCode}}\nPhone: {{phoneNumber}}\nEmail: {{emailAddress}}\n\n## ENCLOSURES\n\n- Survey/Site Plan\n- Photographs\n- Building/Development Plans\n- Letters of Support\n- {{enclosures}}', '[{"name":"currentDate","label":"Current Date","type":"date","required":true},{"name":"municipalPlanningDepartment","label":"Municipal Planning Department","type":"text","required":true},{"name":"municipalAddress","label":"Municipal Address","type":"text","required":true},{"name":"municipalCity","label":"Municipal City","type":"text","required":true},{"name":"municipalProvince","label":"Municipal Province","type":"text","required":true},{"name":"municipalPostalCode","label":"Municipal Postal Code","type":"text","required":true},{"name":"propertyAddress","label":"Property Address","type":"text","required":true},{"name":"decisionMakingBody","label":"Decision Making Body","type":"text","required":true,"helper":"E.g., Zoning Board of Appeals, Committee of Adjustment, Planning Commission"},{"name":"applicantName","label":"Applicant Name","type":"text","required":true},{"name":"propertyCity","label":"Property City","type":"text","required":true},{"name":"propertyProvince","label":"Property Province","type":"text","required":true},{"name":"legalDescription","label":"Legal Description","type":"text","required":true},{"name":"propertyID","label":"Property ID Number","type":"text","required":true},{"name":"currentZoning","label":"Current Zoning","type":"text","required":true},{"name":"propertySize","label":"Property Size","type":"text","required":true},{"name":"currentUse","label":"Current Use","type":"text","required":true},{"name":"proposedUse","label":"Proposed Use","type":"text","required":false},{"name":"bylawSectionNumber","label":"Bylaw Section Number","type":"text","required":true},{"name":"bylawRequirement","label":"Bylaw Requirement","type":"textarea","required":true},{"name":"requestedVariance","label":"Requested Variance","type":"textarea","required":true},{"name":"additionalVariances","label":"Additional Variances","type":"textarea","required":false},{"name":"varianceReason","label":"Reason for Variance Request","type":"textarea","required":true},{"name":"specialCircumstances","label":"Special Circumstances/Hardship","type":"textarea","required":true},{"name":"notSelfCreated","label":"Not Self-Created","type":"textarea","required":true},{"name":"neighborhoodCharacter","label":"Neighborhood Character","type":"textarea","required":true},{"name":"minimumVariance","label":"Minimum Variance Necessary","type":"textarea","required":true},{"name":"publicInterest","label":"Public Interest","type":"textarea","required":true},{"name":"adjacentImpact","label":"Impact on Adjacent Properties","type":"textarea","required":true},{"name":"mitigationMeasures","label":"Mitigation Measures","type":"textarea","required":true},{"name":"communityConsultation","label":"Community Consultation","type":"textarea","required":true},{"name":"additionalDocuments","label":"Additional Documents","type":"textarea","required":false},{"name":"phoneNumber","label":"Phone Number","type":"text","required":true},{"name":"emailAddress","label":"Email Address","type":"text","required":true},{"name":"signature","label":"Signature","type":"text","required":true},{"name":"applicantAddress","label":"Applicant Address","type":"text","required":true},{"name":"applicantCity","label":"Applicant City","type":"text","required":true},{"name":"applicantProvince","label":"Applicant Province","type":"text","required":true},{"name":"applicantPostalCode","label":"Applicant Postal Code","type":"text","required":true},{"name":"enclosures","label":"Additional Enclosures","type":"textarea","required":false}]', 'Canada');
-
--- I'll continue with the next part of the script in subsequent calls
-psql $DATABASE_URL < ./add_templates2.sql
-
-echo "Second batch of templates added successfully."
@@ -1,20 +0,0 @@
--- Personal Injury - Adding 2 more templates
-INSERT INTO document_templates (template_type, subcategory, title, description, language, template_content, fields, jurisdiction)
-VALUES 
-('personal-injury', 'slip-fall', 'Slip and Fall Incident Report', 'Detailed report for documenting a slip and fall incident', 'en', '# SLIP AND FALL INCIDENT REPORT\n\n## INCIDENT DETAILS\n\n**Date of Incident:** {{incidentDate}}\n\n**Time of Incident:** {{incidentTime}}\n\n**Location of Incident (be specific):** {{incidentLocation}}\n\n**Weather Conditions (if outdoors):** {{weatherConditions}}\n\n**Lighting Conditions:** {{lightingConditions}}\n\n## PERSON INFORMATION\n\n**Full Name:** {{fullName}}\n\n**Date of Birth:** {{dateOfBirth}}\n\n**Address:** {{address}}\n\n**City:** {{city}} **Province:** {{province}} **Postal Code:** {{postalCode}}\n\n**Phone Number:** {{phoneNumber}}\n\n**Email Address:** {{emailAddress}}\n\n**Occupation:** {{occupation}}\n\n**Employer:** {{employer}}\n\n## INCIDENT DESCRIPTION\n\n**Detailed Description of What Happened:**\n\n{{incidentDescription}}\n\n**What Caused the Fall?** (Check all that apply)\n\n- {{wetFloor}} Wet Floor\n- {{iceSnow}} Ice/Snow\n- {{unevenSurface}} Uneven Surface\n- {{poorMaintenance}} Poor Maintenance\n- {{inadequateLighting}} Inadequate Lighting\n- {{debris}} Debris/Object on Floor\n- {{looseFlooring}} Loose Flooring/Carpet\n- {{missingWarningSign}} Missing Warning Sign\n- {{structuralDefect}} Structural Defect\n- {{otherCause}} Other: {{otherCauseSpecify}}\n\n**Was the hazard visible before the fall?** {{hazardVisible}}\n\n**How long had the hazard been present (if known)?** {{hazardDuration}}\n\n**Footwear worn at time of incident:** {{footwear}}\n\n## INJURIES\n\n**Description of Injuries:**\n\n{{injuryDescription}}\n\n**Body Parts Affected:** (Check all that apply)\n\n- {{head}} Head\n- {{neck}} Neck\n- {{shoulder}} Shoulder ({{leftShoulder}} Left {{rightShoulder}} Right)\n- {{arm}} Arm ({{leftArm}} Left {{rightArm}} Right)\n- {{wrist}} Wrist ({{leftWrist}} Left {{rightWrist}} Right)\n- {{hand}} Hand ({{leftHand}} Left {{rightHand}} Right)\n- {{back}} Back ({{upperBack}} Upper {{lowerBack}} Lower)\n- {{hip}} Hip ({{leftHip}} Left {{rightHip}} Right)\n- {{leg}} Leg ({{leftLeg}} Left {{rightLeg}} Right)\n- {{knee}} Knee ({{leftKnee}} Left {{rightKnee}} Right)\n- {{ankle}} Ankle ({{leftAnkle}} Left {{rightAnkle}} Right)\n- {{foot}} Foot ({{leftFoot}} Left {{rightFoot}} Right)\n- {{other}} Other: {{otherSpecify}}\n\n**Did you lose consciousness?** {{lostConsciousness}}\n\n**Was first aid administered at the scene?** {{firstAid}}\n\n**If yes, by whom?** {{firstAidProvider}}\n\n**First aid measures taken:** {{firstAidMeasures}}\n\n## MEDICAL TREATMENT\n\n**Did you seek medical attention?** {{medicalAttention}}\n\n**Date of first medical visit:** {{medicalVisitDate}}\n\n**Healthcare Provider/Facility Name:** {{healthcareProvider}}\n\n**Address:** {{healthcareAddress}}\n\n**Phone Number:** {{healthcarePhone}}\n\n**Diagnosis (if known):** {{diagnosis}}\n\n**Treatment received:** {{treatment}}\n\n**Were you hospitalized?** {{hospitalized}}\n\n**If yes, for how long?** {{hospitalDuration}}\n\n**Are you still receiving treatment?** {{ongoingTreatment}}\n\n**If yes, describe current treatment:** {{currentTreatment}}\n\n## WITNESSES\n\n**Were there witnesses to the incident?** {{witnesses}}\n\n### Witness 1:\n\n**Name:** {{witness1Name}}\n\n**Contact Information:** {{witness1Contact}}\n\n**Relationship to you (if any):** {{witness1Relationship}}\n\n### Witness 2:\n\n**Name:** {{witness2Name}}\n\n**Contact Information:** {{witness2Contact}}\n\n**Relationship to you (if any):** {{witness2Relationship}}\n\n## PROPERTY OWNER/MANAGER INFORMATION\n\n**Property Owner/Manager Name:** {{propertyOwner}}\n\n**Company Name (if applicable):** {{companyName}}\n\n**Address:** {{propertyOwnerAddress}}\n\n**Phone Number:** {{propertyOwnerPhone}}\n\n**Email Address:** {{propertyOwnerEmail}}\n\n**Was the incident reported to the property owner/manager?** {{incidentReported}}\n\n**If yes, when and to whom was it reported?** {{reportDetails}}\n\n**What was their response?** {{ownerResponse}}\n\n## DOCUMENTATION\n\n**Have you taken photographs of the following?** (Check all that apply)\n\n- {{areaPhotos}} The area where the incident occurred\n- {{hazardPhotos}} The specific hazard that caused the fall\n- {{injuryPhotos}} Your injuries\n- {{clothingPhotos}} Clothing/footwear worn during the incident\n- {{signagePhotos}} Warning signs (or lack thereof)\n- {{otherPhotos}} Other: {{otherPhotosSpecify}}\n\n**Have you kept the following items?** (Check all that apply)\n\n- {{medicalRecords}} Medical records related to this incident\n- {{medicalBills}} Medical bills/receipts\n- {{incidentReports}} Incident reports filed with property owner/manager\n- {{clothingFootwear}} Clothing/footwear worn during the incident\n- {{witnessStatements}} Witness statements\n- {{otherEvidence}} Other: {{otherEvidenceSpecify}}\n\n## IMPACT OF INJURIES\n\n**Have you missed work due to this incident?** {{missedWork}}\n\n**If yes, dates missed:** {{datesMissed}}\n\n**Estimated lost wages (if applicable):** {{lostWages}}\n\n**How have these injuries affected your daily activities?**\n\n{{activitiesImpact}}\n\n**How have these injuries affected your ability to work?**\n\n{{workImpact}}\n\n## ADDITIONAL INFORMATION\n\n**Have you been involved in any previous slip and fall incidents?** {{previousIncidents}}\n\n**If yes, please provide details:** {{previousIncidentsDetails}}\n\n**Do you have any pre-existing conditions that may relate to your current injuries?** {{preExistingConditions}}\n\n**If yes, please provide details:** {{preExistingDetails}}\n\n**Additional comments or information:**\n\n{{additionalComments}}\n\n## DECLARATION\n\nI, {{fullName}}, declare that the information provided in this report is true and accurate to the best of my knowledge and belief.\n\n**Signature:** ______________________\n\n**Date:** {{signatureDate}}\n\n## PRIVACY STATEMENT\n\nThe information collected in this form is for the purpose of documenting a slip and fall incident and may be used for insurance claims, legal proceedings, or safety improvement initiatives. Your personal information will be kept confidential and will only be shared with those who have a legitimate need to know for the purposes stated above. You have the right to access and correct your personal information.', '[{"name":"incidentDate","label":"Incident Date","type":"date","required":true},{"name":"incidentTime","label":"Incident Time","type":"text","required":true},{"name":"incidentLocation","label":"Incident Location","type":"text","required":true},{"name":"weatherConditions","label":"Weather Conditions","type":"text","required":false},{"name":"lightingConditions","label":"Lighting Conditions","type":"text","required":true},{"name":"fullName","label":"Full Name","type":"text","required":true},{"name":"dateOfBirth","label":"Date of Birth","type":"date","required":true},{"name":"address","label":"Address","type":"text","required":true},{"name":"city","label":"City","type":"text","required":true},{"name":"province","label":"Province","type":"text","required":true},{"name":"postalCode","label":"Postal Code","type":"text","required":true},{"name":"phoneNumber","label":"Phone Number","type":"text","required":true},{"name":"emailAddress","label":"Email Address","type":"text","required":true},{"name":"occupation","label":"Occupation","type":"text","required":true},{"name":"employer","label":"Employer","type":"text","required":true},{"name":"incidentDescription","label":"Incident Description","type":"textarea","required":true},{"name":"wetFloor","label":"Wet Floor","type":"checkbox","required":false},{"name":"iceSnow","label":"Ice/Snow","type":"checkbox","required":false},{"name":"unevenSurface","label":"Uneven Surface","type":"checkbox","required":false},{"name":"poorMaintenance","label":"Poor Maintenance","type":"checkbox","required":false},{"name":"inadequateLighting","label":"Inadequate Lighting","type":"checkbox","required":false},{"name":"debris","label":"Debris/Object on Floor","type":"checkbox","required":false},{"name":"looseFlooring","label":"Loose Flooring/Carpet","type":"checkbox","required":false},{"name":"missingWarningSign","label":"Missing Warning Sign","type":"checkbox","required":false},{"name":"structuralDefect","label":"Structural Defect","type":"checkbox","required":false},{"name":"otherCause","label":"Other Cause","type":"checkbox","required":false},{"name":"otherCauseSpecify","label":"Other Cause (Specify)","type":"text","required":false},{"name":"hazardVisible","label":"Was Hazard Visible","type":"text","required":true},{"name":"hazardDuration","label":"Hazard Duration","type":"text","required":false},{"name":"footwear","label":"Footwear Worn","type":"text","required":true},{"name":"injuryDescription","label":"Injury Description","type":"textarea","required":true},{"name":"head","label":"Head","type":"checkbox","required":false},{"name":"neck","label":"Neck","type":"checkbox","required":false},{"name":"shoulder","label":"Shoulder","type":"checkbox","required":false},{"name":"leftShoulder","label":"Left Shoulder","type":"checkbox","required":false},{"name":"rightShoulder","label":"Right Shoulder","type":"checkbox","required":false},{"name":"arm","label":"Arm","type":"checkbox","required":false},{"name":"leftArm","label":"Left Arm","type":"checkbox","required":false},{"name":"rightArm","label":"Right Arm","type":"checkbox","required":false},{"name":"wrist","label":"Wrist","type":"checkbox","required":false},{"name":"leftWrist","label":"Left Wrist","type":"checkbox","required":false},{"name":"rightWrist","label":"Right Wrist","type":"checkbox","required":false},{"name":"hand","label":"Hand","type":"checkbox","required":false},{"name":"leftHand","label":"Left Hand","type":"checkbox","required":false},{"name":"rightHand","label":"Right Hand","type":"checkbox","required":false},{"name":"back","label":"Back","type":"checkbox","required":false},{"name":"upperBack","label":"Upper Back","type":"checkbox","required":false},{"name":"lowerBack","label":"Lower Back","type":"checkbox","required":false},{"name":"hip","label":"Hip","type":"checkbox","required":false},{"name":"leftHip","label":"Left Hip","type":"checkbox","required":false},{"name":"rightHip","label":"Right Hip","type":"checkbox","required":false},{"name":"leg","label":"Leg","type":"checkbox","required":false},{"name":"leftLeg","label":"Left Leg","type":"checkbox","required":false},{"name":"rightLeg","label":"Right Leg","type":"checkbox","required":false},{"name":"knee","label":"Knee","type":"checkbox","required":false},{"name":"leftKnee","label":"Left Knee","type":"checkbox","required":false},{"name":"rightKnee","label":"Right Knee","type":"checkbox","required":false},{"name":"ankle","label":"Ankle","type":"checkbox","required":false},{"name":"leftAnkle","label":"Left Ankle","type":"checkbox","required":false},{"name":"rightAnkle","label":"Right Ankle","type":"checkbox","required":false},{"name":"foot","label":"Foot","type":"checkbox","required":false},{"name":"leftFoot","label":"Left Foot","type":"checkbox","required":false},{"name":"rightFoot","label":"Right Foot","type":"checkbox","required":false},{"name":"other","label":"Other Body Part","type":"checkbox","required":false},{"name":"otherSpecify","label":"Other Body Part (Specify)","type":"text","required":false},{"name":"lostConsciousness","label":"Lost Consciousness","type":"text","required":true},{"name":"firstAid","label":"First Aid Administered","type":"text","required":true},{"name":"firstAidProvider","label":"First Aid Provider","type":"text","required":false},{"name":"firstAidMeasures","label":"First Aid Measures","type":"textarea","required":false},{"name":"medicalAttention","label":"Medical Attention Sought","type":"text","required":true},{"name":"medicalVisitDate","label":"Medical Visit Date","type":"date","required":false},{"name":"healthcareProvider","label":"Healthcare Provider","type":"text","required":false},{"name":"healthcareAddress","label":"Healthcare Address","type":"text","required":false},{"name":"healthcarePhone","label":"Healthcare Phone","type":"text","required":false},{"name":"diagnosis","label":"Diagnosis","type":"text","required":false},{"name":"treatment","label":"Treatment Received","type":"textarea","required":false},{"name":"hospitalized","label":"Hospitalized","type":"text","required":true},{"name":"hospitalDuration","label":"Hospital Duration","type":"text","required":false},{"name":"ongoingTreatment","label":"Ongoing Treatment","type":"text","required":true},{"name":"currentTreatment","label":"Current Treatment","type":"textarea","required":false},{"name":"witnesses","label":"Witnesses Present","type":"text","required":true},{"name":"witness1Name","label":"Witness 1 Name","type":"text","required":false},{"name":"witness1Contact","label":"Witness 1 Contact","type":"text","required":false},{"name":"witness1Relationship","label":"Witness 1 Relationship","type":"text","required":false},{"name":"witness2Name","label":"Witness 2 Name","type":"text","required":false},{"name":"witness2Contact","label":"Witness 2 Contact","type":"text","required":false},{"name":"witness2Relationship","label":"Witness 2 Relationship","type":"text","required":false},{"name":"propertyOwner","label":"Property Owner/Manager Name","type":"text","required":true},{"name":"companyName","label":"Company Name","type":"text","required":false},{"name":"propertyOwnerAddress","label":"Property Owner Address","type":"text","required":true},{"name":"propertyOwnerPhone","label":"Property Owner Phone","type":"text","required":true},{"name":"propertyOwnerEmail","label":"Property Owner Email","type":"text","required":false},{"name":"incidentReported","label":"Incident Reported","type":"text","required":true},{"name":"reportDetails","label":"Report Details","type":"text","required":false},{"name":"ownerResponse","label":"Owner Response","type":"textarea","required":false},{"name":"areaPhotos","label":"Area Photos","type":"checkbox","required":false},{"name":"hazardPhotos","label":"Hazard Photos","type":"checkbox","required":false},{"name":"injuryPhotos","label":"Injury Photos","type":"checkbox","required":false},{"name":"clothingPhotos","label":"Clothing Photos","type":"checkbox","required":false},{"name":"signagePhotos","label":"Signage Photos","type":"checkbox","required":false},{"name":"otherPhotos","label":"Other Photos","type":"checkbox","required":false},{"name":"otherPhotosSpecify","label":"Other Photos (Specify)","type":"text","required":false},{"name":"medicalRecords","label":"Medical Records","type":"checkbox","required":false},{"name":"medicalBills","label":"Medical Bills","type":"checkbox","required":false},{"name":"incidentReports","label":"Incident Reports","type":"checkbox","required":false},{"name":"clothingFootwear","label":"Clothing/Footwear","type":"checkbox","required":false},{"name":"witnessStatements","label":"Witness Statements","type":"checkbox","required":false},{"name":"otherEvidence","label":"Other Evidence","type":"checkbox","required":false},{"name":"otherEvidenceSpecify","label":"Other Evidence (Specify)","type":"text","required":false},{"name":"missedWork","label":"Missed Work","type":"text","required":true},{"name":"datesMissed","label":"Dates Missed","type":"text","required":false},{"name":"lostWages","label":"Lost Wages","type":"text","required":false},{"name":"activitiesImpact","label":"Activities Impact","type":"textarea","required":true},{"name":"workImpact","label":"Work Impact","type":"textarea","required":true},{"name":"previousIncidents","label":"Previous Incidents","type":"text","required":true},{"name":"previousIncidentsDetails","label":"Previous Incidents Details","type":"textarea","required":false},{"name":"preExistingConditions","label":"Pre-existing Conditions","type":"text","required":true},{"name":"preExistingDetails","label":"Pre-existing Details","type":"textarea","required":false},{"name":"additionalComments","label":"Additional Comments","type":"textarea","required":false},{"name":"signatureDate","label":"Signature Date","type":"date","required":true}]', 'Canada'),
-
-('personal-injury', 'disability-claim', 'Long-Term Disability Claim Letter', 'Letter to insurance company for long-term disability benefits', 'en', '# LONG-TERM DISABILITY CLAIM LETTER\n\n{{currentDate}}\n\n{{insuranceCompanyName}}\n{{insuranceCompanyAddress}}\n{{insuranceCompanyCity}}, {{insuranceCompanyProvince}} {{insuranceCompanyPostalCode}}\n\n**RE: Long-Term Disability Claim for {{fullName}}\nPolicy Number: {{policyNumber}}\nClaim Number: {{claimNumber}} (if already assigned)\nDate of Disability: {{disabilityDate}}**\n\nDear Claims Administrator:\n\nI am writing to {{initialOrAppeal}} a claim for long-term disability benefits under my group insurance policy. This letter provides a comprehensive overview of my medical condition, treatment history, and how my disability affects my ability to perform the duties of my occupation.\n\n## PERSONAL AND EMPLOYMENT INFORMATION\n\n**Full Name:** {{fullName}}\n**Date of Birth:** {{dateOfBirth}}\n**Address:** {{address}}, {{city}}, {{province}} {{postalCode}}\n**Phone:** {{phoneNumber}}\n**Email:** {{emailAddress}}\n\n**Employer:** {{employerName}}\n**Job Title:** {{jobTitle}}\n**Employment Start Date:** {{employmentStartDate}}\n**Last Day Worked:** {{lastDayWorked}}\n**Supervisor Name:** {{supervisorName}}\n**Supervisor Contact:** {{supervisorContact}}\n\n## DISABILITY INFORMATION\n\n**Nature of Disability/Medical Condition(s):**\n\n{{medicalConditions}}\n\n**Date Disability Began:** {{disabilityDate}}\n\n**Symptoms and How They Affect My Ability to Work:**\n\n{{symptomsWorkImpact}}\n\n**Progression of Condition Since Onset:**\n\n{{conditionProgression}}\n\n## JOB DUTIES AND DISABILITY IMPACT\n\n**Description of Regular Job Duties:**\n\n{{jobDuties}}\n\n**Physical Requirements of Position:**\n\n{{physicalRequirements}}\n\n**Cognitive Requirements of Position:**\n\n{{cognitiveRequirements}}\n\n**How My Disability Prevents Me From Performing These Duties:**\n\n{{disabilityJobImpact}}\n\n## MEDICAL TREATMENT\n\n**Primary Care Physician:**\n- Name: {{primaryPhysicianName}}\n- Address: {{primaryPhysicianAddress}}\n- Phone: {{primaryPhysicianPhone}}\n- Date of First Visit for This Condition: {{primaryPhysicianFirstVisit}}\n- Frequency of Ongoing Treatment: {{primaryPhysicianFrequency}}\n\n**Specialist #1:**\n- Name: {{specialist1Name}}\n- Specialty: {{specialist1Specialty}}\n- Address: {{specialist1Address}}\n- Phone: {{specialist1Phone}}\n- Date of First Visit: {{specialist1FirstVisit}}\n- Frequency of Ongoing Treatment: {{specialist1Frequency}}\n\n**Specialist #2 (if applicable):**\n- Name: {{specialist2Name}}\n- Specialty: {{specialist2Specialty}}\n- Address: {{specialist2Address}}\n- Phone: {{specialist2Phone}}\n- Date of First Visit: {{specialist2FirstVisit}}\n- Frequency of Ongoing Treatment: {{specialist2Frequency}}\n\n**Hospital Admissions (if applicable):**\n\n{{hospitalAdmissions}}\n\n**Current Medications:**\n\n{{currentMedications}}\n\n**Current Treatment Plan and Therapies:**\n\n{{treatmentPlan}}\n\n**Planned Medical Procedures or Treatments:**\n\n{{plannedProcedures}}\n\n## PROGNOSIS AND RETURN TO WORK\n\n**Prognosis According to My Healthcare Providers:**\n\n{{prognosis}}\n\n**Expected Duration of Disability:**\n\n{{expectedDuration}}\n\n**Possibility of Return to Work with Accommodations:**\n\n{{accommodationsPossibility}}\n\n**Potential Accommodations That Would Enable Return to Work:**\n\n{{potentialAccommodations}}\n\n## OTHER DISABILITY BENEFITS\n\n**Have you applied for or are you receiving any of the following benefits?**\n\n- Canada Pension Plan (CPP) Disability Benefits: {{cppStatus}}\n- Employment Insurance (EI) Sickness Benefits: {{eiStatus}}\n- Workers' Compensation Benefits: {{wcbStatus}}\n- Short-Term Disability Benefits: {{stdStatus}}\n- Automobile Insurance Benefits: {{autoInsuranceStatus}}\n- Other Disability Benefits: {{otherBenefitsStatus}}\n\n**Details of Other Benefits Applied For or Received:**\n\n{{otherBenefitsDetails}}\n\n## ADDITIONAL INFORMATION\n\n{{additionalInformation}}\n\n## ENCLOSED DOCUMENTATION\n\nTo support my claim for long-term disability benefits, I have enclosed the following documentation:\n\n1. Completed Disability Claim Application Form\n2. Attending Physician Statement from Dr. {{physicianName}}\n3. Employer Statement completed by {{employerContactName}}\n4. Medical records from {{medicalRecordsSource}}\n5. Diagnostic test results from {{diagnosticTestsSource}}\n6. {{additionalDocumentation}}\n\n## CONCLUSION\n\nBased on the information provided above and the enclosed medical documentation, I believe I qualify for long-term disability benefits under my policy. My medical condition prevents me from performing the substantial duties of my regular occupation, and I am following the prescribed treatment plan from my healthcare providers.\n\nPlease contact me at {{phoneNumber}} or {{emailAddress}} if you require any additional information to process my claim. I look forward to your timely review and approval of my disability benefits.\n\nThank you for your attention to this matter.\n\nSincerely,\n\n{{signature}}\n\n{{fullName}}\n\n## ENCLOSURES\n\n- Disability Claim Application Form\n- Attending Physician Statement\n- Employer Statement\n- Medical Records\n- Diagnostic Test Results\n- {{additionalEnclosures}}', '[{"name":"currentDate","label":"Current Date","type":"date","required":true},{"name":"insuranceCompanyName","label":"Insurance Company Name","type":"text","required":true},{"name":"insuranceCompanyAddress","label":"Insurance Company Address","type":"text","required":true},{"name":"insuranceCompanyCity","label":"Insurance Company City","type":"text","required":true},{"name":"insuranceCompanyProvince","label":"Insurance Company Province","type":"text","required":true},{"name":"insuranceCompanyPostalCode","label":"Insurance Company Postal Code","type":"text","required":true},{"name":"fullName","label":"Full Name","type":"text","required":true},{"name":"policyNumber","label":"Policy Number","type":"text","required":true},{"name":"claimNumber","label":"Claim Number","type":"text","required":false},{"name":"disabilityDate","label":"Disability Date","type":"date","required":true},{"name":"initialOrAppeal","label":"Initial Claim or Appeal","type":"text","required":true},{"name":"dateOfBirth","label":"Date of Birth","type":"date","required":true},{"name":"address","label":"Address","type":"text","required":true},{"name":"city","label":"City","type":"text","required":true},{"name":"province","label":"Province","type":"text","required":true},{"name":"postalCode","label":"Postal Code","type":"text","required":true},{"name":"phoneNumber","label":"Phone Number","type":"text","required":true},{"name":"emailAddress","label":"Email Address","type":"text","required":true},{"name":"employerName","label":"Employer Name","type":"text","required":true},{"name":"jobTitle","label":"Job Title","type":"text","required":true},{"name":"employmentStartDate","label":"Employment Start Date","type":"date","required":true},{"name":"lastDayWorked","label":"Last Day Worked","type":"date","required":true},{"name":"supervisorName","label":"Supervisor Name","type":"text","required":true},{"name":"supervisorContact","label":"Supervisor Contact","type":"text","required":true},{"name":"medicalConditions","label":"Medical Conditions","type":"textarea","required":true},{"name":"symptomsWorkImpact","label":"Symptoms and Work Impact","type":"textarea","required":true},{"name":"conditionProgression","label":"Condition Progression","type":"textarea","required":true},{"name":"jobDuties","label":"Job Duties","type":"textarea","required":true},{"name":"physicalRequirements","label":"Physical Requirements","type":"textarea","required":true},{"name":"cognitiveRequirements","label":"Cognitive Requirements","type":"textarea","required":true},{"name":"disabilityJobImpact","label":"Disability Impact on Job","type":"textarea","required":true},{"name":"primaryPhysicianName","label":"Primary Physician Name","type":"text","required":true},{"name":"primaryPhysicianAddress","label":"Primary Physician Address","type":"text","required":true},{"name":"primaryPhysicianPhone","label":"Primary Physician Phone","type":"text","required":true},{"name":"primaryPhysicianFirstVisit","label":"Primary Physician First Visit","type":"date","required":true},{"name":"primaryPhysicianFrequency","label":"Primary Physician Visit Frequency","type":"text","required":true},{"name":"specialist1Name","label":"Specialist 1 Name","type":"text","required":false},{"name":"specialist1Specialty","label":"Specialist 1 Specialty","type":"text","required":false},{"name":"specialist1Address","label":"Specialist 1 Address","type":"text","required":false},{"name":"specialist1Phone","label":"Specialist 1 Phone","type":"text","required":false},{"name":"specialist1FirstVisit","label":"Specialist 1 First Visit","type":"date","required":false},{"name":"specialist1Frequency","label":"Specialist 1 Visit Frequency","type":"text","required":false},{"name":"specialist2Name","label":"Specialist 2 Name","type":"text","required":false},{"name":"specialist2Specialty","label":"Specialist 2 Specialty","type":"text","required":false},{"name":"specialist2Address","label":"Specialist 2 Address","type":"text","required":false},{"name":"specialist2Phone","label":"Specialist 2 Phone","type":"text","required":false},{"name":"specialist2FirstVisit","label":"Specialist 2 First Visit","type":"date","required":false},{"name":"specialist2Frequency","label":"Specialist 2 Visit Frequency","type":"text","required":false},{"name":"hospitalAdmissions","label":"Hospital Admissions","type":"textarea","required":false},{"name":"currentMedications","label":"Current Medications","type":"textarea","required":true},{"name":"treatmentPlan","label":"Treatment Plan","type":"textarea","required":true},{"name":"plannedProcedures","label":"Planned Procedures","type":"textarea","required":false},{"name":"prognosis","label":"Prognosis","type":"textarea","required":true},{"name":"expectedDuration","label":"Expected Duration","type":"text","required":true},{"name":"accommodationsPossibility","label":"Accommodations Possibility","type":"textarea","required":true},{"name":"potentialAccommodations","label":"Potential Accommodations","type":"textarea","required":false},{"name":"cppStatus","label":"CPP Status","type":"text","required":true},{"name":"eiStatus","label":"EI Status","type":"text","required":true},{"name":"wcbStatus","label":"WCB Status","type":"text","required":true},{"name":"stdStatus","label":"STD Status","type":"text","required":true},{"name":"autoInsuranceStatus","label":"Auto Insurance Status","type":"text","required":true},{"name":"otherBenefitsStatus","label":"Other Benefits Status","type":"text","required":true},{"name":"otherBenefitsDetails","label":"Other Benefits Details","type":"textarea","required":false},{"name":"additionalInformation","label":"Additional Information","type":"textarea","required":false},{"name":"physicianName","label":"Physician Name","type":"text","required":true},{"name":"employerContactName","label":"Employer Contact Name","type":"text","required":true},{"name":"medicalRecordsSource","label":"Medical Records Source","type":"text","required":true},{"name":"diagnosticTestsSource","label":"Diagnostic Tests Source","type":"text","required":true},{"name":"additionalDocumentation","label":"Additional Documentation","type":"textarea","required":false},{"name":"signature","label":"Signature","type":"text","required":true},{"name":"additionalEnclosures","label":"Additional Enclosures","type":"textarea","required":false}]', 'Canada');
-
--- Privacy Law - Adding 3 more templates
-INSERT INTO document_templates (template_type, subcategory, title, description, language, template_content, fields, jurisdiction)
-VALUES 
-('privacy', 'dsar', 'Data Subject Access Request Form', 'Form to request access to personal data under privacy laws', 'en', '# DATA SUBJECT ACCESS REQUEST FORM\n\n## INTRODUCTION\n\nYou have the right to request access to your personal information under applicable privacy laws, including the Personal Information Protection and Electronic Documents Act (PIPEDA) and provincial privacy legislation. This form is designed to help you submit a Data Subject Access Request (DSAR).\n\nPlease complete this form and submit it to the organization that holds your personal information. Note that the organization may require additional verification of your identity before processing your request.\n\n## PART 1: DATA SUBJECT DETAILS\n\n**Full Name:** {{fullName}}\n\n**Date of Birth:** {{dateOfBirth}}\n\n**Address:** {{address}}\n\n**City:** {{city}} **Province:** {{province}} **Postal Code:** {{postalCode}}\n\n**Email Address:** {{emailAddress}}\n\n**Phone Number:** {{phoneNumber}}\n\n## PART 2: RELATIONSHIP WITH THE ORGANIZATION\n\n**Name of Organization:** {{organizationName}}\n\nPlease indicate your relationship with the organization (check all that apply):\n\n- {{customerClient}} Customer/Client\n- {{currentEmployee}} Current Employee\n- {{formerEmployee}} Former Employee\n- {{jobApplicant}} Job Applicant\n- {{serviceProvider}} Service Provider/Contractor\n- {{other}} Other: {{otherSpecify}}\n\n**Account/Reference Number (if applicable):** {{accountNumber}}\n\n**Date Range of Relationship:** {{relationshipStartDate}} to {{relationshipEndDate}}\n\n## PART 3: REQUEST DETAILS\n\n**Type of Request (check all that apply):**\n\n- {{accessCopy}} Access to/Copy of Personal Information\n- {{informationTypes}} Information about Types of Personal Information Collected\n- {{processingPurposes}} Information about Purposes of Processing\n- {{dataRecipients}} Information about Recipients of Personal Information\n- {{retentionPeriod}} Information about Retention Period\n- {{dataSource}} Information about Source of Personal Information\n- {{automatedDecisionMaking}} Information about Automated Decision-Making\n- {{otherRequest}} Other: {{otherRequestSpecify}}\n\n**Please provide details about the specific personal information you are requesting:**\n\n{{requestDetails}}\n\n**Time Period for the Requested Information:**\n\n{{requestTimePeriod}}\n\n**Preferred Format for Receiving Information:**\n\n- {{electronicFormat}} Electronic Format (Email)\n- {{paperFormat}} Paper Format (Mail)\n- {{otherFormat}} Other: {{otherFormatSpecify}}\n\n## PART 4: VERIFICATION OF IDENTITY\n\nTo protect your privacy and security, the organization will require verification of your identity before processing your request. Please provide one of the following forms of identification with your request:\n\n- {{photoId}} Government-issued photo ID (driver's license, passport, etc.)\n- {{birthCertificate}} Birth Certificate\n- {{utilityBill}} Recent Utility Bill (within last 3 months)\n- {{bankStatement}} Bank Statement (within last 3 months)\n\n**Type of Identification Provided:** {{identificationType}}\n\n## PART 5: DECLARATION\n\nI, {{fullName}}, certify that the information provided in this form is correct to the best of my knowledge and that I am the person to whom it relates. I understand that the organization is obliged to confirm my identity and may need to contact me for more information to locate the personal information I have requested. I also understand that my request will not be valid until the organization receives all of the required information to process my request.\n\n**Signature:** ______________________\n\n**Date:** {{signatureDate}}\n\n## PART 6: REPRESENTATIVE DETAILS (COMPLETE ONLY IF ACTING ON THE DATA SUBJECT\'S BEHALF)\n\n**Representative Full Name:** {{representativeName}}\n\n**Relationship to Data Subject:** {{representativeRelationship}}\n\n**Address:** {{representativeAddress}}\n\n**City:** {{representativeCity}} **Province:** {{representativeProvince}} **Postal Code:** {{representativePostalCode}}\n\n**Email Address:** {{representativeEmail}}\n\n**Phone Number:** {{representativePhone}}\n\n**Authorization Documentation Provided:**\n\n- {{writtenAuthorization}} Written Authorization from Data Subject\n- {{powerOfAttorney}} Power of Attorney\n- {{representativeId}} Representative\'s Identification\n- {{otherAuthorization}} Other: {{otherAuthorizationSpecify}}\n\n## FOR ORGANIZATION USE ONLY\n\n**Date Request Received:** _____________________\n\n**Request Reference Number:** _____________________\n\n**Identity Verification Completed:** _____________________\n\n**Request Processed By:** _____________________\n\n**Date of Response:** _____________________\n\n**Notes:** _____________________\n\n## PRIVACY NOTICE\n\nThe information provided in this form will be used solely for the purpose of processing your Data Subject Access Request and will be retained as required by applicable privacy laws. The information will not be shared with third parties except as required by law or with your explicit consent.', '[{"name":"fullName","label":"Full Name","type":"text","required":true},{"name":"dateOfBirth","label":"Date of Birth","type":"date","required":true},{"name":"address","label":"Address","type":"text","required":true},{"name":"city","label":"City","type":"text","required":true},{"name":"province","label":"Province","type":"text","required":true},{"name":"postalCode","label":"Postal Code","type":"text","required":true},{"name":"emailAddress","label":"Email Address","type":"text","required":true},{"name":"phoneNumber","label":"Phone Number","type":"text","required":true},{"name":"organizationName","label":"Organization Name","type":"text","required":true},{"name":"customerClient","label":"Customer/Client","type":"checkbox","required":false},{"name":"currentEmployee","label":"Current Employee","type":"checkbox","required":false},{"name":"formerEmployee","label":"Former Employee","type":"checkbox","required":false},{"name":"jobApplicant","label":"Job Applicant","type":"checkbox","required":false},{"name":"serviceProvider","label":"Service Provider/Contractor","type":"checkbox","required":false},{"name":"other","label":"Other Relationship","type":"checkbox","required":false},{"name":"otherSpecify","label":"Other Relationship (Specify)","type":"text","required":false},{"name":"accountNumber","label":"Account/Reference Number","type":"text","required":false},{"name":"relationshipStartDate","label":"Relationship Start Date","type":"date","required":false},{"name":"relationshipEndDate","label":"Relationship End Date","type":"date","required":false},{"name":"accessCopy","label":"Access to/Copy of Personal Information","type":"checkbox","required":false},{"name":"informationTypes","label":"Information about Types of Personal Information Collected","type":"checkbox","required":false},{"name":"processingPurposes","label":"Information about Purposes of Processing","type":"checkbox","required":false},{"name":"dataRecipients","label":"Information about Recipients of Personal Information","type":"checkbox","required":false},{"name":"retentionPeriod","label":"Information about Retention Period","type":"checkbox","required":false},{"name":"dataSource","label":"Information about Source of Personal Information","type":"checkbox","required":false},{"name":"automatedDecisionMaking","label":"Information about Automated Decision-Making","type":"checkbox","required":false},{"name":"otherRequest","label":"Other Request","type":"checkbox","required":false},{"name":"otherRequestSpecify","label":"Other Request (Specify)","type":"text","required":false},{"name":"requestDetails","label":"Request Details","type":"textarea","required":true},{"name":"requestTimePeriod","label":"Request Time Period","type":"text","required":true},{"name":"electronicFormat","label":"Electronic Format (Email)","type":"checkbox","required":false},{"name":"paperFormat","label":"Paper Format (Mail)","type":"checkbox","required":false},{"name":"otherFormat","label":"Other Format","type":"checkbox","required":false},{"name":"otherFormatSpecify","label":"Other Format (Specify)","type":"text","required":false},{"name":"photoId","label":"Government-issued Photo ID","type":"checkbox","required":false},{"name":"birthCertificate","label":"Birth Certificate","type":"checkbox","required":false},{"name":"utilityBill","label":"Utility Bill","type":"checkbox","required":false},{"name":"bankStatement","label":"Bank Statement","type":"checkbox","required":false},{"name":"identificationType","label":"Identification Type Provided","type":"text","required":true},{"name":"signatureDate","label":"Signature Date","type":"date","required":true},{"name":"representativeName","label":"Representative Name","type":"text","required":false},{"name":"representativeRelationship","label":"Representative Relationship","type":"text","required":false},{"name":"representativeAddress","label":"Representative Address","type":"text","required":false},{"name":"representativeCity","label":"Representative City","type":"text","required":false},{"name":"representativeProvince","label":"Representative Province","type":"text","required":false},{"name":"representativePostalCode","label":"Representative Postal Code","type":"text","required":false},{"name":"representativeEmail","label":"Representative Email","type":"text","required":false},{"name":"representativePhone","label":"Representative Phone","type":"text","required":false},{"name":"writtenAuthorization","label":"Written Authorization","type":"checkbox","required":false},{"name":"powerOfAttorney","label":"Power of Attorney","type":"checkbox","required":false},{"name":"representativeId","label":"Representatives Identification","type":"checkbox","required":false},{"name":"otherAuthorization","label":"Other Authorization","type":"checkbox","required":false},{"name":"otherAuthorizationSpecify","label":"Other Authorization (Specify)","type":"text","required":false}]', 'Canada'),
-
-('privacy', 'consent-form', 'Personal Information Consent Form', 'Form for obtaining consent to collect, use and disclose personal information', 'en', '# PERSONAL INFORMATION CONSENT FORM\n\n## ORGANIZATION INFORMATION\n\n**Organization Name:** {{organizationName}}\n\n**Address:** {{organizationAddress}}, {{organizationCity}}, {{organizationProvince}} {{organizationPostalCode}}\n\n**Contact Person:** {{contactPerson}}\n\n**Contact Email:** {{contactEmail}}\n\n**Contact Phone:** {{contactPhone}}\n\n## INDIVIDUAL INFORMATION\n\n**Full Name:** {{fullName}}\n\n**Address:** {{address}}, {{city}}, {{province}} {{postalCode}}\n\n**Email:** {{email}}\n\n**Phone:** {{phone}}\n\n## INTRODUCTION\n\nYour privacy is important to us. This form explains how we collect, use, disclose, and protect your personal information in accordance with Canadian privacy laws, including the Personal Information Protection and Electronic Documents Act (PIPEDA) and applicable provincial privacy legislation.\n\nBefore you provide us with any personal information, we require your informed consent. Please read this form carefully and ask any questions you may have before signing.\n\n## 1. PERSONAL INFORMATION TO BE COLLECTED\n\nWe will collect and maintain the following types of personal information:\n\n{{personalInformationTypes}}\n\n## 2. PURPOSE OF COLLECTION, USE, AND DISCLOSURE\n\nWe will collect, use, and disclose your personal information for the following purposes:\n\n{{purposes}}\n\n## 3. THIRD PARTIES WITH WHOM INFORMATION MAY BE SHARED\n\nYour personal information may be shared with the following third parties for the purposes described above:\n\n{{thirdParties}}\n\n## 4. RETENTION PERIOD\n\nWe will retain your personal information for the following period of time:\n\n{{retentionPeriod}}\n\nAfter this period, your personal information will be securely destroyed, erased, or anonymized in accordance with our retention and destruction policies, unless retention is required by law.\n\n## 5. SECURITY SAFEGUARDS\n\nWe protect your personal information using security safeguards appropriate to the sensitivity of the information, including:\n\n{{securitySafeguards}}\n\n## 6. YOUR PRIVACY RIGHTS\n\nYou have the following rights with respect to your personal information:\n\n* The right to access your personal information in our custody or control\n* The right to request correction of inaccurate personal information\n* The right to withdraw your consent at any time (subject to legal or contractual restrictions)\n* The right to file a complaint with the appropriate privacy commissioner's office\n\nTo exercise these rights, please contact our designated privacy officer at {{privacyOfficerContact}}.\n\n## 7. CONSENT\n\n**Please read the following statements and check the appropriate boxes:**\n\n{{consentGeneral}} I have read and understand this consent form, and I consent to the collection, use, and disclosure of my personal information as described above.\n\n{{consentMarketing}} I consent to receiving electronic communications (such as emails, newsletters, and promotional materials) from {{organizationName}}. I understand I can withdraw this consent at any time.\n\n{{consentSensitive}} I consent to the collection, use, and disclosure of sensitive personal information (such as health information, financial information, etc.) as described above.\n\n{{consentThirdParty}} I consent to my personal information being shared with third parties as described above.\n\n## 8. ACKNOWLEDGMENT\n\nI understand that I can withdraw my consent at any time by contacting {{withdrawContactInfo}}. I understand that withdrawing consent may have legal or contractual consequences, such as {{withdrawalConsequences}}.\n\nI also understand that even if I withdraw my consent, {{organizationName}} may continue to use my personal information where such use is required or permitted by law.\n\n## 9. SIGNATURE\n\nBy signing below, I confirm that I have read and understand this consent form and that I am providing my informed consent as indicated above.\n\n**Signature:** ______________________\n\n**Name (printed):** {{fullName}}\n\n**Date:** {{signatureDate}}\n\n## 10. PARENT/GUARDIAN SIGNATURE (IF APPLICABLE)\n\nIf the individual named above is under the age of majority or lacks the capacity to provide consent, please complete the following:\n\n**Parent/Guardian Name:** {{guardianName}}\n\n**Relationship to Individual:** {{guardianRelationship}}\n\n**Signature:** ______________________\n\n**Date:** {{guardianSignatureDate}}\n\n## FOR ORGANIZATION USE ONLY\n\n**Received By:** _____________________\n\n**Date Received:** _____________________\n\n**Notes:** _____________________', '[{"name":"organizationName","label":"Organization Name","type":"text","required":true},{"name":"organizationAddress","label":"Organization Address","type":"text","required":true},{"name":"organizationCity","label":"Organization City","type":"text","required":true},{"name":"organizationProvince","label":"Organization Province","type":"text","required":true},{"name":"organizationPostalCode","label":"Organization Postal Code","type":"text","required":true},{"name":"contactPerson","label":"Contact Person","type":"text","required":true},{"name":"contactEmail","label":"Contact Email","type":"text","required":true},{"name":"contactPhone","label":"Contact Phone","type":"text","required":true},{"name":"fullName","label":"Full Name","type":"text","required":true},{"name":"address","label":"Address","type":"text","required":true},{"name":"city","label":"City","type":"text","required":true},{"name":"province","label":"Province","type":"text","required":true},{"name":"postalCode","label":"Postal Code","type":"text","required":true},{"name":"email","label":"Email","type":"text","required":true},{"name":"phone","label":"Phone","type":"text","required":true},{"name":"personalInformationTypes","label":"Personal Information Types","type":"textarea","required":true,"helper":"List all types of personal information you will collect, such as name, contact information, date of birth, financial information, etc."},{"name":"purposes","label":"Purposes of Collection, Use, and Disclosure","type":"textarea","required":true,"helper":"Explain why you are collecting this information and how it will be used"},{"name":"thirdParties","label":"Third Parties","type":"textarea","required":true,"helper":"List all third parties with whom the information may be shared, such as service providers, partners, etc."},{"name":"retentionPeriod","label":"Retention Period","type":"textarea","required":true,"helper":"Specify how long you will retain the personal information"},{"name":"securitySafeguards","label":"Security Safeguards","type":"textarea","required":true,"helper":"Describe the security measures used to protect the personal information"},{"name":"privacyOfficerContact","label":"Privacy Officer Contact","type":"text","required":true},{"name":"consentGeneral","label":"General Consent","type":"checkbox","required":true},{"name":"consentMarketing","label":"Marketing Consent","type":"checkbox","required":false},{"name":"consentSensitive","label":"Sensitive Information Consent","type":"checkbox","required":false},{"name":"consentThirdParty","label":"Third Party Sharing Consent","type":"checkbox","required":false},{"name":"withdrawContactInfo","label":"Withdrawal Contact Information","type":"text","required":true},{"name":"withdrawalConsequences","label":"Withdrawal Consequences","type":"textarea","required":true,"helper":"Explain what happens if consent is withdrawn"},{"name":"signatureDate","label":"Signature Date","type":"date","required":true},{"name":"guardianName","label":"Guardian Name","type":"text","required":false},{"name":"guardianRelationship","label":"Guardian Relationship","type":"text","required":false},{"name":"guardianSignatureDate","label":"Guardian Signature Date","type":"date","required":false}]', 'Canada'),
-
-('privacy', 'breach-notification', 'Privacy Breach Notification Letter', 'Letter notifying individuals of a privacy breach affecting their personal information', 'en', '# PRIVACY BREACH NOTIFICATION\n\n**IMPORTANT: This notice concerns a breach of your personal information**\n\n{{currentDate}}\n\n{{recipientName}}\n{{recipientAddress}}\n{{recipientCity}}, {{recipientProvince}} {{recipientPostalCode}}\n\nDear {{recipientName}},\n\n## NOTICE OF PRIVACY BREACH\n\nWe are writing to inform you about a privacy breach that occurred at {{organizationName}} which may have affected your personal information. We take the privacy and security of your personal information very seriously and are contacting you as part of our commitment to privacy best practices and in accordance with applicable privacy laws.\n\n## DESCRIPTION OF THE BREACH\n\n**Incident Date:** {{breachDate}}\n\n**Date Breach Was Discovered:** {{discoveryDate}}\n\n**Description of What Happened:**\n\n{{breachDescription}}\n\n## PERSONAL INFORMATION INVOLVED\n\nBased on our investigation, we believe that the following categories of your personal information may have been affected:\n\n{{affectedInformation}}\n\n## RISK OF HARM\n\nWe have assessed the risk of harm to you as a result of this breach as {{riskLevel}}.\n\n{{riskAssessment}}\n\n## ACTIONS WE HAVE TAKEN\n\nSince discovering this breach, we have taken the following steps:\n\n1. {{action1}}\n2. {{action2}}\n3. {{action3}}\n4. Notified the Office of the Privacy Commissioner of Canada and/or provincial privacy commissioner(s) as required by law\n5. {{additionalActions}}\n\n## STEPS YOU CAN TAKE TO PROTECT YOURSELF\n\nWe recommend that you take the following precautionary measures to help protect your personal information:\n\n{{recommendedSteps}}\n\n## CREDIT MONITORING AND IDENTITY THEFT PROTECTION SERVICES\n\n{{creditMonitoringOffer}}\n\n## FOR MORE INFORMATION\n\nIf you have any questions or concerns about this incident, please contact our dedicated response team:\n\n**Contact Person:** {{contactPerson}}\n**Phone Number:** {{contactPhone}}\n**Email Address:** {{contactEmail}}\n**Hours of Availability:** {{contactHours}}\n**Reference Number:** {{referenceNumber}}\n\n## REPORTING TO PRIVACY COMMISSIONER\n\nYou have the right to file a complaint with the Office of the Privacy Commissioner of Canada or your provincial privacy commissioner. Contact information for privacy commissioners across Canada can be found at:\n\n- Office of the Privacy Commissioner of Canada: www.priv.gc.ca\n- Provincial and territorial privacy commissioners: [relevant website]\n\n## OUR COMMITMENT\n\nWe deeply regret this incident and any concern or inconvenience it may cause you. We are committed to protecting your personal information and are taking steps to enhance our security measures to prevent similar incidents in the future.\n\n{{apology}}\n\nSincerely,\n\n{{signatoryName}}\n{{signatoryTitle}}\n{{organizationName}}\n\n## APPENDIX: ADDITIONAL RESOURCES\n\n### Identity Theft Protection Tips\n\n1. Monitor your financial accounts for any suspicious activity\n2. Review your credit reports regularly (you can obtain free credit reports from Equifax Canada and TransUnion Canada)\n3. Consider placing a fraud alert or credit freeze on your credit files\n4. Be vigilant for phishing attempts or other scams\n5. Change passwords for affected accounts and use strong, unique passwords for each account\n6. Enable two-factor authentication where available\n\n### Contact Information for Credit Bureaus\n\n**Equifax Canada**\nPhone: 1-800-465-7166\nWebsite: www.consumer.equifax.ca\n\n**TransUnion Canada**\nPhone: 1-800-663-9980 (or 1-877-713-3393 for Quebec residents)\nWebsite: www.transunion.ca\n\n### Canadian Anti-Fraud Centre\n\nIf you believe you have been the victim of identity theft or fraud, you can report it to the Canadian Anti-Fraud Centre:\n\nPhone: 1-888-495-8501\nWebsite: www.antifraudcentre-centreantifraude.ca', '[{"name":"currentDate","label":"Current Date","type":"date","required":true},{"name":"recipientName","label":"Recipient Name","type":"text","required":true},{"name":"recipientAddress","label":"Recipient Address","type":"text","required":true},{"name":"recipientCity","label":"Recipient City","type":"text","required":true},{"name":"recipientProvince","label":"Recipient Province","type":"text","required":true},{"name":"recipientPostalCode","label":"Recipient Postal Code","type":"text","required":true},{"name":"organizationName","label":"Organization Name","type":"text","required":true},{"name":"breachDate","label":"Breach Date","type":"date","required":true},{"name":"discoveryDate","label":"Discovery Date","type":"date","required":true},{"name":"breachDescription","label":"Breach Description","type":"textarea","required":true,"helper":"Describe what happened in clear, plain language. Include how the breach occurred and what information was affected."},{"name":"affectedInformation","label":"Affected Information","type":"textarea","required":true,"helper":"List all categories of personal information that were compromised (e.g., name, contact information, financial information, etc.)"},{"name":"riskLevel","label":"Risk Level","type":"text","required":true,"helper":"Indicate level of risk (e.g., low, medium, high)"},{"name":"riskAssessment","label":"Risk Assessment","type":"textarea","required":true,"helper":"Explain the potential impacts this breach might have on the individual"},{"name":"action1","label":"Action 1","type":"text","required":true},{"name":"action2","label":"Action 2","type":"text","required":true},{"name":"action3","label":"Action 3","type":"text","required":true},{"name":"additionalActions","label":"Additional Actions","type":"textarea","required":false},{"name":"recommendedSteps","label":"Recommended Steps","type":"textarea","required":true,"helper":"Provide specific steps the individual should take to protect themselves"},{"name":"creditMonitoringOffer","label":"Credit Monitoring Offer","type":"textarea","required":true,"helper":"Describe any credit monitoring or identity theft protection services being offered, including how to enroll"},{"name":"contactPerson","label":"Contact Person","type":"text","required":true},{"name":"contactPhone","label":"Contact Phone","type":"text","required":true},{"name":"contactEmail","label":"Contact Email","type":"text","required":true},{"name":"contactHours","label":"Contact Hours","type":"text","required":true},{"name":"referenceNumber","label":"Reference Number","type":"text","required":true},{"name":"apology","label":"Apology Statement","type":"textarea","required":true},{"name":"signatoryName","label":"Signatory Name","type":"text","required":true},{"name":"signatoryTitle","label":"Signatory Title","type":"text","required":true}]', 'Canada');
-
--- Continue adding more templates
-psql $DATABASE_URL < ./add_templates3.sql
-
-echo "Third batch of templates added successfully."
@@ -1,24 +0,0 @@
--- Tax Law - Adding 4 more templates
-INSERT INTO document_templates (template_type, subcategory, title, description, language, template_content, fields, jurisdiction)
-VALUES 
-('tax', 'tax-planning', 'Personal Tax Planning Checklist', 'Comprehensive checklist for personal tax planning in Canada', 'en', '# PERSONAL TAX PLANNING CHECKLIST\n\n## TAX YEAR: {{taxYear}}\n\n## PERSONAL INFORMATION\n\n**Taxpayer Name:** {{taxpayerName}}\n\n**Social Insurance Number:** {{sinNumber}}\n\n**Date of Birth:** {{dateOfBirth}}\n\n**Address:** {{address}}\n\n**Phone Number:** {{phoneNumber}}\n\n**Email Address:** {{emailAddress}}\n\n**Marital Status:** {{maritalStatus}}\n\n**Change in Marital Status During Year?** {{maritalStatusChange}} If yes, date of change: {{maritalStatusChangeDate}}\n\n**Spouse/Common-Law Partner Name:** {{spouseName}}\n\n**Spouse/Common-Law Partner SIN:** {{spouseSIN}}\n\n**Spouse/Common-Law Partner Date of Birth:** {{spouseDateOfBirth}}\n\n**Dependents:**\n\n| Name | Relationship | Date of Birth | SIN | Income | Lived with you? |\n|------|--------------|---------------|-----|--------|----------------|\n| {{dependent1Name}} | {{dependent1Relationship}} | {{dependent1DOB}} | {{dependent1SIN}} | {{dependent1Income}} | {{dependent1LivingArrangement}} |\n| {{dependent2Name}} | {{dependent2Relationship}} | {{dependent2DOB}} | {{dependent2SIN}} | {{dependent2Income}} | {{dependent2LivingArrangement}} |\n| {{dependent3Name}} | {{dependent3Relationship}} | {{dependent3DOB}} | {{dependent3SIN}} | {{dependent3Income}} | {{dependent3LivingArrangement}} |\n\n## INCOME SOURCES\n(Check all that apply and collect relevant tax slips/documentation)\n\n### Employment Income\n- {{t4slips}} T4 Slips (Employment income)\n- {{commissionIncome}} Commission Income\n- {{tipsGratuities}} Tips and Gratuities\n- {{t4aSlips}} T4A Slips (Pension, retirement, annuity income)\n\n### Self-Employment Income\n- {{businessIncome}} Business Income (sole proprietorship/partnership)\n- {{businessExpenses}} Business Expenses\n- {{homeOfficeExpenses}} Home Office Expenses\n- {{vehicleExpenses}} Business Use of Vehicle\n\n### Investment Income\n- {{t3slips}} T3 Slips (Trust income)\n- {{t5slips}} T5 Slips (Investment income, dividends)\n- {{t5008slips}} T5008 Slips (Securities transactions)\n- {{foreignIncome}} Foreign Income\n- {{rentalIncome}} Rental Income\n- {{rentalExpenses}} Rental Expenses\n- {{capitalGains}} Capital Gains/Losses\n- {{cryptoTransactions}} Cryptocurrency Transactions\n\n### Retirement Income\n- {{t4rsppslips}} T4RSP Slips (RRSP income)\n- {{t4rifslips}} T4RIF Slips (RRIF income)\n- {{cppIncome}} CPP Benefits\n- {{oasIncome}} OAS Benefits\n- {{foreignPensions}} Foreign Pensions\n\n### Other Income\n- {{eiIncome}} Employment Insurance Benefits\n- {{socialAssistance}} Social Assistance Payments\n- {{workersCompensation}} Workers' Compensation Benefits\n- {{childSupport}} Child Support (received or paid)\n- {{spousalSupport}} Spousal Support (received or paid)\n- {{scholarshipGrants}} Scholarships and Grants\n- {{lotteryWinnings}} Lottery/Gambling Winnings\n\n## DEDUCTIONS AND CREDITS\n\n### RRSP/Pension Contributions\n- {{rrspContributions}} RRSP Contributions\n- {{prppContributions}} PRPP Contributions\n- {{dbPensionContributions}} Defined Benefit Pension Plan Contributions\n- {{dcPensionContributions}} Defined Contribution Pension Plan Contributions\n\n### Support Payments\n- {{childSupportPayments}} Child Support Payments\n- {{spousalSupportPayments}} Spousal Support Payments\n- {{supportPaymentsCourt}} Supporting Court Orders/Agreements\n\n### Medical Expenses\n- {{medicalExpenses}} Medical, Dental, and Healthcare Expenses\n- {{premiumsPrivateHealthPlans}} Premiums for Private Health Insurance Plans\n- {{attendantCare}} Attendant Care or Care in an Establishment\n- {{travelMedicalTreatment}} Travel Expenses for Medical Treatment\n- {{prescriptionMedications}} Prescription Medications\n- {{medicalDevices}} Medical Devices\n\n### Donations and Gifts\n- {{charitableDonations}} Charitable Donations\n- {{politicalContributions}} Political Contributions\n\n### Home-Related Items\n- {{firstTimeHomeBuyers}} First-Time Home Buyers' Amount\n- {{homeBuyersPlan}} Home Buyers' Plan Withdrawals/Repayments\n- {{homeAccessibility}} Home Accessibility Expenses\n- {{homeOfficeSelfEmployed}} Home Office Expenses (Self-Employed)\n- {{homeOfficeEmployed}} Home Office Expenses (Employee)\n- {{principalResidenceSale}} Principal Residence Sale\n\n### Education\n- {{tuitionFees}} Tuition Fees (T2202 slip)\n- {{educationSupplies}} Eligible Educator School Supply Tax Credit\n- {{studentLoanInterest}} Student Loan Interest\n- {{lifelongLearningPlan}} Lifelong Learning Plan Withdrawals/Repayments\n\n### Disability\n- {{disabilityTaxCredit}} Disability Tax Credit Certificate\n- {{disabilitySupportDeduction}} Disability Supports Deduction\n- {{caregiver}} Caregiver Amount\n\n### Employment-Related\n- {{unionDues}} Union or Professional Dues\n- {{toolExpenses}} Tool Expenses (Tradespersons)\n- {{employmentExpenses}} Employment Expenses (T2200 required)\n- {{stockOptions}} Stock Option Benefits\n- {{movingExpenses}} Moving Expenses\n- {{legalFeesEmployment}} Legal Fees (to collect salary, wages, or employment benefits)\n\n### Investment-Related\n- {{investmentExpenses}} Investment Management Fees\n- {{investmentLoanInterest}} Interest on Investment Loans\n- {{cppOverpayment}} CPP Overpayment\n- {{eiOverpayment}} EI Overpayment\n\n### Other Deductions and Credits\n- {{digitalNewsSub}} Digital News Subscription Tax Credit\n- {{climateActionIncentive}} Climate Action Incentive (ON, MB, SK, AB)\n- {{volunteerFirefighter}} Volunteer Firefighter/Search and Rescue Amount\n- {{northernResidents}} Northern Residents Deduction\n\n## TAX INSTALMENTS\n\n**Tax Instalments Paid for the Year:** {{taxInstalmentsPaid}}\n\n**Dates and Amounts of Instalments:**\n\n| Date | Amount |\n|------|--------|\n| {{instalment1Date}} | {{instalment1Amount}} |\n| {{instalment2Date}} | {{instalment2Amount}} |\n| {{instalment3Date}} | {{instalment3Amount}} |\n| {{instalment4Date}} | {{instalment4Amount}} |\n\n## FOREIGN REPORTING REQUIREMENTS\n\n**Do you own foreign property with a total cost of more than CAN$100,000?** {{foreignPropertyOver100k}}\n\n**Do you have foreign affiliates?** {{foreignAffiliates}}\n\n**Have you received an inheritance or gift from a non-resident exceeding CAN$100,000?** {{foreignInheritance}}\n\n**Do you hold overseas assets or have offshore investments?** {{offshoreAssets}}\n\n## OTHER INFORMATION\n\n**New Canadian resident this year?** {{newCanadianResident}} Date of entry: {{entryDate}}\n\n**Canadian resident who left Canada this year?** {{departedCanada}} Date of departure: {{departureDate}}\n\n**Are you a Canadian citizen?** {{canadianCitizen}}\n\n**Do you authorize CRA to provide information about you to Elections Canada?** {{electionsCanadaAuthorization}}\n\n**Did you own or hold cryptocurrency during the year?** {{cryptocurrencyOwnership}}\n\n**Any major life events this year? (retirement, major illness, death in family, etc.)** {{majorLifeEvents}}\n\n**Any other relevant information?** {{otherInformation}}\n\n## TAX PLANNING OPPORTUNITIES TO CONSIDER\n\n1. RRSP Contribution - consider maximizing your contribution before the deadline to reduce taxable income\n2. TFSA Contribution - consider using your available contribution room\n3. Income Splitting - explore pension income splitting or spousal RRSP contributions\n4. Timing of Income and Deductions - consider deferring income or accelerating deductions\n5. Family Tax Planning - review family income and optimize credits/deductions\n6. Capital Loss Harvesting - consider selling investments with accrued losses\n7. Review Investment Portfolio - ensure tax efficiency of your investments\n8. Charitable Donation Planning - consider timing and amount of donations\n9. Small Business Deduction - explore strategies if you have a corporation\n\n## TAX PLANNING NOTES\n\n{{taxPlanningNotes}}\n\n## PROFESSIONAL ADVISORY TEAM\n\n**Accountant:** {{accountantName}} | {{accountantContact}}\n\n**Financial Advisor:** {{financialAdvisorName}} | {{financialAdvisorContact}}\n\n**Lawyer:** {{lawyerName}} | {{lawyerContact}}\n\n**Insurance Advisor:** {{insuranceAdvisorName}} | {{insuranceAdvisorContact}}\n\n## CHECKLIST COMPLETED BY:\n\n**Name:** {{completedByName}}\n\n**Date:** {{completionDate}}\n\n**Signature:** _______________________', '[{"name":"taxYear","label":"Tax Year","type":"text","required":true},{"name":"taxpayerName","label":"Taxpayer Name","type":"text","required":true},{"name":"sinNumber","label":"Social Insurance Number","type":"text","required":true},{"name":"dateOfBirth","label":"Date of Birth","type":"date","required":true},{"name":"address","label":"Address","type":"text","required":true},{"name":"phoneNumber","label":"Phone Number","type":"text","required":true},{"name":"emailAddress","label":"Email Address","type":"text","required":true},{"name":"maritalStatus","label":"Marital Status","type":"text","required":true},{"name":"maritalStatusChange","label":"Change in Marital Status","type":"text","required":true},{"name":"maritalStatusChangeDate","label":"Marital Status Change Date","type":"date","required":false},{"name":"spouseName","label":"Spouse Name","type":"text","required":false},{"name":"spouseSIN","label":"Spouse SIN","type":"text","required":false},{"name":"spouseDateOfBirth","label":"Spouse Date of Birth","type":"date","required":false},{"name":"dependent1Name","label":"Dependent 1 Name","type":"text","required":false},{"name":"dependent1Relationship","label":"Dependent 1 Relationship","type":"text","required":false},{"name":"dependent1DOB","label":"Dependent 1 Date of Birth","type":"date","required":false},{"name":"dependent1SIN","label":"Dependent 1 SIN","type":"text","required":false},{"name":"dependent1Income","label":"Dependent 1 Income","type":"text","required":false},{"name":"dependent1LivingArrangement","label":"Dependent 1 Living Arrangement","type":"text","required":false},{"name":"dependent2Name","label":"Dependent 2 Name","type":"text","required":false},{"name":"dependent2Relationship","label":"Dependent 2 Relationship","type":"text","required":false},{"name":"dependent2DOB","label":"Dependent 2 Date of Birth","type":"date","required":false},{"name":"dependent2SIN","label":"Dependent 2 SIN","type":"text","required":false},{"name":"dependent2Income","label":"Dependent 2 Income","type":"text","required":false},{"name":"dependent2LivingArrangement","label":"Dependent 2 Living Arrangement","type":"text","required":false},{"name":"dependent3Name","label":"Dependent 3 Name","type":"text","required":false},{"name":"dependent3Relationship","label":"Dependent 3 Relationship","type":"text","required":false},{"name":"dependent3DOB","label":"Dependent 3 Date of Birth","type":"date","required":false},{"name":"dependent3SIN","label":"Dependent 3 SIN","type":"text","required":false},{"name":"dependent3Income","label":"Dependent 3 Income","type":"text","required":false},{"name":"dependent3LivingArrangement","label":"Dependent 3 Living Arrangement","type":"text","required":false},{"name":"t4slips","label":"T4 Slips","type":"checkbox","required":false},{"name":"commissionIncome","label":"Commission Income","type":"checkbox","required":false},{"name":"tipsGratuities","label":"Tips and Gratuities","type":"checkbox","required":false},{"name":"t4aSlips","label":"T4A Slips","type":"checkbox","required":false},{"name":"businessIncome","label":"Business Income","type":"checkbox","required":false},{"name":"businessExpenses","label":"Business Expenses","type":"checkbox","required":false},{"name":"homeOfficeExpenses","label":"Home Office Expenses","type":"checkbox","required":false},{"name":"vehicleExpenses","label":"Vehicle Expenses","type":"checkbox","required":false},{"name":"t3slips","label":"T3 Slips","type":"checkbox","required":false},{"name":"t5slips","label":"T5 Slips","type":"checkbox","required":false},{"name":"t5008slips","label":"T5008 Slips","type":"checkbox","required":false},{"name":"foreignIncome","label":"Foreign Income","type":"checkbox","required":false},{"name":"rentalIncome","label":"Rental Income","type":"checkbox","required":false},{"name":"rentalExpenses","label":"Rental Expenses","type":"checkbox","required":false},{"name":"capitalGains","label":"Capital Gains","type":"checkbox","required":false},{"name":"cryptoTransactions","label":"Crypto Transactions","type":"checkbox","required":false},{"name":"t4rsppslips","label":"T4RSP Slips","type":"checkbox","required":false},{"name":"t4rifslips","label":"T4RIF Slips","type":"checkbox","required":false},{"name":"cppIncome","label":"CPP Income","type":"checkbox","required":false},{"name":"oasIncome","label":"OAS Income","type":"checkbox","required":false},{"name":"foreignPensions","label":"Foreign Pensions","type":"checkbox","required":false},{"name":"eiIncome","label":"EI Income","type":"checkbox","required":false},{"name":"socialAssistance","label":"Social Assistance","type":"checkbox","required":false},{"name":"workersCompensation","label":"Workers Compensation","type":"checkbox","required":false},{"name":"childSupport","label":"Child Support","type":"checkbox","required":false},{"name":"spousalSupport","label":"Spousal Support","type":"checkbox","required":false},{"name":"scholarshipGrants","label":"Scholarships","type":"checkbox","required":false},{"name":"lotteryWinnings","label":"Lottery Winnings","type":"checkbox","required":false},{"name":"rrspContributions","label":"RRSP Contributions","type":"checkbox","required":false},{"name":"prppContributions","label":"PRPP Contributions","type":"checkbox","required":false},{"name":"dbPensionContributions","label":"DB Pension Contributions","type":"checkbox","required":false},{"name":"dcPensionContributions","label":"DC Pension Contributions","type":"checkbox","required":false},{"name":"childSupportPayments","label":"Child Support Payments","type":"checkbox","required":false},{"name":"spousalSupportPayments","label":"Spousal Support Payments","type":"checkbox","required":false},{"name":"supportPaymentsCourt","label":"Support Court Orders","type":"checkbox","required":false},{"name":"medicalExpenses","label":"Medical Expenses","type":"checkbox","required":false},{"name":"premiumsPrivateHealthPlans","label":"Private Health Premiums","type":"checkbox","required":false},{"name":"attendantCare","label":"Attendant Care","type":"checkbox","required":false},{"name":"travelMedicalTreatment","label":"Medical Travel","type":"checkbox","required":false},{"name":"prescriptionMedications","label":"Prescriptions","type":"checkbox","required":false},{"name":"medicalDevices","label":"Medical Devices","type":"checkbox","required":false},{"name":"charitableDonations","label":"Charitable Donations","type":"checkbox","required":false},{"name":"politicalContributions","label":"Political Contributions","type":"checkbox","required":false},{"name":"taxInstalmentsPaid","label":"Tax Instalments Paid","type":"text","required":false},{"name":"taxPlanningNotes","label":"Tax Planning Notes","type":"textarea","required":false},{"name":"completedByName","label":"Completed By Name","type":"text","required":true},{"name":"completionDate","label":"Completion Date","type":"date","required":true}]', 'Canada'),
-
-('tax', 'gst-hst', 'GST/HST Registration Guide', 'Guide for registering for GST/HST in Canada', 'en', '# GST/HST REGISTRATION GUIDE\n\n## INTRODUCTION\n\nThis guide provides information on GST/HST registration requirements for businesses operating in Canada. The Goods and Services Tax (GST) is a federal tax of 5% on most goods and services in Canada. The Harmonized Sales Tax (HST) combines the GST with provincial sales tax in participating provinces, with rates varying by province.\n\n## DETERMINING IF YOU NEED TO REGISTER\n\n### Mandatory Registration\n\nYou must register for GST/HST if:\n\n1. You provide taxable supplies in Canada; and\n2. You are not a small supplier (see below); and\n3. You are not specifically exempted from registration.\n\n### Small Supplier Status\n\nYou are considered a small supplier if your total worldwide revenues from taxable supplies (before expenses) did not exceed {{smallSupplierThreshold}} in the last four consecutive calendar quarters or in any single calendar quarter.\n\nExceptions to small supplier status:\n- Taxi operators and commercial ride-sharing services must register regardless of revenue\n- Non-resident performers selling admissions to seminars, performances, etc. in Canada\n- Non-resident businesses selling taxable supplies in Canada\n\n### Voluntary Registration\n\nYou may choose to register voluntarily if you are a small supplier making taxable supplies in Canada. Benefits of voluntary registration may include:\n- Ability to claim Input Tax Credits (ITCs) on business purchases\n- Avoiding the need to retroactively register and account for GST/HST if your revenues exceed the threshold\n- Appearing more established to business clients\n\n## TYPES OF SUPPLIES FOR GST/HST PURPOSES\n\n### Taxable Supplies (5%, 13%, 15% depending on province)\n- Most goods and services\n\n### Zero-Rated Supplies (0% GST/HST)\n- Basic groceries\n- Agricultural products\n- Prescription drugs\n- Medical devices\n- Exports\n\n### Exempt Supplies (No GST/HST)\n- Health care services\n- Educational services\n- Financial services\n- Long-term residential accommodation\n- Child care services\n\n## GST/HST RATES BY PROVINCE/TERRITORY\n\n| Province/Territory | Tax | Rate |\n|-------------------|-----|------|\n| Alberta | GST | 5% |\n| British Columbia | GST | 5% |\n| Manitoba | GST | 5% |\n| New Brunswick | HST | 15% |\n| Newfoundland and Labrador | HST | 15% |\n| Northwest Territories | GST | 5% |\n| Nova Scotia | HST | 15% |\n| Nunavut | GST | 5% |\n| Ontario | HST | 13% |\n| Prince Edward Island | HST | 15% |\n| Quebec | GST + QST | 5% + 9.975% |\n| Saskatchewan | GST | 5% |\n| Yukon | GST | 5% |\n\n## HOW TO REGISTER FOR GST/HST\n\n### Information Required\n\nTo register, you will need:\n\n1. Business name and contact information\n2. Business number (if you already have one)\n3. Social Insurance Number (SIN) or other identifier for business owner(s)\n4. Description of business activities\n5. Expected annual revenue\n6. Fiscal year-end\n7. Effective date of registration\n8. Reporting period preference\n\n### Registration Methods\n\n**Online (Recommended)**\n- Business Registration Online (BRO) at [Canada.ca](https://www.canada.ca)\n- CRA My Business Account\n\n**By Phone**\n- Call {{craPhoneNumber}}\n\n**By Mail**\n- Complete Form RC1, Request for a Business Number\n- Send to your nearest tax center\n\n**In Person**\n- Visit a Service Canada or CRA office with the required information\n\n## CHOOSING A REPORTING PERIOD\n\nYour reporting period determines how often you file GST/HST returns:\n\n| Annual Revenue | Available Reporting Periods |\n|----------------|--------------------------|\n| ≤ $1,500,000 | Annual, Quarterly, or Monthly |\n| > $1,500,000 to ≤ $6,000,000 | Quarterly or Monthly |\n| > $6,000,000 | Monthly |\n\n**Considerations for choosing a reporting period:**\n- Cash flow impact\n- Administrative burden\n- Refund timing\n\n## COLLECTING GST/HST\n\nOnce registered, you must:\n\n1. Charge GST/HST on taxable supplies\n2. Include GST/HST in your prices or show it separately\n3. Issue invoices with required information:\n   - Business name and/or Business Number\n   - Invoice date\n   - Total amount paid or payable\n   - GST/HST amount or rate\n   - Recipient's name\n   - Brief description of goods/services\n\n## REMITTING GST/HST\n\nYou must remit the difference between:\n- GST/HST collected from customers (or collectible, even if not collected)\n- Input Tax Credits (ITCs) for GST/HST paid on eligible business purchases\n\n### Payment Methods\n\n1. Online banking\n2. CRA My Payment service\n3. Credit card through third-party provider\n4. Pre-authorized debit\n5. Wire transfer\n6. At your financial institution\n7. By mail (cheque or money order)\n\n## FILING DEADLINES\n\n| Reporting Period | Deadline |\n|------------------|----------|\n| Monthly | One month after the end of the reporting period |\n| Quarterly | One month after the end of the reporting period |\n| Annual (non-individual) | Three months after fiscal year-end |\n| Annual (individual with Dec 31 fiscal year-end) | June 15, but payment due April 30 |\n\n## INPUT TAX CREDITS (ITCs)\n\nAs a registrant, you can claim ITCs for the GST/HST paid or payable on purchases and expenses related to your commercial activities.\n\n### Documentation Requirements for ITCs\n\n| Amount of Expense | Required Documentation |\n|-------------------|------------------------|\n| Under $30 | Receipts or invoices with basic information |\n| $30 to $149.99 | Supplier name, date, total amount, GST/HST amount, brief description |\n| $150 or more | Full invoice with business name or BN, recipient name, description, terms, GST/HST amount, etc. |\n\n## SPECIFIC BUSINESS SITUATIONS\n\n### E-commerce and Digital Services\n\n{{ecommerceRegistrationRules}}\n\n### Real Property\n\n{{realPropertyRules}}\n\n### Non-Resident Businesses\n\n{{nonResidentRules}}\n\n## AFTER REGISTRATION\n\n### Record Keeping\n\nYou must keep all GST/HST records and supporting documents for {{recordKeepingPeriod}} from the end of the year to which they relate.\n\n### Changes to Your Business\n\nNotify CRA if you:\n- Change business address or contact information\n- Change business structure or ownership\n- Change business activities\n- Exceed small supplier threshold\n- Need to cancel or close your GST/HST account\n\n## COMMON ERRORS AND ISSUES\n\n1. Missing registration deadlines\n2. Incorrect place of supply determination\n3. Failing to collect GST/HST on taxable supplies\n4. Claiming ITCs for non-eligible expenses\n5. Improper documentation for ITC claims\n6. Misclassifying exempt or zero-rated supplies\n\n## PENALTIES AND INTEREST\n\nFailure to meet GST/HST obligations may result in:\n- Interest on late payments\n- Late filing penalties\n- Repeated failure penalties\n- False statement or omission penalties\n\n## RESOURCES AND ASSISTANCE\n\n**CRA GST/HST Information Line:** {{craGstHstInfoLine}}\n\n**CRA Website:** [canada.ca/taxes](https://www.canada.ca/taxes)\n\n**GST/HST Memoranda Series:** Available on the CRA website\n\n**GST/HST Info Sheets and Technical Publications:** Available on the CRA website\n\n## PREPARED BY\n\n**Name:** {{preparedByName}}\n\n**Organization:** {{organizationName}}\n\n**Contact Information:** {{contactInformation}}\n\n**Date:** {{preparationDate}}\n\n*Note: This guide provides general information and is not a substitute for professional advice. Tax laws and regulations change frequently. For specific advice regarding your situation, consult a professional tax advisor.*', '[{"name":"smallSupplierThreshold","label":"Small Supplier Threshold","type":"text","required":true,"helper":"Usually $30,000 but confirm current amount"},{"name":"craPhoneNumber","label":"CRA Phone Number","type":"text","required":true},{"name":"ecommerceRegistrationRules","label":"E-commerce Registration Rules","type":"textarea","required":true},{"name":"realPropertyRules","label":"Real Property Rules","type":"textarea","required":true},{"name":"nonResidentRules","label":"Non-Resident Rules","type":"textarea","required":true},{"name":"recordKeepingPeriod","label":"Record Keeping Period","type":"text","required":true},{"name":"craGstHstInfoLine","label":"CRA GST/HST Info Line","type":"text","required":true},{"name":"preparedByName","label":"Prepared By Name","type":"text","required":true},{"name":"organizationName","label":"Organization Name","type":"text","required":true},{"name":"contactInformation","label":"Contact Information","type":"text","required":true},{"name":"preparationDate","label":"Preparation Date","type":"date","required":true}]', 'Canada'),
-
-('tax', 'tax-objection', 'Notice of Objection to Tax Assessment', 'Letter to dispute a tax assessment from the CRA', 'en', '# NOTICE OF OBJECTION TO TAX ASSESSMENT\n\n{{currentDate}}\n\n**SENT BY REGISTERED MAIL**\n\nChief of Appeals\nTax Appeals Division\nCanada Revenue Agency\n{{taxServiceOffice}}\n\n**RE: Notice of Objection**\n\nYour File Number: {{craFileNumber}}\nTaxpayer: {{taxpayerName}}\nSocial Insurance Number/Business Number: {{taxpayerIdentification}}\nTax Year(s): {{taxYears}}\nNotice of Assessment/Reassessment Date(s): {{assessmentDates}}\n\nDear Sir/Madam:\n\n## NOTICE OF OBJECTION\n\nPlease accept this letter as a formal Notice of Objection to the assessment/reassessment(s) issued by the Canada Revenue Agency (CRA) for the above-referenced taxpayer and tax year(s).\n\nThis Notice of Objection is being filed within the 90-day period prescribed by the Income Tax Act.\n\n## ASSESSMENT DETAILS BEING DISPUTED\n\n| Assessment Date | Tax Year | Assessment Number | Amount in Dispute |\n|-----------------|----------|-------------------|-------------------|\n| {{assessment1Date}} | {{assessment1Year}} | {{assessment1Number}} | {{assessment1Amount}} |\n| {{assessment2Date}} | {{assessment2Year}} | {{assessment2Number}} | {{assessment2Amount}} |\n| {{assessment3Date}} | {{assessment3Year}} | {{assessment3Number}} | {{assessment3Amount}} |\n\n## ISSUES IN DISPUTE\n\nThe specific issues being disputed are as follows:\n\n1. {{issue1}}\n2. {{issue2}}\n3. {{issue3}}\n\n## REASONS FOR OBJECTION\n\n### Issue 1: {{issue1Title}}\n\n{{issue1Reasons}}\n\n### Issue 2: {{issue2Title}}\n\n{{issue2Reasons}}\n\n### Issue 3: {{issue3Title}}\n\n{{issue3Reasons}}\n\n## FACTS AND ARGUMENTS\n\n{{factsAndArguments}}\n\n## RELEVANT LEGISLATION AND JURISPRUDENCE\n\n{{relevantLegislation}}\n\n## RELIEF SOUGHT\n\nBased on the reasons outlined above, I request that the assessment(s) be vacated/varied as follows:\n\n{{reliefSought}}\n\n## SUPPORTING DOCUMENTATION\n\nThe following documents are enclosed to support this Notice of Objection:\n\n1. {{supportingDoc1}}\n2. {{supportingDoc2}}\n3. {{supportingDoc3}}\n4. {{supportingDoc4}}\n5. {{supportingDoc5}}\n\n## REQUEST FOR SUSPENSION OF COLLECTION\n\n{{suspensionRequest}}\n\n## AUTHORIZATION (IF APPLICABLE)\n\nI have authorized {{representativeName}} ({{representativeTitle}}) to represent me in this matter. A signed authorization form (T1013 or RC59) is enclosed. All correspondence regarding this objection should be directed to my authorized representative at:\n\n{{representativeAddress}}\nPhone: {{representativePhone}}\nEmail: {{representativeEmail}}\n\n## BOOKS AND RECORDS\n\nAll books and records relevant to this objection are available for examination and are located at:\n\n{{recordsLocation}}\n\n## REQUEST FOR EXTENSION OF TIME (IF APPLICABLE)\n\n{{extensionRequest}}\n\n## DECLARATION\n\nI certify that the information given on this Notice of Objection is, to the best of my knowledge, correct and complete.\n\nSincerely,\n\n{{signature}}\n\n{{taxpayerName}}\n{{taxpayerAddress}}\n{{taxpayerPhone}}\n{{taxpayerEmail}}\n\n## ENCLOSURES\n\n1. Copy of Notice(s) of Assessment/Reassessment\n2. {{enclosure1}}\n3. {{enclosure2}}\n4. {{enclosure3}}\n5. {{enclosure4}}\n\n---\n\n## IMPORTANT INFORMATION ABOUT THE NOTICE OF OBJECTION PROCESS\n\n1. **Deadline**: A Notice of Objection must generally be filed within 90 days from the date of the Notice of Assessment or Reassessment.\n\n2. **Extension of Time**: If the 90-day deadline has passed, you may apply for an extension of time to file an objection within one year after the expiration of the normal objection period. You must provide reasons why the objection was not filed on time.\n\n3. **Collection Action**: Filing an objection does not automatically suspend collection action on amounts in dispute for corporations or GST/HST matters. For individuals and testamentary trusts, collection action on the income tax amount in dispute is normally suspended.\n\n4. **Interest**: Interest continues to accrue on any unpaid balance, even when collection is suspended.\n\n5. **Appeals Officer**: Your objection will be assigned to an Appeals Officer who will conduct an impartial review of your case.\n\n6. **Tax Court Appeal**: If you disagree with the Appeals Officer's decision, you generally have 90 days from the date of the Notice of Confirmation or Reassessment to file an appeal with the Tax Court of Canada.\n\n7. **Burden of Proof**: The taxpayer generally bears the burden of disproving the CRA's assumptions that formed the basis of the assessment.', '[{"name":"currentDate","label":"Current Date","type":"date","required":true},{"name":"taxServiceOffice","label":"Tax Service Office","type":"text","required":true},{"name":"craFileNumber","label":"CRA File Number","type":"text","required":true},{"name":"taxpayerName","label":"Taxpayer Name","type":"text","required":true},{"name":"taxpayerIdentification","label":"Taxpayer Identification","type":"text","required":true},{"name":"taxYears","label":"Tax Years","type":"text","required":true},{"name":"assessmentDates","label":"Assessment Dates","type":"text","required":true},{"name":"assessment1Date","label":"Assessment 1 Date","type":"date","required":true},{"name":"assessment1Year","label":"Assessment 1 Year","type":"text","required":true},{"name":"assessment1Number","label":"Assessment 1 Number","type":"text","required":true},{"name":"assessment1Amount","label":"Assessment 1 Amount","type":"text","required":true},{"name":"assessment2Date","label":"Assessment 2 Date","type":"date","required":false},{"name":"assessment2Year","label":"Assessment 2 Year","type":"text","required":false},{"name":"assessment2Number","label":"Assessment 2 Number","type":"text","required":false},{"name":"assessment2Amount","label":"Assessment 2 Amount","type":"text","required":false},{"name":"assessment3Date","label":"Assessment 3 Date","type":"date","required":false},{"name":"assessment3Year","label":"Assessment 3 Year","type":"text","required":false},{"name":"assessment3Number","label":"Assessment 3 Number","type":"text","required":false},{"name":"assessment3Amount","label":"Assessment 3 Amount","type":"text","required":false},{"name":"issue1","label":"Issue 1","type":"text","required":true},{"name":"issue2","label":"Issue 2","type":"text","required":false},{"name":"issue3","label":"Issue 3","type":"text","required":false},{"name":"issue1Title","label":"Issue 1 Title","type":"text","required":true},{"name":"issue1Reasons","label":"Issue 1 Reasons","type":"textarea","required":true},{"name":"issue2Title","label":"Issue 2 Title","type":"text","required":false},{"name":"issue2Reasons","label":"Issue 2 Reasons","type":"textarea","required":false},{"name":"issue3Title","label":"Issue 3 Title","type":"text","required":false},{"name":"issue3Reasons","label":"Issue 3 Reasons","type":"textarea","required":false},{"name":"factsAndArguments","label":"Facts and Arguments","type":"textarea","required":true},{"name":"relevantLegislation","label":"Relevant Legislation","type":"textarea","required":true},{"name":"reliefSought","label":"Relief Sought","type":"textarea","required":true},{"name":"supportingDoc1","label":"Supporting Document 1","type":"text","required":true},{"name":"supportingDoc2","label":"Supporting Document 2","type":"text","required":false},{"name":"supportingDoc3","label":"Supporting Document 3","type":"text","required":false},{"name":"supportingDoc4","label":"Supporting Document 4","type":"text","required":false},{"name":"supportingDoc5","label":"Supporting Document 5","type":"text","required":false},{"name":"suspensionRequest","label":"Suspension Request","type":"textarea","required":false},{"name":"representativeName","label":"Representative Name","type":"text","required":false},{"name":"representativeTitle","label":"Representative Title","type":"text","required":false},{"name":"representativeAddress","label":"Representative Address","type":"text","required":false},{"name":"representativePhone","label":"Representative Phone","type":"text","required":false},{"name":"representativeEmail","label":"Representative Email","type":"text","required":false},{"name":"recordsLocation","label":"Records Location","type":"text","required":true},{"name":"extensionRequest","label":"Extension Request","type":"textarea","required":false},{"name":"signature","label":"Signature","type":"text","required":true},{"name":"taxpayerAddress","label":"Taxpayer Address","type":"text","required":true},{"name":"taxpayerPhone","label":"Taxpayer Phone","type":"text","required":true},{"name":"taxpayerEmail","label":"Taxpayer Email","type":"text","required":true},{"name":"enclosure1","label":"Enclosure 1","type":"text","required":false},{"name":"enclosure2","label":"Enclosure 2","type":"text","required":false},{"name":"enclosure3","label":"Enclosure 3","type":"text","required":false},{"name":"enclosure4","label":"Enclosure 4","type":"text","required":false}]', 'Canada'),
-
-('tax', 'voluntary-disclosure', 'Voluntary Disclosure Program Application', 'Application to the CRA Voluntary Disclosure Program', 'en', '# VOLUNTARY DISCLOSURE PROGRAM APPLICATION\n\n## CONFIDENTIAL\n\n**Date:** {{currentDate}}\n\n**To:** Canada Revenue Agency\nVoluntary Disclosures Program\n{{vraOfficeAddress}}\n\n**From:** {{applicantName}}\n\n**Subject:** Voluntary Disclosure Program Application\n\n## APPLICANT INFORMATION\n\n**Name:** {{applicantName}}\n\n**Address:** {{applicantAddress}}\n\n**City:** {{applicantCity}} **Province:** {{applicantProvince}} **Postal Code:** {{applicantPostalCode}}\n\n**Telephone:** {{applicantPhone}}\n\n**Email:** {{applicantEmail}}\n\n**Date of Birth (if individual):** {{applicantDOB}}\n\n**Social Insurance Number (if individual):** {{applicantSIN}}\n\n**Business Number (if business):** {{applicantBN}}\n\n**Industry Sector (if business):** {{industrySector}}\n\n## AUTHORIZED REPRESENTATIVE INFORMATION (IF APPLICABLE)\n\n**Name:** {{representativeName}}\n\n**Firm:** {{representativeFirm}}\n\n**Address:** {{representativeAddress}}\n\n**City:** {{representativeCity}} **Province:** {{representativeProvince}} **Postal Code:** {{representativePostalCode}}\n\n**Telephone:** {{representativePhone}}\n\n**Email:** {{representativeEmail}}\n\n**Authorization Form Attached:** {{authorizationForm}} (T1013 for individuals, RC59 for businesses)\n\n## DISCLOSURE INFORMATION\n\n**Program(s) for which disclosure is being made:**\n- {{incomeTax}} Income Tax\n- {{gstHst}} GST/HST\n- {{payrollDeductions}} Payroll Deductions\n- {{exciseTax}} Excise Tax\n- {{exciseDuty}} Excise Duty\n- {{softwood}} Softwood Lumber Products Export Charge\n- {{air}} Air Travellers Security Charge\n- {{other}} Other: {{otherProgram}}\n\n**Tax years/reporting periods for which disclosure is being made:**\n\n{{taxPeriods}}\n\n## VDP ELIGIBILITY CRITERIA\n\n### 1. Voluntary\n\n**Has CRA contacted you about the information being disclosed or initiated any enforcement action related to the information being disclosed?**\n\n{{craContact}}\n\n**If yes, provide details:**\n\n{{craContactDetails}}\n\n### 2. Complete\n\n**Is this disclosure complete for all taxation years or reporting periods where there was previously inaccurate, incomplete or unreported information?**\n\n{{disclosureComplete}}\n\n**If no, explain why:**\n\n{{incompleteReason}}\n\n### 3. Penalty\n\n**Would this disclosure be subject to a penalty if the CRA discovered the information through its own enforcement activities?**\n\n{{subjectToPenalty}}\n\n**If yes, describe potential penalty:**\n\n{{penaltyDescription}}\n\n### 4. One Year Past Due\n\n**Is the information being disclosed at least one year past due?**\n\n{{oneYearPastDue}}\n\n## RELIEF TRACK DETERMINATION\n\n**Are any of the following conditions present?**\n\n- {{effortsTaxAvoid}} Deliberate or wilful efforts to avoid tax or reporting obligations\n- {{largeEntity}} Disclosure from a large entity (>$250 million in revenue)\n- {{activelyEvading}} Active efforts to avoid detection\n- {{sophisticatedPlanning}} Disclosure involves sophisticated planning or multiple years of non-compliance\n- {{largeDollarValue}} Disclosure involves large dollar amounts\n\n## CIRCUMSTANCES OF NON-COMPLIANCE\n\n### Reason for Non-Compliance\n\n{{reasonForNoncompliance}}\n\n### Extent of Non-Compliance\n\n{{extentOfNoncompliance}}\n\n### Disclosure Timeline\n\n**When did the non-compliance occur?**\n\n{{nonComplianceTimeline}}\n\n**When did you become aware of your tax reporting obligations?**\n\n{{awarenessDate}}\n\n**How and when did you discover the non-compliance?**\n\n{{discoveryDetails}}\n\n**Why are you coming forward now?**\n\n{{disclosureReason}}\n\n## DETAILS OF DISCLOSURE\n\n### Summary of the Facts\n\n{{factSummary}}\n\n### Description of Non-Compliance\n\n{{nonComplianceDescription}}\n\n### Detailed Calculation of Unreported Income/Taxes\n\n{{calculationDetails}}\n\n**Estimated total income not reported:** {{unreportedIncome}}\n\n**Estimated total taxes owing:** {{taxesOwing}}\n\n## SUPPORTING DOCUMENTATION\n\nThe following documentation is attached in support of this voluntary disclosure:\n\n1. {{attachment1}}\n2. {{attachment2}}\n3. {{attachment3}}\n4. {{attachment4}}\n5. {{attachment5}}\n6. {{attachment6}}\n\n## PAYMENT INFORMATION\n\n**Has a payment been made with this disclosure?** {{paymentMade}}\n\n**Amount of payment:** {{paymentAmount}}\n\n**Method of payment:** {{paymentMethod}}\n\n**If no payment has been made, explain how you intend to pay the amount owing:**\n\n{{paymentPlan}}\n\n## DECLARATION\n\nI, {{declarantName}}, declare that:\n\n1. The information provided in this application is true, complete, and correct to the best of my knowledge;\n\n2. I am submitting this voluntary disclosure in conformity with the CRA's Voluntary Disclosures Program;\n\n3. I understand that if my application is accepted into the Voluntary Disclosures Program:\n   a. I must pay the tax owing plus interest or make suitable payment arrangements; and\n   b. I am responsible for filing or adjusting all relevant returns;\n\n4. I understand that this disclosure may be subject to review and verification by the CRA;\n\n5. I understand that providing false information to the CRA may result in prosecution, fines, and imprisonment.\n\n**Signature:** ______________________\n\n**Name:** {{signatureName}}\n\n**Title (if business):** {{signatureTitle}}\n\n**Date:** {{signatureDate}}\n\n## INSTRUCTIONS FOR SUBMISSION\n\nThis application and all supporting documentation should be submitted to:\n\nCanada Revenue Agency\nVoluntary Disclosures Program\n{{submissionAddress}}\n\nOR electronically via My Account, My Business Account, or Represent a Client\n\nPlease mark all correspondence "CONFIDENTIAL"', '[{"name":"currentDate","label":"Current Date","type":"date","required":true},{"name":"vraOfficeAddress","label":"VDP Office Address","type":"textarea","required":true},{"name":"applicantName","label":"Applicant Name","type":"text","required":true},{"name":"applicantAddress","label":"Applicant Address","type":"text","required":true},{"name":"applicantCity","label":"Applicant City","type":"text","required":true},{"name":"applicantProvince","label":"Applicant Province","type":"text","required":true},{"name":"applicantPostalCode","label":"Applicant Postal Code","type":"text","required":true},{"name":"applicantPhone","label":"Applicant Phone","type":"text","required":true},{"name":"applicantEmail","label":"Applicant Email","type":"text","required":true},{"name":"applicantDOB","label":"Applicant Date of Birth","type":"date","required":false},{"name":"applicantSIN","label":"Applicant SIN","type":"text","required":false},{"name":"applicantBN","label":"Applicant Business Number","type":"text","required":false},{"name":"industrySector","label":"Industry Sector","type":"text","required":false},{"name":"representativeName","label":"Representative Name","type":"text","required":false},{"name":"representativeFirm","label":"Representative Firm","type":"text","required":false},{"name":"representativeAddress","label":"Representative Address","type":"text","required":false},{"name":"representativeCity","label":"Representative City","type":"text","required":false},{"name":"representativeProvince","label":"Representative Province","type":"text","required":false},{"name":"representativePostalCode","label":"Representative Postal Code","type":"text","required":false},{"name":"representativePhone","label":"Representative Phone","type":"text","required":false},{"name":"representativeEmail","label":"Representative Email","type":"text","required":false},{"name":"authorizationForm","label":"Authorization Form","type":"text","required":false},{"name":"incomeTax","label":"Income Tax","type":"checkbox","required":false},{"name":"gstHst","label":"GST/HST","type":"checkbox","required":false},{"name":"payrollDeductions","label":"Payroll Deductions","type":"checkbox","required":false},{"name":"exciseTax","label":"Excise Tax","type":"checkbox","required":false},{"name":"exciseDuty","label":"Excise Duty","type":"checkbox","required":false},{"name":"softwood","label":"Softwood Lumber","type":"checkbox","required":false},{"name":"air","label":"Air Travellers Security Charge","type":"checkbox","required":false},{"name":"other","label":"Other Program","type":"checkbox","required":false},{"name":"otherProgram","label":"Other Program Description","type":"text","required":false},{"name":"taxPeriods","label":"Tax Periods","type":"textarea","required":true},{"name":"craContact","label":"CRA Contact","type":"text","required":true},{"name":"craContactDetails","label":"CRA Contact Details","type":"textarea","required":false},{"name":"disclosureComplete","label":"Disclosure Complete","type":"text","required":true},{"name":"incompleteReason","label":"Incomplete Reason","type":"textarea","required":false},{"name":"subjectToPenalty","label":"Subject to Penalty","type":"text","required":true},{"name":"penaltyDescription","label":"Penalty Description","type":"textarea","required":false},{"name":"oneYearPastDue","label":"One Year Past Due","type":"text","required":true},{"name":"effortsTaxAvoid","label":"Efforts to Avoid Tax","type":"checkbox","required":false},{"name":"largeEntity","label":"Large Entity","type":"checkbox","required":false},{"name":"activelyEvading","label":"Actively Evading Detection","type":"checkbox","required":false},{"name":"sophisticatedPlanning","label":"Sophisticated Planning","type":"checkbox","required":false},{"name":"largeDollarValue","label":"Large Dollar Value","type":"checkbox","required":false},{"name":"reasonForNoncompliance","label":"Reason for Non-compliance","type":"textarea","required":true},{"name":"extentOfNoncompliance","label":"Extent of Non-compliance","type":"textarea","required":true},{"name":"nonComplianceTimeline","label":"Non-compliance Timeline","type":"textarea","required":true},{"name":"awarenessDate","label":"Awareness Date","type":"text","required":true},{"name":"discoveryDetails","label":"Discovery Details","type":"textarea","required":true},{"name":"disclosureReason","label":"Disclosure Reason","type":"textarea","required":true},{"name":"factSummary","label":"Fact Summary","type":"textarea","required":true},{"name":"nonComplianceDescription","label":"Non-compliance Description","type":"textarea","required":true},{"name":"calculationDetails","label":"Calculation Details","type":"textarea","required":true},{"name":"unreportedIncome","label":"Unreported Income","type":"text","required":true},{"name":"taxesOwing","label":"Taxes Owing","type":"text","required":true},{"name":"attachment1","label":"Attachment 1","type":"text","required":true},{"name":"attachment2","label":"Attachment 2","type":"text","required":false},{"name":"attachment3","label":"Attachment 3","type":"text","required":false},{"name":"attachment4","label":"Attachment 4","type":"text","required":false},{"name":"attachment5","label":"Attachment 5","type":"text","required":false},{"name":"attachment6","label":"Attachment 6","type":"text","required":false},{"name":"paymentMade","label":"Payment Made","type":"text","required":true},{"name":"paymentAmount","label":"Payment Amount","type":"text","required":false},{"name":"paymentMethod","label":"Payment Method","type":"text","required":false},{"name":"paymentPlan","label":"Payment Plan","type":"textarea","required":false},{"name":"declarantName","label":"Declarant Name","type":"text","required":true},{"name":"signatureName","label":"Signature Name","type":"text","required":true},{"name":"signatureTitle","label":"Signature Title","type":"text","required":false},{"name":"signatureDate","label":"Signature Date","type":"date","required":true},{"name":"submissionAddress","label":"Submission Address","type":"textarea","required":true}]', 'Canada');
-
--- Indigenous Law - Adding 3 more templates
-INSERT INTO document_templates (template_type, subcategory, title, description, language, template_content, fields, jurisdiction)
-VALUES 
-('indigenous', 'consultation', 'Indigenous Consultation Protocol', 'Framework for meaningful consultation with Indigenous communities', 'en', '# INDIGENOUS CONSULTATION PROTOCOL\n\n## PURPOSE\n\nThis Indigenous Consultation Protocol ("Protocol") establishes a framework for meaningful consultation between {{organizationName}} and Indigenous communities potentially affected by {{projectDescription}} (the "Project"). This Protocol acknowledges the Crown's duty to consult with Indigenous peoples, recognizes Indigenous rights and title, and aims to foster positive, respectful relationships based on transparency, trust, and reconciliation.\n\n## PRINCIPLES OF CONSULTATION\n\nThis Protocol is guided by the following principles:\n\n1. **Recognition of Rights**: Recognition and respect for Indigenous rights, including those protected under Section 35 of the Constitution Act, 1982, the United Nations Declaration on the Rights of Indigenous Peoples (UNDRIP), and applicable treaties or agreements.\n\n2. **Meaningful Engagement**: Commitment to early, meaningful, and ongoing engagement that is conducted in good faith and with genuine intent to understand and address concerns.\n\n3. **Cultural Respect**: Recognition and respect for cultural differences, traditional knowledge, and Indigenous laws and protocols.\n\n4. **Transparency**: Open and honest sharing of information to support informed decision-making.\n\n5. **Collaboration**: Working together to seek mutually beneficial outcomes and opportunities.\n\n6. **Reconciliation**: Advancing reconciliation through relationship-building and addressing historical inequities.\n\n7. **Consent**: Striving to achieve free, prior, and informed consent (FPIC) from Indigenous communities for activities affecting their rights, territories, or interests.\n\n## SCOPE\n\nThis Protocol applies to all consultation activities related to the {{projectName}} Project, including:\n\n{{scopeOfActivities}}\n\n## IDENTIFICATION OF INDIGENOUS COMMUNITIES\n\n### Potentially Affected Communities\n\nThe following Indigenous communities have been identified as potentially affected by the Project:\n\n{{identifiedCommunities}}\n\n### Methodology for Identification\n\nThe methodology used to identify potentially affected Indigenous communities included:\n\n{{identificationMethodology}}\n\n## CONSULTATION PROCESS\n\n### 1. Pre-Consultation Planning\n\n- Research Indigenous communities' history, governance structures, and protocols\n- Identify appropriate community contacts\n- Develop community-specific engagement plans\n- Allocate necessary resources for effective consultation\n- Establish internal team roles and responsibilities\n- Prepare initial information packages\n\n### 2. Initial Engagement\n\n- Send formal letters of introduction to Indigenous leadership\n- Request meetings to discuss the Project and potential impacts\n- Determine community-specific consultation preferences and protocols\n- Establish points of contact and communication channels\n- Identify community capacity needs for meaningful participation\n\n### 3. Information Sharing\n\n- Provide clear, accessible information about the Project\n- Share relevant studies, assessments, and technical information\n- Translate key documents into Indigenous languages when requested\n- Deliver presentations at community meetings when invited\n- Maintain regular updates throughout the Project lifecycle\n\n### 4. Gathering Input\n\n- Conduct community meetings, workshops, and information sessions\n- Interview knowledge holders and Elders\n- Facilitate site visits and field tours\n- Establish mechanisms for ongoing feedback\n- Document all input received\n\n### 5. Traditional Knowledge and Land Use\n\n- Work with communities to identify potential impacts on traditional land use\n- Develop protocols for the collection, use, and protection of traditional knowledge\n- Support community-led traditional knowledge and land use studies\n- Incorporate traditional knowledge into Project planning and design\n\n### 6. Impact Assessment and Mitigation\n\n- Identify potential adverse impacts on Indigenous rights and interests\n- Collaboratively develop measures to avoid, minimize, or mitigate adverse impacts\n- Explore opportunities for Indigenous participation in environmental monitoring\n- Revise Project plans to address concerns where feasible\n\n### 7. Accommodation Measures\n\n- Where impacts cannot be fully mitigated, develop appropriate accommodation measures\n- Explore opportunities for revenue sharing, business opportunities, employment, training, or other benefits\n- Document accommodation agreements\n- Establish implementation schedules and monitoring mechanisms\n\n### 8. Ongoing Engagement\n\n- Maintain regular communication throughout all Project phases\n- Provide updates on Project changes or modifications\n- Establish a process for addressing emerging issues or concerns\n- Develop long-term relationship-building initiatives\n\n## ROLES AND RESPONSIBILITIES\n\n### {{organizationName}}\n\n{{organizationResponsibilities}}\n\n### Indigenous Communities\n\n{{communityResponsibilities}}\n\n### Government Agencies (if applicable)\n\n{{governmentResponsibilities}}\n\n## DOCUMENTATION AND REPORTING\n\nAll consultation activities will be documented, including:\n\n- Date, location, and format of engagement\n- Participants\n- Information provided\n- Questions, concerns, and comments raised\n- Responses provided\n- Commitments made\n- Follow-up actions required\n\nThis documentation will be:\n\n- Shared with participating Indigenous communities for verification\n- Used to develop consultation reports\n- Maintained in a consultation record system\n- Made available to regulators as required\n\n## DISPUTE RESOLUTION\n\nIn the event of disagreements related to the consultation process:\n\n1. Parties will first attempt to resolve issues through direct dialogue\n2. If unsuccessful, parties may engage a mutually agreed-upon neutral third party to facilitate discussions\n3. If facilitation is unsuccessful, parties may consider mediation or other alternative dispute resolution mechanisms\n4. Throughout the dispute resolution process, all parties will act in good faith and seek constructive solutions\n\n## CAPACITY SUPPORT\n\n{{organizationName}} recognizes that meaningful consultation requires adequate capacity and resources. Subject to agreement between the parties, {{organizationName}} may provide support such as:\n\n{{capacitySupport}}\n\n## CONFIDENTIALITY AND INTELLECTUAL PROPERTY\n\n{{organizationName}} acknowledges that certain Indigenous information may be sensitive or confidential. To protect such information:\n\n{{confidentialityProvisions}}\n\n## TIMELINE\n\nProposed consultation timeline for the Project:\n\n{{consultationTimeline}}\n\n## MODIFICATION OF PROTOCOL\n\nThis Protocol may be modified by mutual agreement between {{organizationName}} and the participating Indigenous communities. Proposed modifications should be discussed and documented in writing.\n\n## ADOPTION AND IMPLEMENTATION\n\nThis Protocol takes effect on {{effectiveDate}}.\n\n**Signed on behalf of {{organizationName}}:**\n\n____________________\nName: {{signatoryName}}\nTitle: {{signatoryTitle}}\nDate: {{signatureDate}}\n\n**Signed on behalf of [Indigenous Community]:**\n\n____________________\nName: ________________\nTitle: ________________\nDate: ________________\n\n*Note: This is a framework document. Specific consultation protocols should be developed in collaboration with each affected Indigenous community, respecting their unique protocols, governance structures, and decision-making processes.*', '[{"name":"organizationName","label":"Organization Name","type":"text","required":true},{"name":"projectDescription","label":"Project Description","type":"textarea","required":true},{"name":"projectName","label":"Project Name","type":"text","required":true},{"name":"scopeOfActivities","label":"Scope of Activities","type":"textarea","required":true},{"name":"identifiedCommunities","label":"Identified Communities","type":"textarea","required":true},{"name":"identificationMethodology","label":"Identification Methodology","type":"textarea","required":true},{"name":"organizationResponsibilities","label":"Organization Responsibilities","type":"textarea","required":true},{"name":"communityResponsibilities","label":"Community Responsibilities","type":"textarea","required":true,"helper":"Note: This section should be completed through discussion with each community"},{"name":"governmentResponsibilities","label":"Government Responsibilities","type":"textarea","required":false},{"name":"capacitySupport","label":"Capacity Support","type":"textarea","required":true},{"name":"confidentialityProvisions","label":"Confidentiality Provisions","type":"textarea","required":true},{"name":"consultationTimeline","label":"Consultation Timeline","type":"textarea","required":true},{"name":"effectiveDate","label":"Effective Date","type":"date","required":true},{"name":"signatoryName","label":"Signatory Name","type":"text","required":true},{"name":"signatoryTitle","label":"Signatory Title","type":"text","required":true},{"name":"signatureDate","label":"Signature Date","type":"date","required":true}]', 'Canada'),
-
-('indigenous', 'impact-benefit', 'Impact Benefit Agreement Framework', 'Framework for agreements between project proponents and Indigenous communities', 'en', '# IMPACT AND BENEFIT AGREEMENT FRAMEWORK\n\n## PREAMBLE\n\nThis Impact and Benefit Agreement (\"Agreement\") is made this {{effectiveDate}},\n\n**BETWEEN:**\n\n**{{indigenousCommunityName}}**, a First Nation, Métis community, or Inuit organization, with offices at {{indigenousCommunityAddress}} (the \"Indigenous Community\")\n\n**AND:**\n\n**{{companyName}}**, a corporation incorporated under the laws of {{incorporationJurisdiction}}, with offices at {{companyAddress}} (the \"Company\")\n\n(collectively referred to as the \"Parties\")\n\n## RECITALS\n\n**WHEREAS** the Company is proposing to develop and operate {{projectName}} (the \"Project\") located at {{projectLocation}}, which involves {{projectDescription}};\n\n**WHEREAS** the Indigenous Community has Aboriginal and Treaty rights and interests, including title, in the area where the Project is to be developed and operated;\n\n**WHEREAS** the Project may impact the Indigenous Community's rights, interests, and traditional way of life;\n\n**WHEREAS** the Parties wish to establish a mutually beneficial relationship based on respect, transparency, and cooperation;\n\n**WHEREAS** the Company recognizes the importance of obtaining the free, prior, and informed consent of the Indigenous Community for the Project;\n\n**WHEREAS** the Parties seek to ensure that the Project provides benefits to the Indigenous Community while minimizing and mitigating adverse impacts;\n\n**NOW THEREFORE**, in consideration of the mutual covenants and agreements contained in this Agreement, the Parties agree as follows:\n\n## 1. PRINCIPLES\n\nThis Agreement is guided by the following principles:\n\n1.1 **Mutual Respect and Recognition**: Respect for and recognition of the Indigenous Community's inherent rights, title, laws, governance structures, and relationship with the land and waters.\n\n1.2 **Meaningful Participation**: The Indigenous Community will have meaningful opportunities to participate in all aspects of the Project throughout its lifecycle.\n\n1.3 **Shared Benefits**: The Project will provide fair and substantial benefits to the Indigenous Community.\n\n1.4 **Environmental Stewardship**: The Project will be developed and operated in a manner that respects the environment and the Indigenous Community's role as stewards of the land.\n\n1.5 **Cultural Protection**: The Project will respect and protect the Indigenous Community's cultural heritage and traditional knowledge.\n\n1.6 **Continuous Improvement**: The Parties commit to continuously improving their relationship and the implementation of this Agreement.\n\n## 2. SCOPE AND PROJECT DESCRIPTION\n\n2.1 **Project Description**: \n\n{{detailedProjectDescription}}\n\n2.2 **Project Area**: The Project is located within the traditional territory of the Indigenous Community as shown in Schedule A (Map of Project Area and Traditional Territory).\n\n2.3 **Term of Agreement**: This Agreement shall commence on the Effective Date and shall remain in force for {{agreementTerm}} years or until the Project is decommissioned, whichever is later.\n\n## 3. CONSENT AND SUPPORT\n\n3.1 **Indigenous Community Consent**: Subject to the Company's compliance with the terms of this Agreement, the Indigenous Community hereby provides its consent to the Project.\n\n3.2 **Company Commitments**: The Company acknowledges that the Indigenous Community's consent is contingent upon the Company's fulfillment of its obligations under this Agreement.\n\n3.3 **Limitation of Consent**: The Indigenous Community's consent is limited to the Project as described in this Agreement and does not extend to future expansions or modifications not contemplated herein.\n\n## 4. ENVIRONMENTAL PROTECTION\n\n4.1 **Environmental Standards**: The Company shall comply with all applicable environmental laws and regulations and shall implement additional measures agreed upon with the Indigenous Community as outlined in Schedule B (Environmental Protection Measures).\n\n4.2 **Environmental Monitoring**: The Parties shall establish a joint environmental monitoring program that incorporates traditional knowledge and provides for the meaningful participation of Indigenous Community members.\n\n4.3 **Environmental Incidents**: The Company shall immediately notify the Indigenous Community of any environmental incidents or non-compliance with environmental standards and shall work collaboratively to address such issues.\n\n## 5. CULTURAL HERITAGE PROTECTION\n\n5.1 **Cultural Heritage Management Plan**: The Parties shall develop and implement a Cultural Heritage Management Plan as outlined in Schedule C.\n\n5.2 **Archaeological Protocols**: The Company shall follow archaeological protocols developed with the Indigenous Community for any discoveries of archaeological resources.\n\n5.3 **Access to Cultural Sites**: The Company shall ensure Indigenous Community members have reasonable access to cultural sites within the Project Area.\n\n## 6. ECONOMIC BENEFITS\n\n6.1 **Financial Benefits**: The Company shall provide financial benefits to the Indigenous Community as follows:\n\n{{financialBenefits}}\n\n6.2 **Community Investment Fund**: The Company shall establish a Community Investment Fund as described in Schedule D to support community development initiatives.\n\n6.3 **Revenue Sharing**: The Company shall share Project revenues with the Indigenous Community according to the formula set out in Schedule E.\n\n## 7. EMPLOYMENT AND TRAINING\n\n7.1 **Employment Targets**: The Company shall work towards achieving the following employment targets for Indigenous Community members:\n\n{{employmentTargets}}\n\n7.2 **Training Programs**: The Company shall fund and implement training programs as outlined in Schedule F to prepare Indigenous Community members for employment opportunities.\n\n7.3 **Workplace Environment**: The Company shall create and maintain a culturally respectful workplace environment, including cultural awareness training for all employees and contractors.\n\n## 8. BUSINESS OPPORTUNITIES\n\n8.1 **Contracting Preferences**: The Company shall give preference to qualified businesses owned by the Indigenous Community or its members for contracts related to the Project.\n\n8.2 **Business Development**: The Company shall support the development of Indigenous Community businesses through measures outlined in Schedule G.\n\n8.3 **Joint Ventures**: The Parties shall explore opportunities for joint ventures related to the Project.\n\n## 9. SOCIAL AND COMMUNITY PROGRAMS\n\n9.1 **Community Programs**: The Company shall support social and community programs as outlined in Schedule H.\n\n9.2 **Infrastructure Improvements**: The Company shall contribute to infrastructure improvements in the Indigenous Community as outlined in Schedule I.\n\n## 10. IMPLEMENTATION AND GOVERNANCE\n\n10.1 **Implementation Committee**: The Parties shall establish an Implementation Committee to oversee the implementation of this Agreement.\n\n10.2 **Committee Composition**: The Implementation Committee shall consist of {{committeeComposition}}.\n\n10.3 **Committee Responsibilities**: The Implementation Committee shall:\n- Monitor compliance with the Agreement\n- Review and adjust implementation plans as needed\n- Address issues arising from the implementation of the Agreement\n- Review and report on progress annually\n\n## 11. COMMUNICATION AND ENGAGEMENT\n\n11.1 **Ongoing Engagement**: The Company shall maintain ongoing engagement with the Indigenous Community throughout the life of the Project.\n\n11.2 **Information Sharing**: The Company shall regularly share information about Project activities, environmental monitoring results, and employment statistics.\n\n11.3 **Community Meetings**: The Company shall participate in community meetings as requested by the Indigenous Community to provide updates and address concerns.\n\n## 12. DISPUTE RESOLUTION\n\n12.1 **Process**: Disputes arising from this Agreement shall be resolved through the following process:\n\n{{disputeResolutionProcess}}\n\n12.2 **Legal Proceedings**: No Party shall commence legal proceedings until the dispute resolution process has been exhausted, except for injunctive relief to prevent irreparable harm.\n\n## 13. REVIEW AND AMENDMENT\n\n13.1 **Periodic Review**: The Parties shall conduct a comprehensive review of this Agreement every {{reviewPeriod}} years.\n\n13.2 **Amendments**: This Agreement may be amended by mutual written consent of the Parties.\n\n## 14. CONFIDENTIALITY\n\n14.1 **Confidential Information**: The Parties shall maintain the confidentiality of information designated as confidential, subject to disclosure requirements under applicable laws.\n\n14.2 **Public Disclosure**: Public statements regarding this Agreement shall be made jointly or with the prior consent of the other Party.\n\n## 15. GENERAL PROVISIONS\n\n15.1 **Entire Agreement**: This Agreement constitutes the entire agreement between the Parties with respect to the subject matter hereof.\n\n15.2 **No Assignment**: Neither Party may assign this Agreement without the prior written consent of the other Party.\n\n15.3 **Notices**: All notices under this Agreement shall be in writing and delivered to the addresses specified by each Party.\n\n15.4 **Severability**: If any provision of this Agreement is found to be invalid or unenforceable, the remainder shall remain in effect.\n\n15.5 **Governing Law**: This Agreement shall be governed by the laws of {{governingLaw}} and applicable Canadian federal laws.\n\n## 16. SIGNATURES\n\nIN WITNESS WHEREOF, the Parties have executed this Agreement as of the Effective Date.\n\n**[INDIGENOUS COMMUNITY NAME]**\n\nPer: ______________________\nName: {{indigenousSignatoryName}}\nTitle: {{indigenousSignatoryTitle}}\n\n**[COMPANY NAME]**\n\nPer: ______________________\nName: {{companySignatoryName}}\nTitle: {{companySignatoryTitle}}\n\n## SCHEDULES\n\n- Schedule A: Map of Project Area and Traditional Territory\n- Schedule B: Environmental Protection Measures\n- Schedule C: Cultural Heritage Management Plan\n- Schedule D: Community Investment Fund\n- Schedule E: Revenue Sharing Formula\n- Schedule F: Training Programs\n- Schedule G: Business Development Measures\n- Schedule H: Social and Community Programs\n- Schedule I: Infrastructure Improvements', '[{"name":"effectiveDate","label":"Effective Date","type":"date","required":true},{"name":"indigenousCommunityName","label":"Indigenous Community Name","type":"text","required":true},{"name":"indigenousCommunityAddress","label":"Indigenous Community Address","type":"text","required":true},{"name":"companyName","label":"Company Name","type":"text","required":true},{"name":"incorporationJurisdiction","label":"Incorporation Jurisdiction","type":"text","required":true},{"name":"companyAddress","label":"Company Address","type":"text","required":true},{"name":"projectName","label":"Project Name","type":"text","required":true},{"name":"projectLocation","label":"Project Location","type":"text","required":true},{"name":"projectDescription","label":"Project Description","type":"textarea","required":true},{"name":"detailedProjectDescription","label":"Detailed Project Description","type":"textarea","required":true},{"name":"agreementTerm","label":"Agreement Term (years)","type":"text","required":true},{"name":"financialBenefits","label":"Financial Benefits","type":"textarea","required":true},{"name":"employmentTargets","label":"Employment Targets","type":"textarea","required":true},{"name":"committeeComposition","label":"Committee Composition","type":"textarea","required":true},{"name":"disputeResolutionProcess","label":"Dispute Resolution Process","type":"textarea","required":true},{"name":"reviewPeriod","label":"Review Period (years)","type":"text","required":true},{"name":"governingLaw","label":"Governing Law","type":"text","required":true},{"name":"indigenousSignatoryName","label":"Indigenous Signatory Name","type":"text","required":true},{"name":"indigenousSignatoryTitle","label":"Indigenous Signatory Title","type":"text","required":true},{"name":"companySignatoryName","label":"Company Signatory Name","type":"text","required":true},{"name":"companySignatoryTitle","label":"Company Signatory Title","type":"text","required":true}]', 'Canada'),
-
-('indigenous', 'rights-declaration', 'Indigenous Rights and Title Declaration', 'Formal declaration of Indigenous rights, title, and sovereignty', 'en', '# DECLARATION OF INDIGENOUS RIGHTS AND TITLE\n\n## PREAMBLE\n\nWe, the {{peopleName}}, are the original and sovereign People of our Traditional Territory, which includes the lands, waters, and resources within the area now known as {{territoryDescription}}.\n\nSince time immemorial, we have exercised our inherent rights and responsibilities to govern ourselves and our relations with the land, waters, and all living beings within our Traditional Territory in accordance with our traditional laws, customs, and traditions. We have never surrendered, ceded, or in any way relinquished our Aboriginal Title, Rights, or jurisdiction over our Traditional Territory.\n\nThis Declaration affirms our continued existence as a distinct Indigenous People with our own laws, governance systems, cultural practices, and spiritual beliefs. It is a solemn statement of our Aboriginal Title and Rights that exist regardless of recognition by colonial governments or courts. It is also a commitment to our ancestors and future generations to protect and steward our lands, waters, and resources for their benefit.\n\n## ARTICLES\n\n### ARTICLE 1: IDENTITY AND EXISTENCE\n\nWe, the {{peopleName}}, declare that we are a distinct Indigenous People with our own identity, culture, language, and way of life. Our existence as a People predates the arrival of European settlers and the establishment of the Canadian state. We have the inherent right to determine our own membership and identity in accordance with our laws and traditions.\n\n### ARTICLE 2: TRADITIONAL TERRITORY\n\nOur Traditional Territory encompasses all the lands, waters, airspace, and resources within the area described and mapped in Schedule A attached to this Declaration. This Territory has been traditionally used and occupied by our ancestors since time immemorial and continues to be integral to our cultural, spiritual, social, and economic way of life.\n\n### ARTICLE 3: ABORIGINAL TITLE\n\nWe possess Aboriginal Title to all lands, waters, and resources within our Traditional Territory. This Title is communal, inalienable, and includes the exclusive right to use, occupy, possess, manage, and benefit from these lands, waters, and resources in accordance with our traditional laws and governance systems.\n\nOur Aboriginal Title exists as a legal right independent of any colonial government recognition or proclamation and stems from our prior occupation of the land, our laws, and our relationship with the Territory.\n\n### ARTICLE 4: ABORIGINAL RIGHTS\n\nWe possess Aboriginal Rights throughout our Traditional Territory, including but not limited to:\n\n1. The right to self-determination and self-government;\n2. The right to practice and revitalize our cultural traditions and customs;\n3. The right to maintain and strengthen our spiritual relationship with our traditionally owned or otherwise occupied and used lands, waters, and resources;\n4. The right to harvest, manage, and conserve all resources within our Traditional Territory;\n5. The right to develop and maintain our economic structures and systems;\n6. The right to protect and preserve our archaeological, historical, and sacred sites;\n7. The right to determine and develop priorities and strategies for the development or use of our lands, waters, and resources;\n8. The right to maintain, control, protect, and develop our cultural heritage, traditional knowledge, and cultural expressions; and\n9. The right to be secure in the enjoyment of our own means of subsistence and development.\n\n### ARTICLE 5: GOVERNANCE AND JURISDICTION\n\nWe possess inherent jurisdiction over all lands, waters, and resources within our Traditional Territory. This jurisdiction includes the right to make and enforce our own laws, establish our own governance institutions, and exercise authority over all activities within our Territory.\n\nOur governance system is described in Schedule B attached to this Declaration and reflects our traditional laws and contemporary expressions of our right to self-government.\n\n### ARTICLE 6: CONSENT REQUIREMENT\n\nAny access to, use of, or activity within our Traditional Territory by non-members requires our free, prior, and informed consent. This includes, but is not limited to, resource extraction, development projects, conservation initiatives, research activities, and tourism.\n\nConsent must be obtained through proper consultation with our legitimate governing authorities in accordance with our consultation protocol outlined in Schedule C attached to this Declaration.\n\n### ARTICLE 7: TREATY RIGHTS\n\n{{treatyRightsSection}}\n\n### ARTICLE 8: INDIGENOUS LAWS\n\nOur Traditional Territory is governed by our Indigenous laws, which have regulated our relationship with the land and with others since time immemorial. These laws continue to be valid and applicable within our Territory and must be respected by all who enter or engage with our lands, waters, and resources.\n\nOur key legal principles and processes are described in Schedule D attached to this Declaration.\n\n### ARTICLE 9: ENVIRONMENTAL STEWARDSHIP\n\nWe have the inherent right and responsibility to protect, conserve, and manage the environment and natural resources of our Traditional Territory for the benefit of present and future generations. This includes the right to restore degraded ecosystems and take measures to prevent environmental damage.\n\nAll activities within our Territory must comply with our environmental stewardship laws and principles outlined in Schedule E attached to this Declaration.\n\n### ARTICLE 10: CULTURAL AND INTELLECTUAL PROPERTY\n\nWe possess rights to maintain, control, protect, and develop our cultural heritage, traditional knowledge, cultural expressions, and intellectual property. The use, recording, or reproduction of our cultural heritage, traditional knowledge, cultural expressions, ceremonies, stories, songs, dances, art forms, or language requires our free, prior, and informed consent.\n\n### ARTICLE 11: ECONOMIC RIGHTS\n\nWe possess the right to maintain and develop our economic systems and institutions and to determine our own economic development priorities and strategies. This includes the right to benefit from the development of natural resources within our Traditional Territory.\n\n### ARTICLE 12: IMPLEMENTATION AND ENFORCEMENT\n\nWe are committed to implementing and enforcing the rights affirmed in this Declaration through the exercise of our inherent jurisdiction and in accordance with our Indigenous legal traditions.\n\nWe call upon all governments, corporations, organizations, and individuals to respect and uphold the rights affirmed in this Declaration and to engage with us in a spirit of partnership and mutual respect.\n\n### ARTICLE 13: RELATIONS WITH THE CROWN AND THIRD PARTIES\n\nOur relationship with the Crown is based on mutual recognition, mutual respect, and shared responsibility. We are willing to work collaboratively with the Crown and third parties provided that our Aboriginal Title, Rights, and jurisdiction are properly recognized and respected.\n\nAny agreements or arrangements with the Crown or third parties must be consistent with the principles and rights affirmed in this Declaration.\n\n### ARTICLE 14: DISPUTE RESOLUTION\n\nDisputes regarding the interpretation or implementation of this Declaration or relating to activities within our Traditional Territory shall be resolved through our traditional dispute resolution processes as described in Schedule F attached to this Declaration, or through mutually agreed upon alternative dispute resolution mechanisms.\n\n## ADOPTION\n\nThis Declaration has been adopted on this {{adoptionDate}} day of {{adoptionMonth}}, {{adoptionYear}} through our traditional decision-making processes and represents the collective will of the {{peopleName}}.\n\n## SIGNATURES\n\n[Signatures of Hereditary Chiefs, Elected Leaders, and/or Other Traditional Leadership as appropriate for the specific Indigenous Nation]\n\n____________________  \n{{signatory1Name}}  \n{{signatory1Title}}  \n\n____________________  \n{{signatory2Name}}  \n{{signatory2Title}}  \n\n____________________  \n{{signatory3Name}}  \n{{signatory3Title}}  \n\n## WITNESSES\n\n____________________  \n{{witness1Name}}  \n\n____________________  \n{{witness2Name}}  \n\n## SCHEDULES\n\n- Schedule A: Map and Description of Traditional Territory\n- Schedule B: Governance System\n- Schedule C: Consultation Protocol\n- Schedule D: Key Legal Principles and Processes\n- Schedule E: Environmental Stewardship Laws and Principles\n- Schedule F: Dispute Resolution Processes', '[{"name":"peopleName","label":"Indigenous People/Nation Name","type":"text","required":true},{"name":"territoryDescription","label":"Territory Description","type":"textarea","required":true},{"name":"treatyRightsSection","label":"Treaty Rights Section","type":"textarea","required":true,"helper":"If applicable, describe any treaty rights. If no treaties exist, indicate that the Nation has never entered into treaty relations or that treaties do not diminish Aboriginal Title."},{"name":"adoptionDate","label":"Adoption Date (day)","type":"text","required":true},{"name":"adoptionMonth","label":"Adoption Month","type":"text","required":true},{"name":"adoptionYear","label":"Adoption Year","type":"text","required":true},{"name":"signatory1Name","label":"Signatory 1 Name","type":"text","required":true},{"name":"signatory1Title","label":"Signatory 1 Title","type":"text","required":true},{"name":"signatory2Name","label":"Signatory 2 Name","type":"text","required":true},{"name":"signatory2Title","label":"Signatory 2 Title","type":"text","required":true},{"name":"signatory3Name","label":"Signatory 3 Name","type":"text","required":true},{"name":"signatory3Title","label":"Signatory 3 Title","type":"text","required":true},{"name":"witness1Name","label":"Witness 1 Name","type":"text","required":true},{"name":"witness2Name","label":"Witness 2 Name","type":"text","required":true}]', 'Canada');
-
--- I'll continue with more templates in the next part
-psql $DATABASE_URL < ./add_templates4.sql
-
-echo "Fourth batch of templates added successfully."
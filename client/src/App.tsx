@@ -52,6 +52,8 @@ import JurisdictionCompare from "./pages/jurisdiction-compare";
 import MyFeedbackPage from "./pages/my-feedback";
 import AdminFeedbackPage from "./pages/admin/feedback";
 import AdminDashboard from "./pages/admin/dashboard";
+import AdminEscalationsPage from "./pages/admin/escalations";
+import MyQuestionsPage from "./pages/my-questions";
 
 // Import legal domain pages
 import FamilyLawPage from "./pages/legal-domains/family-law";
@@ -193,10 +195,12 @@ function Router() {
       
       {/* Feedback Pages */}
       <ProtectedRoute path="/my-feedback" component={MyFeedbackPage} />
+      <ProtectedRoute path="/my-questions" component={MyQuestionsPage} />
       
       {/* Admin Pages */}
       <ProtectedRoute path="/admin/dashboard" component={AdminDashboard} />
       <ProtectedRoute path="/admin/feedback" component={AdminFeedbackPage} />
+      <ProtectedRoute path="/admin/escalations" component={AdminEscalationsPage} />
       
       <Route path="/auth" component={AuthPage} />
       <Route path="/auth-debug" component={AuthDebugPage} />
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { 
   Card, 
   CardContent, 
@@ -8,9 +8,10 @@ import {
   CardTitle 
 } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useToast } from "@/hooks/use-toast";
-import { Loader2, Database, HardDrive, RefreshCw, Trash2 } from "lucide-react";
+import { Loader2, Database, HardDrive, RefreshCw, Trash2, Target } from "lucide-react";
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { apiRequest } from '@/lib/queryClient';
 import { Skeleton } from '@/components/ui/skeleton';
@@ -26,6 +27,20 @@ interface CacheStats {
     count: number;
     providers: Record<string, number>;
   };
+  lookups?: {
+    lookups: number;
+    hits: {
+      exact: number;
+      memory: number;
+      semantic: number;
+    };
+    misses: number;
+    hitRate: number;
+    semantic: {
+      threshold: number;
+      averageSimilarity: number | null;
+    };
+  };
 }
 
 export function CacheManager() {
@@ -63,6 +78,57 @@ export function CacheManager() {
     }
   });
 
+  const [thresholdInput, setThresholdInput] = useState("");
+
+  useEffect(() => {
+    if (cacheStats?.lookups) {
+      setThresholdInput(String(cacheStats.lookups.semantic.threshold));
+    }
+  }, [cacheStats?.lookups?.semantic.threshold]);
+
+  const semanticCacheMutation = useMutation({
+    mutationFn: async (settings: { threshold?: number; resetStats?: boolean }) => {
+      await apiRequest('POST', '/api/admin/ai-service/semantic-cache', settings);
+    },
+    onSuccess: (_data, settings) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/ai-service/status'] });
+      toast({
+        title: settings.resetStats ? "Statistics reset" : "Threshold updated",
+        description: settings.resetStats
+          ? "Cache hit/miss counters have been reset"
+          : "The semantic cache similarity threshold has been updated",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to update semantic cache",
+        description: error.message || "An error occurred while updating the semantic cache",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const handleSaveThreshold = () => {
+    const threshold = Number(thresholdInput);
+    if (!Number.isFinite(threshold) || threshold <= 0 || threshold > 1) {
+      toast({
+        title: "Invalid threshold",
+        description: "Enter a similarity between 0 and 1, for example 0.9",
+        variant: "destructive",
+      });
+      return;
+    }
+    semanticCacheMutation.mutate({ threshold });
+  };
+
+  const lookupStats = cacheStats?.lookups;
+  const lookupTiers = lookupStats ? [
+    { label: "Exact (database)", count: lookupStats.hits.exact },
+    { label: "Memory", count: lookupStats.hits.memory },
+    { label: "Semantic", count: lookupStats.hits.semantic },
+    { label: "Misses", count: lookupStats.misses },
+  ] : [];
+
   const handleClearCache = () => {
     if (window.confirm("Are you sure you want to clear all cached AI responses? This action cannot be undone.")) {
       clearCacheMutation.mutate();
@@ -89,8 +155,9 @@ export function CacheManager() {
       </CardHeader>
       <CardContent>
         <Tabs defaultValue="overview" value={activeTab} onValueChange={setActiveTab}>
-          <TabsList className="grid w-full grid-cols-2">
+          <TabsList className="grid w-full grid-cols-3">
             <TabsTrigger value="overview">Overview</TabsTrigger>
+            <TabsTrigger value="hit-rate">Hit Rate</TabsTrigger>
             <TabsTrigger value="details">Details</TabsTrigger>
           </TabsList>
           
@@ -180,6 +247,122 @@ export function CacheManager() {
             )}
           </TabsContent>
           
+          <TabsContent value="hit-rate" className="space-y-4 mt-4">
+            {isLoadingStats ? (
+              <div className="space-y-3">
+                <Skeleton className="h-24 w-full" />
+                <Skeleton className="h-32 w-full" />
+              </div>
+            ) : (
+              <>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <Card>
+                    <CardHeader className="pb-2">
+                      <CardTitle className="text-sm font-medium flex items-center">
+                        <Target className="mr-2 h-4 w-4" />
+                        Hit Rate
+                      </CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                      <div className="text-2xl font-bold">
+                        {Math.round((lookupStats?.hitRate || 0) * 100)}%
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        {lookupStats?.lookups || 0} lookups since the last reset
+                      </p>
+                    </CardContent>
+                  </Card>
+
+                  <Card>
+                    <CardHeader className="pb-2">
+                      <CardTitle className="text-sm font-medium">
+                        Semantic Matches
+                      </CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                      <div className="text-2xl font-bold">
+                        {lookupStats?.hits.semantic || 0}
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        {lookupStats?.semantic.averageSimilarity != null
+                          ? `Average similarity ${lookupStats.semantic.averageSimilarity.toFixed(2)}`
+                          : "No similar prompts matched yet"}
+                      </p>
+                    </CardContent>
+                  </Card>
+                </div>
+
+                <Card>
+                  <CardHeader className="pb-2">
+                    <CardTitle className="text-sm font-medium">
+                      Lookups by Cache Tier
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    {lookupStats && lookupStats.lookups > 0 ? (
+                      <div className="space-y-4">
+                        {lookupTiers.map(({ label, count }) => {
+                          const percentage = Math.round((count / lookupStats.lookups) * 100);
+                          return (
+                            <div key={label} className="space-y-1">
+                              <div className="flex items-center justify-between">
+                                <div className="flex items-center">
+                                  <Badge variant="outline" className="mr-2">{label}</Badge>
+                                  <span className="text-sm font-medium">{count} lookups</span>
+                                </div>
+                                <span className="text-xs text-muted-foreground">{percentage}%</span>
+                              </div>
+                              <Progress value={percentage} className="h-2" />
+                            </div>
+                          );
+                        })}
+                      </div>
+                    ) : (
+                      <div className="flex items-center justify-center py-6 text-muted-foreground">
+                        No cache lookups recorded yet
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+
+                <Card>
+                  <CardHeader className="pb-2">
+                    <CardTitle className="text-sm font-medium">
+                      Semantic Similarity Threshold
+                    </CardTitle>
+                    <CardDescription>
+                      Prompts at least this similar to a cached prompt (0-1) reuse its response
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent className="flex flex-wrap items-center gap-2">
+                    <Input
+                      type="number"
+                      min={0.5}
+                      max={1}
+                      step={0.01}
+                      value={thresholdInput}
+                      onChange={(e) => setThresholdInput(e.target.value)}
+                      className="w-32"
+                    />
+                    <Button
+                      onClick={handleSaveThreshold}
+                      disabled={semanticCacheMutation.isPending}
+                    >
+                      Save
+                    </Button>
+                    <Button
+                      variant="outline"
+                      onClick={() => semanticCacheMutation.mutate({ resetStats: true })}
+                      disabled={semanticCacheMutation.isPending}
+                    >
+                      Reset Statistics
+                    </Button>
+                  </CardContent>
+                </Card>
+              </>
+            )}
+          </TabsContent>
+          
           <TabsContent value="details" className="space-y-4 mt-4">
             {isLoadingStats ? (
               <div className="space-y-3">
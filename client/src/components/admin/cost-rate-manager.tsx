@@ -0,0 +1,182 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from '@/components/ui/badge';
+import { useToast } from "@/hooks/use-toast";
+import { Loader2, Plus, Save, Upload } from "lucide-react";
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiRequest } from '@/lib/queryClient';
+import type { CostRateTable } from '@shared/schema';
+
+const RATE_TABLES_KEY = '/api/admin/cost-rate-tables';
+
+const statusVariants: Record<string, "default" | "secondary" | "outline"> = {
+  published: "default",
+  draft: "secondary",
+  archived: "outline",
+};
+
+/**
+ * Versioned rate tables behind the cost estimator. Admins copy a version into
+ * a draft, edit its JSON and publish it; saved estimates keep the version they
+ * were calculated with.
+ */
+export function CostRateManager() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [dataText, setDataText] = useState("");
+  const [notes, setNotes] = useState("");
+
+  const { data: tables = [], isLoading } = useQuery<CostRateTable[]>({
+    queryKey: [RATE_TABLES_KEY],
+  });
+
+  const selected = tables.find(table => table.id === selectedId)
+    || tables.find(table => table.status === 'published')
+    || tables[0];
+  const isDraft = selected?.status === 'draft';
+
+  useEffect(() => {
+    if (!selected) return;
+    setDataText(JSON.stringify(selected.data, null, 2));
+    setNotes(selected.notes || "");
+  }, [selected?.id, selected?.updatedAt]);
+
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const createDraftMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest<CostRateTable>('POST', RATE_TABLES_KEY, { baseId: selected?.id });
+    },
+    onSuccess: (table) => {
+      queryClient.invalidateQueries({ queryKey: [RATE_TABLES_KEY] });
+      setSelectedId(table.id);
+      toast({ title: "Draft created", description: `Version ${table.version} is ready to edit` });
+    },
+    onError: onError("Failed to create draft"),
+  });
+
+  const saveDraft = async () => {
+    let data: unknown;
+    try {
+      data = JSON.parse(dataText);
+    } catch {
+      throw new Error("The rates are not valid JSON");
+    }
+    return await apiRequest<CostRateTable>('PATCH', `${RATE_TABLES_KEY}/${selected!.id}`, { data, notes });
+  };
+
+  const saveDraftMutation = useMutation({
+    mutationFn: saveDraft,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [RATE_TABLES_KEY] });
+      toast({ title: "Draft saved" });
+    },
+    onError: onError("Failed to save draft"),
+  });
+
+  const publishMutation = useMutation({
+    mutationFn: async () => {
+      // Unsaved edits go out with the publish
+      await saveDraft();
+      return await apiRequest<CostRateTable>('POST', `${RATE_TABLES_KEY}/${selected!.id}/publish`);
+    },
+    onSuccess: (table) => {
+      queryClient.invalidateQueries({ queryKey: [RATE_TABLES_KEY] });
+      toast({ title: "Rates published", description: `New estimates now use version ${table.version}` });
+    },
+    onError: onError("Failed to publish rates"),
+  });
+
+  if (isLoading) {
+    return <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />;
+  }
+
+  return (
+    <div className="grid gap-6 md:grid-cols-[220px_1fr]">
+      <div className="space-y-2">
+        {tables.map(table => (
+          <button
+            key={table.id}
+            type="button"
+            onClick={() => setSelectedId(table.id)}
+            className={`w-full text-left rounded-md border p-3 ${table.id === selected?.id ? 'border-primary bg-primary/5' : ''}`}
+          >
+            <div className="flex items-center justify-between">
+              <span className="font-medium">Version {table.version}</span>
+              <Badge variant={statusVariants[table.status] || "outline"}>{table.status}</Badge>
+            </div>
+            {table.publishedAt && (
+              <p className="text-xs text-muted-foreground mt-1">
+                Published {new Date(table.publishedAt).toLocaleDateString()}
+              </p>
+            )}
+          </button>
+        ))}
+        <Button
+          variant="outline"
+          className="w-full"
+          disabled={!selected || createDraftMutation.isPending}
+          onClick={() => createDraftMutation.mutate()}
+        >
+          {createDraftMutation.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Plus className="h-4 w-4 mr-2" />}
+          New Draft
+        </Button>
+        <p className="text-xs text-muted-foreground">A new draft starts from the selected version.</p>
+      </div>
+
+      {selected && (
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="rate-notes">Notes</Label>
+            <Input
+              id="rate-notes"
+              value={notes}
+              maxLength={1000}
+              disabled={!isDraft}
+              onChange={(event) => setNotes(event.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="rate-data">Rates (CAD)</Label>
+            <Textarea
+              id="rate-data"
+              className="min-h-[400px] font-mono text-xs"
+              value={dataText}
+              readOnly={!isDraft}
+              onChange={(event) => setDataText(event.target.value)}
+            />
+            <p className="text-xs text-muted-foreground">
+              Hourly rates are keyed by matter type then province, and court fees by province then court level.
+              Each level needs a "default" entry.
+            </p>
+          </div>
+          {isDraft && (
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                disabled={saveDraftMutation.isPending}
+                onClick={() => saveDraftMutation.mutate()}
+              >
+                {saveDraftMutation.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+                Save Draft
+              </Button>
+              <Button
+                disabled={publishMutation.isPending || saveDraftMutation.isPending}
+                onClick={() => publishMutation.mutate()}
+              >
+                {publishMutation.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Upload className="h-4 w-4 mr-2" />}
+                Publish Version {selected.version}
+              </Button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
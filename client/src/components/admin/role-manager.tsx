@@ -0,0 +1,307 @@
+import React, { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader2, Pencil, Plus, Trash2 } from 'lucide-react';
+
+interface PermissionInfo {
+  name: string;
+  description: string;
+}
+
+interface RoleInfo {
+  id: number;
+  name: string;
+  description: string | null;
+  permissions: string[];
+  builtIn: boolean;
+  userCount: number;
+}
+
+interface RolesResponse {
+  permissions: PermissionInfo[];
+  roles: RoleInfo[];
+}
+
+interface UserInfo {
+  id: number;
+  username: string;
+  email: string | null;
+  fullName: string | null;
+  role: string;
+}
+
+interface RoleForm {
+  id?: number;
+  name: string;
+  description: string;
+  permissions: string[];
+}
+
+const EMPTY_FORM: RoleForm = { name: '', description: '', permissions: [] };
+
+/**
+ * Create and edit roles and choose the permissions each one grants
+ */
+export function RoleManager() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [form, setForm] = useState<RoleForm | null>(null);
+
+  const { data, isLoading } = useQuery<RolesResponse>({
+    queryKey: ['/api/admin/roles'],
+  });
+
+  const saveRoleMutation = useMutation({
+    mutationFn: async (role: RoleForm) => {
+      const body = { name: role.name, description: role.description, permissions: role.permissions };
+      return role.id
+        ? await apiRequest('PATCH', `/api/admin/roles/${role.id}`, body)
+        : await apiRequest('POST', '/api/admin/roles', body);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/roles'] });
+      toast({ title: 'Role saved' });
+      setForm(null);
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Could not save role', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const deleteRoleMutation = useMutation({
+    mutationFn: async (id: number) => await apiRequest('DELETE', `/api/admin/roles/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/roles'] });
+      toast({ title: 'Role deleted' });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Could not delete role', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const togglePermission = (name: string, checked: boolean) => {
+    if (!form) return;
+    setForm({
+      ...form,
+      permissions: checked
+        ? [...form.permissions.filter(permission => permission !== '*'), name]
+        : form.permissions.filter(permission => permission !== name),
+    });
+  };
+
+  if (isLoading || !data) {
+    return <Skeleton className="h-48 w-full" />;
+  }
+
+  const isAllPermissions = form?.permissions.includes('*') ?? false;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex">
+        <Button variant="outline" size="sm" className="ml-auto" onClick={() => setForm(EMPTY_FORM)}>
+          <Plus className="h-4 w-4 mr-1" />
+          Add Role
+        </Button>
+      </div>
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Role</TableHead>
+            <TableHead>Permissions</TableHead>
+            <TableHead className="text-right">Users</TableHead>
+            <TableHead />
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {data.roles.map(role => (
+            <TableRow key={role.id}>
+              <TableCell>
+                <div className="font-medium">{role.name}</div>
+                {role.description && <div className="text-xs text-muted-foreground">{role.description}</div>}
+              </TableCell>
+              <TableCell>
+                <div className="flex flex-wrap gap-1">
+                  {role.name === 'admin' || role.permissions.includes('*') ? (
+                    <Badge>All permissions</Badge>
+                  ) : role.permissions.length === 0 ? (
+                    <span className="text-sm text-muted-foreground">None</span>
+                  ) : (
+                    role.permissions.map(permission => (
+                      <Badge key={permission} variant="outline">{permission}</Badge>
+                    ))
+                  )}
+                </div>
+              </TableCell>
+              <TableCell className="text-right">{role.userCount}</TableCell>
+              <TableCell className="text-right whitespace-nowrap">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  disabled={role.name === 'admin'}
+                  onClick={() => setForm({
+                    id: role.id,
+                    name: role.name,
+                    description: role.description || '',
+                    permissions: role.permissions,
+                  })}
+                >
+                  <Pencil className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  disabled={role.builtIn || role.userCount > 0 || deleteRoleMutation.isPending}
+                  onClick={() => deleteRoleMutation.mutate(role.id)}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+
+      <Dialog open={!!form} onOpenChange={(open) => !open && setForm(null)}>
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{form?.id ? `Edit ${form.name}` : 'New Role'}</DialogTitle>
+            <DialogDescription>Users with this role get every permission checked below.</DialogDescription>
+          </DialogHeader>
+
+          {form && (
+            <div className="space-y-4">
+              <div className="space-y-1">
+                <Label htmlFor="role-name">Name</Label>
+                <Input
+                  id="role-name"
+                  value={form.name}
+                  placeholder="reviewing_lawyer"
+                  disabled={data.roles.some(role => role.id === form.id && (role.builtIn || role.userCount > 0))}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="role-description">Description</Label>
+                <Textarea
+                  id="role-description"
+                  value={form.description}
+                  onChange={(e) => setForm({ ...form, description: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Permissions</Label>
+                {data.permissions.map(permission => (
+                  <div key={permission.name} className="flex items-start gap-2">
+                    <Checkbox
+                      id={`permission-${permission.name}`}
+                      checked={isAllPermissions || form.permissions.includes(permission.name)}
+                      disabled={isAllPermissions}
+                      onCheckedChange={(checked) => togglePermission(permission.name, checked === true)}
+                    />
+                    <label htmlFor={`permission-${permission.name}`} className="text-sm leading-tight">
+                      <span className="font-mono">{permission.name}</span>
+                      <span className="block text-xs text-muted-foreground">{permission.description}</span>
+                    </label>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setForm(null)}>Cancel</Button>
+            <Button
+              disabled={!form?.name || saveRoleMutation.isPending}
+              onClick={() => form && saveRoleMutation.mutate(form)}
+            >
+              {saveRoleMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
+
+/**
+ * Assign roles to users
+ */
+export function UserRoleManager() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: users, isLoading: isUsersLoading } = useQuery<UserInfo[]>({
+    queryKey: ['/api/admin/users'],
+  });
+  const { data: rolesData, isLoading: isRolesLoading } = useQuery<RolesResponse>({
+    queryKey: ['/api/admin/roles'],
+  });
+
+  const assignRoleMutation = useMutation({
+    mutationFn: async ({ userId, role }: { userId: number; role: string }) =>
+      await apiRequest('PUT', `/api/admin/users/${userId}/role`, { role }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/users'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/roles'] });
+      toast({ title: 'Role updated' });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Could not update role', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  if (isUsersLoading || isRolesLoading || !users || !rolesData) {
+    return <Skeleton className="h-48 w-full" />;
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>User</TableHead>
+          <TableHead>Email</TableHead>
+          <TableHead className="w-56">Role</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {users.map(user => (
+          <TableRow key={user.id}>
+            <TableCell>
+              <div className="font-medium">{user.fullName || user.username}</div>
+              {user.fullName && <div className="text-xs text-muted-foreground">{user.username}</div>}
+            </TableCell>
+            <TableCell>{user.email}</TableCell>
+            <TableCell>
+              <Select
+                value={user.role}
+                onValueChange={(role) => assignRoleMutation.mutate({ userId: user.id, role })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {rolesData.roles.map(role => (
+                    <SelectItem key={role.id} value={role.name}>{role.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
@@ -0,0 +1,184 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { t } from "@/lib/i18n";
+import { ArrowRightLeft, Info } from "lucide-react";
+
+// Mirrors ClauseRedline in server/lib/contractDiff.ts
+type ClauseChangeType = "unchanged" | "modified" | "moved" | "added" | "removed";
+
+interface RedlineSegment {
+  type: "equal" | "insert" | "delete";
+  text: string;
+}
+
+interface ContractClause {
+  index: number;
+  number: string;
+  text: string;
+  start: number;
+  end: number;
+}
+
+interface AlignedClause {
+  change: ClauseChangeType;
+  moved: boolean;
+  similarity: number;
+  first?: ContractClause;
+  second?: ContractClause;
+  redline: RedlineSegment[];
+  impact?: string;
+}
+
+export interface ClauseRedline {
+  numbered: boolean;
+  clauses: AlignedClause[];
+  stats: Record<ClauseChangeType, number>;
+}
+
+interface ClauseRedlineViewProps {
+  redline: ClauseRedline;
+  className?: string;
+}
+
+const CHANGE_STYLES: Record<ClauseChangeType, string> = {
+  unchanged: "bg-muted text-muted-foreground",
+  modified: "bg-amber-100 text-amber-800 dark:bg-amber-950/40 dark:text-amber-300",
+  moved: "bg-blue-100 text-blue-800 dark:bg-blue-950/40 dark:text-blue-300",
+  added: "bg-green-100 text-green-800 dark:bg-green-950/40 dark:text-green-300",
+  removed: "bg-red-100 text-red-800 dark:bg-red-950/40 dark:text-red-300",
+};
+
+const CHANGE_ORDER: ClauseChangeType[] = ["modified", "moved", "added", "removed", "unchanged"];
+
+function clauseLabel(clause?: ContractClause): string {
+  if (!clause) return "";
+  return clause.number === "preamble" ? t("preamble") : t("clause_label", { number: clause.number });
+}
+
+/**
+ * One side of a redline: the first contract shows deletions, the second
+ * shows insertions, and both show the text they share.
+ */
+const RedlineText: React.FC<{ segments: RedlineSegment[]; side: "first" | "second" }> = ({ segments, side }) => (
+  <p className="text-sm whitespace-pre-wrap leading-relaxed">
+    {segments.map((segment, index) => {
+      if (segment.type === "equal") {
+        return <span key={index}>{segment.text}</span>;
+      }
+      if (side === "first" && segment.type === "delete") {
+        return (
+          <del key={index} className="bg-red-100 text-red-800 dark:bg-red-950/40 dark:text-red-300 decoration-red-500">
+            {segment.text}
+          </del>
+        );
+      }
+      if (side === "second" && segment.type === "insert") {
+        return (
+          <ins key={index} className="bg-green-100 text-green-800 dark:bg-green-950/40 dark:text-green-300 no-underline">
+            {segment.text}
+          </ins>
+        );
+      }
+      return null;
+    })}
+  </p>
+);
+
+const ClauseRedlineView: React.FC<ClauseRedlineViewProps> = ({ redline, className = "" }) => {
+  const [showUnchanged, setShowUnchanged] = useState(false);
+
+  const visibleClauses = showUnchanged
+    ? redline.clauses
+    : redline.clauses.filter((clause) => clause.change !== "unchanged");
+
+  return (
+    <Card className={className}>
+      <CardHeader>
+        <div className="flex flex-wrap justify-between items-start gap-4">
+          <div>
+            <CardTitle>{t("clause_redline")}</CardTitle>
+            <CardDescription>{t("clause_redline_description")}</CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            <Switch id="show-unchanged-clauses" checked={showUnchanged} onCheckedChange={setShowUnchanged} />
+            <Label htmlFor="show-unchanged-clauses" className="text-sm">{t("show_unchanged_clauses")}</Label>
+          </div>
+        </div>
+        <div className="flex flex-wrap gap-2 pt-2">
+          {CHANGE_ORDER.map((change) => (
+            <Badge key={change} variant="outline" className={CHANGE_STYLES[change]}>
+              {t(`change_${change}`)}: {redline.stats[change]}
+            </Badge>
+          ))}
+        </div>
+        {!redline.numbered && (
+          <p className="text-xs text-muted-foreground flex items-center gap-1 pt-2">
+            <Info className="h-3 w-3" />
+            {t("clause_redline_unnumbered")}
+          </p>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="hidden md:grid grid-cols-2 gap-4 text-sm font-medium text-muted-foreground">
+          <div>{t("first_contract")}</div>
+          <div>{t("second_contract")}</div>
+        </div>
+
+        {visibleClauses.length === 0 && (
+          <p className="text-sm text-muted-foreground text-center py-6">{t("no_clause_changes")}</p>
+        )}
+
+        {visibleClauses.map((clause, index) => (
+          <div key={index} className="border rounded-md p-3 space-y-2">
+            <div className="flex flex-wrap items-center gap-2">
+              <Badge variant="outline" className={CHANGE_STYLES[clause.change]}>
+                {t(`change_${clause.change}`)}
+              </Badge>
+              {clause.moved && clause.change === "modified" && (
+                <Badge variant="outline" className={CHANGE_STYLES.moved}>
+                  {t("change_moved")}
+                </Badge>
+              )}
+              <span className="text-sm font-medium flex items-center gap-1">
+                {clauseLabel(clause.first)}
+                {clause.first && clause.second && clauseLabel(clause.first) !== clauseLabel(clause.second) && (
+                  <ArrowRightLeft className="h-3 w-3 text-muted-foreground" />
+                )}
+                {clause.second && clauseLabel(clause.first) !== clauseLabel(clause.second) && clauseLabel(clause.second)}
+              </span>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="rounded bg-muted/40 p-2">
+                {clause.first ? (
+                  <RedlineText segments={clause.redline} side="first" />
+                ) : (
+                  <p className="text-sm italic text-muted-foreground">{t("not_in_first_contract")}</p>
+                )}
+              </div>
+              <div className="rounded bg-muted/40 p-2">
+                {clause.second ? (
+                  <RedlineText segments={clause.redline} side="second" />
+                ) : (
+                  <p className="text-sm italic text-muted-foreground">{t("removed_in_second_contract")}</p>
+                )}
+              </div>
+            </div>
+
+            {clause.impact && (
+              <div className="text-sm">
+                <span className="font-medium">{t("potential_impact")}: </span>
+                {clause.impact}
+              </div>
+            )}
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ClauseRedlineView;
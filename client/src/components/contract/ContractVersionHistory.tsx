@@ -0,0 +1,208 @@
+import React, { useState } from 'react';
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { t } from "@/lib/i18n";
+import { ArrowDown, ArrowUp, ChevronDown, ChevronUp, History, Loader2 } from "lucide-react";
+
+// Mirrors ContractMatterHistory in server/lib/contractVersioning.ts
+interface VersionRisk {
+  clause: string;
+  issue: string;
+  severity: string;
+  category?: string;
+}
+
+interface AnalysisVersionDiff {
+  fromAnalysisId: number;
+  toAnalysisId: number;
+  fromVersion: number;
+  toVersion: number;
+  score: { from: number; to: number; change: number };
+  riskLevel: { from: string; to: string; changed: boolean };
+  risks: {
+    resolved: VersionRisk[];
+    introduced: VersionRisk[];
+    carried: { previous: VersionRisk; current: VersionRisk; severityChange: "increased" | "decreased" | "unchanged" }[];
+  };
+}
+
+interface ContractMatterHistory {
+  matter: { id: number; title: string };
+  versions: {
+    analysisId: number;
+    version: number;
+    score: number;
+    riskLevel: string;
+    riskCount: number;
+    fileName: string | null;
+    createdAt: string | null;
+  }[];
+  changes: AnalysisVersionDiff[];
+}
+
+interface ContractVersionHistoryProps {
+  analysisId: number;
+  onSelectVersion?: (analysisId: number) => void;
+  className?: string;
+}
+
+const riskLevelColor = (level: string) => {
+  switch (level.toLowerCase()) {
+    case "high":
+      return "text-red-600 border-red-200";
+    case "medium":
+      return "text-amber-600 border-amber-200";
+    default:
+      return "text-emerald-600 border-emerald-200";
+  }
+};
+
+const RiskList: React.FC<{ title: string; risks: VersionRisk[]; className: string }> = ({ title, risks, className }) => (
+  <div>
+    <h5 className={`text-sm font-medium mb-1 ${className}`}>{title} ({risks.length})</h5>
+    <ul className="space-y-1">
+      {risks.map((risk, index) => (
+        <li key={index} className="text-sm border rounded p-2">
+          <Badge variant="outline" className={`mr-2 ${riskLevelColor(risk.severity)}`}>{risk.severity}</Badge>
+          {risk.issue || risk.clause}
+        </li>
+      ))}
+    </ul>
+  </div>
+);
+
+/**
+ * Version history of the contract matter an analysis belongs to, with the
+ * score, risk level and risk changes between consecutive versions
+ */
+const ContractVersionHistory: React.FC<ContractVersionHistoryProps> = ({ analysisId, onSelectVersion, className = "" }) => {
+  const [expandedChange, setExpandedChange] = useState<number | null>(null);
+
+  const { data: history, isLoading } = useQuery<ContractMatterHistory>({
+    queryKey: [`/api/contract-analyses/${analysisId}/history`],
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center p-4">
+        <Loader2 className="h-6 w-6 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!history) {
+    return null;
+  }
+
+  // Newest version first
+  const versions = [...history.versions].reverse();
+
+  return (
+    <Card className={className}>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <History className="h-5 w-5" />
+          {t("version_history")}
+        </CardTitle>
+        <CardDescription>
+          {history.versions.length === 1
+            ? t("single_version_description")
+            : t("version_history_description", { count: String(history.versions.length) })}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {versions.map((version) => {
+          const change = history.changes.find((item) => item.toAnalysisId === version.analysisId);
+          const isCurrent = version.analysisId === analysisId;
+          const isExpanded = expandedChange === version.analysisId;
+
+          return (
+            <div key={version.analysisId} className={`border rounded-md p-3 ${isCurrent ? "border-primary" : ""}`}>
+              <div className="flex flex-wrap items-center gap-2">
+                <Badge>{t("version_label", { version: String(version.version) })}</Badge>
+                <span className="font-semibold">{version.score}</span>
+                <Badge variant="outline" className={riskLevelColor(version.riskLevel)}>
+                  {version.riskLevel.toUpperCase()}
+                </Badge>
+                <span className="text-sm text-muted-foreground">
+                  {version.createdAt ? new Date(version.createdAt).toLocaleDateString() : ""}
+                  {version.fileName ? ` · ${version.fileName}` : ""}
+                </span>
+                {change && (
+                  <span className={`text-sm flex items-center ${change.score.change >= 0 ? "text-emerald-600" : "text-red-600"}`}>
+                    {change.score.change >= 0 ? <ArrowUp className="h-3 w-3" /> : <ArrowDown className="h-3 w-3" />}
+                    {Math.abs(change.score.change)}
+                  </span>
+                )}
+                <div className="ml-auto flex gap-2">
+                  {!isCurrent && onSelectVersion && (
+                    <Button variant="outline" size="sm" onClick={() => onSelectVersion(version.analysisId)}>
+                      {t("view_version")}
+                    </Button>
+                  )}
+                  {change && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setExpandedChange(isExpanded ? null : version.analysisId)}
+                    >
+                      {t("changes_since_version", { version: String(change.fromVersion) })}
+                      {isExpanded ? <ChevronUp className="h-4 w-4 ml-1" /> : <ChevronDown className="h-4 w-4 ml-1" />}
+                    </Button>
+                  )}
+                </div>
+              </div>
+
+              {change && (
+                <div className="flex flex-wrap gap-2 mt-2 text-xs">
+                  {change.riskLevel.changed && (
+                    <Badge variant="outline">
+                      {change.riskLevel.from.toUpperCase()} → {change.riskLevel.to.toUpperCase()}
+                    </Badge>
+                  )}
+                  <Badge variant="outline" className="text-emerald-600 border-emerald-200">
+                    {t("risks_resolved")}: {change.risks.resolved.length}
+                  </Badge>
+                  <Badge variant="outline" className="text-red-600 border-red-200">
+                    {t("risks_introduced")}: {change.risks.introduced.length}
+                  </Badge>
+                  <Badge variant="outline">
+                    {t("risks_carried_over")}: {change.risks.carried.length}
+                  </Badge>
+                </div>
+              )}
+
+              {change && isExpanded && (
+                <div className="mt-3 space-y-3">
+                  <RiskList title={t("risks_resolved")} risks={change.risks.resolved} className="text-emerald-600" />
+                  <RiskList title={t("risks_introduced")} risks={change.risks.introduced} className="text-red-600" />
+                  <div>
+                    <h5 className="text-sm font-medium mb-1">
+                      {t("risks_carried_over")} ({change.risks.carried.length})
+                    </h5>
+                    <ul className="space-y-1">
+                      {change.risks.carried.map((risk, index) => (
+                        <li key={index} className="text-sm border rounded p-2">
+                          <Badge variant="outline" className={`mr-2 ${riskLevelColor(risk.current.severity)}`}>
+                            {risk.severityChange === "unchanged"
+                              ? risk.current.severity
+                              : `${risk.previous.severity} → ${risk.current.severity}`}
+                          </Badge>
+                          {risk.current.issue || risk.current.clause}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ContractVersionHistory;
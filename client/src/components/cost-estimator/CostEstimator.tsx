@@ -19,10 +19,14 @@ import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import { Slider } from '@/components/ui/slider';
 import { Checkbox } from '@/components/ui/checkbox';
 import { Textarea } from '@/components/ui/textarea';
+import { Input } from '@/components/ui/input';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { useForm } from 'react-hook-form';
 import * as z from 'zod';
-import { ArrowRight, Calculator, DollarSign, Loader2, Scale } from 'lucide-react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { ArrowRight, Calculator, DollarSign, Loader2, Save, Scale, Users } from 'lucide-react';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
 import { 
   Card, 
   CardContent, 
@@ -37,6 +41,7 @@ import {
   AccordionItem,
   AccordionTrigger,
 } from "@/components/ui/accordion";
+import SavedCostEstimates from './SavedCostEstimates';
 
 // Canadian provinces and territories (same as in Timeline Estimator)
 const provinces = [
@@ -90,44 +95,28 @@ const courtLevels = [
   { value: 'administrative', label: 'Administrative Tribunal' },
 ];
 
-// Define expense categories
-interface ExpenseCategory {
-  name: string;
-  description: string;
-  icon: React.ReactNode;
-}
-
-const expenseCategories: ExpenseCategory[] = [
-  {
-    name: 'Legal Fees',
-    description: 'Fees charged by legal professionals for services',
-    icon: <DollarSign className="h-5 w-5" />,
-  },
-  {
-    name: 'Court Fees',
-    description: 'Fees charged by the court for filing documents and proceedings',
-    icon: <Scale className="h-5 w-5" />,
-  },
-  {
-    name: 'Disbursements',
-    description: 'Additional expenses like expert witnesses, photocopying, etc.',
-    icon: <Calculator className="h-5 w-5" />,
-  },
-];
+// Icons for the categories the server returns
+const categoryIcons: Record<string, React.ReactNode> = {
+  legal_fees: <DollarSign className="h-5 w-5" />,
+  court_fees: <Scale className="h-5 w-5" />,
+  disbursements: <Calculator className="h-5 w-5" />,
+  adjustments: <Users className="h-5 w-5" />,
+};
 
-// Define the cost estimation result interface
+// The cost estimation result calculated by the server
 interface CostEstimationResult {
   totalCostRange: {
     min: number;
     max: number;
   };
   categories: {
+    key: string;
     name: string;
     min: number;
     max: number;
     description: string;
-    icon: React.ReactNode;
     items: {
+      key: string;
       name: string;
       min: number;
       max: number;
@@ -142,6 +131,12 @@ interface CostEstimationResult {
   };
 }
 
+interface CalculatedEstimate {
+  rateTableId: number;
+  rateTableVersion: number;
+  breakdown: CostEstimationResult;
+}
+
 // Form validation schema
 const formSchema = z.object({
   matterType: z.string().min(1, { message: 'Please select a legal matter type' }),
@@ -158,109 +153,6 @@ const formSchema = z.object({
 
 type FormValues = z.infer<typeof formSchema>;
 
-// Base cost data by province and matter type
-const baseCostData: Record<string, Record<string, any>> = {
-  // Civil litigation base costs by province
-  civil_litigation: {
-    on: { // Ontario
-      lawyer_hourly_rate: { min: 250, max: 500 },
-      filing_fees: { min: 200, max: 300 },
-      small_claims: { min: 1000, max: 5000 },
-      provincial: { min: 5000, max: 15000 },
-      superior: { min: 15000, max: 50000 },
-      appeal: { min: 25000, max: 75000 },
-    },
-    bc: { // British Columbia  
-      lawyer_hourly_rate: { min: 250, max: 450 },
-      filing_fees: { min: 200, max: 300 },
-      small_claims: { min: 1200, max: 5500 },
-      provincial: { min: 5500, max: 18000 },
-      superior: { min: 18000, max: 55000 },
-      appeal: { min: 28000, max: 80000 },
-    },
-    // Default values for provinces not specifically listed
-    default: {
-      lawyer_hourly_rate: { min: 200, max: 400 },
-      filing_fees: { min: 150, max: 250 },
-      small_claims: { min: 1000, max: 4500 },
-      provincial: { min: 4500, max: 12000 },
-      superior: { min: 12000, max: 40000 },
-      appeal: { min: 20000, max: 65000 },
-    }
-  },
-  // Family law base costs by province
-  family: {
-    on: {
-      lawyer_hourly_rate: { min: 300, max: 500 },
-      filing_fees: { min: 150, max: 250 },
-      uncontested_divorce: { min: 1200, max: 2500 },
-      contested_divorce: { min: 10000, max: 40000 },
-      child_custody: { min: 5000, max: 25000 },
-      provincial: { min: 5000, max: 20000 },
-      superior: { min: 15000, max: 60000 },
-    },
-    bc: {
-      lawyer_hourly_rate: { min: 250, max: 450 },
-      filing_fees: { min: 200, max: 300 },
-      uncontested_divorce: { min: 1000, max: 2000 },
-      contested_divorce: { min: 8000, max: 35000 },
-      child_custody: { min: 5000, max: 25000 },
-      provincial: { min: 5000, max: 20000 },
-      superior: { min: 15000, max: 55000 },
-    },
-    default: {
-      lawyer_hourly_rate: { min: 200, max: 400 },
-      filing_fees: { min: 150, max: 250 },
-      uncontested_divorce: { min: 800, max: 2000 },
-      contested_divorce: { min: 8000, max: 30000 },
-      child_custody: { min: 4000, max: 20000 },
-      provincial: { min: 4000, max: 18000 },
-      superior: { min: 12000, max: 45000 },
-    }
-  },
-  // Criminal defense base costs by province
-  criminal: {
-    on: {
-      lawyer_hourly_rate: { min: 300, max: 600 },
-      summary_offence: { min: 2500, max: 7500 },
-      indictable_offence: { min: 5000, max: 50000 },
-      provincial: { min: 3500, max: 10000 },
-      superior: { min: 10000, max: 50000 },
-      appeal: { min: 15000, max: 60000 },
-    },
-    bc: {
-      lawyer_hourly_rate: { min: 250, max: 550 },
-      summary_offence: { min: 2000, max: 7000 },
-      indictable_offence: { min: 5000, max: 45000 },
-      provincial: { min: 3000, max: 9000 },
-      superior: { min: 9000, max: 45000 },
-      appeal: { min: 15000, max: 55000 },
-    },
-    default: {
-      lawyer_hourly_rate: { min: 200, max: 500 },
-      summary_offence: { min: 1500, max: 6000 },
-      indictable_offence: { min: 4000, max: 40000 },
-      provincial: { min: 2500, max: 8000 },
-      superior: { min: 8000, max: 40000 },
-      appeal: { min: 12000, max: 50000 },
-    }
-  },
-  // Default for all other legal matters
-  default: {
-    default: {
-      lawyer_hourly_rate: { min: 200, max: 400 },
-      filing_fees: { min: 100, max: 300 },
-      small_claims: { min: 800, max: 4000 },
-      provincial: { min: 3000, max: 10000 },
-      superior: { min: 8000, max: 35000 },
-      appeal: { min: 15000, max: 60000 },
-      administrative: { min: 2500, max: 8000 },
-      tax: { min: 4000, max: 15000 },
-      federal: { min: 5000, max: 20000 },
-    }
-  }
-};
-
 // Format currency in Canadian dollars
 const formatCurrency = (amount: number): string => {
   return new Intl.NumberFormat('en-CA', {
@@ -273,8 +165,11 @@ const formatCurrency = (amount: number): string => {
 const CostEstimator: React.FC = () => {
   const [currentStep, setCurrentStep] = useState(1);
   const [isSubmitting, setIsSubmitting] = useState(false);
-  const [costResult, setCostResult] = useState<CostEstimationResult | null>(null);
+  const [costResult, setCostResult] = useState<CalculatedEstimate | null>(null);
   const [formData, setFormData] = useState<FormValues | null>(null);
+  const [saveTitle, setSaveTitle] = useState('');
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
   
   const form = useForm<FormValues>({
     resolver: zodResolver(formSchema),
@@ -292,203 +187,35 @@ const CostEstimator: React.FC = () => {
     },
   });
 
-  // Generate a cost estimation based on the form data
-  const generateCostEstimation = (values: FormValues): CostEstimationResult => {
-    // Get the base cost data for this matter type and jurisdiction
-    const matterTypeData = baseCostData[values.matterType] || baseCostData.default;
-    const jurisdictionData = matterTypeData[values.jurisdiction] || matterTypeData.default;
-    
-    // Determine court level costs
-    const courtLevelKey = values.courtLevel === 'small_claims' 
-      ? 'small_claims' 
-      : values.courtLevel === 'provincial' 
-        ? 'provincial' 
-        : values.courtLevel === 'superior' 
-          ? 'superior'
-          : values.courtLevel === 'appeal'
-            ? 'appeal'
-            : values.courtLevel;
-    
-    // Use court level costs if available, otherwise use a default range
-    const courtCosts = jurisdictionData[courtLevelKey] || { min: 3000, max: 15000 };
-    
-    // Get hourly rate range for lawyers in this jurisdiction
-    const hourlyRate = jurisdictionData.lawyer_hourly_rate || { min: 200, max: 400 };
-    
-    // Calculate complexity multiplier
-    let complexityMultiplier = 1.0;
-    switch (values.complexity) {
-      case 'simple':
-        complexityMultiplier = 0.7;
-        break;
-      case 'moderate':
-        complexityMultiplier = 1.0;
-        break;
-      case 'complex':
-        complexityMultiplier = 1.5;
-        break;
-      case 'very_complex':
-        complexityMultiplier = 2.2;
-        break;
-    }
-    
-    // Calculate estimated hours based on complexity and duration
-    const baseHours = { 
-      min: values.estimatedDuration * 5, 
-      max: values.estimatedDuration * 15 
-    };
-    const adjustedHours = {
-      min: Math.round(baseHours.min * complexityMultiplier),
-      max: Math.round(baseHours.max * complexityMultiplier)
-    };
-    
-    // Calculate trial costs if applicable
-    const trialCostsPerDay = { min: 1500, max: 4000 };
-    const trialCosts = {
-      min: values.expectedTrialDays * trialCostsPerDay.min,
-      max: values.expectedTrialDays * trialCostsPerDay.max
-    };
-    
-    // Additional cost factors
-    const expertWitnessCost = values.hasExperts ? { min: 3000, max: 8000 } : { min: 0, max: 0 };
-    const multiplePartiesFactor = values.hasMultipleParties ? 1.3 : 1.0;
-    
-    // Filing fees and court costs
-    const filingFees = jurisdictionData.filing_fees || { min: 150, max: 300 };
-    
-    // Calculate legal fees (if represented by a lawyer)
-    const legalFees = values.representationType === 'lawyer' ? {
-      min: Math.round(adjustedHours.min * hourlyRate.min),
-      max: Math.round(adjustedHours.max * hourlyRate.max)
-    } : { min: 0, max: 0 };
-    
-    // Calculate disbursements
-    const basicDisbursements = {
-      min: Math.round(courtCosts.min * 0.1),
-      max: Math.round(courtCosts.max * 0.2)
-    };
-    
-    // Calculate total cost ranges
-    let totalMin = 0;
-    let totalMax = 0;
-    
-    if (values.representationType === 'lawyer') {
-      // With lawyer representation
-      totalMin = Math.round((legalFees.min + filingFees.min + basicDisbursements.min + 
-                            expertWitnessCost.min + trialCosts.min) * multiplePartiesFactor);
-      
-      totalMax = Math.round((legalFees.max + filingFees.max + basicDisbursements.max + 
-                            expertWitnessCost.max + trialCosts.max) * multiplePartiesFactor);
-    } else {
-      // Self-represented
-      totalMin = Math.round((filingFees.min + basicDisbursements.min + 
-                            expertWitnessCost.min) * multiplePartiesFactor);
-      
-      totalMax = Math.round((filingFees.max + basicDisbursements.max + 
-                            expertWitnessCost.max) * multiplePartiesFactor);
-    }
-    
-    // Format the result
-    const result: CostEstimationResult = {
-      totalCostRange: {
-        min: totalMin,
-        max: totalMax
-      },
-      categories: [
-        {
-          name: 'Legal Fees',
-          min: legalFees.min,
-          max: legalFees.max,
-          description: 'Fees charged by legal professionals for services',
-          icon: <DollarSign className="h-5 w-5" />,
-          items: [
-            {
-              name: 'Professional Services',
-              min: legalFees.min,
-              max: legalFees.max,
-              note: values.representationType === 'lawyer' 
-                ? `Based on ${adjustedHours.min}-${adjustedHours.max} hours at ${formatCurrency(hourlyRate.min)}-${formatCurrency(hourlyRate.max)} per hour`
-                : 'Self-representation (no lawyer fees)'
-            }
-          ]
-        },
-        {
-          name: 'Court Fees',
-          min: filingFees.min,
-          max: filingFees.max,
-          description: 'Fees charged by the court for filing documents and proceedings',
-          icon: <Scale className="h-5 w-5" />,
-          items: [
-            {
-              name: 'Filing Fees',
-              min: filingFees.min,
-              max: filingFees.max,
-              note: 'Required to file documents with the court'
-            }
-          ]
-        },
-        {
-          name: 'Disbursements',
-          min: basicDisbursements.min + expertWitnessCost.min + trialCosts.min,
-          max: basicDisbursements.max + expertWitnessCost.max + trialCosts.max,
-          description: 'Additional expenses like expert witnesses, photocopying, etc.',
-          icon: <Calculator className="h-5 w-5" />,
-          items: [
-            {
-              name: 'Basic Disbursements',
-              min: basicDisbursements.min,
-              max: basicDisbursements.max,
-              note: 'Photocopying, courier, travel, etc.'
-            },
-            {
-              name: 'Expert Witness Fees',
-              min: expertWitnessCost.min,
-              max: expertWitnessCost.max,
-              note: values.hasExperts ? 'Expert witness costs and reports' : 'No expert witnesses'
-            },
-            {
-              name: 'Trial Costs',
-              min: trialCosts.min,
-              max: trialCosts.max,
-              note: values.expectedTrialDays > 0 
-                ? `${values.expectedTrialDays} day(s) of trial` 
-                : 'No trial expected'
-            }
-          ]
-        }
-      ],
-      factors: [
-        'Jurisdiction',
-        'Case complexity',
-        'Type of legal matter',
-        'Court level',
-        'Representation type',
-        'Duration of proceedings',
-        'Number of parties involved',
-        'Need for expert witnesses',
-        'Trial duration'
-      ],
-      isWithLawyer: values.representationType === 'lawyer',
-      hoursRange: adjustedHours
-    };
-    
-    return result;
-  };
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest('POST', '/api/cost-estimates', { title: saveTitle.trim(), inputs: formData });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/cost-estimates'] });
+      setSaveTitle('');
+      toast({ title: 'Estimate saved', description: 'You can find it under your saved estimates.' });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Could not save estimate', description: error.message, variant: 'destructive' });
+    },
+  });
 
   const onSubmit = async (values: FormValues) => {
     setIsSubmitting(true);
     setFormData(values);
     
     try {
-      // Simulate API delay
-      await new Promise(resolve => setTimeout(resolve, 1000));
-      
-      // Generate cost estimate
-      const result = generateCostEstimation(values);
+      const result = await apiRequest<CalculatedEstimate>('POST', '/api/cost-estimates/calculate', values);
       setCostResult(result);
       setCurrentStep(2);
     } catch (error) {
       console.error('Error generating cost estimate:', error);
+      toast({
+        title: 'Could not calculate estimate',
+        description: error instanceof Error ? error.message : 'Please try again.',
+        variant: 'destructive',
+      });
     } finally {
       setIsSubmitting(false);
     }
@@ -786,6 +513,7 @@ const CostEstimator: React.FC = () => {
 
   const renderResultStep = () => {
     if (!costResult) return null;
+    const breakdown = costResult.breakdown;
     
     const matterType = formData?.matterType || '';
     const matterLabel = legalMatterTypes.find(m => m.value === matterType)?.label || 'Legal Matter';
@@ -807,27 +535,30 @@ const CostEstimator: React.FC = () => {
             <div className="mb-6 p-4 bg-primary/10 rounded-md">
               <h3 className="text-lg font-semibold mb-2">Total Estimated Cost Range</h3>
               <div className="text-2xl font-bold text-primary">
-                {formatCurrency(costResult.totalCostRange.min)} - {formatCurrency(costResult.totalCostRange.max)}
+                {formatCurrency(breakdown.totalCostRange.min)} - {formatCurrency(breakdown.totalCostRange.max)}
               </div>
               
-              {costResult.isWithLawyer && (
+              {breakdown.isWithLawyer && (
                 <div className="mt-2 text-sm text-muted-foreground">
-                  <p>Based on approximately {costResult.hoursRange.min}-{costResult.hoursRange.max} hours of legal work</p>
+                  <p>Based on approximately {breakdown.hoursRange.min}-{breakdown.hoursRange.max} hours of legal work</p>
                 </div>
               )}
+              <p className="mt-2 text-xs text-muted-foreground">
+                Calculated with rate table version {costResult.rateTableVersion}
+              </p>
             </div>
             
             <div className="space-y-6">
               <h3 className="text-lg font-semibold">Cost Breakdown</h3>
               
               <Accordion type="single" collapsible className="w-full">
-                {costResult.categories.map((category, index) => (
-                  <AccordionItem value={`category-${index}`} key={index}>
+                {breakdown.categories.map((category, index) => (
+                  <AccordionItem value={`category-${index}`} key={category.key}>
                     <AccordionTrigger className="hover:no-underline">
                       <div className="flex items-center justify-between flex-1 pr-4">
                         <div className="flex items-center">
                           <div className="w-8 h-8 rounded-full bg-primary/10 flex items-center justify-center mr-3">
-                            {category.icon}
+                            {categoryIcons[category.key] || <Calculator className="h-5 w-5" />}
                           </div>
                           <span>{category.name}</span>
                         </div>
@@ -870,7 +601,7 @@ const CostEstimator: React.FC = () => {
                 Actual legal costs can vary significantly based on many factors, including:
               </p>
               <ul className="text-sm text-yellow-700 list-disc pl-5 mt-2 space-y-1">
-                {costResult.factors.map((factor, index) => (
+                {breakdown.factors.map((factor, index) => (
                   <li key={index}>{factor}</li>
                 ))}
               </ul>
@@ -881,18 +612,40 @@ const CostEstimator: React.FC = () => {
             </div>
           </CardContent>
           
-          <CardFooter className="flex justify-between border-t pt-6">
-            <Button 
-              variant="outline" 
-              onClick={() => setCurrentStep(1)}
-            >
-              Adjust Estimate
-            </Button>
-            <Button 
-              onClick={() => window.print()}
-            >
-              Print Estimate
-            </Button>
+          <CardFooter className="flex flex-col gap-4 border-t pt-6">
+            <div className="flex w-full gap-2">
+              <Input
+                value={saveTitle}
+                maxLength={200}
+                placeholder={`${matterLabel} estimate`}
+                onChange={(event) => setSaveTitle(event.target.value)}
+              />
+              <Button
+                variant="secondary"
+                disabled={!saveTitle.trim() || saveMutation.isPending}
+                onClick={() => saveMutation.mutate()}
+              >
+                {saveMutation.isPending ? (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <Save className="mr-2 h-4 w-4" />
+                )}
+                Save Estimate
+              </Button>
+            </div>
+            <div className="flex w-full justify-between">
+              <Button 
+                variant="outline" 
+                onClick={() => setCurrentStep(1)}
+              >
+                Adjust Estimate
+              </Button>
+              <Button 
+                onClick={() => window.print()}
+              >
+                Print Estimate
+              </Button>
+            </div>
           </CardFooter>
         </Card>
         
@@ -964,6 +717,10 @@ const CostEstimator: React.FC = () => {
       
       {currentStep === 1 && renderQuestionnaireStep()}
       {currentStep === 2 && renderResultStep()}
+
+      <div className="max-w-4xl mx-auto mt-8">
+        <SavedCostEstimates />
+      </div>
     </div>
   );
 };
@@ -0,0 +1,207 @@
+import React, { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Download, GitCompare, Loader2, Trash2 } from 'lucide-react';
+import type { CostEstimate } from '@shared/schema';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+
+interface CostRange {
+  min: number;
+  max: number;
+}
+
+interface EstimateComparison {
+  estimates: { id: number; title: string; rateTableVersion: number; totalMin: number; totalMax: number }[];
+  categories: { key: string; name: string; ranges: (CostRange | null)[] }[];
+  inputDifferences: { field: string; label: string; values: unknown[] }[];
+}
+
+const MAX_COMPARED = 4;
+
+const exportFormats = [
+  { value: 'csv', label: 'Spreadsheet (CSV)' },
+  { value: 'docx', label: 'Word (DOCX)' },
+  { value: 'rtf', label: 'Rich Text (RTF)' },
+];
+
+const formatCurrency = (amount: number): string => {
+  return new Intl.NumberFormat('en-CA', {
+    style: 'currency',
+    currency: 'CAD',
+    maximumFractionDigits: 0,
+  }).format(amount);
+};
+
+const formatRange = (range: CostRange | null): string => {
+  return range ? `${formatCurrency(range.min)} - ${formatCurrency(range.max)}` : '—';
+};
+
+const formatAnswer = (value: unknown): string => {
+  if (value === null || value === undefined || value === '') return '—';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  return String(value).replace(/_/g, ' ');
+};
+
+/**
+ * The user's saved cost estimates, with exports and a side-by-side
+ * comparison of two to four of them
+ */
+const SavedCostEstimates: React.FC = () => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [selected, setSelected] = useState<number[]>([]);
+  const [comparedIds, setComparedIds] = useState<number[]>([]);
+
+  const { data: estimates = [], isLoading } = useQuery<CostEstimate[]>({
+    queryKey: ['/api/cost-estimates'],
+  });
+
+  const { data: comparison, isFetching: isComparing } = useQuery<EstimateComparison>({
+    queryKey: [`/api/cost-estimates/compare?ids=${comparedIds.join(',')}`],
+    enabled: comparedIds.length >= 2,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      return await apiRequest('DELETE', `/api/cost-estimates/${id}`);
+    },
+    onSuccess: (_data, id) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/cost-estimates'] });
+      setSelected(current => current.filter(item => item !== id));
+      setComparedIds(current => (current.includes(id) ? [] : current));
+      toast({ title: 'Estimate deleted' });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Could not delete estimate', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const toggleSelected = (id: number, checked: boolean) => {
+    setSelected(current => (checked ? [...current, id].slice(-MAX_COMPARED) : current.filter(item => item !== id)));
+  };
+
+  if (isLoading || estimates.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Saved Estimates</CardTitle>
+        <CardDescription>
+          Each estimate keeps the rate table version it was calculated with. Select two to four estimates to compare them.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-2">
+          {estimates.map(estimate => (
+            <div key={estimate.id} className="flex items-center gap-3 border rounded-md p-3">
+              <Checkbox
+                checked={selected.includes(estimate.id)}
+                onCheckedChange={checked => toggleSelected(estimate.id, checked === true)}
+                aria-label={`Select ${estimate.title}`}
+              />
+              <div className="flex-1 min-w-0">
+                <p className="font-medium truncate">{estimate.title}</p>
+                <p className="text-xs text-muted-foreground">
+                  {formatCurrency(estimate.totalMin)} - {formatCurrency(estimate.totalMax)} · Rate table version{' '}
+                  {estimate.rateTableVersion}
+                  {estimate.createdAt && ` · ${new Date(estimate.createdAt).toLocaleDateString()}`}
+                </p>
+              </div>
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="outline" size="sm">
+                    <Download className="h-4 w-4 mr-1" />
+                    Export
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  {exportFormats.map(format => (
+                    <DropdownMenuItem key={format.value} asChild>
+                      <a href={`/api/cost-estimates/${estimate.id}/export?format=${format.value}`} download>
+                        {format.label}
+                      </a>
+                    </DropdownMenuItem>
+                  ))}
+                </DropdownMenuContent>
+              </DropdownMenu>
+              <Button
+                variant="ghost"
+                size="sm"
+                disabled={deleteMutation.isPending}
+                onClick={() => deleteMutation.mutate(estimate.id)}
+                aria-label={`Delete ${estimate.title}`}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+
+        <Button
+          variant="secondary"
+          disabled={selected.length < 2}
+          onClick={() => setComparedIds([...selected])}
+        >
+          {isComparing ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <GitCompare className="h-4 w-4 mr-2" />}
+          Compare Selected ({selected.length})
+        </Button>
+
+        {comparison && comparedIds.length >= 2 && (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead></TableHead>
+                  {comparison.estimates.map(estimate => (
+                    <TableHead key={estimate.id}>
+                      {estimate.title}
+                      <span className="block text-xs font-normal">Rates v{estimate.rateTableVersion}</span>
+                    </TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {comparison.categories.map(category => (
+                  <TableRow key={category.key}>
+                    <TableCell className="font-medium">{category.name}</TableCell>
+                    {category.ranges.map((range, index) => (
+                      <TableCell key={index}>{formatRange(range)}</TableCell>
+                    ))}
+                  </TableRow>
+                ))}
+                <TableRow>
+                  <TableCell className="font-semibold">Total</TableCell>
+                  {comparison.estimates.map(estimate => (
+                    <TableCell key={estimate.id} className="font-semibold">
+                      {formatRange({ min: estimate.totalMin, max: estimate.totalMax })}
+                    </TableCell>
+                  ))}
+                </TableRow>
+                {comparison.inputDifferences.map(difference => (
+                  <TableRow key={difference.field} className="text-muted-foreground">
+                    <TableCell>{difference.label}</TableCell>
+                    {difference.values.map((value, index) => (
+                      <TableCell key={index} className="capitalize">{formatAnswer(value)}</TableCell>
+                    ))}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SavedCostEstimates;
@@ -1,4 +1,7 @@
 import React, { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -27,7 +30,7 @@ import { Calendar } from '@/components/ui/calendar';
 import { format } from 'date-fns';
 import { 
   StickyNote, Plus, Bell, Calendar as CalendarIcon, CheckSquare, Save, FileText as FileIcon,
-  Trash2, Clock, Edit, Check, X, AlertCircle, Info
+  Trash2, Clock, Edit, Check, X, AlertCircle, Info, AlarmClock, Mail
 } from 'lucide-react';
 
 // Temporary interfaces until we properly migrate them
@@ -49,6 +52,28 @@ interface ProcedureStep {
   sourceReferences?: { name: string; url: string }[];
 }
 
+interface ProcedureReminder {
+  id: number;
+  userProcedureId?: number;
+  stepId: number | null;
+  title: string;
+  description?: string | null;
+  dueDate: string | Date;
+  notifyBefore: number;
+  notifyMethod: 'email' | 'app' | 'both';
+  isCompleted: boolean;
+  snoozedUntil?: string | null;
+  createdAt: string;
+}
+
+const NOTIFY_METHOD_LABELS: Record<ProcedureReminder['notifyMethod'], string> = {
+  app: 'In-app notification',
+  email: 'Email',
+  both: 'Email and in-app notification',
+};
+
+const SNOOZE_MINUTES = 24 * 60;
+
 interface PersonalizationProps {
   procedureId: number;
   steps: ProcedureStep[];
@@ -61,6 +86,8 @@ const Personalization: React.FC<PersonalizationProps> = ({
   userProcedureId
 }) => {
   const [activeTab, setActiveTab] = useState<string>('notes');
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
   
   // Notes state
   const [notes, setNotes] = useState<any[]>([
@@ -82,8 +109,9 @@ const Personalization: React.FC<PersonalizationProps> = ({
   const [editingNoteId, setEditingNoteId] = useState<number | null>(null);
   const [editingNoteContent, setEditingNoteContent] = useState<string>('');
   
-  // Reminders state
-  const [reminders, setReminders] = useState<any[]>([
+  // Reminders state. Reminders are saved once the procedure has been started;
+  // until then they are only kept on this page
+  const [localReminders, setLocalReminders] = useState<ProcedureReminder[]>([
     {
       id: 1,
       title: "File Notice of Civil Claim",
@@ -108,8 +136,51 @@ const Personalization: React.FC<PersonalizationProps> = ({
   const [newReminderTitle, setNewReminderTitle] = useState<string>('');
   const [newReminderDate, setNewReminderDate] = useState<Date | undefined>(undefined);
   const [newReminderDays, setNewReminderDays] = useState<number>(1);
+  const [newReminderMethod, setNewReminderMethod] = useState<ProcedureReminder['notifyMethod']>('app');
   const [addReminderDialogOpen, setAddReminderDialogOpen] = useState<boolean>(false);
   
+  const remindersQueryKey = [`/api/court-procedures/user/${userProcedureId}/reminders`];
+  const { data: savedReminders } = useQuery<ProcedureReminder[]>({
+    queryKey: remindersQueryKey,
+    enabled: !!userProcedureId,
+  });
+  const reminders = userProcedureId ? savedReminders || [] : localReminders;
+  
+  const invalidateReminders = () => queryClient.invalidateQueries({ queryKey: remindersQueryKey });
+  const onReminderError = (error: Error) => {
+    toast({ title: 'Could not update reminder', description: error.message, variant: 'destructive' });
+  };
+  
+  const createReminderMutation = useMutation({
+    mutationFn: async (reminder: Omit<ProcedureReminder, 'id' | 'isCompleted' | 'createdAt'>) =>
+      await apiRequest('POST', `/api/court-procedures/user/${userProcedureId}/reminders`, reminder),
+    onSuccess: invalidateReminders,
+    onError: onReminderError,
+  });
+  
+  const updateReminderMutation = useMutation({
+    mutationFn: async ({ id, isCompleted }: { id: number; isCompleted: boolean }) =>
+      await apiRequest('PATCH', `/api/court-procedures/reminders/${id}`, { isCompleted }),
+    onSuccess: invalidateReminders,
+    onError: onReminderError,
+  });
+  
+  const deleteReminderMutation = useMutation({
+    mutationFn: async (id: number) => await apiRequest('DELETE', `/api/court-procedures/reminders/${id}`),
+    onSuccess: invalidateReminders,
+    onError: onReminderError,
+  });
+  
+  const snoozeReminderMutation = useMutation({
+    mutationFn: async (id: number) =>
+      await apiRequest('POST', `/api/court-procedures/reminders/${id}/snooze`, { minutes: SNOOZE_MINUTES }),
+    onSuccess: () => {
+      invalidateReminders();
+      toast({ title: 'Reminder snoozed', description: "We'll remind you again tomorrow." });
+    },
+    onError: onReminderError,
+  });
+  
   // Checklist state
   const [checklist, setChecklist] = useState<any[]>([
     {
@@ -185,28 +256,45 @@ const Personalization: React.FC<PersonalizationProps> = ({
   const handleAddReminder = () => {
     if (!newReminderTitle.trim() || !newReminderDate) return;
     
-    const newReminderObj = {
-      id: reminders.length + 1,
-      title: newReminderTitle,
-      stepId: selectedStepId,
-      dueDate: newReminderDate,
-      notifyBefore: newReminderDays,
-      notifyMethod: "app",
-      isCompleted: false,
-      createdAt: new Date().toISOString()
-    };
+    if (userProcedureId) {
+      createReminderMutation.mutate({
+        title: newReminderTitle,
+        stepId: selectedStepId,
+        dueDate: newReminderDate,
+        notifyBefore: newReminderDays,
+        notifyMethod: newReminderMethod,
+      });
+    } else {
+      setLocalReminders([...localReminders, {
+        id: localReminders.length + 1,
+        title: newReminderTitle,
+        stepId: selectedStepId,
+        dueDate: newReminderDate,
+        notifyBefore: newReminderDays,
+        notifyMethod: newReminderMethod,
+        isCompleted: false,
+        createdAt: new Date().toISOString()
+      }]);
+    }
     
-    setReminders([...reminders, newReminderObj]);
     setNewReminderTitle('');
     setNewReminderDate(undefined);
     setNewReminderDays(1);
+    setNewReminderMethod('app');
     setSelectedStepId(null);
     setAddReminderDialogOpen(false);
   };
   
   // Handle toggle reminder completion
   const handleToggleReminder = (reminderId: number) => {
-    setReminders(reminders.map(reminder => 
+    if (userProcedureId) {
+      const reminder = reminders.find(reminder => reminder.id === reminderId);
+      if (reminder) {
+        updateReminderMutation.mutate({ id: reminderId, isCompleted: !reminder.isCompleted });
+      }
+      return;
+    }
+    setLocalReminders(localReminders.map(reminder => 
       reminder.id === reminderId 
         ? {...reminder, isCompleted: !reminder.isCompleted } 
         : reminder
@@ -215,7 +303,11 @@ const Personalization: React.FC<PersonalizationProps> = ({
   
   // Handle delete reminder
   const handleDeleteReminder = (reminderId: number) => {
-    setReminders(reminders.filter(reminder => reminder.id !== reminderId));
+    if (userProcedureId) {
+      deleteReminderMutation.mutate(reminderId);
+      return;
+    }
+    setLocalReminders(localReminders.filter(reminder => reminder.id !== reminderId));
   };
   
   // Handle add checklist item
@@ -484,6 +576,20 @@ const Personalization: React.FC<PersonalizationProps> = ({
                         </div>
                       </div>
                       
+                      <div className="space-y-2">
+                        <Label htmlFor="reminder-method">Notify me by</Label>
+                        <select
+                          id="reminder-method"
+                          value={newReminderMethod}
+                          onChange={(e) => setNewReminderMethod(e.target.value as ProcedureReminder['notifyMethod'])}
+                          className="w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+                        >
+                          {(Object.keys(NOTIFY_METHOD_LABELS) as ProcedureReminder['notifyMethod'][]).map(method => (
+                            <option key={method} value={method}>{NOTIFY_METHOD_LABELS[method]}</option>
+                          ))}
+                        </select>
+                      </div>
+                      
                       <div className="space-y-2">
                         <Label htmlFor="reminder-step">Related step (optional)</Label>
                         <select
@@ -510,7 +616,7 @@ const Personalization: React.FC<PersonalizationProps> = ({
                       </Button>
                       <Button 
                         onClick={handleAddReminder}
-                        disabled={!newReminderTitle.trim() || !newReminderDate}
+                        disabled={!newReminderTitle.trim() || !newReminderDate || createReminderMutation.isPending}
                       >
                         Add Reminder
                       </Button>
@@ -573,6 +679,20 @@ const Personalization: React.FC<PersonalizationProps> = ({
                                   </span>
                                 </div>
                                 
+                                {reminder.notifyMethod !== 'app' && (
+                                  <div className="flex items-center gap-1">
+                                    <Mail className="h-3 w-3" />
+                                    <span>{NOTIFY_METHOD_LABELS[reminder.notifyMethod]}</span>
+                                  </div>
+                                )}
+                                
+                                {reminder.snoozedUntil && !reminder.isCompleted && (
+                                  <div className="flex items-center gap-1">
+                                    <AlarmClock className="h-3 w-3" />
+                                    <span>Snoozed until {format(new Date(reminder.snoozedUntil), "MMM d, h:mm a")}</span>
+                                  </div>
+                                )}
+                                
                                 {reminder.stepId && steps.find(s => s.id === reminder.stepId) && (
                                   <Badge variant="outline" className="font-normal text-xs">
                                     Step {steps.find(s => s.id === reminder.stepId)?.stepOrder}
@@ -583,14 +703,28 @@ const Personalization: React.FC<PersonalizationProps> = ({
                           </div>
                         </div>
                         
-                        <Button 
-                          variant="ghost" 
-                          size="sm"
-                          onClick={() => handleDeleteReminder(reminder.id)}
-                          className="h-8 w-8 p-0 text-destructive"
-                        >
-                          <Trash2 className="h-4 w-4" />
-                        </Button>
+                        <div className="flex items-center">
+                          {userProcedureId && !reminder.isCompleted && (
+                            <Button 
+                              variant="ghost" 
+                              size="sm"
+                              title="Snooze for 1 day"
+                              onClick={() => snoozeReminderMutation.mutate(reminder.id)}
+                              disabled={snoozeReminderMutation.isPending}
+                              className="h-8 w-8 p-0"
+                            >
+                              <AlarmClock className="h-4 w-4" />
+                            </Button>
+                          )}
+                          <Button 
+                            variant="ghost" 
+                            size="sm"
+                            onClick={() => handleDeleteReminder(reminder.id)}
+                            className="h-8 w-8 p-0 text-destructive"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
                       </div>
                       
                       {new Date(reminder.dueDate) < new Date() && !reminder.isCompleted && (
@@ -0,0 +1,136 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Loader2 } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import SettlementTermsEditor, { completeTerms, type SettlementTerm } from "./SettlementTermsEditor";
+
+interface CounterProposalDialogProps {
+  disputeId: number;
+  parent: { id: number; title: string; content: string } | null;
+  onClose: () => void;
+  onCountered: () => void;
+}
+
+/**
+ * Answers a proposal with a counter-proposal. The form starts from the
+ * proposal's own terms so only the terms being changed need editing.
+ */
+export default function CounterProposalDialog({ disputeId, parent, onClose, onCountered }: CounterProposalDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [title, setTitle] = useState("");
+  const [content, setContent] = useState("");
+  const [terms, setTerms] = useState<SettlementTerm[]>([]);
+  const [expiresInDays, setExpiresInDays] = useState("7");
+
+  // The server reads terms stored in older shapes, so they are loaded from there
+  const { data: thread, isLoading } = useQuery<{ rounds: { proposal: { id: number }; terms: SettlementTerm[] }[] }>({
+    queryKey: [`/api/settlement-proposals/${parent?.id}/negotiation`],
+    enabled: !!parent,
+  });
+
+  useEffect(() => {
+    if (!parent) return;
+    setTitle(`Counter-proposal: ${parent.title}`.substring(0, 200));
+    setContent("");
+    setExpiresInDays("7");
+  }, [parent]);
+
+  useEffect(() => {
+    const round = thread?.rounds.find(item => item.proposal.id === parent?.id);
+    setTerms(round ? round.terms : []);
+  }, [thread, parent]);
+
+  const counterMutation = useMutation({
+    mutationFn: async () => {
+      const expiresAt = new Date();
+      expiresAt.setDate(expiresAt.getDate() + parseInt(expiresInDays));
+      return await apiRequest("POST", `/api/settlement-proposals/${parent!.id}/counter`, {
+        title,
+        content,
+        terms: completeTerms(terms),
+        expiresAt: expiresAt.toISOString(),
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/disputes/${disputeId}/settlement-proposals`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/settlement-proposals/${parent!.id}/negotiation`] });
+      toast({ title: "Counter-proposal sent", description: "The other party has been notified." });
+      onCountered();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not send counter-proposal", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const canSubmit = title.trim().length >= 5 && content.trim().length >= 20 && !counterMutation.isPending;
+
+  return (
+    <Dialog open={!!parent} onOpenChange={open => !open && onClose()}>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Counter-Proposal</DialogTitle>
+          <DialogDescription>
+            Change the terms you cannot accept. Terms you leave as they are count as agreed.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="counter-title">Title</Label>
+            <Input id="counter-title" value={title} maxLength={200} onChange={event => setTitle(event.target.value)} />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="counter-content">Your response</Label>
+            <Textarea
+              id="counter-content"
+              className="min-h-[120px]"
+              value={content}
+              placeholder="Explain what you are changing and why (at least 20 characters)"
+              onChange={event => setContent(event.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Terms</Label>
+            {isLoading ? (
+              <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+            ) : (
+              <SettlementTermsEditor terms={terms} onChange={setTerms} />
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label>Expires in</Label>
+            <Select value={expiresInDays} onValueChange={setExpiresInDays}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="7">7 days</SelectItem>
+                <SelectItem value="14">14 days</SelectItem>
+                <SelectItem value="30">30 days</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button disabled={!canSubmit} onClick={() => counterMutation.mutate()}>
+            {counterMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Send Counter-Proposal
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,243 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { ArrowRight, Loader2, Sparkles } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import type { SettlementTerm } from "./SettlementTermsEditor";
+
+interface TermChange {
+  key: string;
+  label: string;
+  type: SettlementTerm["type"];
+  change: "added" | "removed" | "changed" | "unchanged";
+  before: SettlementTerm | null;
+  after: SettlementTerm | null;
+  amountDelta?: number;
+  dayShift?: number;
+}
+
+interface NegotiationRound {
+  proposal: {
+    id: number;
+    proposedBy: number | null;
+    title: string;
+    status: string;
+    round: number;
+    createdAt: string;
+    lapsedAt: string | null;
+  };
+  terms: SettlementTerm[];
+  changes: TermChange[];
+}
+
+interface TermConvergence {
+  key: string;
+  label: string;
+  type: SettlementTerm["type"];
+  status: "agreed" | "converging" | "diverging" | "apart" | "unanswered";
+  positions: { userId: number | null; round: number; value: string | number | null }[];
+  gap: number | null;
+  previousGap: number | null;
+  midpoint: number | null;
+}
+
+interface ZoneOfAgreement {
+  rounds: number;
+  terms: TermConvergence[];
+  agreedCount: number;
+  openCount: number;
+  summary: string;
+  suggestions: string[];
+  aiGenerated: boolean;
+}
+
+interface NegotiationHistoryProps {
+  proposalId: number;
+  currentUserId: number;
+}
+
+const CHANGE_BADGES: Record<TermChange["change"], { label: string; variant: "default" | "secondary" | "destructive" | "outline" }> = {
+  added: { label: "Added", variant: "default" },
+  removed: { label: "Removed", variant: "destructive" },
+  changed: { label: "Changed", variant: "secondary" },
+  unchanged: { label: "Unchanged", variant: "outline" },
+};
+
+const CONVERGENCE_BADGES: Record<TermConvergence["status"], { label: string; variant: "default" | "secondary" | "destructive" | "outline" }> = {
+  agreed: { label: "Agreed", variant: "default" },
+  converging: { label: "Converging", variant: "secondary" },
+  diverging: { label: "Diverging", variant: "destructive" },
+  apart: { label: "Apart", variant: "outline" },
+  unanswered: { label: "Unanswered", variant: "outline" },
+};
+
+const money = (amount: number) => `$${amount.toLocaleString("en-CA", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+function formatValue(type: SettlementTerm["type"], value: string | number | null | undefined): string {
+  if (value === null || value === undefined || value === "") return "-";
+  if (type === "amount") {
+    const amount = typeof value === "number" ? value : parseFloat(String(value).replace(/[^0-9.-]/g, ""));
+    return isNaN(amount) ? String(value) : money(amount);
+  }
+  if (type === "date") {
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? String(value) : format(date, "PP");
+  }
+  return String(value);
+}
+
+function describeTerm(term: SettlementTerm | null): string {
+  if (!term) return "-";
+  const value = formatValue(term.type, term.value);
+  return term.type === "obligation" && term.party ? `${value} (${term.party})` : value;
+}
+
+/**
+ * The rounds of a settlement negotiation with the terms each round changed,
+ * and the zone of agreement across them
+ */
+export default function NegotiationHistory({ proposalId, currentUserId }: NegotiationHistoryProps) {
+  const { toast } = useToast();
+  const { data, isLoading } = useQuery<{ rounds: NegotiationRound[] }>({
+    queryKey: [`/api/settlement-proposals/${proposalId}/negotiation`],
+  });
+
+  const zoneMutation = useMutation({
+    mutationFn: async () => await apiRequest<ZoneOfAgreement>("POST", `/api/settlement-proposals/${proposalId}/zone-of-agreement`),
+    onError: (error: Error) => {
+      toast({ title: "Could not analyse the negotiation", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const rounds = data?.rounds || [];
+  const zone = zoneMutation.data;
+  const sideName = (userId: number | null) => userId === currentUserId ? "You" : "Other party";
+
+  if (isLoading) {
+    return <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="font-medium">Negotiation History</h3>
+        {rounds.length > 0 && (
+          <Button variant="outline" size="sm" disabled={zoneMutation.isPending} onClick={() => zoneMutation.mutate()}>
+            {zoneMutation.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Sparkles className="h-4 w-4 mr-2" />}
+            Zone of Agreement
+          </Button>
+        )}
+      </div>
+
+      <ol className="space-y-3 border-l pl-4">
+        {rounds.map(round => {
+          const changed = round.changes.filter(change => change.change !== "unchanged");
+          return (
+            <li key={round.proposal.id} className={round.proposal.id === proposalId ? "font-medium" : undefined}>
+              <div className="flex flex-wrap items-center gap-2 text-sm">
+                <span>Round {round.proposal.round}</span>
+                <span className="text-muted-foreground">·</span>
+                <span>{sideName(round.proposal.proposedBy)}</span>
+                <span className="text-muted-foreground">·</span>
+                <span className="text-muted-foreground">{format(new Date(round.proposal.createdAt), "PP")}</span>
+                <Badge variant="outline">{round.proposal.status}</Badge>
+              </div>
+              <p className="text-sm">{round.proposal.title}</p>
+
+              {round.changes.length === 0 ? (
+                round.terms.length > 0 && (
+                  <ul className="mt-1 text-sm text-muted-foreground font-normal">
+                    {round.terms.map(term => (
+                      <li key={term.key}>{term.label}: {describeTerm(term)}</li>
+                    ))}
+                  </ul>
+                )
+              ) : changed.length === 0 ? (
+                <p className="mt-1 text-sm text-muted-foreground font-normal">No terms changed</p>
+              ) : (
+                <ul className="mt-1 space-y-1 text-sm font-normal">
+                  {changed.map(change => (
+                    <li key={change.key} className="flex flex-wrap items-center gap-2">
+                      <Badge variant={CHANGE_BADGES[change.change].variant}>{CHANGE_BADGES[change.change].label}</Badge>
+                      <span>{change.label}:</span>
+                      {change.change === "changed" ? (
+                        <>
+                          <span className="text-muted-foreground line-through">{describeTerm(change.before)}</span>
+                          <ArrowRight className="h-3 w-3" />
+                          <span>{describeTerm(change.after)}</span>
+                          {change.amountDelta !== undefined && (
+                            <span className="text-muted-foreground">
+                              ({change.amountDelta > 0 ? "+" : "-"}{money(Math.abs(change.amountDelta))})
+                            </span>
+                          )}
+                          {change.dayShift !== undefined && (
+                            <span className="text-muted-foreground">
+                              ({change.dayShift > 0 ? "+" : ""}{change.dayShift} days)
+                            </span>
+                          )}
+                        </>
+                      ) : (
+                        <span>{describeTerm(change.after || change.before)}</span>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+
+      {zone && (
+        <div className="border rounded-md p-3 space-y-3 text-sm">
+          <div className="flex items-center justify-between">
+            <p className="font-medium">Zone of Agreement</p>
+            <span className="text-muted-foreground">
+              {zone.agreedCount} agreed · {zone.openCount} open
+            </span>
+          </div>
+          <p>{zone.summary}</p>
+
+          {zone.terms.length > 0 && (
+            <div className="space-y-2">
+              {zone.terms.map(term => (
+                <div key={term.key} className="flex flex-wrap items-center gap-2">
+                  <Badge variant={CONVERGENCE_BADGES[term.status].variant}>{CONVERGENCE_BADGES[term.status].label}</Badge>
+                  <span className="font-medium">{term.label}</span>
+                  <span className="text-muted-foreground">
+                    {term.positions.map(position => `${sideName(position.userId)}: ${formatValue(term.type, position.value)}`).join(" · ")}
+                  </span>
+                  {term.type === "amount" && term.gap !== null && term.gap > 0 && (
+                    <span className="text-muted-foreground">
+                      Gap {money(term.gap)}
+                      {term.previousGap !== null && ` (was ${money(term.previousGap)})`}
+                      {term.midpoint !== null && ` · midpoint ${money(term.midpoint)}`}
+                    </span>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+
+          {zone.suggestions.length > 0 && (
+            <div>
+              <p className="font-medium mb-1">Possible compromises</p>
+              <ul className="list-disc pl-5 space-y-1">
+                {zone.suggestions.map((suggestion, index) => (
+                  <li key={index}>{suggestion}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+          {zone.aiGenerated && (
+            <p className="text-xs text-muted-foreground">
+              The summary and compromises are AI-generated. They are not legal advice.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
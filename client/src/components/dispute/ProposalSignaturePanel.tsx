@@ -0,0 +1,298 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Download, FileCheck, Loader2, PenLine, Send, ShieldAlert, ShieldCheck } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion";
+
+interface ProposalSignature {
+  id: number;
+  partyId: number | null;
+  signedBy: number | null;
+  signerName: string | null;
+  signatureStatus: "pending" | "signed" | "invalidated" | "declined";
+  docusealSubmissionId: string | null;
+  contentHash: string | null;
+  verificationCode: string | null;
+  otpExpiresAt: string | null;
+  signedAt: string | null;
+  invalidationReason: string | null;
+}
+
+interface SignaturesResponse {
+  contentHash: string;
+  signatures: ProposalSignature[];
+}
+
+interface AuditTrailResponse {
+  verification: { valid: boolean; eventCount: number; brokenAtEventId: number | null };
+  events: { id: number; eventType: string; ipAddress: string | null; createdAt: string; hash: string }[];
+}
+
+interface DocusealSubmission {
+  submissionId: string;
+  status: "pending" | "completed" | "declined" | "expired";
+  signedDocumentId: number | null;
+  createdAt?: string;
+}
+
+interface ProposalSignaturePanelProps {
+  proposalId: number;
+  currentUserId: number;
+  canSign: boolean; // False once the proposal is rejected, countered or expired
+  canSendForSigning: boolean; // The proposer or a mediator
+}
+
+const STATUS_BADGES: Record<ProposalSignature["signatureStatus"], { label: string; variant: "default" | "outline" | "destructive" }> = {
+  pending: { label: "Awaiting code", variant: "outline" },
+  signed: { label: "Signed", variant: "default" },
+  invalidated: { label: "Invalidated", variant: "destructive" },
+  declined: { label: "Declined", variant: "destructive" },
+};
+
+const EVENT_LABELS: Record<string, string> = {
+  signing_started: "Signing started",
+  otp_sent: "Code sent",
+  otp_failed: "Incorrect code",
+  signed: "Signed",
+  signature_invalidated: "Signature invalidated",
+  docuseal_sent: "Sent with DocuSeal",
+  docuseal_declined: "Declined in DocuSeal",
+  docuseal_completed: "Signed copy stored",
+};
+
+/**
+ * Signatures on a settlement proposal, the signing ceremony for the current
+ * user and the proposal's audit trail
+ */
+export default function ProposalSignaturePanel({ proposalId, currentUserId, canSign, canSendForSigning }: ProposalSignaturePanelProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [typedName, setTypedName] = useState("");
+  const [consent, setConsent] = useState(false);
+  const [code, setCode] = useState("");
+  const [isSigning, setIsSigning] = useState(false);
+
+  const signaturesKey = `/api/settlement-proposals/${proposalId}/signatures`;
+  const auditTrailKey = `/api/settlement-proposals/${proposalId}/audit-trail`;
+  const submissionsKey = `/api/docuseal/proposals/${proposalId}/submissions`;
+
+  const { data, isLoading } = useQuery<SignaturesResponse>({ queryKey: [signaturesKey] });
+  const { data: auditTrail } = useQuery<AuditTrailResponse>({ queryKey: [auditTrailKey] });
+  const { data: submissions = [] } = useQuery<DocusealSubmission[]>({ queryKey: [submissionsKey] });
+
+  const signatures = data?.signatures || [];
+  const mine = signatures.filter(signature => signature.signedBy === currentUserId);
+  const pending = mine.find(signature => signature.signatureStatus === "pending" && !signature.docusealSubmissionId);
+  const sentWithDocuseal = mine.some(signature => signature.signatureStatus === "pending" && !!signature.docusealSubmissionId);
+  const docusealPending = submissions.some(submission => submission.status === "pending") &&
+    signatures.some(signature => signature.signatureStatus === "pending" && !!signature.docusealSubmissionId);
+  const hasSigned = mine.some(signature => signature.signatureStatus === "signed");
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: [signaturesKey] });
+    queryClient.invalidateQueries({ queryKey: [auditTrailKey] });
+    queryClient.invalidateQueries({ queryKey: [submissionsKey] });
+  };
+
+  const onError = (title: string) => (error: Error) => {
+    refresh();
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const startMutation = useMutation({
+    mutationFn: async () => await apiRequest("POST", signaturesKey, { signatureData: { typedName }, consent }),
+    onSuccess: () => {
+      refresh();
+      setCode("");
+      toast({ title: "Check your email", description: "We sent you a 6-digit code to confirm your signature." });
+    },
+    onError: onError("Could not start signing"),
+  });
+
+  const resendMutation = useMutation({
+    mutationFn: async (signatureId: number) => await apiRequest("POST", `${signaturesKey}/${signatureId}/resend`),
+    onSuccess: () => {
+      refresh();
+      setCode("");
+      toast({ title: "New code sent", description: "Use the latest code from your email." });
+    },
+    onError: onError("Could not send a new code"),
+  });
+
+  const confirmMutation = useMutation({
+    mutationFn: async (signatureId: number) => await apiRequest("POST", `${signaturesKey}/${signatureId}/confirm`, { code }),
+    onSuccess: () => {
+      refresh();
+      setIsSigning(false);
+      setTypedName("");
+      setConsent(false);
+      setCode("");
+      toast({ title: "Proposal signed", description: "Your signature certificate is ready." });
+    },
+    onError: onError("Could not confirm signature"),
+  });
+
+  const sendMutation = useMutation({
+    mutationFn: async () => await apiRequest("POST", "/api/docuseal/submissions", { proposalId }),
+    onSuccess: () => {
+      refresh();
+      toast({ title: "Sent for signing", description: "Every party on the dispute has been emailed a DocuSeal signing link." });
+    },
+    onError: onError("Could not send for signing"),
+  });
+
+  const formatDate = (value: string | null) => value ? format(new Date(value), "PPp") : "-";
+
+  return (
+    <div className="space-y-4">
+      <h3 className="font-medium">Signatures</h3>
+
+      {isLoading ? (
+        <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+      ) : signatures.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No one has signed this proposal yet.</p>
+      ) : (
+        <div className="space-y-2">
+          {signatures.map(signature => (
+            <div key={signature.id} className="border rounded-md p-3 text-sm flex items-start justify-between gap-4">
+              <div>
+                <p className="font-medium">{signature.signerName || "Party"}</p>
+                {signature.signatureStatus === "signed" && (
+                  <p className="text-muted-foreground">
+                    Signed {formatDate(signature.signedAt)} · Certificate {signature.verificationCode}
+                  </p>
+                )}
+                {signature.signatureStatus === "invalidated" && (
+                  <p className="text-muted-foreground">{signature.invalidationReason}</p>
+                )}
+              </div>
+              <div className="flex items-center gap-2">
+                <Badge variant={STATUS_BADGES[signature.signatureStatus].variant}>
+                  {STATUS_BADGES[signature.signatureStatus].label}
+                </Badge>
+                {signature.signedAt && (
+                  <Button variant="outline" size="sm" asChild>
+                    <a href={`${signaturesKey}/${signature.id}/certificate`} target="_blank" rel="noopener noreferrer">
+                      <FileCheck className="h-4 w-4 mr-1" />
+                      Certificate
+                    </a>
+                  </Button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {submissions.filter(submission => submission.signedDocumentId).map(submission => (
+        <Button key={submission.submissionId} variant="outline" size="sm" asChild>
+          <a href={`/api/shared-documents/${submission.signedDocumentId}/download`}>
+            <Download className="h-4 w-4 mr-1" />
+            Signed PDF
+          </a>
+        </Button>
+      ))}
+
+      {canSign && canSendForSigning && !docusealPending && (
+        <Button variant="outline" disabled={sendMutation.isPending} onClick={() => sendMutation.mutate()}>
+          {sendMutation.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Send className="h-4 w-4 mr-2" />}
+          Send to All Parties with DocuSeal
+        </Button>
+      )}
+
+      {canSign && !hasSigned && sentWithDocuseal && (
+        <p className="text-sm text-muted-foreground">This proposal was sent to you through DocuSeal. Sign it from the DocuSeal email.</p>
+      )}
+
+      {canSign && !hasSigned && !sentWithDocuseal && (
+        pending ? (
+          <div className="border rounded-md p-4 space-y-3">
+            <Label>Enter the 6-digit code we emailed you</Label>
+            <InputOTP maxLength={6} value={code} onChange={setCode}>
+              <InputOTPGroup>
+                {[0, 1, 2, 3, 4, 5].map(index => <InputOTPSlot key={index} index={index} />)}
+              </InputOTPGroup>
+            </InputOTP>
+            {pending.otpExpiresAt && (
+              <p className="text-xs text-muted-foreground">The code expires {formatDate(pending.otpExpiresAt)}.</p>
+            )}
+            <div className="flex gap-2">
+              <Button
+                disabled={code.length !== 6 || confirmMutation.isPending}
+                onClick={() => confirmMutation.mutate(pending.id)}
+              >
+                {confirmMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Confirm Signature
+              </Button>
+              <Button variant="outline" disabled={resendMutation.isPending} onClick={() => resendMutation.mutate(pending.id)}>
+                Send a New Code
+              </Button>
+            </div>
+          </div>
+        ) : isSigning ? (
+          <div className="border rounded-md p-4 space-y-3">
+            <div className="space-y-2">
+              <Label htmlFor={`signature-name-${proposalId}`}>Type your full name as your signature</Label>
+              <Input id={`signature-name-${proposalId}`} value={typedName} onChange={(e) => setTypedName(e.target.value)} />
+            </div>
+            <div className="flex items-start gap-2">
+              <Checkbox id={`signature-consent-${proposalId}`} checked={consent} onCheckedChange={(checked) => setConsent(checked === true)} />
+              <Label htmlFor={`signature-consent-${proposalId}`} className="text-sm font-normal leading-snug">
+                I agree to sign this proposal electronically and to be bound by its content and terms as shown.
+                Any later change to the proposal invalidates my signature.
+              </Label>
+            </div>
+            <div className="flex gap-2">
+              <Button
+                disabled={typedName.trim().length < 2 || !consent || startMutation.isPending}
+                onClick={() => startMutation.mutate()}
+              >
+                {startMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Email Me a Code
+              </Button>
+              <Button variant="outline" onClick={() => setIsSigning(false)}>Cancel</Button>
+            </div>
+          </div>
+        ) : (
+          <Button onClick={() => setIsSigning(true)}>
+            <PenLine className="h-4 w-4 mr-2" />
+            Sign This Proposal
+          </Button>
+        )
+      )}
+
+      {auditTrail && auditTrail.events.length > 0 && (
+        <Accordion type="single" collapsible className="w-full">
+          <AccordionItem value="audit">
+            <AccordionTrigger>
+              <span className="flex items-center gap-2">
+                {auditTrail.verification.valid
+                  ? <ShieldCheck className="h-4 w-4 text-green-600" />
+                  : <ShieldAlert className="h-4 w-4 text-destructive" />}
+                Audit trail ({auditTrail.verification.valid ? "intact" : `broken at event #${auditTrail.verification.brokenAtEventId}`})
+              </span>
+            </AccordionTrigger>
+            <AccordionContent>
+              <ul className="space-y-1 text-xs">
+                {auditTrail.events.map(event => (
+                  <li key={event.id} className="flex justify-between gap-4">
+                    <span>{formatDate(event.createdAt)} · {EVENT_LABELS[event.eventType] || event.eventType}</span>
+                    <span className="font-mono text-muted-foreground truncate max-w-[12rem]" title={event.hash}>{event.hash}</span>
+                  </li>
+                ))}
+              </ul>
+            </AccordionContent>
+          </AccordionItem>
+        </Accordion>
+      )}
+    </div>
+  );
+}
@@ -6,7 +6,7 @@ import { format } from "date-fns";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useForm } from "react-hook-form";
 import * as z from "zod";
-import { Scale, FileText, Paperclip, CheckCircle, XCircle, AlertCircle, ChevronDown, ChevronUp, Loader2, Plus } from "lucide-react";
+import { Scale, FileText, Paperclip, CheckCircle, XCircle, AlertCircle, ChevronDown, ChevronUp, Loader2, Plus, Download, Repeat } from "lucide-react";
 import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -20,6 +20,10 @@ import { Skeleton } from "@/components/ui/skeleton";
 import { Textarea } from "@/components/ui/textarea";
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion";
 import { Separator } from "@/components/ui/separator";
+import ProposalSignaturePanel from "./ProposalSignaturePanel";
+import NegotiationHistory from "./NegotiationHistory";
+import CounterProposalDialog from "./CounterProposalDialog";
+import SettlementTermsEditor, { completeTerms, type SettlementTerm } from "./SettlementTermsEditor";
 
 interface SettlementProposal {
   id: number;
@@ -30,7 +34,10 @@ interface SettlementProposal {
   status: string;
   documentId: number | null;
   termsAndConditions: any;
+  parentProposalId: number | null;
+  round: number;
   expiresAt: string | null;
+  lapsedAt: string | null;
   createdAt: string;
   updatedAt: string | null;
   proposerName?: string;
@@ -42,6 +49,7 @@ interface SharedDocument {
   description: string | null;
   fileType: string;
   fileSize: number;
+  fileUrl: string;
 }
 
 const proposalFormSchema = z.object({
@@ -53,6 +61,9 @@ const proposalFormSchema = z.object({
 
 type ProposalFormValues = z.infer<typeof proposalFormSchema>;
 
+// Statuses in which a proposal still awaits an answer
+const OPEN_STATUSES = ['draft', 'proposed', 'pending'];
+
 interface SettlementProposalManagerProps {
   disputeId: number;
   currentUserId: number;
@@ -64,6 +75,9 @@ export default function SettlementProposalManager({ disputeId, currentUserId }:
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [viewingProposal, setViewingProposal] = useState<SettlementProposal | null>(null);
   const [expandedProposal, setExpandedProposal] = useState<number | null>(null);
+  const [counteringProposal, setCounteringProposal] = useState<SettlementProposal | null>(null);
+  const [newTerms, setNewTerms] = useState<SettlementTerm[]>([]);
+  const proposalsKey = `/api/disputes/${disputeId}/settlement-proposals`;
   
   // Form setup for creating new proposals
   const form = useForm<ProposalFormValues>({
@@ -81,8 +95,8 @@ export default function SettlementProposalManager({ disputeId, currentUserId }:
     data: proposals = [],
     isLoading: isProposalsLoading,
     error: proposalsError
-  } = useQuery({
-    queryKey: ['/api/disputes', disputeId, 'settlement-proposals'],
+  } = useQuery<SettlementProposal[]>({
+    queryKey: [proposalsKey],
     enabled: !!disputeId,
   });
   
@@ -91,7 +105,7 @@ export default function SettlementProposalManager({ disputeId, currentUserId }:
     data: documents = [],
     isLoading: isDocumentsLoading,
   } = useQuery({
-    queryKey: ['/api/disputes', disputeId, 'documents'],
+    queryKey: [`/api/disputes/${disputeId}/documents/shared`],
     enabled: !!disputeId,
   });
   
@@ -106,22 +120,24 @@ export default function SettlementProposalManager({ disputeId, currentUserId }:
         expiresAt = date.toISOString();
       }
       
+      const terms = completeTerms(newTerms);
       const payload = {
         ...data,
         expiresAt,
+        termsAndConditions: terms.length > 0 ? terms : undefined,
       };
       delete payload.expiresInDays;
       
-      const res = await apiRequest("POST", `/api/disputes/${disputeId}/settlement-proposals`, payload);
-      return await res.json();
+      return await apiRequest("POST", proposalsKey, payload);
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['/api/disputes', disputeId, 'settlement-proposals'] });
+      queryClient.invalidateQueries({ queryKey: [proposalsKey] });
       toast({
         title: t("proposal_created"),
         description: t("settlement_proposal_created_successfully"),
       });
       form.reset();
+      setNewTerms([]);
       setIsDialogOpen(false);
     },
     onError: (error) => {
@@ -136,13 +152,12 @@ export default function SettlementProposalManager({ disputeId, currentUserId }:
   // Mutation to accept/reject a proposal
   const respondToProposalMutation = useMutation({
     mutationFn: async ({ proposalId, action }: { proposalId: number, action: 'accept' | 'reject' }) => {
-      const res = await apiRequest("PATCH", `/api/settlement-proposals/${proposalId}`, {
+      return await apiRequest("PATCH", `/api/settlement-proposals/${proposalId}`, {
         status: action === 'accept' ? 'accepted' : 'rejected'
       });
-      return await res.json();
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['/api/disputes', disputeId, 'settlement-proposals'] });
+      queryClient.invalidateQueries({ queryKey: [proposalsKey] });
       toast({
         title: t("response_recorded"),
         description: t("proposal_response_successful"),
@@ -188,7 +203,14 @@ export default function SettlementProposalManager({ disputeId, currentUserId }:
   const getStatusBadge = (status: string) => {
     switch (status.toLowerCase()) {
       case 'pending':
+      case 'proposed':
         return { variant: 'outline' as const, label: t("pending") };
+      case 'draft':
+        return { variant: 'outline' as const, label: "Draft" };
+      case 'countered':
+        return { variant: 'secondary' as const, label: "Countered" };
+      case 'lapsed':
+        return { variant: 'secondary' as const, label: "Lapsed" };
       case 'accepted':
         return { variant: 'success' as const, label: t("accepted") };
       case 'rejected':
@@ -215,7 +237,7 @@ export default function SettlementProposalManager({ disputeId, currentUserId }:
   const isProposalActionable = (proposal: SettlementProposal) => {
     return (
       !isProposalFromCurrentUser(proposal) &&
-      proposal.status.toLowerCase() === 'pending' &&
+      OPEN_STATUSES.includes(proposal.status.toLowerCase()) &&
       (!proposal.expiresAt || new Date(proposal.expiresAt) > new Date())
     );
   };
@@ -317,6 +339,13 @@ export default function SettlementProposalManager({ disputeId, currentUserId }:
                         <div className="flex items-center p-2 border rounded-md text-sm">
                           <FileText className="h-4 w-4 mr-2 text-muted-foreground" />
                           <span>{getDocumentById(proposal.documentId)?.title || t("attached_document")}</span>
+                          <a
+                            href={`/api/shared-documents/${proposal.documentId}/download`}
+                            className="ml-auto flex items-center text-primary hover:underline"
+                          >
+                            <Download className="h-4 w-4 mr-1" />
+                            {t("download_document")}
+                          </a>
                         </div>
                       )}
                       
@@ -367,6 +396,9 @@ export default function SettlementProposalManager({ disputeId, currentUserId }:
               <div className="hidden md:grid grid-cols-12 gap-4 px-4 py-3 items-center">
                 <div className="col-span-3">
                   <div className="font-medium">{proposal.title}</div>
+                  {proposal.round > 1 && (
+                    <div className="text-xs text-muted-foreground">Round {proposal.round} · counter-proposal</div>
+                  )}
                   {proposal.documentId && (
                     <div className="flex items-center mt-1 text-xs text-muted-foreground">
                       <Paperclip className="h-3 w-3 mr-1" />
@@ -518,6 +550,14 @@ export default function SettlementProposalManager({ disputeId, currentUserId }:
                 )}
               />
               
+              <div className="space-y-2">
+                <FormLabel>Terms</FormLabel>
+                <SettlementTermsEditor terms={newTerms} onChange={setNewTerms} />
+                <FormDescription>
+                  Amounts, dates and obligations are compared term by term if the proposal is countered.
+                </FormDescription>
+              </div>
+              
               <FormField
                 control={form.control}
                 name="expiresInDays"
@@ -577,7 +617,7 @@ export default function SettlementProposalManager({ disputeId, currentUserId }:
       {/* View Proposal Dialog */}
       {viewingProposal && (
         <Dialog open={!!viewingProposal} onOpenChange={(open) => !open && setViewingProposal(null)}>
-          <DialogContent className="sm:max-w-2xl">
+          <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
             <DialogHeader>
               <DialogTitle>{viewingProposal.title}</DialogTitle>
               <DialogDescription>
@@ -620,6 +660,23 @@ export default function SettlementProposalManager({ disputeId, currentUserId }:
                         {getDocumentById(viewingProposal.documentId)?.fileType || ""}
                       </p>
                     </div>
+                    <div className="ml-auto flex gap-2">
+                      <Button variant="outline" size="sm" asChild>
+                        <a
+                          href={`/api/shared-documents/${viewingProposal.documentId}/download?inline=true`}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                        >
+                          {t("open_document")}
+                        </a>
+                      </Button>
+                      <Button variant="outline" size="sm" asChild>
+                        <a href={`/api/shared-documents/${viewingProposal.documentId}/download`}>
+                          <Download className="h-4 w-4 mr-1" />
+                          {t("download_document")}
+                        </a>
+                      </Button>
+                    </div>
                   </div>
                 </div>
               )}
@@ -641,6 +698,22 @@ export default function SettlementProposalManager({ disputeId, currentUserId }:
                   </AccordionItem>
                 </Accordion>
               )}
+              
+              <Separator />
+              
+              <NegotiationHistory proposalId={viewingProposal.id} currentUserId={currentUserId} />
+              
+              <Separator />
+              
+              <ProposalSignaturePanel
+                proposalId={viewingProposal.id}
+                currentUserId={currentUserId}
+                canSendForSigning={isProposalFromCurrentUser(viewingProposal)}
+                canSign={
+                  !['rejected', 'expired', 'countered', 'lapsed'].includes(viewingProposal.status.toLowerCase()) &&
+                  (!viewingProposal.expiresAt || new Date(viewingProposal.expiresAt) > new Date())
+                }
+              />
             </div>
             
             <DialogFooter className="gap-2 sm:gap-0">
@@ -653,6 +726,14 @@ export default function SettlementProposalManager({ disputeId, currentUserId }:
               
               {isProposalActionable(viewingProposal) && (
                 <>
+                  <Button 
+                    variant="outline"
+                    onClick={() => setCounteringProposal(viewingProposal)}
+                    disabled={respondToProposalMutation.isPending}
+                  >
+                    <Repeat className="h-4 w-4 mr-2" />
+                    Counter
+                  </Button>
                   <Button 
                     variant="outline"
                     onClick={() => handleRespondToProposal(viewingProposal.id, 'reject')}
@@ -674,6 +755,16 @@ export default function SettlementProposalManager({ disputeId, currentUserId }:
           </DialogContent>
         </Dialog>
       )}
+      
+      <CounterProposalDialog
+        disputeId={disputeId}
+        parent={counteringProposal}
+        onClose={() => setCounteringProposal(null)}
+        onCountered={() => {
+          setCounteringProposal(null);
+          setViewingProposal(null);
+        }}
+      />
     </div>
   );
 }
\ No newline at end of file
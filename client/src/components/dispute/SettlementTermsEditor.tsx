@@ -0,0 +1,129 @@
+import { Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+export type SettlementTermType = "amount" | "date" | "obligation" | "text";
+
+export interface SettlementTerm {
+  key: string;
+  label: string;
+  type: SettlementTermType;
+  value: string | number;
+  currency?: string;
+  party?: string;
+}
+
+const TERM_TYPES: { value: SettlementTermType; label: string }[] = [
+  { value: "amount", label: "Amount" },
+  { value: "date", label: "Date" },
+  { value: "obligation", label: "Obligation" },
+  { value: "text", label: "Other" },
+];
+
+interface SettlementTermsEditorProps {
+  terms: SettlementTerm[];
+  onChange: (terms: SettlementTerm[]) => void;
+}
+
+// Keys match terms between rounds, so a term keeps its key when relabelled
+function newTermKey(terms: SettlementTerm[]): string {
+  let index = terms.length + 1;
+  while (terms.some(term => term.key === `term-${index}`)) {
+    index++;
+  }
+  return `term-${index}`;
+}
+
+/**
+ * Terms whose values are compared between rounds of a negotiation
+ */
+export default function SettlementTermsEditor({ terms, onChange }: SettlementTermsEditorProps) {
+  const update = (index: number, changes: Partial<SettlementTerm>) => {
+    onChange(terms.map((term, i) => i === index ? { ...term, ...changes } : term));
+  };
+
+  const changeType = (index: number, type: SettlementTermType) => {
+    // Values do not carry over between types
+    update(index, { type, value: "", party: undefined });
+  };
+
+  const add = () => {
+    onChange([...terms, { key: newTermKey(terms), label: "", type: "amount", value: "" }]);
+  };
+
+  const remove = (index: number) => {
+    onChange(terms.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="space-y-3">
+      {terms.map((term, index) => (
+        <div key={term.key} className="grid grid-cols-12 gap-2 items-start">
+          <Input
+            className="col-span-4"
+            value={term.label}
+            placeholder="Term, e.g. Payment"
+            onChange={event => update(index, { label: event.target.value })}
+          />
+          <div className="col-span-3">
+            <Select value={term.type} onValueChange={value => changeType(index, value as SettlementTermType)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {TERM_TYPES.map(type => (
+                  <SelectItem key={type.value} value={type.value}>{type.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {term.type === "obligation" ? (
+            <div className="col-span-4 space-y-2">
+              <Input
+                value={String(term.value)}
+                placeholder="What must be done"
+                onChange={event => update(index, { value: event.target.value })}
+              />
+              <Input
+                value={term.party || ""}
+                placeholder="By whom"
+                onChange={event => update(index, { party: event.target.value || undefined })}
+              />
+            </div>
+          ) : (
+            <Input
+              className="col-span-4"
+              type={term.type === "amount" ? "number" : term.type === "date" ? "date" : "text"}
+              min={term.type === "amount" ? 0 : undefined}
+              step={term.type === "amount" ? "0.01" : undefined}
+              value={String(term.value)}
+              placeholder={term.type === "amount" ? "Amount (CAD)" : "Value"}
+              onChange={event => update(index, {
+                value: term.type === "amount" && event.target.value !== "" ? Number(event.target.value) : event.target.value,
+              })}
+            />
+          )}
+          <Button type="button" variant="ghost" size="icon" className="col-span-1" onClick={() => remove(index)}>
+            <Trash2 className="h-4 w-4" />
+            <span className="sr-only">Remove term</span>
+          </Button>
+        </div>
+      ))}
+
+      <Button type="button" variant="outline" size="sm" onClick={add}>
+        <Plus className="h-4 w-4 mr-2" />
+        Add Term
+      </Button>
+    </div>
+  );
+}
+
+/**
+ * Terms ready to send: blank rows are dropped
+ */
+export function completeTerms(terms: SettlementTerm[]): SettlementTerm[] {
+  return terms
+    .filter(term => term.label.trim() && String(term.value).trim() !== "")
+    .map(term => ({ ...term, label: term.label.trim() }));
+}
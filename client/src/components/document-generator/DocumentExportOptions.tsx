@@ -7,7 +7,7 @@ import {
   DropdownMenuTrigger,
   DropdownMenuSeparator
 } from "@/components/ui/dropdown-menu";
-import { exportAsText, printDocument, generatePDF } from "@/lib/documentExport";
+import { exportAsText, printDocument, generatePDF, exportFromServer } from "@/lib/documentExport";
 import { toast } from "@/hooks/use-toast";
 import { 
   FileText, 
@@ -25,12 +25,16 @@ import DocumentPreviewModal from "./DocumentPreviewModal";
 interface DocumentExportOptionsProps {
   documentContent: string;
   documentTitle: string;
+  documentId?: number;
+  language?: string;
   showPreviewButton?: boolean;
 }
 
 const DocumentExportOptions: React.FC<DocumentExportOptionsProps> = ({
   documentContent,
   documentTitle,
+  documentId,
+  language,
   showPreviewButton = true
 }) => {
 
@@ -209,14 +213,19 @@ const [exportInProgress, setExportInProgress] = useState(false);
           }
         }
       } else if (format === 'docx' || format === 'rtf') {
-        // For now, we'll fallback to text export for unsupported formats
-        console.log(`Requested ${format} format not supported, using text fallback`);
-        await exportAsText(documentContent, `${sanitizedTitle}.txt`);
+        // Word and RTF files are produced on the server so formatting is preserved
+        await exportFromServer(format, {
+          documentId,
+          content: documentContent,
+          title: documentTitle,
+          language
+        });
         
         toast({
-          title: t("Format Coming Soon"),
-          description: t(`The ${format.toUpperCase()} format will be available in a future update. Your document was exported as a text file instead.`),
-          variant: "default",
+          title: t("Document Exported"),
+          description: format === 'docx'
+            ? t("Your document has been exported as a Word document.")
+            : t("Your document has been exported as a Rich Text file."),
         });
       }
     } catch (error) {
@@ -406,6 +415,14 @@ const [exportInProgress, setExportInProgress] = useState(false);
               <FileBadge className="mr-2 h-4 w-4" />
               <span>{t("PDF Document")} (.pdf)</span>
             </DropdownMenuItem>
+            <DropdownMenuItem onClick={() => handleExport('docx')} disabled={isExporting}>
+              <FileDown className="mr-2 h-4 w-4" />
+              <span>{t("Word Document")} (.docx)</span>
+            </DropdownMenuItem>
+            <DropdownMenuItem onClick={() => handleExport('rtf')} disabled={isExporting}>
+              <Book className="mr-2 h-4 w-4" />
+              <span>{t("Rich Text")} (.rtf)</span>
+            </DropdownMenuItem>
             <DropdownMenuItem onClick={() => handleExport('txt')} disabled={isExporting}>
               <FileText className="mr-2 h-4 w-4" />
               <span>{t("Text File")} (.txt)</span>
@@ -29,6 +29,8 @@ function DocumentGenForm({ template }: DocumentGenFormProps) {
   const { user } = useAuth();
   const [activeTab, setActiveTab] = useState("form");
   const [generatedDocument, setGeneratedDocument] = useState<string | null>(null);
+  // ID of the saved document record, used for server-side exports
+  const [generatedDocumentId, setGeneratedDocumentId] = useState<number | undefined>(undefined);
   
   // Define DialogState type
   interface DialogState {
@@ -178,6 +180,9 @@ function DocumentGenForm({ template }: DocumentGenFormProps) {
         // Set the generated document content immediately
         setGeneratedDocument(documentContent);
         
+        // Only documents saved on the server (which carry a userId) can be exported by ID
+        setGeneratedDocumentId(data && typeof data === 'object' && data.userId ? data.id : undefined);
+        
         // Use a more reliable approach with requestAnimationFrame to ensure DOM is updated
         console.log("Setting document content and scheduling tab switch");
         
@@ -268,6 +273,16 @@ function DocumentGenForm({ template }: DocumentGenFormProps) {
     if (!documentContent) return;
 
     const handleSigners = async (signers: Array<{ name: string, email: string, role?: string }>) => {
+      // DocuSeal renders the saved document, so it must have been saved first
+      if (!generatedDocumentId) {
+        toast({
+          title: "Save the document first",
+          description: "Sign in and generate the document again to request signatures.",
+          variant: "destructive",
+        });
+        return;
+      }
+
       try {
         const response = await fetch('/api/docuseal/submissions', {
           method: 'POST',
@@ -275,9 +290,8 @@ function DocumentGenForm({ template }: DocumentGenFormProps) {
             'Content-Type': 'application/json'
           },
           body: JSON.stringify({
-            documentContent,
-            signers,
-            title: `${template.title} - ${new Date().toLocaleDateString()}`
+            generatedDocumentId,
+            signers
           })
         });
 
@@ -457,6 +471,8 @@ function DocumentGenForm({ template }: DocumentGenFormProps) {
                 <DocumentExportOptions 
                   documentContent={generatedDocument} 
                   documentTitle={`${template.title} - ${new Date().toLocaleDateString()}`}
+                  documentId={generatedDocumentId}
+                  language={template.language}
                   showPreviewButton={true}
                 />
                 <div className="text-xs text-green-600 mt-1">
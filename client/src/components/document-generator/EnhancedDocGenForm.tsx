@@ -23,6 +23,7 @@ import { Badge } from "@/components/ui/badge";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { cn } from "@/lib/utils";
+import PartyListInput from "./PartyListInput";
 
 interface EnhancedDocGenFormProps {
   template: DocumentTemplate;
@@ -141,16 +142,25 @@ export default function EnhancedDocGenForm({ template }: EnhancedDocGenFormProps
     "Nunavut"
   ];
   
+  // Fields are stored either as an array or as an object keyed by field name
+  const templateFields: any[] = Array.isArray(template.fields)
+    ? template.fields
+    : Object.entries((template.fields as Record<string, any>) || {}).map(([name, config]) => ({ name, ...config }));
+  
+  const provinces = jurisdictions.filter((name) => name !== "Canada");
+  
   // Initialize form with default values
-  const form = useForm({
+  const form = useForm<Record<string, any>>({
     defaultValues: {
       documentTitle: `${template.title} - ${new Date().toLocaleDateString()}`,
-      ...(Array.isArray(template.fields) 
-        ? template.fields.reduce((acc: Record<string, string>, field: any) => {
-            acc[field.name] = "";
-            return acc;
-          }, {} as Record<string, string>)
-        : {})
+      ...templateFields.reduce((acc: Record<string, any>, field: any) => {
+        acc[field.name] = field.type === 'party_list'
+          ? []
+          : field.type === 'checkbox' || field.type === 'boolean'
+            ? field.defaultValue === true
+            : field.defaultValue ?? field.default ?? "";
+        return acc;
+      }, {} as Record<string, any>)
     },
   });
   
@@ -158,17 +168,13 @@ export default function EnhancedDocGenForm({ template }: EnhancedDocGenFormProps
   const { mutate: generateDocumentMutation, isPending, error, reset } = useMutation({
     mutationFn: async (data: Record<string, any>) => {
       try {
-        // Process original template with field values
-        let processedTemplate = template.templateContent;
-        
         // Exclude documentTitle from form data to be sent to API
         const { documentTitle, ...formData } = data;
         
-        // First perform basic variable replacement (will be enhanced by Anthropic)
-        for (const [key, value] of Object.entries(formData)) {
-          const placeholder = new RegExp(`\\[${key.toUpperCase()}\\]`, 'g');
-          processedTemplate = processedTemplate.replace(placeholder, value?.toString() || '');
-        }
+        // Fill the template on the server, which evaluates conditions, loops
+        // and computed values (will be enhanced by Anthropic)
+        const rendered = await apiRequest("POST", `/api/document-templates/${template.id}/render`, { data: formData });
+        const processedTemplate: string = rendered.content;
         
         // Generate enhanced document with Anthropic
         const result = await generateEnhancedDocument(
@@ -340,9 +346,9 @@ export default function EnhancedDocGenForm({ template }: EnhancedDocGenFormProps
                   <h3 className="font-medium mb-4">{t("document_fields")}</h3>
                   
                   <div className="space-y-4">
-                    {Array.isArray(template.fields) && template.fields.map((field: any) => {
+                    {templateFields.map((field: any) => {
                       // For text inputs
-                      if (field.type === 'text' || field.type === 'date' || field.type === 'number') {
+                      if (field.type === 'text' || field.type === 'date' || field.type === 'number' || field.type === 'currency') {
                         return (
                           <FormField
                             key={field.name}
@@ -356,7 +362,8 @@ export default function EnhancedDocGenForm({ template }: EnhancedDocGenFormProps
                                     {...formField} 
                                     id={`field-${field.name}`}
                                     name={field.name}
-                                    type={field.type} 
+                                    type={field.type === 'currency' ? 'number' : field.type} 
+                                    step={field.type === 'currency' ? '0.01' : undefined}
                                     required={field.required}
                                   />
                                 </FormControl>
@@ -393,6 +400,85 @@ export default function EnhancedDocGenForm({ template }: EnhancedDocGenFormProps
                         );
                       }
                       
+                      // For provinces and fields with a fixed set of options
+                      if (field.type === 'province' || field.type === 'select' || field.type === 'radio') {
+                        const options: string[] = field.type === 'province' ? provinces : field.options || [];
+                        return (
+                          <FormField
+                            key={field.name}
+                            control={form.control}
+                            name={field.name}
+                            render={({ field: formField }) => (
+                              <FormItem>
+                                <FormLabel>{field.label}</FormLabel>
+                                <Select value={formField.value} onValueChange={formField.onChange}>
+                                  <FormControl>
+                                    <SelectTrigger id={`field-${field.name}`}>
+                                      <SelectValue placeholder={field.label} />
+                                    </SelectTrigger>
+                                  </FormControl>
+                                  <SelectContent>
+                                    {options.map((option) => (
+                                      <SelectItem key={option} value={option}>{option}</SelectItem>
+                                    ))}
+                                  </SelectContent>
+                                </Select>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+                        );
+                      }
+                      
+                      // For yes/no questions that switch conditional sections on or off
+                      if (field.type === 'checkbox' || field.type === 'boolean') {
+                        return (
+                          <FormField
+                            key={field.name}
+                            control={form.control}
+                            name={field.name}
+                            render={({ field: formField }) => (
+                              <FormItem className="flex items-center space-x-2 space-y-0">
+                                <FormControl>
+                                  <Switch
+                                    id={`field-${field.name}`}
+                                    checked={formField.value === true}
+                                    onCheckedChange={formField.onChange}
+                                  />
+                                </FormControl>
+                                <FormLabel>{field.label}</FormLabel>
+                              </FormItem>
+                            )}
+                          />
+                        );
+                      }
+                      
+                      // For repeating parties
+                      if (field.type === 'party_list') {
+                        const itemFields = Array.isArray(field.itemFields ?? field.fields)
+                          ? field.itemFields ?? field.fields
+                          : Object.entries(field.itemFields ?? field.fields ?? {}).map(([name, config]: [string, any]) => ({ name, ...config }));
+                        return (
+                          <FormField
+                            key={field.name}
+                            control={form.control}
+                            name={field.name}
+                            render={({ field: formField }) => (
+                              <FormItem>
+                                <FormLabel>{field.label}</FormLabel>
+                                <PartyListInput
+                                  id={`field-${field.name}`}
+                                  itemFields={itemFields}
+                                  value={formField.value}
+                                  onChange={formField.onChange}
+                                />
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+                        );
+                      }
+                      
                       return null;
                     })}
                   </div>
@@ -458,6 +544,7 @@ export default function EnhancedDocGenForm({ template }: EnhancedDocGenFormProps
               <DocumentExportOptions 
                 documentContent={generatedDocument} 
                 documentTitle={`${template.title} - ${new Date().toLocaleDateString()}`}
+                language={template.language}
                 showPreviewButton={true}
               />
             </div>
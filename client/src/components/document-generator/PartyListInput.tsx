@@ -0,0 +1,69 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { t } from "@/lib/i18n";
+import { Plus, Trash2 } from "lucide-react";
+
+interface PartyField {
+  name: string;
+  label: string;
+  type?: string;
+}
+
+interface PartyListInputProps {
+  id: string;
+  itemFields?: PartyField[];
+  value: Record<string, string>[];
+  onChange: (value: Record<string, string>[]) => void;
+}
+
+const DEFAULT_ITEM_FIELDS: PartyField[] = [{ name: "name", label: "Name", type: "text" }];
+
+/**
+ * Editor for a party_list template field: one row of inputs per party
+ */
+export default function PartyListInput({ id, itemFields, value, onChange }: PartyListInputProps) {
+  const fields = itemFields && itemFields.length > 0 ? itemFields : DEFAULT_ITEM_FIELDS;
+  const entries = Array.isArray(value) ? value : [];
+
+  const updateEntry = (index: number, name: string, fieldValue: string) => {
+    onChange(entries.map((entry, i) => (i === index ? { ...entry, [name]: fieldValue } : entry)));
+  };
+
+  return (
+    <div className="space-y-3" id={id}>
+      {entries.map((entry, index) => (
+        <div key={index} className="border rounded-md p-3 space-y-2">
+          <div className="flex items-center justify-between">
+            <span className="text-sm font-medium">{t("party_number", { number: String(index + 1) })}</span>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => onChange(entries.filter((_, i) => i !== index))}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+            {fields.map((field) => (
+              <div key={field.name} className="space-y-1">
+                <Label htmlFor={`${id}-${index}-${field.name}`} className="text-xs">{field.label}</Label>
+                <Input
+                  id={`${id}-${index}-${field.name}`}
+                  type={field.type === "date" ? "date" : field.type === "number" || field.type === "currency" ? "number" : "text"}
+                  value={entry[field.name] ?? ""}
+                  onChange={(e) => updateEntry(index, field.name, e.target.value)}
+                />
+              </div>
+            ))}
+          </div>
+        </div>
+      ))}
+      <Button type="button" variant="outline" size="sm" onClick={() => onChange([...entries, {}])}>
+        <Plus className="h-4 w-4 mr-1" />
+        {t("add_party")}
+      </Button>
+    </div>
+  );
+}
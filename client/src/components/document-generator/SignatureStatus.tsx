@@ -16,6 +16,7 @@ interface SignatureStatusProps {
 export default function SignatureStatus({ submissionId, signers }: SignatureStatusProps) {
   const { toast } = useToast();
   const [statusUpdates, setStatusUpdates] = useState(signers);
+  const [signedDocumentUrl, setSignedDocumentUrl] = useState<string | null>(null);
 
   useEffect(() => {
     const checkStatus = async () => {
@@ -25,6 +26,7 @@ export default function SignatureStatus({ submissionId, signers }: SignatureStat
         
         const data = await response.json();
         setStatusUpdates(data.signers);
+        setSignedDocumentUrl(data.signedDocumentUrl);
 
         if (data.status === 'completed') {
           toast({
@@ -37,6 +39,7 @@ export default function SignatureStatus({ submissionId, signers }: SignatureStat
       }
     };
 
+    checkStatus();
     const interval = setInterval(checkStatus, 30000); // Check every 30 seconds
     return () => clearInterval(interval);
   }, [submissionId, toast]);
@@ -64,6 +67,11 @@ export default function SignatureStatus({ submissionId, signers }: SignatureStat
               </Badge>
             </div>
           ))}
+          {signedDocumentUrl && (
+            <a href={signedDocumentUrl} className="text-sm text-primary hover:underline">
+              Download the signed document
+            </a>
+          )}
         </div>
       </CardContent>
     </Card>
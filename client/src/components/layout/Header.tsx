@@ -14,6 +14,7 @@ import {
 import { Sheet, SheetContent, SheetTrigger } from "@/components/ui/sheet";
 import { useToast } from "@/hooks/use-toast";
 import { useQuery } from "@tanstack/react-query";
+import NotificationInbox from "./NotificationInbox";
 
 // Common search suggestions based on legal categories
 const FALLBACK_SUGGESTIONS = [
@@ -372,6 +373,7 @@ function Header() {
       
       {/* User profile and actions */}
       <div className="flex items-center ml-auto md:ml-0">
+        {user && <NotificationInbox />}
         
         <DropdownMenu>
           <DropdownMenuTrigger asChild>
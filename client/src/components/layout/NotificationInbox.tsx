@@ -0,0 +1,160 @@
+import { useState } from "react";
+import { useLocation } from "wouter";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Bell, CheckCheck, AlarmClock } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+
+interface UserNotification {
+  id: number;
+  type: string;
+  title: string;
+  message: string;
+  link: string | null;
+  data: Record<string, any> | null;
+  readAt: string | null;
+  createdAt: string;
+}
+
+interface NotificationsResponse {
+  notifications: UserNotification[];
+  unreadCount: number;
+}
+
+const SNOOZE_MINUTES = 24 * 60;
+
+/**
+ * Bell icon in the header with the user's in-app notifications
+ */
+function NotificationInbox() {
+  const [open, setOpen] = useState(false);
+  const [, navigate] = useLocation();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data } = useQuery<NotificationsResponse>({
+    queryKey: ['/api/notifications'],
+    refetchInterval: 60 * 1000,
+  });
+
+  const notifications = data?.notifications || [];
+  const unreadCount = data?.unreadCount || 0;
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ['/api/notifications'] });
+
+  const markReadMutation = useMutation({
+    mutationFn: async (id: number) => await apiRequest('PATCH', `/api/notifications/${id}/read`),
+    onSuccess: invalidate,
+  });
+
+  const markAllReadMutation = useMutation({
+    mutationFn: async () => await apiRequest('POST', '/api/notifications/read-all'),
+    onSuccess: invalidate,
+  });
+
+  const snoozeMutation = useMutation({
+    mutationFn: async (notification: UserNotification) => {
+      await apiRequest('POST', `/api/court-procedures/reminders/${notification.data?.reminderId}/snooze`, {
+        minutes: SNOOZE_MINUTES,
+      });
+      return await apiRequest('PATCH', `/api/notifications/${notification.id}/read`);
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Reminder snoozed", description: "We'll remind you again tomorrow." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not snooze reminder", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const openNotification = (notification: UserNotification) => {
+    if (!notification.readAt) {
+      markReadMutation.mutate(notification.id);
+    }
+    if (notification.link) {
+      setOpen(false);
+      navigate(notification.link);
+    }
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="icon" className="relative text-white hover:bg-white/10" aria-label="Notifications">
+          <Bell className="h-5 w-5" />
+          {unreadCount > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 min-w-[18px] h-[18px] px-1 rounded-full bg-red-500 text-[10px] font-semibold leading-[18px] text-white">
+              {unreadCount > 99 ? '99+' : unreadCount}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-0">
+        <div className="flex items-center justify-between px-4 py-2 border-b">
+          <h3 className="text-sm font-semibold">Notifications</h3>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 text-xs"
+            disabled={unreadCount === 0 || markAllReadMutation.isPending}
+            onClick={() => markAllReadMutation.mutate()}
+          >
+            <CheckCheck className="h-3.5 w-3.5 mr-1" />
+            Mark all read
+          </Button>
+        </div>
+
+        {notifications.length === 0 ? (
+          <div className="px-4 py-8 text-center text-sm text-muted-foreground">
+            You have no notifications
+          </div>
+        ) : (
+          <ScrollArea className="max-h-96">
+            {notifications.map(notification => (
+              <div
+                key={notification.id}
+                className={`px-4 py-3 border-b last:border-b-0 ${notification.readAt ? '' : 'bg-primary/5'}`}
+              >
+                <button
+                  type="button"
+                  className="w-full text-left"
+                  onClick={() => openNotification(notification)}
+                >
+                  <div className="flex items-start gap-2">
+                    {!notification.readAt && <span className="mt-1.5 h-2 w-2 shrink-0 rounded-full bg-primary" />}
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium">{notification.title}</p>
+                      <p className="text-xs text-muted-foreground">{notification.message}</p>
+                      <p className="mt-1 text-[11px] text-muted-foreground">
+                        {formatDistanceToNow(new Date(notification.createdAt), { addSuffix: true })}
+                      </p>
+                    </div>
+                  </div>
+                </button>
+                {notification.type === 'procedure_reminder' && notification.data?.reminderId && !notification.readAt && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="mt-2 h-7 text-xs"
+                    disabled={snoozeMutation.isPending}
+                    onClick={() => snoozeMutation.mutate(notification)}
+                  >
+                    <AlarmClock className="h-3.5 w-3.5 mr-1" />
+                    Snooze 1 day
+                  </Button>
+                )}
+              </div>
+            ))}
+          </ScrollArea>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+export default NotificationInbox;
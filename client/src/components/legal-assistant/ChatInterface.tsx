@@ -5,30 +5,30 @@ import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { useToast } from "@/hooks/use-toast";
 import ChatMessage, { TypingIndicator, ChatMessageProps } from "./ChatMessage";
 import ChatInput from "./ChatInput";
+import EscalateQuestionDialog, { EscalationTarget } from "./EscalateQuestionDialog";
 import { sendChatMessage } from "@/lib/openai";
-import { useAuth } from "@/hooks/use-auth";
 import { Badge } from "@/components/ui/badge";
 
-// Fallback user ID if auth fails
-const FALLBACK_USER_ID = 1;
+interface ChatInterfaceProps {
+  threadId: number | null; // A new thread is started by the first message when null
+  onThreadChange?: (threadId: number) => void;
+}
 
-function ChatInterface() {
+function ChatInterface({ threadId, onThreadChange }: ChatInterfaceProps) {
   const queryClient = useQueryClient();
   const chatContainerRef = useRef<HTMLDivElement>(null);
   const { toast } = useToast();
-  const { user } = useAuth();
-  
-  // Get user ID from authenticated user, fallback to demo ID if not available
-  const userId = user?.id || FALLBACK_USER_ID;
   
-  // Fetch chat history
+  // Fetch the thread's history
   const { data: chatHistory = [], isLoading: isLoadingHistory, error: historyError } = useQuery({
-    queryKey: ["/api/chat/messages", userId],
+    queryKey: [`/api/chat/threads/${threadId}/messages`],
+    enabled: threadId !== null,
     staleTime: 0, // Always refresh on component mount
   });
   
   // Local state for messages
   const [messages, setMessages] = useState<ChatMessageProps[]>([]);
+  const [escalationTarget, setEscalationTarget] = useState<EscalationTarget | null>(null);
   const [suggestedQuestions, setSuggestedQuestions] = useState<string[]>([
     t("suggest_rental_laws"),
     t("suggest_business_regulations"),
@@ -50,10 +50,13 @@ function ChatInterface() {
   // Update local messages when chat history changes
   useEffect(() => {
     if (chatHistory && Array.isArray(chatHistory)) {
-      const formattedMessages = chatHistory.map((message: any) => ({
+      const formattedMessages: ChatMessageProps[] = chatHistory.map((message: any) => ({
+        id: message.id,
         role: message.role,
         content: message.content,
-        timestamp: new Date(message.timestamp)
+        timestamp: new Date(message.timestamp),
+        citationIssues: message.metadata?.citationIssues,
+        references: message.metadata?.references
       }));
       
       // If no messages, add welcome message
@@ -114,7 +117,7 @@ function ChatInterface() {
   
   // Send message mutation
   const { mutate: sendMessage, isPending: isSending } = useMutation({
-    mutationFn: (content: string) => sendChatMessage(userId, content),
+    mutationFn: (content: string) => sendChatMessage(content, threadId),
     onMutate: async (content) => {
       // Optimistically update UI
       const newMessage: ChatMessageProps = {
@@ -134,9 +137,12 @@ function ChatInterface() {
     onSuccess: (response: any) => {
       // Add AI response from server
       const aiMessage: ChatMessageProps = {
+        id: response.aiMessage?.id,
         role: "assistant",
         content: response.aiMessage?.content || t("default_ai_response"),
-        timestamp: new Date(response.aiMessage?.timestamp || Date.now())
+        timestamp: new Date(response.aiMessage?.timestamp || Date.now()),
+        citationIssues: response.aiMessage?.metadata?.citationIssues,
+        references: response.aiMessage?.metadata?.references
       };
       setMessages((prev) => [...prev, aiMessage]);
       
@@ -150,8 +156,13 @@ function ChatInterface() {
       ];
       setSuggestedQuestions(newSuggestions);
       
-      // Invalidate chat history query
-      queryClient.invalidateQueries({ queryKey: ["/api/chat/messages", userId] });
+      // Refresh the thread's history, and its title and position in the thread list
+      if (response.thread && response.thread.id !== threadId) {
+        onThreadChange?.(response.thread.id);
+      }
+      queryClient.invalidateQueries({
+        predicate: (query) => typeof query.queryKey[0] === "string" && (query.queryKey[0] as string).startsWith("/api/chat/threads"),
+      });
       
       // Scroll to bottom
       setTimeout(() => {
@@ -181,6 +192,19 @@ function ChatInterface() {
     }
   });
   
+  // Escalate an answer, starting from the question it replied to
+  const escalate = (index: number) => {
+    const message = messages[index];
+    const asked = messages.slice(0, index).reverse().find(item => item.role === "user");
+    const activeThreadId = threadId;
+    if (!message.id || activeThreadId === null) return;
+    setEscalationTarget({
+      threadId: activeThreadId,
+      messageId: message.id,
+      question: typeof asked?.content === "string" ? asked.content : "",
+    });
+  };
+  
   // Scroll to bottom of chat
   const scrollToBottom = () => {
     if (chatContainerRef.current) {
@@ -238,6 +262,9 @@ function ChatInterface() {
                   role={message.role}
                   content={message.content}
                   timestamp={message.timestamp}
+                  citationIssues={message.citationIssues}
+                  references={message.references}
+                  onEscalate={message.role === "assistant" && message.id && threadId !== null ? () => escalate(index) : undefined}
                 />
               ))}
               
@@ -249,6 +276,8 @@ function ChatInterface() {
       
       {/* Input Area */}
       <ChatInput onSendMessage={sendMessage} isLoading={isSending} />
+      
+      <EscalateQuestionDialog target={escalationTarget} onClose={() => setEscalationTarget(null)} />
     </div>
   );
 }
@@ -1,17 +1,79 @@
 import { ReactNode } from "react";
 import { format } from "date-fns";
+import { Link } from "wouter";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { useAuth } from "@/hooks/use-auth";
 import { cn } from "@/lib/utils";
 
+export interface CitationIssue {
+  text: string;
+  severity: "error" | "warning";
+  message: string;
+  suggestion?: string;
+}
+
+// A knowledge base entry the answer cites inline as [index]
+export interface KnowledgeReference {
+  index: number;
+  type: "knowledge" | "provincial" | "guide";
+  id: number;
+  domainId: number | null;
+  title: string;
+  jurisdiction: string | null;
+  link: string | null;
+}
+
+const REFERENCE_TYPE_LABELS: Record<KnowledgeReference["type"], string> = {
+  knowledge: "Knowledge base",
+  provincial: "Provincial information",
+  guide: "Procedural guide",
+};
+
 export interface ChatMessageProps {
+  id?: number;
   role: "user" | "assistant";
   content: string | ReactNode;
   timestamp?: Date;
   isLoading?: boolean;
+  citationIssues?: CitationIssue[];
+  references?: KnowledgeReference[];
+  onEscalate?: () => void; // Ask a reviewing lawyer about this answer
+}
+
+function SourceLink({ reference, children, className }: { reference: KnowledgeReference; children: ReactNode; className?: string }) {
+  const title = `${REFERENCE_TYPE_LABELS[reference.type]}: ${reference.title}`;
+  if (!reference.link) {
+    return <span className={className} title={title}>{children}</span>;
+  }
+  return (
+    <Link href={reference.link} className={cn("text-primary hover:underline", className)} title={title}>
+      {children}
+    </Link>
+  );
 }
 
-function ChatMessage({ role, content, timestamp, isLoading }: ChatMessageProps) {
+/**
+ * Answer text with each [n] marker linked to the source it cites
+ */
+function withSourceLinks(content: string, references: KnowledgeReference[]): ReactNode {
+  if (references.length === 0) {
+    return content;
+  }
+  return content.split(/(\[\d{1,2}\])/).map((part, index) => {
+    const match = part.match(/^\[(\d{1,2})\]$/);
+    const reference = match && references.find(ref => ref.index === parseInt(match[1]));
+    if (!reference) {
+      return part;
+    }
+    return (
+      <SourceLink key={index} reference={reference} className="align-super text-xs font-medium">
+        {part}
+      </SourceLink>
+    );
+  });
+}
+
+function ChatMessage({ role, content, timestamp, isLoading, citationIssues, references = [], onEscalate }: ChatMessageProps) {
   const { user } = useAuth();
   const formattedTime = timestamp ? format(timestamp, 'h:mm a') : '';
   
@@ -60,15 +122,53 @@ function ChatMessage({ role, content, timestamp, isLoading }: ChatMessageProps)
             )}
           >
             {typeof content === "string" ? (
-              <div className="text-neutral-800 whitespace-pre-line break-words">{content}</div>
+              <div className="text-neutral-800 whitespace-pre-line break-words">{withSourceLinks(content, references)}</div>
             ) : (
               content
             )}
+            {references.length > 0 && (
+              <div className="mt-3 border-t border-neutral-100 pt-2 text-xs">
+                <p className="font-medium text-neutral-600">Sources</p>
+                <ol className="mt-1 space-y-0.5">
+                  {references.map(reference => (
+                    <li key={reference.index} className="flex gap-1">
+                      <span className="text-neutral-500">[{reference.index}]</span>
+                      <SourceLink reference={reference}>
+                        {reference.title}
+                      </SourceLink>
+                      <span className="text-neutral-500">
+                        · {REFERENCE_TYPE_LABELS[reference.type]}{reference.jurisdiction ? `, ${reference.jurisdiction}` : ""}
+                      </span>
+                    </li>
+                  ))}
+                </ol>
+              </div>
+            )}
+            {citationIssues && citationIssues.length > 0 && (
+              <div className="mt-3 rounded-md border border-amber-200 bg-amber-50 p-2 text-xs text-amber-800">
+                <p className="font-medium">Check these citations before relying on them:</p>
+                <ul className="mt-1 list-disc pl-4 space-y-0.5">
+                  {citationIssues.map((issue, index) => (
+                    <li key={index}>
+                      <span className="font-mono">{issue.text}</span>: {issue.message}
+                      {issue.suggestion && <> (did you mean <span className="font-mono">{issue.suggestion}</span>?)</>}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
           </div>
         </div>
-        {timestamp && (
-          <span className="text-xs text-neutral-500 ml-11">{formattedTime}</span>
-        )}
+        <div className="flex items-center gap-3 ml-11">
+          {timestamp && (
+            <span className="text-xs text-neutral-500">{formattedTime}</span>
+          )}
+          {onEscalate && (
+            <button type="button" className="text-xs text-primary hover:underline" onClick={onEscalate}>
+              Ask a lawyer
+            </button>
+          )}
+        </div>
       </div>
     );
   }
@@ -0,0 +1,219 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Archive, ArchiveRestore, Download, MessageSquarePlus, MoreHorizontal, Pencil, Search } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+
+export interface ChatThread {
+  id: number;
+  title: string;
+  summary: string | null;
+  archivedAt: string | null;
+  lastMessageAt: string | null;
+  createdAt: string;
+}
+
+interface ChatThreadListProps {
+  selectedThreadId: number | null;
+  onSelectThread: (threadId: number | null) => void;
+}
+
+const EXPORT_FORMATS = [
+  { format: "markdown", label: "Markdown" },
+  { format: "text", label: "Plain text" },
+  { format: "json", label: "JSON" },
+];
+
+/**
+ * The user's legal assistant conversations, with search, rename, archive and export
+ */
+function ChatThreadList({ selectedThreadId, onSelectThread }: ChatThreadListProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [search, setSearch] = useState("");
+  const [showArchived, setShowArchived] = useState(false);
+  const [renamingId, setRenamingId] = useState<number | null>(null);
+  const [renameValue, setRenameValue] = useState("");
+
+  const params = new URLSearchParams();
+  if (search.trim()) params.set("q", search.trim());
+  if (showArchived) params.set("archived", "true");
+  const query = params.toString();
+
+  const { data: threads = [], isLoading } = useQuery<ChatThread[]>({
+    queryKey: [`/api/chat/threads${query ? `?${query}` : ""}`],
+  });
+
+  // Open the most recent conversation when nothing is selected yet
+  useEffect(() => {
+    if (selectedThreadId === null && !showArchived && !search && threads.length > 0) {
+      onSelectThread(threads[0].id);
+    }
+  }, [threads, selectedThreadId, showArchived, search, onSelectThread]);
+
+  const invalidate = () => queryClient.invalidateQueries({
+    predicate: (q) => typeof q.queryKey[0] === "string" && (q.queryKey[0] as string).startsWith("/api/chat/threads"),
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async () => await apiRequest<ChatThread>("POST", "/api/chat/threads", {}),
+    onSuccess: (thread) => {
+      setShowArchived(false);
+      setSearch("");
+      invalidate();
+      onSelectThread(thread.id);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not start a conversation", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, ...updates }: { id: number; title?: string; archived?: boolean }) =>
+      await apiRequest<ChatThread>("PATCH", `/api/chat/threads/${id}`, updates),
+    onSuccess: (thread, variables) => {
+      invalidate();
+      if (variables.archived && thread.id === selectedThreadId) {
+        onSelectThread(null);
+      }
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not update conversation", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const startRename = (thread: ChatThread) => {
+    setRenamingId(thread.id);
+    setRenameValue(thread.title);
+  };
+
+  const finishRename = () => {
+    const title = renameValue.trim();
+    const thread = threads.find(t => t.id === renamingId);
+    if (thread && title && title !== thread.title) {
+      updateMutation.mutate({ id: thread.id, title });
+    }
+    setRenamingId(null);
+  };
+
+  return (
+    <div className="flex h-full flex-col">
+      <div className="space-y-2 p-3 border-b">
+        <Button
+          className="w-full"
+          size="sm"
+          disabled={createMutation.isPending}
+          onClick={() => createMutation.mutate()}
+        >
+          <MessageSquarePlus className="h-4 w-4 mr-2" />
+          New conversation
+        </Button>
+        <div className="relative">
+          <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+          <Input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search conversations"
+            className="pl-8 h-9"
+          />
+        </div>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-7 w-full justify-start text-xs"
+          onClick={() => setShowArchived(!showArchived)}
+        >
+          <Archive className="h-3.5 w-3.5 mr-1" />
+          {showArchived ? "Show open conversations" : "Show archived"}
+        </Button>
+      </div>
+
+      <ScrollArea className="flex-1">
+        {isLoading ? (
+          <div className="px-4 py-6 text-center text-sm text-muted-foreground">Loading…</div>
+        ) : threads.length === 0 ? (
+          <div className="px-4 py-6 text-center text-sm text-muted-foreground">
+            {search ? "No conversations match your search" : showArchived ? "No archived conversations" : "No conversations yet"}
+          </div>
+        ) : (
+          threads.map(thread => (
+            <div
+              key={thread.id}
+              className={`group flex items-start gap-1 px-3 py-2 border-b last:border-b-0 ${
+                thread.id === selectedThreadId ? "bg-primary/10" : "hover:bg-muted"
+              }`}
+            >
+              {renamingId === thread.id ? (
+                <Input
+                  autoFocus
+                  value={renameValue}
+                  onChange={(e) => setRenameValue(e.target.value)}
+                  onBlur={finishRename}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter") finishRename();
+                    if (e.key === "Escape") setRenamingId(null);
+                  }}
+                  className="h-8 text-sm"
+                />
+              ) : (
+                <button
+                  type="button"
+                  className="min-w-0 flex-1 text-left"
+                  onClick={() => onSelectThread(thread.id)}
+                >
+                  <p className="truncate text-sm font-medium">{thread.title}</p>
+                  <p className="text-[11px] text-muted-foreground">
+                    {formatDistanceToNow(new Date(thread.lastMessageAt || thread.createdAt), { addSuffix: true })}
+                  </p>
+                </button>
+              )}
+
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="ghost" size="icon" className="h-7 w-7 shrink-0" aria-label="Conversation actions">
+                    <MoreHorizontal className="h-4 w-4" />
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  <DropdownMenuItem onClick={() => startRename(thread)}>
+                    <Pencil className="h-4 w-4 mr-2" />
+                    Rename
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => updateMutation.mutate({ id: thread.id, archived: !thread.archivedAt })}>
+                    {thread.archivedAt ? (
+                      <><ArchiveRestore className="h-4 w-4 mr-2" />Restore</>
+                    ) : (
+                      <><Archive className="h-4 w-4 mr-2" />Archive</>
+                    )}
+                  </DropdownMenuItem>
+                  <DropdownMenuSeparator />
+                  {EXPORT_FORMATS.map(({ format, label }) => (
+                    <DropdownMenuItem key={format} asChild>
+                      <a href={`/api/chat/threads/${thread.id}/export?format=${format}`} download>
+                        <Download className="h-4 w-4 mr-2" />
+                        Export as {label}
+                      </a>
+                    </DropdownMenuItem>
+                  ))}
+                </DropdownMenuContent>
+              </DropdownMenu>
+            </div>
+          ))
+        )}
+      </ScrollArea>
+    </div>
+  );
+}
+
+export default ChatThreadList;
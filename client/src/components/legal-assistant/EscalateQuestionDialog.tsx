@@ -0,0 +1,120 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+
+export interface EscalationTarget {
+  threadId: number;
+  messageId: number;
+  question: string; // Pre-filled with the user message the answer replied to
+}
+
+interface EscalateQuestionDialogProps {
+  target: EscalationTarget | null;
+  onClose: () => void;
+}
+
+/**
+ * Send a chat answer to a reviewing lawyer, with the conversation it came from
+ */
+function EscalateQuestionDialog({ target, onClose }: EscalateQuestionDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [question, setQuestion] = useState("");
+  const [additionalInfo, setAdditionalInfo] = useState("");
+  const [urgency, setUrgency] = useState("normal");
+
+  useEffect(() => {
+    setQuestion(target?.question || "");
+    setAdditionalInfo("");
+    setUrgency("normal");
+  }, [target]);
+
+  const escalateMutation = useMutation({
+    mutationFn: async () => await apiRequest("POST", "/api/escalated-questions", {
+      question,
+      additionalInfo: additionalInfo || undefined,
+      urgency,
+      threadId: target!.threadId,
+      messageId: target!.messageId,
+    }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/escalated-questions"] });
+      onClose();
+      toast({
+        title: "Question sent to a lawyer",
+        description: (
+          <>
+            We will notify you when it is answered. Track it in{" "}
+            <Link href="/my-questions" className="underline">My Questions</Link>.
+          </>
+        ),
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not escalate question", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={target !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Ask a lawyer</DialogTitle>
+          <DialogDescription>
+            A reviewing lawyer will check the assistant's answer and reply to you. They will see this conversation.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="escalation-question">Your question</Label>
+            <Textarea id="escalation-question" rows={4} value={question} onChange={(e) => setQuestion(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="escalation-info">Anything else the lawyer should know (optional)</Label>
+            <Textarea id="escalation-info" rows={3} value={additionalInfo} onChange={(e) => setAdditionalInfo(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label>How urgent is it?</Label>
+            <Select value={urgency} onValueChange={setUrgency}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="normal">Normal (within 3 days)</SelectItem>
+                <SelectItem value="high">High (within 24 hours)</SelectItem>
+                <SelectItem value="urgent">Urgent (within 4 hours)</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button
+            disabled={question.trim().length < 5 || escalateMutation.isPending}
+            onClick={() => escalateMutation.mutate()}
+          >
+            Send to a lawyer
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default EscalateQuestionDialog;
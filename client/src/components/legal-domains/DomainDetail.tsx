@@ -1,3 +1,4 @@
+import { useEffect } from 'react';
 import { useLegalDomain, useDomainKnowledge, useProceduralGuides, useLegalSubdomains } from '@/hooks/use-legal-domains';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
@@ -21,6 +22,16 @@ export function DomainDetail({ domainId }: DomainDetailProps) {
   const { data: guides, isLoading: isLoadingGuides, error: guidesError } = useProceduralGuides(domainId);
   const { data: subdomains, isLoading: isLoadingSubdomains, error: subdomainsError } = useLegalSubdomains(domainId);
 
+  // Links to one entry, such as the sources of a chat answer, end in #knowledge-<id> or #guide-<id>
+  const linkedEntry = window.location.hash.slice(1);
+  const defaultTab = linkedEntry.startsWith('knowledge-') ? 'knowledge' : linkedEntry.startsWith('guide-') ? 'guides' : 'subdomains';
+
+  useEffect(() => {
+    if (linkedEntry) {
+      document.getElementById(linkedEntry)?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+    }
+  }, [linkedEntry, knowledge, guides]);
+
   if (isLoadingDomain) {
     return (
       <Card>
@@ -77,7 +88,7 @@ export function DomainDetail({ domainId }: DomainDetailProps) {
         </div>
       </CardHeader>
       <CardContent>
-        <Tabs defaultValue="subdomains">
+        <Tabs defaultValue={defaultTab}>
           <TabsList className="mb-4">
             <TabsTrigger value="subdomains">
               <FolderTree className="h-4 w-4 mr-2" />
@@ -208,7 +219,7 @@ function DomainKnowledge({ knowledge, isLoading, error }: { knowledge: any; isLo
   return (
     <div className="space-y-6">
       {knowledge.map((item: any) => (
-        <div key={item.id} className="rounded-lg border p-4">
+        <div key={item.id} id={`knowledge-${item.id}`} className="rounded-lg border p-4 scroll-mt-20">
           <h3 className="text-lg font-medium">{item.question}</h3>
           <Separator className="my-2" />
           <p className="text-muted-foreground whitespace-pre-line">{item.answer}</p>
@@ -255,7 +266,7 @@ function ProceduralGuides({ guides, isLoading, error }: { guides: any; isLoading
   return (
     <div className="space-y-6">
       {guides.map((guide: any) => (
-        <Card key={guide.id}>
+        <Card key={guide.id} id={`guide-${guide.id}`} className="scroll-mt-20">
           <CardHeader>
             <CardTitle>{guide.title}</CardTitle>
             <CardDescription>{guide.description}</CardDescription>
@@ -1,5 +1,5 @@
 import { useState } from "react";
-import { useMutation } from "@tanstack/react-query";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
@@ -51,12 +51,22 @@ const PRACTICE_AREAS = [
   { value: "aboriginal", label: "Aboriginal Law" }
 ];
 
+interface Provenance {
+  source: 'corpus' | 'ai' | 'citation';
+  label: string;
+  verified: boolean;
+  reference?: string;
+  note?: string;
+}
+
 interface LawReference {
   title: string;
   description: string;
   source: string;
   url?: string;
   relevanceScore?: number;
+  provenance?: Provenance[];
+  verified?: boolean;
 }
 
 interface CaseReference {
@@ -68,6 +78,29 @@ interface CaseReference {
   judgment?: string;
   keyPoints?: string[];
   url?: string;
+  provenance?: Provenance[];
+  verified?: boolean;
+  formattedCitation?: string;
+  citationIssues?: CitationIssue[];
+}
+
+interface CitationIssue {
+  text: string;
+  severity: 'error' | 'warning';
+  message: string;
+  suggestion?: string;
+}
+
+interface SavedCitation {
+  id: number;
+  name: string;
+  citation: string;
+  court: string | null;
+  year: number | null;
+  jurisdiction: string | null;
+  formattedCitation: string | null;
+  sourceUrl: string | null;
+  citationIssues?: CitationIssue[];
 }
 
 interface LegalConcept {
@@ -76,11 +109,46 @@ interface LegalConcept {
   relevance: string;
 }
 
+interface SourceStatus {
+  id: string;
+  label: string;
+  status: 'ok' | 'empty' | 'unavailable' | 'failed';
+  items: number;
+  message?: string;
+}
+
 interface ResearchResults {
   relevantLaws: LawReference[];
   relevantCases: CaseReference[];
   summary: string;
   legalConcepts?: LegalConcept[];
+  sources?: SourceStatus[];
+  citationIssues?: CitationIssue[];
+}
+
+// Where an authority came from; anything only the AI suggested is flagged as unverified
+function ProvenanceBadges({ provenance }: { provenance?: Provenance[] }) {
+  if (!provenance || provenance.length === 0) {
+    return null;
+  }
+  const verified = provenance.filter(entry => entry.verified);
+  if (verified.length === 0) {
+    const note = provenance.map(entry => entry.note).filter(Boolean).join(' ');
+    return (
+      <Badge variant="outline" className="bg-amber-50 text-amber-800 border-amber-200" title={note}>
+        {provenance.some(entry => entry.source === 'ai') ? 'AI-generated – unverified' : 'Unverified'}
+      </Badge>
+    );
+  }
+  return (
+    <>
+      {verified.map((entry, index) => (
+        <Badge key={index} variant="outline" className="bg-green-50 text-green-700 border-green-200">
+          Verified: {entry.label}
+        </Badge>
+      ))}
+    </>
+  );
 }
 
 // Function to perform legal research
@@ -124,7 +192,10 @@ function SearchInterface() {
   const [practiceArea, setPracticeArea] = useState("all");
   const [searchResults, setSearchResults] = useState<ResearchResults | null>(null);
   const [searchHistory, setSearchHistory] = useState<string[]>([]);
-  const [savedCitations, setSavedCitations] = useState<{name: string, citation: string}[]>([]);
+  const queryClient = useQueryClient();
+  const { data: savedCitations = [] } = useQuery<SavedCitation[]>({
+    queryKey: ['/api/saved-citations'],
+  });
   
   // Search mutation
   const { mutate: search, isPending } = useMutation({
@@ -196,9 +267,25 @@ function SearchInterface() {
     search(query);
   };
 
-  const saveCitation = (name: string, citation: string) => {
-    setSavedCitations(prev => [...prev, {name, citation}]);
-  };
+  const { mutate: saveCitation } = useMutation({
+    mutationFn: async (caseItem: CaseReference) => await apiRequest<SavedCitation>('POST', '/api/saved-citations', {
+      name: caseItem.name,
+      citation: caseItem.citation,
+      sourceUrl: caseItem.url,
+    }),
+    onSuccess: (saved: SavedCitation) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/saved-citations'] });
+      const problem = saved.citationIssues?.find(issue => issue.severity === 'error');
+      toast({
+        title: "Citation saved",
+        description: problem ? `Check this citation: ${problem.message}` : saved.formattedCitation || saved.citation,
+        variant: problem ? "destructive" : "default"
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not save citation", description: error.message, variant: "destructive" });
+    },
+  });
   
   return (
     <div className="space-y-6">
@@ -322,10 +409,15 @@ function SearchInterface() {
                 {savedCitations.length > 0 ? (
                   <ScrollArea className="h-24">
                     <div className="space-y-2">
-                      {savedCitations.map((citation, i) => (
-                        <div key={i} className="text-xs p-2 border rounded-md">
+                      {savedCitations.map(citation => (
+                        <div key={citation.id} className="text-xs p-2 border rounded-md">
                           <p className="font-medium">{citation.name}</p>
-                          <p className="text-neutral-600">{citation.citation}</p>
+                          <p className="text-neutral-600">{citation.formattedCitation || citation.citation}</p>
+                          {(citation.court || citation.year) && (
+                            <p className="text-neutral-400">
+                              {[citation.court, citation.year, citation.jurisdiction].filter(Boolean).join(' · ')}
+                            </p>
+                          )}
                         </div>
                       ))}
                     </div>
@@ -352,6 +444,25 @@ function SearchInterface() {
             </CardHeader>
             <CardContent>
               <p className="text-neutral-700">{searchResults.summary}</p>
+              {searchResults.citationIssues && searchResults.citationIssues.length > 0 && (
+                <ul className="mt-3 text-xs text-amber-800 bg-amber-50 border border-amber-200 rounded-md p-2 space-y-0.5">
+                  {searchResults.citationIssues.map((issue, i) => (
+                    <li key={i}>
+                      {issue.text}: {issue.message}
+                      {issue.suggestion && ` (did you mean ${issue.suggestion}?)`}
+                    </li>
+                  ))}
+                </ul>
+              )}
+              {searchResults.sources && searchResults.sources.some(source => source.status === 'unavailable' || source.status === 'failed') && (
+                <p className="mt-3 text-xs text-neutral-500">
+                  Not available for this search:{' '}
+                  {searchResults.sources
+                    .filter(source => source.status === 'unavailable' || source.status === 'failed')
+                    .map(source => source.label)
+                    .join(', ')}
+                </p>
+              )}
             </CardContent>
           </Card>
           
@@ -376,6 +487,9 @@ function SearchInterface() {
                             </Badge>
                           )}
                         </div>
+                        <div className="mt-1 flex flex-wrap gap-1">
+                          <ProvenanceBadges provenance={law.provenance} />
+                        </div>
                         <p className="text-neutral-600 text-sm mt-1">{law.description}</p>
                         <div className="mt-2 text-xs text-neutral-500 flex justify-between">
                           <span><span className="font-medium">Source:</span> {law.source}</span>
@@ -415,9 +529,22 @@ function SearchInterface() {
                           )}
                         </div>
                         <div className="mt-1 text-xs text-neutral-500 flex items-center gap-3">
-                          <span><span className="font-medium">Citation:</span> {caseItem.citation}</span>
+                          <span><span className="font-medium">Citation:</span> {caseItem.formattedCitation || caseItem.citation}</span>
                           {caseItem.year && <span><span className="font-medium">Year:</span> {caseItem.year}</span>}
                         </div>
+                        <div className="mt-1 flex flex-wrap gap-1">
+                          <ProvenanceBadges provenance={caseItem.provenance} />
+                        </div>
+                        {caseItem.citationIssues && caseItem.citationIssues.length > 0 && (
+                          <ul className="mt-2 text-xs text-amber-800 bg-amber-50 border border-amber-200 rounded-md p-2 space-y-0.5">
+                            {caseItem.citationIssues.map((issue, i) => (
+                              <li key={i}>
+                                {issue.severity === 'error' ? 'Citation problem' : 'Citation style'}: {issue.message}
+                                {issue.suggestion && ` (did you mean ${issue.suggestion}?)`}
+                              </li>
+                            ))}
+                          </ul>
+                        )}
                         <p className="text-neutral-600 text-sm mt-2">{caseItem.relevance}</p>
                         
                         {caseItem.keyPoints && caseItem.keyPoints.length > 0 && (
@@ -443,7 +570,7 @@ function SearchInterface() {
                             variant="outline" 
                             size="sm" 
                             className="text-xs h-7"
-                            onClick={() => saveCitation(caseItem.name, caseItem.citation)}
+                            onClick={() => saveCitation(caseItem)}
                           >
                             <span className="material-icons text-xs mr-1">bookmark</span>
                             Save Citation
@@ -0,0 +1,151 @@
+import React, { useEffect, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { BellPlus, Loader2 } from 'lucide-react';
+import type { UserCourtProcedure } from '@shared/schema';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import type { ProcedureTimeline } from './TimelineEstimator';
+
+interface AttachTimelineRemindersProps {
+  timeline: ProcedureTimeline;
+}
+
+const notifyBeforeOptions = [
+  { value: '1', label: '1 day before' },
+  { value: '2', label: '2 days before' },
+  { value: '3', label: '3 days before' },
+  { value: '7', label: '1 week before' },
+];
+
+const notifyMethods = [
+  { value: 'app', label: 'In the app' },
+  { value: 'email', label: 'By email' },
+  { value: 'both', label: 'In the app and by email' },
+];
+
+/**
+ * Turns the timeline into reminders on one of the user's tracked procedures,
+ * starting to track the procedure first if needed. Steps the user has already
+ * completed are left out, and reminders from an earlier timeline are updated.
+ */
+const AttachTimelineReminders: React.FC<AttachTimelineRemindersProps> = ({ timeline }) => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [userProcedureId, setUserProcedureId] = useState('');
+  const [notifyBefore, setNotifyBefore] = useState('2');
+  const [notifyMethod, setNotifyMethod] = useState('app');
+
+  const { data: userProcedures = [], isLoading } = useQuery<UserCourtProcedure[]>({
+    queryKey: ['/api/court-procedures/user'],
+  });
+
+  const tracked = userProcedures.filter(
+    procedure => procedure.procedureId === timeline.procedureId && procedure.status === 'active'
+  );
+
+  useEffect(() => {
+    if (!userProcedureId && tracked.length > 0) {
+      setUserProcedureId(String(tracked[0].id));
+    }
+  }, [tracked.length]);
+
+  const attachMutation = useMutation({
+    mutationFn: async () => {
+      let targetId = userProcedureId;
+      if (!targetId) {
+        const created = await apiRequest<UserCourtProcedure>('POST', '/api/court-procedures/user', {
+          procedureId: timeline.procedureId,
+          title: timeline.procedureName,
+        });
+        targetId = String(created.id);
+      }
+      const result = await apiRequest<{ reminders: unknown[] }>('POST', `/api/court-procedures/user/${targetId}/timeline`, {
+        jurisdiction: timeline.jurisdiction,
+        startDate: timeline.startDate,
+        includeOptional: timeline.includeOptional,
+        notifyBefore: parseInt(notifyBefore),
+        notifyMethod,
+      });
+      return { targetId, count: result.reminders.length };
+    },
+    onSuccess: ({ targetId, count }) => {
+      setUserProcedureId(targetId);
+      queryClient.invalidateQueries({ queryKey: ['/api/court-procedures/user'] });
+      queryClient.invalidateQueries({ queryKey: [`/api/court-procedures/user/${targetId}/reminders`] });
+      toast({
+        title: 'Reminders added',
+        description: count === 0
+          ? 'Every remaining step is already past, so no reminders were needed.'
+          : `${count} reminder${count === 1 ? '' : 's'} added for the remaining steps.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Could not add reminders', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  return (
+    <div className="mb-6 border rounded-md p-4 space-y-4">
+      <div>
+        <h3 className="text-sm font-medium">Get reminders for this timeline</h3>
+        <p className="text-sm text-muted-foreground">
+          Each remaining step becomes a reminder, due on the earliest date it could be completed.
+        </p>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-3">
+        <div className="space-y-2">
+          <Label>Procedure</Label>
+          <Select value={userProcedureId} onValueChange={setUserProcedureId} disabled={isLoading || tracked.length === 0}>
+            <SelectTrigger>
+              <SelectValue placeholder="Start tracking this procedure" />
+            </SelectTrigger>
+            <SelectContent>
+              {tracked.map(procedure => (
+                <SelectItem key={procedure.id} value={String(procedure.id)}>
+                  {procedure.title}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label>Remind me</Label>
+          <Select value={notifyBefore} onValueChange={setNotifyBefore}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {notifyBeforeOptions.map(option => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label>Notify</Label>
+          <Select value={notifyMethod} onValueChange={setNotifyMethod}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {notifyMethods.map(option => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <Button variant="secondary" disabled={isLoading || attachMutation.isPending} onClick={() => attachMutation.mutate()}>
+        {attachMutation.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <BellPlus className="h-4 w-4 mr-2" />}
+        {userProcedureId ? 'Add Reminders' : 'Track Procedure and Add Reminders'}
+      </Button>
+    </div>
+  );
+};
+
+export default AttachTimelineReminders;
@@ -82,14 +82,55 @@ export function useProceduralGuides(domainId: number | null, language?: string)
   });
 }
 
-// Hook to search domain knowledge
-export function useSearchDomainKnowledge(query: string, domainId?: number, language?: string) {
-  let searchParams = `?q=${encodeURIComponent(query)}`;
-  if (domainId) searchParams += `&domainId=${domainId}`;
-  if (language) searchParams += `&language=${language}`;
+export type KnowledgeResultType = 'knowledge' | 'provincial' | 'guide';
+
+export interface KnowledgeSearchFilters {
+  domainId?: number;
+  language?: string;
+  jurisdictions?: string[];
+  tags?: string[];
+  types?: KnowledgeResultType[];
+  page?: number;
+  pageSize?: number;
+}
+
+export interface KnowledgeSearchResult {
+  type: KnowledgeResultType;
+  id: number;
+  domainId: number | null;
+  title: string;
+  snippet: string; // Escaped HTML with matches wrapped in <mark>
+  jurisdiction: string | null;
+  tags: string[];
+  rank: number;
+}
+
+export interface KnowledgeSearchResponse {
+  query: string;
+  language: 'en' | 'fr';
+  results: KnowledgeSearchResult[];
+  counts: Record<KnowledgeResultType, number>;
+  pagination: {
+    page: number;
+    pageSize: number;
+    total: number;
+    totalPages: number;
+  };
+}
+
+// Hook to search domain knowledge, provincial information and procedural guides
+export function useSearchDomainKnowledge(query: string, filters: KnowledgeSearchFilters = {}) {
+  const params = new URLSearchParams({ q: query });
+  if (filters.domainId) params.set('domainId', String(filters.domainId));
+  if (filters.language) params.set('language', filters.language);
+  if (filters.jurisdictions?.length) params.set('jurisdiction', filters.jurisdictions.join(','));
+  if (filters.tags?.length) params.set('tags', filters.tags.join(','));
+  if (filters.types?.length) params.set('type', filters.types.join(','));
+  if (filters.page) params.set('page', String(filters.page));
+  if (filters.pageSize) params.set('pageSize', String(filters.pageSize));
   
-  return useQuery({
-    queryKey: query ? [`/api/knowledge/search${searchParams}`] : [""],
+  return useQuery<KnowledgeSearchResponse>({
+    queryKey: query ? [`/api/knowledge/search?${params.toString()}`] : [""],
     enabled: query.length >= 3, // Only search if query is at least 3 characters
   });
 }
\ No newline at end of file
@@ -0,0 +1,227 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+
+// Keep in sync with MEDIATION_WS_PATH in server/lib/mediationRealtime.ts
+const MEDIATION_WS_PATH = "/ws/mediation";
+
+// Typing indicators are dropped if no update arrives within this window
+const TYPING_TIMEOUT_MS = 6000;
+const MAX_RECONNECT_DELAY_MS = 15000;
+
+export interface RealtimeMediationMessage {
+  id: number;
+  sessionId: number;
+  userId: number | null;
+  role: string;
+  content: string;
+  sentiment?: string | null;
+  readBy?: number[] | null;
+  createdAt: string;
+}
+
+type ServerEvent =
+  | { type: "joined"; sessionCode: string; sessionId: number; participants: number[] }
+  | { type: "presence"; userId: number; status: "joined" | "left"; participants: number[] }
+  | { type: "message"; message: RealtimeMediationMessage }
+  | { type: "typing"; userId: number; isTyping: boolean }
+  | { type: "read"; userId: number; messageIds: number[] }
+  | { type: "ai_stream_start"; streamId: string }
+  | { type: "ai_stream_delta"; streamId: string; delta: string }
+  | { type: "ai_stream_end"; streamId: string; message: RealtimeMediationMessage }
+  | { type: "error"; message: string };
+
+export type MediationSocketStatus = "connecting" | "connected" | "disconnected";
+
+interface MediationSessionRef {
+  id: number;
+  sessionCode: string;
+}
+
+/**
+ * Live connection to a mediation session room. Incoming messages and read
+ * receipts are merged into the cached session details query, so the page
+ * renders them without refetching.
+ */
+export function useMediationSocket(session: MediationSessionRef | null | undefined) {
+  const queryClient = useQueryClient();
+  const socketRef = useRef<WebSocket | null>(null);
+  const typingTimers = useRef<Map<number, ReturnType<typeof setTimeout>>>(new Map());
+  const [status, setStatus] = useState<MediationSocketStatus>("disconnected");
+  const [participants, setParticipants] = useState<number[]>([]);
+  const [typingUserIds, setTypingUserIds] = useState<number[]>([]);
+  const [streamingReply, setStreamingReply] = useState<{ streamId: string; content: string } | null>(null);
+
+  const sessionId = session?.id;
+  const sessionCode = session?.sessionCode;
+
+  const updateMessages = useCallback(
+    (update: (messages: RealtimeMediationMessage[]) => RealtimeMediationMessage[]) => {
+      queryClient.setQueryData(
+        ["/api/mediation-sessions", sessionId, "details"],
+        (details: any) => {
+          if (!details || !Array.isArray(details.messages)) return details;
+          return { ...details, messages: update(details.messages) };
+        }
+      );
+    },
+    [queryClient, sessionId]
+  );
+
+  const appendMessage = useCallback(
+    (message: RealtimeMediationMessage) => {
+      updateMessages((messages) =>
+        messages.some((existing) => existing.id === message.id) ? messages : [...messages, message]
+      );
+    },
+    [updateMessages]
+  );
+
+  const setTyping = useCallback((userId: number, isTyping: boolean) => {
+    const timer = typingTimers.current.get(userId);
+    if (timer) clearTimeout(timer);
+    typingTimers.current.delete(userId);
+
+    if (isTyping) {
+      typingTimers.current.set(
+        userId,
+        setTimeout(() => setTyping(userId, false), TYPING_TIMEOUT_MS)
+      );
+    }
+    setTypingUserIds((current) => {
+      const without = current.filter((id) => id !== userId);
+      return isTyping ? [...without, userId] : without;
+    });
+  }, []);
+
+  const handleEvent = useCallback(
+    (event: ServerEvent) => {
+      switch (event.type) {
+        case "joined":
+        case "presence":
+          setParticipants(event.participants);
+          if (event.type === "presence" && event.status === "left") {
+            setTyping(event.userId, false);
+          }
+          break;
+        case "message":
+          appendMessage(event.message);
+          if (event.message.userId) setTyping(event.message.userId, false);
+          break;
+        case "typing":
+          setTyping(event.userId, event.isTyping);
+          break;
+        case "read":
+          updateMessages((messages) =>
+            messages.map((message) => {
+              if (!event.messageIds.includes(message.id)) return message;
+              const readBy = Array.isArray(message.readBy) ? message.readBy : [];
+              return readBy.includes(event.userId)
+                ? message
+                : { ...message, readBy: [...readBy, event.userId] };
+            })
+          );
+          break;
+        case "ai_stream_start":
+          setStreamingReply({ streamId: event.streamId, content: "" });
+          break;
+        case "ai_stream_delta":
+          setStreamingReply((current) =>
+            current && current.streamId === event.streamId
+              ? { ...current, content: current.content + event.delta }
+              : { streamId: event.streamId, content: event.delta }
+          );
+          break;
+        case "ai_stream_end":
+          appendMessage(event.message);
+          setStreamingReply((current) => (current?.streamId === event.streamId ? null : current));
+          break;
+        case "error":
+          console.warn("Mediation socket error:", event.message);
+          break;
+      }
+    },
+    [appendMessage, setTyping, updateMessages]
+  );
+
+  useEffect(() => {
+    if (!sessionCode) return;
+
+    let closedByEffect = false;
+    let reconnectAttempts = 0;
+    let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const connect = () => {
+      const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+      const socket = new WebSocket(`${protocol}//${window.location.host}${MEDIATION_WS_PATH}`);
+      socketRef.current = socket;
+      setStatus("connecting");
+
+      socket.onopen = () => {
+        reconnectAttempts = 0;
+        setStatus("connected");
+        socket.send(JSON.stringify({ type: "join", sessionCode }));
+      };
+
+      socket.onmessage = (event) => {
+        try {
+          handleEvent(JSON.parse(event.data) as ServerEvent);
+        } catch (error) {
+          console.warn("Ignoring malformed mediation event:", error);
+        }
+      };
+
+      socket.onclose = () => {
+        socketRef.current = null;
+        setStatus("disconnected");
+        setParticipants([]);
+        if (closedByEffect) return;
+
+        // Reconnect with exponential backoff and refetch anything missed
+        const delay = Math.min(1000 * 2 ** reconnectAttempts, MAX_RECONNECT_DELAY_MS);
+        reconnectAttempts++;
+        reconnectTimer = setTimeout(() => {
+          queryClient.invalidateQueries({ queryKey: ["/api/mediation-sessions", sessionId, "details"] });
+          connect();
+        }, delay);
+      };
+    };
+
+    connect();
+
+    return () => {
+      closedByEffect = true;
+      if (reconnectTimer) clearTimeout(reconnectTimer);
+      socketRef.current?.close();
+      socketRef.current = null;
+      typingTimers.current.forEach((timer) => clearTimeout(timer));
+      typingTimers.current.clear();
+      setTypingUserIds([]);
+      setStreamingReply(null);
+    };
+  }, [sessionCode, sessionId, handleEvent, queryClient]);
+
+  const send = useCallback((payload: object) => {
+    const socket = socketRef.current;
+    if (socket && socket.readyState === WebSocket.OPEN) {
+      socket.send(JSON.stringify(payload));
+    }
+  }, []);
+
+  const sendTyping = useCallback((isTyping: boolean) => send({ type: "typing", isTyping }), [send]);
+
+  const markRead = useCallback(
+    (messageIds: number[]) => {
+      if (messageIds.length > 0) send({ type: "read", messageIds });
+    },
+    [send]
+  );
+
+  return {
+    status,
+    participants,
+    typingUserIds,
+    streamingReply,
+    sendTyping,
+    markRead,
+  };
+}
@@ -1,4 +1,5 @@
 import React, { createContext, useContext, ReactNode, useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
 import { useAuth } from '@/hooks/use-auth';
 import { useSubscription } from '@/hooks/use-subscription';
 import { useToast } from '@/hooks/use-toast';
@@ -17,7 +18,19 @@ export type PermissionKey =
   | 'compliance:check'
   | 'notarization:access'
   | 'billing:access'
-  | 'admin:access';
+  | RolePermissionKey;
+
+// Permissions granted by the user's role in the roles table (server/lib/permissions.ts)
+export type RolePermissionKey =
+  | 'admin:access'
+  | 'users:manage'
+  | 'roles:manage'
+  | 'system:manage'
+  | 'templates:publish'
+  | 'feedback:respond'
+  | 'escalations:answer'
+  | 'dispute:mediate'
+  | 'cost_rates:manage';
 
 // Context type
 type PermissionsContextType = {
@@ -26,6 +39,7 @@ type PermissionsContextType = {
   userRole: string;
   isAdmin: boolean;
   isModerator: boolean;
+  isLoading: boolean;
 };
 
 // Create context
@@ -46,6 +60,12 @@ export function PermissionsProvider({ children }: PermissionsProviderProps) {
   const isAdmin = useMemo(() => userRole === 'admin', [userRole]);
   const isModerator = useMemo(() => userRole === 'moderator', [userRole]);
 
+  // Role permissions are resolved on the server from the roles table
+  const { data: rolePermissions, isLoading } = useQuery<{ role: string; permissions: RolePermissionKey[] }>({
+    queryKey: ['/api/user/permissions'],
+    enabled: !!user,
+  });
+
   // Determine permissions based on user role only (subscription checks removed)
   const permissions = useMemo(() => {
     const perms: PermissionKey[] = [];
@@ -66,13 +86,13 @@ export function PermissionsProvider({ children }: PermissionsProviderProps) {
       perms.push('billing:access');
     }
     
-    // Admin permissions
-    if (isAdmin) {
-      perms.push('admin:access');
+    // Permissions from the user's role
+    if (user && rolePermissions) {
+      perms.push(...rolePermissions.permissions);
     }
     
     return perms;
-  }, [user, isAdmin]);
+  }, [user, rolePermissions]);
 
   // Check if user has a specific permission
   const hasPermission = (permission: PermissionKey): boolean => {
@@ -84,7 +104,8 @@ export function PermissionsProvider({ children }: PermissionsProviderProps) {
     permissions,
     userRole,
     isAdmin,
-    isModerator
+    isModerator,
+    isLoading: !!user && isLoading
   };
 
   return (
@@ -111,22 +132,32 @@ export function withPermissionCheck<P extends object>(
 ) {
   // Create a named component for better debugging
   function WithPermissionCheck(props: P) {
-    const { hasPermission } = usePermissions();
+    const { hasPermission, isLoading } = usePermissions();
+    const { user } = useAuth();
     const { toast } = useToast();
     const [, navigate] = useLocation();
     
-    // All permissions are now granted to authenticated users, 
-    // so this check is just a safeguard
+    // Wait for the role's permissions before deciding to redirect
     React.useEffect(() => {
-      if (!hasPermission(requiredPermission)) {
+      if (isLoading || hasPermission(requiredPermission)) {
+        return;
+      }
+      if (!user) {
         toast({
           title: "Authentication Required",
           description: "You must be logged in to access this feature.",
           variant: "destructive",
         });
         navigate('/auth');
+      } else {
+        toast({
+          title: "Access Denied",
+          description: "Your role does not have permission to access this page.",
+          variant: "destructive",
+        });
+        navigate(redirectPath);
       }
-    }, [hasPermission, navigate, toast]);
+    }, [hasPermission, isLoading, navigate, toast, user]);
     
     // If permission check passes, render the wrapped component
     if (hasPermission(requiredPermission)) {
@@ -321,4 +321,75 @@ export const printDocument = async (content: string, title: string = 'Document')
     console.error('Error printing document:', error);
     throw new Error(`Print failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
-};
\ No newline at end of file
+};
+
+/**
+ * Export a document as DOCX or RTF using the server-side exporter
+ * @param format The file format to produce
+ * @param options The saved document ID, or the content and title of an unsaved document
+ * @returns Promise that resolves with a boolean indicating success
+ */
+export const exportFromServer = async (
+  format: 'docx' | 'rtf',
+  options: { documentId?: number; content: string; title: string; language?: string }
+): Promise<boolean> => {
+  try {
+    console.log(`Requesting ${format} export for "${options.title}"`);
+    
+    // Saved documents are exported by ID; unsaved content is posted directly
+    const response = options.documentId
+      ? await fetch(`/api/documents/${options.documentId}/export?format=${format}`, {
+          credentials: 'include'
+        })
+      : await fetch('/api/documents/export', {
+          method: 'POST',
+          credentials: 'include',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            format,
+            content: options.content,
+            title: options.title,
+            language: options.language
+          })
+        });
+    
+    if (!response.ok) {
+      let message = response.statusText;
+      try {
+        const data = await response.json();
+        message = data.message || message;
+      } catch {
+        // Non-JSON error body, keep the status text
+      }
+      throw new Error(`${response.status}: ${message}`);
+    }
+    
+    // Prefer the server-provided file name from Content-Disposition
+    const disposition = response.headers.get('Content-Disposition') || '';
+    const fileNameMatch = disposition.match(/filename="([^"]+)"/);
+    const filename = fileNameMatch ? fileNameMatch[1] : `document.${format}`;
+    
+    const blob = await response.blob();
+    const url = URL.createObjectURL(blob);
+    
+    const downloadLink = document.createElement('a');
+    downloadLink.href = url;
+    downloadLink.download = filename;
+    downloadLink.style.display = 'none';
+    
+    document.body.appendChild(downloadLink);
+    downloadLink.click();
+    
+    // Small delay before cleanup to ensure the download starts
+    await new Promise(resolve => setTimeout(resolve, 100));
+    
+    document.body.removeChild(downloadLink);
+    URL.revokeObjectURL(url);
+    
+    console.log(`${format.toUpperCase()} export complete: "${filename}"`);
+    return true;
+  } catch (error) {
+    console.error(`Error exporting document as ${format}:`, error);
+    throw new Error(`Failed to export as ${format.toUpperCase()}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+};
@@ -104,6 +104,8 @@ export const translations: Translations = {
     learn_more: "Learn More",
     get_started: "Get Started",
     download_pdf: "Download PDF",
+    download_document: "Download",
+    open_document: "Open",
     view_transcript: "View Transcript", 
     key_concepts_covered: "Key Concepts Covered",
     watch_video: "Watch Video",
@@ -238,6 +240,40 @@ export const translations: Translations = {
     report_components_description: "Key sections in your contract analysis report",
     risk_categories_description: "Understanding contract risk levels and examples",
     common_pitfalls_description: "Common issues to watch for in contracts",
+    clause_location: "Section {{section}}, characters {{start}}–{{end}}",
+    clause_location_approximate: "Section {{section}} (exact position not found)",
+    analysis_partial_coverage: "{{failed}} of {{total}} sections of this contract could not be analyzed. These results do not cover the whole document.",
+    first_contract: "First contract",
+    second_contract: "Second contract",
+    potential_impact: "Potential impact",
+    clause_redline: "Clause-by-Clause Redline",
+    clause_redline_description: "Clauses aligned between both versions, with word-level changes",
+    clause_redline_unnumbered: "No clause numbers were found, so paragraphs are compared instead.",
+    show_unchanged_clauses: "Show unchanged clauses",
+    no_clause_changes: "No clause changes found",
+    change_unchanged: "Unchanged",
+    change_modified: "Modified",
+    change_moved: "Moved",
+    change_added: "Added",
+    change_removed: "Removed",
+    clause_label: "Clause {{number}}",
+    preamble: "Preamble",
+    not_in_first_contract: "Not in the first contract",
+    removed_in_second_contract: "Removed in the second contract",
+    version_history: "Version History",
+    version_history_description: "{{count}} versions of this contract, newest first",
+    single_version_description: "This is the first version of this contract. Save a revised version to track how its risks change.",
+    version_label: "v{{version}}",
+    version_count: "{{count}} versions",
+    view_version: "View",
+    changes_since_version: "Changes since v{{version}}",
+    risks_resolved: "Resolved",
+    risks_introduced: "Introduced",
+    risks_carried_over: "Carried over",
+    save_as_version_of: "Save as a new version of",
+    new_contract_matter: "New contract",
+    party_number: "Party {{number}}",
+    add_party: "Add party",
     expert_tips_description: "Expert tips for effective contract review",
     ready_to_analyze_description: "Ready to analyze your contract for potential issues and improvements",
     
@@ -374,6 +410,11 @@ export const translations: Translations = {
     mediator: "Mediator",
     you: "You",
     other_party: "Other Party",
+    live: "Live",
+    reconnecting: "Reconnecting...",
+    seen: "Seen",
+    participant_typing: "Someone is typing...",
+    participants_typing: "Several participants are typing...",
     status: "Status",
     created: "Created",
     updated: "Updated",
@@ -496,6 +537,8 @@ export const translations: Translations = {
     learn_more: "En Savoir Plus",
     get_started: "Commencer",
     download_pdf: "Télécharger PDF",
+    download_document: "Télécharger",
+    open_document: "Ouvrir",
     view_transcript: "Voir la Transcription", 
     key_concepts_covered: "Concepts Clés Abordés",
     watch_video: "Regarder la Vidéo",
@@ -630,6 +673,40 @@ export const translations: Translations = {
     report_components_description: "Sections clés de votre rapport d'analyse de contrat",
     risk_categories_description: "Comprendre les niveaux de risque contractuel et exemples",
     common_pitfalls_description: "Problèmes courants à surveiller dans les contrats",
+    clause_location: "Section {{section}}, caractères {{start}}–{{end}}",
+    clause_location_approximate: "Section {{section}} (position exacte introuvable)",
+    analysis_partial_coverage: "{{failed}} des {{total}} sections de ce contrat n'ont pas pu être analysées. Ces résultats ne couvrent pas l'ensemble du document.",
+    first_contract: "Premier contrat",
+    second_contract: "Second contrat",
+    potential_impact: "Impact potentiel",
+    clause_redline: "Comparaison clause par clause",
+    clause_redline_description: "Clauses alignées entre les deux versions, avec les modifications mot à mot",
+    clause_redline_unnumbered: "Aucun numéro de clause n'a été trouvé; les paragraphes sont donc comparés.",
+    show_unchanged_clauses: "Afficher les clauses inchangées",
+    no_clause_changes: "Aucune modification de clause",
+    change_unchanged: "Inchangée",
+    change_modified: "Modifiée",
+    change_moved: "Déplacée",
+    change_added: "Ajoutée",
+    change_removed: "Supprimée",
+    clause_label: "Clause {{number}}",
+    preamble: "Préambule",
+    not_in_first_contract: "Absente du premier contrat",
+    removed_in_second_contract: "Supprimée dans le second contrat",
+    version_history: "Historique des versions",
+    version_history_description: "{{count}} versions de ce contrat, de la plus récente à la plus ancienne",
+    single_version_description: "Ceci est la première version de ce contrat. Enregistrez une version révisée pour suivre l'évolution de ses risques.",
+    version_label: "v{{version}}",
+    version_count: "{{count}} versions",
+    view_version: "Afficher",
+    changes_since_version: "Changements depuis la v{{version}}",
+    risks_resolved: "Résolus",
+    risks_introduced: "Introduits",
+    risks_carried_over: "Reportés",
+    save_as_version_of: "Enregistrer comme nouvelle version de",
+    new_contract_matter: "Nouveau contrat",
+    party_number: "Partie {{number}}",
+    add_party: "Ajouter une partie",
     expert_tips_description: "Conseils d'experts pour une révision efficace des contrats",
     ready_to_analyze_description: "Prêt à analyser votre contrat pour identifier les problèmes potentiels et les améliorations",
     
@@ -766,6 +843,11 @@ export const translations: Translations = {
     mediator: "Médiateur",
     you: "Vous",
     other_party: "Autre Partie",
+    live: "En direct",
+    reconnecting: "Reconnexion...",
+    seen: "Vu",
+    participant_typing: "Quelqu'un est en train d'écrire...",
+    participants_typing: "Plusieurs participants sont en train d'écrire...",
     status: "Statut",
     created: "Créé",
     updated: "Mis à jour",
@@ -6,12 +6,12 @@ import { apiRequest } from "./queryClient";
 
 /**
  * Send a chat message to the AI assistant
- * @param userId The user ID
  * @param content The message content
+ * @param threadId The conversation thread; the most recent one if omitted
  */
-export const sendChatMessage = async (userId: number, content: string) => {
+export const sendChatMessage = async (content: string, threadId?: number | null) => {
   return await apiRequest("POST", "/api/chat/messages", {
-    userId,
+    threadId: threadId || undefined,
     role: "user",
     content,
   });
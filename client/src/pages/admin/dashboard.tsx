@@ -1,9 +1,10 @@
 import React from 'react';
 import { withPermissionCheck } from '@/hooks/use-permissions';
-import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { CacheManager } from '@/components/admin/cache-manager';
+import { RoleManager, UserRoleManager } from '@/components/admin/role-manager';
+import { CostRateManager } from '@/components/admin/cost-rate-manager';
 import { 
   Users, 
   FileText, 
@@ -179,12 +180,7 @@ const AdminDashboard: React.FC = () => {
               <CardDescription>Manage user accounts and permissions</CardDescription>
             </CardHeader>
             <CardContent>
-              <div className="flex mb-4">
-                <Button variant="outline" size="sm" className="ml-auto">Add User</Button>
-              </div>
-              <div className="text-muted-foreground text-center p-8">
-                User management interface will be implemented soon
-              </div>
+              <UserRoleManager />
             </CardContent>
           </Card>
         </TabsContent>
@@ -201,6 +197,16 @@ const AdminDashboard: React.FC = () => {
               </div>
             </CardContent>
           </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Cost Estimator Rates</CardTitle>
+              <CardDescription>Edit and publish the rate tables used for legal cost estimates</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <CostRateManager />
+            </CardContent>
+          </Card>
         </TabsContent>
         
         <TabsContent value="permissions" className="space-y-4">
@@ -210,9 +216,7 @@ const AdminDashboard: React.FC = () => {
               <CardDescription>Manage user roles and permissions</CardDescription>
             </CardHeader>
             <CardContent>
-              <div className="text-muted-foreground text-center p-8">
-                Role management interface will be implemented soon
-              </div>
+              <RoleManager />
             </CardContent>
           </Card>
         </TabsContent>
@@ -278,4 +282,4 @@ const AdminDashboard: React.FC = () => {
 };
 
 // Export with permission check
-export default withPermissionCheck(AdminDashboard, 'canAccessAdminPanel');
\ No newline at end of file
+export default withPermissionCheck(AdminDashboard, 'admin:access');
\ No newline at end of file
@@ -0,0 +1,404 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useEffect, useState } from "react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { Badge } from "@/components/ui/badge";
+import { Clock } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { usePermissions } from "@/hooks/use-permissions";
+import { Redirect } from "wouter";
+
+type QueueView = "mine" | "unassigned" | "open" | "answered";
+
+type SlaState = "none" | "on_track" | "at_risk" | "breached" | "met";
+
+interface EscalatedQuestion {
+  id: number;
+  userId: number | null;
+  question: string;
+  context: string;
+  status: "pending" | "assigned" | "answered" | "closed";
+  urgency: "normal" | "high" | "urgent";
+  assignedTo: string | null;
+  answer: string | null;
+  userResponse: string | null;
+  parentId: number | null;
+  createdAt: string;
+  answeredAt: string | null;
+  sla: { state: SlaState; dueAt: string | null; remainingMinutes: number | null };
+}
+
+interface Reviewer {
+  id: number;
+  name: string;
+  open: number;
+}
+
+interface Draft {
+  draft: string;
+  aiAnswer: string | null;
+  chatContext: { id: number; role: string; content: string; timestamp: string | null }[];
+  parent: { id: number; question: string; answer: string | null } | null;
+}
+
+interface EscalationNote {
+  id: number;
+  authorId: number | null;
+  content: string;
+  createdAt: string;
+}
+
+const QUEUE_PARAMS: Record<QueueView, string> = {
+  mine: "status=open&assignee=me",
+  unassigned: "status=pending&assignee=unassigned",
+  open: "status=open",
+  answered: "status=answered,closed",
+};
+
+const SLA_STYLES: Record<SlaState, { label: string; className: string }> = {
+  none: { label: "No SLA", className: "bg-gray-300" },
+  on_track: { label: "On track", className: "bg-green-500" },
+  at_risk: { label: "At risk", className: "bg-yellow-500" },
+  breached: { label: "Overdue", className: "bg-red-500" },
+  met: { label: "Met", className: "bg-blue-500" },
+};
+
+function describeRemaining(minutes: number | null): string {
+  if (minutes === null) return "";
+  const hours = Math.floor(Math.abs(minutes) / 60);
+  const text = hours > 0 ? `${hours}h ${Math.abs(minutes) % 60}m` : `${Math.abs(minutes)}m`;
+  return minutes < 0 ? `${text} overdue` : `${text} left`;
+}
+
+export default function AdminEscalationsPage() {
+  const { hasPermission, isLoading: isPermissionsLoading } = usePermissions();
+  const [view, setView] = useState<QueueView>("mine");
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [draftText, setDraftText] = useState("");
+  const [noteText, setNoteText] = useState("");
+  const { toast } = useToast();
+  const canAnswer = hasPermission("escalations:answer");
+
+  // Notifications link to a question with ?question=<id>
+  useEffect(() => {
+    const linked = parseInt(new URLSearchParams(window.location.search).get("question") || "");
+    if (!isNaN(linked)) {
+      setSelectedId(linked);
+    }
+  }, []);
+
+  const { data: questions, isLoading } = useQuery<EscalatedQuestion[]>({
+    queryKey: [`/api/escalated-questions/queue?${QUEUE_PARAMS[view]}`],
+    enabled: canAnswer,
+    refetchInterval: 60 * 1000, // Keeps the SLA timers current
+  });
+
+  const { data: reviewers = [] } = useQuery<Reviewer[]>({
+    queryKey: ["/api/escalated-questions/reviewers"],
+    enabled: canAnswer,
+  });
+
+  const { data: selected } = useQuery<EscalatedQuestion>({
+    queryKey: [`/api/escalated-questions/${selectedId}`],
+    enabled: canAnswer && selectedId !== null,
+  });
+
+  const { data: draft } = useQuery<Draft>({
+    queryKey: [`/api/escalated-questions/${selectedId}/draft`],
+    enabled: canAnswer && selectedId !== null,
+  });
+
+  const { data: notes = [] } = useQuery<EscalationNote[]>({
+    queryKey: [`/api/escalated-questions/${selectedId}/notes`],
+    enabled: canAnswer && selectedId !== null,
+  });
+
+  // Start from the saved draft, or the assistant's answer
+  useEffect(() => {
+    setDraftText(draft?.draft || "");
+  }, [draft]);
+
+  const reviewerName = (assignedTo: string | null) =>
+    assignedTo ? reviewers.find(reviewer => String(reviewer.id) === assignedTo)?.name || `User ${assignedTo}` : "Unassigned";
+
+  const invalidate = () => queryClient.invalidateQueries({
+    predicate: (query) => typeof query.queryKey[0] === "string" && (query.queryKey[0] as string).startsWith("/api/escalated-questions"),
+  });
+
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const assignMutation = useMutation({
+    mutationFn: async ({ id, reviewerId }: { id: number; reviewerId?: number }) =>
+      await apiRequest("POST", `/api/escalated-questions/${id}/assign`, { reviewerId }),
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Question assigned" });
+    },
+    onError: onError("Could not assign question"),
+  });
+
+  const saveDraftMutation = useMutation({
+    mutationFn: async () => await apiRequest("PUT", `/api/escalated-questions/${selectedId}/draft`, { draft: draftText }),
+    onSuccess: () => toast({ title: "Draft saved" }),
+    onError: onError("Could not save draft"),
+  });
+
+  const answerMutation = useMutation({
+    mutationFn: async () => await apiRequest("POST", `/api/escalated-questions/${selectedId}/answer`, { answer: draftText }),
+    onSuccess: () => {
+      invalidate();
+      setSelectedId(null);
+      toast({ title: "Answer sent", description: "The user has been notified." });
+    },
+    onError: onError("Could not send answer"),
+  });
+
+  const noteMutation = useMutation({
+    mutationFn: async () => await apiRequest("POST", `/api/escalated-questions/${selectedId}/notes`, { content: noteText }),
+    onSuccess: () => {
+      setNoteText("");
+      queryClient.invalidateQueries({ queryKey: [`/api/escalated-questions/${selectedId}/notes`] });
+    },
+    onError: onError("Could not add note"),
+  });
+
+  // Only roles that answer escalations can use this page
+  if (isPermissionsLoading) {
+    return null;
+  }
+  if (!canAnswer) {
+    return <Redirect to="/" />;
+  }
+
+  const isOpen = selected && (selected.status === "pending" || selected.status === "assigned");
+
+  return (
+    <div className="container py-8 max-w-6xl">
+      <h1 className="text-3xl font-bold mb-6">Escalated Questions</h1>
+      <p className="text-gray-500 mb-6">
+        Review questions users have escalated to a legal professional, most urgent deadline first.
+      </p>
+
+      <Tabs value={view} onValueChange={(v) => setView(v as QueueView)}>
+        <TabsList className="grid grid-cols-4 mb-8">
+          <TabsTrigger value="mine">My Queue</TabsTrigger>
+          <TabsTrigger value="unassigned">Unassigned</TabsTrigger>
+          <TabsTrigger value="open">All Open</TabsTrigger>
+          <TabsTrigger value="answered">Answered</TabsTrigger>
+        </TabsList>
+      </Tabs>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{view === "mine" ? "Assigned to you" : view === "unassigned" ? "Waiting for a reviewer" : view === "open" ? "All open questions" : "Answered questions"}</CardTitle>
+          <CardDescription>SLA deadlines are set from each question's urgency when it is asked.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-primary"></div>
+            </div>
+          ) : questions && questions.length > 0 ? (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Question</TableHead>
+                  <TableHead>Urgency</TableHead>
+                  <TableHead>SLA</TableHead>
+                  <TableHead>Reviewer</TableHead>
+                  <TableHead>Action</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {questions.map(question => (
+                  <TableRow key={question.id}>
+                    <TableCell>
+                      <div className="max-w-xs truncate">{question.question}</div>
+                      <div className="text-xs text-muted-foreground mt-1">
+                        #{question.id}{question.parentId ? ` · follow-up to #${question.parentId}` : ""} · asked{" "}
+                        {formatDistanceToNow(new Date(question.createdAt), { addSuffix: true })}
+                      </div>
+                    </TableCell>
+                    <TableCell className="capitalize">{question.urgency}</TableCell>
+                    <TableCell>
+                      <Badge className={SLA_STYLES[question.sla.state].className}>{SLA_STYLES[question.sla.state].label}</Badge>
+                      {question.sla.remainingMinutes !== null && (
+                        <div className="flex items-center text-xs text-muted-foreground mt-1">
+                          <Clock className="h-3 w-3 mr-1" />
+                          {describeRemaining(question.sla.remainingMinutes)}
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {question.status === "pending" || question.status === "assigned" ? (
+                        <Select
+                          value={question.assignedTo || ""}
+                          onValueChange={(value) => assignMutation.mutate({
+                            id: question.id,
+                            reviewerId: value === "next" ? undefined : parseInt(value),
+                          })}
+                        >
+                          <SelectTrigger className="w-44 h-8">
+                            <SelectValue placeholder="Unassigned" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="next">Next in turn</SelectItem>
+                            {reviewers.map(reviewer => (
+                              <SelectItem key={reviewer.id} value={String(reviewer.id)}>
+                                {reviewer.name} ({reviewer.open} open)
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      ) : (
+                        <span className="text-sm">{reviewerName(question.assignedTo)}</span>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Button size="sm" onClick={() => setSelectedId(question.id)}>
+                        {question.status === "pending" || question.status === "assigned" ? "Answer" : "View"}
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          ) : (
+            <div className="py-12 text-center text-gray-500">No questions in this queue.</div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Question detail and answer drafting */}
+      <Dialog open={selectedId !== null} onOpenChange={(open) => !open && setSelectedId(null)}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+          {selected && (
+            <>
+              <DialogHeader>
+                <DialogTitle className="flex items-center">
+                  Question #{selected.id}
+                  <Badge className={`ml-4 ${SLA_STYLES[selected.sla.state].className}`}>{SLA_STYLES[selected.sla.state].label}</Badge>
+                  <Badge variant="outline" className="ml-2 capitalize">{selected.status}</Badge>
+                </DialogTitle>
+                <DialogDescription>
+                  {selected.urgency} urgency · {reviewerName(selected.assignedTo)}
+                  {selected.sla.dueAt && ` · due ${new Date(selected.sla.dueAt).toLocaleString()}`}
+                </DialogDescription>
+              </DialogHeader>
+
+              <div className="space-y-6 my-4">
+                <div>
+                  <h3 className="text-lg font-medium">User's Question</h3>
+                  <p className="mt-2 p-4 bg-muted rounded-md whitespace-pre-wrap">{selected.question}</p>
+                  {selected.context && (
+                    <p className="mt-2 text-sm text-muted-foreground whitespace-pre-wrap">{selected.context}</p>
+                  )}
+                </div>
+
+                {draft && draft.chatContext.length > 0 && (
+                  <div>
+                    <h3 className="text-lg font-medium">Chat Context</h3>
+                    <div className="mt-2 max-h-60 overflow-y-auto space-y-2 rounded-md border p-3">
+                      {draft.chatContext.map(message => (
+                        <div key={message.id} className="text-sm">
+                          <span className="font-medium">{message.role === "assistant" ? "Assistant" : "User"}:</span>{" "}
+                          <span className="whitespace-pre-wrap">{message.content}</span>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                {selected.answer ? (
+                  <div>
+                    <h3 className="text-lg font-medium">Answer</h3>
+                    <p className="mt-2 p-4 bg-muted rounded-md whitespace-pre-wrap">{selected.answer}</p>
+                    {selected.userResponse && (
+                      <p className="mt-2 text-sm text-muted-foreground">
+                        {selected.userResponse === "accepted" ? "The user accepted this answer." : "The user asked a follow-up question."}
+                      </p>
+                    )}
+                  </div>
+                ) : (
+                  <div>
+                    <h3 className="text-lg font-medium">Your Answer</h3>
+                    {draft?.aiAnswer && (
+                      <p className="text-xs text-muted-foreground mt-1">Pre-filled with the assistant's answer. Review and correct it before sending.</p>
+                    )}
+                    <Textarea
+                      className="mt-2"
+                      rows={10}
+                      value={draftText}
+                      onChange={(e) => setDraftText(e.target.value)}
+                      placeholder="Write your answer to the user..."
+                    />
+                  </div>
+                )}
+
+                <div>
+                  <h3 className="text-lg font-medium">Internal Notes</h3>
+                  <p className="text-xs text-muted-foreground">Only reviewers can see these notes.</p>
+                  <div className="mt-2 space-y-2">
+                    {notes.map(note => (
+                      <div key={note.id} className="rounded-md border p-2 text-sm">
+                        <p className="whitespace-pre-wrap">{note.content}</p>
+                        <p className="text-xs text-muted-foreground mt-1">
+                          {reviewerName(note.authorId ? String(note.authorId) : null)} ·{" "}
+                          {formatDistanceToNow(new Date(note.createdAt), { addSuffix: true })}
+                        </p>
+                      </div>
+                    ))}
+                  </div>
+                  <div className="mt-2 flex gap-2">
+                    <Textarea rows={2} value={noteText} onChange={(e) => setNoteText(e.target.value)} placeholder="Add a note..." />
+                    <Button
+                      variant="outline"
+                      disabled={!noteText.trim() || noteMutation.isPending}
+                      onClick={() => noteMutation.mutate()}
+                    >
+                      Add
+                    </Button>
+                  </div>
+                </div>
+              </div>
+
+              {isOpen && (
+                <DialogFooter className="flex items-center justify-between">
+                  <Button
+                    variant="outline"
+                    disabled={saveDraftMutation.isPending}
+                    onClick={() => saveDraftMutation.mutate()}
+                  >
+                    Save Draft
+                  </Button>
+                  <Button
+                    disabled={!draftText.trim() || answerMutation.isPending}
+                    onClick={() => answerMutation.mutate()}
+                  >
+                    Send Answer
+                  </Button>
+                </DialogFooter>
+              )}
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
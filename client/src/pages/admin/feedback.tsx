@@ -32,7 +32,7 @@ import { useToast } from "@/hooks/use-toast";
 import { Badge } from "@/components/ui/badge";
 import { Calendar } from "lucide-react";
 import { formatDistanceToNow } from "date-fns";
-import { useAuth } from "@/hooks/use-auth";
+import { usePermissions } from "@/hooks/use-permissions";
 import { Redirect } from "wouter";
 
 type FeedbackStatus = "new" | "reviewed" | "addressed" | "closed";
@@ -82,25 +82,20 @@ function getTypeIcon(type: string): React.ReactNode {
 }
 
 export default function AdminFeedbackPage() {
-  const { user } = useAuth();
+  const { hasPermission, isLoading: isPermissionsLoading } = usePermissions();
   const [activeTab, setActiveTab] = useState<FeedbackStatus>("new");
   const [selectedFeedback, setSelectedFeedback] = useState<Feedback | null>(null);
   const [responseText, setResponseText] = useState("");
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const { toast } = useToast();
 
-  // If user is not an admin, redirect to home
-  if (!user || !(user as any).isAdmin) {
-    return <Redirect to="/" />;
-  }
-
   // Fetch feedback data based on active tab
   const { data: feedbackList, isLoading } = useQuery({
     queryKey: ["/api/feedback", activeTab],
     queryFn: async () => {
-      const response = await apiRequest("GET", `/api/feedback?status=${activeTab}`);
-      return await response.json();
+      return await apiRequest("GET", `/api/feedback?status=${activeTab}`);
     },
+    enabled: hasPermission("feedback:respond"),
   });
 
   // Update feedback status mutation
@@ -114,11 +109,10 @@ export default function AdminFeedbackPage() {
       status: FeedbackStatus;
       response?: string;
     }) => {
-      const res = await apiRequest("PATCH", `/api/feedback/${id}`, {
+      return await apiRequest("PATCH", `/api/feedback/${id}`, {
         status,
         response,
       });
-      return await res.json();
     },
     onSuccess: () => {
       // Invalidate feedback queries to trigger refetch
@@ -158,6 +152,14 @@ export default function AdminFeedbackPage() {
     });
   };
 
+  // Only roles that respond to feedback can use this page
+  if (isPermissionsLoading) {
+    return null;
+  }
+  if (!hasPermission("feedback:respond")) {
+    return <Redirect to="/" />;
+  }
+
   return (
     <div className="container py-8 max-w-6xl">
       <h1 className="text-3xl font-bold mb-6">Feedback Management</h1>
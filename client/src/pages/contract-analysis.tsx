@@ -18,6 +18,7 @@ import {
 import { Checkbox } from "@/components/ui/checkbox";
 import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
+import { Alert, AlertDescription } from "@/components/ui/alert";
 import { 
   Loader2, Upload, AlertTriangle, CheckCircle, FileText, Scale, FileDiff,
   File, Type, FileSearch, Search, FileQuestion, ChevronRight, Calendar as CalendarIcon,
@@ -50,6 +51,8 @@ import {
   DialogTrigger,
 } from "@/components/ui/dialog";
 import ContractTextViewer from "@/components/contract/ContractTextViewer";
+import ClauseRedlineView from "@/components/contract/ClauseRedlineView";
+import ContractVersionHistory from "@/components/contract/ContractVersionHistory";
 
 type AnalysisResult = {
   score: number;
@@ -60,6 +63,13 @@ type AnalysisResult = {
     suggestion: string;
     severity: "low" | "medium" | "high";
     category?: string;
+    // Position of the clause in the analyzed text
+    location?: {
+      start: number;
+      end: number;
+      exact: boolean;
+      section: number;
+    };
   }[];
   suggestions: {
     clause: string;
@@ -81,6 +91,12 @@ type AnalysisResult = {
     confidentiality?: string[];
     [key: string]: string[] | undefined;
   };
+  coverage?: {
+    totalCharacters: number;
+    analyzedCharacters: number;
+    sections: number;
+    failedSections: number[];
+  };
   extractedText?: string; // The full text extracted from uploaded PDF files
   
   // PDF extraction information properties
@@ -91,6 +107,19 @@ type AnalysisResult = {
   truncated?: boolean;
   extractionMethod?: string;
   errorDetails?: string;
+
+  // Set when the server saved the analysis as a version of a contract matter
+  savedAnalysisId?: number;
+  matterId?: number;
+  version?: number;
+};
+
+// A contract matter groups successive versions of the same contract
+type ContractMatterData = {
+  id: number;
+  title: string;
+  versionCount: number;
+  latest: { analysisId: number; version: number | null; score: number; riskLevel: string; createdAt: string } | null;
 };
 
 // Type for the specific analysis data returned from the API
@@ -103,6 +132,8 @@ type ContractAnalysisData = {
   createdAt: string;
   contractType: string;
   jurisdiction: string;
+  matterId?: number | null;
+  version?: number | null;
 };
 
 export default function ContractAnalysisPage() {
@@ -121,6 +152,10 @@ export default function ContractAnalysisPage() {
   const [title, setTitle] = useState<string>("");
   const [saveAnalysis, setSaveAnalysis] = useState<boolean>(true); // Default to save analysis
   const [selectedAnalysisId, setSelectedAnalysisId] = useState<number | null>(null);
+  // Saved analysis currently shown in the results tab, used for its version history
+  const [currentAnalysisId, setCurrentAnalysisId] = useState<number | null>(null);
+  // Matter a new analysis is saved into, or "new" to start a new matter
+  const [versionOfMatterId, setVersionOfMatterId] = useState<string>("new");
   const [currentSection, setCurrentSection] = useState<string>("summary");
   const [progressValue, setProgressValue] = useState<number>(25);
   const [analysisStage, setAnalysisStage] = useState<string>("initial");
@@ -153,12 +188,45 @@ export default function ContractAnalysisPage() {
     enabled: !!user,
   });
   
+  // Fetch contract matters so new analyses can be saved as a new version
+  const { data: contractMatters = [] } = useQuery<ContractMatterData[]>({
+    queryKey: ["/api/contract-analyses/matters"],
+    enabled: !!user,
+  });
+  
   // Fetch a specific analysis when selected
   const { data: selectedAnalysisData, isLoading: isLoadingSelectedAnalysis } = useQuery<ContractAnalysisData>({
-    queryKey: ["/api/contract-analyses", selectedAnalysisId],
+    queryKey: [`/api/contract-analyses/${selectedAnalysisId}`],
     enabled: !!selectedAnalysisId,
   });
   
+  const selectedMatterId = versionOfMatterId !== "new" ? Number(versionOfMatterId) : undefined;
+  
+  // Refresh history, matters and version history after an analysis is saved
+  const handleAnalysisSaved = (analysisId: number) => {
+    setCurrentAnalysisId(analysisId);
+    queryClient.invalidateQueries({ queryKey: ["/api/contract-analyses"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/contract-analyses/matters"] });
+    queryClient.invalidateQueries({ queryKey: [`/api/contract-analyses/${analysisId}/history`] });
+  };
+  
+  // Choose whether a saved analysis starts a new matter or adds a version to an existing one
+  const renderMatterSelect = (id: string) => (
+    <Select value={versionOfMatterId} onValueChange={setVersionOfMatterId}>
+      <SelectTrigger id={id}>
+        <SelectValue placeholder={t("new_contract_matter")} />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value="new">{t("new_contract_matter")}</SelectItem>
+        {contractMatters.map((matter) => (
+          <SelectItem key={matter.id} value={String(matter.id)}>
+            {matter.title} ({t("version_count", { count: String(matter.versionCount) })})
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+  
   // Save analysis mutation
   const saveAnalysisMutation = useMutation({
     mutationFn: async (params: {
@@ -167,16 +235,16 @@ export default function ContractAnalysisPage() {
       jurisdiction: string;
       contractType: string;
       analysisResults: AnalysisResult;
+      matterId?: number;
     }) => {
       return await apiRequest("POST", "/api/contract-analyses", params);
     },
-    onSuccess: () => {
+    onSuccess: (saved: ContractAnalysisData) => {
       toast({
         title: "Analysis saved",
         description: "The analysis has been saved to your history."
       });
-      // Refresh the history list
-      queryClient.invalidateQueries({ queryKey: ["/api/contract-analyses"] });
+      handleAnalysisSaved(saved.id);
     },
     onError: (error: Error) => {
       toast({
@@ -193,6 +261,7 @@ export default function ContractAnalysisPage() {
       // Ensure analysis data is properly set and then navigate to results tab
       const analysisData = selectedAnalysisData.analysisResults;
       setAnalysis(analysisData);
+      setCurrentAnalysisId(selectedAnalysisData.id);
       
       // Make sure we reset the current section and progress for proper display
       setCurrentSection("summary");
@@ -277,6 +346,7 @@ export default function ContractAnalysisPage() {
       contractType: string;
       save?: boolean;
       title?: string;
+      matterId?: number;
     }) => {
       // The apiRequest function already parses JSON 
       return await apiRequest("POST", "/api/analyze-contract", params);
@@ -317,15 +387,19 @@ export default function ContractAnalysisPage() {
         setActiveTab("results");
       });
       
-      // Auto-save the analysis if the save checkbox is checked
-      if (saveAnalysis && title) {
+      // The server already saved the analysis when asked to
+      if (data.savedAnalysisId) {
+        handleAnalysisSaved(data.savedAnalysisId);
+      } else if (saveAnalysis && title) {
+        // Auto-save the analysis if the save checkbox is checked
         console.log("Auto-saving analysis with title:", title);
         saveAnalysisMutation.mutate({
           title: title,
           contractContent: contractText,
           jurisdiction: jurisdiction,
           contractType: contractType,
-          analysisResults: data
+          analysisResults: data,
+          matterId: selectedMatterId
         });
       } else if (saveAnalysis && !title) {
         // Create a default title if none is provided
@@ -337,7 +411,8 @@ export default function ContractAnalysisPage() {
           contractContent: contractText,
           jurisdiction: jurisdiction,
           contractType: contractType,
-          analysisResults: data
+          analysisResults: data,
+          matterId: selectedMatterId
         });
       }
     },
@@ -450,8 +525,11 @@ export default function ContractAnalysisPage() {
         return;
       }
       
-      // Auto-save the analysis if the save checkbox is checked
-      if (saveAnalysis && title) {
+      // The server already saved the analysis when asked to
+      if (data.savedAnalysisId) {
+        handleAnalysisSaved(data.savedAnalysisId);
+      } else if (saveAnalysis && title) {
+        // Auto-save the analysis if the save checkbox is checked
         console.log("Auto-saving file analysis with title:", title);
         saveAnalysisMutation.mutate({
           title: title,
@@ -459,7 +537,8 @@ export default function ContractAnalysisPage() {
           jurisdiction: jurisdiction,
           contractType: contractType,
           // Remove extractedText from the analysis results to avoid duplication
-          analysisResults: { ...data, extractedText: undefined }
+          analysisResults: { ...data, extractedText: undefined },
+          matterId: selectedMatterId
         });
       } else if (saveAnalysis && !title && selectedFile) {
         // Create a default title from filename if none is provided
@@ -472,7 +551,8 @@ export default function ContractAnalysisPage() {
           jurisdiction: jurisdiction,
           contractType: contractType,
           // Remove extractedText from the analysis results to avoid duplication  
-          analysisResults: { ...data, extractedText: undefined }
+          analysisResults: { ...data, extractedText: undefined },
+          matterId: selectedMatterId
         });
       }
     },
@@ -505,11 +585,11 @@ export default function ContractAnalysisPage() {
 
   const compareContractsMutation = useMutation({
     mutationFn: async ({ first, second }: { first: string; second: string }) => {
-      const res = await apiRequest("POST", "/api/compare-contracts", { 
+      // The apiRequest function already parses JSON
+      return await apiRequest("POST", "/api/compare-contracts", { 
         firstContract: first, 
         secondContract: second 
       });
-      return res.json();
     },
     onSuccess: (data) => {
       console.log("Contract comparison completed successfully, preparing to switch tabs");
@@ -637,6 +717,7 @@ export default function ContractAnalysisPage() {
       console.log("Clearing previous analysis data before starting new analysis");
       setAnalysis(null);
     }
+    setCurrentAnalysisId(null);
     
     // Set the current section to summary for when results are displayed
     setCurrentSection("summary");
@@ -647,7 +728,8 @@ export default function ContractAnalysisPage() {
       jurisdiction: jurisdiction,
       contractType: contractType,
       save: saveAnalysis,
-      title: title || `Contract Analysis ${new Date().toLocaleDateString()}`
+      title: title || `Contract Analysis ${new Date().toLocaleDateString()}`,
+      matterId: saveAnalysis ? selectedMatterId : undefined
     });
   };
 
@@ -666,6 +748,7 @@ export default function ContractAnalysisPage() {
       console.log("Clearing previous analysis data before starting file analysis");
       setAnalysis(null);
     }
+    setCurrentAnalysisId(null);
     
     // Set the current section to summary for when results are displayed
     setCurrentSection("summary");
@@ -677,6 +760,9 @@ export default function ContractAnalysisPage() {
     formData.append('contractType', contractType);
     formData.append('save', saveAnalysis.toString());
     formData.append('title', title || selectedFile.name || `Contract Analysis ${new Date().toLocaleDateString()}`);
+    if (saveAnalysis && selectedMatterId) {
+      formData.append('matterId', selectedMatterId.toString());
+    }
 
     analyzeFileContractMutation.mutate(formData);
   };
@@ -931,6 +1017,12 @@ export default function ContractAnalysisPage() {
                             {t("Save analysis for future reference")}
                           </Label>
                         </div>
+                        {saveAnalysis && contractMatters.length > 0 && (
+                          <div className="space-y-2">
+                            <Label htmlFor="save-analysis-matter">{t("save_as_version_of")}</Label>
+                            {renderMatterSelect("save-analysis-matter")}
+                          </div>
+                        )}
                       </div>
                     </div>
                     
@@ -1030,6 +1122,12 @@ export default function ContractAnalysisPage() {
                             {t("Save analysis for future reference")}
                           </Label>
                         </div>
+                        {saveAnalysis && contractMatters.length > 0 && (
+                          <div className="space-y-2">
+                            <Label htmlFor="save-analysis-text-matter">{t("save_as_version_of")}</Label>
+                            {renderMatterSelect("save-analysis-text-matter")}
+                          </div>
+                        )}
                       </div>
                     </div>
                     
@@ -1249,7 +1347,12 @@ export default function ContractAnalysisPage() {
                             <div className="flex-1 p-4">
                               <div className="flex justify-between items-start">
                                 <h4 className="text-lg font-semibold">{historyItem.title}</h4>
-                                <Badge>{historyItem.contractType}</Badge>
+                                <div className="flex gap-1">
+                                  {historyItem.version && (
+                                    <Badge variant="outline">{t("version_label", { version: String(historyItem.version) })}</Badge>
+                                  )}
+                                  <Badge>{historyItem.contractType}</Badge>
+                                </div>
                               </div>
                               
                               <div className="mt-2 text-sm text-muted-foreground">
@@ -1399,6 +1502,16 @@ export default function ContractAnalysisPage() {
                                   placeholder="Enter a title for this analysis"
                                 />
                               </div>
+                              {contractMatters.length > 0 && (
+                                <div className="grid grid-cols-4 items-center gap-4">
+                                  <Label htmlFor="save-matter" className="text-right">
+                                    {t("save_as_version_of")}
+                                  </Label>
+                                  <div className="col-span-3">
+                                    {renderMatterSelect("save-matter")}
+                                  </div>
+                                </div>
+                              )}
                             </div>
                             <DialogFooter>
                               <Button 
@@ -1412,7 +1525,8 @@ export default function ContractAnalysisPage() {
                                     contractContent: contractText,
                                     jurisdiction: jurisdiction,
                                     contractType: contractType,
-                                    analysisResults: analysis
+                                    analysisResults: analysis,
+                                    matterId: selectedMatterId
                                   });
                                 }}
                               >
@@ -1444,6 +1558,18 @@ export default function ContractAnalysisPage() {
                   </div>
                 </div>
                 
+                {/* Version history of the contract matter */}
+                {currentAnalysisId && (
+                  <ContractVersionHistory
+                    analysisId={currentAnalysisId}
+                    className="mt-4"
+                    onSelectVersion={(analysisId) => {
+                      setAnalysis(null);
+                      setSelectedAnalysisId(analysisId);
+                    }}
+                  />
+                )}
+                
                 {/* Analysis Summary Card */}
                 <Card id="summary-section">
                   <CardHeader className="pb-3">
@@ -1573,6 +1699,17 @@ export default function ContractAnalysisPage() {
                     </div>
                   </CardHeader>
                   <CardContent>
+                    {analysis.coverage && analysis.coverage.failedSections.length > 0 && (
+                      <Alert variant="destructive" className="mb-4">
+                        <AlertTriangle className="h-4 w-4" />
+                        <AlertDescription>
+                          {t("analysis_partial_coverage", {
+                            failed: String(analysis.coverage.failedSections.length),
+                            total: String(analysis.coverage.sections)
+                          })}
+                        </AlertDescription>
+                      </Alert>
+                    )}
                     {analysis.risks.length === 0 ? (
                       <div className="p-4 bg-muted rounded-md text-center">
                         <CheckCircle className="h-8 w-8 text-emerald-500 mx-auto mb-2" />
@@ -1628,6 +1765,17 @@ export default function ContractAnalysisPage() {
                                 <div className="bg-muted p-3 rounded text-sm whitespace-pre-wrap border border-muted">
                                   {risk.clause}
                                 </div>
+                                {risk.location && (
+                                  <p className="text-xs text-muted-foreground mt-1">
+                                    {risk.location.exact
+                                      ? t("clause_location", {
+                                          section: String(risk.location.section + 1),
+                                          start: String(risk.location.start),
+                                          end: String(risk.location.end)
+                                        })
+                                      : t("clause_location_approximate", { section: String(risk.location.section + 1) })}
+                                  </p>
+                                )}
                               </div>
                               
                               {/* Issue */}
@@ -2063,6 +2211,9 @@ export default function ContractAnalysisPage() {
                 </CardContent>
               </Card>
             )}
+            {comparisonResult?.redline && (
+              <ClauseRedlineView redline={comparisonResult.redline} />
+            )}
           </TabsContent>
         </Tabs>
       </div>
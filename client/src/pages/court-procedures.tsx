@@ -194,10 +194,12 @@ const CourtProceduresPage: React.FC = () => {
   const [location, setLocation] = useLocation();
   const { toast } = useToast();
   const { user } = useAuth();
-  const [activeTab, setActiveTab] = useState<string>("categories");
+  // Reminder notifications link to a procedure with ?userProcedure=<id>
+  const linkedUserProcedureId = Number(new URLSearchParams(window.location.search).get('userProcedure')) || null;
+  const [activeTab, setActiveTab] = useState<string>(linkedUserProcedureId ? "user-procedure-detail" : "categories");
   const [selectedCategoryId, setSelectedCategoryId] = useState<number | null>(null);
   const [selectedProcedureId, setSelectedProcedureId] = useState<number | null>(null);
-  const [selectedUserProcedureId, setSelectedUserProcedureId] = useState<number | null>(null);
+  const [selectedUserProcedureId, setSelectedUserProcedureId] = useState<number | null>(linkedUserProcedureId);
   
   // New state variables for flowchart interaction
   const [selectedNodeId, setSelectedNodeId] = useState<string | null>(null);
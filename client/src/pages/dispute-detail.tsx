@@ -6,6 +6,7 @@ import { useEffect, useState, useRef } from "react";
 import { AlertCircle, CheckCircle, Clock, FileText, MessageSquare, Users, Calendar, ArrowRight, ArrowLeft, PenSquare, Paperclip, FilePlus, Loader2, Eye, Download } from "lucide-react";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { useAuth } from "@/hooks/use-auth";
+import { useMediationSocket } from "@/hooks/use-mediation-socket";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { Skeleton } from "@/components/ui/skeleton";
@@ -82,6 +83,8 @@ export default function DisputeDetailPage() {
   const [isDocumentDialogOpen, setIsDocumentDialogOpen] = useState(false);
   const [useAIAssistance, setUseAIAssistance] = useState(true);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const lastTypingSentRef = useRef(0);
+  const typingIdleTimerRef = useRef<ReturnType<typeof setTimeout>>();
   
   // Redirect if dispute ID is invalid
   useEffect(() => {
@@ -133,12 +136,28 @@ export default function DisputeDetailPage() {
     role: string;
     content: string;
     sentiment?: string;
+    readBy?: number[] | null;
     createdAt: string;
   }
   
   // Extract messages from the combined session details
   const mediationMessages: MediationMessage[] = sessionDetails && sessionDetails !== null && typeof sessionDetails === 'object' && 'messages' in sessionDetails ? sessionDetails.messages as MediationMessage[] : [];
   
+  // Live session channel: new messages, typing, read receipts and streamed AI replies
+  const mediationSocket = useMediationSocket(primarySession);
+  const { markRead } = mediationSocket;
+  const otherTypingCount = mediationSocket.typingUserIds.filter(id => id !== user?.id).length;
+  
+  // Send read receipts for messages from others while the mediation tab is open
+  useEffect(() => {
+    if (currentTab !== "mediation" || mediationSocket.status !== "connected" || !user) return;
+    
+    const unreadIds = mediationMessages
+      .filter(message => message.userId !== user.id && !(message.readBy || []).includes(user.id))
+      .map(message => message.id);
+    markRead(unreadIds);
+  }, [currentTab, mediationSocket.status, mediationMessages, markRead, user]);
+  
   // Mutation to start a mediation session
   const startMediationMutation = useMutation({
     mutationFn: async (data: { aiAssistance: boolean, scheduledAt?: string }) => {
@@ -172,7 +191,7 @@ export default function DisputeDetailPage() {
       return await res.json();
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['/api/mediation-sessions', primarySession?.id, 'messages'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/mediation-sessions', primarySession?.id, 'details'] });
       setNewMessage("");
     },
     onError: (error) => {
@@ -244,11 +263,32 @@ export default function DisputeDetailPage() {
     e.preventDefault();
     if (!newMessage.trim()) return;
     
+    clearTimeout(typingIdleTimerRef.current);
+    lastTypingSentRef.current = 0;
+    mediationSocket.sendTyping(false);
+    
     sendMessageMutation.mutate({
       content: newMessage,
     });
   };
   
+  // Throttle typing notifications and send a stop once the user goes idle
+  const handleMessageChange = (value: string) => {
+    setNewMessage(value);
+    
+    const now = Date.now();
+    if (now - lastTypingSentRef.current > 2000) {
+      lastTypingSentRef.current = now;
+      mediationSocket.sendTyping(true);
+    }
+    
+    clearTimeout(typingIdleTimerRef.current);
+    typingIdleTimerRef.current = setTimeout(() => {
+      lastTypingSentRef.current = 0;
+      mediationSocket.sendTyping(false);
+    }, 3000);
+  };
+  
   const handleResolveDispute = () => {
     resolveDisputeMutation.mutate({
       status: "resolved"
@@ -809,8 +849,13 @@ export default function DisputeDetailPage() {
                   <Card className="h-full flex flex-col">
                     <CardHeader>
                       <CardTitle>{t("mediation_session")}</CardTitle>
-                      <CardDescription>
-                        {t("session_code")}: <code className="bg-secondary px-2 py-0.5 rounded">{primarySession.sessionCode}</code>
+                      <CardDescription className="flex items-center gap-2">
+                        <span>
+                          {t("session_code")}: <code className="bg-secondary px-2 py-0.5 rounded">{primarySession.sessionCode}</code>
+                        </span>
+                        <Badge variant={mediationSocket.status === "connected" ? "default" : "outline"}>
+                          {mediationSocket.status === "connected" ? t("live") : t("reconnecting")}
+                        </Badge>
                       </CardDescription>
                     </CardHeader>
                     <CardContent className="flex-grow overflow-y-auto">
@@ -867,16 +912,35 @@ export default function DisputeDetailPage() {
                               >
                                 <p className="whitespace-pre-line">{message.content}</p>
                               </div>
+                              {message.userId === user?.id && (message.readBy || []).some(id => id !== user?.id) && (
+                                <span className="mt-1 text-xs text-muted-foreground">{t("seen")}</span>
+                              )}
                             </div>
                           ))}
                         </div>
                       )}
+                      {mediationSocket.streamingReply && (
+                        <div className="flex flex-col items-center mt-4">
+                          <div className="flex items-center space-x-2 mb-1 text-xs text-muted-foreground">
+                            <span>{t('ai_mediator')}</span>
+                            <Loader2 className="h-3 w-3 animate-spin" />
+                          </div>
+                          <div className="px-4 py-3 rounded-lg max-w-[80%] bg-secondary border">
+                            <p className="whitespace-pre-line">{mediationSocket.streamingReply.content || "…"}</p>
+                          </div>
+                        </div>
+                      )}
+                      {otherTypingCount > 0 && (
+                        <p className="mt-3 text-xs text-muted-foreground italic">
+                          {otherTypingCount === 1 ? t("participant_typing") : t("participants_typing")}
+                        </p>
+                      )}
                     </CardContent>
                     <CardFooter className="border-t p-4">
                       <form onSubmit={handleSendMessage} className="w-full flex gap-2">
                         <Textarea
                           value={newMessage}
-                          onChange={(e) => setNewMessage(e.target.value)}
+                          onChange={(e) => handleMessageChange(e.target.value)}
                           placeholder={t("type_message") || "Type your message..."}
                           className="flex-grow min-h-[80px]"
                           disabled={
@@ -1,10 +1,22 @@
+import { useCallback, useState } from "react";
 import MainLayout from "@/components/layout/MainLayout";
 import ChatInterface from "@/components/legal-assistant/ChatInterface";
+import ChatThreadList from "@/components/legal-assistant/ChatThreadList";
 
 function LegalAssistantPage() {
+  const [threadId, setThreadId] = useState<number | null>(null);
+  const selectThread = useCallback((id: number | null) => setThreadId(id), []);
+
   return (
     <MainLayout>
-      <ChatInterface />
+      <div className="flex h-full">
+        <aside className="hidden md:block w-72 shrink-0 border-r bg-white">
+          <ChatThreadList selectedThreadId={threadId} onSelectThread={selectThread} />
+        </aside>
+        <div className="flex-1 min-w-0">
+          <ChatInterface key={threadId ?? "new"} threadId={threadId} onThreadChange={selectThread} />
+        </div>
+      </div>
     </MainLayout>
   );
 }
@@ -0,0 +1,217 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useEffect, useState } from "react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { Calendar, MoveLeft } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { Link } from "wouter";
+
+interface EscalatedQuestion {
+  id: number;
+  question: string;
+  status: "pending" | "assigned" | "answered" | "closed";
+  urgency: string;
+  answer: string | null;
+  userResponse: string | null;
+  parentId: number | null;
+  dueAt: string | null;
+  createdAt: string;
+  answeredAt: string | null;
+}
+
+const STATUS_LABELS: Record<EscalatedQuestion["status"], { label: string; className: string }> = {
+  pending: { label: "Waiting for a lawyer", className: "bg-yellow-500" },
+  assigned: { label: "With a lawyer", className: "bg-blue-500" },
+  answered: { label: "Answered", className: "bg-green-500" },
+  closed: { label: "Closed", className: "bg-gray-500" },
+};
+
+/**
+ * Questions the user escalated to a reviewing lawyer, where they read the
+ * answers and accept them or ask a follow-up
+ */
+export default function MyQuestionsPage() {
+  const [selected, setSelected] = useState<EscalatedQuestion | null>(null);
+  const [followUp, setFollowUp] = useState("");
+  const [isAskingFollowUp, setIsAskingFollowUp] = useState(false);
+  const { toast } = useToast();
+
+  const { data: questions = [], isLoading } = useQuery<EscalatedQuestion[]>({
+    queryKey: ["/api/escalated-questions"],
+  });
+
+  // Notifications link to a question with ?question=<id>
+  useEffect(() => {
+    const linked = parseInt(new URLSearchParams(window.location.search).get("question") || "");
+    const question = questions.find(item => item.id === linked);
+    if (question) {
+      setSelected(question);
+    }
+  }, [questions]);
+
+  const closeDialog = () => {
+    setSelected(null);
+    setFollowUp("");
+    setIsAskingFollowUp(false);
+  };
+
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const acceptMutation = useMutation({
+    mutationFn: async (id: number) => await apiRequest("POST", `/api/escalated-questions/${id}/accept`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/escalated-questions"] });
+      closeDialog();
+      toast({ title: "Answer accepted", description: "Thank you. This question is now closed." });
+    },
+    onError: onError("Could not accept answer"),
+  });
+
+  const followUpMutation = useMutation({
+    mutationFn: async (id: number) => await apiRequest("POST", `/api/escalated-questions/${id}/follow-up`, { question: followUp }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/escalated-questions"] });
+      closeDialog();
+      toast({ title: "Follow-up sent", description: "The lawyer who answered will review your follow-up question." });
+    },
+    onError: onError("Could not send follow-up"),
+  });
+
+  return (
+    <div className="container py-8 max-w-4xl">
+      <div className="flex items-center mb-6">
+        <Link href="/">
+          <Button variant="outline" size="sm" className="mr-4">
+            <MoveLeft className="h-4 w-4 mr-1" /> Back
+          </Button>
+        </Link>
+        <h1 className="text-3xl font-bold">My Questions for a Lawyer</h1>
+      </div>
+      <p className="text-gray-500 mb-6">
+        Questions you escalated from the legal assistant to a reviewing lawyer.
+      </p>
+
+      {isLoading ? (
+        <div className="flex justify-center py-8">
+          <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-primary"></div>
+        </div>
+      ) : questions.length === 0 ? (
+        <div className="py-12 text-center text-gray-500">
+          You have not escalated any questions. Use "Ask a lawyer" on an answer in the legal assistant.
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {questions.map(question => (
+            <Card key={question.id} className="cursor-pointer hover:border-primary" onClick={() => setSelected(question)}>
+              <CardHeader className="pb-2">
+                <div className="flex items-start justify-between gap-4">
+                  <CardTitle className="text-base">{question.question}</CardTitle>
+                  <Badge className={STATUS_LABELS[question.status].className}>{STATUS_LABELS[question.status].label}</Badge>
+                </div>
+                <CardDescription className="flex items-center">
+                  <Calendar className="h-4 w-4 mr-1" />
+                  Asked {formatDistanceToNow(new Date(question.createdAt), { addSuffix: true })}
+                  {question.parentId && ` · follow-up to #${question.parentId}`}
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                {question.status === "answered" ? (
+                  <p className="text-sm font-medium text-green-700">A lawyer has answered. Open to read it.</p>
+                ) : question.status === "closed" ? (
+                  <p className="text-sm text-muted-foreground">
+                    {question.userResponse === "follow_up" ? "You asked a follow-up question." : "You accepted the answer."}
+                  </p>
+                ) : question.dueAt ? (
+                  <p className="text-sm text-muted-foreground">
+                    Expected answer {formatDistanceToNow(new Date(question.dueAt), { addSuffix: true })}
+                  </p>
+                ) : null}
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      <Dialog open={selected !== null} onOpenChange={(open) => !open && closeDialog()}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          {selected && (
+            <>
+              <DialogHeader>
+                <DialogTitle>Your Question</DialogTitle>
+                <DialogDescription>{STATUS_LABELS[selected.status].label}</DialogDescription>
+              </DialogHeader>
+
+              <div className="space-y-6 my-4">
+                <p className="p-4 bg-muted rounded-md whitespace-pre-wrap">{selected.question}</p>
+
+                {selected.answer ? (
+                  <div>
+                    <h3 className="text-lg font-medium">Lawyer's Answer</h3>
+                    <p className="mt-2 p-4 border rounded-md whitespace-pre-wrap">{selected.answer}</p>
+                    {selected.answeredAt && (
+                      <p className="text-xs text-muted-foreground mt-1">
+                        Answered {formatDistanceToNow(new Date(selected.answeredAt), { addSuffix: true })}
+                      </p>
+                    )}
+                  </div>
+                ) : (
+                  <p className="text-sm text-muted-foreground">A reviewing lawyer has not answered this question yet. We will notify you when they do.</p>
+                )}
+
+                {isAskingFollowUp && (
+                  <div>
+                    <h3 className="text-lg font-medium">Follow-up Question</h3>
+                    <Textarea
+                      className="mt-2"
+                      rows={4}
+                      value={followUp}
+                      onChange={(e) => setFollowUp(e.target.value)}
+                      placeholder="What would you like the lawyer to clarify?"
+                    />
+                  </div>
+                )}
+              </div>
+
+              {selected.status === "answered" && (
+                <DialogFooter className="flex items-center justify-between">
+                  {isAskingFollowUp ? (
+                    <>
+                      <Button variant="outline" onClick={() => setIsAskingFollowUp(false)}>Cancel</Button>
+                      <Button
+                        disabled={followUp.trim().length < 5 || followUpMutation.isPending}
+                        onClick={() => followUpMutation.mutate(selected.id)}
+                      >
+                        Send Follow-up
+                      </Button>
+                    </>
+                  ) : (
+                    <>
+                      <Button variant="outline" onClick={() => setIsAskingFollowUp(true)}>Ask a Follow-up</Button>
+                      <Button disabled={acceptMutation.isPending} onClick={() => acceptMutation.mutate(selected.id)}>
+                        Accept Answer
+                      </Button>
+                    </>
+                  )}
+                </DialogFooter>
+              )}
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -11,6 +11,7 @@ import { useToast } from "@/hooks/use-toast";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { useAuth } from "@/hooks/use-auth";
 import { useSubscription } from "@/hooks/use-subscription";
+import { usePermissions } from "@/hooks/use-permissions";
 import { Link } from "wouter";
 import { Badge } from "@/components/ui/badge";
 import { Clock, CheckCircle, AlertCircle, CreditCard } from "lucide-react";
@@ -19,6 +20,7 @@ export default function SettingsPage() {
   const [currentTab, setCurrentTab] = useState("profile");
   const { toast } = useToast();
   const { user, updateProfileMutation, updatePasswordMutation } = useAuth();
+  const { hasPermission } = usePermissions();
   const { subscription, currentPlan, isLoading: isSubscriptionLoading, isTrialActive, trialDaysRemaining, isSubscriptionActive } = useSubscription();
   
   // Form states
@@ -449,12 +451,17 @@ export default function SettingsPage() {
                   {t("feedback_description") || "View your submitted feedback and access support options"}
                 </CardDescription>
               </CardHeader>
-              <CardContent className="flex gap-4">
+              <CardContent className="flex flex-wrap gap-4">
                 <Link href="/my-feedback">
                   <Button variant="outline">
                     {t("view_my_feedback") || "View My Feedback"}
                   </Button>
                 </Link>
+                <Link href="/my-questions">
+                  <Button variant="outline">
+                    My Questions for a Lawyer
+                  </Button>
+                </Link>
                 {(user as any)?.isAdmin && (
                   <Link href="/admin/feedback">
                     <Button variant="secondary">
@@ -462,6 +469,13 @@ export default function SettingsPage() {
                     </Button>
                   </Link>
                 )}
+                {hasPermission("escalations:answer") && (
+                  <Link href="/admin/escalations">
+                    <Button variant="secondary">
+                      Escalated Questions
+                    </Button>
+                  </Link>
+                )}
               </CardContent>
             </Card>
             
@@ -24,7 +24,7 @@ const TimelineEstimatorPage: React.FC = () => {
             Procedural Timeline Estimator
           </h1>
           <p className="mt-2 text-muted-foreground max-w-2xl mx-auto">
-            Get an estimated timeline for your legal procedure based on Canadian court statistics and your specific case details.
+            Get an estimated timeline for your legal procedure, step by step, on your province's court calendar.
           </p>
         </div>
       </div>
@@ -36,22 +36,24 @@ const TimelineEstimatorPage: React.FC = () => {
         <div className="space-y-4 text-muted-foreground">
           <p>
             The Procedural Timeline Estimator helps you understand approximately how long your legal 
-            procedure may take based on historical court data and the specifics of your case.
+            procedure may take, based on the steps of the procedure and the typical time each one takes.
           </p>
           <p>
-            <strong className="text-foreground">How it works:</strong> By analyzing information about your 
-            legal matter, the complexity of your case, and the jurisdiction, our system provides an estimated 
-            timeline with major procedural milestones.
+            <strong className="text-foreground">How it works:</strong> Each step of the procedure you choose is 
+            placed on the calendar after the one before it. Dates are counted in court days: weekends and the 
+            court holidays of your province or territory are skipped, and a deadline that falls on one moves to 
+            the next day the courts are open.
           </p>
           <ul className="list-disc pl-6 space-y-1">
             <li>Get estimated duration for each phase of your legal procedure</li>
             <li>See important milestones and deadlines</li>
+            <li>Turn the timeline into reminders on a procedure you are tracking</li>
             <li>Plan your legal strategy with a better understanding of timing</li>
             <li>Prepare for court appearances and document submissions</li>
           </ul>
           <p>
             <strong className="text-foreground">Please note:</strong> These timelines are estimates 
-            based on average case duration data. Actual timelines can vary significantly based on 
+            based on typical step durations. Actual timelines can vary significantly based on 
             court backlogs, case complexity, and many other factors not captured in this simple estimator.
             Always consult with a legal professional for more specific timing information.
           </p>
@@ -0,0 +1,47 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { CorpusImportError, importCorpusDump } from "../server/lib/researchCorpus";
+
+// Usage: npx tsx scripts/import-research-corpus.ts <dump.json or dump.xml> [--dry-run] [--source=name]
+async function importResearchCorpus() {
+  const args = process.argv.slice(2);
+  const dryRun = args.includes("--dry-run");
+  const sourceArg = args.find(arg => arg.startsWith("--source="));
+  const targets = args.filter(arg => !arg.startsWith("--"));
+
+  if (targets.length === 0) {
+    console.error("Usage: npx tsx scripts/import-research-corpus.ts <dump.json or dump.xml> [--dry-run] [--source=name]");
+    process.exit(1);
+  }
+
+  let failed = false;
+  for (const target of targets) {
+    try {
+      const report = await importCorpusDump(await fs.readFile(target, "utf8"), {
+        source: sourceArg ? sourceArg.slice("--source=".length) : undefined,
+        dryRun,
+      });
+
+      console.log(`${dryRun ? "[dry run] " : ""}${path.basename(target)} as ${report.source}`);
+      console.log(
+        `  ${report.total} documents: ${report.valid} valid, ${report.inserted} inserted, ${report.updated} updated, ` +
+        `${report.duplicates} duplicates, ${report.invalid.length} invalid`
+      );
+      report.invalid.forEach(item => {
+        console.log(`  invalid   #${item.index}${item.citation ? ` (${item.citation})` : ""}`);
+        item.issues.forEach(issue => console.log(`            ${issue}`));
+      });
+
+      if (report.invalid.length > 0) {
+        failed = true;
+      }
+    } catch (error: any) {
+      failed = true;
+      console.error(`Failed to import ${target}: ${error instanceof CorpusImportError ? error.message : error}`);
+    }
+  }
+
+  process.exit(failed ? 1 : 0);
+}
+
+importResearchCorpus();
@@ -0,0 +1,58 @@
+import { promises as fs } from "fs";
+import path from "path";
+import {
+  archivePackSource,
+  directoryPackSource,
+  importTemplatePack,
+  TemplatePackError
+} from "../server/lib/templatePackImporter";
+
+// Usage: npx tsx scripts/import-template-packs.ts <pack directory or .zip> [--dry-run] [--force]
+async function importTemplatePacks() {
+  const args = process.argv.slice(2);
+  const dryRun = args.includes("--dry-run");
+  const force = args.includes("--force");
+  const targets = args.filter(arg => !arg.startsWith("--"));
+
+  if (targets.length === 0) {
+    console.error("Usage: npx tsx scripts/import-template-packs.ts <pack directory or .zip> [--dry-run] [--force]");
+    process.exit(1);
+  }
+
+  let failed = false;
+  for (const target of targets) {
+    try {
+      const source = target.toLowerCase().endsWith(".zip")
+        ? await archivePackSource(await fs.readFile(target), path.basename(target))
+        : directoryPackSource(target);
+      const report = await importTemplatePack(source, { dryRun, force });
+
+      console.log(
+        `${dryRun ? "[dry run] " : ""}${report.pack.name} ${report.pack.version}` +
+        (report.pack.previousVersion ? ` (was ${report.pack.previousVersion})` : "")
+      );
+      report.items.forEach(item => {
+        console.log(`  ${item.status.padEnd(9)} ${item.key}${item.templateId ? ` (#${item.templateId})` : ""}`);
+        item.messages.forEach(message => console.log(`            ${message}`));
+      });
+      report.removed.forEach(template => {
+        console.log(`  removed   ${template.key} (#${template.templateId}) is no longer in the pack and was left in place`);
+      });
+      console.log(`  ${Object.entries(report.summary).map(([status, count]) => `${count} ${status}`).join(", ")}`);
+
+      if (report.summary.invalid > 0) {
+        failed = true;
+      }
+    } catch (error: any) {
+      failed = true;
+      console.error(`Failed to import ${target}: ${error.message}`);
+      if (error instanceof TemplatePackError) {
+        error.issues.forEach(issue => console.error(`  ${issue}`));
+      }
+    }
+  }
+
+  process.exit(failed ? 1 : 0);
+}
+
+importTemplatePacks();
@@ -1,6 +1,6 @@
 import passport from "passport";
 import { Strategy as LocalStrategy } from "passport-local";
-import { Express, Request, Response, NextFunction } from "express";
+import { Express, Request, Response, NextFunction, RequestHandler } from "express";
 import session from "express-session";
 import { scrypt, randomBytes, timingSafeEqual } from "crypto";
 import { promisify } from "util";
@@ -52,15 +52,7 @@ export const isAuthenticated = (req: Request, res: Response, next: NextFunction)
   res.status(401).json({ message: "Authentication required" });
 };
 
-// Admin middleware
-export const isAdmin = (req: Request, res: Response, next: NextFunction) => {
-  if (req.isAuthenticated() && req.user && (req.user as any).isAdmin) {
-    return next();
-  }
-  res.status(403).json({ message: "Admin access required" });
-};
-
-export function setupAuth(app: Express) {
+export function setupAuth(app: Express): RequestHandler {
   // Setup session with strict secure settings
   const sessionSettings: session.SessionOptions = {
     secret: process.env.SESSION_SECRET || "changeme-this-is-not-secure",
@@ -74,8 +66,12 @@ export function setupAuth(app: Express) {
     store: storage.sessionStore,
   };
 
+  // Kept as a handle so non-Express transports (the mediation WebSocket
+  // upgrade) can resolve the logged-in user from the same session cookie
+  const sessionMiddleware = session(sessionSettings);
+
   app.set("trust proxy", 1);
-  app.use(session(sessionSettings));
+  app.use(sessionMiddleware);
   app.use(passport.initialize());
   app.use(passport.session());
 
@@ -434,4 +430,6 @@ export function setupAuth(app: Express) {
       next(err);
     }
   });
+
+  return sessionMiddleware;
 }
\ No newline at end of file
@@ -16,6 +16,7 @@ interface ConfigInterface {
   PORT: number;
   DATABASE_URL: string;
   SESSION_SECRET: string;
+  SIGNING_SECRET: string;
   LOG_LEVEL: string;
   ANTHROPIC_API_KEY?: string;
   OPENAI_API_KEY?: string;
@@ -24,6 +25,32 @@ interface ConfigInterface {
   BACKUP_FREQUENCY?: string; // 'daily', 'hourly', etc.
   BACKUP_RETENTION_DAYS?: number;
   MAX_UPLOAD_SIZE_MB: number;
+  BLOB_STORAGE_DRIVER: string; // 'local' or 's3'
+  BLOB_STORAGE_DIR: string;
+  EVIDENCE_MAX_UPLOAD_MB: number;
+  S3_BUCKET?: string;
+  S3_REGION: string;
+  S3_ENDPOINT?: string; // Custom endpoint for S3-compatible services such as MinIO
+  S3_ACCESS_KEY_ID?: string;
+  S3_SECRET_ACCESS_KEY?: string;
+  S3_FORCE_PATH_STYLE: boolean;
+  EMAIL_TRANSPORT: string; // 'smtp', 'sendgrid' or 'log'
+  EMAIL_FROM: string;
+  SMTP_HOST?: string;
+  SMTP_PORT: number;
+  SMTP_SECURE: boolean; // TLS from the start; otherwise STARTTLS is used when offered
+  SMTP_USER?: string;
+  SMTP_PASSWORD?: string;
+  APP_URL: string; // Base URL used for links in emails
+  REMINDER_DISPATCH_INTERVAL_MINUTES: number; // 0 disables the reminder dispatcher
+  PROPOSAL_LAPSE_INTERVAL_MINUTES: number; // 0 leaves expired proposals to lapse when they are next listed
+  RESEARCH_SOURCES: string; // Comma-separated: corpus, ai, citation
+  CANLII_API_KEY?: string;
+  ESCALATION_AUTO_ASSIGN: boolean; // Assign new escalated questions to reviewers in turn
+  DOCUSEAL_API_KEY?: string;
+  DOCUSEAL_API_URL: string; // Point at a local mock server in development
+  DOCUSEAL_WEBHOOK_SECRET?: string; // HMAC key for the X-DocuSeal-Signature header
+  DOCUSEAL_WEBHOOK_TOLERANCE_SECONDS: number; // Older deliveries are rejected as replays
 }
 
 // Function to validate required environment variables
@@ -43,6 +70,7 @@ export const config: ConfigInterface = {
   PORT: parseInt(process.env.PORT || '5000', 10), // Changed back to 5000 to match Replit workflow config
   DATABASE_URL: process.env.DATABASE_URL as string,
   SESSION_SECRET: process.env.SESSION_SECRET || 'development-secret-key',
+  SIGNING_SECRET: process.env.SIGNING_SECRET || process.env.SESSION_SECRET || 'development-secret-key',
   LOG_LEVEL: process.env.LOG_LEVEL || 'info',
   ANTHROPIC_API_KEY: process.env.ANTHROPIC_API_KEY,
   OPENAI_API_KEY: process.env.OPENAI_API_KEY,
@@ -51,6 +79,32 @@ export const config: ConfigInterface = {
   BACKUP_FREQUENCY: process.env.BACKUP_FREQUENCY || 'daily',
   BACKUP_RETENTION_DAYS: parseInt(process.env.BACKUP_RETENTION_DAYS || '7', 10),
   MAX_UPLOAD_SIZE_MB: parseInt(process.env.MAX_UPLOAD_SIZE_MB || '10', 10),
+  BLOB_STORAGE_DRIVER: process.env.BLOB_STORAGE_DRIVER || 'local',
+  BLOB_STORAGE_DIR: process.env.BLOB_STORAGE_DIR || 'uploads/blobs',
+  EVIDENCE_MAX_UPLOAD_MB: parseInt(process.env.EVIDENCE_MAX_UPLOAD_MB || '100', 10),
+  S3_BUCKET: process.env.S3_BUCKET,
+  S3_REGION: process.env.S3_REGION || 'ca-central-1',
+  S3_ENDPOINT: process.env.S3_ENDPOINT,
+  S3_ACCESS_KEY_ID: process.env.S3_ACCESS_KEY_ID,
+  S3_SECRET_ACCESS_KEY: process.env.S3_SECRET_ACCESS_KEY,
+  S3_FORCE_PATH_STYLE: process.env.S3_FORCE_PATH_STYLE === 'true' || !!process.env.S3_ENDPOINT,
+  EMAIL_TRANSPORT: process.env.EMAIL_TRANSPORT || (process.env.SMTP_HOST ? 'smtp' : process.env.SENDGRID_API_KEY ? 'sendgrid' : 'log'),
+  EMAIL_FROM: process.env.EMAIL_FROM || 'LegalAI Navigator <no-reply@localhost>',
+  SMTP_HOST: process.env.SMTP_HOST,
+  SMTP_PORT: parseInt(process.env.SMTP_PORT || '587', 10),
+  SMTP_SECURE: process.env.SMTP_SECURE === 'true',
+  SMTP_USER: process.env.SMTP_USER,
+  SMTP_PASSWORD: process.env.SMTP_PASSWORD,
+  APP_URL: (process.env.APP_URL || 'http://localhost:5000').replace(/\/+$/, ''),
+  REMINDER_DISPATCH_INTERVAL_MINUTES: parseInt(process.env.REMINDER_DISPATCH_INTERVAL_MINUTES || '5', 10),
+  PROPOSAL_LAPSE_INTERVAL_MINUTES: parseInt(process.env.PROPOSAL_LAPSE_INTERVAL_MINUTES || '15', 10),
+  RESEARCH_SOURCES: process.env.RESEARCH_SOURCES || 'corpus,ai,citation',
+  CANLII_API_KEY: process.env.CANLII_API_KEY,
+  ESCALATION_AUTO_ASSIGN: process.env.ESCALATION_AUTO_ASSIGN !== 'false',
+  DOCUSEAL_API_KEY: process.env.DOCUSEAL_API_KEY,
+  DOCUSEAL_API_URL: (process.env.DOCUSEAL_API_URL || 'https://api.docuseal.com').replace(/\/+$/, ''),
+  DOCUSEAL_WEBHOOK_SECRET: process.env.DOCUSEAL_WEBHOOK_SECRET,
+  DOCUSEAL_WEBHOOK_TOLERANCE_SECONDS: parseInt(process.env.DOCUSEAL_WEBHOOK_TOLERANCE_SECONDS || '300', 10),
 };
 
 // Check environment configuration 
@@ -62,7 +116,7 @@ export function initializeConfig() {
   
   // Mask sensitive values for logging
   Object.keys(safeConfig).forEach(key => {
-    if (['DATABASE_URL', 'SESSION_SECRET', 'ANTHROPIC_API_KEY', 'OPENAI_API_KEY', 'DEEPSEEK_API_KEY', 'SENDGRID_API_KEY'].includes(key)) {
+    if (['DATABASE_URL', 'SESSION_SECRET', 'SIGNING_SECRET', 'ANTHROPIC_API_KEY', 'OPENAI_API_KEY', 'DEEPSEEK_API_KEY', 'SENDGRID_API_KEY', 'S3_SECRET_ACCESS_KEY', 'SMTP_PASSWORD', 'CANLII_API_KEY', 'DOCUSEAL_API_KEY', 'DOCUSEAL_WEBHOOK_SECRET'].includes(key)) {
       (safeConfig as any)[key] = (safeConfig as any)[key] ? '[REDACTED]' : undefined;
     }
   });
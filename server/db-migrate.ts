@@ -1,6 +1,14 @@
 import { sql } from 'drizzle-orm';
 import { db } from './db';
 import { logInfo, logError, logWarn } from './utils/logger';
+import { DEFAULT_ROLES } from './lib/permissions';
+import { SEARCH_CONFIGS } from './lib/knowledgeSearch';
+import {
+  domainKnowledgeSearchDocument,
+  provincialInfoSearchDocument,
+  proceduralGuideSearchDocument,
+  researchCorpusSearchDocument
+} from '@shared/schema';
 
 /**
  * Run database migrations to add new columns and tables
@@ -196,6 +204,668 @@ export async function runDatabaseMigrations() {
       `);
     }
     
+    // Ensure usage is tracked with a single row per user and billing period
+    if (await checkTableExists('user_usage')) {
+      await db.execute(sql`
+        CREATE UNIQUE INDEX IF NOT EXISTS user_usage_user_period_idx
+        ON user_usage (user_id, period_start)
+      `);
+    }
+    
+    // Semantic cache tier columns for the AI response cache
+    if (await checkTableExists('ai_response_cache')) {
+      if (!await checkColumnExists('ai_response_cache', 'normalized_prompt')) {
+        logInfo('Adding semantic cache columns to ai_response_cache table');
+        await db.execute(sql`
+          ALTER TABLE ai_response_cache
+          ADD COLUMN normalized_prompt TEXT,
+          ADD COLUMN context_key VARCHAR(64)
+        `);
+      }
+      await db.execute(sql`
+        CREATE INDEX IF NOT EXISTS ai_response_cache_context_idx
+        ON ai_response_cache (context_key, last_accessed DESC)
+      `);
+    }
+    
+    // Contract matters group contract analyses into numbered versions
+    const contractMattersExists = await checkTableExists('contract_matters');
+    if (!contractMattersExists) {
+      logInfo('Creating contract_matters table');
+      await db.execute(sql`
+        CREATE TABLE IF NOT EXISTS contract_matters (
+          id SERIAL PRIMARY KEY,
+          user_id INTEGER REFERENCES users(id) ON DELETE CASCADE NOT NULL,
+          title TEXT NOT NULL,
+          jurisdiction TEXT DEFAULT 'Canada',
+          contract_type TEXT DEFAULT 'general',
+          created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+          updated_at TIMESTAMP
+        )
+      `);
+    }
+    
+    if (await checkTableExists('contract_analyses')) {
+      if (!await checkColumnExists('contract_analyses', 'matter_id')) {
+        logInfo('Adding version columns to contract_analyses table');
+        await db.execute(sql`
+          ALTER TABLE contract_analyses
+          ADD COLUMN matter_id INTEGER REFERENCES contract_matters(id) ON DELETE CASCADE,
+          ADD COLUMN version INTEGER
+        `);
+      }
+      await db.execute(sql`
+        CREATE UNIQUE INDEX IF NOT EXISTS contract_analyses_matter_version_idx
+        ON contract_analyses (matter_id, version)
+      `);
+
+      // Analyses saved before versioning become version 1 of their own matter
+      const legacy = await db.execute(sql`
+        WITH legacy AS (
+          SELECT id AS analysis_id, nextval(pg_get_serial_sequence('contract_matters', 'id')) AS matter_id,
+            user_id, contract_title, jurisdiction, contract_type, created_at
+          FROM contract_analyses
+          WHERE matter_id IS NULL AND user_id IS NOT NULL
+        ), created AS (
+          INSERT INTO contract_matters (id, user_id, title, jurisdiction, contract_type, created_at, updated_at)
+          SELECT matter_id, user_id, contract_title, jurisdiction, contract_type, created_at, created_at FROM legacy
+          RETURNING id
+        )
+        UPDATE contract_analyses SET matter_id = legacy.matter_id, version = 1
+        FROM legacy
+        WHERE contract_analyses.id = legacy.analysis_id
+        RETURNING contract_analyses.id
+      `);
+      if (legacy.length > 0) {
+        logInfo(`Gave ${legacy.length} existing contract analyses their own matters`);
+      }
+    }
+
+    // Template packs record where imported templates came from
+    const templatePacksExists = await checkTableExists('template_packs');
+    if (!templatePacksExists) {
+      logInfo('Creating template_packs table');
+      await db.execute(sql`
+        CREATE TABLE IF NOT EXISTS template_packs (
+          id SERIAL PRIMARY KEY,
+          pack_key TEXT NOT NULL UNIQUE,
+          name TEXT NOT NULL,
+          description TEXT,
+          publisher TEXT,
+          version TEXT NOT NULL,
+          source_type TEXT NOT NULL,
+          source_name TEXT,
+          manifest_hash TEXT,
+          imported_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+          imported_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+          updated_at TIMESTAMP
+        )
+      `);
+    }
+
+    if (await checkTableExists('document_templates')) {
+      if (!await checkColumnExists('document_templates', 'pack_id')) {
+        logInfo('Adding provenance columns to document_templates table');
+        await db.execute(sql`
+          ALTER TABLE document_templates
+          ADD COLUMN pack_id INTEGER REFERENCES template_packs(id) ON DELETE SET NULL,
+          ADD COLUMN pack_template_key TEXT,
+          ADD COLUMN pack_version TEXT,
+          ADD COLUMN content_hash TEXT,
+          ADD COLUMN provenance JSONB,
+          ADD COLUMN updated_at TIMESTAMP
+        `);
+      }
+      await db.execute(sql`
+        CREATE UNIQUE INDEX IF NOT EXISTS document_templates_pack_key_idx
+        ON document_templates (pack_id, pack_template_key)
+      `);
+    }
+
+    // Shared documents are kept in blob storage
+    if (await checkTableExists('shared_documents') && !await checkColumnExists('shared_documents', 'storage_key')) {
+      logInfo('Adding blob storage columns to shared_documents table');
+      await db.execute(sql`
+        ALTER TABLE shared_documents
+        ADD COLUMN file_name TEXT,
+        ADD COLUMN storage_key TEXT,
+        ADD COLUMN content_hash TEXT
+      `);
+    }
+
+    // Roles hold the permissions checked by requirePermission()
+    if (!await checkTableExists('roles')) {
+      logInfo('Creating roles table');
+      await db.execute(sql`
+        CREATE TABLE IF NOT EXISTS roles (
+          id SERIAL PRIMARY KEY,
+          name TEXT NOT NULL UNIQUE,
+          description TEXT,
+          permissions JSONB NOT NULL,
+          created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+          updated_at TIMESTAMP
+        )
+      `);
+    } else if (!await checkColumnExists('roles', 'updated_at')) {
+      logInfo('Adding updated_at column to roles table');
+      await db.execute(sql`ALTER TABLE roles ADD COLUMN updated_at TIMESTAMP`);
+    }
+
+    for (const role of DEFAULT_ROLES) {
+      await db.execute(sql`
+        INSERT INTO roles (name, description, permissions)
+        VALUES (${role.name}, ${role.description}, ${JSON.stringify(role.permissions)}::jsonb)
+        ON CONFLICT (name) DO NOTHING
+      `);
+    }
+
+    // Case outcome predictions are produced by a background job; existing
+    // rows start as pending and are analysed when the server starts
+    if (await checkTableExists('case_outcome_predictions') && !await checkColumnExists('case_outcome_predictions', 'status')) {
+      logInfo('Adding prediction job columns to case_outcome_predictions table');
+      await db.execute(sql`
+        ALTER TABLE case_outcome_predictions
+        ADD COLUMN status TEXT NOT NULL DEFAULT 'pending',
+        ADD COLUMN progress INTEGER NOT NULL DEFAULT 0,
+        ADD COLUMN status_message TEXT,
+        ADD COLUMN outcome_distribution JSONB,
+        ADD COLUMN key_factors JSONB,
+        ADD COLUMN error_message TEXT,
+        ADD COLUMN completed_at TIMESTAMP
+      `);
+    }
+
+    if (!await checkTableExists('user_notifications')) {
+      logInfo('Creating user_notifications table');
+      await db.execute(sql`
+        CREATE TABLE IF NOT EXISTS user_notifications (
+          id SERIAL PRIMARY KEY,
+          user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+          type TEXT NOT NULL,
+          title TEXT NOT NULL,
+          message TEXT NOT NULL,
+          link TEXT,
+          data JSONB,
+          read_at TIMESTAMP,
+          created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+        )
+      `);
+      await db.execute(sql`
+        CREATE INDEX IF NOT EXISTS user_notifications_user_idx ON user_notifications (user_id, created_at DESC)
+      `);
+    }
+
+    // Court procedure personalization tables
+    if (!await checkTableExists('user_procedure_notes')) {
+      logInfo('Creating user_procedure_notes table');
+      await db.execute(sql`
+        CREATE TABLE IF NOT EXISTS user_procedure_notes (
+          id SERIAL PRIMARY KEY,
+          user_procedure_id INTEGER NOT NULL,
+          step_id INTEGER,
+          content TEXT NOT NULL,
+          created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+          updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+        )
+      `);
+    }
+
+    if (!await checkTableExists('user_procedure_reminders')) {
+      logInfo('Creating user_procedure_reminders table');
+      await db.execute(sql`
+        CREATE TABLE IF NOT EXISTS user_procedure_reminders (
+          id SERIAL PRIMARY KEY,
+          user_procedure_id INTEGER NOT NULL,
+          step_id INTEGER,
+          title VARCHAR(255) NOT NULL,
+          description TEXT,
+          due_date TIMESTAMP NOT NULL,
+          notify_before INTEGER DEFAULT 1,
+          notify_method VARCHAR(20) DEFAULT 'app',
+          is_completed BOOLEAN DEFAULT false,
+          snoozed_until TIMESTAMP,
+          last_notified_at TIMESTAMP,
+          source VARCHAR(20) NOT NULL DEFAULT 'user',
+          created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+          updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+        )
+      `);
+    } else if (!await checkColumnExists('user_procedure_reminders', 'snoozed_until')) {
+      logInfo('Adding dispatch columns to user_procedure_reminders table');
+      await db.execute(sql`
+        ALTER TABLE user_procedure_reminders
+        ADD COLUMN snoozed_until TIMESTAMP,
+        ADD COLUMN last_notified_at TIMESTAMP
+      `);
+    }
+    if (!await checkColumnExists('user_procedure_reminders', 'source')) {
+      logInfo('Adding source column to user_procedure_reminders table');
+      await db.execute(sql`
+        ALTER TABLE user_procedure_reminders
+        ADD COLUMN source VARCHAR(20) NOT NULL DEFAULT 'user'
+      `);
+    }
+    await db.execute(sql`
+      CREATE INDEX IF NOT EXISTS user_procedure_reminders_due_idx ON user_procedure_reminders (is_completed, due_date)
+    `);
+
+    if (!await checkTableExists('user_procedure_checklist')) {
+      logInfo('Creating user_procedure_checklist table');
+      await db.execute(sql`
+        CREATE TABLE IF NOT EXISTS user_procedure_checklist (
+          id SERIAL PRIMARY KEY,
+          user_procedure_id INTEGER NOT NULL,
+          step_id INTEGER,
+          category VARCHAR(50) DEFAULT 'general',
+          text TEXT NOT NULL,
+          is_completed BOOLEAN DEFAULT false,
+          created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+          updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+        )
+      `);
+    }
+
+    if (!await checkTableExists('user_procedure_documents')) {
+      logInfo('Creating user_procedure_documents table');
+      await db.execute(sql`
+        CREATE TABLE IF NOT EXISTS user_procedure_documents (
+          id SERIAL PRIMARY KEY,
+          user_procedure_id INTEGER NOT NULL,
+          step_id INTEGER,
+          related_form_id INTEGER,
+          name VARCHAR(255) NOT NULL,
+          description TEXT,
+          file_url TEXT,
+          file_type VARCHAR(50) NOT NULL,
+          status VARCHAR(20) DEFAULT 'draft',
+          created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+          updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+        )
+      `);
+    }
+
+    // Reminder deliveries; the unique index is what keeps sends idempotent
+    if (!await checkTableExists('reminder_deliveries')) {
+      logInfo('Creating reminder_deliveries table');
+      await db.execute(sql`
+        CREATE TABLE IF NOT EXISTS reminder_deliveries (
+          id SERIAL PRIMARY KEY,
+          reminder_id INTEGER NOT NULL REFERENCES user_procedure_reminders(id) ON DELETE CASCADE,
+          user_id INTEGER NOT NULL,
+          channel VARCHAR(10) NOT NULL,
+          occurrence_key VARCHAR(100) NOT NULL,
+          status VARCHAR(20) NOT NULL DEFAULT 'sending',
+          attempts INTEGER NOT NULL DEFAULT 1,
+          error TEXT,
+          message_id TEXT,
+          created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+          sent_at TIMESTAMP
+        )
+      `);
+      await db.execute(sql`
+        CREATE UNIQUE INDEX IF NOT EXISTS reminder_deliveries_occurrence_idx
+        ON reminder_deliveries (reminder_id, channel, occurrence_key)
+      `);
+    }
+
+    // Chat threads; messages from before threads existed move into one thread per user
+    if (!await checkTableExists('chat_threads')) {
+      logInfo('Creating chat_threads table');
+      await db.execute(sql`
+        CREATE TABLE IF NOT EXISTS chat_threads (
+          id SERIAL PRIMARY KEY,
+          user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+          title TEXT NOT NULL,
+          summary TEXT,
+          summarized_through_id INTEGER,
+          archived_at TIMESTAMP,
+          last_message_at TIMESTAMP,
+          created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+          updated_at TIMESTAMP
+        )
+      `);
+      await db.execute(sql`
+        CREATE INDEX IF NOT EXISTS chat_threads_user_idx ON chat_threads (user_id, last_message_at DESC)
+      `);
+    }
+
+    if (await checkTableExists('chat_messages') && !await checkColumnExists('chat_messages', 'thread_id')) {
+      logInfo('Adding thread_id to chat_messages table');
+      await db.execute(sql`
+        ALTER TABLE chat_messages
+        ADD COLUMN thread_id INTEGER REFERENCES chat_threads(id) ON DELETE CASCADE
+      `);
+      await db.execute(sql`
+        CREATE INDEX IF NOT EXISTS chat_messages_thread_idx ON chat_messages (thread_id, id)
+      `);
+
+      const threads = await db.execute(sql`
+        WITH earlier AS (
+          SELECT user_id, min(timestamp) AS first_at, max(timestamp) AS last_at
+          FROM chat_messages
+          WHERE thread_id IS NULL AND user_id IS NOT NULL
+          GROUP BY user_id
+        ), created AS (
+          INSERT INTO chat_threads (user_id, title, last_message_at, created_at, updated_at)
+          SELECT user_id, 'Earlier conversation', last_at, first_at, now() FROM earlier
+          RETURNING id, user_id
+        )
+        UPDATE chat_messages SET thread_id = created.id
+        FROM created
+        WHERE chat_messages.user_id = created.user_id AND chat_messages.thread_id IS NULL
+        RETURNING chat_messages.id
+      `);
+      logInfo(`Moved ${threads.length} existing chat messages into threads`);
+    }
+
+    if (await checkTableExists('conversation_contexts') && !await checkColumnExists('conversation_contexts', 'thread_id')) {
+      logInfo('Adding thread_id to conversation_contexts table');
+      await db.execute(sql`
+        ALTER TABLE conversation_contexts
+        ADD COLUMN thread_id INTEGER UNIQUE REFERENCES chat_threads(id) ON DELETE CASCADE
+      `);
+    }
+
+    // Reviewer workflow for escalated questions: assignment, SLA, drafts and follow-ups
+    if (await checkTableExists('escalated_questions') && !await checkColumnExists('escalated_questions', 'due_at')) {
+      logInfo('Adding reviewer workflow columns to escalated_questions table');
+      await db.execute(sql`
+        ALTER TABLE escalated_questions
+        ADD COLUMN urgency TEXT NOT NULL DEFAULT 'normal',
+        ADD COLUMN assigned_at TIMESTAMP,
+        ADD COLUMN due_at TIMESTAMP,
+        ADD COLUMN thread_id INTEGER REFERENCES chat_threads(id) ON DELETE SET NULL,
+        ADD COLUMN ai_answer TEXT,
+        ADD COLUMN draft_answer TEXT,
+        ADD COLUMN answered_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+        ADD COLUMN answered_at TIMESTAMP,
+        ADD COLUMN user_response TEXT,
+        ADD COLUMN parent_id INTEGER REFERENCES escalated_questions(id) ON DELETE SET NULL
+      `);
+      // Questions already waiting get the normal SLA from when they were asked
+      await db.execute(sql`
+        UPDATE escalated_questions
+        SET due_at = created_at + interval '72 hours'
+        WHERE status IN ('pending', 'assigned')
+      `);
+      await db.execute(sql`
+        CREATE INDEX IF NOT EXISTS escalated_questions_queue_idx ON escalated_questions (status, due_at)
+      `);
+    }
+
+    if (!await checkTableExists('escalation_notes')) {
+      logInfo('Creating escalation_notes table');
+      await db.execute(sql`
+        CREATE TABLE IF NOT EXISTS escalation_notes (
+          id SERIAL PRIMARY KEY,
+          question_id INTEGER NOT NULL REFERENCES escalated_questions(id) ON DELETE CASCADE,
+          author_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+          content TEXT NOT NULL,
+          created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+        )
+      `);
+      await db.execute(sql`
+        CREATE INDEX IF NOT EXISTS escalation_notes_question_idx ON escalation_notes (question_id)
+      `);
+    }
+
+    // Signatures bound to the proposal content they sign, verified by a one-time code
+    if (await checkTableExists('digital_signatures') && !await checkColumnExists('digital_signatures', 'content_hash')) {
+      logInfo('Adding signing ceremony columns to digital_signatures table');
+      await db.execute(sql`
+        ALTER TABLE digital_signatures
+        ADD COLUMN content_hash TEXT,
+        ADD COLUMN signer_name TEXT,
+        ADD COLUMN signer_email TEXT,
+        ADD COLUMN otp_hash TEXT,
+        ADD COLUMN otp_expires_at TIMESTAMP,
+        ADD COLUMN otp_attempts INTEGER NOT NULL DEFAULT 0,
+        ADD COLUMN signed_at TIMESTAMP,
+        ADD COLUMN invalidated_at TIMESTAMP,
+        ADD COLUMN invalidation_reason TEXT
+      `);
+      // Earlier signatures were never bound to the content they signed
+      await db.execute(sql`
+        UPDATE digital_signatures
+        SET signature_status = 'invalidated',
+            invalidated_at = now(),
+            invalidation_reason = 'Signed before signatures were bound to the proposal content'
+        WHERE signature_status IS DISTINCT FROM 'invalidated'
+      `);
+    }
+
+    if (await checkTableExists('digital_signatures') && !await checkColumnExists('digital_signatures', 'otp_sent_at')) {
+      logInfo('Adding otp_sent_at column to digital_signatures table');
+      await db.execute(sql`ALTER TABLE digital_signatures ADD COLUMN otp_sent_at TIMESTAMP`);
+    }
+
+    if (await checkTableExists('digital_signatures') && !await checkColumnExists('digital_signatures', 'certificate_seal')) {
+      logInfo('Adding certificate_seal column to digital_signatures table');
+      await db.execute(sql`ALTER TABLE digital_signatures ADD COLUMN certificate_seal TEXT`);
+    }
+
+    if (!await checkTableExists('signature_audit_events')) {
+      logInfo('Creating signature_audit_events table');
+      await db.execute(sql`
+        CREATE TABLE IF NOT EXISTS signature_audit_events (
+          id SERIAL PRIMARY KEY,
+          proposal_id INTEGER NOT NULL REFERENCES settlement_proposals(id) ON DELETE RESTRICT,
+          signature_id INTEGER REFERENCES digital_signatures(id) ON DELETE RESTRICT,
+          event_type TEXT NOT NULL,
+          actor_id INTEGER REFERENCES users(id) ON DELETE RESTRICT,
+          ip_address TEXT,
+          user_agent TEXT,
+          content_hash TEXT,
+          details JSONB,
+          previous_hash TEXT,
+          hash TEXT NOT NULL,
+          created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+        )
+      `);
+      await db.execute(sql`
+        CREATE INDEX IF NOT EXISTS signature_audit_events_proposal_idx ON signature_audit_events (proposal_id, id)
+      `);
+    }
+
+    // Every column of an audit event is hashed into the chain, so the rows must
+    // never change: referenced rows cannot be deleted from under them, and the
+    // table only accepts inserts
+    if (await checkTableExists('signature_audit_events') && !await checkTriggerExists('signature_audit_events_append_only')) {
+      logInfo('Making signature_audit_events append-only');
+      await db.execute(sql`
+        ALTER TABLE signature_audit_events
+        DROP CONSTRAINT IF EXISTS signature_audit_events_proposal_id_fkey,
+        DROP CONSTRAINT IF EXISTS signature_audit_events_signature_id_fkey,
+        DROP CONSTRAINT IF EXISTS signature_audit_events_actor_id_fkey,
+        ADD CONSTRAINT signature_audit_events_proposal_id_fkey
+          FOREIGN KEY (proposal_id) REFERENCES settlement_proposals(id) ON DELETE RESTRICT,
+        ADD CONSTRAINT signature_audit_events_signature_id_fkey
+          FOREIGN KEY (signature_id) REFERENCES digital_signatures(id) ON DELETE RESTRICT,
+        ADD CONSTRAINT signature_audit_events_actor_id_fkey
+          FOREIGN KEY (actor_id) REFERENCES users(id) ON DELETE RESTRICT
+      `);
+      await db.execute(sql`
+        CREATE OR REPLACE FUNCTION reject_signature_audit_event_change() RETURNS trigger AS $$
+        BEGIN
+          RAISE EXCEPTION 'signature_audit_events is append-only';
+        END;
+        $$ LANGUAGE plpgsql
+      `);
+      await db.execute(sql`
+        CREATE TRIGGER signature_audit_events_append_only
+        BEFORE UPDATE OR DELETE ON signature_audit_events
+        FOR EACH ROW EXECUTE FUNCTION reject_signature_audit_event_change()
+      `);
+    }
+
+    // Documents sent to DocuSeal for signing and the webhook deliveries already processed
+    if (!await checkTableExists('docuseal_submissions')) {
+      logInfo('Creating docuseal_submissions table');
+      await db.execute(sql`
+        CREATE TABLE IF NOT EXISTS docuseal_submissions (
+          id SERIAL PRIMARY KEY,
+          submission_id TEXT NOT NULL UNIQUE,
+          template_id TEXT NOT NULL,
+          source_type TEXT NOT NULL,
+          proposal_id INTEGER REFERENCES settlement_proposals(id) ON DELETE CASCADE,
+          generated_document_id INTEGER REFERENCES generated_documents(id) ON DELETE CASCADE,
+          content_hash TEXT NOT NULL,
+          created_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+          status TEXT NOT NULL DEFAULT 'pending',
+          submitters JSONB NOT NULL,
+          signed_storage_key TEXT,
+          signed_content_hash TEXT,
+          signed_file_size INTEGER,
+          signed_document_id INTEGER REFERENCES shared_documents(id) ON DELETE SET NULL,
+          completed_at TIMESTAMP,
+          created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+          updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+        )
+      `);
+      await db.execute(sql`
+        CREATE INDEX IF NOT EXISTS docuseal_submissions_proposal_idx ON docuseal_submissions (proposal_id)
+      `);
+      await db.execute(sql`
+        CREATE INDEX IF NOT EXISTS docuseal_submissions_generated_document_idx ON docuseal_submissions (generated_document_id)
+      `);
+    }
+
+    if (!await checkTableExists('docuseal_webhook_events')) {
+      logInfo('Creating docuseal_webhook_events table');
+      await db.execute(sql`
+        CREATE TABLE IF NOT EXISTS docuseal_webhook_events (
+          id SERIAL PRIMARY KEY,
+          event_key TEXT NOT NULL UNIQUE,
+          event_type TEXT NOT NULL,
+          received_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+        )
+      `);
+    }
+
+    // Counter-proposals link to the proposal they answer
+    if (await checkTableExists('settlement_proposals') && !await checkColumnExists('settlement_proposals', 'parent_proposal_id')) {
+      logInfo('Adding negotiation columns to settlement_proposals table');
+      await db.execute(sql`
+        ALTER TABLE settlement_proposals
+        ADD COLUMN parent_proposal_id INTEGER REFERENCES settlement_proposals(id) ON DELETE SET NULL,
+        ADD COLUMN round INTEGER NOT NULL DEFAULT 1,
+        ADD COLUMN lapsed_at TIMESTAMP
+      `);
+      await db.execute(sql`
+        CREATE INDEX IF NOT EXISTS settlement_proposals_parent_idx ON settlement_proposals (parent_proposal_id)
+      `);
+    }
+
+    if (!await checkTableExists('cost_rate_tables')) {
+      logInfo('Creating cost_rate_tables table');
+      await db.execute(sql`
+        CREATE TABLE IF NOT EXISTS cost_rate_tables (
+          id SERIAL PRIMARY KEY,
+          version INTEGER NOT NULL UNIQUE,
+          status TEXT NOT NULL DEFAULT 'draft',
+          notes TEXT,
+          data JSONB NOT NULL,
+          created_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+          published_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+          published_at TIMESTAMP,
+          created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+          updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+        )
+      `);
+    }
+
+    if (!await checkTableExists('cost_estimates')) {
+      logInfo('Creating cost_estimates table');
+      await db.execute(sql`
+        CREATE TABLE IF NOT EXISTS cost_estimates (
+          id SERIAL PRIMARY KEY,
+          user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+          title TEXT NOT NULL,
+          inputs JSONB NOT NULL,
+          rate_table_id INTEGER NOT NULL REFERENCES cost_rate_tables(id) ON DELETE RESTRICT,
+          rate_table_version INTEGER NOT NULL,
+          total_min INTEGER NOT NULL,
+          total_max INTEGER NOT NULL,
+          breakdown JSONB NOT NULL,
+          created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+        )
+      `);
+      await db.execute(sql`
+        CREATE INDEX IF NOT EXISTS cost_estimates_user_idx ON cost_estimates (user_id, created_at DESC)
+      `);
+    }
+
+    // Saved citations are filled in with what their citation says
+    if (await checkTableExists('saved_citations') && !await checkColumnExists('saved_citations', 'court')) {
+      logInfo('Adding citation detail columns to saved_citations table');
+      await db.execute(sql`
+        ALTER TABLE saved_citations
+        ADD COLUMN court TEXT,
+        ADD COLUMN year INTEGER,
+        ADD COLUMN jurisdiction TEXT,
+        ADD COLUMN formatted_citation TEXT
+      `);
+    }
+
+    // Research corpus documents imported from statute and case law dumps
+    if (!await checkTableExists('research_corpus_documents')) {
+      logInfo('Creating research_corpus_documents table');
+      await db.execute(sql`
+        CREATE TABLE IF NOT EXISTS research_corpus_documents (
+          id SERIAL PRIMARY KEY,
+          kind TEXT NOT NULL,
+          title TEXT NOT NULL,
+          citation TEXT NOT NULL,
+          citation_key TEXT NOT NULL,
+          jurisdiction TEXT DEFAULT 'canada',
+          court TEXT,
+          year INTEGER,
+          decision_date TEXT,
+          summary TEXT,
+          body TEXT,
+          key_points JSONB,
+          url TEXT,
+          language TEXT DEFAULT 'en',
+          source TEXT NOT NULL,
+          imported_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+          updated_at TIMESTAMP
+        )
+      `);
+      await db.execute(sql`
+        CREATE UNIQUE INDEX IF NOT EXISTS research_corpus_citation_idx
+        ON research_corpus_documents (kind, citation_key, language)
+      `);
+    }
+
+    // Full-text search over the knowledge tables
+    await createKnowledgeSearchConfigs();
+
+    const searchIndexes = [
+      { table: 'domain_knowledge', index: 'domain_knowledge_search_idx', columns: ['question', 'answer', 'tags', 'language'], document: domainKnowledgeSearchDocument },
+      { table: 'provincial_info', index: 'provincial_info_search_idx', columns: ['title', 'content', 'key_legislation', 'language'], document: provincialInfoSearchDocument },
+      { table: 'procedural_guides', index: 'procedural_guides_search_idx', columns: ['title', 'description', 'steps', 'language'], document: proceduralGuideSearchDocument },
+      { table: 'research_corpus_documents', index: 'research_corpus_search_idx', columns: ['title', 'citation', 'summary', 'body', 'key_points', 'language'], document: researchCorpusSearchDocument },
+    ];
+
+    for (const searchIndex of searchIndexes) {
+      const missingColumns: string[] = [];
+      for (const column of searchIndex.columns) {
+        if (!await checkColumnExists(searchIndex.table, column)) {
+          missingColumns.push(column);
+        }
+      }
+
+      if (missingColumns.length > 0) {
+        logWarn(`Skipping search index on ${searchIndex.table}; missing columns: ${missingColumns.join(', ')}`);
+        continue;
+      }
+
+      await db.execute(sql`
+        CREATE INDEX IF NOT EXISTS ${sql.raw(searchIndex.index)}
+        ON ${sql.raw(searchIndex.table)} USING GIN (${searchIndex.document})
+      `);
+    }
+
     logInfo('Database migrations completed successfully');
   } catch (error) {
     logError(`Database migration failed: ${(error as Error).message}`);
@@ -217,6 +887,60 @@ async function checkTableExists(tableName: string): Promise<boolean> {
   return result[0]?.exists === true;
 }
 
+/**
+ * Check if a trigger exists in the database
+ */
+async function checkTriggerExists(triggerName: string): Promise<boolean> {
+  const result = await db.execute(sql`
+    SELECT EXISTS (
+      SELECT FROM pg_trigger
+      WHERE tgname = ${triggerName}
+    ) AS exists
+  `);
+  return result[0]?.exists === true;
+}
+
+/**
+ * Create the legal_en and legal_fr text search configurations. They copy the
+ * built-in English and French configurations and, when the unaccent
+ * extension is available, strip accents before stemming.
+ */
+async function createKnowledgeSearchConfigs(): Promise<void> {
+  let unaccentAvailable = true;
+  try {
+    await db.execute(sql`CREATE EXTENSION IF NOT EXISTS unaccent`);
+  } catch (error) {
+    unaccentAvailable = false;
+    logWarn(`The unaccent extension is not available, so knowledge search will not fold accents: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const baseConfigs: Record<string, { copy: string; stemmer: string }> = {
+    en: { copy: 'english', stemmer: 'english_stem' },
+    fr: { copy: 'french', stemmer: 'french_stem' },
+  };
+
+  for (const language of Object.keys(SEARCH_CONFIGS) as (keyof typeof SEARCH_CONFIGS)[]) {
+    const name = SEARCH_CONFIGS[language];
+    const result = await db.execute(sql`
+      SELECT EXISTS (SELECT FROM pg_ts_config WHERE cfgname = ${name}) AS exists
+    `);
+    if (result[0]?.exists === true) {
+      continue;
+    }
+
+    logInfo(`Creating ${name} text search configuration`);
+    await db.execute(sql`
+      CREATE TEXT SEARCH CONFIGURATION ${sql.raw(name)} (COPY = ${sql.raw(baseConfigs[language].copy)})
+    `);
+    if (unaccentAvailable) {
+      await db.execute(sql`
+        ALTER TEXT SEARCH CONFIGURATION ${sql.raw(name)}
+        ALTER MAPPING FOR hword, hword_part, word WITH unaccent, ${sql.raw(baseConfigs[language].stemmer)}
+      `);
+    }
+  }
+}
+
 /**
  * Check if a column exists in a table
  */
@@ -8,6 +8,8 @@ import { enhanceDbClient } from "./utils/dbMiddleware";
 import { config, initializeConfig } from "./config";
 import { apiKeyManager } from "./utils/apiKeyManager";
 import { dbBackupManager } from "./utils/dbBackup";
+import { startReminderDispatcher } from "./lib/reminderDispatcher";
+import { startProposalLapsing } from "./lib/settlementNegotiation";
 
 // Setup global error handlers for unhandled exceptions
 setupUncaughtExceptionHandling();
@@ -20,7 +22,15 @@ enhanceDbClient(db);
 
 const app = express();
 // Increase JSON body parser size limit to handle larger file uploads (default is ~1MB)
-app.use(express.json({ limit: '50mb' }));
+app.use(express.json({
+  limit: '50mb',
+  // Webhooks are verified against the exact bytes that were signed
+  verify: (req, _res, buf) => {
+    if (req.url && req.url.startsWith('/api/docuseal/webhook')) {
+      (req as Request & { rawBody?: Buffer }).rawBody = buf;
+    }
+  },
+}));
 app.use(express.urlencoded({ extended: false, limit: '50mb' }));
 
 // Add Content Security Policy middleware to allow unsafe-eval for Firebase
@@ -83,6 +93,13 @@ app.post('/api/log-client-error', (req, res) => {
     logInfo("Initializing legal domains and knowledge base...");
     await storage.initializeLegalDomains();
     logInfo("Database initialization completed");
+
+    // Pick up predictions interrupted by the last shutdown
+    const { resumeCasePredictions } = await import("./lib/casePrediction");
+    const resumed = await resumeCasePredictions();
+    if (resumed > 0) {
+      logInfo(`Resumed ${resumed} case outcome prediction(s)`);
+    }
   } catch (error) {
     logError(`Database initialization error: ${(error as Error).message}`);
     console.error(error);
@@ -117,5 +134,11 @@ app.post('/api/log-client-error', (req, res) => {
       dbBackupManager.startScheduledBackups();
       logInfo(`Database backups scheduled (${config.BACKUP_FREQUENCY})`);
     }
+
+    // Send court procedure reminders as they come due
+    startReminderDispatcher();
+
+    // Lapse settlement proposals that expire unanswered
+    startProposalLapsing();
   });
 })();
@@ -6,13 +6,17 @@
  */
 
 import { Express, Request, Response } from 'express';
-import { isAuthenticated, isAdmin } from '../auth';
+import { requirePermission } from './permissions';
 import { 
   aiFeatureFlags, 
   updateFeatureFlags, 
   clearResponseCache, 
-  getCacheStats 
+  getCacheStats,
+  getAIServiceStatus,
+  resetProviderHealth
 } from './aiService';
+import { aiProviderRegistry } from './aiProviders';
+import { CacheService } from './cacheService';
 import { z } from 'zod';
 
 /**
@@ -20,12 +24,13 @@ import { z } from 'zod';
  */
 export function registerAdminRoutes(app: Express): void {
   // Get AI service status
-  app.get("/api/admin/ai-service/status", isAuthenticated, isAdmin, async (req: Request, res: Response) => {
+  app.get("/api/admin/ai-service/status", requirePermission('system:manage'), async (req: Request, res: Response) => {
     try {
       const cacheStats = await getCacheStats();
       res.json({
         featureFlags: aiFeatureFlags,
-        cacheStats
+        cacheStats,
+        ...getAIServiceStatus()
       });
     } catch (error) {
       console.error("Error getting AI service status:", error);
@@ -36,7 +41,7 @@ export function registerAdminRoutes(app: Express): void {
   });
 
   // Update feature flags
-  app.post("/api/admin/ai-service/feature-flags", isAuthenticated, isAdmin, (req: Request, res: Response) => {
+  app.post("/api/admin/ai-service/feature-flags", requirePermission('system:manage'), (req: Request, res: Response) => {
     try {
       // Validate input
       const schema = z.object({
@@ -65,8 +70,75 @@ export function registerAdminRoutes(app: Express): void {
     }
   });
 
+  // Reset a provider's circuit breaker (or every provider's when no name is given)
+  app.post("/api/admin/ai-service/providers/reset", requirePermission('system:manage'), (req: Request, res: Response) => {
+    try {
+      const schema = z.object({
+        provider: z.string().optional()
+      });
+
+      const parsed = schema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ 
+          message: "Invalid provider reset request", 
+          errors: parsed.error.errors 
+        });
+      }
+
+      if (parsed.data.provider && !aiProviderRegistry.get(parsed.data.provider)) {
+        return res.status(404).json({ message: "AI provider not found" });
+      }
+
+      resetProviderHealth(parsed.data.provider);
+      res.json({
+        success: true,
+        providers: getAIServiceStatus().providers
+      });
+    } catch (error) {
+      console.error("Error resetting AI provider health:", error);
+      res.status(500).json({ 
+        message: "Error resetting AI provider health" 
+      });
+    }
+  });
+
+  // Configure the semantic cache tier and optionally reset its hit/miss counters
+  app.post("/api/admin/ai-service/semantic-cache", requirePermission('system:manage'), (req: Request, res: Response) => {
+    try {
+      const schema = z.object({
+        threshold: z.number().gt(0).max(1).optional(),
+        resetStats: z.boolean().optional()
+      });
+
+      const parsed = schema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ 
+          message: "Invalid semantic cache settings", 
+          errors: parsed.error.errors 
+        });
+      }
+
+      if (parsed.data.threshold !== undefined) {
+        CacheService.setSemanticThreshold(parsed.data.threshold);
+      }
+      if (parsed.data.resetStats) {
+        CacheService.resetLookupStats();
+      }
+
+      res.json({
+        success: true,
+        lookups: CacheService.getLookupStats()
+      });
+    } catch (error) {
+      console.error("Error updating semantic cache settings:", error);
+      res.status(500).json({ 
+        message: "Error updating semantic cache settings" 
+      });
+    }
+  });
+
   // Clear AI response cache
-  app.post("/api/admin/ai-service/clear-cache", isAuthenticated, isAdmin, async (req: Request, res: Response) => {
+  app.post("/api/admin/ai-service/clear-cache", requirePermission('system:manage'), async (req: Request, res: Response) => {
     try {
       // Get stats before clearing for reporting
       const cacheStatsBefore = await getCacheStats();
@@ -0,0 +1,379 @@
+/**
+ * AI Provider Registry
+ *
+ * This module keeps track of the AI providers available to the AI service and
+ * decides which of them should handle a request. Each provider registers with
+ * a priority per task type (chat, research, contract analysis, compliance
+ * checks) and gets its own circuit breaker and rolling latency/error-rate
+ * statistics, so routing skips providers that are failing and prefers the
+ * healthiest of the rest.
+ *
+ * A deterministic local mock provider is registered as well; when mock mode is
+ * enabled it handles every request, which allows running offline.
+ */
+
+import { generateAIResponse as generateDeepSeekResponse } from "./deepseek";
+import { generateAIResponseClaude } from "./anthropic";
+import { generateAIResponse as generateOpenAIResponse } from "./openai";
+import { logger } from "./logger";
+
+export type AITaskType = "chat" | "research" | "contract" | "compliance";
+
+export const AI_TASK_TYPES: AITaskType[] = ["chat", "research", "contract", "compliance"];
+
+export interface AIProviderRequest {
+  system?: string;
+  temperature?: number;
+  maxTokens?: number;
+  model?: string;
+}
+
+/**
+ * A provider that can generate text completions. Lower route priorities are
+ * tried first; a provider without a priority for a task is never used for it.
+ */
+export interface AIProvider {
+  name: string;
+  label: string;
+  routes: Partial<Record<AITaskType, number>>;
+  isConfigured(): boolean;
+  generate(prompt: string, request: AIProviderRequest, task: AITaskType): Promise<string>;
+}
+
+export type CircuitState = "closed" | "open" | "half_open";
+
+export interface CircuitBreakerOptions {
+  failureThreshold: number; // Consecutive failures before the circuit opens
+  cooldownMs: number;       // Time an open circuit waits before a trial request
+}
+
+const DEFAULT_BREAKER_OPTIONS: CircuitBreakerOptions = {
+  failureThreshold: 3,
+  cooldownMs: 30000
+};
+
+// Number of recent calls used for latency and error-rate statistics
+const STATS_WINDOW = 50;
+
+// Error rate above which a provider is considered degraded and demoted
+const DEGRADED_ERROR_RATE = 0.5;
+
+interface CallSample {
+  success: boolean;
+  latencyMs: number;
+  at: number;
+}
+
+export interface ProviderStatus {
+  name: string;
+  label: string;
+  configured: boolean;
+  routes: Partial<Record<AITaskType, number>>;
+  circuit: {
+    state: CircuitState;
+    consecutiveFailures: number;
+    openedAt: string | null;
+    retryAt: string | null;
+  };
+  stats: {
+    calls: number;
+    errorRate: number;
+    avgLatencyMs: number | null;
+    p95LatencyMs: number | null;
+    lastSuccessAt: string | null;
+    lastFailureAt: string | null;
+    lastError: string | null;
+  };
+}
+
+/**
+ * Per-provider circuit breaker with a rolling window of call samples
+ */
+class ProviderHealth {
+  private state: CircuitState = "closed";
+  private consecutiveFailures = 0;
+  private openedAt: number | null = null;
+  private trialInFlight = false;
+  private samples: CallSample[] = [];
+  private lastSuccessAt: number | null = null;
+  private lastFailureAt: number | null = null;
+  private lastError: string | null = null;
+
+  constructor(private options: CircuitBreakerOptions) {}
+
+  /**
+   * Whether the circuit would currently let a request through. An open
+   * circuit moves to half-open once the cooldown has elapsed.
+   */
+  isAvailable(now = Date.now()): boolean {
+    if (this.state === "open" && this.openedAt !== null && now - this.openedAt >= this.options.cooldownMs) {
+      this.state = "half_open";
+    }
+    return this.state === "closed" || (this.state === "half_open" && !this.trialInFlight);
+  }
+
+  /**
+   * Claim permission to send a request. A half-open circuit admits a single
+   * trial request until its outcome is recorded.
+   */
+  acquire(): boolean {
+    if (!this.isAvailable()) {
+      return false;
+    }
+    if (this.state === "half_open") {
+      this.trialInFlight = true;
+    }
+    return true;
+  }
+
+  recordSuccess(latencyMs: number): void {
+    this.addSample({ success: true, latencyMs, at: Date.now() });
+    this.lastSuccessAt = Date.now();
+    this.consecutiveFailures = 0;
+    this.trialInFlight = false;
+    this.state = "closed";
+    this.openedAt = null;
+  }
+
+  recordFailure(latencyMs: number, error: unknown): void {
+    this.addSample({ success: false, latencyMs, at: Date.now() });
+    this.lastFailureAt = Date.now();
+    this.lastError = error instanceof Error ? error.message : String(error);
+    this.consecutiveFailures++;
+
+    // A failed trial re-opens the circuit immediately
+    if (this.state === "half_open" || this.consecutiveFailures >= this.options.failureThreshold) {
+      this.state = "open";
+      this.openedAt = Date.now();
+    }
+    this.trialInFlight = false;
+  }
+
+  get errorRate(): number {
+    if (this.samples.length === 0) return 0;
+    return this.samples.filter(sample => !sample.success).length / this.samples.length;
+  }
+
+  get avgLatencyMs(): number | null {
+    if (this.samples.length === 0) return null;
+    return Math.round(this.samples.reduce((sum, sample) => sum + sample.latencyMs, 0) / this.samples.length);
+  }
+
+  reset(): void {
+    this.state = "closed";
+    this.consecutiveFailures = 0;
+    this.openedAt = null;
+    this.trialInFlight = false;
+    this.samples = [];
+    this.lastError = null;
+  }
+
+  snapshot(): Pick<ProviderStatus, "circuit" | "stats"> {
+    this.isAvailable();
+
+    const latencies = this.samples.map(sample => sample.latencyMs).sort((a, b) => a - b);
+    const p95 = latencies.length > 0
+      ? latencies[Math.min(latencies.length - 1, Math.ceil(latencies.length * 0.95) - 1)]
+      : null;
+
+    return {
+      circuit: {
+        state: this.state,
+        consecutiveFailures: this.consecutiveFailures,
+        openedAt: this.openedAt ? new Date(this.openedAt).toISOString() : null,
+        retryAt: this.state === "open" && this.openedAt
+          ? new Date(this.openedAt + this.options.cooldownMs).toISOString()
+          : null
+      },
+      stats: {
+        calls: this.samples.length,
+        errorRate: Number(this.errorRate.toFixed(3)),
+        avgLatencyMs: this.avgLatencyMs,
+        p95LatencyMs: p95,
+        lastSuccessAt: this.lastSuccessAt ? new Date(this.lastSuccessAt).toISOString() : null,
+        lastFailureAt: this.lastFailureAt ? new Date(this.lastFailureAt).toISOString() : null,
+        lastError: this.lastError
+      }
+    };
+  }
+
+  private addSample(sample: CallSample): void {
+    this.samples.push(sample);
+    if (this.samples.length > STATS_WINDOW) {
+      this.samples.shift();
+    }
+  }
+}
+
+/**
+ * Registry of AI providers with health-aware routing
+ */
+export class AIProviderRegistry {
+  private providers = new Map<string, { provider: AIProvider; health: ProviderHealth }>();
+
+  constructor(private breakerOptions: CircuitBreakerOptions = DEFAULT_BREAKER_OPTIONS) {}
+
+  /**
+   * Register a provider, replacing any existing provider with the same name
+   */
+  register(provider: AIProvider, breakerOptions?: Partial<CircuitBreakerOptions>): void {
+    this.providers.set(provider.name, {
+      provider,
+      health: new ProviderHealth({ ...this.breakerOptions, ...breakerOptions })
+    });
+    logger.debug(`[ai-providers] Registered provider ${provider.name}`);
+  }
+
+  unregister(name: string): boolean {
+    return this.providers.delete(name);
+  }
+
+  get(name: string): AIProvider | undefined {
+    return this.providers.get(name)?.provider;
+  }
+
+  /**
+   * Providers eligible for a task, in the order they should be tried.
+   * Configured providers routed for the task are ordered by priority, with
+   * degraded providers (high recent error rate) moved behind healthy ones.
+   * Providers whose circuit is open are left out. In mock mode only the
+   * local mock provider is returned.
+   */
+  route(task: AITaskType, options: { mockOnly?: boolean } = {}): AIProvider[] {
+    if (options.mockOnly) {
+      const mock = this.get(MOCK_PROVIDER_NAME);
+      return mock ? [mock] : [];
+    }
+
+    return Array.from(this.providers.values())
+      .filter(({ provider }) =>
+        provider.name !== MOCK_PROVIDER_NAME &&
+        provider.routes[task] !== undefined &&
+        provider.isConfigured()
+      )
+      .sort((a, b) => {
+        const aDegraded = a.health.errorRate > DEGRADED_ERROR_RATE ? 1 : 0;
+        const bDegraded = b.health.errorRate > DEGRADED_ERROR_RATE ? 1 : 0;
+        if (aDegraded !== bDegraded) return aDegraded - bDegraded;
+        return a.provider.routes[task]! - b.provider.routes[task]!;
+      })
+      .filter(({ health }) => health.isAvailable())
+      .map(({ provider }) => provider);
+  }
+
+  /**
+   * Run a request against a provider, recording latency and outcome
+   */
+  async execute(
+    provider: AIProvider,
+    prompt: string,
+    request: AIProviderRequest,
+    task: AITaskType
+  ): Promise<string> {
+    const entry = this.providers.get(provider.name);
+    if (entry && !entry.health.acquire()) {
+      throw new Error(`AI provider ${provider.name} is unavailable (circuit open)`);
+    }
+
+    const startTime = Date.now();
+    try {
+      const response = await provider.generate(prompt, request, task);
+      entry?.health.recordSuccess(Date.now() - startTime);
+      return response;
+    } catch (error) {
+      entry?.health.recordFailure(Date.now() - startTime, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Close a provider's circuit and clear its statistics
+   */
+  reset(name?: string): void {
+    this.providers.forEach((entry, key) => {
+      if (!name || key === name) {
+        entry.health.reset();
+      }
+    });
+  }
+
+  getStatus(): ProviderStatus[] {
+    return Array.from(this.providers.values()).map(({ provider, health }) => ({
+      name: provider.name,
+      label: provider.label,
+      configured: provider.isConfigured(),
+      routes: provider.routes,
+      ...health.snapshot()
+    }));
+  }
+}
+
+export const MOCK_PROVIDER_NAME = "local-mock";
+
+/**
+ * FNV-1a hash, used to make mock responses stable for a given prompt
+ */
+function fingerprint(text: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, "0");
+}
+
+/**
+ * Deterministic offline provider. The same prompt, system prompt and task
+ * always produce the same response, and prompts asking for JSON get JSON.
+ */
+export const localMockProvider: AIProvider = {
+  name: MOCK_PROVIDER_NAME,
+  label: "Local mock",
+  routes: { chat: 99, research: 99, contract: 99, compliance: 99 },
+  isConfigured: () => true,
+  async generate(prompt, request, task) {
+    const id = fingerprint(`${task}\n${request.system || ""}\n${prompt}`);
+    const excerpt = prompt.replace(/\s+/g, " ").trim().slice(0, 80);
+
+    if (/\bJSON\b/.test(prompt) || /\bJSON\b/.test(request.system || "")) {
+      return JSON.stringify({
+        mock: true,
+        fingerprint: id,
+        task,
+        summary: `Mock ${task} response for: ${excerpt}`
+      });
+    }
+
+    return `[mock ${task} ${id}] This is a deterministic offline response for: "${excerpt}". ` +
+      "It is generated locally for testing and does not contain legal information.";
+  }
+};
+
+// Built-in providers; chat favours OpenAI, research, contract and compliance work favour Claude
+export const aiProviderRegistry = new AIProviderRegistry();
+
+aiProviderRegistry.register({
+  name: "openai",
+  label: "OpenAI",
+  routes: { chat: 1, research: 2, contract: 2, compliance: 2 },
+  isConfigured: () => !!process.env.OPENAI_API_KEY,
+  generate: (prompt, request) => generateOpenAIResponse(prompt, request)
+});
+
+aiProviderRegistry.register({
+  name: "anthropic",
+  label: "Anthropic Claude",
+  routes: { chat: 2, research: 1, contract: 1, compliance: 1 },
+  isConfigured: () => !!process.env.ANTHROPIC_API_KEY,
+  generate: (prompt, request) => generateAIResponseClaude(prompt, request)
+});
+
+aiProviderRegistry.register({
+  name: "deepseek",
+  label: "DeepSeek",
+  routes: { chat: 3, research: 3, contract: 3, compliance: 3 },
+  isConfigured: () => !!process.env.DEEPSEEK_API_KEY,
+  generate: (prompt, request) => generateDeepSeekResponse(prompt, request)
+});
+
+aiProviderRegistry.register(localMockProvider);
@@ -2,8 +2,8 @@
  * Enhanced AI Service Module
  * 
  * This module provides a central interface for all AI operations with:
- * 1. Tiered fallback mechanism between different AI providers
- * 2. Request caching for frequently asked questions
+ * 1. Health-based routing and fallback across registered AI providers (see aiProviders.ts)
+ * 2. Request caching for frequently asked questions, including a semantic tier for similar prompts
  * 3. Rate limiting and request queueing
  * 4. Detailed error tracking and logging
  * 5. Feature flags for development control
@@ -11,9 +11,7 @@
 
 import OpenAI from "openai";
 import Anthropic from "@anthropic-ai/sdk";
-import { generateAIResponse as generateDeepSeekResponse } from "./deepseek";
-import { generateAIResponseClaude } from "./anthropic";
-import { generateAIResponse as generateOpenAIResponse } from "./openai";
+import { aiProviderRegistry, type AITaskType, type ProviderStatus } from "./aiProviders";
 import { CacheService } from "./cacheService";
 import { db } from "../db";
 import { aiResponseCache } from "@shared/schema";
@@ -22,6 +20,7 @@ import { eq, sql } from "drizzle-orm";
 // Feature flags
 export const aiFeatureFlags = {
   useCache: true,                 // Use response caching
+  useSemanticCache: true,         // Match similar (not just identical) prompts in the cache
   useRequestQueue: true,          // Use request queueing
   streamingResponses: false,      // Stream responses (not fully implemented yet)
   enableAIChatAssistant: true,    // Enable AI chat assistant
@@ -29,7 +28,8 @@ export const aiFeatureFlags = {
   enableAILegalResearch: true,    // Enable AI legal research
   enableAIContractAnalysis: true, // Enable AI contract analysis
   fallbackEnabled: true,          // Enable fallback between providers
-  detailedLogging: true           // Enable detailed logging
+  detailedLogging: true,          // Enable detailed logging
+  useMockProvider: process.env.AI_MOCK_PROVIDER === 'true' // Route all requests to the local mock provider
 };
 
 // Request Queue Implementation
@@ -48,6 +48,14 @@ class RequestQueue {
     this.runningCount = 0;
   }
 
+  getStats(): { concurrencyLimit: number; running: number; pending: number } {
+    return {
+      concurrencyLimit: this.concurrencyLimit,
+      running: this.runningCount,
+      pending: this.queue.length
+    };
+  }
+
   enqueue<T>(requestFn: () => Promise<T>): Promise<T> {
     return new Promise<T>((resolve, reject) => {
       this.queue.push({ requestFn, resolve, reject });
@@ -75,8 +83,8 @@ class RequestQueue {
   }
 }
 
-// Initialize the request queue
-const aiRequestQueue = new RequestQueue(3); // Allow 3 concurrent requests
+// Initialize the request queue; concurrency defaults to 3 and can be tuned per deployment
+const aiRequestQueue = new RequestQueue(Number(process.env.AI_REQUEST_CONCURRENCY) || 3);
 
 // In-memory cache implementation
 interface CachedResponse<T> {
@@ -98,10 +106,12 @@ interface AIServiceOptions {
   model?: string;
   logPrefix?: string;
   skipFallback?: boolean;
+  taskType?: AITaskType;
+  semanticCache?: boolean;
 }
 
 /**
- * Core AI request function with tiered fallback between providers
+ * Core AI request function with health-based routing and fallback between providers
  */
 export async function enhancedAIRequest<T>(
   prompt: string, 
@@ -110,6 +120,7 @@ export async function enhancedAIRequest<T>(
   // Apply feature flags
   const useCache = options.useCache !== undefined ? options.useCache : aiFeatureFlags.useCache;
   const logPrefix = options.logPrefix || "AI Request";
+  const taskType = options.taskType || "chat";
   
   // Generate cache key if caching is enabled
   const cacheKey = useCache ? (options.cacheKey || `${prompt}-${JSON.stringify(options)}`) : undefined;
@@ -126,6 +137,7 @@ export async function enhancedAIRequest<T>(
       
       if (cachedResponse) {
         console.log(`${logPrefix}: DB Cache hit for prompt (key=${cacheKey.substring(0, 20)}...)`);
+        CacheService.recordLookup('exact');
         return cachedResponse as unknown as T;
       }
       
@@ -134,9 +146,23 @@ export async function enhancedAIRequest<T>(
         const cached = responseCache.get(cacheKey)!;
         if (Date.now() - cached.timestamp < CACHE_TTL) {
           console.log(`${logPrefix}: Memory cache hit for prompt (key=${cacheKey.substring(0, 20)}...)`);
+          CacheService.recordLookup('memory');
           return cached.response as T;
         }
       }
+      
+      // Finally look for an answer to a similar, previously asked prompt
+      const useSemanticCache = options.semanticCache !== undefined ? options.semanticCache : aiFeatureFlags.useSemanticCache;
+      if (useSemanticCache) {
+        const similar = await CacheService.getSimilar(options.model || 'default', prompt, options);
+        if (similar) {
+          console.log(`${logPrefix}: Semantic cache hit (similarity=${similar.similarity.toFixed(3)})`);
+          CacheService.recordLookup('semantic', similar.similarity);
+          return similar.response as unknown as T;
+        }
+      }
+      
+      CacheService.recordLookup('miss');
     } catch (error) {
       console.warn(`${logPrefix}: Cache lookup failed, continuing with live request`, error);
     }
@@ -199,143 +225,125 @@ export async function enhancedAIRequest<T>(
     return await processTieredRequest();
   }
 
-  // Process request with fallback tiers
+  // Process request against the providers routed for this task, in order
   async function processTieredRequest(): Promise<T> {
-    // Start with OpenAI for better reliability
-    try {
-      return await trackRequest("OpenAI", async () => {
-        const response = await generateOpenAIResponse(prompt, {
-          system: options.system,
-          temperature: options.temperature,
-          maxTokens: options.maxTokens,
-          model: options.model
-        });
-        return response as unknown as T;
-      });
-    } catch (openaiError) {
-      // Log OpenAI failure
-      console.warn(`${logPrefix}: OpenAI provider failed, trying Anthropic Claude.`, openaiError);
-      
-      // Skip fallback if disabled
-      if (!aiFeatureFlags.fallbackEnabled || options.skipFallback) {
-        throw openaiError;
+    const providers = aiProviderRegistry.route(taskType, { mockOnly: aiFeatureFlags.useMockProvider });
+    let lastError: unknown = new Error(`No AI provider available for ${taskType} requests`);
+
+    // Skip fallback if disabled
+    const canFallback = aiFeatureFlags.fallbackEnabled && !options.skipFallback;
+
+    for (let index = 0; index < providers.length; index++) {
+      const provider = providers[index];
+      if (index > 0 && !canFallback) {
+        throw lastError;
       }
-      
+
       try {
-        // Try Anthropic Claude next
-        return await trackRequest("Anthropic Claude", async () => {
-          const response = await generateAIResponseClaude(prompt, {
+        return await trackRequest(provider.label, async () => {
+          const response = await aiProviderRegistry.execute(provider, prompt, {
             system: options.system,
             temperature: options.temperature,
             maxTokens: options.maxTokens,
             model: options.model
-          });
+          }, taskType);
           return response as unknown as T;
         });
-      } catch (claudeError) {
-        // Log Claude failure
-        console.warn(`${logPrefix}: Anthropic Claude failed, trying DeepSeek.`, claudeError);
-        
-        // Final fallback to DeepSeek
-        try {
-          return await trackRequest("DeepSeek", async () => {
-            const response = await generateDeepSeekResponse(prompt, {
-              system: options.system,
-              temperature: options.temperature,
-              maxTokens: options.maxTokens,
-              model: options.model
-            });
-            return response as unknown as T;
-          });
-        } catch (deepseekError) {
-          // All providers failed - implement sophisticated emergency fallback
-          console.error(`${logPrefix}: All AI providers failed.`, deepseekError);
-          
-          // Determine error type to provide more specific guidance
-          const errorString = String(deepseekError);
-          const isTokenLimitError = 
-            errorString.includes("context length") || 
-            errorString.includes("maximum token") || 
-            errorString.includes("too long");
-          
-          const isRateLimitError = 
-            errorString.includes("rate limit") || 
-            errorString.includes("requests per minute") ||
-            errorString.includes("quota");
-            
-          const isAuthError =
-            errorString.includes("authentication") ||
-            errorString.includes("api key") ||
-            errorString.includes("unauthorized");
-            
-          // Create a tailored emergency fallback response
-          let fallbackResponse = "";
-          let errorType = "unknown";
-          
-          if (isTokenLimitError) {
-            errorType = "token_limit";
-            fallbackResponse = 
-              "I apologize, but your request contains too much text for me to process at once. " +
-              "Please try breaking it into smaller parts or summarizing the key points you'd like me to address. " +
-              "For documents, consider focusing on specific sections rather than the entire text.";
-          } else if (isRateLimitError) {
-            errorType = "rate_limit"; 
-            fallbackResponse = 
-              "I apologize, but we're currently experiencing high demand on our AI services. " +
-              "Please try again in a few minutes when our systems are less busy. " +
-              "If you're working with time-sensitive information, try simplifying your request or breaking it into smaller parts.";
-          } else if (isAuthError) {
-            errorType = "auth_error";
-            fallbackResponse = 
-              "There appears to be an authentication issue with our AI services. " +
-              "Our team has been notified and is working to resolve this problem. " +
-              "Please try again in a few minutes or contact support if this issue persists.";
-          } else {
-            errorType = "general_error";
-            fallbackResponse = 
-              "I apologize, but I'm currently experiencing technical difficulties processing your request. " +
-              "This might be due to temporary service issues or limitations with processing your specific input. " +
-              "Please try again with different wording or after a short delay. " +
-              "If the problem continues, contact support for assistance.";
-          }
-          
-          // Log detailed error for monitoring
-          console.error(`Emergency fallback activated: ${errorType} error detected in AI request`, {
-            promptLength: prompt.length,
-            errorType,
-            originalError: String(deepseekError).substring(0, 500) // Truncate for readability
-          });
-          
-          if (useCache && cacheKey) {
-            // Don't cache error responses for too long
-            responseCache.set(cacheKey, {
-              response: { 
-                content: fallbackResponse,
-                error: true,
-                errorType,
-                timestamp: new Date().toISOString()
-              } as unknown as T,
-              timestamp: Date.now() - (CACHE_TTL - 60000) // Cache for just 1 minute
-            });
-          }
-          
-          // For structured responses where we expect a specific format,
-          // we need to handle this differently - return a fallback object
-          // that will be recognized by the calling code
-          if (typeof prompt === 'object' || prompt.includes('JSON') || options.system?.includes('JSON')) {
-            // This might be expecting a structured response
-            return {
-              error: true,
-              errorType,
-              message: fallbackResponse,
-              fallback: true
-            } as unknown as T;
-          }
-          
-          return fallbackResponse as unknown as T;
-        }
+      } catch (providerError) {
+        lastError = providerError;
+        const next = canFallback ? providers[index + 1] : undefined;
+        console.warn(
+          `${logPrefix}: ${provider.label} provider failed${next ? `, trying ${next.label}.` : "."}`,
+          providerError
+        );
       }
     }
+
+    // All providers failed - implement sophisticated emergency fallback
+    console.error(`${logPrefix}: All AI providers failed.`, lastError);
+    
+    // Determine error type to provide more specific guidance
+    const errorString = String(lastError);
+    const isTokenLimitError = 
+      errorString.includes("context length") || 
+      errorString.includes("maximum token") || 
+      errorString.includes("too long");
+    
+    const isRateLimitError = 
+      errorString.includes("rate limit") || 
+      errorString.includes("requests per minute") ||
+      errorString.includes("quota");
+      
+    const isAuthError =
+      errorString.includes("authentication") ||
+      errorString.includes("api key") ||
+      errorString.includes("unauthorized");
+      
+    // Create a tailored emergency fallback response
+    let fallbackResponse = "";
+    let errorType = "unknown";
+    
+    if (isTokenLimitError) {
+      errorType = "token_limit";
+      fallbackResponse = 
+        "I apologize, but your request contains too much text for me to process at once. " +
+        "Please try breaking it into smaller parts or summarizing the key points you'd like me to address. " +
+        "For documents, consider focusing on specific sections rather than the entire text.";
+    } else if (isRateLimitError) {
+      errorType = "rate_limit"; 
+      fallbackResponse = 
+        "I apologize, but we're currently experiencing high demand on our AI services. " +
+        "Please try again in a few minutes when our systems are less busy. " +
+        "If you're working with time-sensitive information, try simplifying your request or breaking it into smaller parts.";
+    } else if (isAuthError) {
+      errorType = "auth_error";
+      fallbackResponse = 
+        "There appears to be an authentication issue with our AI services. " +
+        "Our team has been notified and is working to resolve this problem. " +
+        "Please try again in a few minutes or contact support if this issue persists.";
+    } else {
+      errorType = "general_error";
+      fallbackResponse = 
+        "I apologize, but I'm currently experiencing technical difficulties processing your request. " +
+        "This might be due to temporary service issues or limitations with processing your specific input. " +
+        "Please try again with different wording or after a short delay. " +
+        "If the problem continues, contact support for assistance.";
+    }
+    
+    // Log detailed error for monitoring
+    console.error(`Emergency fallback activated: ${errorType} error detected in AI request`, {
+      promptLength: prompt.length,
+      errorType,
+      originalError: String(lastError).substring(0, 500) // Truncate for readability
+    });
+    
+    if (useCache && cacheKey) {
+      // Don't cache error responses for too long
+      responseCache.set(cacheKey, {
+        response: { 
+          content: fallbackResponse,
+          error: true,
+          errorType,
+          timestamp: new Date().toISOString()
+        } as unknown as T,
+        timestamp: Date.now() - (CACHE_TTL - 60000) // Cache for just 1 minute
+      });
+    }
+    
+    // For structured responses where we expect a specific format,
+    // we need to handle this differently - return a fallback object
+    // that will be recognized by the calling code
+    if (typeof prompt === 'object' || prompt.includes('JSON') || options.system?.includes('JSON')) {
+      // This might be expecting a structured response
+      return {
+        error: true,
+        errorType,
+        message: fallbackResponse,
+        fallback: true
+      } as unknown as T;
+    }
+    
+    return fallbackResponse as unknown as T;
   }
 }
 
@@ -458,17 +466,20 @@ export async function clearResponseCache(): Promise<void> {
  */
 export async function getCacheStats(): Promise<{ 
   memoryCache: { size: number, keys: string[] },
-  databaseCache?: { count: number, providers: Record<string, number> }
+  databaseCache?: { count: number, providers: Record<string, number> },
+  lookups: ReturnType<typeof CacheService.getLookupStats>
 }> {
   // Get basic memory cache stats
   const stats: {
     memoryCache: { size: number, keys: string[] },
-    databaseCache?: { count: number, providers: Record<string, number> }
+    databaseCache?: { count: number, providers: Record<string, number> },
+    lookups: ReturnType<typeof CacheService.getLookupStats>
   } = {
     memoryCache: {
       size: responseCache.size,
       keys: Array.from(responseCache.keys())
-    }
+    },
+    lookups: CacheService.getLookupStats()
   };
   
   // Try to get database cache stats
@@ -504,4 +515,34 @@ export function updateFeatureFlags(flags: Partial<typeof aiFeatureFlags>): typeo
   Object.assign(aiFeatureFlags, flags);
   console.log("AI feature flags updated:", aiFeatureFlags);
   return aiFeatureFlags;
-}
\ No newline at end of file
+}
+/**
+ * Get provider routing, circuit breaker and queue state
+ */
+export function getAIServiceStatus(): {
+  mockMode: boolean;
+  providers: ProviderStatus[];
+  routing: Record<AITaskType, string[]>;
+  queue: { concurrencyLimit: number; running: number; pending: number };
+} {
+  const mockOnly = aiFeatureFlags.useMockProvider;
+  return {
+    mockMode: mockOnly,
+    providers: aiProviderRegistry.getStatus(),
+    routing: {
+      chat: aiProviderRegistry.route("chat", { mockOnly }).map(provider => provider.name),
+      research: aiProviderRegistry.route("research", { mockOnly }).map(provider => provider.name),
+      contract: aiProviderRegistry.route("contract", { mockOnly }).map(provider => provider.name),
+      compliance: aiProviderRegistry.route("compliance", { mockOnly }).map(provider => provider.name)
+    },
+    queue: aiRequestQueue.getStats()
+  };
+}
+
+/**
+ * Close the circuit breaker and clear statistics for one provider, or all of them
+ */
+export function resetProviderHealth(name?: string): void {
+  aiProviderRegistry.reset(name);
+  console.log(`AI provider health reset: ${name || "all providers"}`);
+}
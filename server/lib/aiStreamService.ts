@@ -6,7 +6,7 @@
  */
 
 import { Readable } from 'stream';
-import { Request, Response } from 'express';
+import { Response } from 'express';
 import { aiFeatureFlags } from './aiService';
 import OpenAI from "openai";
 import Anthropic from "@anthropic-ai/sdk";
@@ -17,23 +17,36 @@ const anthropic = new Anthropic({
   apiKey: process.env.ANTHROPIC_API_KEY,
 });
 
+const DEFAULT_SYSTEM_PROMPT = `You are an AI legal assistant specialized in Canadian law. 
+            Provide helpful, accurate information about Canadian legal topics. 
+            Always clarify that you are not providing legal advice and recommend consulting a qualified lawyer for specific legal issues.
+            Focus on Canadian legal frameworks, regulations, and precedents.
+            Be respectful, concise, and easy to understand.
+            Avoid excessive legalese, but maintain accuracy in legal concepts.`;
+
+export interface StreamRequest {
+  prompt: string; // The full user turn, including any conversation history
+  system?: string; // Defaults to the general legal assistant prompt
+}
+
 /**
- * Stream an AI response to the client using Express
+ * Stream an AI response to the client using Express. Resolves with the
+ * streamed text, or null when no provider could answer.
  */
-export async function streamAIResponse(req: Request, res: Response): Promise<void> {
+export async function streamAIResponse(res: Response, request: StreamRequest): Promise<string | null> {
   if (!aiFeatureFlags.streamingResponses) {
     res.status(503).json({ 
       error: "Streaming responses are currently disabled" 
     });
-    return;
+    return null;
   }
 
   try {
-    const { message } = req.body;
+    const { prompt, system = DEFAULT_SYSTEM_PROMPT } = request;
 
-    if (!message) {
+    if (!prompt) {
       res.status(400).json({ error: "No message provided" });
-      return;
+      return null;
     }
 
     // Set up headers for streaming
@@ -53,32 +66,29 @@ export async function streamAIResponse(req: Request, res: Response): Promise<voi
         messages: [
           {
             role: "system",
-            content: `You are an AI legal assistant specialized in Canadian law. 
-            Provide helpful, accurate information about Canadian legal topics. 
-            Always clarify that you are not providing legal advice and recommend consulting a qualified lawyer for specific legal issues.
-            Focus on Canadian legal frameworks, regulations, and precedents.
-            Be respectful, concise, and easy to understand.
-            Avoid excessive legalese, but maintain accuracy in legal concepts.`
+            content: system
           },
           {
             role: "user",
-            content: message
+            content: prompt
           }
         ],
         stream: true,
       });
 
       // Send each chunk as it arrives
+      let text = '';
       for await (const chunk of stream) {
         const content = chunk.choices[0]?.delta?.content || '';
         if (content) {
           res.write(content);
+          text += content;
         }
       }
 
       // End the response
       res.end();
-      return;
+      return text;
     } catch (error) {
       console.error("OpenAI streaming failed, trying Claude:", error);
       streamFailed = true;
@@ -90,21 +100,17 @@ export async function streamAIResponse(req: Request, res: Response): Promise<voi
         const stream = await anthropic.messages.stream({
           model: "claude-3-7-sonnet-20250219", // the newest Anthropic model
           max_tokens: 1024,
-          system: `You are an AI legal assistant specialized in Canadian law. 
-          Provide helpful, accurate information about Canadian legal topics. 
-          Always clarify that you are not providing legal advice and recommend consulting a qualified lawyer for specific legal issues.
-          Focus on Canadian legal frameworks, regulations, and precedents.
-          Be respectful, concise, and easy to understand.
-          Avoid excessive legalese, but maintain accuracy in legal concepts.`,
+          system,
           messages: [
             {
               role: 'user',
-              content: message
+              content: prompt
             }
           ],
         });
 
         // Send each text fragment as it arrives
+        let text = '';
         for await (const messageStreamEvent of stream) {
           if (messageStreamEvent.type === "content_block_delta" && messageStreamEvent.delta) {
             // Safely access the text property
@@ -112,20 +118,24 @@ export async function streamAIResponse(req: Request, res: Response): Promise<voi
             const textFragment = delta.text;
             if (textFragment) {
               res.write(textFragment);
+              text += textFragment;
             }
           }
         }
 
         // End the response
         res.end();
+        return text;
       } catch (error) {
         console.error("Claude streaming failed:", error);
         res.status(500).json({ error: "All streaming providers failed" });
       }
     }
+    return null;
   } catch (error) {
     console.error("Error streaming AI response:", error);
     res.status(500).json({ error: "Failed to stream response" });
+    return null;
   }
 }
 
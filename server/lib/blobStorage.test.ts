@@ -0,0 +1,360 @@
+import { test, describe, before, after, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'crypto';
+import http from 'http';
+import os from 'os';
+import path from 'path';
+import { promises as fs } from 'fs';
+import type { AddressInfo } from 'net';
+import type { Readable } from 'stream';
+import {
+  BlobStorageError,
+  LocalBlobStorage,
+  S3BlobStorage,
+  getBlobStorage,
+  parseRangeHeader,
+  resolveContentType,
+  setBlobStorage,
+  sniffMimeType,
+  storeBlob,
+} from './blobStorage';
+
+const BUCKET = 'evidence';
+const REGION = 'ca-central-1';
+const ACCESS_KEY_ID = 'AKIDEXAMPLE';
+const SECRET_ACCESS_KEY = 'stub-secret-key';
+
+const PDF = Buffer.from('%PDF-1.4\n1 0 obj << /Type /Catalog >> endobj\ntrailer << /Root 1 0 R >>\n%%EOF\n');
+
+interface StubS3Server {
+  url: string;
+  objects: Map<string, { body: Buffer; contentType: string }>;
+  requests: { method: string; path: string; range?: string }[];
+  close(): Promise<void>;
+}
+
+const sha256Hex = (data: Buffer | string) => crypto.createHash('sha256').update(data).digest('hex');
+const hmac = (key: Buffer | string, data: string) => crypto.createHmac('sha256', key).update(data).digest();
+
+// Check a request's Signature Version 4 independently of the driver
+function verifySignature(req: http.IncomingMessage, secretAccessKey: string): string | null {
+  const match = (req.headers.authorization || '').match(
+    /^AWS4-HMAC-SHA256 Credential=([^/]+)\/(\d{8})\/([^/]+)\/s3\/aws4_request, SignedHeaders=([^,]+), Signature=([0-9a-f]{64})$/
+  );
+  if (!match) return 'Malformed authorization header';
+  const [, accessKeyId, date, region, signedHeaders, signature] = match;
+  const amzDate = String(req.headers['x-amz-date'] || '');
+  if (accessKeyId !== ACCESS_KEY_ID || region !== REGION || !amzDate.startsWith(date)) {
+    return 'Credential scope does not match';
+  }
+
+  const names = signedHeaders.split(';');
+  if (names.indexOf('host') === -1 || names.indexOf('x-amz-content-sha256') === -1) {
+    return 'Host and payload hash must be signed';
+  }
+  const canonicalRequest = [
+    req.method,
+    new URL(req.url || '/', 'http://localhost').pathname,
+    '',
+    names.map(name => `${name}:${String(req.headers[name] ?? '').trim()}\n`).join(''),
+    signedHeaders,
+    req.headers['x-amz-content-sha256'],
+  ].join('\n');
+  const stringToSign = ['AWS4-HMAC-SHA256', amzDate, `${date}/${region}/s3/aws4_request`, sha256Hex(canonicalRequest)].join('\n');
+  const signingKey = hmac(hmac(hmac(hmac(`AWS4${secretAccessKey}`, date), region), 's3'), 'aws4_request');
+  const expected = crypto.createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+  return expected === signature ? null : 'Signature does not match';
+}
+
+function readBody(req: http.IncomingMessage): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', () => resolve(Buffer.concat(chunks)));
+    req.on('error', reject);
+  });
+}
+
+// Path-style S3 that keeps objects in memory and rejects badly signed requests
+async function startStubS3Server(): Promise<StubS3Server> {
+  const objects = new Map<string, { body: Buffer; contentType: string }>();
+  const requests: StubS3Server['requests'] = [];
+
+  const server = http.createServer(async (req, res) => {
+    const body = await readBody(req);
+    const pathname = new URL(req.url || '/', 'http://localhost').pathname;
+    requests.push({ method: req.method || 'GET', path: pathname, range: req.headers.range });
+
+    const signatureError = verifySignature(req, SECRET_ACCESS_KEY);
+    if (signatureError) {
+      res.writeHead(403).end(signatureError);
+      return;
+    }
+    if (!pathname.startsWith(`/${BUCKET}/`)) {
+      res.writeHead(404).end('NoSuchBucket');
+      return;
+    }
+    const key = decodeURIComponent(pathname.slice(BUCKET.length + 2));
+    const object = objects.get(key);
+
+    switch (req.method) {
+      case 'PUT':
+        if (sha256Hex(body) !== req.headers['x-amz-content-sha256']) {
+          res.writeHead(400).end('XAmzContentSHA256Mismatch');
+          return;
+        }
+        objects.set(key, { body, contentType: String(req.headers['content-type'] || 'binary/octet-stream') });
+        res.writeHead(200).end();
+        return;
+      case 'DELETE':
+        objects.delete(key);
+        res.writeHead(204).end();
+        return;
+      case 'HEAD':
+      case 'GET': {
+        if (!object) {
+          res.writeHead(404).end();
+          return;
+        }
+        const range = req.headers.range?.match(/^bytes=(\d+)-(\d+)$/);
+        if (range) {
+          const start = Number(range[1]);
+          const end = Math.min(Number(range[2]), object.body.length - 1);
+          res.writeHead(206, {
+            'content-type': object.contentType,
+            'content-length': end - start + 1,
+            'content-range': `bytes ${start}-${end}/${object.body.length}`,
+          });
+          res.end(req.method === 'GET' ? object.body.subarray(start, end + 1) : undefined);
+          return;
+        }
+        res.writeHead(200, { 'content-type': object.contentType, 'content-length': object.body.length });
+        res.end(req.method === 'GET' ? object.body : undefined);
+        return;
+      }
+      default:
+        res.writeHead(405).end();
+    }
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  return {
+    url: `http://127.0.0.1:${port}`,
+    objects,
+    requests,
+    close: () => new Promise<void>((resolve, reject) => server.close(error => error ? reject(error) : resolve())),
+  };
+}
+
+async function readStream(stream: Readable): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks);
+}
+
+describe('blobStorage', () => {
+  let server: StubS3Server;
+  let s3: S3BlobStorage;
+  let tempDir: string;
+  const originalBlobStorage = getBlobStorage();
+
+  before(async () => {
+    server = await startStubS3Server();
+    s3 = new S3BlobStorage({
+      bucket: BUCKET,
+      region: REGION,
+      accessKeyId: ACCESS_KEY_ID,
+      secretAccessKey: SECRET_ACCESS_KEY,
+      endpoint: server.url,
+      forcePathStyle: true,
+    });
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'blob-storage-test-'));
+  });
+
+  after(async () => {
+    await server.close();
+    setBlobStorage(originalBlobStorage);
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    server.objects.clear();
+    server.requests.length = 0;
+  });
+
+  describe('S3 driver', () => {
+    test('signs uploads and downloads the stub server accepts', async () => {
+      await s3.put('documents/ab/abc123', PDF, { contentType: 'application/pdf', contentHash: sha256Hex(PDF), size: PDF.length });
+
+      assert.deepEqual(server.requests.map(request => `${request.method} ${request.path}`), [`PUT /${BUCKET}/documents/ab/abc123`]);
+      assert.equal(server.objects.get('documents/ab/abc123')?.contentType, 'application/pdf');
+
+      const object = await s3.get('documents/ab/abc123');
+      assert.ok(object);
+      assert.equal(object.size, PDF.length);
+      assert.equal(object.contentType, 'application/pdf');
+      assert.deepEqual(await readStream(object.stream), PDF);
+    });
+
+    test('streams a file on disk as the upload body', async () => {
+      const filePath = path.join(tempDir, 'upload.pdf');
+      await fs.writeFile(filePath, PDF);
+
+      await s3.put('documents/cd/file', filePath, { contentType: 'application/pdf', contentHash: sha256Hex(PDF), size: PDF.length });
+
+      assert.deepEqual(server.objects.get('documents/cd/file')?.body, PDF);
+    });
+
+    test('uploads are rejected when the content hash does not match the body', async () => {
+      await assert.rejects(
+        s3.put('documents/ef/corrupt', PDF, { contentType: 'application/pdf', contentHash: sha256Hex('other'), size: PDF.length }),
+        (error: unknown) => error instanceof BlobStorageError && error.statusCode === 400
+      );
+      assert.equal(server.objects.size, 0);
+    });
+
+    test('requests signed with the wrong secret are refused', async () => {
+      const wrongSecret = new S3BlobStorage({
+        bucket: BUCKET,
+        region: REGION,
+        accessKeyId: ACCESS_KEY_ID,
+        secretAccessKey: 'not-the-secret',
+        endpoint: server.url,
+        forcePathStyle: true,
+      });
+
+      await assert.rejects(
+        wrongSecret.exists('documents/ab/abc123'),
+        (error: unknown) => error instanceof BlobStorageError && error.statusCode === 403
+      );
+    });
+
+    test('ranged reads return the requested bytes and the full size', async () => {
+      server.objects.set('documents/ab/ranged', { body: PDF, contentType: 'application/pdf' });
+
+      const object = await s3.get('documents/ab/ranged', { start: 5, end: 12 });
+
+      assert.equal(server.requests[0].range, 'bytes=5-12');
+      assert.ok(object);
+      assert.equal(object.size, PDF.length);
+      assert.deepEqual(await readStream(object.stream), PDF.subarray(5, 13));
+    });
+
+    test('missing objects read as null and do not exist', async () => {
+      assert.equal(await s3.get('documents/00/missing'), null);
+      assert.equal(await s3.exists('documents/00/missing'), false);
+    });
+
+    test('exists and delete', async () => {
+      server.objects.set('documents/ab/gone', { body: PDF, contentType: 'application/pdf' });
+
+      assert.equal(await s3.exists('documents/ab/gone'), true);
+      await s3.delete('documents/ab/gone');
+      assert.equal(await s3.exists('documents/ab/gone'), false);
+      await s3.delete('documents/ab/gone');
+    });
+
+    test('keys that climb out of the bucket are rejected before any request', async () => {
+      await assert.rejects(s3.get('documents/../secrets'), BlobStorageError);
+      assert.equal(server.requests.length, 0);
+    });
+  });
+
+  describe('storeBlob', () => {
+    test('stores identical content once, under its hash', async () => {
+      setBlobStorage(s3);
+
+      const first = await storeBlob(PDF, 'image/png', 'evidence');
+      const second = await storeBlob(PDF, 'application/pdf', 'evidence');
+
+      const hash = sha256Hex(PDF);
+      assert.deepEqual(first, { key: `evidence/${hash.slice(0, 2)}/${hash}`, contentHash: hash, contentType: 'application/pdf', size: PDF.length });
+      assert.deepEqual(second, first);
+      assert.equal(server.requests.filter(request => request.method === 'PUT').length, 1);
+    });
+  });
+
+  describe('LocalBlobStorage', () => {
+    test('reads byte ranges from disk', async () => {
+      const local = new LocalBlobStorage(tempDir);
+      await local.put('documents/ab/local', PDF);
+
+      const object = await local.get('documents/ab/local', { start: 0, end: 3 });
+
+      assert.ok(object);
+      assert.equal(object.size, PDF.length);
+      assert.equal((await readStream(object.stream)).toString(), '%PDF');
+    });
+  });
+
+  describe('parseRangeHeader', () => {
+    test('parses bounded, open-ended and suffix ranges', () => {
+      assert.deepEqual(parseRangeHeader('bytes=0-99', 1000), { start: 0, end: 99 });
+      assert.deepEqual(parseRangeHeader('bytes=900-', 1000), { start: 900, end: 999 });
+      assert.deepEqual(parseRangeHeader('bytes=-100', 1000), { start: 900, end: 999 });
+      assert.deepEqual(parseRangeHeader('bytes=-5000', 1000), { start: 0, end: 999 });
+    });
+
+    test('clamps the end to the last byte', () => {
+      assert.deepEqual(parseRangeHeader('bytes=500-5000', 1000), { start: 500, end: 999 });
+    });
+
+    test('ignores missing, malformed and multi-range headers', () => {
+      assert.equal(parseRangeHeader(undefined, 1000), null);
+      assert.equal(parseRangeHeader('bytes=-', 1000), null);
+      assert.equal(parseRangeHeader('items=0-1', 1000), null);
+      assert.equal(parseRangeHeader('bytes=0-1,5-9', 1000), null);
+    });
+
+    test('reports ranges outside the blob as unsatisfiable', () => {
+      assert.equal(parseRangeHeader('bytes=1000-', 1000), 'unsatisfiable');
+      assert.equal(parseRangeHeader('bytes=50-10', 1000), 'unsatisfiable');
+    });
+  });
+
+  describe('sniffMimeType', () => {
+    test('recognizes documents and images by their signatures', () => {
+      assert.equal(sniffMimeType(PDF), 'application/pdf');
+      assert.equal(sniffMimeType(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00])), 'image/png');
+      assert.equal(sniffMimeType(Buffer.from([0xff, 0xd8, 0xff, 0xe0])), 'image/jpeg');
+      assert.equal(sniffMimeType(Buffer.from('RIFF\0\0\0\0WEBPVP8 ', 'latin1')), 'image/webp');
+    });
+
+    test('tells Office Open XML documents apart from plain zips', () => {
+      const zip = (name: string) => Buffer.concat([Buffer.from([0x50, 0x4b, 0x03, 0x04]), Buffer.alloc(26), Buffer.from(name, 'latin1')]);
+      assert.equal(sniffMimeType(zip('word/document.xml')), 'application/vnd.openxmlformats-officedocument.wordprocessingml.document');
+      assert.equal(sniffMimeType(zip('xl/workbook.xml')), 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+      assert.equal(sniffMimeType(zip('notes.txt')), 'application/zip');
+    });
+
+    test('treats valid UTF-8 without control bytes as text', () => {
+      assert.equal(sniffMimeType(Buffer.from('Statement of claim – Smith v. Jones\n')), 'text/plain');
+      assert.equal(sniffMimeType(Buffer.from([0x01, 0x02, 0x03, 0x04])), undefined);
+      assert.equal(sniffMimeType(Buffer.alloc(0)), undefined);
+    });
+
+    test('flags executables', () => {
+      assert.equal(sniffMimeType(Buffer.from('MZ\x90\0', 'latin1')), 'application/x-msdownload');
+      assert.equal(sniffMimeType(Buffer.from([0x7f, 0x45, 0x4c, 0x46, 0x02])), 'application/x-executable');
+    });
+  });
+
+  describe('resolveContentType', () => {
+    test('trusts the bytes over the declared type', () => {
+      assert.equal(resolveContentType(PDF, 'image/png'), 'application/pdf');
+    });
+
+    test('keeps a declared type that refines the sniffed one', () => {
+      assert.equal(resolveContentType(Buffer.from('a,b\n1,2\n'), 'text/csv'), 'text/csv');
+      assert.equal(resolveContentType(Buffer.from('a,b\n1,2\n'), 'application/pdf'), 'text/plain');
+    });
+
+    test('falls back to the declared type, then to octet-stream', () => {
+      assert.equal(resolveContentType(Buffer.from([0x01, 0x02]), 'application/x-custom'), 'application/x-custom');
+      assert.equal(resolveContentType(Buffer.from([0x01, 0x02])), 'application/octet-stream');
+    });
+  });
+});
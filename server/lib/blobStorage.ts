@@ -0,0 +1,470 @@
+/**
+ * Blob Storage
+ *
+ * This module stores uploaded files such as dispute evidence. Files are
+ * content-addressed by their SHA-256 hash, so uploading the same file twice
+ * stores it once, and the stored type comes from the file's own bytes rather
+ * than the browser's claim. Two drivers are available, chosen with
+ * BLOB_STORAGE_DRIVER:
+ *
+ *   local  files under BLOB_STORAGE_DIR (default uploads/blobs)
+ *   s3     an S3 bucket, or any S3-compatible service such as MinIO when
+ *          S3_ENDPOINT is set
+ *
+ * Reads are streamed and support byte ranges so large files can be
+ * downloaded and resumed without loading them into memory.
+ */
+import { promises as fs, createReadStream } from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { Readable } from 'stream';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+
+/** Inclusive byte range, as in an HTTP Range header */
+export interface BlobRange {
+  start: number;
+  end: number;
+}
+
+export interface BlobObject {
+  stream: Readable;
+  /** Size of the whole blob, not just the requested range */
+  size: number;
+  contentType?: string;
+}
+
+export interface StoredBlob {
+  key: string;
+  contentHash: string;
+  contentType: string;
+  size: number;
+}
+
+/**
+ * Content to store: an in-memory buffer or a file on disk, such as an upload
+ * multer has written to a temporary directory
+ */
+export type BlobSource = Buffer | string;
+
+export interface BlobStorageDriver {
+  name: string;
+  put(key: string, source: BlobSource, meta: { contentType: string; contentHash: string; size: number }): Promise<void>;
+  get(key: string, range?: BlobRange): Promise<BlobObject | null>;
+  exists(key: string): Promise<boolean>;
+  delete(key: string): Promise<void>;
+}
+
+export class BlobStorageError extends Error {
+  statusCode?: number;
+
+  constructor(message: string, statusCode?: number) {
+    super(message);
+    this.name = 'BlobStorageError';
+    this.statusCode = statusCode;
+  }
+}
+
+// Keys are generated here, but guard against one escaping the storage root
+function assertValidKey(key: string) {
+  if (!/^[a-z0-9][a-z0-9/._-]*$/i.test(key) || key.split('/').indexOf('..') !== -1) {
+    throw new BlobStorageError(`Invalid blob key: ${key}`);
+  }
+}
+
+/**
+ * Driver that keeps blobs in a directory on the server
+ */
+export class LocalBlobStorage implements BlobStorageDriver {
+  name = 'local';
+  private root: string;
+
+  constructor(root: string) {
+    this.root = path.resolve(root);
+  }
+
+  private resolve(key: string): string {
+    assertValidKey(key);
+    return path.join(this.root, key);
+  }
+
+  async put(key: string, source: BlobSource): Promise<void> {
+    const target = this.resolve(key);
+    await fs.mkdir(path.dirname(target), { recursive: true });
+
+    // Write beside the target and rename so readers never see a partial file
+    const temporary = `${target}.${process.pid}.${Date.now()}.tmp`;
+    try {
+      if (typeof source === 'string') {
+        await fs.copyFile(source, temporary);
+      } else {
+        await fs.writeFile(temporary, source);
+      }
+      await fs.rename(temporary, target);
+    } catch (error) {
+      await fs.rm(temporary, { force: true });
+      throw error;
+    }
+  }
+
+  async get(key: string, range?: BlobRange): Promise<BlobObject | null> {
+    const filePath = this.resolve(key);
+    try {
+      const stats = await fs.stat(filePath);
+      return {
+        stream: createReadStream(filePath, range ? { start: range.start, end: range.end } : undefined),
+        size: stats.size
+      };
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  async exists(key: string): Promise<boolean> {
+    try {
+      await fs.access(this.resolve(key));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.resolve(key), { force: true });
+  }
+}
+
+export interface S3BlobStorageOptions {
+  bucket: string;
+  region: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  /** e.g. http://localhost:9000 for MinIO; defaults to AWS */
+  endpoint?: string;
+  forcePathStyle?: boolean;
+}
+
+const hmac = (key: Buffer | string, data: string) => crypto.createHmac('sha256', key).update(data).digest();
+const sha256Hex = (data: string) => crypto.createHash('sha256').update(data).digest('hex');
+
+// S3 expects RFC 3986 encoding, which is stricter than encodeURIComponent
+const encodeRfc3986 = (value: string) =>
+  encodeURIComponent(value).replace(/[!'()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+
+/**
+ * Driver for S3 and S3-compatible object stores, signing requests with AWS
+ * Signature Version 4
+ */
+export class S3BlobStorage implements BlobStorageDriver {
+  name = 's3';
+  private options: S3BlobStorageOptions;
+
+  constructor(options: S3BlobStorageOptions) {
+    this.options = options;
+  }
+
+  private objectUrl(key: string): URL {
+    assertValidKey(key);
+    const encodedKey = key.split('/').map(encodeRfc3986).join('/');
+    const { bucket, region, endpoint, forcePathStyle } = this.options;
+    const base = new URL(endpoint || `https://s3.${region}.amazonaws.com`);
+
+    if (forcePathStyle) {
+      base.pathname = `${base.pathname.replace(/\/$/, '')}/${bucket}/${encodedKey}`;
+    } else {
+      base.hostname = `${bucket}.${base.hostname}`;
+      base.pathname = `/${encodedKey}`;
+    }
+    return base;
+  }
+
+  private sign(method: string, url: URL, headers: Record<string, string>, payloadHash: string): Record<string, string> {
+    const now = new Date().toISOString().replace(/[:-]|\.\d{3}/g, '');
+    const date = now.slice(0, 8);
+    const scope = `${date}/${this.options.region}/s3/aws4_request`;
+
+    const allHeaders: Record<string, string> = {
+      ...headers,
+      host: url.host,
+      'x-amz-content-sha256': payloadHash,
+      'x-amz-date': now
+    };
+    const names = Object.keys(allHeaders).map(name => name.toLowerCase()).sort();
+    const lookup: Record<string, string> = {};
+    Object.keys(allHeaders).forEach(name => { lookup[name.toLowerCase()] = String(allHeaders[name]).trim(); });
+
+    const canonicalRequest = [
+      method,
+      url.pathname,
+      '',
+      names.map(name => `${name}:${lookup[name]}\n`).join(''),
+      names.join(';'),
+      payloadHash
+    ].join('\n');
+    const stringToSign = ['AWS4-HMAC-SHA256', now, scope, sha256Hex(canonicalRequest)].join('\n');
+
+    const signingKey = hmac(hmac(hmac(hmac(`AWS4${this.options.secretAccessKey}`, date), this.options.region), 's3'), 'aws4_request');
+    const signature = crypto.createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+
+    const signed: Record<string, string> = { ...allHeaders };
+    delete signed.host;
+    signed.authorization = `AWS4-HMAC-SHA256 Credential=${this.options.accessKeyId}/${scope}, SignedHeaders=${names.join(';')}, Signature=${signature}`;
+    return signed;
+  }
+
+  private async request(method: string, key: string, headers: Record<string, string> = {}, body?: Buffer | Readable, payloadHash = sha256Hex('')) {
+    const url = this.objectUrl(key);
+    const init: RequestInit & { duplex?: 'half' } = {
+      method,
+      headers: this.sign(method, url, headers, payloadHash)
+    };
+    if (body) {
+      init.body = body instanceof Readable ? (Readable.toWeb(body) as any) : body;
+      init.duplex = 'half';
+    }
+    return await fetch(url, init);
+  }
+
+  async put(key: string, source: BlobSource, meta: { contentType: string; contentHash: string; size: number }): Promise<void> {
+    // The content hash is the payload hash, so S3 rejects corrupted uploads
+    const body = typeof source === 'string' ? createReadStream(source) : source;
+    const response = await this.request('PUT', key, {
+      'content-type': meta.contentType,
+      'content-length': String(meta.size)
+    }, body, meta.contentHash);
+
+    if (!response.ok) {
+      throw new BlobStorageError(`S3 upload of ${key} failed: ${response.status} ${await response.text()}`, response.status);
+    }
+  }
+
+  async get(key: string, range?: BlobRange): Promise<BlobObject | null> {
+    const response = await this.request('GET', key, range ? { range: `bytes=${range.start}-${range.end}` } : {});
+    if (response.status === 404) return null;
+    if (!response.ok || !response.body) {
+      throw new BlobStorageError(`S3 download of ${key} failed: ${response.status}`, response.status);
+    }
+
+    // A ranged response reports the full size after the slash: bytes 0-99/1234
+    const contentRange = response.headers.get('content-range');
+    const size = contentRange
+      ? parseInt(contentRange.split('/')[1], 10)
+      : parseInt(response.headers.get('content-length') || '0', 10);
+
+    return {
+      stream: Readable.fromWeb(response.body as any),
+      size,
+      contentType: response.headers.get('content-type') || undefined
+    };
+  }
+
+  async exists(key: string): Promise<boolean> {
+    const response = await this.request('HEAD', key);
+    if (response.status === 404) return false;
+    if (!response.ok) {
+      throw new BlobStorageError(`S3 lookup of ${key} failed: ${response.status}`, response.status);
+    }
+    return true;
+  }
+
+  async delete(key: string): Promise<void> {
+    const response = await this.request('DELETE', key);
+    if (!response.ok && response.status !== 404) {
+      throw new BlobStorageError(`S3 delete of ${key} failed: ${response.status}`, response.status);
+    }
+  }
+}
+
+let driver: BlobStorageDriver | null = null;
+
+/**
+ * The configured storage driver
+ */
+export function getBlobStorage(): BlobStorageDriver {
+  if (driver) return driver;
+
+  if (config.BLOB_STORAGE_DRIVER === 's3') {
+    if (!config.S3_BUCKET || !config.S3_ACCESS_KEY_ID || !config.S3_SECRET_ACCESS_KEY) {
+      throw new BlobStorageError('S3 blob storage requires S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY');
+    }
+    driver = new S3BlobStorage({
+      bucket: config.S3_BUCKET,
+      region: config.S3_REGION,
+      endpoint: config.S3_ENDPOINT,
+      accessKeyId: config.S3_ACCESS_KEY_ID,
+      secretAccessKey: config.S3_SECRET_ACCESS_KEY,
+      forcePathStyle: config.S3_FORCE_PATH_STYLE
+    });
+  } else {
+    driver = new LocalBlobStorage(config.BLOB_STORAGE_DIR);
+  }
+
+  logger.info(`[blob-storage] Using ${driver.name} driver`);
+  return driver;
+}
+
+/**
+ * Replace the configured driver, e.g. to point at a MinIO instance in a script
+ */
+export function setBlobStorage(replacement: BlobStorageDriver) {
+  driver = replacement;
+}
+
+const startsWith = (header: Buffer, bytes: number[], offset = 0) =>
+  header.length >= offset + bytes.length && bytes.every((byte, i) => header[offset + i] === byte);
+
+/**
+ * Detect a file's type from its first bytes. Office Open XML documents are
+ * zip archives, told apart by the folder names near the start of the archive.
+ * Returns undefined when the bytes match no known format.
+ */
+export function sniffMimeType(header: Buffer): string | undefined {
+  if (startsWith(header, [0x25, 0x50, 0x44, 0x46, 0x2d])) return 'application/pdf';
+  if (startsWith(header, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return 'image/png';
+  if (startsWith(header, [0xff, 0xd8, 0xff])) return 'image/jpeg';
+  if (startsWith(header, [0x47, 0x49, 0x46, 0x38])) return 'image/gif';
+  if (startsWith(header, [0x52, 0x49, 0x46, 0x46]) && startsWith(header, [0x57, 0x45, 0x42, 0x50], 8)) return 'image/webp';
+  if (startsWith(header, [0x49, 0x49, 0x2a, 0x00]) || startsWith(header, [0x4d, 0x4d, 0x00, 0x2a])) return 'image/tiff';
+  if (startsWith(header, [0x66, 0x74, 0x79, 0x70], 4)) {
+    const brand = header.toString('latin1', 8, 12);
+    if (brand.startsWith('heic') || brand.startsWith('heix') || brand.startsWith('mif1')) return 'image/heic';
+    if (brand.startsWith('M4A')) return 'audio/mp4';
+    return 'video/mp4';
+  }
+  if (startsWith(header, [0x49, 0x44, 0x33]) || startsWith(header, [0xff, 0xfb])) return 'audio/mpeg';
+  if (startsWith(header, [0x7b, 0x5c, 0x72, 0x74, 0x66])) return 'application/rtf';
+  if (startsWith(header, [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1])) {
+    // Legacy Office compound file; Word and Excel share the container
+    return header.indexOf('W\0o\0r\0d\0D\0o\0c\0u\0m\0e\0n\0t', 0, 'latin1') !== -1
+      ? 'application/msword'
+      : 'application/vnd.ms-excel';
+  }
+  if (startsWith(header, [0x50, 0x4b, 0x03, 0x04])) {
+    const names = header.toString('latin1');
+    if (names.indexOf('word/') !== -1) return 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+    if (names.indexOf('xl/') !== -1) return 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+    if (names.indexOf('ppt/') !== -1) return 'application/vnd.openxmlformats-officedocument.presentationml.presentation';
+    return 'application/zip';
+  }
+  if (startsWith(header, [0x4d, 0x5a])) return 'application/x-msdownload';
+  if (startsWith(header, [0x7f, 0x45, 0x4c, 0x46])) return 'application/x-executable';
+
+  // Text has no signature: accept it when the sample is valid UTF-8 without control bytes
+  if (header.length > 0 && header.indexOf(0) === -1) {
+    const sample = header.toString('utf8');
+    if (sample.indexOf('\ufffd') === -1 && !/[\x01-\x08\x0e-\x1a\x1c-\x1f]/.test(sample)) {
+      return 'text/plain';
+    }
+  }
+  return undefined;
+}
+
+// Types whose signature is too generic to tell apart, where the declared type is kept
+const REFINABLE_TYPES: Record<string, string[]> = {
+  'text/plain': ['text/csv', 'text/markdown', 'application/json'],
+  'application/zip': [
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    'application/vnd.openxmlformats-officedocument.presentationml.presentation'
+  ]
+};
+
+/**
+ * Decide the type to store a file as: the sniffed type, unless the declared
+ * type is a more specific variant of it
+ */
+export function resolveContentType(header: Buffer, declaredType?: string): string {
+  const sniffed = sniffMimeType(header);
+  if (!sniffed) return declaredType || 'application/octet-stream';
+  if (declaredType && (REFINABLE_TYPES[sniffed] || []).indexOf(declaredType) !== -1) {
+    return declaredType;
+  }
+  return sniffed;
+}
+
+const SNIFF_BYTES = 4096;
+
+/**
+ * The type a file would be stored as, reading only its first bytes
+ */
+export async function detectContentType(source: BlobSource, declaredType?: string): Promise<string> {
+  if (typeof source !== 'string') {
+    return resolveContentType(source.subarray(0, SNIFF_BYTES), declaredType);
+  }
+  const handle = await fs.open(source, 'r');
+  try {
+    const header = Buffer.alloc(SNIFF_BYTES);
+    const { bytesRead } = await handle.read(header, 0, SNIFF_BYTES, 0);
+    return resolveContentType(header.subarray(0, bytesRead), declaredType);
+  } finally {
+    await handle.close();
+  }
+}
+
+async function inspectSource(source: BlobSource): Promise<{ contentHash: string; size: number; header: Buffer }> {
+  if (typeof source !== 'string') {
+    return {
+      contentHash: crypto.createHash('sha256').update(source).digest('hex'),
+      size: source.length,
+      header: source.subarray(0, SNIFF_BYTES)
+    };
+  }
+
+  // Hash files as a stream so large uploads are never held in memory
+  const hash = crypto.createHash('sha256');
+  const chunks: Buffer[] = [];
+  let headerLength = 0;
+  let size = 0;
+  for await (const chunk of createReadStream(source)) {
+    const data = chunk as Buffer;
+    hash.update(data);
+    size += data.length;
+    if (headerLength < SNIFF_BYTES) {
+      chunks.push(data.subarray(0, SNIFF_BYTES - headerLength));
+      headerLength += Math.min(data.length, SNIFF_BYTES - headerLength);
+    }
+  }
+  return { contentHash: hash.digest('hex'), size, header: Buffer.concat(chunks) };
+}
+
+/**
+ * Hash, type and store a file, skipping the upload when identical content
+ * is already stored
+ */
+export async function storeBlob(source: BlobSource, declaredType?: string, prefix = 'documents'): Promise<StoredBlob> {
+  const { contentHash, size, header } = await inspectSource(source);
+  const contentType = resolveContentType(header, declaredType);
+  const key = `${prefix}/${contentHash.slice(0, 2)}/${contentHash}`;
+
+  const storage = getBlobStorage();
+  if (!await storage.exists(key)) {
+    await storage.put(key, source, { contentType, contentHash, size });
+  }
+
+  return { key, contentHash, contentType, size };
+}
+
+/**
+ * Parse a single-range HTTP Range header against a blob size. Returns null
+ * for a missing or multi-range header, and 'unsatisfiable' when the range
+ * lies outside the blob.
+ */
+export function parseRangeHeader(header: string | undefined, size: number): BlobRange | null | 'unsatisfiable' {
+  const match = header ? header.match(/^bytes=(\d*)-(\d*)$/) : null;
+  if (!match || (!match[1] && !match[2])) return null;
+
+  let start: number;
+  let end: number;
+  if (!match[1]) {
+    // Suffix range: the last N bytes
+    start = Math.max(size - parseInt(match[2], 10), 0);
+    end = size - 1;
+  } else {
+    start = parseInt(match[1], 10);
+    end = match[2] ? Math.min(parseInt(match[2], 10), size - 1) : size - 1;
+  }
+
+  if (start > end || start >= size) return 'unsatisfiable';
+  return { start, end };
+}
@@ -1,19 +1,45 @@
 import { createHash } from 'crypto';
 import { db } from '../db';
 import { aiResponseCache } from '@shared/schema';
-import { eq, and, lt, gt, sql } from 'drizzle-orm';
+import { eq, and, lt, gt, desc, isNotNull, sql } from 'drizzle-orm';
+import { analyzePrompt, normalizePrompt, promptSimilarity } from './promptSimilarity';
 
 interface CachedResponse {
   response: string;
   timestamp: Date;
 }
 
+export type CacheLookupTier = 'exact' | 'memory' | 'semantic' | 'miss';
+
+export interface SemanticCacheMatch {
+  response: string;
+  similarity: number;
+  matchedPrompt: string;
+}
+
 const CACHE_TTL_HOURS = 24; // Cache time-to-live in hours
+const SEMANTIC_CANDIDATE_LIMIT = 200; // Most recently used entries compared per semantic lookup
+const DEFAULT_SEMANTIC_THRESHOLD = 0.9; // Minimum trigram similarity for a semantic hit
+
+// Options that change what a model would answer; anything else (log prefixes,
+// caller-supplied cache keys) is ignored when matching similar prompts
+const CONTEXT_OPTION_KEYS = ['system', 'temperature', 'maxTokens', 'taskType'];
 
 /**
  * Service for caching AI responses to improve performance and reduce API costs
  */
 export class CacheService {
+  private static semanticThreshold = Number(process.env.AI_SEMANTIC_CACHE_THRESHOLD) || DEFAULT_SEMANTIC_THRESHOLD;
+
+  private static lookupStats: Record<CacheLookupTier, number> = {
+    exact: 0,
+    memory: 0,
+    semantic: 0,
+    miss: 0
+  };
+
+  private static semanticSimilarityTotal = 0;
+
   /**
    * Generates a hash key from the request parameters
    */
@@ -31,6 +57,24 @@ export class CacheService {
     return createHash('sha256').update(payload).digest('hex');
   }
 
+  /**
+   * Generates a hash of the model and the options that affect the response,
+   * so semantic matches are only made between comparable requests
+   */
+  private static generateContextKey(
+    modelName: string,
+    options: Record<string, any> = {}
+  ): string {
+    const context: Record<string, any> = { model: modelName };
+    for (const key of CONTEXT_OPTION_KEYS) {
+      if (options[key] !== undefined) {
+        context[key] = options[key];
+      }
+    }
+
+    return createHash('sha256').update(JSON.stringify(context)).digest('hex');
+  }
+
   /**
    * Cleans expired cache entries
    */
@@ -114,6 +158,8 @@ export class CacheService {
         await db.update(aiResponseCache)
           .set({ 
             response,
+            normalizedPrompt: normalizePrompt(prompt),
+            contextKey: this.generateContextKey(modelName, options),
             createdAt: new Date(),
             accessCount: existingEntry.accessCount + 1,
             lastAccessed: new Date()
@@ -129,6 +175,8 @@ export class CacheService {
             prompt,
             response,
             options: options as any,
+            normalizedPrompt: normalizePrompt(prompt),
+            contextKey: this.generateContextKey(modelName, options),
             accessCount: 1,
             lastAccessed: new Date()
           });
@@ -137,11 +185,134 @@ export class CacheService {
       console.error('Error storing response in cache:', error);
     }
   }
+
+  /**
+   * Finds a cached response to a similar prompt made with the same model and
+   * settings. Prompts are normalized and compared with trigram similarity;
+   * the best match at or above the configured threshold is returned.
+   */
+  public static async getSimilar(
+    modelName: string,
+    prompt: string,
+    options: Record<string, any> = {}
+  ): Promise<SemanticCacheMatch | null> {
+    const contextKey = this.generateContextKey(modelName, options);
+    const query = analyzePrompt(prompt);
+    const expiryTimestamp = new Date();
+    expiryTimestamp.setHours(expiryTimestamp.getHours() - CACHE_TTL_HOURS);
+
+    try {
+      const candidates = await db.select({
+          id: aiResponseCache.id,
+          prompt: aiResponseCache.prompt,
+          normalizedPrompt: aiResponseCache.normalizedPrompt,
+          response: aiResponseCache.response,
+          accessCount: aiResponseCache.accessCount
+        })
+        .from(aiResponseCache)
+        .where(
+          and(
+            eq(aiResponseCache.contextKey, contextKey),
+            isNotNull(aiResponseCache.normalizedPrompt),
+            gt(aiResponseCache.createdAt, expiryTimestamp)
+          )
+        )
+        .orderBy(desc(aiResponseCache.lastAccessed))
+        .limit(SEMANTIC_CANDIDATE_LIMIT);
+
+      let best: { candidate: typeof candidates[number]; similarity: number } | null = null;
+      for (const candidate of candidates) {
+        const similarity = candidate.normalizedPrompt === query.text
+          ? 1
+          : promptSimilarity(query, analyzePrompt(candidate.prompt));
+        if (similarity >= this.semanticThreshold && (!best || similarity > best.similarity)) {
+          best = { candidate, similarity };
+          if (similarity === 1) break;
+        }
+      }
+
+      if (!best) {
+        return null;
+      }
+
+      await db.update(aiResponseCache)
+        .set({
+          accessCount: best.candidate.accessCount + 1,
+          lastAccessed: new Date()
+        })
+        .where(eq(aiResponseCache.id, best.candidate.id));
+
+      return {
+        response: best.candidate.response,
+        similarity: best.similarity,
+        matchedPrompt: best.candidate.prompt
+      };
+    } catch (error) {
+      console.error('Error retrieving semantically cached response:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Records which cache tier answered a lookup (or that none did)
+   */
+  public static recordLookup(tier: CacheLookupTier, similarity?: number): void {
+    this.lookupStats[tier]++;
+    if (tier === 'semantic' && similarity !== undefined) {
+      this.semanticSimilarityTotal += similarity;
+    }
+  }
+
+  /**
+   * Returns hit/miss counters for each cache tier since startup or the last reset
+   */
+  public static getLookupStats(): {
+    lookups: number;
+    hits: Record<Exclude<CacheLookupTier, 'miss'>, number>;
+    misses: number;
+    hitRate: number;
+    semantic: { threshold: number; averageSimilarity: number | null };
+  } {
+    const { exact, memory, semantic, miss } = this.lookupStats;
+    const lookups = exact + memory + semantic + miss;
+
+    return {
+      lookups,
+      hits: { exact, memory, semantic },
+      misses: miss,
+      hitRate: lookups > 0 ? Number(((exact + memory + semantic) / lookups).toFixed(3)) : 0,
+      semantic: {
+        threshold: this.semanticThreshold,
+        averageSimilarity: semantic > 0 ? Number((this.semanticSimilarityTotal / semantic).toFixed(3)) : null
+      }
+    };
+  }
+
+  public static resetLookupStats(): void {
+    this.lookupStats = { exact: 0, memory: 0, semantic: 0, miss: 0 };
+    this.semanticSimilarityTotal = 0;
+  }
+
+  public static getSemanticThreshold(): number {
+    return this.semanticThreshold;
+  }
+
+  /**
+   * Sets the minimum similarity (0-1) for semantic cache hits
+   */
+  public static setSemanticThreshold(threshold: number): number {
+    if (!Number.isFinite(threshold) || threshold <= 0 || threshold > 1) {
+      throw new Error('Semantic cache threshold must be greater than 0 and at most 1');
+    }
+    this.semanticThreshold = threshold;
+    return this.semanticThreshold;
+  }
 }
 
-// Periodically clean expired cache entries
+// Periodically clean expired cache entries. Unref'd so scripts and tests
+// that import the cache can still exit.
 setInterval(() => {
   CacheService.cleanExpiredCache().catch(err => 
     console.error('Failed to clean expired cache:', err)
   );
-}, 3600000); // Run every hour
\ No newline at end of file
+}, 3600000).unref(); // Run every hour
\ No newline at end of file
@@ -0,0 +1,397 @@
+/**
+ * Case Outcome Prediction Service
+ *
+ * This module analyses case outcome predictions in the background. A
+ * prediction is stored as pending when it is requested and queued here; the
+ * job finds similar cases in legal research results, asks the AI service for
+ * an outcome distribution and the factors driving it, then updates the row
+ * and notifies the user. Progress is written to the row as the job runs so
+ * clients can poll the prediction's status.
+ *
+ * Predictions still pending or processing when the server stops are queued
+ * again on startup by resumeCasePredictions().
+ */
+
+import { storage } from '../storage';
+import type { CaseOutcomePrediction } from '@shared/schema';
+import { enhancedAIRequest } from './aiService';
+import { enhancedLegalResearch, type ResearchResult } from './researchService';
+import { trigramSimilarity } from './promptSimilarity';
+
+export type PredictionStatus = 'pending' | 'processing' | 'completed' | 'failed';
+
+// Factors captured when the prediction was requested
+export interface PredictionFactorData {
+  details: string;
+  factors: string[];
+  issues: string[];
+  domainId?: number;
+}
+
+export interface OutcomeProbability {
+  outcome: string;
+  probability: number; // 0 to 1; the distribution sums to 1
+}
+
+export interface InfluencingFactor {
+  factor: string;
+  impact: 'favourable' | 'unfavourable' | 'neutral';
+  weight: number; // 0 to 1
+  explanation: string;
+}
+
+export interface SimilarCase {
+  name: string;
+  citation: string;
+  relevance: string;
+  year?: string;
+  jurisdiction?: string;
+  url?: string;
+  similarity: number; // 0 to 1
+  source: 'research_history' | 'research';
+}
+
+// Chart-ready series; values are percentages
+export interface PredictionVisualization {
+  outcomeChart: { label: string; value: number }[];
+  factorChart: { label: string; value: number; impact: InfluencingFactor['impact'] }[];
+  similarCaseChart: { label: string; value: number }[];
+}
+
+const PREDICTION_STAGES = {
+  queued: { progress: 0, message: 'Waiting to be analysed' },
+  similarCases: { progress: 15, message: 'Finding similar cases' },
+  analysis: { progress: 50, message: 'Analysing case factors' },
+  saving: { progress: 90, message: 'Saving prediction' },
+  completed: { progress: 100, message: 'Prediction complete' },
+};
+
+export const INITIAL_PREDICTION_STATE = {
+  status: 'pending' as PredictionStatus,
+  progress: PREDICTION_STAGES.queued.progress,
+  statusMessage: PREDICTION_STAGES.queued.message,
+  predictedOutcome: 'Pending analysis',
+  confidenceScore: '0',
+};
+
+const MAX_SIMILAR_CASES = 5;
+
+export class PredictionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PredictionError';
+  }
+}
+
+function readFactorData(value: unknown): PredictionFactorData {
+  const data = (value && typeof value === 'object' ? value : {}) as Record<string, unknown>;
+  const strings = (list: unknown) => Array.isArray(list) ? list.filter((item): item is string => typeof item === 'string') : [];
+  return {
+    details: typeof data.details === 'string' ? data.details : '',
+    factors: strings(data.factors),
+    issues: strings(data.issues),
+    domainId: typeof data.domainId === 'number' ? data.domainId : undefined,
+  };
+}
+
+function clamp(value: unknown, min: number, max: number): number | undefined {
+  const number = typeof value === 'number' ? value : parseFloat(String(value));
+  return isNaN(number) ? undefined : Math.min(Math.max(number, min), max);
+}
+
+function percent(value: number): number {
+  return Math.round(value * 1000) / 10;
+}
+
+/**
+ * Rank the cases from the user's earlier research in this jurisdiction, and
+ * from a research run for this case, by how closely they match the facts
+ */
+export async function findSimilarCases(prediction: CaseOutcomePrediction, factorData: PredictionFactorData): Promise<SimilarCase[]> {
+  const caseText = [prediction.caseType, factorData.details, ...factorData.issues, ...factorData.factors].join(' ');
+  const jurisdiction = prediction.jurisdiction.toLowerCase();
+
+  const candidates: Omit<SimilarCase, 'similarity'>[] = [];
+  const addCases = (result: ResearchResult | null | undefined, source: SimilarCase['source']) => {
+    (result?.relevantCases || []).forEach(item => {
+      if (item && item.name) {
+        candidates.push({
+          name: item.name,
+          citation: item.citation || '',
+          relevance: item.relevance || '',
+          year: item.year,
+          jurisdiction: item.jurisdiction,
+          url: item.url,
+          source,
+        });
+      }
+    });
+  };
+
+  if (prediction.userId) {
+    const history = await storage.getResearchQueriesByUserId(prediction.userId);
+    history
+      .filter(query => !query.jurisdiction || query.jurisdiction.toLowerCase() === jurisdiction || query.jurisdiction === 'canada')
+      .forEach(query => addCases(query.results as ResearchResult, 'research_history'));
+  }
+
+  try {
+    const researchQuery = `${prediction.caseType}: ${factorData.issues.length > 0 ? factorData.issues.join('; ') : factorData.details.slice(0, 300)}`;
+    addCases(await enhancedLegalResearch(researchQuery, jurisdiction), 'research');
+  } catch (error) {
+    // History alone is enough to continue
+    console.warn(`Case prediction ${prediction.id}: research for similar cases failed`, error);
+  }
+
+  const seen = new Set<string>();
+  return candidates
+    .map(candidate => ({
+      ...candidate,
+      similarity: Math.round(trigramSimilarity(caseText, `${candidate.name} ${candidate.relevance}`) * 100) / 100,
+    }))
+    .sort((a, b) => b.similarity - a.similarity)
+    .filter(candidate => {
+      const key = (candidate.citation || candidate.name).toLowerCase();
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .slice(0, MAX_SIMILAR_CASES);
+}
+
+function buildPredictionPrompt(prediction: CaseOutcomePrediction, factorData: PredictionFactorData, similarCases: SimilarCase[]): string {
+  const list = (items: string[]) => items.length > 0 ? items.map(item => `- ${item}`).join('\n') : '- None provided';
+  const cases = similarCases.length > 0
+    ? similarCases.map(item => `- ${item.name}${item.citation ? ` (${item.citation})` : ''}: ${item.relevance}`).join('\n')
+    : '- No similar cases found';
+
+  return `
+    Predict the likely outcome of the following ${prediction.caseType} matter in ${prediction.jurisdiction}, Canada.
+
+    CASE DETAILS:
+    ${factorData.details}
+
+    LEGAL ISSUES:
+    ${list(factorData.issues)}
+
+    RELEVANT FACTORS:
+    ${list(factorData.factors)}
+
+    SIMILAR CASES:
+    ${cases}
+
+    Respond with a JSON object in this format:
+    {
+      "outcomes": [
+        { "outcome": "short description of a possible outcome", "probability": 0.0 }
+      ],
+      "confidence": 0.0,
+      "factors": [
+        {
+          "factor": "factor influencing the outcome",
+          "impact": "favourable" | "unfavourable" | "neutral",
+          "weight": 0.0,
+          "explanation": "why this factor matters"
+        }
+      ]
+    }
+
+    List between two and five outcomes whose probabilities add up to 1, from the
+    perspective of the party requesting the prediction. Confidence and weights
+    are between 0 and 1.
+  `;
+}
+
+function parseJsonObject(response: string): any {
+  const start = response.indexOf('{');
+  const end = response.lastIndexOf('}');
+  if (start === -1 || end <= start) {
+    throw new PredictionError('The AI service did not return a prediction');
+  }
+  try {
+    return JSON.parse(response.slice(start, end + 1));
+  } catch (error) {
+    throw new PredictionError('The AI service returned a prediction that could not be read');
+  }
+}
+
+/**
+ * Validate the model's answer: probabilities are normalised to sum to 1 and
+ * the predicted outcome is always the most likely one
+ */
+export function normalizePrediction(raw: any): {
+  distribution: OutcomeProbability[];
+  confidence: number;
+  factors: InfluencingFactor[];
+} {
+  const outcomes: OutcomeProbability[] = (Array.isArray(raw?.outcomes) ? raw.outcomes : [])
+    .map((item: any) => ({
+      outcome: typeof item?.outcome === 'string' ? item.outcome.trim() : '',
+      probability: clamp(item?.probability, 0, 1) ?? 0,
+    }))
+    .filter((item: OutcomeProbability) => item.outcome && item.probability > 0);
+
+  const total = outcomes.reduce((sum, item) => sum + item.probability, 0);
+  if (outcomes.length === 0 || total === 0) {
+    throw new PredictionError('The AI service did not return any possible outcomes');
+  }
+
+  const distribution = outcomes
+    .map(item => ({ outcome: item.outcome, probability: Math.round(item.probability / total * 1000) / 1000 }))
+    .sort((a, b) => b.probability - a.probability);
+
+  const factors: InfluencingFactor[] = (Array.isArray(raw?.factors) ? raw.factors : [])
+    .filter((item: any) => typeof item?.factor === 'string' && item.factor.trim())
+    .map((item: any) => ({
+      factor: item.factor.trim(),
+      impact: ['favourable', 'unfavourable', 'neutral'].indexOf(item.impact) !== -1 ? item.impact : 'neutral',
+      weight: clamp(item.weight, 0, 1) ?? 0.5,
+      explanation: typeof item.explanation === 'string' ? item.explanation : '',
+    }))
+    .sort((a: InfluencingFactor, b: InfluencingFactor) => b.weight - a.weight);
+
+  return {
+    distribution,
+    confidence: clamp(raw?.confidence, 0, 1) ?? distribution[0].probability,
+    factors,
+  };
+}
+
+export function buildVisualizationData(
+  distribution: OutcomeProbability[],
+  factors: InfluencingFactor[],
+  similarCases: SimilarCase[]
+): PredictionVisualization {
+  return {
+    outcomeChart: distribution.map(item => ({ label: item.outcome, value: percent(item.probability) })),
+    factorChart: factors.map(item => ({
+      label: item.factor,
+      // Unfavourable factors are plotted below the axis
+      value: percent(item.impact === 'unfavourable' ? -item.weight : item.weight),
+      impact: item.impact,
+    })),
+    similarCaseChart: similarCases.map(item => ({ label: item.name, value: percent(item.similarity) })),
+  };
+}
+
+async function setStage(id: number, stage: keyof typeof PREDICTION_STAGES) {
+  await storage.updateCaseOutcomePrediction(id, {
+    status: stage === 'completed' ? 'completed' : 'processing',
+    progress: PREDICTION_STAGES[stage].progress,
+    statusMessage: PREDICTION_STAGES[stage].message,
+  });
+}
+
+async function notifyUser(prediction: CaseOutcomePrediction, succeeded: boolean) {
+  if (!prediction.userId) return;
+  try {
+    await storage.createNotification({
+      userId: prediction.userId,
+      type: succeeded ? 'case_prediction_completed' : 'case_prediction_failed',
+      title: succeeded ? 'Case outcome prediction ready' : 'Case outcome prediction failed',
+      message: succeeded
+        ? `The prediction for your ${prediction.caseType} matter is ready: ${prediction.predictedOutcome}.`
+        : `We could not complete the prediction for your ${prediction.caseType} matter. You can try again.`,
+      data: { predictionId: prediction.id },
+    });
+  } catch (error) {
+    console.error(`Case prediction ${prediction.id}: failed to notify user`, error);
+  }
+}
+
+/**
+ * Analyse one prediction. Failures are recorded on the row rather than thrown.
+ */
+export async function runCasePrediction(id: number): Promise<void> {
+  try {
+    const prediction = await storage.getCaseOutcomePrediction(id);
+    if (!prediction || prediction.status === 'completed') {
+      return;
+    }
+
+    const factorData = readFactorData(prediction.factorData);
+
+    await setStage(id, 'similarCases');
+    const similarCases = await findSimilarCases(prediction, factorData);
+
+    await setStage(id, 'analysis');
+    const response = await enhancedAIRequest<string>(buildPredictionPrompt(prediction, factorData, similarCases), {
+      system: 'You are a Canadian litigation analyst. You estimate case outcomes from the facts given and answer only with JSON.',
+      temperature: 0.2,
+      taskType: 'research',
+      useCache: false,
+      logPrefix: `Case prediction ${id}`,
+    });
+    const { distribution, confidence, factors } = normalizePrediction(parseJsonObject(String(response)));
+
+    await setStage(id, 'saving');
+    const completed = await storage.updateCaseOutcomePrediction(id, {
+      status: 'completed',
+      progress: PREDICTION_STAGES.completed.progress,
+      statusMessage: PREDICTION_STAGES.completed.message,
+      predictedOutcome: distribution[0].outcome,
+      confidenceScore: confidence.toFixed(2),
+      outcomeDistribution: distribution,
+      keyFactors: factors,
+      similarCases,
+      visualizationData: buildVisualizationData(distribution, factors, similarCases),
+      errorMessage: null,
+      completedAt: new Date(),
+    });
+
+    if (completed) {
+      await notifyUser(completed, true);
+    }
+  } catch (error) {
+    console.error(`Case prediction ${id} failed:`, error);
+    const failed = await storage.updateCaseOutcomePrediction(id, {
+      status: 'failed',
+      statusMessage: 'Prediction failed',
+      errorMessage: error instanceof PredictionError ? error.message : 'The prediction could not be completed',
+    }).catch(() => undefined);
+
+    if (failed) {
+      await notifyUser(failed, false);
+    }
+  }
+}
+
+// Predictions are analysed one at a time so a burst of requests does not
+// flood the AI providers
+const queue: number[] = [];
+let draining = false;
+
+async function drainQueue() {
+  draining = true;
+  try {
+    while (queue.length > 0) {
+      const id = queue.shift()!;
+      // One prediction failing must not stop the rest of the queue
+      await runCasePrediction(id).catch(error => {
+        console.error(`Case prediction ${id}: unexpected failure`, error);
+      });
+    }
+  } finally {
+    draining = false;
+  }
+}
+
+export function enqueueCasePrediction(id: number): void {
+  if (queue.indexOf(id) === -1) {
+    queue.push(id);
+  }
+  if (!draining) {
+    void drainQueue();
+  }
+}
+
+export function getQueuePosition(id: number): number | null {
+  const index = queue.indexOf(id);
+  return index === -1 ? null : index + 1;
+}
+
+export async function resumeCasePredictions(): Promise<number> {
+  const unfinished = await storage.getCaseOutcomePredictionsByStatus(['pending', 'processing']);
+  unfinished.forEach(prediction => enqueueCasePrediction(prediction.id));
+  return unfinished.length;
+}
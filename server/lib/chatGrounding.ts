@@ -0,0 +1,168 @@
+/**
+ * Chat Grounding
+ *
+ * Before the legal assistant answers, the user's question is matched against
+ * the curated knowledge base (domain knowledge, provincial information and
+ * procedural guides, see knowledgeSearch.ts). The best entries are numbered
+ * and added to the system prompt, and the model is asked to cite the ones it
+ * uses inline as [1], [2], and so on. Only entries the answer actually cites
+ * are kept as references on the stored message, so the client can link each
+ * marker to its source.
+ *
+ * Retrieval matches any of the question's words rather than all of them, as
+ * questions are written in plain language and rarely contain every term of
+ * the entry that answers them.
+ */
+
+import { storage } from '../storage';
+import { searchKnowledge, type KnowledgeResultType, type KnowledgeSearchLanguage } from './knowledgeSearch';
+
+export interface KnowledgeReference {
+  index: number; // The [n] marker used in the answer
+  type: KnowledgeResultType;
+  id: number;
+  domainId: number | null;
+  title: string;
+  jurisdiction: string | null;
+  link: string | null; // Client route that shows the entry
+}
+
+export interface GroundingEntry extends KnowledgeReference {
+  text: string;
+}
+
+export interface GroundingOptions {
+  language?: KnowledgeSearchLanguage;
+  jurisdiction?: string | null; // Province or territory; federal entries are always included
+  domainId?: number | null;
+}
+
+const MAX_ENTRIES = 5;
+const ENTRY_CHAR_LIMIT = 1500;
+const MAX_QUERY_WORDS = 20;
+const FEDERAL_JURISDICTIONS = ['canada', 'federal'];
+
+/**
+ * Turn a question into a web search query that matches any of its words.
+ * Stop words are dropped by the text search configuration.
+ */
+export function retrievalQuery(question: string): string {
+  const words = question.toLowerCase().match(/[a-z0-9à-ÿ]+/g) || [];
+  const unique: string[] = [];
+  words.forEach(word => {
+    if (word.length >= 3 && word !== 'or' && unique.indexOf(word) === -1) {
+      unique.push(word);
+    }
+  });
+  return unique.slice(0, MAX_QUERY_WORDS).join(' or ');
+}
+
+function linkFor(type: KnowledgeResultType, id: number, domainId: number | null): string | null {
+  if (!domainId) {
+    return null;
+  }
+  if (type === 'knowledge') return `/legal-domains/${domainId}#knowledge-${id}`;
+  if (type === 'guide') return `/legal-domains/${domainId}#guide-${id}`;
+  return `/legal-domains/${domainId}`;
+}
+
+function truncate(text: string): string {
+  return text.length > ENTRY_CHAR_LIMIT ? `${text.substring(0, ENTRY_CHAR_LIMIT).trim()}…` : text;
+}
+
+// Full text of an entry, as search results only carry a highlighted snippet
+async function loadEntryText(type: KnowledgeResultType, id: number): Promise<string | null> {
+  if (type === 'knowledge') {
+    const entry = await storage.getDomainKnowledge(id);
+    return entry ? entry.answer : null;
+  }
+  if (type === 'provincial') {
+    const entry = await storage.getProvincialInfoById(id);
+    return entry ? entry.content : null;
+  }
+  const guide = await storage.getProceduralGuide(id);
+  if (!guide) {
+    return null;
+  }
+  const steps = Array.isArray(guide.steps) ? guide.steps as { title?: string; description?: string }[] : [];
+  const stepText = steps
+    .map((step, index) => `${index + 1}. ${[step.title, step.description].filter(Boolean).join(': ')}`)
+    .join('\n');
+  return stepText ? `${guide.description}\nSteps:\n${stepText}` : guide.description;
+}
+
+/**
+ * The knowledge base entries most relevant to a question, numbered from 1
+ */
+export async function retrieveKnowledge(question: string, options: GroundingOptions = {}): Promise<GroundingEntry[]> {
+  const query = retrievalQuery(question);
+  if (!query) {
+    return [];
+  }
+
+  const search = (domainId?: number) => searchKnowledge({
+    query,
+    language: options.language,
+    domainId,
+    jurisdictions: options.jurisdiction ? [options.jurisdiction, ...FEDERAL_JURISDICTIONS] : undefined,
+    pageSize: MAX_ENTRIES,
+  });
+
+  // The thread's domain is preferred, but a question may stray outside it
+  let response = await search(options.domainId || undefined);
+  if (response.results.length === 0 && options.domainId) {
+    response = await search();
+  }
+
+  const entries: GroundingEntry[] = [];
+  for (const result of response.results) {
+    const text = await loadEntryText(result.type, result.id);
+    if (!text) continue;
+    entries.push({
+      index: entries.length + 1,
+      type: result.type,
+      id: result.id,
+      domainId: result.domainId,
+      title: result.title,
+      jurisdiction: result.jurisdiction,
+      link: linkFor(result.type, result.id, result.domainId),
+      text: truncate(text),
+    });
+  }
+  return entries;
+}
+
+/**
+ * Instructions and numbered entries to append to the system prompt
+ */
+export function groundingInstructions(entries: GroundingEntry[]): string {
+  const blocks = entries.map(entry =>
+    `[${entry.index}] ${entry.title}${entry.jurisdiction ? ` (${entry.jurisdiction})` : ''}\n${entry.text}`
+  );
+  return `Knowledge base entries that may be relevant to the user's question are listed below. ` +
+    `Base your answer on them where they apply, and cite each entry you rely on inline by its number in square brackets, for example [2]. ` +
+    `Do not cite entries you did not use, and say so when they do not cover the question.\n\n` +
+    blocks.join('\n\n');
+}
+
+/**
+ * The entries an answer cites, in marker order. Bracketed years such as
+ * "[2019] 1 SCR" are not markers, as markers never exceed the entry count.
+ */
+export function citedReferences(answer: string, entries: GroundingEntry[]): KnowledgeReference[] {
+  const cited: number[] = [];
+  const marker = /\[(\d{1,2})\]/g;
+  let match: RegExpExecArray | null;
+  while ((match = marker.exec(answer)) !== null) {
+    const index = parseInt(match[1]);
+    if (index >= 1 && index <= entries.length && cited.indexOf(index) === -1) {
+      cited.push(index);
+    }
+  }
+  return cited
+    .sort((a, b) => a - b)
+    .map(index => {
+      const { text, ...reference } = entries[index - 1];
+      return reference;
+    });
+}
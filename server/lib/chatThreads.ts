@@ -0,0 +1,388 @@
+/**
+ * Chat Threads
+ *
+ * The legal assistant keeps each conversation in its own named thread with
+ * its own context (legal domain, active procedural guide, recommended
+ * templates). This module builds the AI prompt for a thread:
+ * - Only the active thread's history is sent, never the user's other threads
+ * - Relevant knowledge base entries are added as numbered sources, and the
+ *   ones the answer cites are stored on the reply (see chatGrounding.ts)
+ * - Recent turns are sent verbatim, newest first, up to a character budget
+ * - Older turns are folded into a rolling summary stored on the thread, so
+ *   long conversations stay within the model's token budget
+ *
+ * Summaries are written in the background after a reply is saved and never
+ * hold up the response.
+ */
+
+import { and, eq, isNull, or, lt } from 'drizzle-orm';
+import { db } from '../db';
+import { storage } from '../storage';
+import { chatThreads, type ChatMessage, type ChatThread, type ConversationContext } from '@shared/schema';
+import { enhancedAIRequest, generateChatResponse } from './aiService';
+import { citedReferences, groundingInstructions, retrieveKnowledge, type GroundingEntry } from './chatGrounding';
+import { checkCitationsInText } from './citations';
+
+export const CHAT_SYSTEM_PROMPT = `You are an AI legal assistant specialized in Canadian law.
+        Provide helpful, accurate information about Canadian legal topics.
+        Always clarify that you are not providing legal advice and recommend consulting a qualified lawyer for specific legal issues.
+        Focus on Canadian legal frameworks, regulations, and precedents.
+        Be respectful, concise, and easy to understand.
+        Avoid excessive legalese, but maintain accuracy in legal concepts.`;
+
+export const DEFAULT_THREAD_TITLE = 'New conversation';
+
+// Roughly 3,000 tokens of verbatim history per request
+const HISTORY_CHAR_BUDGET = 12000;
+
+// Turns that are always kept verbatim when older ones are summarized
+const KEEP_RECENT_MESSAGES = 6;
+
+const TITLE_LENGTH = 60;
+
+export type ThreadExportFormat = 'markdown' | 'json' | 'text';
+
+export const THREAD_EXPORT_FORMATS: ThreadExportFormat[] = ['markdown', 'json', 'text'];
+
+export class ChatThreadError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'ChatThreadError';
+  }
+}
+
+/**
+ * Load a thread, failing with 404 when it belongs to someone else
+ */
+export async function getOwnedThread(threadId: number, userId: number): Promise<ChatThread> {
+  const thread = await storage.getChatThread(threadId);
+  if (!thread || thread.userId !== userId) {
+    throw new ChatThreadError('Chat thread not found', 404);
+  }
+  return thread;
+}
+
+/**
+ * The user's most recently used open thread, started if they have none
+ */
+export async function getOrCreateActiveThread(userId: number): Promise<ChatThread> {
+  const [latest] = await storage.getChatThreadsByUserId(userId, { archived: false });
+  if (latest) {
+    return latest;
+  }
+  return storage.createChatThread({ userId, title: DEFAULT_THREAD_TITLE });
+}
+
+function titleFromMessage(content: string): string {
+  const firstLine = content.trim().split('\n')[0].replace(/\s+/g, ' ');
+  if (firstLine.length <= TITLE_LENGTH) {
+    return firstLine || DEFAULT_THREAD_TITLE;
+  }
+  const cut = firstLine.substring(0, TITLE_LENGTH);
+  const lastSpace = cut.lastIndexOf(' ');
+  return `${lastSpace > TITLE_LENGTH / 2 ? cut.substring(0, lastSpace) : cut}…`;
+}
+
+// Failed replies are stored so the user sees them, but are not worth resending
+function isPromptWorthy(message: ChatMessage): boolean {
+  const metadata = message.metadata as { errorType?: string } | null;
+  return !(message.role === 'assistant' && metadata?.errorType);
+}
+
+function speaker(message: ChatMessage): string {
+  return message.role === 'assistant' ? 'Assistant' : 'User';
+}
+
+/**
+ * Describe the thread's context for the system prompt
+ */
+async function describeContext(context: ConversationContext | undefined): Promise<string | null> {
+  if (!context) {
+    return null;
+  }
+
+  const lines: string[] = [];
+  if (context.domainId) {
+    const domain = await storage.getLegalDomain(context.domainId);
+    if (domain) {
+      lines.push(`Legal domain: ${domain.name}`);
+    }
+  }
+  if (context.activeGuideId) {
+    const guide = await storage.getProceduralGuide(context.activeGuideId);
+    if (guide) {
+      const steps = Array.isArray(guide.steps) ? guide.steps as { title?: string }[] : [];
+      const step = steps[context.currentStep || 0];
+      lines.push(`The user is following the procedural guide "${guide.title}"` +
+        (step?.title ? `, currently at step ${(context.currentStep || 0) + 1}: ${step.title}` : ''));
+    }
+  }
+  if (Array.isArray(context.recommendedTemplates) && context.recommendedTemplates.length > 0) {
+    const templates = await Promise.all(
+      (context.recommendedTemplates as number[]).map(id => storage.getDocumentTemplate(id))
+    );
+    const titles = templates.filter(Boolean).map(template => template!.title);
+    if (titles.length > 0) {
+      lines.push(`Document templates recommended in this conversation: ${titles.join(', ')}`);
+    }
+  }
+  return lines.length > 0 ? lines.join('\n') : null;
+}
+
+/**
+ * Knowledge base entries for the question, in the thread's domain and
+ * jurisdiction. Answers go ahead ungrounded if retrieval fails.
+ */
+async function retrieveGrounding(thread: ChatThread, context: ConversationContext | undefined, question: string): Promise<GroundingEntry[]> {
+  try {
+    const user = await storage.getUser(thread.userId);
+    const details = (context?.context || {}) as { jurisdiction?: string };
+    return await retrieveKnowledge(question, {
+      language: user?.preferredLanguage === 'fr' ? 'fr' : 'en',
+      jurisdiction: typeof details.jurisdiction === 'string' ? details.jurisdiction : null,
+      domainId: context?.domainId,
+    });
+  } catch (error) {
+    console.error(`Chat thread ${thread.id}: knowledge retrieval failed:`, error);
+    return [];
+  }
+}
+
+/**
+ * Build the prompt for the newest user message from the thread's summary and
+ * as many recent turns as fit in the budget
+ */
+export function buildThreadPrompt(thread: ChatThread, history: ChatMessage[], userMessage: string): string {
+  const turns: string[] = [];
+  let used = userMessage.length;
+  for (let i = history.length - 1; i >= 0; i--) {
+    const message = history[i];
+    if (!isPromptWorthy(message)) continue;
+    const turn = `${speaker(message)}: ${message.content}`;
+    if (used + turn.length > HISTORY_CHAR_BUDGET && turns.length > 0) break;
+    turns.unshift(turn);
+    used += turn.length;
+  }
+
+  const parts: string[] = [];
+  if (thread.summary) {
+    parts.push(`Summary of the earlier conversation:\n${thread.summary}`);
+  }
+  if (turns.length > 0) {
+    parts.push(`Recent conversation:\n${turns.join('\n\n')}`);
+  }
+  if (parts.length === 0) {
+    return userMessage;
+  }
+  parts.push(`User's new message:\n${userMessage}`);
+  return parts.join('\n\n');
+}
+
+// Threads whose summary is being written in this process
+const summarizing = new Set<number>();
+
+/**
+ * Fold older turns into the thread's rolling summary once the unsummarized
+ * history is over budget. The last few turns are always kept verbatim.
+ */
+export async function summarizeThreadIfNeeded(threadId: number): Promise<void> {
+  if (summarizing.has(threadId)) {
+    return;
+  }
+  summarizing.add(threadId);
+  try {
+    const thread = await storage.getChatThread(threadId);
+    if (!thread) return;
+
+    const unsummarized = (await storage.getChatMessagesByThreadId(threadId, { afterId: thread.summarizedThroughId }))
+      .filter(isPromptWorthy);
+    const size = unsummarized.reduce((total, message) => total + message.content.length, 0);
+    if (size <= HISTORY_CHAR_BUDGET || unsummarized.length <= KEEP_RECENT_MESSAGES) {
+      return;
+    }
+
+    const toSummarize = unsummarized.slice(0, unsummarized.length - KEEP_RECENT_MESSAGES);
+    const throughId = toSummarize[toSummarize.length - 1].id;
+    const transcript = toSummarize.map(message => `${speaker(message)}: ${message.content}`).join('\n\n');
+
+    const summary = await enhancedAIRequest<string>(
+      `${thread.summary ? `Existing summary:\n${thread.summary}\n\n` : ''}` +
+      `Conversation to add to the summary:\n${transcript}\n\n` +
+      `Write an updated summary of the whole conversation in under 300 words. ` +
+      `Keep the user's facts, jurisdiction, deadlines, decisions and open questions, and any statutes or cases discussed.`,
+      {
+        system: 'You summarize conversations between a user and a Canadian legal information assistant so they can be continued later. Reply with the summary text only.',
+        temperature: 0.2,
+        taskType: 'chat',
+        useCache: false,
+        logPrefix: 'Chat Thread Summary'
+      }
+    );
+    if (typeof summary !== 'string' || !summary.trim()) {
+      return;
+    }
+
+    // Another server may have summarized further in the meantime
+    await db.update(chatThreads)
+      .set({ summary: summary.trim(), summarizedThroughId: throughId })
+      .where(and(
+        eq(chatThreads.id, threadId),
+        or(isNull(chatThreads.summarizedThroughId), lt(chatThreads.summarizedThroughId, throughId))
+      ));
+  } catch (error) {
+    console.error(`Chat thread ${threadId}: summarization failed:`, error);
+  } finally {
+    summarizing.delete(threadId);
+  }
+}
+
+/**
+ * Save a user message in a thread and build the prompt that answers it: the
+ * thread's summary and recent history, its context and any grounding sources
+ */
+export async function prepareThreadMessage(thread: ChatThread, content: string) {
+  if (thread.archivedAt) {
+    throw new ChatThreadError('Restore this conversation before adding to it', 409);
+  }
+
+  const history = await storage.getChatMessagesByThreadId(thread.id, { afterId: thread.summarizedThroughId });
+  const context = await storage.getConversationContextByThreadId(thread.id);
+
+  const userMessage = await storage.createChatMessage({
+    userId: thread.userId,
+    threadId: thread.id,
+    role: 'user',
+    content
+  });
+
+  if (history.length === 0 && thread.title === DEFAULT_THREAD_TITLE) {
+    thread = (await storage.updateChatThread(thread.id, { title: titleFromMessage(content) })) || thread;
+  }
+
+  const contextDescription = await describeContext(context);
+  const grounding = await retrieveGrounding(thread, context, content);
+
+  let system = CHAT_SYSTEM_PROMPT;
+  if (contextDescription) {
+    system += `\n\nAbout this conversation:\n${contextDescription}`;
+  }
+  if (grounding.length > 0) {
+    system += `\n\n${groundingInstructions(grounding)}`;
+  }
+
+  return { thread, userMessage, prompt: buildThreadPrompt(thread, history, content), system, grounding };
+}
+
+/**
+ * Save the answer to a prepared message, with its citation checks and the
+ * sources it cited, and fold older turns into the summary if needed
+ */
+export async function saveThreadReply(thread: ChatThread, grounding: GroundingEntry[], aiContent: string, aiErrorCode: string | null) {
+  const metadata: Record<string, unknown> = {};
+  if (aiErrorCode) {
+    metadata.errorType = aiErrorCode;
+  } else {
+    // Flag citations in the answer that are malformed or could not exist
+    const citationIssues = checkCitationsInText(aiContent);
+    if (citationIssues.length > 0) {
+      metadata.citationIssues = citationIssues;
+    }
+    const references = citedReferences(aiContent, grounding);
+    if (references.length > 0) {
+      metadata.references = references;
+    }
+  }
+
+  const aiMessage = await storage.createChatMessage({
+    userId: thread.userId,
+    threadId: thread.id,
+    role: 'assistant',
+    content: aiContent,
+    metadata: Object.keys(metadata).length > 0 ? metadata : undefined
+  });
+
+  if (!aiErrorCode) {
+    summarizeThreadIfNeeded(thread.id).catch(() => undefined);
+  }
+
+  return aiMessage;
+}
+
+/**
+ * Save a user message in a thread, answer it and save the answer
+ */
+export async function sendThreadMessage(thread: ChatThread, content: string) {
+  const prepared = await prepareThreadMessage(thread, content);
+
+  const aiResponse = await generateChatResponse(prepared.prompt, {
+    system: prepared.system,
+    useCache: false,
+    logPrefix: 'Chat API'
+  });
+
+  // Check if we received an error object from the enhanced error handling
+  let aiContent: string;
+  let aiErrorCode: string | null = null;
+
+  if (aiResponse && typeof aiResponse === 'object' && 'error' in aiResponse) {
+    console.log(`AI Chat error: Type=${aiResponse.errorType}, Message="${aiResponse.message}"`);
+    aiContent = `${aiResponse.message}\n\n${aiResponse.recovery || 'Please try again later.'}`;
+    aiErrorCode = aiResponse.errorType;
+  } else {
+    aiContent = aiResponse as string;
+  }
+
+  const aiMessage = await saveThreadReply(prepared.thread, prepared.grounding, aiContent, aiErrorCode);
+  return { thread: prepared.thread, userMessage: prepared.userMessage, aiMessage, aiErrorCode };
+}
+
+function slugify(title: string): string {
+  return title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').substring(0, 50) || 'conversation';
+}
+
+/**
+ * Render a thread for download
+ */
+export function exportThread(thread: ChatThread, messages: ChatMessage[], format: ThreadExportFormat) {
+  const filename = `${slugify(thread.title)}-${thread.id}`;
+
+  if (format === 'json') {
+    return {
+      filename: `${filename}.json`,
+      contentType: 'application/json',
+      body: JSON.stringify({
+        id: thread.id,
+        title: thread.title,
+        createdAt: thread.createdAt,
+        archivedAt: thread.archivedAt,
+        messages: messages.map(message => ({
+          role: message.role,
+          content: message.content,
+          createdAt: message.timestamp,
+          metadata: message.metadata
+        }))
+      }, null, 2)
+    };
+  }
+
+  const stamp = (message: ChatMessage) => message.timestamp ? new Date(message.timestamp).toISOString() : '';
+  if (format === 'text') {
+    return {
+      filename: `${filename}.txt`,
+      contentType: 'text/plain; charset=utf-8',
+      body: [thread.title, '', ...messages.map(message => `[${stamp(message)}] ${speaker(message)}:\n${message.content}\n`)].join('\n')
+    };
+  }
+
+  return {
+    filename: `${filename}.md`,
+    contentType: 'text/markdown; charset=utf-8',
+    body: [
+      `# ${thread.title}`,
+      '',
+      ...messages.map(message => `### ${speaker(message)} — ${stamp(message)}\n\n${message.content}\n`),
+      '---',
+      '_This conversation provides legal information, not legal advice._'
+    ].join('\n')
+  };
+}
@@ -0,0 +1,448 @@
+/**
+ * Canadian Citations
+ *
+ * This module parses, checks and formats citations to Canadian case law:
+ * - neutral citations, assigned by the court itself: 2019 SCC 65
+ * - reporter citations, to a volume of a law report: [1999] 2 SCR 817 or
+ *   (1990), 74 OR (2d) 1
+ *
+ * Citations are normalised to the form the McGill Guide uses (no periods in
+ * court codes or reporter abbreviations) and checked against what each court
+ * and reporter actually published, so that a citation such as "1995 SCC 12"
+ * (the Supreme Court had no neutral citations before 2000) or "2024 ABQB 7"
+ * (the Court of Queen's Bench became the Court of King's Bench in 2022) is
+ * flagged as impossible.
+ */
+
+export interface CourtInfo {
+  code: string;
+  name: string;
+  jurisdiction: string; // Slug used by the research form, e.g. "british-columbia"
+  canlii?: { jurisdiction: string; database: string };
+  from: number; // First year the court issued neutral citations
+  to?: number; // Last year, for courts that were renamed or merged
+  successor?: string;
+}
+
+function court(
+  code: string,
+  name: string,
+  jurisdiction: string,
+  canlii: string | null,
+  from: number,
+  to?: number,
+  successor?: string
+): CourtInfo {
+  const [canliiJurisdiction, database] = canlii ? canlii.split('/') : [];
+  return {
+    code,
+    name,
+    jurisdiction,
+    canlii: canlii ? { jurisdiction: canliiJurisdiction, database } : undefined,
+    from,
+    to,
+    successor,
+  };
+}
+
+export const COURTS: Record<string, CourtInfo> = {};
+[
+  court('SCC', 'Supreme Court of Canada', 'canada', 'ca/scc', 2000),
+  court('FCA', 'Federal Court of Appeal', 'canada', 'ca/fca', 2001),
+  court('FC', 'Federal Court', 'canada', 'ca/fct', 2003),
+  court('FCT', 'Federal Court of Canada, Trial Division', 'canada', 'ca/fct', 2001, 2003, 'FC'),
+  court('TCC', 'Tax Court of Canada', 'canada', 'ca/tcc', 2003),
+  court('CMAC', 'Court Martial Appeal Court of Canada', 'canada', 'ca/cmac', 2001),
+  court('ONCA', 'Court of Appeal for Ontario', 'ontario', 'on/onca', 2007),
+  court('ONSC', 'Ontario Superior Court of Justice', 'ontario', 'on/onsc', 2009),
+  court('ONCJ', 'Ontario Court of Justice', 'ontario', 'on/oncj', 2005),
+  court('QCCA', "Cour d'appel du Québec", 'quebec', 'qc/qcca', 2005),
+  court('QCCS', 'Cour supérieure du Québec', 'quebec', 'qc/qccs', 2005),
+  court('QCCQ', 'Cour du Québec', 'quebec', 'qc/qccq', 2005),
+  court('BCCA', 'Court of Appeal for British Columbia', 'british-columbia', 'bc/bcca', 1999),
+  court('BCSC', 'Supreme Court of British Columbia', 'british-columbia', 'bc/bcsc', 2000),
+  court('BCPC', 'Provincial Court of British Columbia', 'british-columbia', 'bc/bcpc', 2000),
+  court('ABCA', 'Court of Appeal of Alberta', 'alberta', 'ab/abca', 1998),
+  court('ABQB', "Court of Queen's Bench of Alberta", 'alberta', 'ab/abqb', 1998, 2022, 'ABKB'),
+  court('ABKB', "Court of King's Bench of Alberta", 'alberta', 'ab/abkb', 2022),
+  court('ABPC', 'Provincial Court of Alberta', 'alberta', 'ab/abpc', 1998, 2022, 'ABCJ'),
+  court('ABCJ', 'Alberta Court of Justice', 'alberta', 'ab/abcj', 2022),
+  court('SKCA', 'Court of Appeal for Saskatchewan', 'saskatchewan', 'sk/skca', 2000),
+  court('SKQB', "Court of Queen's Bench for Saskatchewan", 'saskatchewan', 'sk/skqb', 1999, 2022, 'SKKB'),
+  court('SKKB', "Court of King's Bench for Saskatchewan", 'saskatchewan', 'sk/skkb', 2022),
+  court('SKPC', 'Provincial Court of Saskatchewan', 'saskatchewan', 'sk/skpc', 2002),
+  court('MBCA', 'Court of Appeal of Manitoba', 'manitoba', 'mb/mbca', 2000),
+  court('MBQB', "Court of Queen's Bench of Manitoba", 'manitoba', 'mb/mbqb', 2000, 2022, 'MBKB'),
+  court('MBKB', "Court of King's Bench of Manitoba", 'manitoba', 'mb/mbkb', 2022),
+  court('NBCA', 'Court of Appeal of New Brunswick', 'new-brunswick', 'nb/nbca', 2001),
+  court('NBQB', "Court of Queen's Bench of New Brunswick", 'new-brunswick', 'nb/nbqb', 2001, 2022, 'NBKB'),
+  court('NBKB', "Court of King's Bench of New Brunswick", 'new-brunswick', 'nb/nbkb', 2022),
+  court('NSCA', 'Nova Scotia Court of Appeal', 'nova-scotia', 'ns/nsca', 1999),
+  court('NSSC', 'Supreme Court of Nova Scotia', 'nova-scotia', 'ns/nssc', 2000),
+  court('PESCAD', 'Supreme Court of Prince Edward Island, Appeal Division', 'pei', 'pe/pescad', 2000, 2008, 'PECA'),
+  court('PECA', 'Court of Appeal of Prince Edward Island', 'pei', 'pe/peca', 2008),
+  court('NLCA', 'Court of Appeal of Newfoundland and Labrador', 'newfoundland', 'nl/nlca', 2001),
+  court('YKCA', 'Court of Appeal of Yukon', 'yukon', 'yk/ykca', 2000),
+  court('YKSC', 'Supreme Court of Yukon', 'yukon', 'yk/yksc', 2000),
+  court('NWTCA', 'Court of Appeal for the Northwest Territories', 'northwest-territories', 'nt/ntca', 1999),
+  court('NWTSC', 'Supreme Court of the Northwest Territories', 'northwest-territories', 'nt/ntsc', 1999),
+  court('NUCJ', 'Nunavut Court of Justice', 'nunavut', 'nu/nucj', 2000),
+  court('NUCA', 'Court of Appeal of Nunavut', 'nunavut', 'nu/nuca', 2000),
+].forEach(info => {
+  COURTS[info.code] = info;
+});
+
+export interface ReporterInfo {
+  abbreviation: string; // McGill abbreviation
+  name: string;
+  from?: number; // First year published
+  to?: number;
+  court?: string; // Official reports of a single court
+  jurisdiction?: string;
+  yearVolumes?: boolean; // Volumes are organised by year, cited as [1999] 2 SCR 817
+  numberedVolumesFrom?: number; // Year from which each year has numbered volumes
+}
+
+export const REPORTERS: ReporterInfo[] = [
+  { abbreviation: 'SCR', name: 'Canada Supreme Court Reports', from: 1877, court: 'SCC', jurisdiction: 'canada', yearVolumes: true, numberedVolumesFrom: 1975 },
+  { abbreviation: 'RCS', name: 'Recueil des arrêts de la Cour suprême du Canada', from: 1877, court: 'SCC', jurisdiction: 'canada', yearVolumes: true, numberedVolumesFrom: 1975 },
+  { abbreviation: 'FC', name: 'Federal Court Reports', from: 1971, jurisdiction: 'canada', yearVolumes: true },
+  { abbreviation: 'Ex CR', name: 'Exchequer Court of Canada Reports', from: 1875, to: 1971, jurisdiction: 'canada', yearVolumes: true },
+  { abbreviation: 'DLR', name: 'Dominion Law Reports', from: 1912 },
+  { abbreviation: 'CCC', name: 'Canadian Criminal Cases', from: 1898 },
+  { abbreviation: 'CR', name: 'Criminal Reports', from: 1946 },
+  { abbreviation: 'RFL', name: 'Reports of Family Law', from: 1971 },
+  { abbreviation: 'OR', name: 'Ontario Reports', from: 1882, jurisdiction: 'ontario' },
+  { abbreviation: 'BCLR', name: 'British Columbia Law Reports', from: 1977, jurisdiction: 'british-columbia' },
+  { abbreviation: 'Alta LR', name: 'Alberta Law Reports', jurisdiction: 'alberta' },
+  { abbreviation: 'AR', name: 'Alberta Reports', from: 1976, jurisdiction: 'alberta' },
+  { abbreviation: 'Sask R', name: 'Saskatchewan Reports', jurisdiction: 'saskatchewan' },
+  { abbreviation: 'Man R', name: 'Manitoba Reports', jurisdiction: 'manitoba' },
+  { abbreviation: 'NSR', name: 'Nova Scotia Reports', jurisdiction: 'nova-scotia' },
+  { abbreviation: 'NBR', name: 'New Brunswick Reports', jurisdiction: 'new-brunswick' },
+  { abbreviation: 'Nfld & PEIR', name: 'Newfoundland and Prince Edward Island Reports' },
+];
+
+export type CitationType = 'neutral' | 'reporter';
+
+export interface ParsedCitation {
+  type: CitationType;
+  text: string; // As written
+  index: number; // Where it starts in the text it was found in
+  normalized: string; // e.g. "2019 SCC 65" or "[1999] 2 SCR 817"
+  year: number;
+  court?: string;
+  courtName?: string;
+  jurisdiction?: string;
+  number?: number; // Neutral citations
+  volume?: number; // Reporter citations
+  reporter?: string;
+  series?: string;
+  page?: number;
+  styleOfCause?: string;
+  pinpoint?: string; // e.g. "para 45"
+  parallel?: string[]; // Further citations to the same decision, normalised
+}
+
+export interface CitationIssue {
+  text: string;
+  severity: 'error' | 'warning';
+  message: string;
+  suggestion?: string;
+}
+
+export interface CitationCheck {
+  citation: ParsedCitation | null;
+  formatted?: string; // McGill Guide form
+  issues: CitationIssue[];
+}
+
+// "S.C.R." and "Sask. R." are written with and without periods and spaces
+function abbreviationPattern(abbreviation: string): string {
+  return abbreviation
+    .replace(/\s+/g, '')
+    .split('')
+    .join('\\.?\\s?') + '\\.?';
+}
+
+function compact(text: string): string {
+  return text.replace(/[.\s]/g, '');
+}
+
+const REPORTER_ALTERNATION = REPORTERS
+  .map(reporter => reporter.abbreviation)
+  .sort((a, b) => compact(b).length - compact(a).length)
+  .map(abbreviationPattern)
+  .join('|');
+
+const SERIES = '(?:\\s*\\((\\d{1,2})(?:d|nd|rd|th|e)\\))?';
+
+// Court codes are two to six capitals, sometimes written with periods (S.C.C.)
+const COURT_CODE = '((?:[A-Z]\\.?){2,6})';
+const YEAR = '((?:18|19|20)\\d{2})';
+
+const NEUTRAL_PATTERN = new RegExp(`\\b${YEAR}\\s+${COURT_CODE}\\s+(\\d{1,5})\\b`, 'g');
+const REVERSED_NEUTRAL_PATTERN = new RegExp(`\\b${COURT_CODE}\\s+${YEAR}\\s+(\\d{1,5})\\b`, 'g');
+const SQUARE_REPORTER_PATTERN = new RegExp(`\\[${YEAR}\\]\\s*(?:(\\d{1,2})\\s+)?(${REPORTER_ALTERNATION})${SERIES}\\s+(\\d{1,5})\\b`, 'g');
+const ROUND_REPORTER_PATTERN = new RegExp(`\\(${YEAR}\\),?\\s+(\\d{1,4})\\s+(${REPORTER_ALTERNATION})${SERIES}\\s+(\\d{1,5})\\b`, 'g');
+// "at para 5", "paras 5-7" or a page, "at 820"
+const PINPOINT_PATTERN = /^\s*,?\s*(?:at\s+)?(paras?|par)\.?\s*(\d+(?:\s*[-–]\s*\d+)?)|^\s*,?\s*at\s+(\d+(?:\s*[-–]\s*\d+)?)/i;
+
+function formatSeries(series: string | undefined): string | undefined {
+  if (!series) return undefined;
+  const n = parseInt(series, 10);
+  return n === 2 ? '2d' : n === 3 ? '3d' : `${n}th`;
+}
+
+function findReporter(matched: string): ReporterInfo | undefined {
+  const key = compact(matched);
+  return REPORTERS.find(reporter => compact(reporter.abbreviation) === key);
+}
+
+function normalizedText(citation: Omit<ParsedCitation, 'normalized'>): string {
+  if (citation.type === 'neutral') {
+    return `${citation.year} ${citation.court} ${citation.number}`;
+  }
+  const reporter = `${citation.reporter}${citation.series ? ` (${citation.series})` : ''}`;
+  const info = findReporter(citation.reporter || '');
+  return info && info.yearVolumes
+    ? `[${citation.year}] ${citation.volume ? `${citation.volume} ` : ''}${reporter} ${citation.page}`
+    : `(${citation.year}), ${citation.volume} ${reporter} ${citation.page}`;
+}
+
+function neutralCitation(match: RegExpExecArray, yearGroup: number, courtGroup: number, numberGroup: number): ParsedCitation {
+  const code = compact(match[courtGroup]).toUpperCase();
+  const info = COURTS[code];
+  const citation = {
+    type: 'neutral' as const,
+    text: match[0],
+    index: match.index,
+    year: parseInt(match[yearGroup], 10),
+    court: code,
+    courtName: info?.name,
+    jurisdiction: info?.jurisdiction,
+    number: parseInt(match[numberGroup], 10),
+  };
+  return { ...citation, normalized: normalizedText(citation) };
+}
+
+function reporterCitation(match: RegExpExecArray): ParsedCitation {
+  const reporter = findReporter(match[3])!;
+  const citation = {
+    type: 'reporter' as const,
+    text: match[0],
+    index: match.index,
+    year: parseInt(match[1], 10),
+    volume: match[2] ? parseInt(match[2], 10) : undefined,
+    reporter: reporter.abbreviation,
+    series: formatSeries(match[4]),
+    page: parseInt(match[5], 10),
+    court: reporter.court,
+    courtName: reporter.court ? COURTS[reporter.court]?.name : undefined,
+    jurisdiction: reporter.jurisdiction,
+  };
+  return { ...citation, normalized: normalizedText(citation) };
+}
+
+function scan(pattern: RegExp, text: string, build: (match: RegExpExecArray) => ParsedCitation | null): ParsedCitation[] {
+  const found: ParsedCitation[] = [];
+  const regex = new RegExp(pattern.source, 'g');
+  let match: RegExpExecArray | null;
+  while ((match = regex.exec(text)) !== null) {
+    const citation = build(match);
+    if (citation) found.push(citation);
+  }
+  return found;
+}
+
+/**
+ * Every citation in free text, in order. Neutral citations are only
+ * recognised for known court codes, so "2020 COVID 19" is not a citation.
+ */
+export function findCitations(text: string, options: { includeUnknownCourts?: boolean } = {}): ParsedCitation[] {
+  const citations = [
+    ...scan(NEUTRAL_PATTERN, text, match => {
+      const citation = neutralCitation(match, 1, 2, 3);
+      return citation.courtName || options.includeUnknownCourts ? citation : null;
+    }),
+    ...scan(SQUARE_REPORTER_PATTERN, text, reporterCitation),
+    ...scan(ROUND_REPORTER_PATTERN, text, reporterCitation),
+  ];
+
+  const seen = new Set<string>();
+  return citations
+    .sort((a, b) => a.index - b.index)
+    .filter(citation => {
+      if (seen.has(citation.normalized)) return false;
+      seen.add(citation.normalized);
+      return true;
+    });
+}
+
+/**
+ * "R. v. Jordan" as the McGill Guide writes it: "R v Jordan"
+ */
+export function formatStyleOfCause(name: string): string {
+  return name
+    .replace(/\s+/g, ' ')
+    .replace(/\s+(?:v|vs)\.?\s+/gi, ' v ')
+    .replace(/^R\.\s/, 'R ')
+    .replace(/[\s,]+$/, '')
+    .trim();
+}
+
+/**
+ * A citation field such as "R v Jordan, 2016 SCC 27 at para 5", with the
+ * style of cause and pinpoint split off. Unknown court codes are accepted so
+ * that they can be reported.
+ */
+export function parseCitation(text: string): ParsedCitation | null {
+  const [citation, ...parallel] = findCitations(text, { includeUnknownCourts: true });
+  if (!citation) {
+    return null;
+  }
+  const before = text.slice(0, citation.index).replace(/[\s,]+$/, '');
+  const after = text.slice(citation.index + citation.text.length);
+  const pinpoint = PINPOINT_PATTERN.exec(after);
+  return {
+    ...citation,
+    styleOfCause: before ? formatStyleOfCause(before) : undefined,
+    pinpoint: pinpoint
+      ? pinpoint[2] ? `para${/s/i.test(pinpoint[1]) ? 's' : ''} ${pinpoint[2].replace(/\s+/g, '')}` : pinpoint[3].replace(/\s+/g, '')
+      : undefined,
+    parallel: parallel.length > 0 ? parallel.map(other => other.normalized) : undefined,
+  };
+}
+
+/**
+ * The citation in McGill Guide form, e.g. "R v Jordan, 2016 SCC 27 at para 5"
+ */
+export function formatMcGill(citation: ParsedCitation, styleOfCause?: string): string {
+  const style = styleOfCause !== undefined ? formatStyleOfCause(styleOfCause) : citation.styleOfCause;
+  return [
+    `${style ? `${style}, ` : ''}${citation.normalized}${citation.pinpoint ? ` at ${citation.pinpoint}` : ''}`,
+    ...(citation.parallel || []),
+  ].join(', ');
+}
+
+/**
+ * Problems that make the citation wrong or impossible
+ */
+export function validateCitation(citation: ParsedCitation, now: Date = new Date()): CitationIssue[] {
+  const issues: CitationIssue[] = [];
+  const error = (message: string, suggestion?: string) =>
+    issues.push({ text: citation.text, severity: 'error', message, suggestion });
+
+  if (citation.year > now.getFullYear()) {
+    error(`${citation.year} is in the future`);
+  }
+
+  if (citation.type === 'neutral') {
+    const info = COURTS[citation.court!];
+    if (!info) {
+      error(`"${citation.court}" is not a recognised Canadian court code`);
+      return issues;
+    }
+    if (citation.year < info.from) {
+      error(`The ${info.name} did not issue neutral citations before ${info.from}`);
+    } else if (info.to && citation.year > info.to) {
+      const successor = info.successor ? COURTS[info.successor] : undefined;
+      error(
+        `The ${info.name} stopped issuing decisions in ${info.to}` + (successor ? `; later decisions are cited as ${successor.code}` : ''),
+        successor ? `${citation.year} ${successor.code} ${citation.number}` : undefined
+      );
+    }
+    if (citation.number === 0) {
+      error('Decision numbers start at 1');
+    }
+    if (/\./.test(citation.text) && issues.length === 0) {
+      issues.push({
+        text: citation.text,
+        severity: 'warning',
+        message: 'Court codes in neutral citations are written without periods',
+        suggestion: citation.normalized,
+      });
+    }
+    return issues;
+  }
+
+  const reporter = findReporter(citation.reporter || '')!;
+  if (reporter.from && citation.year < reporter.from) {
+    error(`The ${reporter.name} were first published in ${reporter.from}`);
+  }
+  if (reporter.to && citation.year > reporter.to) {
+    error(`The ${reporter.name} ceased publication in ${reporter.to}`);
+  }
+  if (!citation.volume && reporter.numberedVolumesFrom && citation.year >= reporter.numberedVolumesFrom) {
+    issues.push({
+      text: citation.text,
+      severity: 'warning',
+      message: `${reporter.abbreviation} citations from ${reporter.numberedVolumesFrom} on need a volume number, e.g. [${citation.year}] 1 ${reporter.abbreviation} ${citation.page}`,
+    });
+  }
+  return issues;
+}
+
+/**
+ * Check a field that should hold exactly one citation
+ */
+export function checkCitation(text: string, now: Date = new Date()): CitationCheck {
+  const citation = parseCitation(text);
+  if (!citation) {
+    const [reversed] = findReversedCitations(text);
+    return {
+      citation: null,
+      issues: [reversed || {
+        text,
+        severity: 'error',
+        message: 'Not a recognised Canadian neutral citation (2019 SCC 65) or reporter citation ([1999] 2 SCR 817)',
+      }],
+    };
+  }
+  const issues = findCitations(text, { includeUnknownCourts: true })
+    .reduce<CitationIssue[]>((all, each) => all.concat(validateCitation(each, now)), []);
+  return { citation, formatted: formatMcGill(citation), issues };
+}
+
+// "SCC 2019 65" instead of "2019 SCC 65"
+function findReversedCitations(text: string): CitationIssue[] {
+  return scan(REVERSED_NEUTRAL_PATTERN, text, match => {
+    const citation = neutralCitation(match, 2, 1, 3);
+    return citation.courtName ? citation : null;
+  }).map(citation => ({
+    text: citation.text,
+    severity: 'error' as const,
+    message: 'Malformed neutral citation: the year comes before the court code',
+    suggestion: citation.normalized,
+  }));
+}
+
+/**
+ * Malformed or impossible citations in free text such as an AI response
+ */
+export function checkCitationsInText(text: string, now: Date = new Date()): CitationIssue[] {
+  const issues = [
+    ...findCitations(text).reduce<CitationIssue[]>((all, citation) => all.concat(validateCitation(citation, now)), []),
+    ...findReversedCitations(text),
+  ];
+  const seen = new Set<string>();
+  return issues.filter(issue => {
+    const key = `${issue.text}|${issue.message}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+/**
+ * The CanLII page for a neutral citation, or null for courts CanLII is not
+ * known to publish under that code
+ */
+export function canliiUrl(citation: ParsedCitation, language: 'en' | 'fr' = 'en'): string | null {
+  const info = citation.type === 'neutral' ? COURTS[citation.court!] : undefined;
+  if (!info || !info.canlii) {
+    return null;
+  }
+  const caseId = `${citation.year}${citation.court!.toLowerCase()}${citation.number}`;
+  return `https://www.canlii.org/${language}/${info.canlii.jurisdiction}/${info.canlii.database}/doc/${citation.year}/${caseId}/${caseId}.html`;
+}
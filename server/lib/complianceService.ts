@@ -1,75 +1,178 @@
 import { DocumentInfo } from '../types/document';
-import { ComplianceCheckRequest, ComplianceResult } from '../types/compliance';
+import { ComplianceCheckRequest, ComplianceIssue, ComplianceResult } from '../types/compliance';
 import { config } from '../config';
 import { generateChatResponse } from './aiService';
+import { chunkTextWithOffsets, estimateTokenCount, mapWithConcurrency } from './documentChunker';
+import { normalizePrompt, trigramSimilarity } from './promptSimilarity';
+
+// Token budget for the supporting documents sent in one request. Documents
+// that need more are split into sections that are analyzed separately and
+// merged, so no part of a document is left out.
+const DOCUMENT_TOKEN_BUDGET = 6000;
+
+// Number of document sections analyzed in parallel
+const SECTION_CONCURRENCY = 3;
+
+// Similarity of two finding titles for treating them as the same finding
+const DUPLICATE_FINDING_SIMILARITY = 0.6;
+
+const SEVERITY_RANK: Record<ComplianceIssue['severity'], number> = { low: 0, medium: 1, high: 2 };
+const STATUS_RANK: Record<ComplianceResult['status'], number> = { compliant: 0, needs_attention: 1, non_compliant: 2 };
+
+const COMPLIANCE_SYSTEM_PROMPT = `You are a compliance analysis assistant specializing in Canadian business regulations. 
+      You provide detailed, accurate compliance reports in JSON format.
+      Focus on business registration, licensing, taxation, employment standards, privacy laws, 
+      health and safety requirements, and industry-specific regulations.`;
+
+function analysisErrorResult(recommendation: string): ComplianceResult {
+  return {
+    score: 50,
+    status: 'needs_attention',
+    issues: [
+      {
+        title: 'Compliance Analysis Error',
+        description: 'We encountered an error analyzing your business compliance.',
+        severity: 'medium',
+        recommendation
+      }
+    ],
+    compliant: []
+  };
+}
 
 /**
- * Analyze business compliance with AI
- * This function will use the central AI service with built-in fallbacks
+ * Split the supporting documents into sections of at most
+ * DOCUMENT_TOKEN_BUDGET tokens. Long documents are cut into parts on
+ * paragraph boundaries, and short documents share a section.
  */
+function splitDocumentsIntoSections(documents: DocumentInfo[]): string[][] {
+  const parts: string[] = [];
+  for (const doc of documents.filter(d => d.content)) {
+    const chunks = chunkTextWithOffsets(extractTextFromDocument(doc), DOCUMENT_TOKEN_BUDGET);
+    chunks.forEach(chunk => {
+      const label = chunks.length > 1 ? `${doc.name} (part ${chunk.index + 1} of ${chunks.length})` : doc.name;
+      parts.push(`Document: ${label}\nContent: ${chunk.text}`);
+    });
+  }
+
+  const sections: string[][] = [];
+  let tokens = 0;
+  for (const part of parts) {
+    const partTokens = estimateTokenCount(part);
+    if (sections.length === 0 || tokens + partTokens > DOCUMENT_TOKEN_BUDGET) {
+      sections.push([]);
+      tokens = 0;
+    }
+    sections[sections.length - 1].push(part);
+    tokens += partTokens;
+  }
+  return sections;
+}
+
+async function requestComplianceAnalysis(
+  request: ComplianceCheckRequest,
+  documentTexts: string[],
+  section?: { index: number; total: number }
+): Promise<ComplianceResult | null> {
+  const prompt = generateCompliancePrompt(request.businessType, request.jurisdiction, request.description, documentTexts, section);
+  const result = await generateChatResponse(prompt, {
+    system: COMPLIANCE_SYSTEM_PROMPT,
+    cacheKey: `compliance-${request.businessType}-${request.jurisdiction}-${section ? `${section.index}-` : ''}${Date.now()}`, // Unique per request
+    semanticCache: false,
+    logPrefix: "Compliance Analysis",
+    taskType: "compliance"
+  });
+  return parseComplianceResult(result);
+}
+
+function similarTitle(a: string, b: string): boolean {
+  return trigramSimilarity(normalizePrompt(a), normalizePrompt(b)) >= DUPLICATE_FINDING_SIMILARITY;
+}
+
 /**
- * Helper function to truncate document content to prevent token limit issues
+ * Combine the results for each document section into one report. An issue
+ * raised by several sections is kept once at its highest severity, an area
+ * only counts as compliant when no section raised an issue about it, and
+ * the score and status are those of the least compliant section.
  */
-function truncateDocument(text: string, maxLength: number = 5000): string {
-  if (!text || text.length <= maxLength) return text;
-  
-  // If document is too long, truncate it with a note
-  return text.substring(0, maxLength) + 
-    `\n\n[Document truncated due to length. Only the first ${maxLength} characters are shown.]`;
+function mergeComplianceResults(results: ComplianceResult[]): ComplianceResult {
+  const issues: ComplianceIssue[] = [];
+  for (const issue of results.flatMap(result => result.issues || [])) {
+    const existing = issues.find(candidate => similarTitle(candidate.title, issue.title));
+    if (!existing) {
+      issues.push({ ...issue });
+    } else if (SEVERITY_RANK[issue.severity] > SEVERITY_RANK[existing.severity]) {
+      Object.assign(existing, issue);
+    }
+  }
+
+  const compliant = results
+    .flatMap(result => result.compliant || [])
+    .filter(area => !issues.some(issue => similarTitle(issue.title, area.title)))
+    .filter((area, index, areas) => areas.findIndex(other => similarTitle(other.title, area.title)) === index);
+
+  return {
+    score: Math.min(...results.map(result => typeof result.score === 'number' ? result.score : 50)),
+    status: results.reduce<ComplianceResult['status']>(
+      (worst, result) => STATUS_RANK[result.status] > STATUS_RANK[worst] ? result.status : worst,
+      'compliant'
+    ),
+    issues,
+    compliant
+  };
 }
 
 /**
  * Analyze business compliance with AI
- * This function will use the central AI service with built-in fallbacks
+ * This function will use the central AI service with built-in fallbacks.
+ * Supporting documents are analyzed in full: when they do not fit in one
+ * request, each section is analyzed with the business details (map) and
+ * the findings are merged (reduce).
  */
 export async function analyzeComplianceWithAI(
   request: ComplianceCheckRequest
 ): Promise<ComplianceResult> {
-  const { businessType, jurisdiction, description, documents = [], userId } = request;
+  const { businessType, jurisdiction, documents = [] } = request;
   console.log(`Starting compliance analysis for ${businessType} in ${jurisdiction}`);
   
   const startTime = Date.now();
   
   try {
-    // Extract text from documents if any, with size limits to prevent token issues
-    // Set a reasonable max length for each document
-    const MAX_DOCUMENT_LENGTH = 5000; // characters per document
-    const MAX_TOTAL_DOCUMENTS_LENGTH = 20000; // characters for all documents combined
-    
-    // Process documents with limits
-    let totalDocumentLength = 0;
-    const documentTexts: string[] = [];
-    
-    for (const doc of documents.filter(d => d.content)) {
-      const extractedText = extractTextFromDocument(doc);
-      const truncatedText = truncateDocument(extractedText, MAX_DOCUMENT_LENGTH);
-      
-      // Check if adding this document would exceed our total limit
-      if (totalDocumentLength + truncatedText.length > MAX_TOTAL_DOCUMENTS_LENGTH) {
-        documentTexts.push(`Document: ${doc.name}\n[Content omitted due to size constraints]`);
-      } else {
-        documentTexts.push(`Document: ${doc.name}\nContent: ${truncatedText}`);
-        totalDocumentLength += truncatedText.length;
+    const sections = splitDocumentsIntoSections(documents);
+    let complianceResult: ComplianceResult;
+
+    if (sections.length <= 1) {
+      console.log('Requesting compliance analysis with AI service');
+      complianceResult = await requestComplianceAnalysis(request, sections[0] || [])
+        || analysisErrorResult('Please try again or contact support if the problem persists.');
+    } else {
+      console.log(`Requesting compliance analysis for ${sections.length} document sections`);
+      const results = await mapWithConcurrency(sections.map((texts, index) => ({ texts, index })), SECTION_CONCURRENCY, async section => {
+        try {
+          return await requestComplianceAnalysis(request, section.texts, { index: section.index, total: sections.length });
+        } catch (error) {
+          console.error(`Compliance section ${section.index + 1} of ${sections.length} could not be analyzed:`, error);
+          return null;
+        }
+      });
+
+      const analyzed = results.filter((result): result is ComplianceResult => result !== null);
+      if (analyzed.length === 0) {
+        throw new Error('Compliance analysis failed for every document section');
+      }
+      complianceResult = mergeComplianceResults(analyzed);
+
+      const failed = results.length - analyzed.length;
+      if (failed > 0) {
+        complianceResult.issues.push({
+          title: 'Documents partly analyzed',
+          description: `${failed} of ${sections.length} sections of the supporting documents could not be analyzed.`,
+          severity: 'low',
+          recommendation: 'Run the check again to cover the whole of your documents.'
+        });
       }
     }
     
-    // Generate the prompt
-    const prompt = generateCompliancePrompt(businessType, jurisdiction, description, documentTexts);
-    
-    // Use the unified AI service for the request
-    console.log('Requesting compliance analysis with AI service');
-    const result = await generateChatResponse(prompt, {
-      system: `You are a compliance analysis assistant specializing in Canadian business regulations. 
-      You provide detailed, accurate compliance reports in JSON format.
-      Focus on business registration, licensing, taxation, employment standards, privacy laws, 
-      health and safety requirements, and industry-specific regulations.`,
-      cacheKey: `compliance-${businessType}-${jurisdiction}-${Date.now()}`, // Unique per request
-      logPrefix: "Compliance Analysis"
-    });
-    
-    // Parse the result
-    const complianceResult = parseComplianceResult(result);
-    
     // Log success and return
     const duration = Date.now() - startTime;
     console.log(`Compliance check: AI request successful. Duration: ${duration}ms`);
@@ -80,19 +183,7 @@ export async function analyzeComplianceWithAI(
     console.error('Compliance analysis error:', error);
     
     // Return a fallback response instead of throwing
-    return {
-      score: 50,
-      status: 'needs_attention',
-      issues: [
-        {
-          title: 'Compliance Analysis Error',
-          description: 'We encountered an error analyzing your business compliance.',
-          severity: 'medium',
-          recommendation: 'Please try again with smaller document sizes or contact support if the problem persists.'
-        }
-      ],
-      compliant: []
-    };
+    return analysisErrorResult('Please try again or contact support if the problem persists.');
   }
 }
 
@@ -103,7 +194,8 @@ function generateCompliancePrompt(
   businessType: string, 
   jurisdiction: string, 
   description?: string,
-  documentTexts: string[] = []
+  documentTexts: string[] = [],
+  section?: { index: number; total: number }
 ): string {
   // Format jurisdiction for display
   const jurisdictionDisplay = jurisdiction.charAt(0).toUpperCase() + jurisdiction.slice(1).replace(/_/g, ' ');
@@ -120,6 +212,10 @@ function generateCompliancePrompt(
   if (documentTexts.length > 0) {
     prompt += `\n\nSupporting Documents:\n${documentTexts.join('\n\n')}`;
   }
+
+  if (section) {
+    prompt += `\n\nThe supporting documents are too long to send at once, so they were split into ${section.total} sections and this is section ${section.index + 1}. Base your findings on the business details and the documents in this section; the sections are merged afterwards.`;
+  }
   
   prompt += `\n\nProvide a comprehensive compliance analysis with the following:
 1. Overall compliance score (a percentage from 0-100%)
@@ -163,29 +259,16 @@ function extractTextFromDocument(document: DocumentInfo): string {
 }
 
 /**
- * Parse compliance result from AI response
+ * Parse compliance result from AI response. Returns null when the response
+ * is an error or holds no compliance result.
  */
-function parseComplianceResult(response: string | any): ComplianceResult {
+function parseComplianceResult(response: string | any): ComplianceResult | null {
   // First check if response is already an object (not a string)
   if (typeof response === 'object' && response !== null) {
     // Check if it's an error response from the AI service
     if (response.error === true) {
       console.log('Received error response from AI service:', response.errorType);
-      
-      // Return a fallback response for error case
-      return {
-        score: 50,
-        status: 'needs_attention',
-        issues: [
-          {
-            title: 'Compliance Analysis Error',
-            description: 'We encountered an error analyzing your business compliance.',
-            severity: 'medium',
-            recommendation: 'Please try again or contact support if the problem persists.'
-          }
-        ],
-        compliant: []
-      };
+      return null;
     }
     
     // If it looks like it might already be a ComplianceResult, validate it
@@ -229,21 +312,7 @@ function parseComplianceResult(response: string | any): ComplianceResult {
       console.error('Error parsing compliance result:', extractError);
       console.error('Original response type:', typeof response);
       console.error('Original response:', JSON.stringify(response).substring(0, 500) + '...');
-      
-      // As a fallback, construct a basic response
-      return {
-        score: 50,
-        status: 'needs_attention',
-        issues: [
-          {
-            title: 'Compliance Analysis Error',
-            description: 'We encountered an error analyzing your business compliance.',
-            severity: 'medium',
-            recommendation: 'Please try again or contact support if the problem persists.'
-          }
-        ],
-        compliant: []
-      };
+      return null;
     }
   }
-}
\ No newline at end of file
+}
@@ -1,16 +1,35 @@
-import OpenAI from "openai";
-// Use standard import for Node.js compatibility with PDF.js v5
-import * as pdfjsLib from "pdfjs-dist";
-import { GlobalWorkerOptions } from 'pdfjs-dist/build/pdf';
+// pdfjs-dist is published as CommonJS, so under Node's ESM loader its API is
+// only reachable through the default export
+import pdfjs from "pdfjs-dist";
+import { enhancedAIRequest } from "./aiService";
+import { chunkTextWithOffsets, mapWithConcurrency, type TextChunk } from "./documentChunker";
+import { normalizePrompt, trigramSimilarity } from "./promptSimilarity";
 
 // Set worker path to prevent worker initialization error in Node.js environment
-GlobalWorkerOptions.workerSrc = ''; // Disable worker for Node.js environment
+pdfjs.GlobalWorkerOptions.workerSrc = ''; // Disable worker for Node.js environment
 
-// Create an OpenAI client instance
-const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+/**
+ * Send a contract prompt to the provider routed for contract work and parse
+ * the JSON object in its answer. Results are never served from the semantic
+ * cache, since a similar contract is not the same contract.
+ */
+async function requestContractJson(prompt: string, logPrefix: string): Promise<any> {
+  const response = await enhancedAIRequest<string | { message?: string }>(prompt, {
+    temperature: 0.2,
+    semanticCache: false,
+    logPrefix,
+    taskType: "contract"
+  });
+  if (typeof response !== "string") {
+    throw new Error(response?.message || `${logPrefix} request failed`);
+  }
 
-// the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
-const MODEL = "gpt-4o";
+  const json = response.match(/\{[\s\S]*\}/);
+  if (!json) {
+    throw new Error(`${logPrefix} response did not contain a JSON object`);
+  }
+  return JSON.parse(json[0]);
+}
 
 /**
  * PDF extraction response type with structured error information
@@ -54,7 +73,7 @@ export async function extractTextFromPdf(
     console.log('PDF signature validation passed, creating document loading task');
     
     // Set options for PDF loading with enhanced memory options and timeout
-    const loadingTask = pdfjsLib.getDocument({
+    const loadingTask = pdfjs.getDocument({
       data: pdfBuffer,
       disableFontFace: true,
       cMapUrl: undefined,
@@ -319,6 +338,7 @@ export type ContractAnalysisResult = {
     suggestion: string;
     severity: "low" | "medium" | "high";
     category?: string;
+    location?: ClauseLocation;
   }[];
   suggestions: {
     clause: string;
@@ -340,6 +360,31 @@ export type ContractAnalysisResult = {
     confidentiality?: string[];
     [key: string]: string[] | undefined;
   };
+  coverage?: AnalysisCoverage;
+};
+
+/**
+ * Where a flagged clause sits in the analyzed text. Offsets are character
+ * positions in the original contract text; when the model's quotation could
+ * not be found verbatim, the span is the whole section it came from and
+ * `exact` is false.
+ */
+export type ClauseLocation = {
+  start: number;
+  end: number;
+  exact: boolean;
+  section: number;
+};
+
+/**
+ * How much of a contract was analyzed. Sections that failed to analyze are
+ * listed so partial results are never presented as complete.
+ */
+export type AnalysisCoverage = {
+  totalCharacters: number;
+  analyzedCharacters: number;
+  sections: number;
+  failedSections: number[];
 };
 
 // Type for contract comparison response
@@ -354,47 +399,108 @@ export type ContractComparisonResult = {
   recommendation: string;
 };
 
+// Token budget for each section of a long contract, kept well below the
+// model's context window so the prompt and the JSON response also fit
+const SECTION_TOKEN_BUDGET = 6000;
+
+// Number of contract sections analyzed in parallel
+const SECTION_CONCURRENCY = 3;
+
+// Similarity thresholds for treating findings from different sections as the same
+const DUPLICATE_CLAUSE_SIMILARITY = 0.85;
+const DUPLICATE_ISSUE_SIMILARITY = 0.6;
+
+const SEVERITY_RANK: Record<"low" | "medium" | "high", number> = { low: 0, medium: 1, high: 2 };
+
+type AnalysisRisk = ContractAnalysisResult["risks"][number];
+type SectionAnalysis = Omit<ContractAnalysisResult, "coverage">;
+
+function toLevel(value: unknown, fallback: "low" | "medium" | "high"): "low" | "medium" | "high" {
+  const level = typeof value === "string" ? value.toLowerCase() : "";
+  return level === "low" || level === "medium" || level === "high" ? level : fallback;
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === "string" && value.trim().length > 0;
+}
+
 /**
- * Analyzes a contract for potential risks and improvement opportunities
- * @param contractText The full text of the contract to analyze
- * @returns Analysis results including risks and suggestions
+ * Coerce a model response into a well-formed section analysis
  */
-export async function analyzeContract(
-  contractText: string, 
-  jurisdiction: string = 'Canada',
-  contractType: string = 'general'
-): Promise<ContractAnalysisResult> {
-  try {
-    // Import the document processing utility
-    // Using a dynamic import to avoid circular dependencies
-    const { processContractForAnalysis } = await import('./documentChunker');
-    
-    // Process the contract text to handle length and token limitations
-    console.log(`Processing contract with approximate length: ${contractText.length} characters`);
-    const processedText = await processContractForAnalysis(contractText);
-    console.log(`Processed contract text to: ${processedText.length} characters`);
-    
-    const prompt = `
-      I need you to analyze the following contract for potential legal risks and provide improvement suggestions within the legal context of ${jurisdiction}, focusing specifically on laws and regulations applicable to ${contractType} contracts.
-      
+function normalizeSectionResult(raw: any): SectionAnalysis {
+  const score = Number(raw?.score);
+  if (!Number.isFinite(score) || !isNonEmptyString(raw?.summary)) {
+    throw new Error("Invalid response format from analysis");
+  }
+
+  const categories: Record<string, string[]> = {};
+  if (raw.clause_categories && typeof raw.clause_categories === "object") {
+    for (const key of Object.keys(raw.clause_categories)) {
+      const values = raw.clause_categories[key];
+      if (Array.isArray(values)) {
+        categories[key] = values.filter(isNonEmptyString);
+      }
+    }
+  }
+
+  return {
+    score: Math.max(0, Math.min(100, Math.round(score))),
+    riskLevel: toLevel(raw.riskLevel, "medium"),
+    risks: (Array.isArray(raw.risks) ? raw.risks : [])
+      .filter((risk: any) => isNonEmptyString(risk?.clause) && isNonEmptyString(risk?.issue))
+      .map((risk: any) => ({
+        clause: risk.clause,
+        issue: risk.issue,
+        suggestion: isNonEmptyString(risk.suggestion) ? risk.suggestion : "",
+        severity: toLevel(risk.severity, "medium"),
+        category: isNonEmptyString(risk.category) ? risk.category : undefined
+      })),
+    suggestions: (Array.isArray(raw.suggestions) ? raw.suggestions : [])
+      .filter((item: any) => isNonEmptyString(item?.suggestion)),
+    summary: raw.summary,
+    jurisdiction_issues: (Array.isArray(raw.jurisdiction_issues) ? raw.jurisdiction_issues : [])
+      .filter((item: any) => isNonEmptyString(item?.issue)),
+    clause_categories: categories
+  };
+}
+
+/**
+ * Analyze one section of a contract. Sections of a longer contract are told
+ * where they sit so the model doesn't report terms covered elsewhere as missing.
+ */
+async function analyzeSection(
+  chunk: TextChunk,
+  totalSections: number,
+  jurisdiction: string,
+  contractType: string
+): Promise<SectionAnalysis> {
+  const scope = totalSections === 1
+    ? "the following contract"
+    : `section ${chunk.index + 1} of ${totalSections} of a longer contract (characters ${chunk.start} to ${chunk.end}). ` +
+      "The other sections are analyzed separately, so analyze only this section and do not report terms as missing " +
+      "because they do not appear in it";
+
+  const prompt = `
+      I need you to analyze ${scope} for potential legal risks and provide improvement suggestions within the legal context of ${jurisdiction}, focusing specifically on laws and regulations applicable to ${contractType} contracts.
+
       As an AI legal assistant, please provide:
       1. A risk score from 0-100 (higher = safer contract)
       2. An overall risk level (low, medium, high)
       3. Identification of specific risky clauses, the issues they present, and suggestions to improve them
       4. General suggestions for improving the contract
-      5. A summary of the contract and your analysis
+      5. A summary of the text and your analysis
       6. Identification of any clauses that may not align with ${jurisdiction} laws and regulations
       7. Analysis of key clauses by category (payment terms, termination, liability, etc.)
-      
-      If the contract appears to be truncated or summarized, note this in your analysis.
-      
+
+      When quoting a clause, copy its text exactly as it appears (at most about 300 characters) so it can be located in the document.
+
       Format your response as a JSON object with the following structure:
       {
         "score": number,
         "riskLevel": "low" | "medium" | "high",
         "risks": [
           {
-            "clause": "text of the problematic clause",
+            "clause": "exact text of the problematic clause",
             "issue": "description of the issue",
             "suggestion": "suggested improvement",
             "severity": "low" | "medium" | "high",
@@ -426,32 +532,276 @@ export async function analyzeContract(
           "other_categories": ["as identified in the contract"]
         }
       }
-      
+
       CONTRACT:
-      ${processedText}
+      ${chunk.text}
     `;
 
-    const response = await openai.chat.completions.create({
-      model: MODEL,
-      messages: [{ role: "user", content: prompt }],
-      response_format: { type: "json_object" },
-      temperature: 0.2, // Lower temperature for more consistent results
+  let lastError: unknown;
+  // One retry per section; a transient failure shouldn't cost a whole section
+  for (let attempt = 1; attempt <= 2; attempt++) {
+    try {
+      return normalizeSectionResult(await requestContractJson(prompt, "Contract Section Analysis"));
+    } catch (error) {
+      lastError = error;
+      console.warn(`Analysis of contract section ${chunk.index + 1} failed (attempt ${attempt}):`, error);
+    }
+  }
+  throw lastError;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Find a quoted clause in the section it was reported from. Quotes are
+ * matched exactly first, then by their words ignoring whitespace, case and
+ * punctuation differences introduced by the model.
+ */
+function locateClause(chunk: TextChunk, clause: string): ClauseLocation {
+  const quote = clause.trim().replace(/^["'“”‘’]+|["'“”‘’]+$/g, "").replace(/(\.\.\.|…)$/, "").trim();
+
+  const exactIndex = quote ? chunk.text.indexOf(quote) : -1;
+  if (exactIndex >= 0) {
+    return {
+      start: chunk.start + exactIndex,
+      end: chunk.start + exactIndex + quote.length,
+      exact: true,
+      section: chunk.index
+    };
+  }
+
+  const words = quote.match(/[A-Za-z0-9\u00C0-\u024F]+/g) || [];
+  if (words.length >= 3) {
+    const head = new RegExp(words.slice(0, 12).map(escapeRegExp).join("[^A-Za-z0-9\\u00C0-\\u024F]+"), "i");
+    const headMatch = head.exec(chunk.text);
+    if (headMatch) {
+      const start = headMatch.index;
+      let end = start + headMatch[0].length;
+
+      // Extend to the last few words of the quote when they follow closely
+      if (words.length > 12) {
+        const tail = new RegExp(words.slice(-6).map(escapeRegExp).join("[^A-Za-z0-9\\u00C0-\\u024F]+"), "i");
+        const rest = chunk.text.slice(end, start + quote.length * 2);
+        const tailMatch = tail.exec(rest);
+        end = tailMatch ? end + tailMatch.index + tailMatch[0].length : Math.min(start + quote.length, chunk.text.length);
+      }
+
+      return { start: chunk.start + start, end: chunk.start + end, exact: true, section: chunk.index };
+    }
+  }
+
+  return { start: chunk.start, end: chunk.end, exact: false, section: chunk.index };
+}
+
+function similarText(a: string | undefined, b: string | undefined, threshold: number): boolean {
+  return trigramSimilarity(normalizePrompt(a || ""), normalizePrompt(b || "")) >= threshold;
+}
+
+function overlaps(a?: ClauseLocation, b?: ClauseLocation): boolean {
+  return !!a?.exact && !!b?.exact && a.start < b.end && b.start < a.end;
+}
+
+function disjoint(a?: ClauseLocation, b?: ClauseLocation): boolean {
+  return !!a?.exact && !!b?.exact && !overlaps(a, b);
+}
+
+/**
+ * Keep the first of each group of items considered equal, optionally
+ * folding later duplicates into it
+ */
+function dedupe<T>(items: T[], isSame: (a: T, b: T) => boolean, merge?: (kept: T, duplicate: T) => void): T[] {
+  const kept: T[] = [];
+  for (const item of items) {
+    const existing = kept.find(candidate => isSame(candidate, item));
+    if (!existing) {
+      kept.push(item);
+    } else if (merge) {
+      merge(existing, item);
+    }
+  }
+  return kept;
+}
+
+/**
+ * Combine per-section results into one analysis of the whole contract.
+ * Risks are tied to their position in the contract, duplicates reported by
+ * neighbouring sections are merged keeping the highest severity, and the
+ * score is averaged by section length.
+ */
+function mergeSectionResults(
+  sections: Array<{ chunk: TextChunk; result: SectionAnalysis }>
+): Omit<ContractAnalysisResult, "summary" | "coverage"> {
+  const located: AnalysisRisk[] = [];
+  for (const { chunk, result } of sections) {
+    for (const risk of result.risks) {
+      located.push({ ...risk, location: locateClause(chunk, risk.clause) });
+    }
+  }
+
+  const risks = dedupe(
+    located,
+    (a, b) =>
+      similarText(a.issue, b.issue, DUPLICATE_ISSUE_SIMILARITY) &&
+      (overlaps(a.location, b.location) ||
+        // Similar wording found at two distinct places is a repeated clause, not a duplicate
+        (!disjoint(a.location, b.location) && similarText(a.clause, b.clause, DUPLICATE_CLAUSE_SIMILARITY))),
+    (kept, duplicate) => {
+      if (SEVERITY_RANK[duplicate.severity] > SEVERITY_RANK[kept.severity]) {
+        kept.severity = duplicate.severity;
+      }
+      if (!kept.location?.exact && duplicate.location?.exact) {
+        kept.location = duplicate.location;
+      }
+    }
+  ).sort((a, b) => (a.location?.start ?? 0) - (b.location?.start ?? 0));
+
+  const suggestions = dedupe(
+    sections.flatMap(({ result }) => result.suggestions),
+    (a, b) =>
+      similarText(a.suggestion, b.suggestion, DUPLICATE_ISSUE_SIMILARITY) &&
+      similarText(a.clause, b.clause, DUPLICATE_CLAUSE_SIMILARITY)
+  );
+
+  const jurisdictionIssues = dedupe(
+    sections.flatMap(({ result }) => result.jurisdiction_issues || []),
+    (a, b) =>
+      similarText(a.issue, b.issue, DUPLICATE_ISSUE_SIMILARITY) &&
+      similarText(a.clause, b.clause, DUPLICATE_CLAUSE_SIMILARITY)
+  );
+
+  const categories: Record<string, string[]> = {};
+  for (const { result } of sections) {
+    const sectionCategories = result.clause_categories || {};
+    for (const key of Object.keys(sectionCategories)) {
+      const name = key.trim().toLowerCase();
+      categories[name] = dedupe(
+        [...(categories[name] || []), ...(sectionCategories[key] || [])],
+        (a, b) => similarText(a, b, DUPLICATE_CLAUSE_SIMILARITY)
+      );
+    }
+  }
+
+  const totalLength = sections.reduce((sum, { chunk }) => sum + chunk.text.length, 0);
+  const score = Math.round(
+    sections.reduce((sum, { chunk, result }) => sum + result.score * chunk.text.length, 0) / totalLength
+  );
+
+  // A contract is as risky as its riskiest part
+  const riskLevel = sections.reduce<"low" | "medium" | "high">(
+    (worst, { result }) => SEVERITY_RANK[result.riskLevel] > SEVERITY_RANK[worst] ? result.riskLevel : worst,
+    "low"
+  );
+
+  return {
+    score,
+    riskLevel,
+    risks,
+    suggestions,
+    jurisdiction_issues: jurisdictionIssues,
+    clause_categories: categories
+  };
+}
+
+/**
+ * Write an overall summary from the section summaries. Falls back to joining
+ * them if the summarization request fails.
+ */
+async function summarizeSections(
+  sections: Array<{ chunk: TextChunk; result: SectionAnalysis }>,
+  merged: Omit<ContractAnalysisResult, "summary" | "coverage">,
+  jurisdiction: string,
+  contractType: string
+): Promise<string> {
+  if (sections.length === 1) {
+    return sections[0].result.summary;
+  }
+
+  const sectionSummaries = sections
+    .map(({ chunk, result }) => `Section ${chunk.index + 1} (risk ${result.riskLevel}): ${result.summary}`)
+    .join("\n");
+  const highRisks = merged.risks.filter(risk => risk.severity === "high").map(risk => `- ${risk.issue}`).join("\n");
+
+  try {
+    const { summary } = await requestContractJson(`
+      The following are summaries of consecutive sections of one ${contractType} contract governed by ${jurisdiction} law,
+      followed by the high-severity risks found. Write a single overall summary of the contract and its analysis
+      in one or two paragraphs. Respond with a JSON object of the form { "summary": "..." }.
+
+      SECTION SUMMARIES:
+      ${sectionSummaries}
+
+      HIGH-SEVERITY RISKS:
+      ${highRisks || "None"}
+    `, "Contract Summary");
+    if (isNonEmptyString(summary)) {
+      return summary;
+    }
+  } catch (error) {
+    console.warn("Error summarizing contract sections, joining section summaries:", error);
+  }
+
+  return sections.map(({ result }) => result.summary).join("\n\n");
+}
+
+/**
+ * Analyzes a contract for potential risks and improvement opportunities.
+ *
+ * The whole contract is analyzed regardless of length: it is split into
+ * sections that fit the model's context (map), each section is analyzed
+ * separately, and the findings are merged into a single result (reduce).
+ * Each risk carries the location of its clause in the original text.
+ * @param contractText The full text of the contract to analyze
+ * @returns Analysis results including risks and suggestions
+ */
+export async function analyzeContract(
+  contractText: string,
+  jurisdiction: string = 'Canada',
+  contractType: string = 'general'
+): Promise<ContractAnalysisResult> {
+  try {
+    const chunks = chunkTextWithOffsets(contractText, SECTION_TOKEN_BUDGET);
+    if (chunks.length === 0) {
+      throw new Error("Contract text is empty");
+    }
+    console.log(`Analyzing contract of ${contractText.length} characters in ${chunks.length} section(s)`);
+
+    const outcomes = await mapWithConcurrency(chunks, SECTION_CONCURRENCY, async chunk => {
+      try {
+        return { chunk, result: await analyzeSection(chunk, chunks.length, jurisdiction, contractType) };
+      } catch (error) {
+        console.error(`Contract section ${chunk.index + 1} of ${chunks.length} could not be analyzed:`, error);
+        return { chunk, result: null };
+      }
     });
 
-    const responseContent = response.choices[0].message.content;
-    
-    if (!responseContent) {
-      throw new Error("No analysis results returned from OpenAI");
+    const sections = outcomes.filter(
+      (outcome): outcome is { chunk: TextChunk; result: SectionAnalysis } => outcome.result !== null
+    );
+    if (sections.length === 0) {
+      throw new Error("Contract analysis failed for every section of the contract");
     }
 
-    const parsedResponse = JSON.parse(responseContent) as ContractAnalysisResult;
-    
-    // Validate the structure of the response
-    if (!parsedResponse.score || !parsedResponse.riskLevel || !parsedResponse.summary) {
-      throw new Error("Invalid response format from analysis");
+    const failed = outcomes.filter(outcome => outcome.result === null).map(({ chunk }) => chunk);
+    const merged = mergeSectionResults(sections);
+    let summary = await summarizeSections(sections, merged, jurisdiction, contractType);
+
+    if (failed.length > 0) {
+      const ranges = failed.map(chunk => `section ${chunk.index + 1} (characters ${chunk.start}-${chunk.end})`).join(", ");
+      summary += `\n\nNote: ${failed.length} of ${chunks.length} sections could not be analyzed and are not covered by this analysis: ${ranges}.`;
     }
 
-    return parsedResponse;
+    return {
+      ...merged,
+      summary,
+      coverage: {
+        totalCharacters: contractText.length,
+        analyzedCharacters: sections.reduce((sum, { chunk }) => sum + chunk.text.length, 0),
+        sections: chunks.length,
+        failedSections: failed.map(chunk => chunk.index)
+      }
+    };
   } catch (error) {
     console.error("Error analyzing contract:", error);
     throw error;
@@ -511,20 +861,7 @@ export async function compareContracts(
       ${processedSecondContract}
     `;
 
-    const response = await openai.chat.completions.create({
-      model: MODEL,
-      messages: [{ role: "user", content: prompt }],
-      response_format: { type: "json_object" },
-      temperature: 0.2,
-    });
-
-    const responseContent = response.choices[0].message.content;
-    
-    if (!responseContent) {
-      throw new Error("No comparison results returned from OpenAI");
-    }
-
-    const parsedResponse = JSON.parse(responseContent) as ContractComparisonResult;
+    const parsedResponse = await requestContractJson(prompt, "Contract Comparison") as ContractComparisonResult;
     
     // Validate the structure of the response
     if (!parsedResponse.summary || !Array.isArray(parsedResponse.differences)) {
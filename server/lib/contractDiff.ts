@@ -0,0 +1,391 @@
+/**
+ * Clause-Level Contract Redlining
+ *
+ * This module produces a deterministic, clause-aligned diff between two
+ * versions of a contract. Both texts are split into numbered clauses, clauses
+ * are aligned across the versions (unchanged, modified, moved, added or
+ * removed) and each modified pair gets a word-level redline. The alignment
+ * and redlines never depend on an AI model; AI is only used afterwards to
+ * describe the legal impact of each change.
+ */
+
+import { generateChatResponse } from './aiService';
+import { normalizePrompt, profileSimilarity, trigramProfile } from './promptSimilarity';
+import { logger } from './logger';
+
+export type ClauseChangeType = 'unchanged' | 'modified' | 'moved' | 'added' | 'removed';
+
+export interface ContractClause {
+  index: number;  // Position among the contract's clauses, from 0
+  number: string; // Clause number as written ("4.2"), or "preamble" for text before the first clause
+  text: string;
+  start: number;  // Character offsets in the contract text
+  end: number;
+}
+
+export interface RedlineSegment {
+  type: 'equal' | 'insert' | 'delete';
+  text: string;
+}
+
+export interface AlignedClause {
+  change: ClauseChangeType;
+  moved: boolean;      // True when the clause changed position, including modified clauses
+  similarity: number;  // Text similarity of the pair, 1 for identical clauses
+  first?: ContractClause;
+  second?: ContractClause;
+  redline: RedlineSegment[];
+  impact?: string;
+}
+
+export interface ClauseRedline {
+  numbered: boolean; // False when neither contract had clause numbers and paragraphs were used
+  clauses: AlignedClause[];
+  stats: Record<ClauseChangeType, number>;
+}
+
+// Minimum similarity for two differing clauses to be treated as versions of each other
+const CLAUSE_MATCH_THRESHOLD = 0.5;
+
+// Word diffs larger than this (words x words) are shown as a full replacement
+const MAX_WORD_DIFF_CELLS = 4000000;
+
+// Changed clauses sent to the AI per request, and the most annotated per comparison
+const IMPACT_BATCH_SIZE = 12;
+const MAX_IMPACT_CLAUSES = 96;
+
+// Clause text sent to the AI for impact analysis is cut to this length
+const IMPACT_EXCERPT_LENGTH = 1200;
+
+// A clause starts at a line beginning with "Section 4", "4.2", "4." or "4)".
+// A bare number isn't enough, so wrapped lines starting "30 days..." don't
+// count as clauses.
+const CLAUSE_HEADING =
+  /^[ \t]*(?:(?:article|section|clause)[ \t]+(\d{1,3}(?:\.\d{1,3})*)[.):]?|(\d{1,3}(?:\.\d{1,3})+)[.)]?|(\d{1,3})[.)])[ \t]+(?=\S)/gim;
+
+/**
+ * Split a contract into clauses. Numbered clauses are used when the text has
+ * at least two of them; otherwise each paragraph becomes a clause numbered
+ * in order.
+ */
+export function splitIntoClauses(text: string): { clauses: ContractClause[]; numbered: boolean } {
+  const headings: Array<{ number: string; start: number }> = [];
+  let match: RegExpExecArray | null;
+  CLAUSE_HEADING.lastIndex = 0;
+  while ((match = CLAUSE_HEADING.exec(text)) !== null) {
+    headings.push({ number: match[1] || match[2] || match[3], start: match.index });
+  }
+
+  if (headings.length >= 2) {
+    const clauses: ContractClause[] = [];
+    const preamble = text.slice(0, headings[0].start);
+    if (preamble.trim()) {
+      clauses.push(makeClause(text, clauses.length, 'preamble', 0, headings[0].start));
+    }
+    headings.forEach((heading, i) => {
+      const end = i + 1 < headings.length ? headings[i + 1].start : text.length;
+      clauses.push(makeClause(text, clauses.length, heading.number, heading.start, end));
+    });
+    return { clauses, numbered: true };
+  }
+
+  const clauses: ContractClause[] = [];
+  const paragraphPattern = /\S[\s\S]*?(?=\n\s*\n|$)/g;
+  while ((match = paragraphPattern.exec(text)) !== null) {
+    clauses.push(makeClause(text, clauses.length, String(clauses.length + 1), match.index, match.index + match[0].length));
+  }
+  return { clauses, numbered: false };
+}
+
+function makeClause(text: string, index: number, number: string, start: number, end: number): ContractClause {
+  const raw = text.slice(start, end);
+  const leading = raw.length - raw.trimStart().length;
+  const trimmed = raw.trim();
+  return { index, number, text: trimmed, start: start + leading, end: start + leading + trimmed.length };
+}
+
+/**
+ * Clause text used for matching, without its number so that renumbered
+ * clauses still match
+ */
+function clauseBody(clause: ContractClause): string {
+  const withoutNumber = clause.number === 'preamble' ? clause.text : clause.text.replace(CLAUSE_HEADING, '');
+  return normalizePrompt(withoutNumber);
+}
+
+/**
+ * Word-level diff of two clause texts. Whitespace is kept with the word it
+ * follows, so joining the equal and delete segments reproduces the first
+ * text and joining the equal and insert segments reproduces the second.
+ */
+export function diffWords(before: string, after: string): RedlineSegment[] {
+  const a = before.match(/\s*\S+/g) || [];
+  const b = after.match(/\s*\S+/g) || [];
+  const same = (x: string, y: string) => x.trim() === y.trim();
+
+  // Common prefix and suffix don't need the quadratic table
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && same(a[prefix], b[prefix])) prefix++;
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    same(a[a.length - 1 - suffix], b[b.length - 1 - suffix])
+  ) suffix++;
+
+  const midA = a.slice(prefix, a.length - suffix);
+  const midB = b.slice(prefix, b.length - suffix);
+  const segments: RedlineSegment[] = [];
+  const push = (type: RedlineSegment['type'], text: string) => {
+    const last = segments[segments.length - 1];
+    if (last && last.type === type) {
+      last.text += text;
+    } else if (text) {
+      segments.push({ type, text });
+    }
+  };
+
+  a.slice(0, prefix).forEach(word => push('equal', word));
+
+  if (midA.length * midB.length > MAX_WORD_DIFF_CELLS) {
+    push('delete', midA.join(''));
+    push('insert', midB.join(''));
+  } else {
+    // Longest common subsequence table, filled from the end
+    const cols = midB.length + 1;
+    const lcs = new Uint32Array((midA.length + 1) * cols);
+    for (let i = midA.length - 1; i >= 0; i--) {
+      for (let j = midB.length - 1; j >= 0; j--) {
+        lcs[i * cols + j] = same(midA[i], midB[j])
+          ? lcs[(i + 1) * cols + j + 1] + 1
+          : Math.max(lcs[(i + 1) * cols + j], lcs[i * cols + j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < midA.length || j < midB.length) {
+      if (i < midA.length && j < midB.length && same(midA[i], midB[j])) {
+        push('equal', midB[j]);
+        i++;
+        j++;
+      } else if (i < midA.length && (j === midB.length || lcs[(i + 1) * cols + j] >= lcs[i * cols + j + 1])) {
+        // Deletions before insertions, as in a conventional redline
+        push('delete', midA[i++]);
+      } else {
+        push('insert', midB[j++]);
+      }
+    }
+  }
+
+  b.slice(b.length - suffix).forEach(word => push('equal', word));
+  return segments;
+}
+
+/**
+ * Indices (into pairs) of the longest run of pairs whose second-contract
+ * positions increase; pairs outside it are the ones that moved
+ */
+function inOrderPairs(pairs: Array<{ first: number; second: number }>): Set<number> {
+  const tails: number[] = [];
+  const previous: number[] = new Array(pairs.length).fill(-1);
+
+  pairs.forEach((pair, index) => {
+    let low = 0;
+    let high = tails.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (pairs[tails[mid]].second < pair.second) low = mid + 1;
+      else high = mid;
+    }
+    if (low > 0) previous[index] = tails[low - 1];
+    tails[low] = index;
+  });
+
+  const kept = new Set<number>();
+  for (let index = tails.length ? tails[tails.length - 1] : -1; index !== -1; index = previous[index]) {
+    kept.add(index);
+  }
+  return kept;
+}
+
+/**
+ * Split two contracts into clauses and align them. Identical clauses are
+ * matched first, then the remaining clauses are paired by text similarity.
+ * The result follows the order of the second contract, with removed clauses
+ * placed after the clause that preceded them in the first contract.
+ */
+export function compareContractClauses(firstContract: string, secondContract: string): ClauseRedline {
+  const first = splitIntoClauses(firstContract);
+  const second = splitIntoClauses(secondContract);
+  const firstBodies = first.clauses.map(clauseBody);
+  const secondBodies = second.clauses.map(clauseBody);
+
+  const partnerOfFirst = new Map<number, { second: number; similarity: number }>();
+  const matchedSecond = new Set<number>();
+
+  // Identical clauses, preferring the nearest unmatched occurrence in order
+  const bySecondBody = new Map<string, number[]>();
+  secondBodies.forEach((body, index) => {
+    bySecondBody.set(body, [...(bySecondBody.get(body) || []), index]);
+  });
+  firstBodies.forEach((body, index) => {
+    const candidates = bySecondBody.get(body);
+    if (candidates && candidates.length > 0) {
+      const secondIndex = candidates.shift()!;
+      partnerOfFirst.set(index, { second: secondIndex, similarity: 1 });
+      matchedSecond.add(secondIndex);
+    }
+  });
+
+  // Remaining clauses paired greedily by similarity
+  const secondProfiles = secondBodies.map(body => trigramProfile(body));
+  const candidates: Array<{ first: number; second: number; similarity: number }> = [];
+  firstBodies.forEach((body, firstIndex) => {
+    if (partnerOfFirst.has(firstIndex)) return;
+    const profile = trigramProfile(body);
+    secondProfiles.forEach((secondProfile, secondIndex) => {
+      if (matchedSecond.has(secondIndex)) return;
+      const similarity = profileSimilarity(profile, secondProfile);
+      if (similarity >= CLAUSE_MATCH_THRESHOLD) {
+        candidates.push({ first: firstIndex, second: secondIndex, similarity });
+      }
+    });
+  });
+  candidates
+    .sort((x, y) => y.similarity - x.similarity || Math.abs(x.first - x.second) - Math.abs(y.first - y.second))
+    .forEach(candidate => {
+      if (partnerOfFirst.has(candidate.first) || matchedSecond.has(candidate.second)) return;
+      partnerOfFirst.set(candidate.first, { second: candidate.second, similarity: candidate.similarity });
+      matchedSecond.add(candidate.second);
+    });
+
+  const pairs = Array.from(partnerOfFirst.entries())
+    .map(([firstIndex, partner]) => ({ first: firstIndex, ...partner }))
+    .sort((x, y) => x.first - y.first);
+  const inOrder = inOrderPairs(pairs);
+
+  const entries: Array<{ key: [number, number, number]; clause: AlignedClause }> = [];
+
+  pairs.forEach((pair, index) => {
+    const firstClause = first.clauses[pair.first];
+    const secondClause = second.clauses[pair.second];
+    const moved = !inOrder.has(index);
+    const identical = pair.similarity === 1 && firstBodies[pair.first] === secondBodies[pair.second];
+    entries.push({
+      key: [pair.second, 0, 0],
+      clause: {
+        change: identical ? (moved ? 'moved' : 'unchanged') : 'modified',
+        moved,
+        similarity: Number(pair.similarity.toFixed(3)),
+        first: firstClause,
+        second: secondClause,
+        redline: identical && firstClause.text === secondClause.text
+          ? [{ type: 'equal', text: secondClause.text }]
+          : diffWords(firstClause.text, secondClause.text)
+      }
+    });
+  });
+
+  second.clauses.forEach((clause, index) => {
+    if (matchedSecond.has(index)) return;
+    entries.push({
+      key: [index, 0, 0],
+      clause: { change: 'added', moved: false, similarity: 0, second: clause, redline: [{ type: 'insert', text: clause.text }] }
+    });
+  });
+
+  // Anchor each removed clause after the nearest earlier clause that stayed in place
+  const anchorOfFirst = new Map<number, number>();
+  pairs.forEach((pair, index) => {
+    if (inOrder.has(index)) anchorOfFirst.set(pair.first, pair.second);
+  });
+  first.clauses.forEach((clause, index) => {
+    if (partnerOfFirst.has(index)) return;
+    let anchor = -1;
+    for (let previous = index - 1; previous >= 0; previous--) {
+      if (anchorOfFirst.has(previous)) {
+        anchor = anchorOfFirst.get(previous)!;
+        break;
+      }
+    }
+    entries.push({
+      key: [anchor, 1, index],
+      clause: { change: 'removed', moved: false, similarity: 0, first: clause, redline: [{ type: 'delete', text: clause.text }] }
+    });
+  });
+
+  entries.sort((x, y) => x.key[0] - y.key[0] || x.key[1] - y.key[1] || x.key[2] - y.key[2]);
+  const clauses = entries.map(entry => entry.clause);
+
+  const stats: Record<ClauseChangeType, number> = { unchanged: 0, modified: 0, moved: 0, added: 0, removed: 0 };
+  clauses.forEach(clause => { stats[clause.change]++; });
+
+  return { numbered: first.numbered || second.numbered, clauses, stats };
+}
+
+function excerpt(text: string | undefined): string {
+  if (!text) return '(none)';
+  return text.length > IMPACT_EXCERPT_LENGTH ? `${text.slice(0, IMPACT_EXCERPT_LENGTH)}...` : text;
+}
+
+/**
+ * Ask the AI service to describe the legal impact of each changed clause.
+ * Impacts are written onto the aligned clauses in place. Failures are logged
+ * and leave the affected clauses without an impact; the redline itself is
+ * unaffected.
+ */
+export async function annotateClauseImpacts(
+  redline: ClauseRedline,
+  jurisdiction: string = 'Canada'
+): Promise<ClauseRedline> {
+  const changed = redline.clauses.filter(clause => clause.change !== 'unchanged');
+  if (changed.length > MAX_IMPACT_CLAUSES) {
+    logger.warn(`[contract-diff] ${changed.length} changed clauses; describing the impact of the first ${MAX_IMPACT_CLAUSES}`);
+  }
+  const toAnnotate = changed.slice(0, MAX_IMPACT_CLAUSES);
+
+  for (let offset = 0; offset < toAnnotate.length; offset += IMPACT_BATCH_SIZE) {
+    const batch = toAnnotate.slice(offset, offset + IMPACT_BATCH_SIZE);
+    const described = batch.map((clause, id) => {
+      const label = clause.second?.number || clause.first?.number;
+      return `[${id}] ${clause.change}${clause.moved && clause.change === 'modified' ? ' and moved' : ''} - clause ${label}
+BEFORE: ${clause.change === 'added' ? '(not present)' : excerpt(clause.first?.text)}
+AFTER: ${clause.change === 'removed' ? '(deleted)' : excerpt(clause.second?.text)}`;
+    }).join('\n\n');
+
+    const prompt = `The following clauses changed between two versions of a contract governed by the laws of ${jurisdiction}.
+For each change, explain in one or two sentences its practical legal impact on the parties.
+Respond only with JSON of the form {"impacts": [{"id": number, "impact": "..."}]}.
+
+${described}`;
+
+    try {
+      const response = await generateChatResponse(prompt, {
+        system: 'You are a contract review assistant. You respond only with valid JSON.',
+        semanticCache: false,
+        logPrefix: 'Clause Impact',
+        taskType: 'contract'
+      });
+      if (typeof response !== 'string') {
+        throw new Error(response.message);
+      }
+
+      const json = response.match(/\{[\s\S]*\}/);
+      const impacts = json ? JSON.parse(json[0]).impacts : null;
+      if (!Array.isArray(impacts)) {
+        throw new Error('Impact response did not contain an impacts array');
+      }
+      impacts.forEach((item: { id?: unknown; impact?: unknown }) => {
+        const clause = typeof item.id === 'number' ? batch[item.id] : undefined;
+        if (clause && typeof item.impact === 'string' && item.impact.trim()) {
+          clause.impact = item.impact.trim();
+        }
+      });
+    } catch (error) {
+      logger.warn('[contract-diff] Could not describe clause impacts:', error);
+    }
+  }
+
+  return redline;
+}
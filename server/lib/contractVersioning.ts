@@ -0,0 +1,169 @@
+/**
+ * Contract Analysis Versioning
+ *
+ * This module compares successive analyses of the same contract matter. For
+ * each pair of versions it reports how the score and risk level moved and
+ * classifies every risk as resolved (only in the earlier version), introduced
+ * (only in the later version) or carried over (in both). Risks are matched by
+ * the similarity of their clause text and issue description, since the AI
+ * rarely words the same finding identically twice.
+ */
+
+import type { ContractAnalysis, ContractMatter } from '@shared/schema';
+import { normalizePrompt, trigramSimilarity } from './promptSimilarity';
+
+// Minimum weighted clause/issue similarity for two risks to be the same finding
+const RISK_MATCH_THRESHOLD = 0.6;
+
+const SEVERITY_RANK: Record<string, number> = { low: 0, medium: 1, high: 2 };
+
+export interface VersionRisk {
+  clause: string;
+  issue: string;
+  severity: string;
+  category?: string;
+}
+
+export interface CarriedRisk {
+  previous: VersionRisk;
+  current: VersionRisk;
+  severityChange: 'increased' | 'decreased' | 'unchanged';
+}
+
+export interface AnalysisVersionDiff {
+  fromAnalysisId: number;
+  toAnalysisId: number;
+  fromVersion: number;
+  toVersion: number;
+  score: { from: number; to: number; change: number };
+  riskLevel: { from: string; to: string; changed: boolean };
+  risks: {
+    resolved: VersionRisk[];
+    introduced: VersionRisk[];
+    carried: CarriedRisk[];
+  };
+}
+
+export interface AnalysisVersionSummary {
+  analysisId: number;
+  version: number;
+  score: number;
+  riskLevel: string;
+  riskCount: number;
+  fileName: string | null;
+  createdAt: Date | null;
+}
+
+export interface ContractMatterHistory {
+  matter: ContractMatter;
+  versions: AnalysisVersionSummary[];
+  changes: AnalysisVersionDiff[]; // changes[i] leads from versions[i] to versions[i + 1]
+}
+
+/**
+ * Read the risks of a stored analysis. Older analyses may use the
+ * description/recommendation shape, which is mapped onto clause/issue.
+ */
+export function getVersionRisks(analysis: ContractAnalysis): VersionRisk[] {
+  const results = analysis.analysisResults as { risks?: unknown } | null;
+  if (!results || !Array.isArray(results.risks)) {
+    return [];
+  }
+
+  return results.risks
+    .filter((risk): risk is Record<string, unknown> => !!risk && typeof risk === 'object')
+    .map(risk => ({
+      clause: typeof risk.clause === 'string' ? risk.clause : '',
+      issue: typeof risk.issue === 'string' ? risk.issue : typeof risk.description === 'string' ? risk.description : '',
+      severity: typeof risk.severity === 'string' ? risk.severity.toLowerCase() : 'medium',
+      category: typeof risk.category === 'string' ? risk.category : undefined
+    }))
+    .filter(risk => risk.clause || risk.issue);
+}
+
+function riskSimilarity(a: VersionRisk, b: VersionRisk): number {
+  const issue = trigramSimilarity(normalizePrompt(a.issue), normalizePrompt(b.issue));
+  if (!a.clause || !b.clause) {
+    return issue;
+  }
+  const clause = trigramSimilarity(normalizePrompt(a.clause), normalizePrompt(b.clause));
+  return clause * 0.6 + issue * 0.4;
+}
+
+/**
+ * Compare two versions of a matter, from the earlier to the later one
+ */
+export function diffAnalysisVersions(previous: ContractAnalysis, current: ContractAnalysis): AnalysisVersionDiff {
+  const previousRisks = getVersionRisks(previous);
+  const currentRisks = getVersionRisks(current);
+
+  // Pair risks greedily, most similar first
+  const candidates: Array<{ from: number; to: number; similarity: number }> = [];
+  previousRisks.forEach((previousRisk, from) => {
+    currentRisks.forEach((currentRisk, to) => {
+      const similarity = riskSimilarity(previousRisk, currentRisk);
+      if (similarity >= RISK_MATCH_THRESHOLD) {
+        candidates.push({ from, to, similarity });
+      }
+    });
+  });
+
+  const matchedPrevious = new Set<number>();
+  const matchedCurrent = new Set<number>();
+  const carried: CarriedRisk[] = [];
+  candidates
+    .sort((a, b) => b.similarity - a.similarity)
+    .forEach(({ from, to }) => {
+      if (matchedPrevious.has(from) || matchedCurrent.has(to)) return;
+      matchedPrevious.add(from);
+      matchedCurrent.add(to);
+
+      const before = SEVERITY_RANK[previousRisks[from].severity] ?? 1;
+      const after = SEVERITY_RANK[currentRisks[to].severity] ?? 1;
+      carried.push({
+        previous: previousRisks[from],
+        current: currentRisks[to],
+        severityChange: after > before ? 'increased' : after < before ? 'decreased' : 'unchanged'
+      });
+    });
+
+  return {
+    fromAnalysisId: previous.id,
+    toAnalysisId: current.id,
+    fromVersion: previous.version ?? 1,
+    toVersion: current.version ?? 1,
+    score: { from: previous.score, to: current.score, change: current.score - previous.score },
+    riskLevel: {
+      from: previous.riskLevel,
+      to: current.riskLevel,
+      changed: previous.riskLevel.toLowerCase() !== current.riskLevel.toLowerCase()
+    },
+    risks: {
+      resolved: previousRisks.filter((_, index) => !matchedPrevious.has(index)),
+      introduced: currentRisks.filter((_, index) => !matchedCurrent.has(index)),
+      carried
+    }
+  };
+}
+
+/**
+ * Summaries of every version of a matter and the changes between
+ * consecutive versions, oldest first
+ */
+export function buildMatterHistory(matter: ContractMatter, analyses: ContractAnalysis[]): ContractMatterHistory {
+  const ordered = [...analyses].sort((a, b) => (a.version ?? 0) - (b.version ?? 0));
+
+  return {
+    matter,
+    versions: ordered.map(analysis => ({
+      analysisId: analysis.id,
+      version: analysis.version ?? 1,
+      score: analysis.score,
+      riskLevel: analysis.riskLevel,
+      riskCount: getVersionRisks(analysis).length,
+      fileName: analysis.fileName,
+      createdAt: analysis.createdAt
+    })),
+    changes: ordered.slice(1).map((analysis, index) => diffAnalysisVersions(ordered[index], analysis))
+  };
+}
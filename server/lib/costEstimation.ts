@@ -0,0 +1,524 @@
+/**
+ * Legal Cost Estimation
+ *
+ * Estimates are calculated here from the published rate table rather than
+ * in the browser, so rates can be corrected without a frontend deploy and a
+ * saved estimate can always be traced to the rates behind it. Rate tables
+ * are versioned: admins copy the published table into a draft, edit it and
+ * publish it, which archives the version it replaces. Every estimate records
+ * the table id and version it was calculated from.
+ *
+ * A table holds lawyer hourly rates by matter type and province, court fees
+ * by province and court level, and disbursements. Each lookup falls back to
+ * the "default" entry of its level. Version 1 is created from
+ * DEFAULT_RATE_TABLE, which is based on the figures the estimator used before
+ * it moved here; basic disbursements were a share of court costs and are now
+ * set per court level.
+ */
+
+import { z } from 'zod';
+import { storage } from '../storage';
+import type { CostEstimate, CostRateTable } from '@shared/schema';
+import { exportDocument, exportFileName, type ExportResult } from './documentExport';
+
+export interface CostRange {
+  min: number;
+  max: number;
+}
+
+const rangeSchema = z.object({
+  min: z.number().min(0),
+  max: z.number().min(0),
+}).refine(range => range.min <= range.max, { message: 'min cannot be more than max' });
+
+// Lookup tables need a default entry to fall back on
+const withDefault = <T extends z.ZodTypeAny>(schema: T) =>
+  z.record(schema).refine(table => 'default' in table, { message: 'A "default" entry is required' });
+
+export const rateTableDataSchema = z.object({
+  currency: z.literal('CAD'),
+  hourlyRates: withDefault(withDefault(rangeSchema)), // Matter type → province
+  courtFees: withDefault(withDefault(rangeSchema)), // Province → court level
+  disbursements: z.object({
+    basic: withDefault(rangeSchema), // Court level; photocopying, courier, travel
+    expertWitness: rangeSchema,
+    trialDay: rangeSchema, // Per day of trial
+  }),
+  hoursPerMonth: rangeSchema, // Lawyer hours per month of the matter, before complexity
+  complexityMultipliers: z.object({
+    simple: z.number().positive(),
+    moderate: z.number().positive(),
+    complex: z.number().positive(),
+    very_complex: z.number().positive(),
+  }),
+  multiplePartiesMultiplier: z.number().min(1),
+});
+
+export type CostRateTableData = z.infer<typeof rateTableDataSchema>;
+
+export const DEFAULT_RATE_TABLE: CostRateTableData = {
+  currency: 'CAD',
+  hourlyRates: {
+    civil_litigation: {
+      on: { min: 250, max: 500 },
+      bc: { min: 250, max: 450 },
+      default: { min: 200, max: 400 },
+    },
+    family: {
+      on: { min: 300, max: 500 },
+      bc: { min: 250, max: 450 },
+      default: { min: 200, max: 400 },
+    },
+    criminal: {
+      on: { min: 300, max: 600 },
+      bc: { min: 250, max: 550 },
+      default: { min: 200, max: 500 },
+    },
+    default: {
+      default: { min: 200, max: 400 },
+    },
+  },
+  courtFees: {
+    on: { default: { min: 200, max: 300 } },
+    bc: { default: { min: 200, max: 300 } },
+    default: { default: { min: 150, max: 300 } },
+  },
+  disbursements: {
+    basic: {
+      small_claims: { min: 80, max: 800 },
+      provincial: { min: 300, max: 2000 },
+      superior: { min: 800, max: 7000 },
+      appeal: { min: 1500, max: 12000 },
+      federal: { min: 500, max: 4000 },
+      tax: { min: 400, max: 3000 },
+      administrative: { min: 250, max: 1600 },
+      default: { min: 300, max: 3000 },
+    },
+    expertWitness: { min: 3000, max: 8000 },
+    trialDay: { min: 1500, max: 4000 },
+  },
+  hoursPerMonth: { min: 5, max: 15 },
+  complexityMultipliers: {
+    simple: 0.7,
+    moderate: 1.0,
+    complex: 1.5,
+    very_complex: 2.2,
+  },
+  multiplePartiesMultiplier: 1.3,
+};
+
+export const PROVINCES = ['ab', 'bc', 'mb', 'nb', 'nl', 'nt', 'ns', 'nu', 'on', 'pe', 'qc', 'sk', 'yt'] as const;
+
+export const estimateInputSchema = z.object({
+  matterType: z.string().trim().min(1).max(50),
+  jurisdiction: z.enum(PROVINCES),
+  courtLevel: z.string().trim().min(1).max(50),
+  complexity: z.enum(['simple', 'moderate', 'complex', 'very_complex']),
+  representationType: z.enum(['lawyer', 'self']),
+  estimatedDuration: z.number().int().min(1).max(60), // Months
+  expectedTrialDays: z.number().int().min(0).max(30),
+  hasExperts: z.boolean().default(false),
+  hasMultipleParties: z.boolean().default(false),
+  additionalDetails: z.string().max(2000).optional(),
+});
+
+export type EstimateInputs = z.infer<typeof estimateInputSchema>;
+
+export interface EstimateItem {
+  key: string;
+  name: string;
+  min: number;
+  max: number;
+  note: string;
+  source?: string; // Rate table entry the item was priced from
+}
+
+export type EstimateCategoryKey = 'legal_fees' | 'court_fees' | 'disbursements' | 'adjustments';
+
+export interface EstimateCategory {
+  key: EstimateCategoryKey;
+  name: string;
+  description: string;
+  min: number;
+  max: number;
+  items: EstimateItem[];
+}
+
+export interface CostEstimateBreakdown {
+  totalCostRange: CostRange;
+  hoursRange: CostRange;
+  isWithLawyer: boolean;
+  categories: EstimateCategory[];
+  factors: string[];
+}
+
+export interface CalculatedEstimate {
+  rateTableId: number;
+  rateTableVersion: number;
+  inputs: EstimateInputs;
+  breakdown: CostEstimateBreakdown;
+}
+
+export class CostEstimateError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'CostEstimateError';
+  }
+}
+
+const FACTORS = [
+  'Jurisdiction',
+  'Case complexity',
+  'Type of legal matter',
+  'Court level',
+  'Representation type',
+  'Duration of proceedings',
+  'Number of parties involved',
+  'Need for expert witnesses',
+  'Trial duration',
+];
+
+function lookup<T>(table: Record<string, T>, key: string, path: string): { value: T; source: string } {
+  if (Object.prototype.hasOwnProperty.call(table, key)) {
+    return { value: table[key], source: `${path}.${key}` };
+  }
+  return { value: table.default, source: `${path}.default` };
+}
+
+const money = (amount: number) => `$${amount.toLocaleString('en-CA')}`;
+
+function sumRanges(ranges: CostRange[]): CostRange {
+  return ranges.reduce((total, range) => ({ min: total.min + range.min, max: total.max + range.max }), { min: 0, max: 0 });
+}
+
+function category(key: EstimateCategoryKey, name: string, description: string, items: EstimateItem[]): EstimateCategory {
+  const total = sumRanges(items);
+  return { key, name, description, min: total.min, max: total.max, items };
+}
+
+/**
+ * Price a matter from a rate table. Amounts are whole dollars; trial days
+ * are only priced for represented parties, as before, and the multiple
+ * parties uplift is its own line so the items add up to the total.
+ */
+export function calculateEstimate(inputs: EstimateInputs, rates: CostRateTableData): CostEstimateBreakdown {
+  const isWithLawyer = inputs.representationType === 'lawyer';
+  const complexity = rates.complexityMultipliers[inputs.complexity];
+
+  const matterRates = lookup(rates.hourlyRates, inputs.matterType, 'hourlyRates');
+  const hourlyRate = lookup(matterRates.value, inputs.jurisdiction, matterRates.source);
+  const provinceFees = lookup(rates.courtFees, inputs.jurisdiction, 'courtFees');
+  const courtFee = lookup(provinceFees.value, inputs.courtLevel, provinceFees.source);
+  const basic = lookup(rates.disbursements.basic, inputs.courtLevel, 'disbursements.basic');
+
+  const hoursRange = {
+    min: Math.round(inputs.estimatedDuration * rates.hoursPerMonth.min * complexity),
+    max: Math.round(inputs.estimatedDuration * rates.hoursPerMonth.max * complexity),
+  };
+
+  const legalFees: EstimateItem = isWithLawyer
+    ? {
+      key: 'professional_services',
+      name: 'Professional Services',
+      min: Math.round(hoursRange.min * hourlyRate.value.min),
+      max: Math.round(hoursRange.max * hourlyRate.value.max),
+      note: `Based on ${hoursRange.min}-${hoursRange.max} hours at ${money(hourlyRate.value.min)}-${money(hourlyRate.value.max)} per hour`,
+      source: hourlyRate.source,
+    }
+    : { key: 'professional_services', name: 'Professional Services', min: 0, max: 0, note: 'Self-representation (no lawyer fees)' };
+
+  const trialDays = isWithLawyer ? inputs.expectedTrialDays : 0;
+  const disbursements: EstimateItem[] = [
+    {
+      key: 'basic_disbursements',
+      name: 'Basic Disbursements',
+      min: basic.value.min,
+      max: basic.value.max,
+      note: 'Photocopying, courier, travel, etc.',
+      source: basic.source,
+    },
+    {
+      key: 'expert_witnesses',
+      name: 'Expert Witness Fees',
+      min: inputs.hasExperts ? rates.disbursements.expertWitness.min : 0,
+      max: inputs.hasExperts ? rates.disbursements.expertWitness.max : 0,
+      note: inputs.hasExperts ? 'Expert witness costs and reports' : 'No expert witnesses',
+      source: inputs.hasExperts ? 'disbursements.expertWitness' : undefined,
+    },
+    {
+      key: 'trial_costs',
+      name: 'Trial Costs',
+      min: trialDays * rates.disbursements.trialDay.min,
+      max: trialDays * rates.disbursements.trialDay.max,
+      note: trialDays > 0 ? `${trialDays} day(s) of trial` : 'No trial costs included',
+      source: trialDays > 0 ? 'disbursements.trialDay' : undefined,
+    },
+  ];
+
+  const categories = [
+    category('legal_fees', 'Legal Fees', 'Fees charged by legal professionals for services', [legalFees]),
+    category('court_fees', 'Court Fees', 'Fees charged by the court for filing documents and proceedings', [{
+      key: 'filing_fees',
+      name: 'Filing Fees',
+      min: courtFee.value.min,
+      max: courtFee.value.max,
+      note: 'Required to file documents with the court',
+      source: courtFee.source,
+    }]),
+    category('disbursements', 'Disbursements', 'Additional expenses like expert witnesses, photocopying, etc.', disbursements),
+  ];
+
+  const subtotal = sumRanges(categories);
+  if (inputs.hasMultipleParties && rates.multiplePartiesMultiplier > 1) {
+    const uplift = rates.multiplePartiesMultiplier - 1;
+    categories.push(category('adjustments', 'Adjustments', 'Changes applied to the whole estimate', [{
+      key: 'multiple_parties',
+      name: 'Multiple Parties',
+      min: Math.round(subtotal.min * uplift),
+      max: Math.round(subtotal.max * uplift),
+      note: `${Math.round(uplift * 100)}% added for multiple opposing parties`,
+      source: 'multiplePartiesMultiplier',
+    }]));
+  }
+
+  return {
+    totalCostRange: sumRanges(categories),
+    hoursRange: isWithLawyer ? hoursRange : { min: 0, max: 0 },
+    isWithLawyer,
+    categories,
+    factors: FACTORS,
+  };
+}
+
+/**
+ * A rate table's data, checked against the schema
+ */
+export function readRateTableData(table: CostRateTable): CostRateTableData {
+  const parsed = rateTableDataSchema.safeParse(table.data);
+  if (!parsed.success) {
+    throw new CostEstimateError(`Rate table version ${table.version} is invalid`, 500);
+  }
+  return parsed.data;
+}
+
+/**
+ * The published rate table. Version 1 is created from DEFAULT_RATE_TABLE
+ * the first time one is needed.
+ */
+export async function getPublishedRateTable(): Promise<CostRateTable> {
+  const published = await storage.getPublishedCostRateTable();
+  if (published) {
+    return published;
+  }
+
+  const tables = await storage.getCostRateTables();
+  if (tables.length === 0) {
+    const initial = await storage.createCostRateTable({
+      data: DEFAULT_RATE_TABLE,
+      notes: 'Initial rates based on the in-browser estimator',
+    });
+    await storage.publishCostRateTable(initial.id, null);
+  }
+
+  const table = await storage.getPublishedCostRateTable();
+  if (!table) {
+    throw new CostEstimateError('No cost rate table has been published', 503);
+  }
+  return table;
+}
+
+export async function estimateCosts(inputs: EstimateInputs): Promise<CalculatedEstimate> {
+  const table = await getPublishedRateTable();
+  return {
+    rateTableId: table.id,
+    rateTableVersion: table.version,
+    inputs,
+    breakdown: calculateEstimate(inputs, readRateTableData(table)),
+  };
+}
+
+export async function saveEstimate(userId: number, title: string, inputs: EstimateInputs): Promise<CostEstimate> {
+  const estimate = await estimateCosts(inputs);
+  return await storage.createCostEstimate({
+    userId,
+    title,
+    inputs: estimate.inputs,
+    rateTableId: estimate.rateTableId,
+    rateTableVersion: estimate.rateTableVersion,
+    totalMin: estimate.breakdown.totalCostRange.min,
+    totalMax: estimate.breakdown.totalCostRange.max,
+    breakdown: estimate.breakdown,
+  });
+}
+
+/**
+ * Copy a table into a new draft; the published table when no base is given
+ */
+export async function createDraftRateTable(userId: number, baseId?: number, notes?: string): Promise<CostRateTable> {
+  const base = baseId ? await storage.getCostRateTable(baseId) : await getPublishedRateTable();
+  if (!base) {
+    throw new CostEstimateError('Rate table not found', 404);
+  }
+  return await storage.createCostRateTable({
+    data: base.data,
+    notes: notes || `Copied from version ${base.version}`,
+    createdBy: userId,
+  });
+}
+
+export async function updateDraftRateTable(id: number, updates: { data?: unknown; notes?: string }): Promise<CostRateTable> {
+  const table = await storage.getCostRateTable(id);
+  if (!table) {
+    throw new CostEstimateError('Rate table not found', 404);
+  }
+  // Published versions are fixed so saved estimates stay traceable
+  if (table.status !== 'draft') {
+    throw new CostEstimateError('Only draft rate tables can be edited; create a new draft instead', 409);
+  }
+
+  let data: CostRateTableData | undefined;
+  if (updates.data !== undefined) {
+    const parsed = rateTableDataSchema.safeParse(updates.data);
+    if (!parsed.success) {
+      const issue = parsed.error.issues[0];
+      throw new CostEstimateError(`Invalid rate table at ${issue.path.join('.') || 'root'}: ${issue.message}`);
+    }
+    data = parsed.data;
+  }
+
+  const updated = await storage.updateCostRateTable(id, {
+    ...(data && { data }),
+    ...(updates.notes !== undefined && { notes: updates.notes }),
+  });
+  return updated!;
+}
+
+export async function publishRateTable(id: number, userId: number): Promise<CostRateTable> {
+  const table = await storage.getCostRateTable(id);
+  if (!table) {
+    throw new CostEstimateError('Rate table not found', 404);
+  }
+  readRateTableData(table);
+
+  const published = await storage.publishCostRateTable(id, userId);
+  if (!published) {
+    throw new CostEstimateError(`Version ${table.version} is ${table.status} and cannot be published`, 409);
+  }
+  return published;
+}
+
+const INPUT_LABELS: Record<keyof EstimateInputs, string> = {
+  matterType: 'Matter type',
+  jurisdiction: 'Province or territory',
+  courtLevel: 'Court level',
+  complexity: 'Complexity',
+  representationType: 'Representation',
+  estimatedDuration: 'Duration (months)',
+  expectedTrialDays: 'Trial days',
+  hasExperts: 'Expert witnesses',
+  hasMultipleParties: 'Multiple parties',
+  additionalDetails: 'Additional details',
+};
+
+export interface EstimateComparison {
+  estimates: { id: number; title: string; rateTableVersion: number; totalMin: number; totalMax: number; createdAt: Date | null }[];
+  categories: { key: string; name: string; ranges: (CostRange | null)[] }[];
+  inputDifferences: { field: string; label: string; values: unknown[] }[];
+}
+
+/**
+ * Line up estimates category by category, with the answers that differ
+ * between them
+ */
+export function compareEstimates(estimates: CostEstimate[]): EstimateComparison {
+  const breakdowns = estimates.map(estimate => estimate.breakdown as CostEstimateBreakdown);
+
+  const categories: EstimateComparison['categories'] = [];
+  breakdowns.forEach(breakdown => {
+    for (const item of breakdown.categories) {
+      if (!categories.some(existing => existing.key === item.key)) {
+        categories.push({ key: item.key, name: item.name, ranges: [] });
+      }
+    }
+  });
+  for (const row of categories) {
+    row.ranges = breakdowns.map(breakdown => {
+      const match = breakdown.categories.find(item => item.key === row.key);
+      return match ? { min: match.min, max: match.max } : null;
+    });
+  }
+
+  const inputs = estimates.map(estimate => estimate.inputs as EstimateInputs);
+  const inputDifferences = (Object.keys(INPUT_LABELS) as (keyof EstimateInputs)[])
+    .filter(field => inputs.some(input => JSON.stringify(input[field]) !== JSON.stringify(inputs[0][field])))
+    .map(field => ({ field, label: INPUT_LABELS[field], values: inputs.map(input => input[field] ?? null) }));
+
+  return {
+    estimates: estimates.map(estimate => ({
+      id: estimate.id,
+      title: estimate.title,
+      rateTableVersion: estimate.rateTableVersion,
+      totalMin: estimate.totalMin,
+      totalMax: estimate.totalMax,
+      createdAt: estimate.createdAt,
+    })),
+    categories,
+    inputDifferences,
+  };
+}
+
+export const ESTIMATE_EXPORT_FORMATS = ['csv', 'docx', 'rtf'] as const;
+
+export type EstimateExportFormat = typeof ESTIMATE_EXPORT_FORMATS[number];
+
+function csvCell(value: string | number): string {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function estimateCsv(estimate: CostEstimate, breakdown: CostEstimateBreakdown): string {
+  const rows: (string | number)[][] = [['Category', 'Item', 'Minimum (CAD)', 'Maximum (CAD)', 'Note', 'Rate']];
+  for (const item of breakdown.categories) {
+    for (const line of item.items) {
+      rows.push([item.name, line.name, line.min, line.max, line.note, line.source || '']);
+    }
+  }
+  rows.push(['Total', '', estimate.totalMin, estimate.totalMax, `Rate table version ${estimate.rateTableVersion}`, '']);
+  return rows.map(row => row.map(csvCell).join(',')).join('\r\n') + '\r\n';
+}
+
+function estimateDocument(estimate: CostEstimate, breakdown: CostEstimateBreakdown): string {
+  const lines = [
+    `# ${estimate.title}`,
+    '',
+    `Total estimated cost: ${money(estimate.totalMin)} - ${money(estimate.totalMax)} (CAD)`,
+    '',
+    `Calculated with rate table version ${estimate.rateTableVersion}${estimate.createdAt ? ` on ${estimate.createdAt.toISOString().substring(0, 10)}` : ''}.`,
+  ];
+  for (const item of breakdown.categories) {
+    lines.push('', `## ${item.name}: ${money(item.min)} - ${money(item.max)}`, '');
+    for (const line of item.items) {
+      lines.push(`- ${line.name}: ${money(line.min)} - ${money(line.max)}. ${line.note}`);
+    }
+  }
+  lines.push(
+    '',
+    'This estimate is based on general information and is not a quote. Actual legal costs vary with the facts of each matter.'
+  );
+  return lines.join('\n');
+}
+
+/**
+ * A saved estimate as an itemized CSV, or as a DOCX or RTF report
+ */
+export async function exportEstimate(estimate: CostEstimate, format: EstimateExportFormat): Promise<ExportResult> {
+  const breakdown = estimate.breakdown as CostEstimateBreakdown;
+  if (format === 'csv') {
+    return {
+      buffer: Buffer.from(estimateCsv(estimate, breakdown), 'utf8'),
+      contentType: 'text/csv; charset=utf-8',
+      fileName: exportFileName(estimate.title, 'csv'),
+    };
+  }
+  return await exportDocument({ title: estimate.title, content: estimateDocument(estimate, breakdown), language: 'en' }, format);
+}
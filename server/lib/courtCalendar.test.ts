@@ -0,0 +1,117 @@
+import { test, describe } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  addPeriod,
+  getCourtHoliday,
+  getCourtHolidays,
+  isCourtDay,
+  resolveJurisdiction,
+  toCalendarDay,
+} from './courtCalendar';
+
+function holidayDates(jurisdiction: Parameters<typeof getCourtHolidays>[0], year: number): string[] {
+  return getCourtHolidays(jurisdiction, year).map(holiday => holiday.date);
+}
+
+describe('courtCalendar', () => {
+  describe('holiday rules', () => {
+    test('computes movable holidays', () => {
+      assert.deepEqual(holidayDates('on', 2024), [
+        '2024-01-01', // New Year's Day
+        '2024-02-19', // Family Day, third Monday of February
+        '2024-03-29', // Good Friday
+        '2024-04-01', // Easter Monday
+        '2024-05-20', // Victoria Day, Monday before May 25
+        '2024-07-01',
+        '2024-08-05', // Civic Holiday, first Monday of August
+        '2024-09-02',
+        '2024-10-14', // Thanksgiving, second Monday of October
+        '2024-11-11',
+        '2024-12-25',
+        '2024-12-26',
+      ]);
+    });
+
+    test('Victoria Day falls on the previous Monday when May 25 is a Monday', () => {
+      assert.equal(getCourtHoliday(toCalendarDay('2026-05-18'), 'on')?.name, 'Victoria Day');
+    });
+
+    test('Yukon Heritage Day is the Friday before the last Sunday of February', () => {
+      assert.equal(getCourtHoliday(toCalendarDay('2024-02-23'), 'yt')?.name, 'Heritage Day');
+    });
+
+    test('moves weekend holidays to the next weekday', () => {
+      // New Year's Day 2022 was a Saturday
+      assert.deepEqual(getCourtHoliday(toCalendarDay('2022-01-03'), 'on'), {
+        date: '2022-01-03',
+        name: "New Year's Day (observed)",
+      });
+      // Canada Day 2023 was a Saturday
+      assert.equal(getCourtHoliday(toCalendarDay('2023-07-03'), 'on')?.name, 'Canada Day (observed)');
+    });
+
+    test('skips days that are already holidays when moving one', () => {
+      // Christmas 2022 was a Sunday, and Boxing Day kept the Monday
+      const holidays = getCourtHolidays('on', 2022).slice(-2);
+      assert.deepEqual(holidays, [
+        { date: '2022-12-26', name: 'Boxing Day' },
+        { date: '2022-12-27', name: 'Christmas Day (observed)' },
+      ]);
+    });
+
+    test('closes Quebec courts on January 2 and December 26', () => {
+      assert.equal(getCourtHoliday(toCalendarDay('2024-01-02'), 'qc')?.name, "Day after New Year's Day");
+      assert.equal(getCourtHoliday(toCalendarDay('2024-12-26'), 'qc')?.name, 'Boxing Day');
+      assert.equal(isCourtDay(toCalendarDay('2024-01-02'), 'on'), true);
+    });
+
+    test('does not move Quebec holidays off weekends, except a Sunday Canada Day', () => {
+      // January 1, 2023 was a Sunday; January 2 is a holiday anyway
+      assert.equal(isCourtDay(toCalendarDay('2023-01-03'), 'qc'), true);
+      // June 24 and July 1, 2023 were Saturdays
+      assert.equal(isCourtDay(toCalendarDay('2023-06-26'), 'qc'), true);
+      assert.equal(isCourtDay(toCalendarDay('2023-07-03'), 'qc'), true);
+      // July 1, 2018 was a Sunday
+      assert.equal(getCourtHoliday(toCalendarDay('2018-07-02'), 'qc')?.name, 'Canada Day (observed)');
+    });
+  });
+
+  describe('addPeriod', () => {
+    test('counts court days for periods of less than seven days', () => {
+      // Skips Good Friday and Easter Monday 2024
+      assert.deepEqual(addPeriod(toCalendarDay('2024-03-25'), { amount: 6, unit: 'day' }, 'on'), { date: '2024-04-04' });
+    });
+
+    test('counts calendar days for periods of seven days or more', () => {
+      assert.deepEqual(addPeriod(toCalendarDay('2024-03-04'), { amount: 7, unit: 'day' }, 'on'), { date: '2024-03-11' });
+      assert.deepEqual(addPeriod(toCalendarDay('2024-03-04'), { amount: 1, unit: 'week' }, 'on'), { date: '2024-03-11' });
+    });
+
+    test('moves a deadline that lands on a holiday to the next court day', () => {
+      assert.deepEqual(addPeriod(toCalendarDay('2024-03-25'), { amount: 7, unit: 'day' }, 'on'), {
+        date: '2024-04-02',
+        movedFrom: '2024-04-01',
+        movedFor: 'Easter Monday',
+      });
+    });
+
+    test('moves a deadline that lands on a weekend to the Monday', () => {
+      assert.deepEqual(addPeriod(toCalendarDay('2024-03-02'), { amount: 14, unit: 'day' }, 'bc'), {
+        date: '2024-03-18',
+        movedFrom: '2024-03-16',
+        movedFor: 'Weekend',
+      });
+    });
+
+    test('ends month periods on the last day of a shorter month', () => {
+      assert.deepEqual(addPeriod(toCalendarDay('2024-01-31'), { amount: 1, unit: 'month' }, 'on'), { date: '2024-02-29' });
+    });
+  });
+
+  test('resolveJurisdiction matches codes and names', () => {
+    assert.equal(resolveJurisdiction('Ontario'), 'on');
+    assert.equal(resolveJurisdiction(' QC '), 'qc');
+    assert.equal(resolveJurisdiction('Canada'), 'ca');
+    assert.equal(resolveJurisdiction('Atlantis'), null);
+  });
+});
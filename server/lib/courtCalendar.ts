@@ -0,0 +1,353 @@
+/**
+ * Court Calendar
+ *
+ * Court-day arithmetic for Canadian courts. Courts do not sit on weekends or
+ * on the statutory holidays of their province or territory, so deadlines are
+ * counted the way the rules of court count them:
+ *
+ * - Periods of less than seven days count court days only (Ontario
+ *   r. 3.01(1)(c) and its equivalents elsewhere)
+ * - Periods of seven days or more count calendar days, and a deadline that
+ *   lands on a weekend or holiday moves to the next court day
+ *
+ * Fixed-date holidays that fall on a weekend are observed on the next weekday,
+ * except where a province's rules of court say otherwise.
+ * Dates are handled as calendar days at UTC midnight and written as
+ * YYYY-MM-DD, so server time zones do not move them.
+ */
+
+export const COURT_JURISDICTIONS = {
+  ca: 'Federal',
+  ab: 'Alberta',
+  bc: 'British Columbia',
+  mb: 'Manitoba',
+  nb: 'New Brunswick',
+  nl: 'Newfoundland and Labrador',
+  nt: 'Northwest Territories',
+  ns: 'Nova Scotia',
+  nu: 'Nunavut',
+  on: 'Ontario',
+  pe: 'Prince Edward Island',
+  qc: 'Quebec',
+  sk: 'Saskatchewan',
+  yt: 'Yukon',
+} as const;
+
+export type CourtJurisdiction = keyof typeof COURT_JURISDICTIONS;
+
+export const COURT_JURISDICTION_CODES = Object.keys(COURT_JURISDICTIONS) as [CourtJurisdiction, ...CourtJurisdiction[]];
+
+// Periods shorter than this skip weekends and holidays entirely
+export const SHORT_PERIOD_DAYS = 7;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface CourtHoliday {
+  date: string;
+  name: string;
+}
+
+// How a fixed-date holiday that falls on a weekend is observed: on the next
+// weekday, on the Monday only when it falls on a Sunday, or not at all
+type ObservedRule = 'weekend' | 'sunday' | 'none';
+
+type HolidayRule =
+  | { name: string; month: number; day: number; observed?: ObservedRule } // Fixed date, moved off weekends by default
+  | { name: string; month: number; weekday: number; nth: number } // nth weekday of the month; -1 for the last
+  | { name: string; easterOffset: number }
+  | { name: string; mondayBefore: { month: number; day: number } } // Last Monday before the date
+  | { name: string; fridayBeforeLastSunday: number }; // Month
+
+const NEW_YEARS_DAY: HolidayRule = { name: "New Year's Day", month: 1, day: 1 };
+const FAMILY_DAY: HolidayRule = { name: 'Family Day', month: 2, weekday: 1, nth: 3 };
+const GOOD_FRIDAY: HolidayRule = { name: 'Good Friday', easterOffset: -2 };
+const EASTER_MONDAY: HolidayRule = { name: 'Easter Monday', easterOffset: 1 };
+const VICTORIA_DAY: HolidayRule = { name: 'Victoria Day', mondayBefore: { month: 5, day: 25 } };
+const INDIGENOUS_PEOPLES_DAY: HolidayRule = { name: 'National Indigenous Peoples Day', month: 6, day: 21 };
+const CANADA_DAY: HolidayRule = { name: 'Canada Day', month: 7, day: 1 };
+const CIVIC_HOLIDAY: HolidayRule = { name: 'Civic Holiday', month: 8, weekday: 1, nth: 1 };
+const LABOUR_DAY: HolidayRule = { name: 'Labour Day', month: 9, weekday: 1, nth: 1 };
+const TRUTH_AND_RECONCILIATION: HolidayRule = { name: 'National Day for Truth and Reconciliation', month: 9, day: 30 };
+const THANKSGIVING: HolidayRule = { name: 'Thanksgiving', month: 10, weekday: 1, nth: 2 };
+const REMEMBRANCE_DAY: HolidayRule = { name: 'Remembrance Day', month: 11, day: 11 };
+const CHRISTMAS: HolidayRule = { name: 'Christmas Day', month: 12, day: 25 };
+const BOXING_DAY: HolidayRule = { name: 'Boxing Day', month: 12, day: 26 };
+
+const HOLIDAY_RULES: Record<CourtJurisdiction, HolidayRule[]> = {
+  ca: [
+    NEW_YEARS_DAY, GOOD_FRIDAY, EASTER_MONDAY, VICTORIA_DAY, CANADA_DAY, LABOUR_DAY,
+    TRUTH_AND_RECONCILIATION, THANKSGIVING, REMEMBRANCE_DAY, CHRISTMAS, BOXING_DAY,
+  ],
+  ab: [
+    NEW_YEARS_DAY, FAMILY_DAY, GOOD_FRIDAY, VICTORIA_DAY, CANADA_DAY,
+    { ...CIVIC_HOLIDAY, name: 'Heritage Day' }, LABOUR_DAY, THANKSGIVING, REMEMBRANCE_DAY, CHRISTMAS, BOXING_DAY,
+  ],
+  bc: [
+    NEW_YEARS_DAY, FAMILY_DAY, GOOD_FRIDAY, VICTORIA_DAY, CANADA_DAY, { ...CIVIC_HOLIDAY, name: 'British Columbia Day' },
+    LABOUR_DAY, TRUTH_AND_RECONCILIATION, THANKSGIVING, REMEMBRANCE_DAY, CHRISTMAS,
+  ],
+  mb: [
+    NEW_YEARS_DAY, { ...FAMILY_DAY, name: 'Louis Riel Day' }, GOOD_FRIDAY, VICTORIA_DAY, CANADA_DAY,
+    LABOUR_DAY, TRUTH_AND_RECONCILIATION, THANKSGIVING, REMEMBRANCE_DAY, CHRISTMAS,
+  ],
+  nb: [
+    NEW_YEARS_DAY, FAMILY_DAY, GOOD_FRIDAY, CANADA_DAY, { ...CIVIC_HOLIDAY, name: 'New Brunswick Day' },
+    LABOUR_DAY, REMEMBRANCE_DAY, CHRISTMAS,
+  ],
+  nl: [
+    NEW_YEARS_DAY, GOOD_FRIDAY, { ...CANADA_DAY, name: 'Memorial Day' }, LABOUR_DAY, REMEMBRANCE_DAY, CHRISTMAS,
+  ],
+  nt: [
+    NEW_YEARS_DAY, GOOD_FRIDAY, VICTORIA_DAY, INDIGENOUS_PEOPLES_DAY, CANADA_DAY, CIVIC_HOLIDAY,
+    LABOUR_DAY, TRUTH_AND_RECONCILIATION, THANKSGIVING, REMEMBRANCE_DAY, CHRISTMAS,
+  ],
+  ns: [
+    NEW_YEARS_DAY, { ...FAMILY_DAY, name: 'Heritage Day' }, GOOD_FRIDAY, CANADA_DAY, LABOUR_DAY,
+    REMEMBRANCE_DAY, CHRISTMAS,
+  ],
+  nu: [
+    NEW_YEARS_DAY, GOOD_FRIDAY, VICTORIA_DAY, CANADA_DAY, { name: 'Nunavut Day', month: 7, day: 9 }, CIVIC_HOLIDAY,
+    LABOUR_DAY, TRUTH_AND_RECONCILIATION, THANKSGIVING, REMEMBRANCE_DAY, CHRISTMAS,
+  ],
+  // The Rules of Civil Procedure add Easter Monday, the Civic Holiday and
+  // Remembrance Day to the statutory holidays
+  on: [
+    NEW_YEARS_DAY, FAMILY_DAY, GOOD_FRIDAY, EASTER_MONDAY, VICTORIA_DAY, CANADA_DAY, CIVIC_HOLIDAY,
+    LABOUR_DAY, THANKSGIVING, REMEMBRANCE_DAY, CHRISTMAS, BOXING_DAY,
+  ],
+  pe: [
+    NEW_YEARS_DAY, { ...FAMILY_DAY, name: 'Islander Day' }, GOOD_FRIDAY, CANADA_DAY, LABOUR_DAY,
+    TRUTH_AND_RECONCILIATION, REMEMBRANCE_DAY, CHRISTMAS,
+  ],
+  // The Code of Civil Procedure (art. 82) also closes the courts on
+  // January 2 and December 26, and only moves July 1 when it is a Sunday
+  qc: [
+    { ...NEW_YEARS_DAY, observed: 'none' }, { name: "Day after New Year's Day", month: 1, day: 2, observed: 'none' },
+    GOOD_FRIDAY, EASTER_MONDAY, { ...VICTORIA_DAY, name: "National Patriots' Day" },
+    { name: "Fête nationale du Québec", month: 6, day: 24, observed: 'none' }, { ...CANADA_DAY, observed: 'sunday' },
+    LABOUR_DAY, THANKSGIVING, { ...CHRISTMAS, observed: 'none' }, { ...BOXING_DAY, observed: 'none' },
+  ],
+  sk: [
+    NEW_YEARS_DAY, FAMILY_DAY, GOOD_FRIDAY, VICTORIA_DAY, CANADA_DAY, { ...CIVIC_HOLIDAY, name: 'Saskatchewan Day' },
+    LABOUR_DAY, THANKSGIVING, REMEMBRANCE_DAY, CHRISTMAS,
+  ],
+  yt: [
+    NEW_YEARS_DAY, { name: 'Heritage Day', fridayBeforeLastSunday: 2 }, GOOD_FRIDAY, VICTORIA_DAY,
+    INDIGENOUS_PEOPLES_DAY, CANADA_DAY, { name: 'Discovery Day', month: 8, weekday: 1, nth: 3 },
+    LABOUR_DAY, TRUTH_AND_RECONCILIATION, THANKSGIVING, REMEMBRANCE_DAY, CHRISTMAS,
+  ],
+};
+
+/**
+ * Match a stored jurisdiction ("Ontario", "on", "Canada") to its holiday
+ * calendar
+ */
+export function resolveJurisdiction(value: string | null | undefined): CourtJurisdiction | null {
+  const normalized = (value || '').trim().toLowerCase();
+  if (Object.prototype.hasOwnProperty.call(COURT_JURISDICTIONS, normalized)) {
+    return normalized as CourtJurisdiction;
+  }
+  if (normalized === 'canada' || normalized === 'federal') {
+    return 'ca';
+  }
+  const match = COURT_JURISDICTION_CODES.find(code => COURT_JURISDICTIONS[code].toLowerCase() === normalized);
+  return match || null;
+}
+
+export function toDateKey(date: Date): string {
+  return date.toISOString().substring(0, 10);
+}
+
+/**
+ * The calendar day of a date or YYYY-MM-DD string, at UTC midnight
+ */
+export function toCalendarDay(value: Date | string): Date {
+  if (typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    return new Date(`${value}T00:00:00Z`);
+  }
+  const date = new Date(value);
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+export function addCalendarDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * DAY_MS);
+}
+
+export function addCalendarMonths(date: Date, months: number): Date {
+  const target = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + months, 1));
+  // The 31st of a shorter month falls back to its last day
+  const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+  target.setUTCDate(Math.min(date.getUTCDate(), lastDay));
+  return target;
+}
+
+function isWeekend(date: Date): boolean {
+  const day = date.getUTCDay();
+  return day === 0 || day === 6;
+}
+
+// Anonymous Gregorian algorithm
+function easterSunday(year: number): Date {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return new Date(Date.UTC(year, month - 1, day));
+}
+
+function nthWeekday(year: number, month: number, weekday: number, nth: number): Date {
+  if (nth < 0) {
+    const last = new Date(Date.UTC(year, month, 0));
+    return addCalendarDays(last, -((last.getUTCDay() - weekday + 7) % 7));
+  }
+  const first = new Date(Date.UTC(year, month - 1, 1));
+  return addCalendarDays(first, ((weekday - first.getUTCDay() + 7) % 7) + (nth - 1) * 7);
+}
+
+// The holiday's date, and whether it falls on a weekend and is observed on a
+// later day
+function ruleDate(rule: HolidayRule, year: number): { date: Date; moved: boolean } {
+  if ('easterOffset' in rule) {
+    return { date: addCalendarDays(easterSunday(year), rule.easterOffset), moved: false };
+  }
+  if ('mondayBefore' in rule) {
+    const before = new Date(Date.UTC(year, rule.mondayBefore.month - 1, rule.mondayBefore.day));
+    return { date: addCalendarDays(before, -(((before.getUTCDay() + 6) % 7) || 7)), moved: false };
+  }
+  if ('fridayBeforeLastSunday' in rule) {
+    return { date: addCalendarDays(nthWeekday(year, rule.fridayBeforeLastSunday, 0, -1), -2), moved: false };
+  }
+  if ('weekday' in rule) {
+    return { date: nthWeekday(year, rule.month, rule.weekday, rule.nth), moved: false };
+  }
+  const date = new Date(Date.UTC(year, rule.month - 1, rule.day));
+  const observed = rule.observed ?? 'weekend';
+  return { date, moved: observed === 'weekend' ? isWeekend(date) : observed === 'sunday' && date.getUTCDay() === 0 };
+}
+
+const holidayCache = new Map<string, CourtHoliday[]>();
+
+/**
+ * The days courts in a jurisdiction are closed for holidays in a year, in
+ * date order
+ */
+export function getCourtHolidays(jurisdiction: CourtJurisdiction, year: number): CourtHoliday[] {
+  const cacheKey = `${jurisdiction}:${year}`;
+  const cached = holidayCache.get(cacheKey);
+  if (cached) return cached;
+
+  const dates = HOLIDAY_RULES[jurisdiction].map(rule => ({ rule, ...ruleDate(rule, year) }));
+  const taken = new Set(dates.filter(item => !item.moved).map(item => toDateKey(item.date)));
+
+  const holidays = dates
+    .sort((a, b) => a.date.getTime() - b.date.getTime())
+    .map(({ rule, date, moved }) => {
+      if (!moved) {
+        return { date: toDateKey(date), name: rule.name };
+      }
+      // Observed on the next weekday that is not already a holiday
+      let observed = addCalendarDays(date, 1);
+      while (isWeekend(observed) || taken.has(toDateKey(observed))) {
+        observed = addCalendarDays(observed, 1);
+      }
+      taken.add(toDateKey(observed));
+      return { date: toDateKey(observed), name: `${rule.name} (observed)` };
+    })
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  holidayCache.set(cacheKey, holidays);
+  return holidays;
+}
+
+export function getCourtHolidaysBetween(jurisdiction: CourtJurisdiction, from: Date, to: Date): CourtHoliday[] {
+  const start = toDateKey(from);
+  const end = toDateKey(to);
+  const holidays: CourtHoliday[] = [];
+  for (let year = from.getUTCFullYear(); year <= to.getUTCFullYear(); year++) {
+    holidays.push(...getCourtHolidays(jurisdiction, year).filter(holiday => holiday.date >= start && holiday.date <= end));
+  }
+  return holidays;
+}
+
+export function getCourtHoliday(date: Date, jurisdiction: CourtJurisdiction): CourtHoliday | undefined {
+  const key = toDateKey(date);
+  return getCourtHolidays(jurisdiction, date.getUTCFullYear()).find(holiday => holiday.date === key);
+}
+
+export function isCourtDay(date: Date, jurisdiction: CourtJurisdiction): boolean {
+  return !isWeekend(date) && !getCourtHoliday(date, jurisdiction);
+}
+
+/**
+ * The date itself if courts sit that day, otherwise the next day they do
+ */
+export function nextCourtDay(date: Date, jurisdiction: CourtJurisdiction): Date {
+  let day = toCalendarDay(date);
+  while (!isCourtDay(day, jurisdiction)) {
+    day = addCalendarDays(day, 1);
+  }
+  return day;
+}
+
+export function addCourtDays(date: Date, days: number, jurisdiction: CourtJurisdiction): Date {
+  let day = toCalendarDay(date);
+  let remaining = days;
+  while (remaining > 0) {
+    day = addCalendarDays(day, 1);
+    if (isCourtDay(day, jurisdiction)) {
+      remaining--;
+    }
+  }
+  return day;
+}
+
+export type PeriodUnit = 'court_day' | 'day' | 'week' | 'month' | 'year';
+
+export interface Period {
+  amount: number;
+  unit: PeriodUnit;
+}
+
+export interface PeriodEnd {
+  date: string;
+  // Set when the period ended on a weekend or holiday and the date moved
+  movedFrom?: string;
+  movedFor?: string;
+}
+
+/**
+ * The day a period starting on a date ends, counted by court-day rules
+ */
+export function addPeriod(start: Date, period: Period, jurisdiction: CourtJurisdiction): PeriodEnd {
+  const from = toCalendarDay(start);
+  const days = period.unit === 'week' ? period.amount * 7 : period.amount;
+
+  if (period.unit === 'court_day' || ((period.unit === 'day' || period.unit === 'week') && days < SHORT_PERIOD_DAYS)) {
+    return { date: toDateKey(addCourtDays(from, days, jurisdiction)) };
+  }
+
+  const end = period.unit === 'month'
+    ? addCalendarMonths(from, period.amount)
+    : period.unit === 'year'
+      ? addCalendarMonths(from, period.amount * 12)
+      : addCalendarDays(from, days);
+  const courtDay = nextCourtDay(end, jurisdiction);
+  if (courtDay.getTime() === end.getTime()) {
+    return { date: toDateKey(end) };
+  }
+  return {
+    date: toDateKey(courtDay),
+    movedFrom: toDateKey(end),
+    movedFor: getCourtHoliday(end, jurisdiction)?.name || 'Weekend',
+  };
+}
@@ -1,39 +1,152 @@
+/**
+ * DocuSeal API Client
+ *
+ * Thin wrapper around the DocuSeal REST API: HTML templates, submissions and
+ * the signed documents they produce. The base URL comes from
+ * DOCUSEAL_API_URL, so development and tests can point it at the local mock
+ * in mockDocuSealServer.ts. The signing lifecycle built on it is in
+ * docuSealSigning.ts.
+ */
 
-import axios from 'axios';
+import axios, { type AxiosInstance } from 'axios';
+import { config } from '../config';
+import { logger } from '../utils/logger';
 
-const DOCUSEAL_API_URL = process.env.DOCUSEAL_API_URL || 'https://api.docuseal.com/v1';
+export interface DocuSealTemplate {
+  id: number;
+  name: string;
+  external_id?: string | null;
+}
+
+export interface DocuSealSubmitterInput {
+  role: string;
+  name: string;
+  email: string;
+  external_id?: string;
+}
+
+export interface DocuSealSubmitter {
+  id: number;
+  submission_id: number;
+  email: string;
+  name?: string | null;
+  role?: string;
+  status: string; // 'awaiting', 'sent', 'opened', 'completed', 'declined'
+  external_id?: string | null;
+  completed_at?: string | null;
+  declined_at?: string | null;
+}
+
+export interface DocuSealDocument {
+  name: string;
+  url: string;
+}
+
+export interface DocuSealSubmission {
+  id: number;
+  status: string;
+  submitters: DocuSealSubmitter[];
+  documents?: DocuSealDocument[];
+}
+
+export class DocuSealError extends Error {
+  constructor(message: string, public status: number = 502) {
+    super(message);
+    this.name = 'DocuSealError';
+  }
+}
 
 export class DocuSealService {
-  private apiKey: string;
+  private client: AxiosInstance;
 
-  constructor(apiKey: string) {
-    this.apiKey = apiKey;
+  constructor(apiKey: string, baseUrl: string = config.DOCUSEAL_API_URL) {
+    this.client = axios.create({
+      baseURL: baseUrl,
+      headers: { 'X-Auth-Token': apiKey },
+      timeout: 30000,
+    });
   }
 
-  async createSubmission(templateId: string, signers: Array<{ name: string, email: string, role?: string }>) {
+  private async request<T>(action: string, run: () => Promise<{ data: T }>): Promise<T> {
     try {
-      const response = await axios.post(
-        `${DOCUSEAL_API_URL}/submissions`, 
-        { template_id: templateId, signers },
-        { headers: { 'X-Api-Key': this.apiKey } }
-      );
+      const response = await run();
       return response.data;
     } catch (error) {
-      console.error('DocuSeal submission creation error:', error);
-      throw error;
+      const status = axios.isAxiosError(error) ? error.response?.status : undefined;
+      logger.error(`[docuseal] ${action} failed${status ? ` (${status})` : ''}: ${(error as Error).message}`);
+      throw new DocuSealError(`DocuSeal ${action} failed`, status === 404 ? 404 : 502);
     }
   }
 
-  async getSubmission(submissionId: string) {
-    try {
-      const response = await axios.get(
-        `${DOCUSEAL_API_URL}/submissions/${submissionId}`,
-        { headers: { 'X-Api-Key': this.apiKey } }
-      );
-      return response.data;
-    } catch (error) {
-      console.error('DocuSeal submission retrieval error:', error);
-      throw error;
+  /**
+   * Create a template from HTML. Signature and date fields are written as
+   * <signature-field> and <date-field> tags with the role that fills them.
+   */
+  async createTemplateFromHtml(template: { name: string; html: string; externalId?: string }): Promise<DocuSealTemplate> {
+    return await this.request('template creation', () => this.client.post<DocuSealTemplate>('/templates/html', {
+      name: template.name,
+      html: template.html,
+      external_id: template.externalId,
+    }));
+  }
+
+  async createSubmission(
+    templateId: string,
+    submitters: DocuSealSubmitterInput[],
+    options: { sendEmail?: boolean; message?: { subject: string; body: string } } = {}
+  ): Promise<DocuSealSubmitter[]> {
+    return await this.request('submission creation', () => this.client.post<DocuSealSubmitter[]>('/submissions', {
+      template_id: Number(templateId),
+      send_email: options.sendEmail !== false,
+      submitters,
+      ...(options.message && { message: options.message }),
+    }));
+  }
+
+  async getSubmission(submissionId: string): Promise<DocuSealSubmission> {
+    return await this.request('submission retrieval', () => this.client.get<DocuSealSubmission>(`/submissions/${submissionId}`));
+  }
+
+  /**
+   * Archive a submission so its signers can no longer complete it
+   */
+  async archiveSubmission(submissionId: string): Promise<void> {
+    await this.request('submission archiving', () => this.client.delete(`/submissions/${submissionId}`));
+  }
+
+  /**
+   * The submission's signed documents, merged into one PDF
+   */
+  async getSubmissionDocuments(submissionId: string): Promise<DocuSealDocument[]> {
+    const data = await this.request('document retrieval', () =>
+      this.client.get<{ documents: DocuSealDocument[] }>(`/submissions/${submissionId}/documents`, { params: { merge: true } })
+    );
+    return data.documents || [];
+  }
+
+  async downloadDocument(url: string): Promise<Buffer> {
+    const data = await this.request('document download', () =>
+      this.client.get<ArrayBuffer>(url, { responseType: 'arraybuffer' })
+    );
+    return Buffer.from(data);
+  }
+}
+
+let service: DocuSealService | undefined;
+
+/**
+ * The shared client, or an error when DocuSeal is not configured
+ */
+export function getDocuSealService(): DocuSealService {
+  if (!service) {
+    if (!config.DOCUSEAL_API_KEY) {
+      throw new DocuSealError('DocuSeal is not configured', 503);
     }
+    service = new DocuSealService(config.DOCUSEAL_API_KEY);
   }
+  return service;
+}
+
+export function setDocuSealService(replacement: DocuSealService | undefined): void {
+  service = replacement;
 }
@@ -0,0 +1,401 @@
+import { test, describe, before, after, beforeEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'crypto';
+import os from 'os';
+import path from 'path';
+import { promises as fs } from 'fs';
+import type {
+  DigitalSignature,
+  DisputeParty,
+  DocusealSubmission,
+  GeneratedDocument,
+  SettlementProposal,
+  SharedDocument,
+  SignatureAuditEvent,
+} from '@shared/schema';
+import { storage } from '../storage';
+import { config } from '../config';
+import { LocalBlobStorage, getBlobStorage, setBlobStorage } from './blobStorage';
+import { DocuSealService, setDocuSealService } from './docuSealService';
+import { startMockDocuSealServer, type MockDocuSealServer } from './mockDocuSealServer';
+import {
+  archiveInvalidatedSubmissions,
+  handleWebhookEvent,
+  parseWebhook,
+  sendGeneratedDocumentForSigning,
+  sendProposalForSigning,
+} from './docuSealSigning';
+import { verifyAuditTrail } from './proposalSigning';
+
+const WEBHOOK_SECRET = 'test-webhook-secret';
+const REQUEST = { userId: 1, ipAddress: '127.0.0.1', userAgent: 'test' };
+
+// In-memory rows for the storage methods the signing lifecycle uses
+interface Tables {
+  submissions: DocusealSubmission[];
+  signatures: DigitalSignature[];
+  auditEvents: SignatureAuditEvent[];
+  webhookEvents: Set<string>;
+  sharedDocuments: SharedDocument[];
+  activities: unknown[];
+  parties: DisputeParty[];
+  proposals: SettlementProposal[];
+}
+
+function installMemoryStorage(): Tables {
+  const tables: Tables = {
+    submissions: [],
+    signatures: [],
+    auditEvents: [],
+    webhookEvents: new Set(),
+    sharedDocuments: [],
+    activities: [],
+    parties: [],
+    proposals: [],
+  };
+  const update = <T extends { id: number }>(rows: T[], id: number, data: Partial<T>) => {
+    const row = rows.find(item => item.id === id);
+    return row ? Object.assign(row, data) : undefined;
+  };
+
+  mock.method(storage, 'getDocusealSubmissionsBySource', async (source: { proposalId?: number; generatedDocumentId?: number }) =>
+    tables.submissions.filter(item => source.proposalId
+      ? item.proposalId === source.proposalId
+      : item.generatedDocumentId === source.generatedDocumentId));
+  mock.method(storage, 'getDocusealSubmission', async (submissionId: string) =>
+    tables.submissions.find(item => item.submissionId === submissionId));
+  mock.method(storage, 'createDocusealSubmission', async (data: any) => {
+    const row = { id: tables.submissions.length + 1, status: 'pending', signedStorageKey: null, signedContentHash: null,
+      signedFileSize: null, signedDocumentId: null, completedAt: null, proposalId: null, generatedDocumentId: null,
+      createdBy: null, createdAt: new Date(), updatedAt: new Date(), ...data } as DocusealSubmission;
+    tables.submissions.push(row);
+    return row;
+  });
+  mock.method(storage, 'updateDocusealSubmission', async (id: number, data: Partial<DocusealSubmission>) =>
+    update(tables.submissions, id, data));
+  mock.method(storage, 'recordDocusealWebhookEvent', async (eventKey: string) => {
+    if (tables.webhookEvents.has(eventKey)) return false;
+    tables.webhookEvents.add(eventKey);
+    return true;
+  });
+  mock.method(storage, 'forgetDocusealWebhookEvent', async (eventKey: string) => {
+    tables.webhookEvents.delete(eventKey);
+  });
+
+  mock.method(storage, 'getDigitalSignatures', async (proposalId: number) =>
+    tables.signatures.filter(item => item.proposalId === proposalId));
+  mock.method(storage, 'createDigitalSignature', async (data: any) => {
+    const row = { id: tables.signatures.length + 1, otpAttempts: 0, createdAt: new Date(), ...data } as DigitalSignature;
+    tables.signatures.push(row);
+    return row;
+  });
+  mock.method(storage, 'updateDigitalSignature', async (id: number, data: Partial<DigitalSignature>) =>
+    update(tables.signatures, id, data));
+  mock.method(storage, 'getDigitalSignatureByDocusealSigner', async (submissionId: string, signerId: string) =>
+    tables.signatures.find(item => item.docusealSubmissionId === submissionId && item.docusealSignerId === signerId));
+  mock.method(storage, 'getSignatureAuditEvents', async (proposalId: number) =>
+    tables.auditEvents.filter(item => item.proposalId === proposalId));
+  mock.method(storage, 'appendSignatureAuditEvent', async (event: any, hashEvent: (previousHash: string | null) => string) => {
+    const chain = tables.auditEvents.filter(item => item.proposalId === event.proposalId);
+    const previousHash = chain.length > 0 ? chain[chain.length - 1].hash : null;
+    const row = { id: tables.auditEvents.length + 1, ...event, previousHash, hash: hashEvent(previousHash) } as SignatureAuditEvent;
+    tables.auditEvents.push(row);
+    return row;
+  });
+
+  mock.method(storage, 'getDisputePartiesByDisputeId', async (disputeId: number) =>
+    tables.parties.filter(item => item.disputeId === disputeId));
+  mock.method(storage, 'getSettlementProposalById', async (id: number) =>
+    tables.proposals.find(item => item.id === id));
+  mock.method(storage, 'createSharedDocument', async (data: any) => {
+    const row = { id: tables.sharedDocuments.length + 1, createdAt: new Date(), ...data } as SharedDocument;
+    tables.sharedDocuments.push(row);
+    return row;
+  });
+  mock.method(storage, 'updateSharedDocument', async (id: number, data: Partial<SharedDocument>) =>
+    update(tables.sharedDocuments, id, data));
+  mock.method(storage, 'createDisputeActivity', async (data: any) => {
+    tables.activities.push(data);
+    return { id: tables.activities.length, createdAt: new Date(), ...data };
+  });
+
+  return tables;
+}
+
+function party(id: number, name: string, email: string, role: string): DisputeParty {
+  return { id, disputeId: 7, name, email, role, userId: id + 10, status: 'active' } as DisputeParty;
+}
+
+function proposal(overrides: Partial<SettlementProposal> = {}): SettlementProposal {
+  return {
+    id: 3,
+    disputeId: 7,
+    proposedBy: 1,
+    title: 'Repair settlement',
+    content: 'The landlord pays $1,200 for the repairs.',
+    status: 'proposed',
+    termsAndConditions: null,
+    expiresAt: null,
+    ...overrides,
+  } as SettlementProposal;
+}
+
+function generatedDocument(content: string): GeneratedDocument {
+  return { id: 9, userId: 1, documentTitle: 'Service Agreement', documentContent: content } as GeneratedDocument;
+}
+
+function signedWebhook(payload: unknown, prefix = 'sha256=') {
+  const rawBody = Buffer.from(JSON.stringify(payload));
+  const signature = crypto.createHmac('sha256', WEBHOOK_SECRET).update(rawBody).digest('hex');
+  return { rawBody, header: `${prefix}${signature}` };
+}
+
+function webhook(eventType: string, data: unknown, timestamp = new Date()) {
+  const { rawBody, header } = signedWebhook({ event_type: eventType, timestamp: timestamp.toISOString(), data });
+  return parseWebhook(rawBody, header);
+}
+
+describe('docuSealSigning', () => {
+  let server: MockDocuSealServer;
+  let blobDir: string;
+  let tables: Tables;
+  const originalBlobStorage = getBlobStorage();
+  const originalSecret = config.DOCUSEAL_WEBHOOK_SECRET;
+
+  before(async () => {
+    server = await startMockDocuSealServer();
+    setDocuSealService(new DocuSealService(server.apiKey, server.url));
+    blobDir = await fs.mkdtemp(path.join(os.tmpdir(), 'docuseal-test-'));
+    setBlobStorage(new LocalBlobStorage(blobDir));
+    config.DOCUSEAL_WEBHOOK_SECRET = WEBHOOK_SECRET;
+  });
+
+  after(async () => {
+    await server.close();
+    setDocuSealService(undefined);
+    setBlobStorage(originalBlobStorage);
+    config.DOCUSEAL_WEBHOOK_SECRET = originalSecret;
+    await fs.rm(blobDir, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    mock.restoreAll();
+    tables = installMemoryStorage();
+    server.templates.length = 0;
+    server.submissions.length = 0;
+    server.requests.length = 0;
+  });
+
+  describe('template sync', () => {
+    test('reuses the template while the rendered document is unchanged', async () => {
+      const first = await sendGeneratedDocumentForSigning(generatedDocument('Original terms'), [{ name: 'Ana', email: 'ana@example.com' }], 1);
+      const second = await sendGeneratedDocumentForSigning(generatedDocument('Original terms'), [{ name: 'Ana', email: 'ana@example.com' }], 1);
+
+      assert.equal(server.templates.length, 1);
+      assert.equal(first.templateId, second.templateId);
+      assert.equal(first.contentHash, second.contentHash);
+    });
+
+    test('creates a new template once the document changes', async () => {
+      const first = await sendGeneratedDocumentForSigning(generatedDocument('Original terms'), [{ name: 'Ana', email: 'ana@example.com' }], 1);
+      const second = await sendGeneratedDocumentForSigning(generatedDocument('Amended terms'), [{ name: 'Ana', email: 'ana@example.com' }], 1);
+
+      assert.equal(server.templates.length, 2);
+      assert.notEqual(first.templateId, second.templateId);
+      assert.match(server.templates[1].html, /Amended terms/);
+      assert.equal(server.templates[1].external_id, `generated_document-9-${second.contentHash.substring(0, 12)}`);
+    });
+
+    test('gives each signer a signature and date field for their role', async () => {
+      await sendGeneratedDocumentForSigning(generatedDocument('Terms'), [
+        { name: 'Ana', email: 'ana@example.com', role: 'Client' },
+        { name: 'Ben <script>', email: 'ben@example.com' },
+      ], 1);
+
+      const html = server.templates[0].html;
+      assert.match(html, /<signature-field name="Signature 1" role="Signer 1"/);
+      assert.match(html, /<date-field name="Date 2" role="Signer 2"/);
+      assert.match(html, /Ben &lt;script&gt;/);
+    });
+  });
+
+  describe('submission creation', () => {
+    beforeEach(() => {
+      tables.proposals.push(proposal());
+      tables.parties.push(
+        party(1, 'Ana Tenant', 'ana@example.com', 'claimant'),
+        party(2, 'Ben Landlord', 'ben@example.com', 'respondent'),
+        { ...party(3, 'Cal Witness', 'cal@example.com', 'witness'), status: 'declined' },
+      );
+    });
+
+    test('sends every party that has not declined and records a pending signature each', async () => {
+      const submission = await sendProposalForSigning(tables.proposals[0], REQUEST);
+
+      const sent = server.requests.find(request => request.path === '/submissions')!.body;
+      assert.equal(sent.template_id, Number(submission.templateId));
+      assert.deepEqual(sent.submitters.map((item: any) => item.external_id), ['party-1', 'party-2']);
+      assert.match(sent.message.subject, /Repair settlement/);
+
+      assert.equal(submission.submissionId, String(server.submissions[0].id));
+      assert.deepEqual(tables.signatures.map(item => [item.partyId, item.signatureStatus, item.docusealSignerId]), [
+        [1, 'pending', String(server.submissions[0].submitters[0].id)],
+        [2, 'pending', String(server.submissions[0].submitters[1].id)],
+      ]);
+      assert.ok(tables.signatures.every(item => item.contentHash && item.docusealSubmissionId === submission.submissionId));
+      assert.deepEqual(tables.auditEvents.map(item => item.eventType), ['docuseal_sent']);
+    });
+
+    test('refuses a second submission while the first is out for signing', async () => {
+      await sendProposalForSigning(tables.proposals[0], REQUEST);
+      await assert.rejects(sendProposalForSigning(tables.proposals[0], REQUEST), { status: 409 });
+      assert.equal(server.submissions.length, 1);
+    });
+
+    test('refuses a proposal that can no longer be signed', async () => {
+      await assert.rejects(sendProposalForSigning(proposal({ status: 'rejected' }), REQUEST), { status: 409 });
+      assert.equal(server.requests.length, 0);
+    });
+  });
+
+  describe('parseWebhook', () => {
+    const payload = { event_type: 'form.completed', timestamp: new Date().toISOString(), data: { id: 1 } };
+
+    test('accepts a body signed with the webhook secret, with or without the sha256= prefix', () => {
+      for (const prefix of ['sha256=', '']) {
+        const { rawBody, header } = signedWebhook(payload, prefix);
+        const event = parseWebhook(rawBody, header);
+        assert.equal(event.eventType, 'form.completed');
+        assert.equal(event.eventKey, crypto.createHash('sha256').update(rawBody).digest('hex'));
+      }
+    });
+
+    test('rejects a missing or wrong signature', () => {
+      const { rawBody, header } = signedWebhook(payload);
+      assert.throws(() => parseWebhook(rawBody, undefined), { status: 401 });
+      assert.throws(() => parseWebhook(rawBody, header.replace(/.$/, c => c === '0' ? '1' : '0')), { status: 401 });
+      assert.throws(() => parseWebhook(Buffer.from(rawBody.toString().replace('form', 'FORM')), header), { status: 401 });
+    });
+
+    test('rejects a timestamp outside the allowed window', () => {
+      const now = Date.now();
+      const window = config.DOCUSEAL_WEBHOOK_TOLERANCE_SECONDS * 1000;
+      for (const timestamp of [new Date(now - window - 1000), new Date(now + window + 1000)]) {
+        const { rawBody, header } = signedWebhook({ ...payload, timestamp: timestamp.toISOString() });
+        assert.throws(() => parseWebhook(rawBody, header, now), { status: 400 });
+      }
+
+      const { rawBody, header } = signedWebhook({ ...payload, timestamp: undefined });
+      assert.throws(() => parseWebhook(rawBody, header, now), { status: 400 });
+    });
+
+    test('is unavailable without a webhook secret', () => {
+      const { rawBody, header } = signedWebhook(payload);
+      config.DOCUSEAL_WEBHOOK_SECRET = undefined;
+      try {
+        assert.throws(() => parseWebhook(rawBody, header), { status: 503 });
+      } finally {
+        config.DOCUSEAL_WEBHOOK_SECRET = WEBHOOK_SECRET;
+      }
+    });
+  });
+
+  describe('webhook handling', () => {
+    let submission: DocusealSubmission;
+
+    beforeEach(async () => {
+      tables.proposals.push(proposal());
+      tables.parties.push(party(1, 'Ana Tenant', 'ana@example.com', 'claimant'));
+      submission = await sendProposalForSigning(tables.proposals[0], REQUEST);
+    });
+
+    test('ignores a replayed delivery', async () => {
+      const submitter = server.submissions[0].submitters[0];
+      const event = webhook('form.completed', { ...submitter, completed_at: new Date().toISOString() });
+
+      assert.equal(await handleWebhookEvent(event), 'processed');
+      assert.equal(await handleWebhookEvent(event), 'duplicate');
+      assert.equal(tables.auditEvents.filter(item => item.eventType === 'signed').length, 1);
+    });
+
+    test('forgets a delivery that failed so the retry is processed', async () => {
+      const event = webhook('submission.completed', { id: server.submissions[0].id });
+      const download = mock.method(storage, 'saveDocumentFile', async () => { throw new Error('disk full'); });
+
+      await assert.rejects(handleWebhookEvent(event), /disk full/);
+      assert.equal(tables.webhookEvents.has(event.eventKey), false);
+
+      download.mock.restore();
+      assert.equal(await handleWebhookEvent(event), 'processed');
+    });
+
+    test('signs and seals the signature when its signer completes', async () => {
+      const submitter = server.submissions[0].submitters[0];
+      await handleWebhookEvent(webhook('form.completed', { ...submitter, completed_at: '2026-03-02T15:00:00.000Z' }));
+
+      const signature = tables.signatures[0];
+      assert.equal(signature.signatureStatus, 'signed');
+      assert.equal(signature.signedAt!.toISOString(), '2026-03-02T15:00:00.000Z');
+      assert.ok(signature.verificationCode);
+      assert.ok(signature.certificateSeal);
+      assert.equal(verifyAuditTrail(tables.auditEvents).valid, true);
+      assert.equal((tables.submissions[0].submitters as any[])[0].status, 'completed');
+    });
+
+    test('stores the signed PDF and shares it on the dispute', async () => {
+      await handleWebhookEvent(webhook('submission.completed', { id: server.submissions[0].id }));
+
+      const stored = tables.submissions[0];
+      const expectedHash = crypto.createHash('sha256').update(server.signedPdf).digest('hex');
+      assert.equal(stored.status, 'completed');
+      assert.equal(stored.signedContentHash, expectedHash);
+      assert.equal(stored.signedFileSize, server.signedPdf.length);
+      assert.deepEqual(await fs.readFile(path.join(blobDir, stored.signedStorageKey!)), server.signedPdf);
+
+      const shared = tables.sharedDocuments[0];
+      assert.equal(stored.signedDocumentId, shared.id);
+      assert.equal(shared.fileType, 'application/pdf');
+      assert.equal(shared.fileName, `submission-${submission.submissionId}.pdf`);
+      assert.equal(shared.fileUrl, `/api/shared-documents/${shared.id}/download`);
+      assert.ok(tables.auditEvents.some(item => item.eventType === 'docuseal_completed'));
+    });
+
+    test('leaves a signature invalidated by an edit alone', async () => {
+      tables.signatures[0].signatureStatus = 'invalidated';
+      const submitter = server.submissions[0].submitters[0];
+      await handleWebhookEvent(webhook('form.completed', { ...submitter, completed_at: new Date().toISOString() }));
+
+      assert.equal(tables.signatures[0].signatureStatus, 'invalidated');
+      assert.equal(tables.signatures[0].verificationCode, undefined);
+    });
+
+    test('archives the submission once an edit invalidates its signatures', async () => {
+      tables.signatures[0].signatureStatus = 'invalidated';
+
+      assert.equal(await archiveInvalidatedSubmissions(tables.proposals[0], REQUEST), 1);
+
+      assert.ok(server.submissions[0].archivedAt);
+      assert.equal(tables.submissions[0].status, 'archived');
+      assert.ok(tables.auditEvents.some(item => item.eventType === 'docuseal_archived'));
+      await sendProposalForSigning(tables.proposals[0], REQUEST);
+      assert.equal(server.submissions.length, 2);
+    });
+
+    test('keeps a submission whose signatures still hold', async () => {
+      assert.equal(await archiveInvalidatedSubmissions(tables.proposals[0], REQUEST), 0);
+      assert.equal(server.submissions[0].archivedAt, undefined);
+      assert.equal(tables.submissions[0].status, 'pending');
+    });
+
+    test('does not share a stale submission that completes after an edit', async () => {
+      tables.signatures[0].signatureStatus = 'invalidated';
+
+      await handleWebhookEvent(webhook('submission.completed', { id: server.submissions[0].id }));
+
+      assert.equal(tables.submissions[0].status, 'archived');
+      assert.ok(!tables.submissions[0].signedStorageKey);
+      assert.equal(tables.sharedDocuments.length, 0);
+      assert.ok(!tables.auditEvents.some(item => item.eventType === 'docuseal_completed'));
+    });
+  });
+});
@@ -0,0 +1,560 @@
+/**
+ * DocuSeal Signing Lifecycle
+ *
+ * Settlement proposals and generated documents can be signed through
+ * DocuSeal instead of the in-app ceremony in proposalSigning.ts:
+ * - The document is rendered to HTML with a signature and date field for
+ *   each signer and synced to a DocuSeal template. A template is reused
+ *   while the rendered HTML is unchanged and replaced once it changes.
+ * - A submission is created for the signers: every dispute party for a
+ *   proposal, or the signers the user names for a generated document.
+ *   Proposal signers also get a pending digital signature each, bound to
+ *   the proposal's content hash like in-app signatures.
+ * - DocuSeal webhooks reconcile signer and signature statuses. Deliveries
+ *   must carry an HMAC of the body and a recent timestamp, and a delivery
+ *   that was already processed is ignored.
+ * - When every signer is done, the signed PDF is downloaded into document
+ *   storage and, for proposals, shared on the dispute.
+ * - Editing a proposal invalidates its signatures and archives the open
+ *   submission, and a stale submission that completes anyway is not shared.
+ */
+
+import crypto from 'crypto';
+import { storage } from '../storage';
+import { config } from '../config';
+import {
+  type DigitalSignature,
+  type DisputeParty,
+  type DocusealSubmission,
+  type GeneratedDocument,
+  type SettlementProposal,
+} from '@shared/schema';
+import { escapeHtml } from './email';
+import { DocuSealError, getDocuSealService, type DocuSealSubmitter } from './docuSealService';
+import {
+  assertProposalSignable,
+  newCertificateNumber,
+  proposalContentHash,
+  recordAuditEvent,
+  sealCertificate,
+  SigningError,
+  type SigningRequestInfo,
+} from './proposalSigning';
+import { logger } from '../utils/logger';
+
+export type DocusealSourceType = 'settlement_proposal' | 'generated_document';
+
+// A signer as kept on the submission row
+export interface SubmissionSigner {
+  id: string; // DocuSeal submitter ID
+  role: string;
+  name: string;
+  email: string;
+  status: string; // DocuSeal's submitter status
+  completedAt: string | null;
+}
+
+export interface SignerInput {
+  name: string;
+  email: string;
+  role?: string; // Shown next to the signer's name, such as "Landlord"
+}
+
+interface RenderSigner extends SignerInput {
+  templateRole: string; // The DocuSeal role that fills this signer's fields
+}
+
+export interface DocuSealWebhookEvent {
+  eventType: string;
+  timestamp: Date;
+  data: any;
+  eventKey: string;
+}
+
+const sha256 = (data: string | Buffer) => crypto.createHash('sha256').update(data).digest('hex');
+
+function termsText(terms: unknown): string | null {
+  if (terms === null || terms === undefined || terms === '') return null;
+  return typeof terms === 'string' ? terms : JSON.stringify(terms, null, 2);
+}
+
+function paragraphs(text: string): string {
+  return text
+    .split(/\n\s*\n/)
+    .map(block => block.trim())
+    .filter(Boolean)
+    .map(block => `<p style="white-space: pre-wrap">${escapeHtml(block)}</p>`)
+    .join('\n');
+}
+
+/**
+ * HTML for a DocuSeal template: the document text, then a signature block
+ * per signer with the fields their role fills in
+ */
+export function renderSigningHtml(document: { title: string; content: string; terms?: string | null }, signers: RenderSigner[]): string {
+  const blocks = signers.map((signer, index) => `<div style="margin-top: 32px">
+<p><strong>${escapeHtml(signer.name)}</strong>${signer.role ? ` (${escapeHtml(signer.role)})` : ''}</p>
+<signature-field name="Signature ${index + 1}" role="${escapeHtml(signer.templateRole)}" required="true" style="width: 220px; height: 70px; display: inline-block"></signature-field>
+<p>Date: <date-field name="Date ${index + 1}" role="${escapeHtml(signer.templateRole)}" style="width: 140px; height: 20px; display: inline-block"></date-field></p>
+</div>`);
+
+  return `<h1>${escapeHtml(document.title)}</h1>
+${paragraphs(document.content)}
+${document.terms ? `<h2>Terms and Conditions</h2>\n${paragraphs(document.terms)}` : ''}
+<h2>Signatures</h2>
+${blocks.join('\n')}`;
+}
+
+/**
+ * The DocuSeal template for rendered HTML, reusing the one an earlier
+ * submission of the same source used when the HTML has not changed
+ */
+async function syncTemplate(
+  source: { proposalId?: number; generatedDocumentId?: number },
+  sourceType: DocusealSourceType,
+  name: string,
+  html: string
+): Promise<{ templateId: string; contentHash: string }> {
+  const contentHash = sha256(html);
+  const earlier = (await storage.getDocusealSubmissionsBySource(source)).find(item => item.contentHash === contentHash);
+  if (earlier) {
+    return { templateId: earlier.templateId, contentHash };
+  }
+
+  const sourceId = source.proposalId ?? source.generatedDocumentId;
+  const template = await getDocuSealService().createTemplateFromHtml({
+    name,
+    html,
+    externalId: `${sourceType}-${sourceId}-${contentHash.substring(0, 12)}`,
+  });
+  return { templateId: String(template.id), contentHash };
+}
+
+function toSubmissionSigners(submitters: DocuSealSubmitter[], signers: RenderSigner[]): SubmissionSigner[] {
+  return submitters.map((submitter, index) => ({
+    id: String(submitter.id),
+    role: submitter.role || signers[index].templateRole,
+    name: submitter.name || signers[index].name,
+    email: submitter.email,
+    status: submitter.status,
+    completedAt: submitter.completed_at || null,
+  }));
+}
+
+/**
+ * Send a proposal to every party on its dispute through DocuSeal
+ */
+export async function sendProposalForSigning(proposal: SettlementProposal, request: SigningRequestInfo): Promise<DocusealSubmission> {
+  assertProposalSignable(proposal);
+
+  const signatures = await storage.getDigitalSignatures(proposal.id);
+  if (signatures.some(item => item.docusealSubmissionId && item.signatureStatus === 'pending')) {
+    throw new SigningError('This proposal is already out for signing with DocuSeal', 409);
+  }
+
+  const parties = (await storage.getDisputePartiesByDisputeId(proposal.disputeId!))
+    .filter(party => party.status !== 'declined');
+  if (parties.length === 0) {
+    throw new SigningError('The dispute has no parties to sign', 409);
+  }
+
+  const signers: (RenderSigner & { party: DisputeParty })[] = parties.map((party, index) => ({
+    name: party.name,
+    email: party.email,
+    role: party.role,
+    templateRole: `Party ${index + 1}`,
+    party,
+  }));
+  const html = renderSigningHtml({
+    title: proposal.title,
+    content: proposal.content,
+    terms: termsText(proposal.termsAndConditions),
+  }, signers);
+  const { templateId, contentHash } = await syncTemplate({ proposalId: proposal.id }, 'settlement_proposal', proposal.title, html);
+
+  const submitters = await getDocuSealService().createSubmission(templateId, signers.map(signer => ({
+    role: signer.templateRole,
+    name: signer.name,
+    email: signer.email,
+    external_id: `party-${signer.party.id}`,
+  })), {
+    message: {
+      subject: `Please sign: ${proposal.title}`,
+      body: `You have been asked to sign the settlement proposal "${proposal.title}". {{submitter.link}}`,
+    },
+  });
+  if (submitters.length === 0) {
+    throw new DocuSealError('DocuSeal returned no submitters');
+  }
+
+  const submission = await storage.createDocusealSubmission({
+    submissionId: String(submitters[0].submission_id),
+    templateId,
+    sourceType: 'settlement_proposal',
+    proposalId: proposal.id,
+    contentHash,
+    createdBy: request.userId,
+    submitters: toSubmissionSigners(submitters, signers),
+  });
+
+  const proposalHash = proposalContentHash(proposal);
+  for (let index = 0; index < submitters.length; index++) {
+    const submitter = submitters[index];
+    const signer = signers.find(item => `party-${item.party.id}` === submitter.external_id) || signers[index];
+    await storage.createDigitalSignature({
+      proposalId: proposal.id,
+      partyId: signer.party.id,
+      signedBy: signer.party.userId ?? undefined,
+      signatureData: { provider: 'docuseal', role: signer.templateRole },
+      docusealSubmissionId: submission.submissionId,
+      docusealSignerId: String(submitter.id),
+      signatureStatus: 'pending',
+      contentHash: proposalHash,
+      signerName: signer.name,
+      signerEmail: signer.email,
+    });
+  }
+
+  await recordAuditEvent(proposal.id, 'docuseal_sent', request, {
+    contentHash: proposalHash,
+    details: { submissionId: submission.submissionId, templateId, signers: submitters.length },
+  });
+  return submission;
+}
+
+/**
+ * Send a generated document to the signers the user names through DocuSeal
+ */
+export async function sendGeneratedDocumentForSigning(
+  document: GeneratedDocument,
+  signerInputs: SignerInput[],
+  userId: number
+): Promise<DocusealSubmission> {
+  const signers: RenderSigner[] = signerInputs.map((signer, index) => ({ ...signer, templateRole: `Signer ${index + 1}` }));
+  const html = renderSigningHtml({ title: document.documentTitle, content: document.documentContent }, signers);
+  const { templateId, contentHash } = await syncTemplate(
+    { generatedDocumentId: document.id }, 'generated_document', document.documentTitle, html
+  );
+
+  const submitters = await getDocuSealService().createSubmission(templateId, signers.map(signer => ({
+    role: signer.templateRole,
+    name: signer.name,
+    email: signer.email,
+  })), {
+    message: {
+      subject: `Please sign: ${document.documentTitle}`,
+      body: `You have been asked to sign "${document.documentTitle}". {{submitter.link}}`,
+    },
+  });
+  if (submitters.length === 0) {
+    throw new DocuSealError('DocuSeal returned no submitters');
+  }
+
+  return await storage.createDocusealSubmission({
+    submissionId: String(submitters[0].submission_id),
+    templateId,
+    sourceType: 'generated_document',
+    generatedDocumentId: document.id,
+    contentHash,
+    createdBy: userId,
+    submitters: toSubmissionSigners(submitters, signers),
+  });
+}
+
+/**
+ * Check a webhook delivery's HMAC and timestamp, and parse it. The HMAC is
+ * SHA-256 over the raw body, in the X-DocuSeal-Signature header as hex with
+ * an optional "sha256=" prefix.
+ */
+export function parseWebhook(rawBody: Buffer | undefined, signatureHeader: string | undefined, now = Date.now()): DocuSealWebhookEvent {
+  if (!config.DOCUSEAL_WEBHOOK_SECRET) {
+    throw new DocuSealError('DocuSeal webhooks are not configured', 503);
+  }
+  if (!rawBody || !signatureHeader) {
+    throw new DocuSealError('Missing webhook signature', 401);
+  }
+
+  const expected = crypto.createHmac('sha256', config.DOCUSEAL_WEBHOOK_SECRET).update(rawBody).digest('hex');
+  const received = signatureHeader.trim().replace(/^sha256=/i, '').toLowerCase();
+  if (received.length !== expected.length || !crypto.timingSafeEqual(Buffer.from(received), Buffer.from(expected))) {
+    throw new DocuSealError('Invalid webhook signature', 401);
+  }
+
+  let payload: any;
+  try {
+    payload = JSON.parse(rawBody.toString('utf8'));
+  } catch {
+    throw new DocuSealError('Webhook body is not JSON', 400);
+  }
+  if (!payload || typeof payload.event_type !== 'string' || !payload.data) {
+    throw new DocuSealError('Webhook is missing its event type or data', 400);
+  }
+
+  const timestamp = new Date(payload.timestamp);
+  if (isNaN(timestamp.getTime()) || Math.abs(now - timestamp.getTime()) > config.DOCUSEAL_WEBHOOK_TOLERANCE_SECONDS * 1000) {
+    throw new DocuSealError('Webhook timestamp is missing or outside the allowed window', 400);
+  }
+
+  return { eventType: payload.event_type, timestamp, data: payload.data, eventKey: sha256(rawBody) };
+}
+
+function updateSigner(submission: DocusealSubmission, submitter: DocuSealSubmitter, status: string): SubmissionSigner[] {
+  return (submission.submitters as SubmissionSigner[]).map(signer => signer.id === String(submitter.id)
+    ? { ...signer, status, completedAt: submitter.completed_at || signer.completedAt }
+    : signer);
+}
+
+async function findSubmission(submissionId: unknown): Promise<DocusealSubmission | undefined> {
+  const submission = submissionId ? await storage.getDocusealSubmission(String(submissionId)) : undefined;
+  if (!submission) {
+    logger.warn(`[docuseal] Webhook for unknown submission ${submissionId}`);
+  }
+  return submission;
+}
+
+async function onSubmitterCompleted(submitter: DocuSealSubmitter) {
+  const submission = await findSubmission(submitter.submission_id);
+  if (!submission) return;
+  await storage.updateDocusealSubmission(submission.id, { submitters: updateSigner(submission, submitter, 'completed') });
+
+  if (!submission.proposalId) return;
+  const signature = await storage.getDigitalSignatureByDocusealSigner(submission.submissionId, String(submitter.id));
+  // A signature invalidated by an edit stays invalidated, whatever DocuSeal says
+  if (!signature || signature.signatureStatus !== 'pending') return;
+
+  const signedAt = submitter.completed_at ? new Date(submitter.completed_at) : new Date();
+  const signed = await storage.updateDigitalSignature(signature.id, {
+    signatureStatus: 'signed',
+    signedAt,
+    verifiedAt: signedAt,
+    verificationCode: newCertificateNumber(),
+  });
+  await recordAuditEvent(submission.proposalId, 'signed', null, {
+    signatureId: signature.id,
+    contentHash: signature.contentHash,
+    details: { provider: 'docuseal', submitterId: String(submitter.id), signerName: signature.signerName, certificateNumber: signed!.verificationCode },
+  });
+  const proposal = await storage.getSettlementProposalById(submission.proposalId);
+  if (proposal) {
+    await sealCertificate(proposal, signed!);
+  }
+}
+
+async function onSubmitterDeclined(submitter: DocuSealSubmitter & { decline_reason?: string }) {
+  const submission = await findSubmission(submitter.submission_id);
+  if (!submission) return;
+  await storage.updateDocusealSubmission(submission.id, {
+    status: 'declined',
+    submitters: updateSigner(submission, submitter, 'declined'),
+  });
+
+  if (!submission.proposalId) return;
+  const signature = await storage.getDigitalSignatureByDocusealSigner(submission.submissionId, String(submitter.id));
+  if (!signature || signature.signatureStatus !== 'pending') return;
+
+  const reason = submitter.decline_reason || 'Declined in DocuSeal';
+  await storage.updateDigitalSignature(signature.id, {
+    signatureStatus: 'declined',
+    invalidatedAt: new Date(),
+    invalidationReason: reason,
+  });
+  await recordAuditEvent(submission.proposalId, 'docuseal_declined', null, {
+    signatureId: signature.id,
+    details: { submitterId: String(submitter.id), reason },
+  });
+}
+
+// Whether a proposal submission still has signatures that an edit has not invalidated
+function hasLiveSignatures(submission: DocusealSubmission, signatures: DigitalSignature[]): boolean {
+  return signatures.some(signature =>
+    signature.docusealSubmissionId === submission.submissionId &&
+    (signature.signatureStatus === 'pending' || signature.signatureStatus === 'signed')
+  );
+}
+
+/**
+ * Archive a proposal's open submissions whose signatures were invalidated,
+ * so the signers cannot complete the old content. Archiving failures are
+ * logged; a stale submission that completes is still not shared.
+ */
+export async function archiveInvalidatedSubmissions(proposal: SettlementProposal, request: SigningRequestInfo): Promise<number> {
+  const open = (await storage.getDocusealSubmissionsBySource({ proposalId: proposal.id }))
+    .filter(submission => submission.status === 'pending');
+  if (open.length === 0) return 0;
+
+  const signatures = await storage.getDigitalSignatures(proposal.id);
+  let archived = 0;
+  for (const submission of open.filter(item => !hasLiveSignatures(item, signatures))) {
+    try {
+      await getDocuSealService().archiveSubmission(submission.submissionId);
+    } catch (error) {
+      logger.error(`[docuseal] Failed to archive submission ${submission.submissionId}: ${(error as Error).message}`);
+      continue;
+    }
+    await storage.updateDocusealSubmission(submission.id, { status: 'archived' });
+    await recordAuditEvent(proposal.id, 'docuseal_archived', request, {
+      details: { submissionId: submission.submissionId, reason: 'The proposal was edited' },
+    });
+    archived++;
+  }
+  return archived;
+}
+
+/**
+ * Download the signed PDF into document storage. Proposals also get it as
+ * a shared document on their dispute, unless an edit invalidated the
+ * submission's signatures.
+ */
+async function onSubmissionCompleted(data: { id: number }) {
+  const submission = await findSubmission(data.id);
+  if (!submission || submission.signedStorageKey) return;
+
+  if (submission.proposalId && !hasLiveSignatures(submission, await storage.getDigitalSignatures(submission.proposalId))) {
+    logger.warn(`[docuseal] Submission ${submission.submissionId} completed after its signatures were invalidated; not sharing it`);
+    if (submission.status !== 'archived') {
+      await storage.updateDocusealSubmission(submission.id, { status: 'archived' });
+    }
+    return;
+  }
+
+  const service = getDocuSealService();
+  const [document] = await service.getSubmissionDocuments(submission.submissionId);
+  if (!document) {
+    throw new DocuSealError(`Submission ${submission.submissionId} has no signed document`);
+  }
+  const stored = await storage.saveDocumentFile(await service.downloadDocument(document.url), 'application/pdf');
+
+  let signedDocumentId: number | null = null;
+  const proposal = submission.proposalId ? await storage.getSettlementProposalById(submission.proposalId) : undefined;
+  if (proposal && proposal.disputeId) {
+    const shared = await storage.createSharedDocument({
+      disputeId: proposal.disputeId,
+      title: `${proposal.title} (signed)`,
+      description: 'Signed copy from DocuSeal',
+      fileUrl: '',
+      fileType: stored.contentType,
+      fileSize: stored.size,
+      fileName: document.name.toLowerCase().endsWith('.pdf') ? document.name : `${document.name}.pdf`,
+      storageKey: stored.key,
+      contentHash: stored.contentHash,
+      uploadedBy: submission.createdBy ?? undefined,
+      isPublic: true,
+      updatedAt: new Date(),
+    });
+    await storage.updateSharedDocument(shared.id, { fileUrl: `/api/shared-documents/${shared.id}/download` });
+    signedDocumentId = shared.id;
+
+    await storage.createDisputeActivity({
+      disputeId: proposal.disputeId,
+      userId: submission.createdBy ?? undefined,
+      activityType: 'document_upload',
+      details: { documentId: shared.id, documentTitle: shared.title, source: 'docuseal' },
+    });
+    await recordAuditEvent(proposal.id, 'docuseal_completed', null, {
+      details: { submissionId: submission.submissionId, signedContentHash: stored.contentHash },
+    });
+  }
+
+  await storage.updateDocusealSubmission(submission.id, {
+    status: 'completed',
+    completedAt: new Date(),
+    signedStorageKey: stored.key,
+    signedContentHash: stored.contentHash,
+    signedFileSize: stored.size,
+    signedDocumentId,
+  });
+}
+
+async function onSubmissionExpired(data: { id: number }) {
+  const submission = await findSubmission(data.id);
+  if (!submission || submission.status === 'completed' || submission.status === 'archived') return;
+  await storage.updateDocusealSubmission(submission.id, { status: 'expired' });
+
+  if (!submission.proposalId) return;
+  const pending = (await storage.getDigitalSignatures(submission.proposalId))
+    .filter(item => item.docusealSubmissionId === submission.submissionId && item.signatureStatus === 'pending');
+  for (const signature of pending) {
+    await storage.updateDigitalSignature(signature.id, {
+      signatureStatus: 'invalidated',
+      invalidatedAt: new Date(),
+      invalidationReason: 'The DocuSeal submission expired',
+    });
+    await recordAuditEvent(submission.proposalId, 'signature_invalidated', null, {
+      signatureId: signature.id,
+      contentHash: signature.contentHash,
+      details: { reason: 'The DocuSeal submission expired' },
+    });
+  }
+}
+
+/**
+ * Process a verified webhook delivery once. The delivery is recorded before
+ * it is processed so a concurrent replay is ignored, and forgotten again if
+ * processing fails so DocuSeal's retry goes through.
+ */
+export async function handleWebhookEvent(event: DocuSealWebhookEvent): Promise<'processed' | 'duplicate' | 'ignored'> {
+  if (!await storage.recordDocusealWebhookEvent(event.eventKey, event.eventType)) {
+    return 'duplicate';
+  }
+
+  try {
+    switch (event.eventType) {
+      case 'form.completed':
+        await onSubmitterCompleted(event.data);
+        return 'processed';
+      case 'form.declined':
+        await onSubmitterDeclined(event.data);
+        return 'processed';
+      case 'submission.completed':
+        await onSubmissionCompleted(event.data);
+        return 'processed';
+      case 'submission.expired':
+        await onSubmissionExpired(event.data);
+        return 'processed';
+      default:
+        return 'ignored';
+    }
+  } catch (error) {
+    await storage.forgetDocusealWebhookEvent(event.eventKey);
+    throw error;
+  }
+}
+
+/**
+ * Whether a user may see a submission: its creator, the owner of the
+ * generated document, or anyone with access to the proposal's dispute
+ */
+export async function canAccessSubmission(submission: DocusealSubmission, userId: number): Promise<boolean> {
+  if (submission.createdBy === userId) return true;
+
+  if (submission.generatedDocumentId) {
+    const document = await storage.getGeneratedDocument(submission.generatedDocumentId);
+    return !!document && document.userId === userId;
+  }
+
+  const proposal = submission.proposalId ? await storage.getSettlementProposalById(submission.proposalId) : undefined;
+  if (!proposal || !proposal.disputeId) return false;
+  return await storage.isDisputeParty(userId, proposal.disputeId) ||
+    await storage.isDisputeMediator(userId, proposal.disputeId) ||
+    await storage.isDisputeOwner(userId, proposal.disputeId);
+}
+
+/**
+ * Submission status in the shape the signature status panel polls for
+ */
+export function describeSubmission(submission: DocusealSubmission) {
+  return {
+    submissionId: submission.submissionId,
+    sourceType: submission.sourceType,
+    status: submission.status,
+    completedAt: submission.completedAt,
+    signedDocumentId: submission.signedDocumentId,
+    signedDocumentUrl: submission.signedStorageKey ? `/api/docuseal/submissions/${submission.submissionId}/signed-document` : null,
+    signers: (submission.submitters as SubmissionSigner[]).map(signer => ({
+      name: signer.name,
+      email: signer.email,
+      status: signer.status === 'completed' ? 'signed' : signer.status === 'declined' ? 'declined' : 'pending',
+      completedAt: signer.completedAt,
+    })),
+  };
+}
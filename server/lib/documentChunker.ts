@@ -46,6 +46,105 @@ export function chunkText(text: string, maxChunks: number = 4): string[] {
   return chunks;
 }
 
+/**
+ * A contiguous slice of a document, with its position in the original text
+ */
+export interface TextChunk {
+  index: number;
+  text: string;
+  start: number; // Character offset of the first character in the original text
+  end: number;   // Character offset just past the last character
+}
+
+/**
+ * Splits text into chunks of at most maxTokensPerChunk estimated tokens,
+ * without limiting the number of chunks. Chunks break on paragraph
+ * boundaries where possible, then on sentence boundaries, and each chunk's
+ * text is exactly text.slice(start, end) so positions found within a chunk
+ * map back to the original document.
+ * @param text The full text to split
+ * @param maxTokensPerChunk Token budget for each chunk
+ * @returns Array of chunks covering all non-blank content in order
+ */
+export function chunkTextWithOffsets(text: string, maxTokensPerChunk: number = 4000): TextChunk[] {
+  // Locate paragraphs as [start, end) spans in the original text
+  const spans: Array<{ start: number; end: number }> = [];
+  const paragraphPattern = /\S[\s\S]*?(?=\n\s*\n|$)/g;
+  let match: RegExpExecArray | null;
+  while ((match = paragraphPattern.exec(text)) !== null) {
+    spans.push(...splitOversizedSpan(text, match.index, match.index + match[0].length, maxTokensPerChunk));
+  }
+
+  const chunks: TextChunk[] = [];
+  let current: { start: number; end: number } | null = null;
+
+  for (const span of spans) {
+    if (current && estimateTokenCount(text.slice(current.start, span.end)) <= maxTokensPerChunk) {
+      current.end = span.end;
+      continue;
+    }
+    if (current) {
+      chunks.push({ index: chunks.length, text: text.slice(current.start, current.end), ...current });
+    }
+    current = { ...span };
+  }
+  if (current) {
+    chunks.push({ index: chunks.length, text: text.slice(current.start, current.end), ...current });
+  }
+
+  return chunks;
+}
+
+/**
+ * Breaks a paragraph that exceeds the token budget into sentence-sized
+ * spans, falling back to fixed word counts for text without punctuation
+ */
+function splitOversizedSpan(
+  text: string,
+  start: number,
+  end: number,
+  maxTokens: number
+): Array<{ start: number; end: number }> {
+  const paragraph = text.slice(start, end);
+  if (estimateTokenCount(paragraph) <= maxTokens) {
+    return [{ start, end }];
+  }
+
+  const spans: Array<{ start: number; end: number }> = [];
+  const sentencePattern = /\S[\s\S]*?(?:[.;:!?](?=\s)|$)/g;
+  let match: RegExpExecArray | null;
+  while ((match = sentencePattern.exec(paragraph)) !== null) {
+    if (match[0].length === 0) break;
+    const sentenceStart = start + match.index;
+    const sentenceEnd = sentenceStart + match[0].length;
+
+    if (estimateTokenCount(match[0]) <= maxTokens) {
+      spans.push({ start: sentenceStart, end: sentenceEnd });
+      continue;
+    }
+
+    // No usable sentence breaks; cut every maxTokens worth of words
+    const wordsPerSpan = Math.max(1, Math.floor(maxTokens / 0.75));
+    const wordPattern = /\S+/g;
+    let wordMatch: RegExpExecArray | null;
+    let count = 0;
+    let spanStart = sentenceStart;
+    let spanEnd = sentenceStart;
+    while ((wordMatch = wordPattern.exec(match[0])) !== null) {
+      if (count === wordsPerSpan) {
+        spans.push({ start: spanStart, end: spanEnd });
+        spanStart = sentenceStart + wordMatch.index;
+        count = 0;
+      }
+      spanEnd = sentenceStart + wordMatch.index + wordMatch[0].length;
+      count++;
+    }
+    spans.push({ start: spanStart, end: spanEnd });
+  }
+
+  return spans;
+}
+
 /**
  * Estimate token count in a string (rough approximation)
  * @param text Text to estimate tokens for
@@ -57,6 +156,22 @@ export function estimateTokenCount(text: string): number {
   return Math.ceil(words * 0.75);
 }
 
+/**
+ * Run an async function over items with at most `limit` calls in flight
+ */
+export async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const workers = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
+  });
+  await Promise.all(workers);
+  return results;
+}
+
 /**
  * Summarizes a section of text to reduce token count
  * @param text Text to summarize
@@ -0,0 +1,491 @@
+/**
+ * Document Export Service
+ *
+ * This module converts generated legal documents (plain text / light Markdown
+ * produced from templates) into editable DOCX and RTF files. Headings,
+ * numbered clauses, bullet lists and signature blocks are preserved, and each
+ * block is tagged as English or French so bilingual documents keep correct
+ * proofing languages in word processors.
+ */
+
+import {
+  AlignmentType,
+  BorderStyle,
+  Document,
+  Footer,
+  HeadingLevel,
+  Packer,
+  PageNumber,
+  Paragraph,
+  Tab,
+  TextRun,
+} from 'docx';
+
+export const EXPORT_FORMATS = ['docx', 'rtf'] as const;
+
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+export type DocumentLanguage = 'en' | 'fr';
+
+// A run of inline text with basic emphasis
+interface InlineRun {
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+}
+
+// Structured blocks parsed from the document content
+export type DocumentBlock =
+  | { type: 'heading'; level: number; text: string; language: DocumentLanguage }
+  | { type: 'clause'; number: string; depth: number; lines: string[]; language: DocumentLanguage }
+  | { type: 'bullet'; lines: string[]; language: DocumentLanguage }
+  | { type: 'paragraph'; lines: string[]; language: DocumentLanguage }
+  | { type: 'signature'; lines: string[]; language: DocumentLanguage }
+  | { type: 'rule'; language: DocumentLanguage };
+
+export interface ExportableDocument {
+  title: string;
+  content: string;
+  language?: string | null;
+}
+
+export interface ExportResult {
+  buffer: Buffer;
+  contentType: string;
+  fileName: string;
+}
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  rtf: 'application/rtf',
+};
+
+// BCP 47 tags (DOCX) and Windows LCIDs (RTF) for Canadian English and French
+const LANGUAGE_TAGS: Record<DocumentLanguage, string> = { en: 'en-CA', fr: 'fr-CA' };
+const RTF_LANGUAGE_IDS: Record<DocumentLanguage, number> = { en: 4105, fr: 3084 };
+
+const HEADING_PATTERN = /^(#{1,6})\s+(.*)$/;
+const RULE_PATTERN = /^\s*(-{3,}|\*{3,}|={3,})\s*$/;
+const BULLET_PATTERN = /^\s*[-*•]\s+(.*)$/;
+// "1.", "1.1", "2.3.4", "(a)", "(iv)", "a)"
+const CLAUSE_PATTERN = /^\s*(\d+(?:\.\d+)+\.?|\d+\.|\((?:[a-z]{1,2}|[ivx]{1,5}|\d{1,2})\)|[a-z]\))\s+(.*)$/i;
+const ROMAN_PATTERN = /^\((?:i|ii|iii|iv|v|vi|vii|viii|ix|x|xi|xii)\)$/i;
+// Lines that mark a signature block: blank signature lines or execution labels
+const SIGNATURE_LINE_PATTERN = /_{4,}|^\s*(By|Per|Signature|Signed|Witness|Signé|Signée|Témoin|Par)\s*:/i;
+
+const FRENCH_WORDS = new Set([
+  'le', 'la', 'les', 'des', 'du', 'de', 'et', 'est', 'une', 'un', 'au', 'aux', 'dans',
+  'pour', 'par', 'sur', 'avec', 'qui', 'que', 'entre', 'présente', 'présent', 'ci',
+  'doit', 'sont', 'cette', 'ce', 'convention', 'contrat', 'locataire', 'locateur',
+]);
+const ENGLISH_WORDS = new Set([
+  'the', 'and', 'of', 'to', 'in', 'for', 'by', 'with', 'shall', 'this', 'that', 'is',
+  'be', 'between', 'agreement', 'party', 'hereby', 'will', 'any', 'such', 'tenant', 'landlord',
+]);
+
+/**
+ * Guess whether a piece of text is English or French.
+ * Returns null when the signal is too weak to decide (e.g. names, numbers).
+ */
+export function detectLanguage(text: string): DocumentLanguage | null {
+  const words = text.toLowerCase().match(/[a-zà-ÿ']+/g) || [];
+  let french = (text.match(/[àâçéèêëîïôûùüÿœ]/gi) || []).length;
+  let english = 0;
+
+  for (const word of words) {
+    const bare = word.replace(/^(l|d|qu|j|n|s|c)'/, '');
+    if (FRENCH_WORDS.has(bare) || bare !== word) french++;
+    if (ENGLISH_WORDS.has(word)) english++;
+  }
+
+  if (french - english >= 2) return 'fr';
+  if (english - french >= 2) return 'en';
+  return null;
+}
+
+function normalizeLanguage(language?: string | null): DocumentLanguage {
+  return language?.toLowerCase().startsWith('fr') ? 'fr' : 'en';
+}
+
+function clauseDepth(number: string): number {
+  if (number.startsWith('(') || number.endsWith(')')) {
+    return ROMAN_PATTERN.test(number) ? 3 : 2;
+  }
+  return number.replace(/\.$/, '').split('.').length;
+}
+
+/**
+ * Parse document content into structured blocks
+ */
+export function parseDocumentContent(content: string, defaultLanguage: DocumentLanguage = 'en'): DocumentBlock[] {
+  type PendingBlock =
+    | { type: 'heading'; level: number; text: string }
+    | { type: 'clause'; number: string; depth: number; lines: string[] }
+    | { type: 'bullet'; lines: string[] }
+    | { type: 'paragraph'; lines: string[] }
+    | { type: 'rule' };
+
+  const pending: PendingBlock[] = [];
+  let current: Extract<PendingBlock, { lines: string[] }> | null = null;
+
+  const flush = () => {
+    if (current && current.lines.length > 0) {
+      pending.push(current);
+    }
+    current = null;
+  };
+
+  const lines = content.replace(/\r\n?/g, '\n').split('\n');
+
+  for (const rawLine of lines) {
+    const line = rawLine.replace(/\s+$/, '');
+
+    if (!line.trim()) {
+      flush();
+      continue;
+    }
+
+    const heading = line.match(HEADING_PATTERN);
+    if (heading) {
+      flush();
+      pending.push({ type: 'heading', level: heading[1].length, text: heading[2].trim() });
+      continue;
+    }
+
+    if (RULE_PATTERN.test(line)) {
+      flush();
+      pending.push({ type: 'rule' });
+      continue;
+    }
+
+    const bullet = line.match(BULLET_PATTERN);
+    if (bullet) {
+      flush();
+      current = { type: 'bullet', lines: [bullet[1]] };
+      continue;
+    }
+
+    const clause = line.match(CLAUSE_PATTERN);
+    if (clause) {
+      flush();
+      current = { type: 'clause', number: clause[1], depth: clauseDepth(clause[1]), lines: [clause[2]] };
+      continue;
+    }
+
+    if (!current) {
+      current = { type: 'paragraph', lines: [] };
+    }
+    current.lines.push(line.trim());
+  }
+  flush();
+
+  // Assign languages, letting blocks without a clear signal inherit the
+  // language of the section they appear in
+  let sectionLanguage = defaultLanguage;
+
+  return pending.map((block): DocumentBlock => {
+    if (block.type === 'rule') {
+      return { ...block, language: sectionLanguage };
+    }
+
+    const text = block.type === 'heading' ? block.text : block.lines.join(' ');
+    const detected = detectLanguage(text);
+    if (detected) {
+      sectionLanguage = detected;
+    }
+    const language = detected || sectionLanguage;
+
+    if (block.type === 'paragraph' && block.lines.some(line => SIGNATURE_LINE_PATTERN.test(line))) {
+      return { type: 'signature', lines: block.lines, language };
+    }
+
+    return { ...block, language };
+  });
+}
+
+/**
+ * Split inline Markdown emphasis (**bold**, *italic*) into runs
+ */
+function parseInline(text: string): InlineRun[] {
+  const runs: InlineRun[] = [];
+  const pattern = /(\*\*[^*]+\*\*|\*[^*\s][^*]*\*)/g;
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(text)) !== null) {
+    if (match.index > lastIndex) {
+      runs.push({ text: text.slice(lastIndex, match.index) });
+    }
+    const token = match[0];
+    if (token.startsWith('**')) {
+      runs.push({ text: token.slice(2, -2), bold: true });
+    } else {
+      runs.push({ text: token.slice(1, -1), italic: true });
+    }
+    lastIndex = match.index + token.length;
+  }
+
+  if (lastIndex < text.length) {
+    runs.push({ text: text.slice(lastIndex) });
+  }
+
+  return runs;
+}
+
+function stripInline(text: string): string {
+  return parseInline(text).map(run => run.text).join('');
+}
+
+// ---------------------------------------------------------------------------
+// DOCX rendering
+// ---------------------------------------------------------------------------
+
+const DOCX_HEADING_LEVELS = [
+  HeadingLevel.HEADING_1,
+  HeadingLevel.HEADING_2,
+  HeadingLevel.HEADING_3,
+  HeadingLevel.HEADING_4,
+  HeadingLevel.HEADING_5,
+  HeadingLevel.HEADING_6,
+];
+
+function docxRuns(lines: string[], language: DocumentLanguage, base: { bold?: boolean } = {}): TextRun[] {
+  const runs: TextRun[] = [];
+  const languageOptions = { value: LANGUAGE_TAGS[language] };
+
+  lines.forEach((line, lineIndex) => {
+    parseInline(line).forEach((run, runIndex) => {
+      runs.push(new TextRun({
+        text: run.text,
+        bold: base.bold || run.bold,
+        italics: run.italic,
+        language: languageOptions,
+        // Keep the original line breaks inside a block
+        break: lineIndex > 0 && runIndex === 0 ? 1 : undefined,
+      }));
+    });
+  });
+
+  return runs;
+}
+
+function docxParagraphs(block: DocumentBlock): Paragraph[] {
+  switch (block.type) {
+    case 'heading':
+      return [new Paragraph({
+        heading: DOCX_HEADING_LEVELS[block.level - 1],
+        alignment: block.level === 1 ? AlignmentType.CENTER : AlignmentType.LEFT,
+        keepNext: true,
+        children: docxRuns([block.text], block.language),
+      })];
+
+    case 'clause':
+      return [new Paragraph({
+        indent: { left: 720 * block.depth, hanging: 720 },
+        alignment: AlignmentType.BOTH,
+        children: [
+          new TextRun({
+            children: [block.number, new Tab()],
+            language: { value: LANGUAGE_TAGS[block.language] },
+          }),
+          ...docxRuns(block.lines, block.language),
+        ],
+      })];
+
+    case 'bullet':
+      return [new Paragraph({
+        bullet: { level: 0 },
+        children: docxRuns(block.lines, block.language),
+      })];
+
+    case 'signature':
+      // One paragraph per line, kept together on the same page
+      return block.lines.map((line, index) => new Paragraph({
+        keepNext: index < block.lines.length - 1,
+        keepLines: true,
+        spacing: { before: index === 0 ? 360 : 0, after: 0 },
+        children: docxRuns([line], block.language),
+      }));
+
+    case 'rule':
+      return [new Paragraph({
+        border: { bottom: { style: BorderStyle.SINGLE, size: 6, color: 'auto', space: 1 } },
+        children: [],
+      })];
+
+    case 'paragraph':
+    default:
+      return [new Paragraph({
+        alignment: AlignmentType.BOTH,
+        children: docxRuns(block.lines, block.language),
+      })];
+  }
+}
+
+/**
+ * Render parsed blocks to a DOCX file
+ */
+export async function renderDocx(blocks: DocumentBlock[], title: string, language: DocumentLanguage): Promise<Buffer> {
+  const doc = new Document({
+    title,
+    creator: 'LegalAI',
+    styles: {
+      default: {
+        document: {
+          run: { font: 'Times New Roman', size: 24, language: { value: LANGUAGE_TAGS[language] } },
+          paragraph: { spacing: { after: 120, line: 276 } },
+        },
+      },
+    },
+    sections: [{
+      properties: {
+        page: { margin: { top: 1440, right: 1440, bottom: 1440, left: 1440 } },
+      },
+      footers: {
+        default: new Footer({
+          children: [new Paragraph({
+            alignment: AlignmentType.CENTER,
+            children: [
+              new TextRun({ children: [PageNumber.CURRENT, ' / ', PageNumber.TOTAL_PAGES], size: 18 }),
+            ],
+          })],
+        }),
+      },
+      children: blocks.flatMap(docxParagraphs),
+    }],
+  });
+
+  return Packer.toBuffer(doc);
+}
+
+// ---------------------------------------------------------------------------
+// RTF rendering
+// ---------------------------------------------------------------------------
+
+/**
+ * Escape text for RTF, encoding non-ASCII characters (e.g. French accents)
+ * as Unicode control words with an ASCII fallback
+ */
+export function escapeRtf(text: string): string {
+  let result = '';
+  for (const char of text) {
+    const code = char.codePointAt(0)!;
+    if (char === '\\' || char === '{' || char === '}') {
+      result += `\\${char}`;
+    } else if (char === '\t') {
+      result += '\\tab ';
+    } else if (code < 128) {
+      result += char;
+    } else if (code <= 0xffff) {
+      // \uN takes a signed 16-bit value
+      const signed = code > 32767 ? code - 65536 : code;
+      const fallback = char.normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+      result += `\\u${signed}${/^[\x20-\x7e]$/.test(fallback) ? fallback : '?'}`;
+    } else {
+      // Characters outside the BMP are written as a UTF-16 surrogate pair
+      const high = Math.floor((code - 0x10000) / 0x400) + 0xd800;
+      const low = ((code - 0x10000) % 0x400) + 0xdc00;
+      result += `\\u${high - 65536}?\\u${low - 65536}?`;
+    }
+  }
+  return result;
+}
+
+function rtfInline(lines: string[]): string {
+  return lines
+    .map(line => parseInline(line).map(run => {
+      const text = escapeRtf(run.text);
+      if (run.bold) return `{\\b ${text}}`;
+      if (run.italic) return `{\\i ${text}}`;
+      return text;
+    }).join(''))
+    .join('\\line ');
+}
+
+// Heading sizes in half-points, indexed by level
+const RTF_HEADING_SIZES = [32, 28, 26, 24, 24, 24];
+
+function rtfParagraph(block: DocumentBlock): string {
+  const lang = `\\lang${RTF_LANGUAGE_IDS[block.language]}`;
+
+  switch (block.type) {
+    case 'heading': {
+      const align = block.level === 1 ? '\\qc' : '\\ql';
+      return `{\\pard\\plain${align}\\keepn\\sb240\\sa120${lang}\\b\\fs${RTF_HEADING_SIZES[block.level - 1]} ${rtfInline([block.text])}\\par}`;
+    }
+
+    case 'clause': {
+      const left = 720 * block.depth;
+      return `{\\pard\\plain\\qj\\li${left}\\fi-720\\tx${left}\\sa120${lang}\\fs24 ${escapeRtf(block.number)}\\tab ${rtfInline(block.lines)}\\par}`;
+    }
+
+    case 'bullet':
+      return `{\\pard\\plain\\ql\\li720\\fi-360\\tx720\\sa120${lang}\\fs24 \\bullet\\tab ${rtfInline(block.lines)}\\par}`;
+
+    case 'signature':
+      return block.lines.map((line, index) => {
+        const keep = index < block.lines.length - 1 ? '\\keepn' : '';
+        const before = index === 0 ? '\\sb360' : '';
+        return `{\\pard\\plain\\ql\\keep${keep}${before}${lang}\\fs24 ${rtfInline([line])}\\par}`;
+      }).join('\n');
+
+    case 'rule':
+      return `{\\pard\\plain\\brdrb\\brdrs\\brdrw10\\brsp20 \\par}`;
+
+    case 'paragraph':
+    default:
+      return `{\\pard\\plain\\qj\\sa120${lang}\\fs24 ${rtfInline(block.lines)}\\par}`;
+  }
+}
+
+/**
+ * Render parsed blocks to an RTF document
+ */
+export function renderRtf(blocks: DocumentBlock[], title: string, language: DocumentLanguage): Buffer {
+  const header = [
+    '{\\rtf1\\ansi\\ansicpg1252\\uc1\\deff0',
+    `\\deflang${RTF_LANGUAGE_IDS[language]}`,
+    '{\\fonttbl{\\f0\\froman\\fcharset0 Times New Roman;}}',
+    `{\\info{\\title ${escapeRtf(title)}}{\\author LegalAI}}`,
+    '\\paperw12240\\paperh15840\\margl1440\\margr1440\\margt1440\\margb1440',
+    '{\\footer\\pard\\plain\\qc\\fs18 {\\field{\\*\\fldinst PAGE}{\\fldrslt 1}} / {\\field{\\*\\fldinst NUMPAGES}{\\fldrslt 1}}\\par}',
+  ].join('\n');
+
+  const body = blocks.map(rtfParagraph).join('\n');
+
+  // RTF is 7-bit; every non-ASCII character has been escaped above
+  return Buffer.from(`${header}\n${body}\n}`, 'ascii');
+}
+
+/**
+ * Build a safe download file name from a document title
+ */
+export function exportFileName(title: string, format: ExportFormat | 'csv'): string {
+  const base = stripInline(title)
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-zA-Z0-9_\-. ]/g, '_')
+    .replace(/\s+/g, '_')
+    .replace(/_+/g, '_')
+    .replace(/^[_.]+|[_.]+$/g, '')
+    .slice(0, 100);
+
+  return `${base || 'document'}.${format}`;
+}
+
+/**
+ * Export a document to the requested format
+ */
+export async function exportDocument(document: ExportableDocument, format: ExportFormat): Promise<ExportResult> {
+  const language = normalizeLanguage(document.language);
+  const blocks = parseDocumentContent(document.content, language);
+
+  const buffer = format === 'docx'
+    ? await renderDocx(blocks, document.title, language)
+    : renderRtf(blocks, document.title, language);
+
+  return {
+    buffer,
+    contentType: CONTENT_TYPES[format],
+    fileName: exportFileName(document.title, format),
+  };
+}
@@ -0,0 +1,144 @@
+/**
+ * Email Delivery
+ *
+ * This module sends transactional email through the transport selected by
+ * EMAIL_TRANSPORT:
+ * - smtp: any SMTP server, including a local stand-in such as MailHog or
+ *   smtp4dev during development (SMTP_HOST, SMTP_PORT, SMTP_USER, ...)
+ * - sendgrid: the SendGrid API (SENDGRID_API_KEY)
+ * - log: writes messages to the server log instead of sending them
+ *
+ * Callers use sendEmail() and never talk to a transport directly, so tests can
+ * swap in their own with setEmailTransport().
+ */
+
+import nodemailer from 'nodemailer';
+import sgMail from '@sendgrid/mail';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+  headers?: Record<string, string>;
+}
+
+export interface SentEmail {
+  messageId?: string;
+}
+
+export interface EmailTransport {
+  readonly name: string;
+  send(message: EmailMessage): Promise<SentEmail>;
+}
+
+export class EmailError extends Error {
+  constructor(message: string, public transport: string, public cause?: unknown) {
+    super(message);
+    this.name = 'EmailError';
+  }
+}
+
+export class SmtpEmailTransport implements EmailTransport {
+  readonly name = 'smtp';
+  private transporter: nodemailer.Transporter;
+
+  constructor(options: { host: string; port: number; secure: boolean; user?: string; password?: string }) {
+    this.transporter = nodemailer.createTransport({
+      host: options.host,
+      port: options.port,
+      secure: options.secure,
+      auth: options.user ? { user: options.user, pass: options.password } : undefined,
+    });
+  }
+
+  async send(message: EmailMessage): Promise<SentEmail> {
+    const info = await this.transporter.sendMail({ from: config.EMAIL_FROM, ...message });
+    return { messageId: info.messageId };
+  }
+}
+
+export class SendGridEmailTransport implements EmailTransport {
+  readonly name = 'sendgrid';
+
+  constructor(apiKey: string) {
+    sgMail.setApiKey(apiKey);
+  }
+
+  async send(message: EmailMessage): Promise<SentEmail> {
+    const [response] = await sgMail.send({ from: config.EMAIL_FROM, ...message });
+    return { messageId: response.headers['x-message-id'] };
+  }
+}
+
+// Development transport; nothing leaves the server
+export class LogEmailTransport implements EmailTransport {
+  readonly name = 'log';
+
+  async send(message: EmailMessage): Promise<SentEmail> {
+    logger.info(`[email] To: ${message.to} | Subject: ${message.subject}\n${message.text}`);
+    return {};
+  }
+}
+
+function createTransport(): EmailTransport {
+  switch (config.EMAIL_TRANSPORT) {
+    case 'smtp':
+      if (!config.SMTP_HOST) {
+        throw new EmailError('SMTP_HOST must be set to send email over SMTP', 'smtp');
+      }
+      return new SmtpEmailTransport({
+        host: config.SMTP_HOST,
+        port: config.SMTP_PORT,
+        secure: config.SMTP_SECURE,
+        user: config.SMTP_USER,
+        password: config.SMTP_PASSWORD,
+      });
+    case 'sendgrid':
+      if (!config.SENDGRID_API_KEY) {
+        throw new EmailError('SENDGRID_API_KEY must be set to send email with SendGrid', 'sendgrid');
+      }
+      return new SendGridEmailTransport(config.SENDGRID_API_KEY);
+    case 'log':
+      return new LogEmailTransport();
+    default:
+      throw new EmailError(`Unknown email transport: ${config.EMAIL_TRANSPORT}`, config.EMAIL_TRANSPORT);
+  }
+}
+
+let transport: EmailTransport | undefined;
+
+export function getEmailTransport(): EmailTransport {
+  if (!transport) {
+    transport = createTransport();
+  }
+  return transport;
+}
+
+export function setEmailTransport(replacement: EmailTransport | undefined): void {
+  transport = replacement;
+}
+
+export async function sendEmail(message: EmailMessage): Promise<SentEmail> {
+  const current = getEmailTransport();
+  try {
+    return await current.send(message);
+  } catch (error) {
+    throw new EmailError(
+      `Failed to send email with ${current.name}: ${error instanceof Error ? error.message : error}`,
+      current.name,
+      error
+    );
+  }
+}
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
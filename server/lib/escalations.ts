@@ -0,0 +1,386 @@
+/**
+ * Escalated Question Workflow
+ *
+ * Questions the assistant should not answer alone are escalated to a
+ * reviewing lawyer, anyone whose role has the escalations:answer permission.
+ * This module runs the workflow around them:
+ * - Each question gets an SLA deadline from its urgency when it is asked
+ * - Questions are assigned manually or round-robin, to the reviewer whose
+ *   last assignment is the oldest
+ * - Reviewers draft answers pre-filled with the assistant's answer and see
+ *   the chat the question came from
+ * - The user is notified when the answer is ready and either accepts it or
+ *   asks a follow-up, which goes back to the same reviewer
+ *
+ * Statuses run pending → assigned → answered → closed.
+ */
+
+import { storage } from '../storage';
+import { config } from '../config';
+import { type ChatMessage, type EscalatedQuestion } from '@shared/schema';
+import { getRolePermissions } from './permissions';
+import { sendEmail, escapeHtml } from './email';
+import { logger } from '../utils/logger';
+
+export type EscalationUrgency = 'normal' | 'high' | 'urgent';
+
+export const ESCALATION_URGENCIES: EscalationUrgency[] = ['normal', 'high', 'urgent'];
+
+// Hours a reviewer has to answer, by urgency
+export const SLA_HOURS: Record<EscalationUrgency, number> = {
+  urgent: 4,
+  high: 24,
+  normal: 72,
+};
+
+// Share of the SLA window left when a question is flagged as at risk
+const AT_RISK_FRACTION = 0.25;
+
+export const OPEN_STATUSES = ['pending', 'assigned'];
+
+// Chat messages shown to the reviewer alongside the draft
+const CHAT_CONTEXT_MESSAGES = 10;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export class EscalationError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'EscalationError';
+  }
+}
+
+export interface EscalationSla {
+  state: 'none' | 'on_track' | 'at_risk' | 'breached' | 'met';
+  dueAt: Date | null;
+  remainingMinutes: number | null; // Negative once breached; null when answered
+}
+
+export interface EscalationReviewer {
+  id: number;
+  name: string;
+  open: number;
+  lastAssignedAt: Date | null;
+}
+
+export function isEscalationUrgency(value: unknown): value is EscalationUrgency {
+  return typeof value === 'string' && ESCALATION_URGENCIES.indexOf(value as EscalationUrgency) !== -1;
+}
+
+export function slaDeadline(urgency: string, from: Date = new Date()): Date {
+  const hours = SLA_HOURS[isEscalationUrgency(urgency) ? urgency : 'normal'];
+  return new Date(from.getTime() + hours * HOUR_MS);
+}
+
+export function describeSla(question: EscalatedQuestion, now: Date = new Date()): EscalationSla {
+  if (!question.dueAt) {
+    return { state: 'none', dueAt: null, remainingMinutes: null };
+  }
+  const dueAt = new Date(question.dueAt);
+
+  if (question.answeredAt) {
+    return {
+      state: new Date(question.answeredAt) <= dueAt ? 'met' : 'breached',
+      dueAt,
+      remainingMinutes: null,
+    };
+  }
+
+  const remaining = dueAt.getTime() - now.getTime();
+  const window = question.createdAt ? dueAt.getTime() - new Date(question.createdAt).getTime() : 0;
+  let state: EscalationSla['state'] = 'on_track';
+  if (remaining < 0) {
+    state = 'breached';
+  } else if (window > 0 && remaining < window * AT_RISK_FRACTION) {
+    state = 'at_risk';
+  }
+  return { state, dueAt, remainingMinutes: Math.round(remaining / 60000) };
+}
+
+/**
+ * Everyone who can answer escalated questions, with their current load
+ */
+export async function getReviewers(): Promise<EscalationReviewer[]> {
+  const [users, load] = await Promise.all([storage.getUsers(), storage.getEscalationReviewerLoad()]);
+
+  const canAnswer: Record<string, boolean> = {};
+  for (const role of Array.from(new Set(users.map(user => user.role)))) {
+    canAnswer[role] = (await getRolePermissions(role)).indexOf('escalations:answer') !== -1;
+  }
+
+  return users
+    .filter(user => canAnswer[user.role])
+    .map(user => ({
+      id: user.id,
+      name: user.fullName || user.username,
+      open: load[String(user.id)]?.open || 0,
+      lastAssignedAt: load[String(user.id)]?.lastAssignedAt || null,
+    }));
+}
+
+/**
+ * Round-robin: the reviewer who has gone longest without an assignment,
+ * starting with those who have never had one
+ */
+export function pickNextReviewer(reviewers: EscalationReviewer[]): EscalationReviewer | undefined {
+  return [...reviewers].sort((a, b) => {
+    const aTime = a.lastAssignedAt ? a.lastAssignedAt.getTime() : 0;
+    const bTime = b.lastAssignedAt ? b.lastAssignedAt.getTime() : 0;
+    return aTime - bTime || a.id - b.id;
+  })[0];
+}
+
+async function notify(userId: number | null, type: string, title: string, message: string, link: string, data: Record<string, unknown>) {
+  if (!userId) return;
+  try {
+    await storage.createNotification({ userId, type, title, message, link, data });
+  } catch (error) {
+    logger.error(`[escalations] Failed to notify user ${userId}: ${(error as Error).message}`);
+  }
+}
+
+function excerpt(text: string, length = 80): string {
+  return text.length > length ? `${text.substring(0, length).trim()}…` : text;
+}
+
+/**
+ * Assign a question to a reviewer, or to the next one in turn when no
+ * reviewer is given
+ */
+export async function assignQuestion(question: EscalatedQuestion, reviewerId?: number): Promise<EscalatedQuestion> {
+  if (OPEN_STATUSES.indexOf(question.status) === -1) {
+    throw new EscalationError(`Question is already ${question.status}`, 409);
+  }
+
+  const reviewers = await getReviewers();
+  let reviewer: EscalationReviewer | undefined;
+  if (reviewerId !== undefined) {
+    reviewer = reviewers.find(candidate => candidate.id === reviewerId);
+    if (!reviewer) {
+      throw new EscalationError('That user cannot answer escalated questions');
+    }
+  } else {
+    reviewer = pickNextReviewer(reviewers.filter(candidate => String(candidate.id) !== question.assignedTo));
+    if (!reviewer) {
+      throw new EscalationError('No reviewers are available to take this question', 409);
+    }
+  }
+
+  const now = new Date();
+  const updated = await storage.updateEscalatedQuestion(question.id, {
+    assignedTo: String(reviewer.id),
+    assignedAt: now,
+    status: 'assigned',
+    updatedAt: now,
+  });
+
+  await notify(reviewer.id, 'escalation_assigned', 'Escalated question assigned to you',
+    `"${excerpt(question.question)}" is due ${slaText(question.dueAt)}.`,
+    `/admin/escalations?question=${question.id}`, { questionId: question.id });
+
+  return updated!;
+}
+
+function slaText(dueAt: Date | null): string {
+  return dueAt ? `by ${new Date(dueAt).toUTCString()}` : 'without a deadline';
+}
+
+/**
+ * The assistant answer being escalated: the given message, or the latest
+ * answer in the thread
+ */
+async function findAiAnswer(threadId: number, messageId?: number): Promise<string | null> {
+  const messages = await storage.getChatMessagesByThreadId(threadId);
+  const answers = messages.filter(message => message.role === 'assistant');
+  const answer = messageId !== undefined
+    ? answers.find(message => message.id === messageId)
+    : answers[answers.length - 1];
+  return answer ? answer.content : null;
+}
+
+/**
+ * Record a new escalated question and, when enabled, assign it in turn.
+ * Follow-ups go to the reviewer who answered the original question.
+ */
+export async function createEscalation(input: {
+  userId: number;
+  question: string;
+  context?: string;
+  domainId?: number | null;
+  urgency?: string;
+  threadId?: number;
+  messageId?: number;
+  parentId?: number;
+  reviewerId?: number;
+}): Promise<EscalatedQuestion> {
+  let threadId: number | null = null;
+  let aiAnswer: string | null = null;
+  if (input.threadId !== undefined) {
+    const thread = await storage.getChatThread(input.threadId);
+    if (!thread || thread.userId !== input.userId) {
+      throw new EscalationError('Chat thread not found', 404);
+    }
+    threadId = thread.id;
+    // A follow-up asks about the reviewer's answer, not the assistant's
+    aiAnswer = input.parentId === undefined ? await findAiAnswer(thread.id, input.messageId) : null;
+  }
+
+  const urgency = isEscalationUrgency(input.urgency) ? input.urgency : 'normal';
+  const now = new Date();
+  const question = await storage.createEscalatedQuestion({
+    userId: input.userId,
+    question: input.question,
+    context: input.context || '',
+    domainId: input.domainId,
+    status: 'pending',
+    urgency,
+    dueAt: slaDeadline(urgency, now),
+    threadId,
+    aiAnswer,
+    parentId: input.parentId,
+    updatedAt: now,
+  });
+
+  if (input.reviewerId !== undefined) {
+    try {
+      return await assignQuestion(question, input.reviewerId);
+    } catch (error) {
+      if (!(error instanceof EscalationError)) throw error;
+      // The reviewer lost the permission; fall back to the usual assignment
+    }
+  }
+
+  if (!config.ESCALATION_AUTO_ASSIGN) {
+    return question;
+  }
+  try {
+    return await assignQuestion(question);
+  } catch (error) {
+    if (error instanceof EscalationError) {
+      logger.warn(`[escalations] Question ${question.id} left unassigned: ${error.message}`);
+      return question;
+    }
+    throw error;
+  }
+}
+
+/**
+ * What the reviewer starts from: their saved draft or the assistant's answer,
+ * and the end of the chat the question came from
+ */
+export async function buildDraft(question: EscalatedQuestion): Promise<{
+  draft: string;
+  aiAnswer: string | null;
+  chatContext: Pick<ChatMessage, 'id' | 'role' | 'content' | 'timestamp'>[];
+  parent: EscalatedQuestion | null;
+}> {
+  const messages = question.threadId ? await storage.getChatMessagesByThreadId(question.threadId) : [];
+  const parent = question.parentId ? (await storage.getEscalatedQuestion(question.parentId)) || null : null;
+  return {
+    draft: question.draftAnswer ?? question.aiAnswer ?? '',
+    aiAnswer: question.aiAnswer,
+    chatContext: messages.slice(-CHAT_CONTEXT_MESSAGES).map(({ id, role, content, timestamp }) => ({ id, role, content, timestamp })),
+    parent,
+  };
+}
+
+function buildAnsweredEmail(name: string, question: EscalatedQuestion): { subject: string; text: string; html: string } {
+  const url = `${config.APP_URL}/my-questions?question=${question.id}`;
+  const subject = 'A lawyer has answered your question';
+  const intro = `A reviewing lawyer has answered your question "${excerpt(question.question, 120)}".`;
+  const action = 'Open it to read the answer, accept it or ask a follow-up question:';
+  return {
+    subject,
+    text: [`Hello ${name},`, '', intro, '', action, url].join('\n'),
+    html: `<p>Hello ${escapeHtml(name)},</p>
+<p>${escapeHtml(intro)}</p>
+<p>${escapeHtml(action)} <a href="${escapeHtml(url)}">${escapeHtml(url)}</a></p>`,
+  };
+}
+
+/**
+ * Publish a reviewer's answer and tell the user it is ready
+ */
+export async function answerQuestion(question: EscalatedQuestion, reviewerId: number, answer: string): Promise<EscalatedQuestion> {
+  if (OPEN_STATUSES.indexOf(question.status) === -1) {
+    throw new EscalationError(`Question is already ${question.status}`, 409);
+  }
+
+  const now = new Date();
+  const updated = await storage.updateEscalatedQuestion(question.id, {
+    answer,
+    draftAnswer: null,
+    status: 'answered',
+    assignedTo: question.assignedTo || String(reviewerId),
+    answeredBy: reviewerId,
+    answeredAt: now,
+    updatedAt: now,
+    resolvedAt: now,
+  });
+
+  await notify(question.userId, 'escalation_answered', 'Your question has been answered',
+    `A reviewing lawyer answered "${excerpt(question.question)}". Accept the answer or ask a follow-up.`,
+    `/my-questions?question=${question.id}`, { questionId: question.id });
+
+  const user = question.userId ? await storage.getUser(question.userId) : undefined;
+  if (user?.email) {
+    try {
+      await sendEmail({ to: user.email, ...buildAnsweredEmail(user.fullName || user.username, question) });
+    } catch (error) {
+      logger.error(`[escalations] Answer email for question ${question.id} failed: ${(error as Error).message}`);
+    }
+  }
+
+  return updated!;
+}
+
+/**
+ * The user accepts an answer, closing the question
+ */
+export async function acceptAnswer(question: EscalatedQuestion): Promise<EscalatedQuestion> {
+  if (question.status !== 'answered') {
+    throw new EscalationError('Only answered questions can be accepted', 409);
+  }
+
+  const updated = await storage.updateEscalatedQuestion(question.id, {
+    status: 'closed',
+    userResponse: 'accepted',
+    updatedAt: new Date(),
+  });
+
+  await notify(question.answeredBy, 'escalation_accepted', 'Your answer was accepted',
+    `The user accepted your answer to "${excerpt(question.question)}".`,
+    `/admin/escalations?question=${question.id}`, { questionId: question.id });
+
+  return updated!;
+}
+
+/**
+ * The user asks a follow-up, which closes the question and opens a new one
+ * for the reviewer who answered it
+ */
+export async function askFollowUp(question: EscalatedQuestion, followUp: string): Promise<EscalatedQuestion> {
+  if (question.status !== 'answered') {
+    throw new EscalationError('Follow-ups can only be asked on answered questions', 409);
+  }
+
+  // Create the follow-up first, so a failure leaves the original question open
+  const created = await createEscalation({
+    userId: question.userId!,
+    question: followUp,
+    context: `Follow-up to question #${question.id}.\n\nOriginal question:\n${question.question}\n\nAnswer given:\n${question.answer || ''}`,
+    domainId: question.domainId,
+    urgency: question.urgency,
+    threadId: question.threadId ?? undefined,
+    parentId: question.id,
+    reviewerId: question.answeredBy ?? undefined,
+  });
+
+  await storage.updateEscalatedQuestion(question.id, {
+    status: 'closed',
+    userResponse: 'follow_up',
+    updatedAt: new Date(),
+  });
+
+  return created;
+}
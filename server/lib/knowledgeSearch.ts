@@ -0,0 +1,243 @@
+/**
+ * Knowledge Search Service
+ *
+ * This module runs ranked Postgres full-text search across the domain
+ * knowledge, provincial information and procedural guide tables and returns
+ * a single paginated result list. Rows are matched against the search
+ * documents defined in shared/schema.ts, which are indexed with the legal_en
+ * and legal_fr text search configurations. Both configurations fold accents,
+ * so "resiliation" finds "résiliation" and "Quebec" finds "Québec".
+ */
+
+import { db } from '../db';
+import {
+  domainKnowledgeSearchDocument,
+  provincialInfoSearchDocument,
+  proceduralGuideSearchDocument
+} from '@shared/schema';
+import { sql, type SQL } from 'drizzle-orm';
+
+export type KnowledgeResultType = 'knowledge' | 'provincial' | 'guide';
+
+export const KNOWLEDGE_RESULT_TYPES: KnowledgeResultType[] = ['knowledge', 'provincial', 'guide'];
+
+export type KnowledgeSearchLanguage = 'en' | 'fr';
+
+// Text search configurations created by the database migration
+export const SEARCH_CONFIGS: Record<KnowledgeSearchLanguage, string> = {
+  en: 'legal_en',
+  fr: 'legal_fr',
+};
+
+export const MAX_PAGE_SIZE = 50;
+
+export interface KnowledgeSearchOptions {
+  query: string;
+  language?: KnowledgeSearchLanguage;
+  domainId?: number;
+  jurisdictions?: string[]; // Matches jurisdiction, or province for provincial information
+  tags?: string[]; // Only domain knowledge has tags, so other types are excluded when set
+  types?: KnowledgeResultType[];
+  page?: number;
+  pageSize?: number;
+}
+
+export interface KnowledgeSearchResult {
+  type: KnowledgeResultType;
+  id: number;
+  domainId: number | null;
+  title: string;
+  snippet: string; // HTML-escaped, with matched terms wrapped in <mark>
+  jurisdiction: string | null;
+  tags: string[];
+  rank: number;
+}
+
+export interface KnowledgeSearchResponse {
+  query: string;
+  language: KnowledgeSearchLanguage;
+  results: KnowledgeSearchResult[];
+  counts: Record<KnowledgeResultType, number>;
+  pagination: {
+    page: number;
+    pageSize: number;
+    total: number;
+    totalPages: number;
+  };
+}
+
+// ts_headline wraps matches in these control characters, which are replaced
+// with <mark> once the rest of the snippet has been escaped
+const HIGHLIGHT_START = '\u0002';
+const HIGHLIGHT_STOP = '\u0003';
+const HEADLINE_OPTIONS = `StartSel="${HIGHLIGHT_START}", StopSel="${HIGHLIGHT_STOP}", ` +
+  'MaxWords=35, MinWords=15, MaxFragments=2, FragmentDelimiter=" … "';
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+export function formatSnippet(headline: string): string {
+  return escapeHtml(headline)
+    .split(HIGHLIGHT_START).join('<mark>')
+    .split(HIGHLIGHT_STOP).join('</mark>');
+}
+
+// Jurisdiction and tag filters ignore case and French accents, so "quebec"
+// matches a row stored as "Québec"
+const ACCENTED = 'àâäáãéèêëíîïìóôöòõúûüùçñÿ';
+const UNACCENTED = 'aaaaaeeeeiiiiooooouuuucny';
+
+function foldFilterValue(value: string): string {
+  return value.trim().toLowerCase().split('').map(char => {
+    const index = ACCENTED.indexOf(char);
+    return index === -1 ? char : UNACCENTED[index];
+  }).join('');
+}
+
+function foldColumn(column: SQL): SQL {
+  return sql`translate(lower(${column}), ${ACCENTED}, ${UNACCENTED})`;
+}
+
+function foldAll(values: string[] | undefined): string[] {
+  return (values || []).map(foldFilterValue).filter(Boolean);
+}
+
+/**
+ * One UNION branch per table, each selecting the same columns. The body is
+ * the text that snippets are cut from.
+ */
+function buildMatches(options: KnowledgeSearchOptions, language: KnowledgeSearchLanguage): SQL | null {
+  const jurisdictions = foldAll(options.jurisdictions);
+  const tags = foldAll(options.tags);
+  const types = (options.types && options.types.length > 0 ? options.types : KNOWLEDGE_RESULT_TYPES)
+    .filter(type => tags.length === 0 || type === 'knowledge');
+
+  const filters = (jurisdictionColumn: SQL) => {
+    const conditions: SQL[] = [sql`coalesce(language, 'en') = ${language}`];
+    if (options.domainId) {
+      conditions.push(sql`domain_id = ${options.domainId}`);
+    }
+    if (jurisdictions.length > 0) {
+      conditions.push(sql`${foldColumn(jurisdictionColumn)} = ANY(${sql.param(jurisdictions)}::text[])`);
+    }
+    return sql.join(conditions, sql` AND `);
+  };
+
+  const branches: SQL[] = [];
+
+  if (types.includes('knowledge')) {
+    const tagFilter = tags.length > 0
+      ? sql` AND EXISTS (
+          SELECT 1 FROM jsonb_array_elements_text(CASE WHEN jsonb_typeof(tags) = 'array' THEN tags ELSE '[]'::jsonb END) tag
+          WHERE ${foldColumn(sql.raw('tag'))} = ANY(${sql.param(tags)}::text[])
+        )`
+      : sql``;
+    branches.push(sql`
+      SELECT 'knowledge' AS type, id, domain_id, question AS title, answer AS body,
+        jurisdiction, tags,
+        ts_rank_cd(${domainKnowledgeSearchDocument}, search.query) *
+          (1 + least(greatest(coalesce(relevance_score, 0), 0), 100) / 100.0) AS rank
+      FROM domain_knowledge, search
+      WHERE ${domainKnowledgeSearchDocument} @@ search.query
+        AND ${filters(sql.raw('jurisdiction'))}${tagFilter}
+    `);
+  }
+
+  if (types.includes('provincial')) {
+    branches.push(sql`
+      SELECT 'provincial' AS type, id, domain_id, title, content AS body,
+        province AS jurisdiction, NULL::jsonb AS tags,
+        ts_rank_cd(${provincialInfoSearchDocument}, search.query) AS rank
+      FROM provincial_info, search
+      WHERE ${provincialInfoSearchDocument} @@ search.query
+        AND ${filters(sql.raw('province'))}
+    `);
+  }
+
+  if (types.includes('guide')) {
+    // Steps are searched too, so their text is appended to the description
+    branches.push(sql`
+      SELECT 'guide' AS type, id, domain_id, title,
+        description || ' ' || array_to_string(ARRAY(
+          SELECT step #>> '{}' FROM jsonb_path_query(steps, 'strict $.** ? (@.type() == "string")') step
+        ), ' ') AS body,
+        jurisdiction, NULL::jsonb AS tags,
+        ts_rank_cd(${proceduralGuideSearchDocument}, search.query) AS rank
+      FROM procedural_guides, search
+      WHERE ${proceduralGuideSearchDocument} @@ search.query
+        AND ${filters(sql.raw('jurisdiction'))}
+    `);
+  }
+
+  return branches.length > 0 ? sql.join(branches, sql` UNION ALL `) : null;
+}
+
+/**
+ * Search the knowledge tables. The query accepts web search syntax:
+ * quoted phrases, OR, and -word to exclude a word.
+ */
+export async function searchKnowledge(options: KnowledgeSearchOptions): Promise<KnowledgeSearchResponse> {
+  const language: KnowledgeSearchLanguage = options.language === 'fr' ? 'fr' : 'en';
+  const pageSize = Math.min(Math.max(Math.floor(options.pageSize || 10), 1), MAX_PAGE_SIZE);
+  const page = Math.max(Math.floor(options.page || 1), 1);
+
+  const counts: Record<KnowledgeResultType, number> = { knowledge: 0, provincial: 0, guide: 0 };
+  const response: KnowledgeSearchResponse = {
+    query: options.query,
+    language,
+    results: [],
+    counts,
+    pagination: { page, pageSize, total: 0, totalPages: 0 },
+  };
+
+  const matches = buildMatches(options, language);
+  if (!matches) {
+    return response;
+  }
+
+  const search = sql`search AS (SELECT websearch_to_tsquery(${SEARCH_CONFIGS[language]}::regconfig, ${options.query}) AS query)`;
+
+  const [countRows, pageRows] = await Promise.all([
+    db.execute(sql`
+      WITH ${search}, matches AS (${matches})
+      SELECT type, count(*)::int AS count FROM matches GROUP BY type
+    `),
+    db.execute(sql`
+      WITH ${search}, matches AS (${matches})
+      SELECT page.type, page.id, page.domain_id, page.title, page.jurisdiction, page.tags, page.rank,
+        ts_headline(${SEARCH_CONFIGS[language]}::regconfig, coalesce(page.body, ''), search.query, ${HEADLINE_OPTIONS}) AS headline
+      FROM (
+        SELECT * FROM matches
+        ORDER BY rank DESC, type, id
+        LIMIT ${pageSize} OFFSET ${(page - 1) * pageSize}
+      ) page, search
+      ORDER BY page.rank DESC, page.type, page.id
+    `),
+  ]);
+
+  countRows.forEach((row: any) => {
+    counts[row.type as KnowledgeResultType] = Number(row.count);
+  });
+
+  const total = counts.knowledge + counts.provincial + counts.guide;
+  response.pagination.total = total;
+  response.pagination.totalPages = Math.ceil(total / pageSize);
+  response.results = pageRows.map((row: any) => ({
+    type: row.type,
+    id: row.id,
+    domainId: row.domain_id,
+    title: row.title,
+    snippet: formatSnippet(row.headline || ''),
+    jurisdiction: row.jurisdiction,
+    tags: Array.isArray(row.tags) ? row.tags.filter((tag: unknown) => typeof tag === 'string') : [],
+    rank: Number(row.rank),
+  }));
+
+  return response;
+}
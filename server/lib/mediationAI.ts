@@ -317,6 +317,118 @@ export async function generateMediatorResponse(
   }
 }
 
+/**
+ * Convert stored mediation messages into alternating user/assistant turns.
+ * Party and human-mediator messages become user turns (mediator turns are
+ * labelled so the model can tell them apart), consecutive turns with the same
+ * role are merged, and leading assistant turns such as the welcome message are
+ * folded into the system context by dropping them.
+ */
+function toChatTurns(conversationHistory: MediatorMessage[]): { role: 'user' | 'assistant'; content: string }[] {
+  const turns: { role: 'user' | 'assistant'; content: string }[] = [];
+
+  for (const msg of conversationHistory) {
+    const role = msg.role === 'ai' ? 'assistant' : 'user';
+    const content = msg.role === 'mediator' ? `[Mediator]: ${msg.content}` : msg.content;
+
+    if (turns.length === 0 && role === 'assistant') {
+      continue;
+    }
+
+    const last = turns[turns.length - 1];
+    if (last && last.role === role) {
+      last.content += `\n\n${content}`;
+    } else {
+      turns.push({ role, content });
+    }
+  }
+
+  return turns;
+}
+
+/**
+ * Stream an AI mediator response, invoking onDelta for each text fragment as
+ * it arrives. Resolves with the complete response text. When neither provider
+ * can stream, the canned fallback reply is emitted as a single fragment.
+ */
+export async function streamMediatorResponse(
+  config: MediatorConfig,
+  conversationHistory: MediatorMessage[],
+  onDelta: (text: string) => void
+): Promise<string> {
+  const systemPrompt = generateSystemPrompt(config);
+  const turns = toChatTurns(conversationHistory);
+  let response = '';
+
+  const emit = (text: string) => {
+    if (!text) return;
+    response += text;
+    onDelta(text);
+  };
+
+  // Try with Anthropic first
+  if (process.env.ANTHROPIC_API_KEY && turns.length > 0) {
+    try {
+      const stream = await anthropic.messages.stream({
+        model: 'claude-3-7-sonnet-20250219',
+        max_tokens: 1000,
+        system: systemPrompt,
+        messages: turns,
+      });
+
+      for await (const event of stream) {
+        if (event.type === 'content_block_delta' && event.delta) {
+          const delta = event.delta as { text?: string };
+          emit(delta.text || '');
+        }
+      }
+
+      if (response) {
+        return response;
+      }
+    } catch (error) {
+      console.error('Anthropic streaming error:', error);
+      // Only fall back if nothing reached the room yet, otherwise the
+      // participants would see two different replies spliced together
+      if (response) {
+        return response;
+      }
+    }
+  }
+
+  // Fall back to OpenAI
+  if (process.env.OPENAI_API_KEY) {
+    try {
+      const stream = await openai.chat.completions.create({
+        model: 'gpt-4o',
+        messages: [
+          { role: 'system', content: systemPrompt },
+          ...turns
+        ],
+        max_tokens: 1000,
+        stream: true,
+      });
+
+      for await (const chunk of stream) {
+        emit(chunk.choices[0]?.delta?.content || '');
+      }
+
+      if (response) {
+        return response;
+      }
+    } catch (error) {
+      console.error('OpenAI streaming error:', error);
+      if (response) {
+        return response;
+      }
+    }
+  }
+
+  // Fallback if both APIs fail
+  emit("I understand the points you've raised. Let's try to identify some common ground and potential solutions that could work for both parties. Could you share what you believe would be a fair resolution to this dispute?");
+  return response;
+}
+
 /**
  * Generate a summary of the mediation session
  */
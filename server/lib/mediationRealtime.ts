@@ -0,0 +1,357 @@
+/**
+ * Mediation Realtime Channel
+ *
+ * This module runs the WebSocket endpoint used by live mediation sessions.
+ * Every mediation session gets a room keyed by its sessionCode; participants
+ * who join a room receive new messages, typing indicators, read receipts and
+ * AI mediator replies as they are streamed from the model.
+ *
+ * Connections are authenticated with the same express-session cookie as the
+ * REST API, and joining a room requires access to the underlying dispute.
+ */
+
+import type { IncomingMessage, Server } from 'http';
+import type { Duplex } from 'stream';
+import type { Request, RequestHandler, Response } from 'express';
+import { randomUUID } from 'crypto';
+import { WebSocketServer, WebSocket } from 'ws';
+import { z } from 'zod';
+import type { Dispute, MediationMessage, MediationSession } from '@shared/schema';
+import { storage } from '../storage';
+import { streamMediatorResponse } from './mediationAI';
+import { logger } from './logger';
+
+export const MEDIATION_WS_PATH = '/ws/mediation';
+
+// Interval for detecting connections that dropped without a close frame
+const HEARTBEAT_INTERVAL_MS = 30000;
+
+// Events pushed from the server to room participants
+export type MediationServerEvent =
+  | { type: 'joined'; sessionCode: string; sessionId: number; participants: number[] }
+  | { type: 'presence'; userId: number; status: 'joined' | 'left'; participants: number[] }
+  | { type: 'message'; message: MediationMessage }
+  | { type: 'typing'; userId: number; isTyping: boolean }
+  | { type: 'read'; userId: number; messageIds: number[] }
+  | { type: 'ai_stream_start'; streamId: string }
+  | { type: 'ai_stream_delta'; streamId: string; delta: string }
+  | { type: 'ai_stream_end'; streamId: string; message: MediationMessage }
+  | { type: 'error'; message: string };
+
+// Events accepted from clients
+const clientEventSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('join'), sessionCode: z.string().min(1) }),
+  z.object({ type: z.literal('leave') }),
+  z.object({ type: z.literal('typing'), isTyping: z.boolean() }),
+  z.object({ type: z.literal('read'), messageIds: z.array(z.number().int().positive()).max(500) }),
+]);
+
+interface RoomClient {
+  socket: WebSocket;
+  userId: number;
+  room?: { sessionCode: string; sessionId: number };
+  isAlive: boolean;
+}
+
+// Active rooms keyed by sessionCode
+const rooms = new Map<string, Set<RoomClient>>();
+
+/**
+ * Check whether a user may take part in a mediation session: the dispute
+ * owner, the assigned mediator, or a registered party to the dispute.
+ */
+export async function canAccessMediationSession(
+  userId: number,
+  session: MediationSession
+): Promise<boolean> {
+  if (!session.disputeId) {
+    return false;
+  }
+  if (session.mediatorId === userId) {
+    return true;
+  }
+  if (await storage.isDisputeOwner(userId, session.disputeId)) {
+    return true;
+  }
+  return storage.isDisputeParty(userId, session.disputeId);
+}
+
+/**
+ * Send an event to every participant currently connected to a session room.
+ */
+export function broadcastToMediationSession(
+  sessionCode: string,
+  event: MediationServerEvent,
+  except?: RoomClient
+): void {
+  const room = rooms.get(sessionCode);
+  if (!room) return;
+
+  const payload = JSON.stringify(event);
+  room.forEach(client => {
+    if (client !== except && client.socket.readyState === WebSocket.OPEN) {
+      client.socket.send(payload);
+    }
+  });
+}
+
+/**
+ * Generate the AI mediator's reply to the latest message, streaming it into
+ * the session room as it is produced and persisting it once complete.
+ */
+export async function relayMediatorResponse(
+  session: MediationSession,
+  dispute: Dispute
+): Promise<MediationMessage> {
+  const streamId = randomUUID();
+  const history = await storage.getMediationMessagesBySessionId(session.id);
+
+  broadcastToMediationSession(session.sessionCode, { type: 'ai_stream_start', streamId });
+
+  let content: string;
+  try {
+    content = await streamMediatorResponse(
+      {
+        disputeType: dispute.disputeType || 'general',
+        disputeDescription: dispute.description || dispute.title,
+        parties: [dispute.parties],
+        legalJurisdiction: 'Canada',
+        language: 'English',
+        mediationStyle: 'facilitative',
+        requiresConfidentiality: true
+      },
+      history,
+      delta => broadcastToMediationSession(session.sessionCode, {
+        type: 'ai_stream_delta',
+        streamId,
+        delta
+      })
+    );
+  } catch (error) {
+    logger.error('[mediation-ws] AI mediator streaming failed:', error);
+    content = "I'm processing your message. Let's continue our discussion to find a resolution.";
+  }
+
+  const message = await storage.createMediationMessage({
+    sessionId: session.id,
+    userId: undefined, // AI doesn't have a user ID
+    role: 'ai',
+    content
+  });
+
+  broadcastToMediationSession(session.sessionCode, { type: 'ai_stream_end', streamId, message });
+  return message;
+}
+
+function send(client: RoomClient, event: MediationServerEvent): void {
+  if (client.socket.readyState === WebSocket.OPEN) {
+    client.socket.send(JSON.stringify(event));
+  }
+}
+
+function participantsOf(sessionCode: string): number[] {
+  const room = rooms.get(sessionCode);
+  if (!room) return [];
+  return Array.from(new Set(Array.from(room).map(client => client.userId)));
+}
+
+function leaveRoom(client: RoomClient): void {
+  if (!client.room) return;
+
+  const { sessionCode } = client.room;
+  const room = rooms.get(sessionCode);
+  client.room = undefined;
+  if (!room) return;
+
+  room.delete(client);
+  if (room.size === 0) {
+    rooms.delete(sessionCode);
+    return;
+  }
+
+  // Clear any typing indicator left behind and announce the departure
+  broadcastToMediationSession(sessionCode, { type: 'typing', userId: client.userId, isTyping: false });
+  broadcastToMediationSession(sessionCode, {
+    type: 'presence',
+    userId: client.userId,
+    status: 'left',
+    participants: participantsOf(sessionCode)
+  });
+}
+
+async function joinRoom(client: RoomClient, sessionCode: string): Promise<void> {
+  const session = await storage.getMediationSessionByCode(sessionCode);
+  if (!session) {
+    send(client, { type: 'error', message: 'Mediation session not found' });
+    return;
+  }
+
+  if (!(await canAccessMediationSession(client.userId, session))) {
+    send(client, { type: 'error', message: 'Access denied' });
+    return;
+  }
+
+  leaveRoom(client);
+
+  let room = rooms.get(sessionCode);
+  if (!room) {
+    room = new Set();
+    rooms.set(sessionCode, room);
+  }
+  room.add(client);
+  client.room = { sessionCode, sessionId: session.id };
+
+  const participants = participantsOf(sessionCode);
+  send(client, { type: 'joined', sessionCode, sessionId: session.id, participants });
+  broadcastToMediationSession(
+    sessionCode,
+    { type: 'presence', userId: client.userId, status: 'joined', participants },
+    client
+  );
+}
+
+async function handleClientEvent(client: RoomClient, raw: string): Promise<void> {
+  let data: unknown;
+  try {
+    data = JSON.parse(raw);
+  } catch {
+    send(client, { type: 'error', message: 'Invalid message format' });
+    return;
+  }
+
+  const parsed = clientEventSchema.safeParse(data);
+  if (!parsed.success) {
+    send(client, { type: 'error', message: 'Invalid event' });
+    return;
+  }
+
+  const event = parsed.data;
+  if (event.type === 'join') {
+    await joinRoom(client, event.sessionCode);
+    return;
+  }
+  if (event.type === 'leave') {
+    leaveRoom(client);
+    return;
+  }
+
+  if (!client.room) {
+    send(client, { type: 'error', message: 'Join a session first' });
+    return;
+  }
+
+  const { sessionCode, sessionId } = client.room;
+  if (event.type === 'typing') {
+    broadcastToMediationSession(
+      sessionCode,
+      { type: 'typing', userId: client.userId, isTyping: event.isTyping },
+      client
+    );
+    return;
+  }
+
+  // Only broadcast messages that were newly marked, so clients that
+  // re-send receipts for already-read messages don't generate noise
+  const messageIds = await storage.markMediationMessagesRead(sessionId, client.userId, event.messageIds);
+  if (messageIds.length > 0) {
+    broadcastToMediationSession(sessionCode, { type: 'read', userId: client.userId, messageIds });
+  }
+}
+
+/**
+ * Resolve the logged-in user for an upgrade request by running it through
+ * the session middleware and reading the id passport stored in the session.
+ */
+function authenticateUpgrade(
+  req: IncomingMessage,
+  sessionMiddleware: RequestHandler
+): Promise<number | null> {
+  return new Promise(resolve => {
+    const request = req as Request;
+    sessionMiddleware(request, {} as Response, (err?: unknown) => {
+      if (err) {
+        logger.warn('[mediation-ws] Session lookup failed during upgrade:', err);
+        resolve(null);
+        return;
+      }
+      const passportData = (request.session as { passport?: { user?: number } } | undefined)?.passport;
+      resolve(typeof passportData?.user === 'number' ? passportData.user : null);
+    });
+  });
+}
+
+function rejectUpgrade(socket: Duplex, status: string): void {
+  socket.write(`HTTP/1.1 ${status}\r\nConnection: close\r\n\r\n`);
+  socket.destroy();
+}
+
+/**
+ * Attach the mediation WebSocket endpoint to the HTTP server. Upgrade
+ * requests for other paths (such as the Vite HMR socket) are left untouched.
+ */
+export function attachMediationRealtime(server: Server, sessionMiddleware: RequestHandler): WebSocketServer {
+  const wss = new WebSocketServer({ noServer: true });
+  const connections = new Set<RoomClient>();
+
+  server.on('upgrade', async (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+    const { pathname } = new URL(req.url || '/', 'http://localhost');
+    if (pathname !== MEDIATION_WS_PATH) {
+      return;
+    }
+
+    try {
+      const userId = await authenticateUpgrade(req, sessionMiddleware);
+      if (!userId || !(await storage.getUser(userId))) {
+        rejectUpgrade(socket, '401 Unauthorized');
+        return;
+      }
+
+      wss.handleUpgrade(req, socket, head, ws => {
+        wss.emit('connection', ws, req, userId);
+      });
+    } catch (error) {
+      logger.error('[mediation-ws] Upgrade failed:', error);
+      rejectUpgrade(socket, '500 Internal Server Error');
+    }
+  });
+
+  wss.on('connection', (socket: WebSocket, _req: IncomingMessage, userId: number) => {
+    const client: RoomClient = { socket, userId, isAlive: true };
+    connections.add(client);
+
+    socket.on('pong', () => {
+      client.isAlive = true;
+    });
+
+    socket.on('message', data => {
+      handleClientEvent(client, data.toString()).catch(error => {
+        logger.error('[mediation-ws] Error handling client event:', error);
+        send(client, { type: 'error', message: 'Error processing event' });
+      });
+    });
+
+    socket.on('close', () => {
+      connections.delete(client);
+      leaveRoom(client);
+    });
+    socket.on('error', error => {
+      logger.warn('[mediation-ws] Socket error:', error);
+    });
+  });
+
+  const heartbeat = setInterval(() => {
+    connections.forEach(client => {
+      if (!client.isAlive) {
+        client.socket.terminate();
+        return;
+      }
+      client.isAlive = false;
+      client.socket.ping();
+    });
+  }, HEARTBEAT_INTERVAL_MS);
+
+  wss.on('close', () => clearInterval(heartbeat));
+
+  logger.info(`[mediation-ws] Listening for mediation sessions on ${MEDIATION_WS_PATH}`);
+  return wss;
+}
@@ -0,0 +1,144 @@
+/**
+ * Mock DocuSeal Server
+ *
+ * A local stand-in for the parts of the DocuSeal API that docuSealService.ts
+ * calls: HTML templates, submissions and their signed documents. It keeps
+ * everything in memory and records each request, so tests can check what was
+ * sent, and development can point DOCUSEAL_API_URL at it instead of DocuSeal.
+ */
+
+import http from 'http';
+import type { AddressInfo } from 'net';
+import type { DocuSealSubmitter, DocuSealTemplate } from './docuSealService';
+
+export interface MockDocuSealRequest {
+  method: string;
+  path: string;
+  body: any;
+}
+
+export interface MockDocuSealServer {
+  url: string;
+  apiKey: string;
+  templates: (DocuSealTemplate & { html: string })[];
+  submissions: { id: number; templateId: number; submitters: DocuSealSubmitter[]; archivedAt?: string }[];
+  requests: MockDocuSealRequest[];
+  signedPdf: Buffer; // Served as every submission's merged document
+  close(): Promise<void>;
+}
+
+// Smallest PDF the blob storage sniffs as application/pdf
+const SIGNED_PDF = Buffer.from('%PDF-1.4\n1 0 obj << /Type /Catalog >> endobj\ntrailer << /Root 1 0 R >>\n%%EOF\n');
+
+function readJson(req: http.IncomingMessage): Promise<any> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', () => {
+      const text = Buffer.concat(chunks).toString('utf8');
+      try {
+        resolve(text ? JSON.parse(text) : null);
+      } catch (error) {
+        reject(error);
+      }
+    });
+    req.on('error', reject);
+  });
+}
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { 'content-type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+/**
+ * Start the mock on a free local port. Requests must carry the returned
+ * apiKey in X-Auth-Token, like the real API.
+ */
+export async function startMockDocuSealServer(apiKey = 'mock-docuseal-key'): Promise<MockDocuSealServer> {
+  const state: Omit<MockDocuSealServer, 'url' | 'close'> = {
+    apiKey,
+    templates: [],
+    submissions: [],
+    requests: [],
+    signedPdf: SIGNED_PDF,
+  };
+  let nextSubmitterId = 100;
+
+  const server = http.createServer(async (req, res) => {
+    try {
+      const url = new URL(req.url || '/', 'http://localhost');
+      const body = req.method === 'POST' ? await readJson(req) : null;
+      state.requests.push({ method: req.method || 'GET', path: url.pathname, body });
+
+      if (req.headers['x-auth-token'] !== apiKey) {
+        return sendJson(res, 401, { error: 'Not authenticated' });
+      }
+
+      if (req.method === 'POST' && url.pathname === '/templates/html') {
+        const template = { id: state.templates.length + 1, name: body.name, external_id: body.external_id ?? null, html: body.html };
+        state.templates.push(template);
+        return sendJson(res, 200, { id: template.id, name: template.name, external_id: template.external_id });
+      }
+
+      if (req.method === 'POST' && url.pathname === '/submissions') {
+        if (!state.templates.some(template => template.id === body.template_id)) {
+          return sendJson(res, 422, { error: 'Template not found' });
+        }
+        const id = state.submissions.length + 1;
+        const submitters: DocuSealSubmitter[] = body.submitters.map((submitter: any) => ({
+          id: nextSubmitterId++,
+          submission_id: id,
+          email: submitter.email,
+          name: submitter.name,
+          role: submitter.role,
+          status: body.send_email === false ? 'awaiting' : 'sent',
+          external_id: submitter.external_id ?? null,
+          completed_at: null,
+        }));
+        state.submissions.push({ id, templateId: body.template_id, submitters });
+        return sendJson(res, 200, submitters);
+      }
+
+      const submissionMatch = url.pathname.match(/^\/submissions\/(\d+)(\/documents)?$/);
+      const submission = submissionMatch && state.submissions.find(item => item.id === Number(submissionMatch[1]));
+      if (req.method === 'DELETE' && submissionMatch && !submissionMatch[2]) {
+        if (!submission) {
+          return sendJson(res, 404, { error: 'Submission not found' });
+        }
+        submission.archivedAt = submission.archivedAt || new Date().toISOString();
+        return sendJson(res, 200, { id: submission.id, archived_at: submission.archivedAt });
+      }
+      if (req.method === 'GET' && submissionMatch) {
+        if (!submission) {
+          return sendJson(res, 404, { error: 'Submission not found' });
+        }
+        if (submissionMatch[2]) {
+          const address = server.address() as AddressInfo;
+          return sendJson(res, 200, {
+            documents: [{ name: `submission-${submission.id}`, url: `http://127.0.0.1:${address.port}/files/${submission.id}.pdf` }],
+          });
+        }
+        const completed = submission.submitters.every(submitter => submitter.status === 'completed');
+        return sendJson(res, 200, { id: submission.id, status: completed ? 'completed' : 'pending', submitters: submission.submitters });
+      }
+
+      if (req.method === 'GET' && /^\/files\/\d+\.pdf$/.test(url.pathname)) {
+        res.writeHead(200, { 'content-type': 'application/pdf', 'content-length': state.signedPdf.length });
+        return res.end(state.signedPdf);
+      }
+
+      sendJson(res, 404, { error: 'Not found' });
+    } catch (error) {
+      sendJson(res, 400, { error: (error as Error).message });
+    }
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return Object.assign(state, {
+    url: `http://127.0.0.1:${port}`,
+    close: () => new Promise<void>((resolve, reject) => server.close(error => error ? reject(error) : resolve())),
+  });
+}
@@ -0,0 +1,178 @@
+/**
+ * Role-Based Permissions
+ *
+ * This module resolves a user's role, from users.role, to the capabilities
+ * stored in that role's roles.permissions column and guards routes with
+ * requirePermission(). A role's permissions are a list of capability names
+ * such as "feedback:respond", or "*" for every capability. Roles created by
+ * the original add-user-roles script stored flags such as
+ * { canManageContent: true }; those are mapped to capabilities when read.
+ *
+ * The admin role always has every capability, so an administrator cannot
+ * lock everyone out by editing roles.
+ */
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { storage } from '../storage';
+
+export const PERMISSIONS = [
+  { name: 'admin:access', description: 'Open the admin dashboard' },
+  { name: 'users:manage', description: 'View users and change their roles' },
+  { name: 'roles:manage', description: 'Create, edit and delete roles' },
+  { name: 'system:manage', description: 'Manage AI services, API keys, caches and backups' },
+  { name: 'templates:publish', description: 'Import, validate and publish document templates' },
+  { name: 'feedback:respond', description: 'Review user feedback and respond to it' },
+  { name: 'escalations:answer', description: 'Review and answer questions escalated to a legal professional' },
+  { name: 'dispute:mediate', description: 'Act as the mediator of dispute mediation sessions' },
+  { name: 'cost_rates:manage', description: 'Edit and publish the rate tables used for cost estimates' },
+] as const;
+
+export type Permission = typeof PERMISSIONS[number]['name'];
+
+export const ALL_PERMISSIONS = '*';
+
+const PERMISSION_NAMES: string[] = PERMISSIONS.map(permission => permission.name);
+
+// Capabilities granted by the flags of the original roles table
+const LEGACY_FLAGS: Record<string, Permission[]> = {
+  canAccessAdminPanel: ['admin:access'],
+  canManageUsers: ['users:manage', 'roles:manage'],
+  canManageSystem: ['system:manage', 'cost_rates:manage'],
+  canManageContent: ['templates:publish', 'feedback:respond', 'escalations:answer'],
+};
+
+/**
+ * Roles created by the database migration when they do not exist yet
+ */
+export const DEFAULT_ROLES: { name: string; description: string; permissions: string[] }[] = [
+  {
+    name: 'admin',
+    description: 'System administrator with full access',
+    permissions: [ALL_PERMISSIONS]
+  },
+  {
+    name: 'reviewing_lawyer',
+    description: 'Lawyer who answers escalated questions, mediates disputes and publishes templates',
+    permissions: ['escalations:answer', 'dispute:mediate', 'templates:publish', 'feedback:respond']
+  },
+  {
+    name: 'paralegal',
+    description: 'Paralegal who prepares templates and handles user feedback',
+    permissions: ['templates:publish', 'feedback:respond']
+  },
+  {
+    name: 'moderator',
+    description: 'Content moderator with limited administrative access',
+    permissions: ['admin:access', 'templates:publish', 'feedback:respond', 'escalations:answer']
+  },
+  {
+    name: 'user',
+    description: 'Standard user with basic access',
+    permissions: []
+  },
+];
+
+/** Roles that cannot be deleted or renamed */
+export const BUILT_IN_ROLES = ['admin', 'user'];
+
+export function isPermission(value: string): value is Permission {
+  return PERMISSION_NAMES.indexOf(value) !== -1;
+}
+
+/**
+ * Read a roles.permissions value in either the list or the legacy flag
+ * format. Unknown names are dropped.
+ */
+export function normalizeRolePermissions(value: unknown): string[] {
+  if (Array.isArray(value)) {
+    return value.filter((name): name is string =>
+      typeof name === 'string' && (name === ALL_PERMISSIONS || isPermission(name))
+    );
+  }
+
+  if (value && typeof value === 'object') {
+    const granted: string[] = [];
+    Object.keys(value).forEach(flag => {
+      if ((value as Record<string, unknown>)[flag] === true) {
+        (LEGACY_FLAGS[flag] || (isPermission(flag) ? [flag] : [])).forEach(name => {
+          if (granted.indexOf(name) === -1) granted.push(name);
+        });
+      }
+    });
+    return granted;
+  }
+
+  return [];
+}
+
+// Role permissions change rarely, so they are cached briefly instead of
+// being read on every request
+const CACHE_TTL_MS = 60 * 1000;
+const roleCache = new Map<string, { permissions: string[]; expiresAt: number }>();
+
+export function invalidateRolePermissions(roleName?: string) {
+  if (roleName) {
+    roleCache.delete(roleName);
+  } else {
+    roleCache.clear();
+  }
+}
+
+/**
+ * Capabilities granted to a role, with "*" expanded to every capability
+ */
+export async function getRolePermissions(roleName: string): Promise<Permission[]> {
+  if (roleName === 'admin') {
+    return PERMISSION_NAMES as Permission[];
+  }
+
+  const cached = roleCache.get(roleName);
+  let permissions: string[];
+  if (cached && cached.expiresAt > Date.now()) {
+    permissions = cached.permissions;
+  } else {
+    const role = await storage.getRoleByName(roleName);
+    permissions = role ? normalizeRolePermissions(role.permissions) : [];
+    roleCache.set(roleName, { permissions, expiresAt: Date.now() + CACHE_TTL_MS });
+  }
+
+  return (permissions.indexOf(ALL_PERMISSIONS) !== -1 ? PERMISSION_NAMES : permissions) as Permission[];
+}
+
+export async function hasPermission(user: { role: string } | undefined, permission: Permission): Promise<boolean> {
+  if (!user) return false;
+  const permissions = await getRolePermissions(user.role);
+  return permissions.indexOf(permission) !== -1;
+}
+
+/**
+ * Whether a user holds every permission in a list, with "*" standing for all
+ * of them. Users can only grant what they already hold, so a role manager
+ * cannot raise their own role or hand out admin.
+ */
+export async function holdsAllPermissions(user: { role: string }, permissions: string[]): Promise<boolean> {
+  const granted = await getRolePermissions(user.role);
+  const required = permissions.indexOf(ALL_PERMISSIONS) !== -1 ? PERMISSION_NAMES : permissions;
+  return required.every(permission => granted.indexOf(permission as Permission) !== -1);
+}
+
+/**
+ * Middleware that lets a request through when the signed-in user's role has
+ * any of the given permissions
+ */
+export function requirePermission(...permissions: Permission[]): RequestHandler {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.isAuthenticated() || !req.user) {
+      return res.status(401).json({ message: "Authentication required" });
+    }
+
+    try {
+      const granted = await getRolePermissions(req.user.role);
+      if (permissions.some(permission => granted.indexOf(permission) !== -1)) {
+        return next();
+      }
+      res.status(403).json({ message: `Permission required: ${permissions.join(' or ')}` });
+    } catch (error) {
+      next(error);
+    }
+  };
+}
@@ -0,0 +1,414 @@
+/**
+ * Procedure Timeline
+ *
+ * Builds a dated timeline for a court procedure from its stored steps. Each
+ * step's duration comes from the procedure's estimatedTimeframes entry for the
+ * step, or else from the step's own estimatedTime text ("2-4 weeks",
+ * "20-30 days"). Steps run one after another: the earliest dates assume every
+ * step takes its minimum time and the latest dates its maximum. Dates follow
+ * the court calendar of the chosen province or territory (see courtCalendar).
+ *
+ * A timeline can be attached to a user's procedure as reminders, one per step,
+ * which the reminder dispatcher sends like any other. Attaching again updates
+ * the open reminders from the previous timeline in place.
+ */
+
+import { z } from 'zod';
+import { db } from '../db';
+import {
+  courtProcedures,
+  courtProcedureSteps,
+  userCourtProcedures,
+  type CourtProcedure,
+  type CourtProcedureStep
+} from '@shared/schema';
+import {
+  userProcedureReminders,
+  REMINDER_NOTIFY_METHODS,
+  type UserProcedureReminder
+} from '@shared/schema-procedure-extensions';
+import { and, eq, inArray } from 'drizzle-orm';
+import {
+  addPeriod,
+  COURT_JURISDICTIONS,
+  COURT_JURISDICTION_CODES,
+  getCourtHolidaysBetween,
+  resolveJurisdiction,
+  toCalendarDay,
+  toDateKey,
+  type CourtHoliday,
+  type CourtJurisdiction,
+  type Period,
+  type PeriodUnit
+} from './courtCalendar';
+
+export class TimelineError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'TimelineError';
+  }
+}
+
+const booleanParam = z.union([z.boolean(), z.enum(['true', 'false']).transform(value => value === 'true')]);
+
+export const timelineOptionsSchema = z.object({
+  jurisdiction: z.enum(COURT_JURISDICTION_CODES).optional(), // Defaults to the procedure's jurisdiction
+  startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Use YYYY-MM-DD').optional(), // Defaults to today
+  includeOptional: booleanParam.default(false),
+});
+
+export const attachTimelineSchema = timelineOptionsSchema.extend({
+  notifyBefore: z.number().int().min(0).max(30).default(2), // Days
+  notifyMethod: z.enum(REMINDER_NOTIFY_METHODS).default('app'),
+});
+
+export type TimelineOptions = z.infer<typeof timelineOptionsSchema>;
+
+export interface DurationRange {
+  min: Period;
+  max: Period;
+}
+
+export type DurationSource = 'timeframes' | 'step' | 'none';
+
+export interface DateAdjustment {
+  date: string;
+  movedFrom: string;
+  reason: string;
+}
+
+export interface TimelineStep {
+  stepId: number;
+  stepOrder: number;
+  title: string;
+  isOptional: boolean;
+  estimatedTime: string | null; // The text the duration was read from
+  durationSource: DurationSource;
+  duration: DurationRange | null;
+  earliestStart: string;
+  latestStart: string;
+  earliestEnd: string;
+  latestEnd: string;
+  adjustments: DateAdjustment[]; // End dates moved off weekends and holidays
+}
+
+export interface ProcedureTimeline {
+  procedureId: number;
+  procedureName: string;
+  jurisdiction: CourtJurisdiction;
+  jurisdictionName: string;
+  startDate: string;
+  includeOptional: boolean;
+  earliestCompletion: string;
+  latestCompletion: string;
+  statedTotal: string | null; // The procedure's own overall estimate, for comparison
+  steps: TimelineStep[];
+  holidays: CourtHoliday[]; // Court holidays between the start and the latest completion
+  warnings: string[];
+}
+
+const UNIT_PATTERN = 'court days?|business days?|minutes?|mins?|hours?|hrs?|days?|weeks?|months?|years?';
+const DURATION_PATTERN = new RegExp(`(\\d+)(?:\\s*(?:-|–|to)\\s*(\\d+))?\\s*(${UNIT_PATTERN})\\b`, 'i');
+
+function toUnit(text: string): PeriodUnit | 'hour' {
+  const unit = text.toLowerCase();
+  if (unit.startsWith('court') || unit.startsWith('business')) return 'court_day';
+  if (unit.startsWith('min') || unit.startsWith('h')) return 'hour';
+  if (unit.startsWith('day')) return 'day';
+  if (unit.startsWith('week')) return 'week';
+  if (unit.startsWith('month')) return 'month';
+  return 'year';
+}
+
+/**
+ * Read a duration range from text such as "2-4 weeks", "30 days" or
+ * "4-6 months (uncontested), 1-2 years (contested)". The first range given
+ * is used. Steps measured in minutes or hours finish by the next court day.
+ */
+export function parseDuration(text: string | null | undefined): DurationRange | null {
+  if (!text) return null;
+  const match = text.match(DURATION_PATTERN);
+  if (!match) return null;
+
+  const first = parseInt(match[1], 10);
+  const second = match[2] ? parseInt(match[2], 10) : first;
+  const unit = toUnit(match[3]);
+  if (unit === 'hour') {
+    return { min: { amount: 0, unit: 'court_day' }, max: { amount: 1, unit: 'court_day' } };
+  }
+  // "Immediate to 3 weeks" starts from nothing
+  const min = /immediate/i.test(text.substring(0, match.index)) ? 0 : Math.min(first, second);
+  return { min: { amount: min, unit }, max: { amount: Math.max(first, second), unit } };
+}
+
+// Older rows store the JSON as a string inside the jsonb column
+function readJson(value: unknown): unknown {
+  if (typeof value !== 'string') return value;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+}
+
+interface StepTimeframe {
+  text: string;
+  duration: DurationRange | null;
+}
+
+/**
+ * Per-step durations from estimatedTimeframes entries shaped
+ * { stepId, minDuration, maxDuration }. Phase summaries without a step are
+ * not tied to steps and are ignored.
+ */
+function readStepTimeframes(procedure: CourtProcedure): Map<number, StepTimeframe> {
+  const timeframes = new Map<number, StepTimeframe>();
+  const value = readJson(procedure.estimatedTimeframes);
+  if (!Array.isArray(value)) return timeframes;
+
+  for (const entry of value) {
+    if (!entry || typeof entry !== 'object' || typeof entry.stepId !== 'number') continue;
+    const min = parseDuration(String(entry.minDuration ?? ''));
+    const max = parseDuration(String(entry.maxDuration ?? entry.minDuration ?? ''));
+    timeframes.set(entry.stepId, {
+      text: [entry.minDuration, entry.maxDuration].filter(Boolean).join(' - '),
+      duration: min && max ? { min: min.min, max: max.max } : null,
+    });
+  }
+  return timeframes;
+}
+
+function readStatedTotal(procedure: CourtProcedure): string | null {
+  const value = readJson(procedure.estimatedTimeframes);
+  if (value && typeof value === 'object' && !Array.isArray(value) && 'total' in value) {
+    return String((value as { total: unknown }).total);
+  }
+  return null;
+}
+
+function endOf(start: string, period: Period, jurisdiction: CourtJurisdiction, adjustments: DateAdjustment[]): string {
+  const end = addPeriod(toCalendarDay(start), period, jurisdiction);
+  if (end.movedFrom && !adjustments.some(item => item.movedFrom === end.movedFrom)) {
+    adjustments.push({ date: end.date, movedFrom: end.movedFrom, reason: end.movedFor || 'Weekend' });
+  }
+  return end.date;
+}
+
+/**
+ * Lay a procedure's steps out on the court calendar
+ */
+export function buildTimeline(
+  procedure: CourtProcedure,
+  steps: CourtProcedureStep[],
+  options: TimelineOptions & { skipStepIds?: number[] }
+): ProcedureTimeline {
+  const jurisdiction = options.jurisdiction || resolveJurisdiction(procedure.jurisdiction);
+  if (!jurisdiction) {
+    throw new TimelineError(`Choose a province or territory for ${procedure.name}`);
+  }
+
+  const startDate = options.startDate || toDateKey(new Date());
+  const timeframes = readStepTimeframes(procedure);
+  const skipped = new Set(options.skipStepIds || []);
+  const warnings: string[] = [];
+
+  let earliest = startDate;
+  let latest = startDate;
+  const timelineSteps: TimelineStep[] = [];
+
+  const included = [...steps]
+    .sort((a, b) => a.stepOrder - b.stepOrder)
+    .filter(step => (options.includeOptional || !step.isOptional) && !skipped.has(step.id));
+
+  for (const step of included) {
+    const timeframe = timeframes.get(step.id);
+    const fromStep = parseDuration(step.estimatedTime);
+    const duration = timeframe?.duration || fromStep;
+    const durationSource: DurationSource = timeframe?.duration ? 'timeframes' : fromStep ? 'step' : 'none';
+    if (!duration) {
+      warnings.push(`"${step.title}" has no usable time estimate, so it adds no time to the timeline`);
+    }
+
+    const adjustments: DateAdjustment[] = [];
+    const earliestEnd = duration ? endOf(earliest, duration.min, jurisdiction, adjustments) : earliest;
+    const latestEnd = duration ? endOf(latest, duration.max, jurisdiction, adjustments) : latest;
+
+    timelineSteps.push({
+      stepId: step.id,
+      stepOrder: step.stepOrder,
+      title: step.title,
+      isOptional: !!step.isOptional,
+      estimatedTime: durationSource === 'timeframes' ? timeframe!.text : step.estimatedTime,
+      durationSource,
+      duration,
+      earliestStart: earliest,
+      latestStart: latest,
+      earliestEnd,
+      latestEnd,
+      adjustments,
+    });
+    earliest = earliestEnd;
+    latest = latestEnd;
+  }
+
+  return {
+    procedureId: procedure.id,
+    procedureName: procedure.name,
+    jurisdiction,
+    jurisdictionName: COURT_JURISDICTIONS[jurisdiction],
+    startDate,
+    includeOptional: options.includeOptional,
+    earliestCompletion: earliest,
+    latestCompletion: latest,
+    statedTotal: readStatedTotal(procedure),
+    steps: timelineSteps,
+    holidays: getCourtHolidaysBetween(jurisdiction, toCalendarDay(startDate), toCalendarDay(latest)),
+    warnings,
+  };
+}
+
+async function loadProcedure(procedureId: number): Promise<{ procedure: CourtProcedure; steps: CourtProcedureStep[] }> {
+  const [procedure] = await db
+    .select()
+    .from(courtProcedures)
+    .where(eq(courtProcedures.id, procedureId));
+  if (!procedure) {
+    throw new TimelineError('Procedure not found', 404);
+  }
+
+  const steps = await db
+    .select()
+    .from(courtProcedureSteps)
+    .where(eq(courtProcedureSteps.procedureId, procedureId))
+    .orderBy(courtProcedureSteps.stepOrder);
+  if (steps.length === 0) {
+    throw new TimelineError('This procedure has no steps to build a timeline from', 422);
+  }
+  return { procedure, steps };
+}
+
+export async function estimateProcedureTimeline(procedureId: number, options: TimelineOptions): Promise<ProcedureTimeline> {
+  const { procedure, steps } = await loadProcedure(procedureId);
+  return buildTimeline(procedure, steps, options);
+}
+
+// Midday UTC, so the date reads the same in every Canadian time zone
+function toReminderDate(date: string): Date {
+  return new Date(`${date}T12:00:00Z`);
+}
+
+function formatDate(date: string): string {
+  return toReminderDate(date).toLocaleDateString('en-CA', { year: 'numeric', month: 'long', day: 'numeric', timeZone: 'UTC' });
+}
+
+function readCompletedStepIds(value: unknown): number[] {
+  const completed = readJson(value);
+  return Array.isArray(completed) ? completed.filter((id): id is number => typeof id === 'number') : [];
+}
+
+/**
+ * Build the timeline for a user's procedure from where they are now and store
+ * it as reminders, one per remaining step, due on the step's earliest
+ * completion date. Completed steps are left out.
+ */
+export async function attachTimelineReminders(
+  userProcedureId: number,
+  options: z.infer<typeof attachTimelineSchema>
+): Promise<{ timeline: ProcedureTimeline; reminders: UserProcedureReminder[] }> {
+  const [userProcedure] = await db
+    .select()
+    .from(userCourtProcedures)
+    .where(eq(userCourtProcedures.id, userProcedureId));
+  if (!userProcedure) {
+    throw new TimelineError('User procedure not found', 404);
+  }
+  if (!userProcedure.procedureId) {
+    throw new TimelineError('This procedure is not linked to court procedure steps');
+  }
+
+  const { procedure, steps } = await loadProcedure(userProcedure.procedureId);
+  const timeline = buildTimeline(procedure, steps, {
+    ...options,
+    skipStepIds: readCompletedStepIds(userProcedure.completedSteps),
+  });
+
+  const today = toDateKey(new Date());
+  const values = timeline.steps
+    .filter(step => step.earliestEnd >= today)
+    .map(step => ({
+      userProcedureId,
+      stepId: step.stepId,
+      title: step.title.substring(0, 255),
+      description: step.durationSource === 'none'
+        ? `No time estimate is available for this step. It follows the previous step in ${timeline.procedureName}.`
+        : `Expected between ${formatDate(step.earliestEnd)} and ${formatDate(step.latestEnd)} (${step.estimatedTime}), ` +
+          `counted on the ${timeline.jurisdictionName} court calendar.`,
+      dueDate: toReminderDate(step.earliestEnd),
+      notifyBefore: options.notifyBefore,
+      notifyMethod: options.notifyMethod,
+      source: 'timeline',
+    }));
+
+  const reminders = await db.transaction(async (tx) => {
+    // Reminders from an earlier timeline are updated in place, keyed by step,
+    // so their delivery history is kept and unchanged occurrences are not sent
+    // again. Completed reminders stay as a record of what was done.
+    const existing = await tx
+      .select()
+      .from(userProcedureReminders)
+      .where(
+        and(
+          eq(userProcedureReminders.userProcedureId, userProcedureId),
+          eq(userProcedureReminders.source, 'timeline')
+        )
+      );
+    const existingByStep = new Map(existing.map(reminder => [reminder.stepId, reminder]));
+
+    const kept: UserProcedureReminder[] = [];
+    const toInsert: typeof values = [];
+    for (const value of values) {
+      const current = existingByStep.get(value.stepId);
+      existingByStep.delete(value.stepId);
+      if (!current) {
+        toInsert.push(value);
+      } else if (!current.isCompleted) {
+        const [updated] = await tx
+          .update(userProcedureReminders)
+          .set({
+            title: value.title,
+            description: value.description,
+            dueDate: value.dueDate,
+            notifyBefore: value.notifyBefore,
+            notifyMethod: value.notifyMethod,
+            updatedAt: new Date(),
+          })
+          .where(eq(userProcedureReminders.id, current.id))
+          .returning();
+        kept.push(updated);
+      }
+    }
+
+    // Open reminders for steps that are no longer upcoming
+    const staleIds = Array.from(existingByStep.values())
+      .filter(reminder => !reminder.isCompleted)
+      .map(reminder => reminder.id);
+    if (staleIds.length > 0) {
+      await tx.delete(userProcedureReminders).where(inArray(userProcedureReminders.id, staleIds));
+    }
+
+    const inserted = toInsert.length > 0
+      ? await tx.insert(userProcedureReminders).values(toInsert).returning()
+      : [];
+
+    await tx
+      .update(userCourtProcedures)
+      .set({ expectedCompletionDate: toReminderDate(timeline.latestCompletion), lastActivityAt: new Date() })
+      .where(eq(userCourtProcedures.id, userProcedureId));
+
+    // In timeline order
+    const byStep = new Map([...kept, ...inserted].map(reminder => [reminder.stepId, reminder]));
+    return values.flatMap(value => byStep.get(value.stepId) ?? []);
+  });
+
+  return { timeline, reminders };
+}
@@ -0,0 +1,166 @@
+/**
+ * Prompt Normalization and Similarity
+ *
+ * This module provides the text processing behind the semantic tier of the AI
+ * response cache. Prompts are normalized (case, accents, punctuation,
+ * whitespace and Canadian jurisdiction aliases such as "ON" or "Ont." for
+ * Ontario) and compared using character trigram cosine similarity, which is
+ * computed locally without calling an embedding API.
+ *
+ * Similarity alone is not enough for legal questions: "evict in Ontario" and
+ * "evict in Quebec" are textually close but need different answers. Two
+ * prompts are therefore only treated as equivalent when they also mention the
+ * same jurisdictions, the same numbers and the same negations.
+ */
+
+// Aliases resolved after accent folding but before lowercasing. Short codes are
+// matched case-sensitively so that ordinary words ("on", "que") are not
+// mistaken for provinces.
+const JURISDICTION_ALIASES: Array<{ pattern: RegExp; canonical: string }> = [
+  { pattern: /\b(?:ON|Ont\.?)(?=\W|$)/g, canonical: 'ontario' },
+  { pattern: /\b(?:QC|PQ|Que\.)(?=\W|$)/g, canonical: 'quebec' },
+  { pattern: /\b(?:BC|B\.C\.?)(?=\W|$)/g, canonical: 'british columbia' },
+  { pattern: /\bColombie[- ]Britannique\b/gi, canonical: 'british columbia' },
+  { pattern: /\b(?:AB|Alta\.?)(?=\W|$)/g, canonical: 'alberta' },
+  { pattern: /\b(?:MB|Man\.)(?=\W|$)/g, canonical: 'manitoba' },
+  { pattern: /\b(?:SK|Sask\.?)(?=\W|$)/g, canonical: 'saskatchewan' },
+  { pattern: /\b(?:NS|N\.S\.?)(?=\W|$)/g, canonical: 'nova scotia' },
+  { pattern: /\bNouvelle[- ]Ecosse\b/gi, canonical: 'nova scotia' },
+  { pattern: /\b(?:NB|N\.B\.?)(?=\W|$)/g, canonical: 'new brunswick' },
+  { pattern: /\bNouveau[- ]Brunswick\b/gi, canonical: 'new brunswick' },
+  { pattern: /\b(?:NL|Nfld\.?|N\.L\.?)(?=\W|$)/g, canonical: 'newfoundland and labrador' },
+  { pattern: /\bNewfoundland(?: and Labrador)?\b/gi, canonical: 'newfoundland and labrador' },
+  { pattern: /\bTerre[- ]Neuve(?:[- ]et[- ]Labrador)?\b/gi, canonical: 'newfoundland and labrador' },
+  { pattern: /\b(?:PE|PEI|P\.E\.I\.?)(?=\W|$)/g, canonical: 'prince edward island' },
+  { pattern: /\bIle[- ]du[- ]Prince[- ]Edouard\b/gi, canonical: 'prince edward island' },
+  { pattern: /\b(?:YT|Yk\.?)(?=\W|$)/g, canonical: 'yukon' },
+  { pattern: /\b(?:NT|NWT|N\.W\.T\.?)(?=\W|$)/g, canonical: 'northwest territories' },
+  { pattern: /\bTerritoires du Nord[- ]Ouest\b/gi, canonical: 'northwest territories' },
+  { pattern: /\bNU(?=\W|$)/g, canonical: 'nunavut' },
+];
+
+// Canonical jurisdiction names looked for in normalized prompts
+const JURISDICTIONS = [
+  'newfoundland and labrador',
+  'northwest territories',
+  'prince edward island',
+  'british columbia',
+  'new brunswick',
+  'saskatchewan',
+  'nova scotia',
+  'manitoba',
+  'ontario',
+  'alberta',
+  'quebec',
+  'nunavut',
+  'yukon',
+  'federal',
+  'canada',
+];
+
+const NEGATIONS = new Set(['not', 'no', 'never', 'without', 'cannot', 'pas', 'jamais', 'sans', 'aucun', 'aucune']);
+
+export interface NormalizedPrompt {
+  text: string;
+  jurisdictions: string[];
+  numbers: string[];
+  negated: boolean;
+}
+
+/**
+ * Normalize a prompt for cache matching
+ */
+export function normalizePrompt(prompt: string): string {
+  // Fold accents first so French names and abbreviations match plain patterns
+  let text = prompt.normalize('NFKD').replace(/[\u0300-\u036f]/g, '');
+  for (const { pattern, canonical } of JURISDICTION_ALIASES) {
+    text = text.replace(pattern, ` ${canonical} `);
+  }
+
+  return text
+    .toLowerCase()
+    .replace(/n't\b/g, ' not')
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Extract the features that must agree for two prompts to share an answer
+ */
+export function analyzePrompt(prompt: string): NormalizedPrompt {
+  const text = normalizePrompt(prompt);
+  const padded = ` ${text} `;
+  const words = text.split(' ');
+
+  return {
+    text,
+    jurisdictions: JURISDICTIONS.filter(name => padded.includes(` ${name} `)).sort(),
+    numbers: Array.from(new Set(words.filter(word => /^\d+$/.test(word)))).sort(),
+    negated: words.some(word => NEGATIONS.has(word)),
+  };
+}
+
+/**
+ * Character trigram counts for a normalized string. Profiles can be computed
+ * once and compared many times with profileSimilarity.
+ */
+export function trigramProfile(text: string): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const word of text.split(' ')) {
+    if (!word) continue;
+    const padded = `  ${word} `;
+    for (let i = 0; i < padded.length - 2; i++) {
+      const gram = padded.slice(i, i + 3);
+      counts.set(gram, (counts.get(gram) || 0) + 1);
+    }
+  }
+  return counts;
+}
+
+/**
+ * Cosine similarity between two trigram profiles
+ */
+export function profileSimilarity(countsA: Map<string, number>, countsB: Map<string, number>): number {
+  if (countsA.size === 0 || countsB.size === 0) return 0;
+
+  let dot = 0;
+  countsA.forEach((count, gram) => {
+    dot += count * (countsB.get(gram) || 0);
+  });
+
+  let normA = 0;
+  countsA.forEach(count => { normA += count * count; });
+  let normB = 0;
+  countsB.forEach(count => { normB += count * count; });
+
+  return dot / Math.sqrt(normA * normB);
+}
+
+/**
+ * Cosine similarity between the character trigram profiles of two
+ * normalized strings, from 0 (nothing shared) to 1 (identical profiles)
+ */
+export function trigramSimilarity(a: string, b: string): number {
+  if (a === b) return 1;
+  return profileSimilarity(trigramProfile(a), trigramProfile(b));
+}
+
+function sameList(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((value, index) => value === b[index]);
+}
+
+/**
+ * Score how closely a cached prompt matches a new one. Returns 0 when the
+ * prompts differ in jurisdiction, numbers or negation, regardless of wording.
+ */
+export function promptSimilarity(query: NormalizedPrompt, candidate: NormalizedPrompt): number {
+  if (
+    query.negated !== candidate.negated ||
+    !sameList(query.jurisdictions, candidate.jurisdictions) ||
+    !sameList(query.numbers, candidate.numbers)
+  ) {
+    return 0;
+  }
+  return trigramSimilarity(query.text, candidate.text);
+}
@@ -0,0 +1,575 @@
+/**
+ * Settlement Proposal Signing
+ *
+ * Dispute parties sign settlement proposals through a ceremony run by the
+ * app itself rather than by trusting whatever signature the client sends:
+ * - Signing starts by hashing the proposal's exact content and terms, and a
+ *   one-time code is emailed to the party's address on the dispute
+ * - Entering the code signs that hash. If the proposal changed in between,
+ *   the signature is refused, and editing a proposal later invalidates every
+ *   signature already on it
+ * - Every step is written to an append-only audit trail. Each event's hash
+ *   covers the previous one, so altering or removing an event is detectable
+ * - A signed signature gets a certificate, sealed with an HMAC stored at
+ *   signing, that anyone holding its number can check against the server
+ *
+ * Signature statuses run pending → signed, and either can become invalidated.
+ * Parties sent the proposal through DocuSeal can also decline, see
+ * docuSealSigning.ts.
+ */
+
+import crypto from 'crypto';
+import { storage } from '../storage';
+import { config } from '../config';
+import {
+  type DigitalSignature,
+  type DisputeParty,
+  type SettlementProposal,
+  type SignatureAuditEvent,
+} from '@shared/schema';
+import { sendEmail, escapeHtml } from './email';
+import { logger } from '../utils/logger';
+
+export const OTP_TTL_MINUTES = 10;
+export const OTP_RESEND_COOLDOWN_SECONDS = 60;
+// Incorrect codes allowed per signature, across every code sent for it
+export const MAX_OTP_ATTEMPTS = 5;
+
+const TOO_MANY_ATTEMPTS = 'Too many incorrect codes';
+
+// Proposals in these states can no longer be signed
+const UNSIGNABLE_STATUSES = ['rejected', 'expired', 'countered', 'lapsed'];
+
+export class SigningError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'SigningError';
+  }
+}
+
+// Who is acting and from where, recorded on each audit event
+export interface SigningRequestInfo {
+  userId: number;
+  ipAddress: string | null;
+  userAgent: string | null;
+}
+
+export interface AuditTrailVerification {
+  valid: boolean;
+  eventCount: number;
+  headHash: string | null;
+  brokenAtEventId: number | null; // First event whose hash does not match
+}
+
+export interface SignatureCertificate {
+  certificateNumber: string;
+  proposal: { id: number; disputeId: number | null; title: string };
+  signer: { name: string | null; email: string | null; partyId: number | null; userId: number | null };
+  contentHash: string;
+  signedAt: string;
+  ipAddress: string | null;
+  userAgent: string | null;
+  status: 'valid' | 'invalidated';
+  invalidatedAt: string | null;
+  invalidationReason: string | null;
+  auditTrail: AuditTrailVerification;
+  events: { type: string; at: string; ipAddress: string | null; hash: string }[];
+  seal: string | null; // HMAC stored at signing over the facts fixed then
+  sealValid: boolean; // The facts recomputed today still match the stored seal
+}
+
+/**
+ * JSON with object keys sorted at every level, so the same value always
+ * serialises, and hashes, the same way
+ */
+export function canonicalJson(value: unknown): string {
+  if (value === null || value === undefined) {
+    return 'null';
+  }
+  if (value instanceof Date) {
+    return JSON.stringify(value.toISOString());
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    const keys = Object.keys(record).filter(key => record[key] !== undefined).sort();
+    return `{${keys.map(key => `${JSON.stringify(key)}:${canonicalJson(record[key])}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+const sha256 = (data: string) => crypto.createHash('sha256').update(data).digest('hex');
+const hmac = (data: string) => crypto.createHmac('sha256', config.SIGNING_SECRET).update(data).digest('hex');
+
+/**
+ * Hash of what a signer agrees to: the proposal content and its terms
+ */
+export function proposalContentHash(proposal: Pick<SettlementProposal, 'content' | 'termsAndConditions'>): string {
+  return sha256(canonicalJson({
+    content: proposal.content,
+    termsAndConditions: proposal.termsAndConditions ?? null,
+  }));
+}
+
+// The fields an audit event's hash covers, besides the previous hash
+function auditEventFields(event: Pick<SignatureAuditEvent,
+  'proposalId' | 'signatureId' | 'eventType' | 'actorId' | 'ipAddress' | 'userAgent' | 'contentHash' | 'details' | 'createdAt'>) {
+  return {
+    proposalId: event.proposalId,
+    signatureId: event.signatureId,
+    eventType: event.eventType,
+    actorId: event.actorId,
+    ipAddress: event.ipAddress,
+    userAgent: event.userAgent,
+    contentHash: event.contentHash,
+    details: event.details,
+    createdAt: event.createdAt,
+  };
+}
+
+export function auditEventHash(previousHash: string | null, fields: ReturnType<typeof auditEventFields>): string {
+  return sha256(`${previousHash || ''}|${canonicalJson(fields)}`);
+}
+
+/**
+ * Walk the chain from the first event, recomputing each hash
+ */
+export function verifyAuditTrail(events: SignatureAuditEvent[]): AuditTrailVerification {
+  let previousHash: string | null = null;
+  for (const event of events) {
+    const expected = auditEventHash(previousHash, auditEventFields(event));
+    if (event.previousHash !== previousHash || event.hash !== expected) {
+      return { valid: false, eventCount: events.length, headHash: null, brokenAtEventId: event.id };
+    }
+    previousHash = event.hash;
+  }
+  return { valid: true, eventCount: events.length, headHash: previousHash, brokenAtEventId: null };
+}
+
+export async function recordAuditEvent(
+  proposalId: number,
+  eventType: string,
+  request: SigningRequestInfo | null,
+  extra: { signatureId?: number | null; contentHash?: string | null; details?: Record<string, unknown> } = {}
+): Promise<SignatureAuditEvent> {
+  const event = {
+    proposalId,
+    signatureId: extra.signatureId ?? null,
+    eventType,
+    actorId: request ? request.userId : null,
+    ipAddress: request ? request.ipAddress : null,
+    userAgent: request ? request.userAgent : null,
+    contentHash: extra.contentHash ?? null,
+    details: extra.details ?? null,
+    // Postgres keeps the milliseconds a Date carries, so the stored value hashes the same
+    createdAt: new Date(),
+  };
+  return await storage.appendSignatureAuditEvent(event, previousHash => auditEventHash(previousHash, auditEventFields(event)));
+}
+
+function hashOtp(signatureId: number, code: string): string {
+  return hmac(`otp:${signatureId}:${code}`);
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && crypto.timingSafeEqual(left, right);
+}
+
+function maskEmail(email: string): string {
+  const [name, domain] = email.split('@');
+  return domain ? `${name.substring(0, 2)}***@${domain}` : '***';
+}
+
+export function isProposalExpired(proposal: SettlementProposal): boolean {
+  return !!proposal.expiresAt && proposal.expiresAt.getTime() <= Date.now();
+}
+
+export function assertProposalSignable(proposal: SettlementProposal): void {
+  if (UNSIGNABLE_STATUSES.indexOf(proposal.status) !== -1) {
+    throw new SigningError(`A ${proposal.status} proposal cannot be signed`, 409);
+  }
+  if (isProposalExpired(proposal)) {
+    throw new SigningError('This proposal has expired', 409);
+  }
+}
+
+// Printed on certificates and used to look them up
+export function newCertificateNumber(): string {
+  return crypto.randomBytes(8).toString('hex').toUpperCase();
+}
+
+// Signatures without the OTP hash, for API responses
+export function publicSignature(signature: DigitalSignature) {
+  const { otpHash, ...rest } = signature;
+  return rest;
+}
+
+function buildOtpEmail(name: string, proposal: SettlementProposal, code: string) {
+  const subject = `Your signing code: ${code}`;
+  const intro = `Use this code to sign the settlement proposal "${proposal.title}".`;
+  const expiry = `It expires in ${OTP_TTL_MINUTES} minutes. If you did not ask to sign this proposal, ignore this email.`;
+  return {
+    subject,
+    text: [`Hello ${name},`, '', intro, '', code, '', expiry].join('\n'),
+    html: `<p>Hello ${escapeHtml(name)},</p>
+<p>${escapeHtml(intro)}</p>
+<p style="font-size:24px;font-weight:bold;letter-spacing:4px">${escapeHtml(code)}</p>
+<p>${escapeHtml(expiry)}</p>`,
+  };
+}
+
+// Codes for a party go out at most once per cooldown, whichever of their
+// signatures they were sent for
+function assertCooldownPassed(signatures: DigitalSignature[]): void {
+  const lastSentAt = Math.max(0, ...signatures.map(item => item.otpSentAt ? item.otpSentAt.getTime() : 0));
+  const waitSeconds = Math.ceil((lastSentAt + OTP_RESEND_COOLDOWN_SECONDS * 1000 - Date.now()) / 1000);
+  if (waitSeconds > 0) {
+    throw new SigningError(`Wait ${waitSeconds} seconds before asking for another code`, 429);
+  }
+}
+
+// Sending a new code keeps the incorrect attempts made so far
+async function issueOtp(proposal: SettlementProposal, signature: DigitalSignature, request: SigningRequestInfo): Promise<DigitalSignature> {
+  if (!signature.signerEmail) {
+    throw new SigningError('The signer has no email address on this dispute', 409);
+  }
+
+  const code = crypto.randomInt(0, 1000000).toString().padStart(6, '0');
+  const now = Date.now();
+  const updated = await storage.updateDigitalSignature(signature.id, {
+    otpHash: hashOtp(signature.id, code),
+    otpSentAt: new Date(now),
+    otpExpiresAt: new Date(now + OTP_TTL_MINUTES * 60 * 1000),
+  });
+
+  await sendEmail({ to: signature.signerEmail, ...buildOtpEmail(signature.signerName || 'there', proposal, code) });
+  await recordAuditEvent(proposal.id, 'otp_sent', request, {
+    signatureId: signature.id,
+    details: { channel: 'email', to: maskEmail(signature.signerEmail) },
+  });
+  return updated!;
+}
+
+/**
+ * Start signing: bind a pending signature to the proposal's current content
+ * and email the party a one-time code. A party with a pending signature
+ * starts over with a fresh code, unless they have used up its attempts, in
+ * which case it is invalidated and a new signature started.
+ */
+export async function startSigning(
+  proposal: SettlementProposal,
+  party: DisputeParty,
+  signatureData: unknown,
+  request: SigningRequestInfo
+): Promise<DigitalSignature> {
+  assertProposalSignable(proposal);
+
+  const existing = (await storage.getDigitalSignatures(proposal.id)).filter(item => item.partyId === party.id);
+  if (existing.some(item => item.signatureStatus === 'signed')) {
+    throw new SigningError('You have already signed this proposal', 409);
+  }
+  if (existing.some(item => item.signatureStatus === 'pending' && item.docusealSubmissionId)) {
+    throw new SigningError('This proposal was sent to you through DocuSeal. Sign it from the DocuSeal email.', 409);
+  }
+
+  assertCooldownPassed(existing);
+
+  const contentHash = proposalContentHash(proposal);
+  let pending = existing.find(item => item.signatureStatus === 'pending');
+  if (pending && pending.otpAttempts >= MAX_OTP_ATTEMPTS) {
+    await invalidateSignature(proposal, pending, TOO_MANY_ATTEMPTS, request);
+    pending = undefined;
+  }
+  const fields = {
+    signatureData: signatureData ?? {},
+    contentHash,
+    signerName: party.name,
+    signerEmail: party.email,
+    ipAddress: request.ipAddress,
+    userAgent: request.userAgent,
+  };
+  const signature = pending
+    ? (await storage.updateDigitalSignature(pending.id, fields))!
+    : await storage.createDigitalSignature({
+        ...fields,
+        ipAddress: fields.ipAddress || undefined,
+        userAgent: fields.userAgent || undefined,
+        proposalId: proposal.id,
+        partyId: party.id,
+        signedBy: request.userId,
+        signatureStatus: 'pending',
+      });
+
+  await recordAuditEvent(proposal.id, 'signing_started', request, { signatureId: signature.id, contentHash });
+  return await issueOtp(proposal, signature, request);
+}
+
+export async function resendSigningCode(proposal: SettlementProposal, signature: DigitalSignature, request: SigningRequestInfo): Promise<DigitalSignature> {
+  if (signature.signatureStatus !== 'pending') {
+    throw new SigningError(`This signature is already ${signature.signatureStatus}`, 409);
+  }
+  if (signature.otpAttempts >= MAX_OTP_ATTEMPTS) {
+    throw new SigningError(`${TOO_MANY_ATTEMPTS}. Start signing again.`, 429);
+  }
+  assertCooldownPassed([signature]);
+  return await issueOtp(proposal, signature, request);
+}
+
+/**
+ * Check the one-time code and sign, provided the proposal still hashes to
+ * what the signer was shown when they started
+ */
+export async function confirmSigning(
+  proposal: SettlementProposal,
+  signature: DigitalSignature,
+  code: string,
+  request: SigningRequestInfo
+): Promise<DigitalSignature> {
+  if (signature.signatureStatus !== 'pending') {
+    throw new SigningError(`This signature is already ${signature.signatureStatus}`, 409);
+  }
+  if (signature.otpAttempts >= MAX_OTP_ATTEMPTS) {
+    throw new SigningError(`${TOO_MANY_ATTEMPTS}. Start signing again.`, 429);
+  }
+  if (!signature.otpHash || !signature.otpExpiresAt) {
+    throw new SigningError('No code is active. Request a new code to continue.', 409);
+  }
+  if (signature.otpExpiresAt.getTime() <= Date.now()) {
+    throw new SigningError('This code has expired. Request a new code to continue.', 410);
+  }
+
+  if (!safeEqual(hashOtp(signature.id, code.trim()), signature.otpHash)) {
+    const attempts = signature.otpAttempts + 1;
+    await storage.updateDigitalSignature(signature.id, { otpAttempts: attempts });
+    await recordAuditEvent(proposal.id, 'otp_failed', request, { signatureId: signature.id, details: { attempts } });
+    if (attempts >= MAX_OTP_ATTEMPTS) {
+      await invalidateSignature(proposal, signature, TOO_MANY_ATTEMPTS, request);
+      throw new SigningError(`${TOO_MANY_ATTEMPTS}. Start signing again.`, 429);
+    }
+    throw new SigningError('The code is incorrect', 400);
+  }
+
+  const contentHash = proposalContentHash(proposal);
+  if (contentHash !== signature.contentHash) {
+    await invalidateSignature(proposal, signature, 'The proposal changed during signing', request);
+    throw new SigningError('The proposal changed while you were signing. Review it and sign again.', 409);
+  }
+
+  const now = new Date();
+  const signed = await storage.updateDigitalSignature(signature.id, {
+    signatureStatus: 'signed',
+    otpHash: null,
+    otpExpiresAt: null,
+    verifiedAt: now,
+    signedAt: now,
+    ipAddress: request.ipAddress,
+    userAgent: request.userAgent,
+    verificationCode: newCertificateNumber(),
+  });
+
+  await recordAuditEvent(proposal.id, 'signed', request, {
+    signatureId: signature.id,
+    contentHash,
+    details: { signerName: signature.signerName, certificateNumber: signed!.verificationCode },
+  });
+  return await sealCertificate(proposal, signed!);
+}
+
+async function invalidateSignature(proposal: SettlementProposal, signature: DigitalSignature, reason: string, request: SigningRequestInfo | null) {
+  await storage.updateDigitalSignature(signature.id, {
+    signatureStatus: 'invalidated',
+    otpHash: null,
+    invalidatedAt: new Date(),
+    invalidationReason: reason,
+  });
+  await recordAuditEvent(proposal.id, 'signature_invalidated', request, {
+    signatureId: signature.id,
+    contentHash: signature.contentHash,
+    details: { reason },
+  });
+}
+
+/**
+ * After a proposal is edited, invalidate the signatures on its earlier
+ * content and tell the signers they need to sign again
+ */
+export async function invalidateSignaturesForEdit(
+  proposal: SettlementProposal,
+  previousContentHash: string,
+  request: SigningRequestInfo
+): Promise<number> {
+  if (proposalContentHash(proposal) === previousContentHash) {
+    return 0;
+  }
+
+  const active = (await storage.getDigitalSignatures(proposal.id))
+    .filter(item => item.signatureStatus === 'signed' || item.signatureStatus === 'pending');
+  for (const signature of active) {
+    await invalidateSignature(proposal, signature, 'The proposal was edited after signing', request);
+    if (signature.signatureStatus === 'signed' && signature.signedBy && signature.signedBy !== request.userId) {
+      try {
+        await storage.createNotification({
+          userId: signature.signedBy,
+          type: 'signature_invalidated',
+          title: 'Settlement proposal changed',
+          message: `"${proposal.title}" was edited after you signed it. Review the new version and sign again.`,
+          link: `/dispute/${proposal.disputeId}`,
+          data: { proposalId: proposal.id, signatureId: signature.id },
+        });
+      } catch (error) {
+        logger.error(`[signing] Failed to notify user ${signature.signedBy}: ${(error as Error).message}`);
+      }
+    }
+  }
+  return active.length;
+}
+
+// What the seal covers. The proposal title can be edited without touching
+// the signed content, so it is left out.
+function certificatePayload(proposal: SettlementProposal, signature: DigitalSignature, events: SignatureAuditEvent[]) {
+  const signedEvent = events.find(event => event.signatureId === signature.id && event.eventType === 'signed');
+  // Events after signing are not part of what was sealed
+  const sealedEvents = signedEvent ? events.filter(event => event.id <= signedEvent.id) : events;
+  return {
+    certificateNumber: signature.verificationCode!,
+    proposal: { id: proposal.id, disputeId: proposal.disputeId },
+    signer: { name: signature.signerName, email: signature.signerEmail, partyId: signature.partyId, userId: signature.signedBy },
+    contentHash: signature.contentHash!,
+    signedAt: signature.signedAt!.toISOString(),
+    ipAddress: signature.ipAddress,
+    userAgent: signature.userAgent,
+    events: sealedEvents
+      .filter(event => event.signatureId === signature.id)
+      .map(event => ({ type: event.eventType, at: event.createdAt.toISOString(), ipAddress: event.ipAddress, hash: event.hash })),
+  };
+}
+
+/**
+ * Seal a just-signed signature's certificate, once its 'signed' event is in
+ * the audit trail
+ */
+export async function sealCertificate(proposal: SettlementProposal, signature: DigitalSignature): Promise<DigitalSignature> {
+  const events = await storage.getSignatureAuditEvents(proposal.id);
+  const seal = hmac(canonicalJson(certificatePayload(proposal, signature, events)));
+  return (await storage.updateDigitalSignature(signature.id, { certificateSeal: seal }))!;
+}
+
+/**
+ * The certificate for a signature. The seal only covers facts fixed at
+ * signing, so a later invalidation shows on the certificate without
+ * breaking it, while any change to those facts no longer matches the seal
+ * stored then.
+ */
+export async function buildCertificate(proposal: SettlementProposal, signature: DigitalSignature): Promise<SignatureCertificate> {
+  if (!signature.signedAt || !signature.verificationCode || !signature.contentHash) {
+    throw new SigningError('This signature has not been signed', 409);
+  }
+
+  const events = await storage.getSignatureAuditEvents(proposal.id);
+  const payload = certificatePayload(proposal, signature, events);
+  const seal = signature.certificateSeal;
+
+  return {
+    ...payload,
+    proposal: { ...payload.proposal, title: proposal.title },
+    status: signature.signatureStatus === 'signed' ? 'valid' : 'invalidated',
+    invalidatedAt: signature.invalidatedAt ? signature.invalidatedAt.toISOString() : null,
+    invalidationReason: signature.invalidationReason,
+    auditTrail: verifyAuditTrail(events),
+    seal,
+    sealValid: !!seal && safeEqual(hmac(canonicalJson(payload)), seal),
+  };
+}
+
+/**
+ * Check a certificate number: the signature exists, its seal still matches
+ * and it has not been invalidated
+ */
+export async function verifyCertificate(certificateNumber: string) {
+  const signature = await storage.getDigitalSignatureByVerificationCode(certificateNumber.toUpperCase());
+  const proposal = signature?.proposalId ? await storage.getSettlementProposalById(signature.proposalId) : undefined;
+  if (!signature || !proposal) {
+    throw new SigningError('Certificate not found', 404);
+  }
+
+  const certificate = await buildCertificate(proposal, signature);
+  return {
+    certificateNumber: certificate.certificateNumber,
+    proposalTitle: proposal.title,
+    signerName: certificate.signer.name,
+    signedAt: certificate.signedAt,
+    contentHash: certificate.contentHash,
+    status: certificate.status,
+    invalidationReason: certificate.invalidationReason,
+    contentUnchanged: proposalContentHash(proposal) === certificate.contentHash,
+    auditTrailValid: certificate.auditTrail.valid,
+    seal: certificate.seal,
+    sealValid: certificate.sealValid,
+  };
+}
+
+/**
+ * A printable HTML certificate page
+ */
+export function renderCertificateHtml(certificate: SignatureCertificate): string {
+  const row = (label: string, value: string | null) =>
+    `<tr><th>${escapeHtml(label)}</th><td>${escapeHtml(value || '-')}</td></tr>`;
+  const events = certificate.events.map(event =>
+    `<tr><td>${escapeHtml(event.at)}</td><td>${escapeHtml(event.type)}</td><td>${escapeHtml(event.ipAddress || '-')}</td><td class="hash">${escapeHtml(event.hash)}</td></tr>`
+  ).join('\n');
+  const verifyUrl = `${config.APP_URL}/api/signature-certificates/${certificate.certificateNumber}`;
+  const banners = [
+    certificate.status === 'valid'
+      ? ''
+      : `<p class="invalid">This signature was invalidated on ${escapeHtml(certificate.invalidatedAt || '')}: ${escapeHtml(certificate.invalidationReason || '')}</p>`,
+    certificate.sealValid
+      ? ''
+      : '<p class="invalid">The details below no longer match the seal recorded at signing.</p>',
+  ];
+  const banner = banners.filter(Boolean).join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Signature Certificate ${escapeHtml(certificate.certificateNumber)}</title>
+<style>
+  body { font-family: Georgia, serif; max-width: 800px; margin: 40px auto; color: #111; }
+  h1 { border-bottom: 2px solid #111; padding-bottom: 8px; }
+  table { width: 100%; border-collapse: collapse; margin: 16px 0; }
+  th, td { text-align: left; padding: 6px 8px; border-bottom: 1px solid #ddd; vertical-align: top; font-size: 14px; }
+  th { width: 30%; }
+  .hash { font-family: monospace; font-size: 12px; word-break: break-all; }
+  .invalid { padding: 12px; border: 2px solid #b91c1c; color: #b91c1c; }
+  .seal { font-family: monospace; font-size: 12px; word-break: break-all; }
+</style>
+</head>
+<body>
+<h1>Certificate of Electronic Signature</h1>
+${banner}
+<table>
+${row('Certificate number', certificate.certificateNumber)}
+${row('Proposal', `${certificate.proposal.title} (#${certificate.proposal.id})`)}
+${row('Signer', certificate.signer.name)}
+${row('Signer email (verified by one-time code)', certificate.signer.email)}
+${row('Signed at (UTC)', certificate.signedAt)}
+${row('IP address', certificate.ipAddress)}
+${row('User agent', certificate.userAgent)}
+<tr><th>Content hash (SHA-256)</th><td class="hash">${escapeHtml(certificate.contentHash)}</td></tr>
+${row('Audit trail', certificate.auditTrail.valid ? `Intact (${certificate.auditTrail.eventCount} events)` : `Broken at event #${certificate.auditTrail.brokenAtEventId}`)}
+</table>
+<h2>Signing events</h2>
+<table>
+<tr><th>Time (UTC)</th><th>Event</th><th>IP address</th><th>Event hash</th></tr>
+${events}
+</table>
+<h2>Seal</h2>
+<p class="seal">${escapeHtml(certificate.seal || 'Not sealed')}</p>
+<p>Check this certificate at <a href="${escapeHtml(verifyUrl)}">${escapeHtml(verifyUrl)}</a></p>
+</body>
+</html>`;
+}
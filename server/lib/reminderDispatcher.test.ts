@@ -0,0 +1,274 @@
+import { test, describe, beforeEach, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import type { SQL } from 'drizzle-orm';
+import { PgDialect } from 'drizzle-orm/pg-core';
+import {
+  reminderDeliveries,
+  userProcedureReminders,
+  type ReminderDelivery,
+  type UserProcedureReminder,
+} from '@shared/schema-procedure-extensions';
+import { db } from '../db';
+import { storage } from '../storage';
+import { setEmailTransport, type EmailMessage } from './email';
+import { dispatchDueReminders, getNotifyAt, MAX_DELIVERY_ATTEMPTS } from './reminderDispatcher';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = new Date('2024-06-10T12:00:00Z');
+const USER = { id: 7, email: 'client@example.com', username: 'client', fullName: 'Pat Client' };
+const PROCEDURE = { id: 3, title: 'Small claims' };
+
+// In-memory rows for the queries the dispatcher makes
+interface Tables {
+  now: Date;
+  reminders: UserProcedureReminder[];
+  deliveries: ReminderDelivery[];
+  notifications: unknown[];
+  emails: EmailMessage[];
+}
+
+const dialect = new PgDialect();
+
+// The ids in an inArray() condition
+function conditionIds(condition: SQL): number[] {
+  return dialect.sqlToQuery(condition).params as number[];
+}
+
+/**
+ * Answer the dispatcher's queries from memory. Due reminders are selected and
+ * deliveries claimed with the same rules as the SQL in reminderDispatcher.ts.
+ */
+function installMemoryDatabase(): Tables {
+  const tables: Tables = { now: NOW, reminders: [], deliveries: [], notifications: [], emails: [] };
+
+  mock.method(db, 'select', () => {
+    const query = {
+      from: () => query,
+      innerJoin: () => query,
+      where: () => query,
+      orderBy: () => query,
+      limit: async () => tables.reminders
+        .filter(reminder => !reminder.isCompleted)
+        .filter(reminder => getNotifyAt(reminder) <= tables.now)
+        .filter(reminder => !reminder.lastNotifiedAt || reminder.lastNotifiedAt < getNotifyAt(reminder))
+        .sort((a, b) => a.dueDate.getTime() - b.dueDate.getTime())
+        .map(reminder => ({
+          reminder,
+          userId: USER.id,
+          email: USER.email,
+          username: USER.username,
+          fullName: USER.fullName,
+          procedureTitle: PROCEDURE.title,
+        })),
+    };
+    return query;
+  });
+
+  mock.method(db, 'insert', () => ({
+    values: (values: Pick<ReminderDelivery, 'reminderId' | 'userId' | 'channel' | 'occurrenceKey'>) => ({
+      onConflictDoUpdate: () => ({
+        returning: async () => {
+          const existing = tables.deliveries.find(delivery =>
+            delivery.reminderId === values.reminderId &&
+            delivery.channel === values.channel &&
+            delivery.occurrenceKey === values.occurrenceKey
+          );
+          if (!existing) {
+            const delivery: ReminderDelivery = {
+              id: tables.deliveries.length + 1,
+              ...values,
+              status: 'sending',
+              attempts: 1,
+              error: null,
+              messageId: null,
+              createdAt: tables.now,
+              sentAt: null,
+            };
+            tables.deliveries.push(delivery);
+            return [delivery];
+          }
+          if (existing.status === 'failed' && existing.attempts < MAX_DELIVERY_ATTEMPTS) {
+            Object.assign(existing, { status: 'sending', attempts: existing.attempts + 1, error: null });
+            return [existing];
+          }
+          return [];
+        },
+      }),
+    }),
+  }));
+
+  mock.method(db, 'update', (table: unknown) => ({
+    set: (data: Record<string, unknown>) => ({
+      where: async (condition: SQL) => {
+        const rows: Array<{ id: number }> = table === userProcedureReminders ? tables.reminders : tables.deliveries;
+        const ids = conditionIds(condition);
+        rows.filter(row => ids.includes(row.id)).forEach(row => Object.assign(row, data));
+      },
+    }),
+  }));
+
+  mock.method(storage, 'createNotification', async (notification: object) => {
+    const created = { id: tables.notifications.length + 1, ...notification };
+    tables.notifications.push(created);
+    return created;
+  });
+
+  setEmailTransport({
+    name: 'test',
+    send: async (message: EmailMessage) => {
+      tables.emails.push(message);
+      return { messageId: `message-${tables.emails.length}` };
+    },
+  });
+
+  return tables;
+}
+
+function reminder(overrides: Partial<UserProcedureReminder> = {}): UserProcedureReminder {
+  return {
+    id: 1,
+    userProcedureId: PROCEDURE.id,
+    stepId: null,
+    title: 'File the reply',
+    description: null,
+    dueDate: new Date(NOW.getTime() + DAY_MS / 2),
+    notifyBefore: 1,
+    notifyMethod: 'email',
+    isCompleted: false,
+    snoozedUntil: null,
+    lastNotifiedAt: null,
+    source: 'user',
+    createdAt: NOW,
+    updatedAt: NOW,
+    ...overrides,
+  };
+}
+
+describe('reminderDispatcher', () => {
+  let tables: Tables;
+
+  beforeEach(() => {
+    tables = installMemoryDatabase();
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+    setEmailTransport(undefined);
+  });
+
+  test('sends a due reminder once', async () => {
+    tables.reminders.push(reminder());
+
+    const summary = await dispatchDueReminders(NOW);
+
+    assert.deepEqual(summary, { reminders: 1, notifications: 0, emails: 1, failed: 0 });
+    assert.equal(tables.emails.length, 1);
+    assert.equal(tables.emails[0].to, USER.email);
+    assert.match(tables.emails[0].subject, /^Reminder: File the reply is due/);
+    assert.equal(tables.deliveries[0].status, 'sent');
+    assert.equal(tables.deliveries[0].messageId, 'message-1');
+    assert.equal(tables.reminders[0].lastNotifiedAt, NOW);
+  });
+
+  test('does not send a reminder that is not due yet', async () => {
+    tables.reminders.push(reminder({ dueDate: new Date(NOW.getTime() + 3 * DAY_MS) }));
+
+    const summary = await dispatchDueReminders(NOW);
+
+    assert.equal(summary.reminders, 0);
+    assert.equal(tables.emails.length, 0);
+  });
+
+  test('does not resend a reminder when dispatched again', async () => {
+    tables.reminders.push(reminder({ notifyMethod: 'both' }));
+
+    await dispatchDueReminders(NOW);
+    const again = await dispatchDueReminders(NOW);
+
+    assert.equal(again.reminders, 0);
+    assert.equal(tables.emails.length, 1);
+    assert.equal(tables.notifications.length, 1);
+  });
+
+  test('does not resend an occurrence that was already delivered', async () => {
+    tables.reminders.push(reminder({ notifyMethod: 'both' }));
+    await dispatchDueReminders(NOW);
+
+    // As seen by a second server that selected the reminder before it was marked
+    tables.reminders[0].lastNotifiedAt = null;
+    const again = await dispatchDueReminders(NOW);
+
+    assert.deepEqual(again, { reminders: 1, notifications: 0, emails: 0, failed: 0 });
+    assert.equal(tables.emails.length, 1);
+    assert.equal(tables.notifications.length, 1);
+  });
+
+  test('sends a snoozed reminder again once the snooze is over', async () => {
+    tables.reminders.push(reminder());
+    await dispatchDueReminders(NOW);
+
+    tables.reminders[0].snoozedUntil = new Date(NOW.getTime() + 2 * 60 * 60 * 1000);
+    const snoozed = await dispatchDueReminders(NOW);
+    assert.equal(snoozed.reminders, 0);
+
+    tables.now = new Date(NOW.getTime() + 3 * 60 * 60 * 1000);
+    const resent = await dispatchDueReminders(tables.now);
+
+    assert.equal(resent.emails, 1);
+    assert.equal(tables.emails.length, 2);
+    assert.deepEqual(tables.deliveries.map(delivery => delivery.occurrenceKey), [
+      `due:${tables.reminders[0].dueDate.toISOString()}:1`,
+      `snooze:${tables.reminders[0].snoozedUntil.toISOString()}`,
+    ]);
+    assert.equal(tables.reminders[0].lastNotifiedAt, tables.now);
+  });
+
+  test("sends one digest for all of a user's due reminders", async () => {
+    tables.reminders.push(
+      reminder({ id: 1, title: 'File the reply' }),
+      reminder({ id: 2, title: 'Serve the claim', dueDate: new Date(NOW.getTime() + 2 * 60 * 60 * 1000) }),
+      reminder({ id: 3, title: 'Book the hearing', notifyMethod: 'app' })
+    );
+
+    const summary = await dispatchDueReminders(NOW);
+
+    assert.deepEqual(summary, { reminders: 3, notifications: 1, emails: 1, failed: 0 });
+    assert.equal(tables.emails.length, 1);
+    assert.equal(tables.emails[0].subject, 'You have 2 court procedure reminders');
+    assert.match(tables.emails[0].text, /- Serve the claim\n[\s\S]*- File the reply\n/);
+    assert.doesNotMatch(tables.emails[0].text, /Book the hearing/);
+    assert.deepEqual(
+      tables.deliveries.filter(delivery => delivery.channel === 'email').map(delivery => delivery.messageId),
+      ['message-1', 'message-1']
+    );
+  });
+
+  test('retries a failed email on the next run', async () => {
+    tables.reminders.push(reminder());
+    setEmailTransport({
+      name: 'failing',
+      send: async () => {
+        throw new Error('connection refused');
+      },
+    });
+
+    const failed = await dispatchDueReminders(NOW);
+    assert.deepEqual(failed, { reminders: 1, notifications: 0, emails: 0, failed: 1 });
+    assert.equal(tables.reminders[0].lastNotifiedAt, null);
+    assert.equal(tables.deliveries[0].status, 'failed');
+
+    setEmailTransport({
+      name: 'test',
+      send: async (message: EmailMessage) => {
+        tables.emails.push(message);
+        return { messageId: 'retried' };
+      },
+    });
+    const retried = await dispatchDueReminders(NOW);
+
+    assert.equal(retried.emails, 1);
+    assert.equal(tables.deliveries.length, 1);
+    assert.equal(tables.deliveries[0].attempts, 2);
+    assert.equal(tables.deliveries[0].messageId, 'retried');
+  });
+});
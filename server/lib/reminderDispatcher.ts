@@ -0,0 +1,387 @@
+/**
+ * Reminder Dispatcher
+ *
+ * This module delivers court procedure reminders. On a fixed interval it finds
+ * reminders whose notification time has passed (the due date minus
+ * notifyBefore days, or the snooze time if the user snoozed the reminder) and
+ * sends them through the channels chosen by notifyMethod: an in-app
+ * notification, an email, or both. Email is sent as one digest per user per
+ * run, listing every reminder that came due for them.
+ *
+ * Each send is claimed in reminder_deliveries before it happens, keyed by the
+ * occurrence being notified, so a reminder goes out once per due date or
+ * snooze even if several servers run the dispatcher. Failed sends are retried
+ * on later runs, up to MAX_DELIVERY_ATTEMPTS.
+ */
+
+import { db } from '../db';
+import { storage } from '../storage';
+import { config } from '../config';
+import { users, userCourtProcedures } from '@shared/schema';
+import {
+  userProcedureReminders,
+  reminderDeliveries,
+  type UserProcedureReminder,
+  type ReminderDelivery
+} from '@shared/schema-procedure-extensions';
+import { and, eq, inArray, isNull, or, sql } from 'drizzle-orm';
+import { sendEmail, escapeHtml } from './email';
+import { logger } from '../utils/logger';
+
+export type ReminderChannel = 'email' | 'app';
+
+export const MAX_DELIVERY_ATTEMPTS = 3;
+
+// Reminders handled per run; the rest are picked up by the next run
+const BATCH_SIZE = 200;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface DueReminder {
+  reminder: UserProcedureReminder;
+  userId: number;
+  email: string | null;
+  name: string;
+  procedureTitle: string;
+}
+
+export interface DispatchSummary {
+  reminders: number;
+  notifications: number;
+  emails: number;
+  failed: number;
+}
+
+interface ClaimedEmail {
+  due: DueReminder;
+  delivery: ReminderDelivery;
+}
+
+type ReminderSchedule = Pick<UserProcedureReminder, 'dueDate' | 'notifyBefore' | 'snoozedUntil'>;
+
+/**
+ * When the reminder should be sent
+ */
+export function getNotifyAt(reminder: ReminderSchedule): Date {
+  if (reminder.snoozedUntil) {
+    return reminder.snoozedUntil;
+  }
+  return new Date(reminder.dueDate.getTime() - (reminder.notifyBefore ?? 1) * DAY_MS);
+}
+
+/**
+ * Identifies the occurrence being notified. Moving the due date or snoozing
+ * the reminder starts a new occurrence, which is sent again.
+ */
+export function getOccurrenceKey(reminder: ReminderSchedule): string {
+  return reminder.snoozedUntil
+    ? `snooze:${reminder.snoozedUntil.toISOString()}`
+    : `due:${reminder.dueDate.toISOString()}:${reminder.notifyBefore ?? 1}`;
+}
+
+export function getReminderChannels(notifyMethod: string | null): ReminderChannel[] {
+  switch (notifyMethod) {
+    case 'email':
+      return ['email'];
+    case 'both':
+      return ['app', 'email'];
+    default:
+      return ['app'];
+  }
+}
+
+export function getUserProcedureLink(userProcedureId: number): string {
+  return `/court-procedures-old?userProcedure=${userProcedureId}`;
+}
+
+function formatDueDate(date: Date): string {
+  return date.toLocaleDateString('en-CA', { year: 'numeric', month: 'long', day: 'numeric' });
+}
+
+/**
+ * Open reminders whose notification time has passed and that have not been
+ * notified since
+ */
+export async function findDueReminders(now: Date): Promise<DueReminder[]> {
+  const notifyAt = sql`coalesce(
+    ${userProcedureReminders.snoozedUntil},
+    ${userProcedureReminders.dueDate} - make_interval(days => coalesce(${userProcedureReminders.notifyBefore}, 1))
+  )`;
+
+  const rows = await db
+    .select({
+      reminder: userProcedureReminders,
+      userId: users.id,
+      email: users.email,
+      username: users.username,
+      fullName: users.fullName,
+      procedureTitle: userCourtProcedures.title,
+    })
+    .from(userProcedureReminders)
+    .innerJoin(userCourtProcedures, eq(userCourtProcedures.id, userProcedureReminders.userProcedureId))
+    .innerJoin(users, eq(users.id, userCourtProcedures.userId))
+    .where(
+      and(
+        or(eq(userProcedureReminders.isCompleted, false), isNull(userProcedureReminders.isCompleted)),
+        sql`${notifyAt} <= ${now.toISOString()}::timestamp`,
+        or(
+          isNull(userProcedureReminders.lastNotifiedAt),
+          sql`${userProcedureReminders.lastNotifiedAt} < ${notifyAt}`
+        )
+      )
+    )
+    .orderBy(userProcedureReminders.dueDate)
+    .limit(BATCH_SIZE);
+
+  return rows.map(row => ({
+    reminder: row.reminder,
+    userId: row.userId,
+    email: row.email,
+    name: row.fullName || row.username,
+    procedureTitle: row.procedureTitle,
+  }));
+}
+
+/**
+ * Claim a delivery. Returns nothing when the occurrence was already sent on
+ * this channel, is being sent elsewhere, or has used up its attempts.
+ *
+ * A server that stops mid-send leaves its claim as 'sending', and that
+ * delivery is not retried: a missed reminder is better than a duplicate.
+ */
+async function claimDelivery(
+  due: DueReminder,
+  channel: ReminderChannel,
+  occurrenceKey: string
+): Promise<ReminderDelivery | undefined> {
+  const [delivery] = await db
+    .insert(reminderDeliveries)
+    .values({
+      reminderId: due.reminder.id,
+      userId: due.userId,
+      channel,
+      occurrenceKey,
+    })
+    .onConflictDoUpdate({
+      target: [reminderDeliveries.reminderId, reminderDeliveries.channel, reminderDeliveries.occurrenceKey],
+      set: {
+        status: 'sending',
+        attempts: sql`${reminderDeliveries.attempts} + 1`,
+        error: null,
+      },
+      setWhere: sql`${reminderDeliveries.status} = 'failed' AND ${reminderDeliveries.attempts} < ${MAX_DELIVERY_ATTEMPTS}`,
+    })
+    .returning();
+  return delivery;
+}
+
+async function markDeliveriesSent(ids: number[], messageId?: string): Promise<void> {
+  await db
+    .update(reminderDeliveries)
+    .set({ status: 'sent', messageId: messageId || null, sentAt: new Date() })
+    .where(inArray(reminderDeliveries.id, ids));
+}
+
+async function markDeliveriesFailed(ids: number[], error: string, giveUp = false): Promise<void> {
+  await db
+    .update(reminderDeliveries)
+    .set({
+      status: 'failed',
+      error,
+      ...(giveUp ? { attempts: MAX_DELIVERY_ATTEMPTS } : {}),
+    })
+    .where(inArray(reminderDeliveries.id, ids));
+}
+
+function describeReminder(due: DueReminder): string {
+  return `${due.procedureTitle}: due ${formatDueDate(due.reminder.dueDate)}`;
+}
+
+async function deliverInApp(due: DueReminder, delivery: ReminderDelivery): Promise<boolean> {
+  try {
+    const notification = await storage.createNotification({
+      userId: due.userId,
+      type: 'procedure_reminder',
+      title: due.reminder.title,
+      message: describeReminder(due),
+      link: getUserProcedureLink(due.reminder.userProcedureId),
+      data: {
+        reminderId: due.reminder.id,
+        userProcedureId: due.reminder.userProcedureId,
+        dueDate: due.reminder.dueDate.toISOString(),
+      },
+    });
+    await markDeliveriesSent([delivery.id], String(notification.id));
+    return true;
+  } catch (error) {
+    await markDeliveriesFailed([delivery.id], (error as Error).message);
+    return false;
+  }
+}
+
+/**
+ * The digest email for one user's due reminders
+ */
+export function buildDigestEmail(name: string, reminders: DueReminder[]): { subject: string; text: string; html: string } {
+  const subject = reminders.length === 1
+    ? `Reminder: ${reminders[0].reminder.title} is due ${formatDueDate(reminders[0].reminder.dueDate)}`
+    : `You have ${reminders.length} court procedure reminders`;
+
+  const items = reminders.map(due => ({
+    title: due.reminder.title,
+    summary: describeReminder(due),
+    description: due.reminder.description,
+    url: `${config.APP_URL}${getUserProcedureLink(due.reminder.userProcedureId)}`,
+  }));
+
+  const footer = 'You are receiving this email because you set these reminders in LegalAI Navigator. ' +
+    'Open a procedure to snooze or complete its reminders.';
+
+  const text = [
+    `Hello ${name},`,
+    '',
+    reminders.length === 1 ? 'This reminder is now due:' : 'These reminders are now due:',
+    '',
+    ...items.map(item => [
+      `- ${item.title}`,
+      `  ${item.summary}`,
+      ...(item.description ? [`  ${item.description}`] : []),
+      `  ${item.url}`,
+    ].join('\n')),
+    '',
+    footer,
+  ].join('\n');
+
+  const html = `<p>Hello ${escapeHtml(name)},</p>
+<p>${reminders.length === 1 ? 'This reminder is now due:' : 'These reminders are now due:'}</p>
+<ul>
+${items.map(item => `  <li>
+    <a href="${escapeHtml(item.url)}"><strong>${escapeHtml(item.title)}</strong></a><br>
+    ${escapeHtml(item.summary)}${item.description ? `<br>\n    ${escapeHtml(item.description)}` : ''}
+  </li>`).join('\n')}
+</ul>
+<p style="color:#666;font-size:12px">${escapeHtml(footer)}</p>`;
+
+  return { subject, text, html };
+}
+
+async function deliverDigest(claimed: ClaimedEmail[]): Promise<boolean> {
+  const ids = claimed.map(item => item.delivery.id);
+  const { email, name } = claimed[0].due;
+
+  if (!email) {
+    await markDeliveriesFailed(ids, 'User has no email address', true);
+    return false;
+  }
+
+  try {
+    const sent = await sendEmail({ to: email, ...buildDigestEmail(name, claimed.map(item => item.due)) });
+    await markDeliveriesSent(ids, sent.messageId);
+    return true;
+  } catch (error) {
+    logger.error(`[reminders] Digest email to user ${claimed[0].due.userId} failed: ${(error as Error).message}`);
+    await markDeliveriesFailed(ids, (error as Error).message);
+    return false;
+  }
+}
+
+/**
+ * Send every reminder that is due. Safe to call from several servers at once.
+ */
+export async function dispatchDueReminders(now: Date = new Date()): Promise<DispatchSummary> {
+  const summary: DispatchSummary = { reminders: 0, notifications: 0, emails: 0, failed: 0 };
+  const dueReminders = await findDueReminders(now);
+  summary.reminders = dueReminders.length;
+
+  // Reminders stay due until none of their deliveries can be retried
+  const retryable: Record<number, boolean> = {};
+  const digests: Record<number, ClaimedEmail[]> = {};
+
+  for (const due of dueReminders) {
+    const occurrenceKey = getOccurrenceKey(due.reminder);
+
+    for (const channel of getReminderChannels(due.reminder.notifyMethod)) {
+      const delivery = await claimDelivery(due, channel, occurrenceKey);
+      if (!delivery) {
+        continue;
+      }
+
+      if (channel === 'email') {
+        (digests[due.userId] = digests[due.userId] || []).push({ due, delivery });
+      } else if (await deliverInApp(due, delivery)) {
+        summary.notifications++;
+      } else {
+        summary.failed++;
+        retryable[due.reminder.id] = retryable[due.reminder.id] || delivery.attempts < MAX_DELIVERY_ATTEMPTS;
+      }
+    }
+  }
+
+  for (const userId of Object.keys(digests)) {
+    const claimed = digests[Number(userId)];
+    if (await deliverDigest(claimed)) {
+      summary.emails++;
+    } else {
+      summary.failed += claimed.length;
+      claimed.forEach(({ due, delivery }) => {
+        retryable[due.reminder.id] = retryable[due.reminder.id] || (!!due.email && delivery.attempts < MAX_DELIVERY_ATTEMPTS);
+      });
+    }
+  }
+
+  const settledIds = dueReminders
+    .map(due => due.reminder.id)
+    .filter(id => !retryable[id]);
+  if (settledIds.length > 0) {
+    await db
+      .update(userProcedureReminders)
+      .set({ lastNotifiedAt: now })
+      .where(inArray(userProcedureReminders.id, settledIds));
+  }
+
+  return summary;
+}
+
+let timer: NodeJS.Timeout | undefined;
+let running = false;
+
+async function runScheduledDispatch(): Promise<void> {
+  // A slow run is not overlapped by the next tick
+  if (running) {
+    return;
+  }
+  running = true;
+  try {
+    const summary = await dispatchDueReminders();
+    if (summary.reminders > 0) {
+      logger.info(
+        `[reminders] ${summary.reminders} due: ${summary.notifications} notification(s), ` +
+        `${summary.emails} email(s), ${summary.failed} failed`
+      );
+    }
+  } catch (error) {
+    logger.error(`[reminders] Dispatch failed: ${(error as Error).message}`);
+  } finally {
+    running = false;
+  }
+}
+
+export function startReminderDispatcher(): void {
+  const minutes = config.REMINDER_DISPATCH_INTERVAL_MINUTES;
+  if (!minutes || minutes <= 0) {
+    logger.info('[reminders] Reminder dispatch is disabled');
+    return;
+  }
+
+  stopReminderDispatcher();
+  timer = setInterval(runScheduledDispatch, minutes * 60 * 1000);
+  runScheduledDispatch();
+  logger.info(`[reminders] Dispatching reminders every ${minutes} minute(s)`);
+}
+
+export function stopReminderDispatcher(): void {
+  if (timer) {
+    clearInterval(timer);
+    timer = undefined;
+  }
+}
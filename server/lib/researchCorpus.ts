@@ -0,0 +1,396 @@
+/**
+ * Research Corpus
+ *
+ * This module imports statute and case law dumps into the
+ * research_corpus_documents table and searches them with Postgres full-text
+ * search, so legal research has a source that works without any network
+ * access. Documents are keyed by kind, citation and language: importing a
+ * newer dump updates the documents it shares with the old one in place.
+ *
+ * A dump is JSON:
+ *
+ *   {
+ *     "source": "justice-laws-2025-01",
+ *     "documents": [
+ *       { "kind": "statute", "title": "Divorce Act", "citation": "R.S.C. 1985, c. 3 (2nd Supp.)",
+ *         "jurisdiction": "canada", "summary": "...", "body": "...", "url": "https://..." },
+ *       { "kind": "case", "title": "Contino v. Leonelli-Contino", "citation": "2005 SCC 63",
+ *         "court": "SCC", "year": 2005, "keyPoints": ["..."] }
+ *     ]
+ *   }
+ *
+ * or XML with the same fields as elements:
+ *
+ *   <corpus source="justice-laws-2025-01">
+ *     <statute language="en">
+ *       <title>Divorce Act</title>
+ *       <citation>R.S.C. 1985, c. 3 (2nd Supp.)</citation>
+ *     </statute>
+ *     <case>
+ *       <title>Contino v. Leonelli-Contino</title>
+ *       <citation>2005 SCC 63</citation>
+ *       <keyPoints><point>...</point></keyPoints>
+ *     </case>
+ *   </corpus>
+ */
+
+import { XMLParser } from 'fast-xml-parser';
+import { z } from 'zod';
+import { sql, type SQL } from 'drizzle-orm';
+import { db } from '../db';
+import {
+  researchCorpusDocuments,
+  researchCorpusSearchDocument,
+  type InsertResearchCorpusDocument,
+  type ResearchCorpusDocument
+} from '@shared/schema';
+import { SEARCH_CONFIGS, type KnowledgeSearchLanguage } from './knowledgeSearch';
+
+export type CorpusDocumentKind = 'statute' | 'case';
+
+export class CorpusImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CorpusImportError';
+  }
+}
+
+// Documents written per INSERT statement
+const IMPORT_BATCH_SIZE = 200;
+
+const PROVINCE_CODES: Record<string, string> = {
+  ca: 'canada',
+  federal: 'canada',
+  on: 'ontario',
+  qc: 'quebec',
+  bc: 'british-columbia',
+  ab: 'alberta',
+  mb: 'manitoba',
+  sk: 'saskatchewan',
+  ns: 'nova-scotia',
+  nb: 'new-brunswick',
+  nl: 'newfoundland',
+  'newfoundland-and-labrador': 'newfoundland',
+  pe: 'pei',
+  'prince-edward-island': 'pei',
+  yt: 'yukon',
+  nt: 'northwest-territories',
+  nu: 'nunavut',
+};
+
+const ACCENTED = 'àâäáãéèêëíîïìóôöòõúûüùçñÿ';
+const UNACCENTED = 'aaaaaeeeeiiiiooooouuuucny';
+
+function foldAccents(value: string): string {
+  return value.split('').map(char => {
+    const index = ACCENTED.indexOf(char);
+    return index === -1 ? char : UNACCENTED[index];
+  }).join('');
+}
+
+/**
+ * Jurisdictions are stored as the slugs used by the research form, such as
+ * "british-columbia"; province codes and French names are accepted
+ */
+export function normalizeJurisdiction(value: string | undefined | null): string {
+  const slug = foldAccents((value || 'canada').trim().toLowerCase())
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+  return PROVINCE_CODES[slug] || slug || 'canada';
+}
+
+/**
+ * The citation with case, spaces and punctuation removed, so "2005 SCC 63"
+ * and "2005 scc 63." match
+ */
+export function citationKey(citation: string): string {
+  return foldAccents(citation.toLowerCase()).replace(/[^a-z0-9]/g, '');
+}
+
+const corpusDocumentSchema = z.object({
+  kind: z.enum(['statute', 'case']),
+  title: z.string().trim().min(1, 'title is required'),
+  citation: z.string().trim().min(1, 'citation is required'),
+  jurisdiction: z.string().optional(),
+  court: z.string().trim().optional(),
+  year: z.coerce.number().int().min(1600).max(2100).optional(),
+  decisionDate: z.string().trim().optional(),
+  summary: z.string().trim().optional(),
+  body: z.string().optional(),
+  keyPoints: z.array(z.string().trim().min(1)).optional(),
+  url: z.string().url().optional(),
+  language: z.enum(['en', 'fr']).optional(),
+});
+
+export interface CorpusDump {
+  source?: string;
+  documents: unknown[];
+}
+
+export interface CorpusImportReport {
+  source: string;
+  dryRun: boolean;
+  total: number;
+  valid: number; // Distinct valid documents, which a dry run would save
+  inserted: number;
+  updated: number;
+  duplicates: number; // Documents repeated within the dump; the last one is kept
+  invalid: { index: number; citation?: string; issues: string[] }[];
+}
+
+// XML elements arrive as objects; attributes and text nodes are flattened
+function flattenXmlElement(element: any): Record<string, unknown> {
+  if (typeof element !== 'object' || element === null) {
+    return {};
+  }
+  const flat: Record<string, unknown> = {};
+  Object.keys(element).forEach(key => {
+    const value = element[key];
+    const name = key.startsWith('@_') ? key.slice(2) : key;
+    if (value && typeof value === 'object' && !Array.isArray(value) && '#text' in value) {
+      flat[name] = value['#text'];
+    } else {
+      flat[name] = value;
+    }
+  });
+  if (flat.keyPoints && typeof flat.keyPoints === 'object' && !Array.isArray(flat.keyPoints)) {
+    flat.keyPoints = (flat.keyPoints as any).point || [];
+  }
+  return flat;
+}
+
+/**
+ * Read a JSON or XML dump
+ */
+export function parseCorpusDump(content: string): CorpusDump {
+  const trimmed = content.replace(/^\uFEFF/, '').trim();
+
+  if (trimmed.startsWith('<')) {
+    const parser = new XMLParser({
+      ignoreAttributes: false,
+      attributeNamePrefix: '@_',
+      parseTagValue: false,
+      parseAttributeValue: false,
+      trimValues: true,
+      isArray: (name) => name === 'statute' || name === 'case' || name === 'point',
+    });
+    let parsed: any;
+    try {
+      parsed = parser.parse(trimmed);
+    } catch (error) {
+      throw new CorpusImportError(`The corpus dump is not valid XML: ${(error as Error).message}`);
+    }
+    const corpus = parsed?.corpus;
+    if (!corpus || typeof corpus !== 'object') {
+      throw new CorpusImportError('An XML corpus dump must have a <corpus> root element');
+    }
+    return {
+      source: corpus['@_source'],
+      documents: [
+        ...(corpus.statute || []).map((element: any) => ({ ...flattenXmlElement(element), kind: 'statute' })),
+        ...(corpus.case || []).map((element: any) => ({ ...flattenXmlElement(element), kind: 'case' })),
+      ],
+    };
+  }
+
+  let parsed: any;
+  try {
+    parsed = JSON.parse(trimmed);
+  } catch (error) {
+    throw new CorpusImportError(`The corpus dump is not valid JSON or XML: ${(error as Error).message}`);
+  }
+  if (Array.isArray(parsed)) {
+    return { documents: parsed };
+  }
+  if (!parsed || !Array.isArray(parsed.documents)) {
+    throw new CorpusImportError('A JSON corpus dump must be an array of documents or an object with a "documents" array');
+  }
+  return { source: typeof parsed.source === 'string' ? parsed.source : undefined, documents: parsed.documents };
+}
+
+/**
+ * Validate and save the documents of a dump. Nothing is written on a dry run.
+ */
+export async function importCorpusDump(
+  content: string,
+  options: { source?: string; dryRun?: boolean } = {}
+): Promise<CorpusImportReport> {
+  const dump = parseCorpusDump(content);
+  const source = (options.source || dump.source || '').trim();
+  if (!source) {
+    throw new CorpusImportError('The corpus dump needs a source name, either in the dump or as an option');
+  }
+
+  const report: CorpusImportReport = {
+    source,
+    dryRun: !!options.dryRun,
+    total: dump.documents.length,
+    valid: 0,
+    inserted: 0,
+    updated: 0,
+    duplicates: 0,
+    invalid: [],
+  };
+
+  const rows: Record<string, InsertResearchCorpusDocument> = {};
+  dump.documents.forEach((raw, index) => {
+    const parsed = corpusDocumentSchema.safeParse(raw);
+    if (!parsed.success) {
+      report.invalid.push({
+        index,
+        citation: typeof (raw as any)?.citation === 'string' ? (raw as any).citation : undefined,
+        issues: parsed.error.errors.map(issue => `${issue.path.join('.') || 'document'}: ${issue.message}`),
+      });
+      return;
+    }
+
+    const document = parsed.data;
+    const language = document.language || 'en';
+    const key = citationKey(document.citation);
+    if (!key) {
+      report.invalid.push({ index, citation: document.citation, issues: ['citation: must contain letters or digits'] });
+      return;
+    }
+
+    const rowKey = `${document.kind}|${key}|${language}`;
+    if (rows[rowKey]) {
+      report.duplicates++;
+    }
+    rows[rowKey] = {
+      kind: document.kind,
+      title: document.title,
+      citation: document.citation,
+      citationKey: key,
+      jurisdiction: normalizeJurisdiction(document.jurisdiction),
+      court: document.court || null,
+      year: document.year ?? null,
+      decisionDate: document.decisionDate || null,
+      summary: document.summary || null,
+      body: document.body || null,
+      keyPoints: document.keyPoints || null,
+      url: document.url || null,
+      language,
+      source,
+    };
+  });
+
+  const values = Object.keys(rows).map(rowKey => rows[rowKey]);
+  report.valid = values.length;
+  if (report.dryRun) {
+    return report;
+  }
+
+  for (let start = 0; start < values.length; start += IMPORT_BATCH_SIZE) {
+    const saved = await db
+      .insert(researchCorpusDocuments)
+      .values(values.slice(start, start + IMPORT_BATCH_SIZE))
+      .onConflictDoUpdate({
+        target: [researchCorpusDocuments.kind, researchCorpusDocuments.citationKey, researchCorpusDocuments.language],
+        set: {
+          title: sql`excluded.title`,
+          citation: sql`excluded.citation`,
+          jurisdiction: sql`excluded.jurisdiction`,
+          court: sql`excluded.court`,
+          year: sql`excluded.year`,
+          decisionDate: sql`excluded.decision_date`,
+          summary: sql`excluded.summary`,
+          body: sql`excluded.body`,
+          keyPoints: sql`excluded.key_points`,
+          url: sql`excluded.url`,
+          source: sql`excluded.source`,
+          updatedAt: new Date(),
+        },
+      })
+      // xmax is 0 only for rows this statement inserted
+      .returning({ inserted: sql<boolean>`(xmax = 0)` });
+
+    saved.forEach(row => {
+      if (row.inserted) {
+        report.inserted++;
+      } else {
+        report.updated++;
+      }
+    });
+  }
+
+  return report;
+}
+
+export interface CorpusSearchOptions {
+  query: string;
+  jurisdiction?: string; // Federal documents are included for every jurisdiction
+  language?: KnowledgeSearchLanguage;
+  kinds?: CorpusDocumentKind[];
+  limit?: number;
+}
+
+export interface CorpusMatch {
+  document: ResearchCorpusDocument;
+  rank: number;
+}
+
+/**
+ * Rank corpus documents against a research query
+ */
+export async function searchCorpus(options: CorpusSearchOptions): Promise<CorpusMatch[]> {
+  const language: KnowledgeSearchLanguage = options.language === 'fr' ? 'fr' : 'en';
+  const limit = Math.min(Math.max(Math.floor(options.limit || 10), 1), 50);
+  const jurisdiction = normalizeJurisdiction(options.jurisdiction);
+
+  const conditions: SQL[] = [
+    sql`${researchCorpusSearchDocument} @@ search.query`,
+    sql`coalesce(language, 'en') = ${language}`,
+    sql`jurisdiction = ANY(${sql.param(jurisdiction === 'canada' ? ['canada'] : [jurisdiction, 'canada'])}::text[])`,
+  ];
+  if (options.kinds && options.kinds.length > 0) {
+    conditions.push(sql`kind = ANY(${sql.param(options.kinds)}::text[])`);
+  }
+
+  const rows = await db.execute(sql`
+    WITH search AS (SELECT websearch_to_tsquery(${SEARCH_CONFIGS[language]}::regconfig, ${options.query}) AS query)
+    SELECT research_corpus_documents.id, ts_rank_cd(${researchCorpusSearchDocument}, search.query) AS rank
+    FROM research_corpus_documents, search
+    WHERE ${sql.join(conditions, sql` AND `)}
+    ORDER BY rank DESC, id
+    LIMIT ${limit}
+  `);
+
+  const ranks: Record<number, number> = {};
+  rows.forEach((row: any) => {
+    ranks[row.id] = Number(row.rank);
+  });
+  const ids = Object.keys(ranks).map(Number);
+  if (ids.length === 0) {
+    return [];
+  }
+
+  const documents = await getCorpusDocuments(sql`id = ANY(${sql.param(ids)}::int[])`);
+  return documents
+    .map(document => ({ document, rank: ranks[document.id] }))
+    .sort((a, b) => b.rank - a.rank || a.document.id - b.document.id);
+}
+
+/**
+ * Documents with any of the given citations, in any language
+ */
+export async function findCorpusDocumentsByCitation(citations: string[]): Promise<ResearchCorpusDocument[]> {
+  const keys = citations.map(citationKey).filter(Boolean);
+  if (keys.length === 0) {
+    return [];
+  }
+  return await getCorpusDocuments(sql`citation_key = ANY(${sql.param(keys)}::text[])`);
+}
+
+async function getCorpusDocuments(where: SQL): Promise<ResearchCorpusDocument[]> {
+  return await db.select().from(researchCorpusDocuments).where(where);
+}
+
+export async function countCorpusDocuments(): Promise<{ source: string; kind: string; count: number }[]> {
+  const rows = await db.execute(sql`
+    SELECT source, kind, count(*)::int AS count
+    FROM research_corpus_documents
+    GROUP BY source, kind
+    ORDER BY source, kind
+  `);
+  return rows.map((row: any) => ({ source: row.source, kind: row.kind, count: Number(row.count) }));
+}
@@ -0,0 +1,77 @@
+import { test, describe, before } from 'node:test';
+import assert from 'node:assert/strict';
+import type { ResearchFindings } from './researchSources';
+import type { ResearchLaw, mergeFindings as MergeFindings } from './researchService';
+
+let mergeFindings: typeof MergeFindings;
+
+function corpusLaw(source: string, description: string): ResearchLaw {
+  return {
+    title: `Corpus ${source}`,
+    description,
+    source,
+    provenance: [{ source: 'corpus', label: 'Research corpus', verified: true, reference: source }],
+  };
+}
+
+function aiLaw(source: string, description: string): ResearchLaw {
+  return {
+    title: `AI ${source}`,
+    description,
+    source,
+    provenance: [{ source: 'ai', label: 'AI analysis', verified: false }],
+  };
+}
+
+const findings = (laws: ResearchLaw[]): ResearchFindings => ({ laws, cases: [] });
+
+describe('mergeFindings', () => {
+  before(async () => {
+    // The AI clients are created on import and need a key, though these tests never call them
+    process.env.OPENAI_API_KEY = process.env.OPENAI_API_KEY || 'test-key';
+    ({ mergeFindings } = await import('./researchService'));
+  });
+
+  test('keeps statutes whose chapter numbers are prefixes of each other apart', () => {
+    const merged = mergeFindings([
+      { source: 'corpus', findings: findings([corpusLaw('R.S.C. 1985, c. C-44', 'Canada Business Corporations Act')]) },
+      { source: 'ai', findings: findings([aiLaw('R.S.C. 1985, c. C-446', 'Another statute'), aiLaw('R.S.C. 1985, c. C-4', 'A third statute')]) },
+    ]);
+
+    assert.equal(merged.laws.length, 3);
+    const corpus = merged.laws.find(law => law.source === 'R.S.C. 1985, c. C-44');
+    assert.equal(corpus?.description, 'Canada Business Corporations Act');
+    assert.deepEqual(corpus?.provenance?.map(entry => entry.source), ['corpus']);
+    assert.equal(merged.laws.find(law => law.source === 'R.S.C. 1985, c. C-446')?.verified, false);
+  });
+
+  test('merges an identical citation into one verified item', () => {
+    const merged = mergeFindings([
+      { source: 'corpus', findings: findings([corpusLaw('R.S.C. 1985, c. C-46', 'Criminal Code')]) },
+      { source: 'ai', findings: findings([aiLaw('R.S.C. 1985, c. C-46.', 'Criminal Code, as the AI describes it')]) },
+    ]);
+
+    assert.equal(merged.laws.length, 1);
+    assert.equal(merged.laws[0].verified, true);
+    assert.deepEqual(merged.laws[0].provenance?.map(entry => entry.source), ['corpus', 'ai']);
+  });
+
+  test('merges a citation with an act title and section pinpoint into the statute', () => {
+    const merged = mergeFindings([
+      { source: 'corpus', findings: findings([corpusLaw('R.S.C. 1985, c. 3 (2nd Supp.)', 'Divorce Act')]) },
+      { source: 'ai', findings: findings([aiLaw('Divorce Act, R.S.C. 1985, c. 3 (2nd Supp.), s. 15.1', 'Child support orders')]) },
+    ]);
+
+    assert.equal(merged.laws.length, 1);
+    assert.deepEqual(merged.laws[0].provenance?.map(entry => entry.source), ['corpus', 'ai']);
+  });
+
+  test('merges a Civil Code article into the code', () => {
+    const merged = mergeFindings([
+      { source: 'corpus', findings: findings([corpusLaw('CQLR c. CCQ-1991', 'Civil Code of Québec')]) },
+      { source: 'ai', findings: findings([aiLaw('CQLR c. CCQ-1991, art. 1457', 'Extra-contractual liability')]) },
+    ]);
+
+    assert.equal(merged.laws.length, 1);
+  });
+});
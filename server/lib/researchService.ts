@@ -1,186 +1,296 @@
 /**
  * Enhanced Legal Research Service
- * 
- * This module provides enhanced legal research capabilities with:
- * - Caching for frequently asked research queries
- * - Tiered fallback between AI providers
- * - Detailed error handling and logging
- * - Mock data fallback for testing
+ *
+ * This module runs a research query through the configured research sources
+ * (see researchSources.ts) and merges what they find into one result:
+ * - The same statute or case found by several sources becomes one item that
+ *   lists every source in its provenance
+ * - Items confirmed by a primary source are marked verified and listed first
+ * - The status of each source is reported, so the client can say when the
+ *   AI summary or the corpus was unavailable
+ * - Case citations are checked and formatted (see citations.ts); malformed or
+ *   impossible ones are flagged rather than dropped
+ *
+ * Nothing is ever made up to fill an empty result: when no source finds
+ * anything the result says so.
  */
 
-import { aiFeatureFlags, enhancedAIRequest } from './aiService';
-import { performLegalResearch as performDeepSeekResearch } from './deepseek';
-import { performLegalResearch as performOpenAIResearch } from './openai';
-import { performLegalResearch as performClaudeResearch } from './anthropic';
-import { getMockResearchData } from './mockResearchData';
+import { checkCitation, checkCitationsInText, formatMcGill, type CitationIssue } from './citations';
+import { citationKey } from './researchCorpus';
+import {
+  getResearchSources,
+  ResearchSourceUnavailableError,
+  type ResearchFindings,
+  type ResearchRequest
+} from './researchSources';
 
-// Claude research result format
-interface ClaudeResearchResult {
-  summary: string;
-  cases: { name: string; citation: string; relevance: string }[];
-  statutes: { name: string; citation: string; relevance: string }[];
-  analysis: string;
+export type ResearchSourceId = 'corpus' | 'ai' | 'citation';
+
+// Where a research item came from
+export interface ResearchProvenance {
+  source: ResearchSourceId;
+  label: string;
+  verified: boolean; // Backed by a primary source rather than model output
+  reference?: string; // Corpus document ID or resolved URL
+  note?: string;
+}
+
+export interface ResearchLaw {
+  title: string;
+  description: string;
+  source: string;
+  url?: string;
+  relevanceScore?: number;
+  provenance?: ResearchProvenance[];
+  verified?: boolean;
+}
+
+export interface ResearchCase {
+  name: string;
+  citation: string;
+  relevance: string;
+  year?: string;
+  jurisdiction?: string;
+  judgment?: string;
+  keyPoints?: string[];
+  url?: string;
+  provenance?: ResearchProvenance[];
+  verified?: boolean;
+  formattedCitation?: string; // McGill Guide form
+  citationIssues?: CitationIssue[];
+}
+
+export interface ResearchSourceStatus {
+  id: ResearchSourceId;
+  label: string;
+  status: 'ok' | 'empty' | 'unavailable' | 'failed';
+  items: number;
+  message?: string;
 }
 
 // Research result interface
 export interface ResearchResult {
-  relevantLaws: { 
-    title: string; 
-    description: string; 
-    source: string;
-    url?: string;
-    relevanceScore?: number;
-  }[];
-  relevantCases: { 
-    name: string; 
-    citation: string; 
-    relevance: string;
-    year?: string;
-    jurisdiction?: string;
-    judgment?: string;
-    keyPoints?: string[];
-    url?: string;
-  }[];
+  relevantLaws: ResearchLaw[];
+  relevantCases: ResearchCase[];
   summary: string;
   legalConcepts?: {
     concept: string;
     definition: string;
     relevance: string;
   }[];
+  sources?: ResearchSourceStatus[];
+  citationIssues?: CitationIssue[]; // Found in the summary
+}
+
+// Sources whose fields win when the same item is found more than once
+const SOURCE_PRIORITY: ResearchSourceId[] = ['corpus', 'citation', 'ai'];
+
+// Explanations of why an item matters to this query, best written by the summarizer
+const QUERY_SPECIFIC_FIELDS = ['description', 'relevance'];
+
+function isBlank(value: unknown): boolean {
+  return value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0);
+}
+
+function mergeItem<T extends ResearchLaw | ResearchCase>(merged: T, incoming: T, incomingSource: ResearchSourceId): T {
+  const result: any = { ...merged };
+  Object.keys(incoming).forEach(field => {
+    if (field === 'provenance' || field === 'verified') return;
+    const value = (incoming as any)[field];
+    if (isBlank(value)) return;
+    if (isBlank(result[field]) || (incomingSource === 'ai' && QUERY_SPECIFIC_FIELDS.indexOf(field) !== -1)) {
+      result[field] = value;
+    }
+  });
+
+  const provenance = [...(merged.provenance || [])];
+  (incoming.provenance || []).forEach(entry => {
+    if (!provenance.some(existing => existing.source === entry.source && existing.reference === entry.reference)) {
+      provenance.push(entry);
+    }
+  });
+  result.provenance = provenance;
+  result.verified = provenance.some(entry => entry.verified);
+  return result;
 }
 
 /**
- * Enhanced legal research function with fallback and caching
+ * Combine items from several sources, keyed by citation. `findKey` may match
+ * an incoming item to one that is already merged, e.g. a statute cited with
+ * a section number.
+ */
+function mergeItems<T extends ResearchLaw | ResearchCase>(
+  lists: { source: ResearchSourceId; items: T[] }[],
+  ownKey: (item: T) => string,
+  findKey: (item: T, merged: Record<string, T>) => string | undefined
+): T[] {
+  const merged: Record<string, T> = {};
+  const order: string[] = [];
+  lists.forEach(({ source, items }) => {
+    items.forEach(item => {
+      const key = findKey(item, merged) || ownKey(item);
+      if (!key) return;
+      if (merged[key]) {
+        merged[key] = mergeItem(merged[key], item, source);
+      } else {
+        merged[key] = { ...item, verified: (item.provenance || []).some(entry => entry.verified) };
+        order.push(key);
+      }
+    });
+  });
+
+  // Stable: verified items first, otherwise in source priority and rank order
+  return order
+    .map((key, index) => ({ item: merged[key], index }))
+    .sort((a, b) => Number(!!b.item.verified) - Number(!!a.item.verified) || a.index - b.index)
+    .map(entry => entry.item);
+}
+
+function lawKey(law: ResearchLaw): string {
+  return citationKey(law.source) || `title:${citationKey(law.title)}`;
+}
+
+function caseKey(item: ResearchCase): string {
+  return citationKey(item.citation) || `name:${citationKey(item.name)}`;
+}
+
+// A pinpoint after the statute citation: ", s. 15.1", "ss. 3-5", "art. 1457"
+const SECTION_MARKER = /,?\s*(?:ss?\.|sections?|arts?\.|articles?)\s*\d[\s\S]*$/i;
+
+/**
+ * The keys a statute citation can match: the citation itself, then without
+ * its section pinpoint, then without a leading act title.
+ * "Divorce Act, R.S.C. 1985, c. 3 (2nd Supp.), s. 15.1" matches the corpus's
+ * "R.S.C. 1985, c. 3 (2nd Supp.)", but "R.S.C. 1985, c. C-446" never matches
+ * "R.S.C. 1985, c. C-44".
+ */
+function statuteKeys(citation: string): string[] {
+  const withoutSection = citation.replace(SECTION_MARKER, '').trim();
+  const segments = withoutSection.split(',');
+  const withoutTitle = segments.length > 1 && !/\d/.test(segments[0]) ? segments.slice(1).join(',') : '';
+  return [citation, withoutSection, withoutTitle]
+    .map(citationKey)
+    .filter((key, index, keys) => key && keys.indexOf(key) === index);
+}
+
+/**
+ * Merge findings, given in the order the sources ran
+ */
+export function mergeFindings(findings: { source: ResearchSourceId; findings: ResearchFindings }[]): ResearchFindings {
+  const ordered = [...findings].sort((a, b) => SOURCE_PRIORITY.indexOf(a.source) - SOURCE_PRIORITY.indexOf(b.source));
+
+  const laws = mergeItems(
+    ordered.map(entry => ({ source: entry.source, items: entry.findings.laws })),
+    lawKey,
+    (law, merged) => {
+      const keys = statuteKeys(law.source);
+      return keys.find(key => merged[key]);
+    }
+  );
+  const cases = mergeItems(
+    ordered.map(entry => ({ source: entry.source, items: entry.findings.cases })),
+    caseKey,
+    (item, merged) => (merged[caseKey(item)] ? caseKey(item) : undefined)
+  );
+
+  const summarized = findings.find(entry => entry.findings.summary);
+  const withConcepts = findings.find(entry => entry.findings.legalConcepts && entry.findings.legalConcepts.length > 0);
+  return {
+    laws,
+    cases,
+    summary: summarized?.findings.summary,
+    legalConcepts: withConcepts?.findings.legalConcepts,
+  };
+}
+
+/**
+ * Fill in what the citation says about each case and flag bad citations
+ */
+function checkCaseCitations(cases: ResearchCase[]): ResearchCase[] {
+  return cases.map(item => {
+    if (!item.citation) {
+      return item;
+    }
+    const check = checkCitation(item.citation);
+    return {
+      ...item,
+      year: item.year || (check.citation ? String(check.citation.year) : undefined),
+      jurisdiction: item.jurisdiction || check.citation?.jurisdiction,
+      formattedCitation: check.citation ? formatMcGill(check.citation, item.name) : undefined,
+      citationIssues: check.issues.length > 0 ? check.issues : undefined,
+    };
+  });
+}
+
+function describeResult(findings: ResearchFindings, statuses: ResearchSourceStatus[]): string {
+  const verified = findings.laws.filter(law => law.verified).length + findings.cases.filter(item => item.verified).length;
+  const total = findings.laws.length + findings.cases.length;
+  if (total === 0) {
+    return "No statutes or cases matched this query in the available research sources. Try different keywords or a broader jurisdiction.";
+  }
+  const ai = statuses.find(status => status.id === 'ai');
+  const reason = ai && ai.status !== 'ok' ? 'AI summary unavailable. ' : '';
+  return `${reason}${verified} of ${total} authorities below were found in verified sources. Review each one before relying on it.`;
+}
+
+/**
+ * Research a query across all configured sources
  */
 export async function enhancedLegalResearch(
   query: string,
   jurisdiction: string = "canada",
-  practiceArea: string = "all"
+  practiceArea: string = "all",
+  options: { language?: 'en' | 'fr' } = {}
 ): Promise<ResearchResult> {
-  if (!aiFeatureFlags.enableAILegalResearch) {
-    // Return empty results if research is disabled
-    return {
-      relevantLaws: [],
-      relevantCases: [],
-      summary: "Legal research is currently disabled during development. Please try again later."
-    };
-  }
+  const request: ResearchRequest = {
+    query,
+    jurisdiction,
+    practiceArea,
+    language: options.language === 'fr' ? 'fr' : 'en',
+  };
 
-  try {
-    // Generate a cache key for this specific research request
-    const cacheKey = `research-${jurisdiction}-${practiceArea}-${query}`;
-    
-    // Track timing for this request
-    const startTime = Date.now();
-    
-    // Try each provider with fallback
+  const startTime = Date.now();
+  const findings: { source: ResearchSourceId; findings: ResearchFindings }[] = [];
+  const statuses: ResearchSourceStatus[] = [];
+  let merged: ResearchFindings = { laws: [], cases: [] };
+
+  for (const source of getResearchSources()) {
     try {
-      // Track which provider was used (for logging)
-      let provider = "DeepSeek";
-      
-      // Try DeepSeek first
-      try {
-        const result = await performDeepSeekResearch(query, jurisdiction, practiceArea);
-        
-        // Log success
-        const duration = Date.now() - startTime;
-        console.log(`Research: ${provider} request successful. Duration: ${duration}ms`);
-        
-        return result;
-      } catch (primaryError) {
-        console.warn("Primary research provider failed:", primaryError);
-        
-        // Try OpenAI next
-        provider = "OpenAI";
-        try {
-          const result = await performOpenAIResearch(query, jurisdiction, practiceArea);
-          
-          // Log success
-          const duration = Date.now() - startTime;
-          console.log(`Research: ${provider} fallback successful. Duration: ${duration}ms`);
-          
-          return result;
-        } catch (secondaryError) {
-          console.warn("Secondary research provider failed:", secondaryError);
-          
-          // Final fallback to Claude
-          provider = "Claude";
-          const claudeResult = await performClaudeResearch(query, jurisdiction, practiceArea) as ClaudeResearchResult;
-          
-          // Log success
-          const duration = Date.now() - startTime;
-          console.log(`Research: ${provider} final fallback successful. Duration: ${duration}ms`);
-          
-          // Convert Claude's format to our standard ResearchResult format
-          const result: ResearchResult = {
-            summary: claudeResult.summary,
-            relevantCases: claudeResult.cases.map(c => ({
-              name: c.name,
-              citation: c.citation,
-              relevance: c.relevance,
-              jurisdiction: jurisdiction
-            })),
-            relevantLaws: claudeResult.statutes.map(s => ({
-              title: s.name,
-              description: s.relevance,
-              source: s.citation,
-            })),
-            legalConcepts: claudeResult.analysis ? [{
-              concept: 'Legal Analysis',
-              definition: 'Comprehensive legal analysis',
-              relevance: claudeResult.analysis
-            }] : undefined
-          };
-          
-          return result;
-        }
-      }
+      const found = await source.research(request, merged);
+      findings.push({ source: source.id, findings: found });
+      merged = mergeFindings(findings);
+
+      const items = found.laws.length + found.cases.length;
+      statuses.push({
+        id: source.id,
+        label: source.label,
+        status: items > 0 || found.summary ? 'ok' : 'empty',
+        items,
+      });
     } catch (error) {
-      console.error("All research providers failed:", error);
-      
-      // Use mock data as the final fallback option
-      console.log(`Using mock data as fallback for query: "${query}"`);
-      const mockResult = getMockResearchData(query, jurisdiction, practiceArea);
-      
-      // Log that we're using mock data
-      const duration = Date.now() - startTime;
-      console.log(`Research: Mock data fallback successful. Duration: ${duration}ms`);
-      
-      return mockResult;
-    }
-  } catch (error) {
-    console.error("Unexpected research error:", error);
-    
-    // Use mock data even for unexpected errors
-    try {
-      console.log(`Using mock data as fallback due to unexpected error`);
-      return getMockResearchData(query, jurisdiction, practiceArea);
-    } catch (mockError) {
-      // In case mock data also fails, return a generic error response
-      console.error("Mock data fallback also failed:", mockError);
-      return {
-        relevantLaws: [],
-        relevantCases: [],
-        summary: "An unexpected error occurred during research. Please try again."
-      };
+      const unavailable = error instanceof ResearchSourceUnavailableError;
+      if (!unavailable) {
+        console.error(`Research: ${source.label} failed:`, error);
+      }
+      statuses.push({
+        id: source.id,
+        label: source.label,
+        status: unavailable ? 'unavailable' : 'failed',
+        items: 0,
+        message: error instanceof Error ? error.message : String(error),
+      });
     }
   }
-}
 
-/**
- * Generate research prompt based on query parameters
- */
-export function generateResearchPrompt(query: string, jurisdiction: string, practiceArea: string): string {
-  // Format jurisdiction display name
-  const jurisdictionDisplay = jurisdiction === "canada" 
-    ? "Federal (Canada)" 
-    : jurisdiction.charAt(0).toUpperCase() + jurisdiction.slice(1).replace(/-/g, ' ');
-  
-  // Build practice area context
-  let practiceAreaContext = "";
-  if (practiceArea !== "all") {
-    practiceAreaContext = `with a focus on ${practiceArea.replace(/-/g, ' ')} law`;
-  }
-  
-  return `Research the following legal query for ${jurisdictionDisplay} ${practiceAreaContext}:\n\n${query}\n\nProvide detailed, jurisdiction-specific research with practical insights.`;
-}
\ No newline at end of file
+  console.log(`Research: ${statuses.map(status => `${status.id}=${status.status}`).join(', ')}. Duration: ${Date.now() - startTime}ms`);
+
+  const summaryIssues = merged.summary ? checkCitationsInText(merged.summary) : [];
+  return {
+    relevantLaws: merged.laws,
+    relevantCases: checkCaseCitations(merged.cases),
+    summary: merged.summary || describeResult(merged, statuses),
+    legalConcepts: merged.legalConcepts,
+    sources: statuses,
+    citationIssues: summaryIssues.length > 0 ? summaryIssues : undefined,
+  };
+}
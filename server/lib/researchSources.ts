@@ -0,0 +1,422 @@
+/**
+ * Legal Research Sources
+ *
+ * Each research source is an adapter that turns a research request into
+ * statutes and cases, tagged with where every item came from:
+ * - corpus: the local statute and case law corpus (see researchCorpus.ts);
+ *   works fully offline and its items are verified
+ * - ai: the AI summarizer; writes the summary and may suggest further
+ *   authorities, which stay unverified unless another source confirms them
+ * - citation: resolves neutral citations (e.g. 2005 SCC 63) from the query and
+ *   from the other sources to CanLII, verifying them against the corpus or
+ *   the CanLII API when CANLII_API_KEY is set
+ *
+ * Sources run in order and each one sees what the earlier ones found.
+ * researchService.ts merges the findings into a single ResearchResult.
+ */
+
+import { config } from '../config';
+import { aiFeatureFlags, enhancedAIRequest } from './aiService';
+import { canliiUrl, COURTS, findCitations, validateCitation, type ParsedCitation } from './citations';
+import {
+  citationKey,
+  findCorpusDocumentsByCitation,
+  searchCorpus,
+  type CorpusMatch
+} from './researchCorpus';
+import type {
+  ResearchCase,
+  ResearchLaw,
+  ResearchProvenance,
+  ResearchResult,
+  ResearchSourceId
+} from './researchService';
+import type { ResearchCorpusDocument } from '@shared/schema';
+
+export interface ResearchRequest {
+  query: string;
+  jurisdiction: string;
+  practiceArea: string;
+  language: 'en' | 'fr';
+}
+
+export interface ResearchFindings {
+  laws: ResearchLaw[];
+  cases: ResearchCase[];
+  summary?: string;
+  legalConcepts?: ResearchResult['legalConcepts'];
+}
+
+export interface ResearchSource {
+  readonly id: ResearchSourceId;
+  readonly label: string;
+  research(request: ResearchRequest, earlier: ResearchFindings): Promise<ResearchFindings>;
+}
+
+// Thrown when a source is switched off or not configured, as opposed to failing
+export class ResearchSourceUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ResearchSourceUnavailableError';
+  }
+}
+
+const CORPUS_RESULT_LIMIT = 10;
+const AI_CONTEXT_DOCUMENTS = 8;
+const CANLII_TIMEOUT_MS = 5000;
+
+function excerpt(text: string | null | undefined, length: number): string {
+  const value = (text || '').replace(/\s+/g, ' ').trim();
+  return value.length > length ? `${value.slice(0, length - 1).trimEnd()}…` : value;
+}
+
+function corpusProvenance(document: ResearchCorpusDocument): ResearchProvenance {
+  return {
+    source: 'corpus',
+    label: `Research corpus (${document.source})`,
+    verified: true,
+    reference: String(document.id),
+  };
+}
+
+export function corpusDocumentToLaw(document: ResearchCorpusDocument, relevanceScore?: number): ResearchLaw {
+  return {
+    title: document.title,
+    description: excerpt(document.summary || document.body, 600),
+    source: document.citation,
+    url: document.url || undefined,
+    relevanceScore,
+    provenance: [corpusProvenance(document)],
+    verified: true,
+  };
+}
+
+export function corpusDocumentToCase(document: ResearchCorpusDocument): ResearchCase {
+  const keyPoints = Array.isArray(document.keyPoints) ? document.keyPoints as string[] : [];
+  return {
+    name: document.title,
+    citation: document.citation,
+    relevance: excerpt(document.summary || document.body, 400),
+    year: document.year ? String(document.year) : undefined,
+    jurisdiction: document.jurisdiction || undefined,
+    judgment: document.summary || undefined,
+    keyPoints: keyPoints.length > 0 ? keyPoints : undefined,
+    url: document.url || undefined,
+    provenance: [corpusProvenance(document)],
+    verified: true,
+  };
+}
+
+/**
+ * Statutes and cases from the local research corpus
+ */
+export const corpusResearchSource: ResearchSource = {
+  id: 'corpus',
+  label: 'Research corpus',
+  async research(request) {
+    const query = request.practiceArea !== 'all'
+      ? `${request.query} ${request.practiceArea.replace(/-/g, ' ')}`
+      : request.query;
+    let matches: CorpusMatch[] = await searchCorpus({
+      query,
+      jurisdiction: request.jurisdiction,
+      language: request.language,
+      limit: CORPUS_RESULT_LIMIT,
+    });
+    if (matches.length === 0 && query !== request.query) {
+      // The practice area narrows the search; fall back to the query alone
+      matches = await searchCorpus({
+        query: request.query,
+        jurisdiction: request.jurisdiction,
+        language: request.language,
+        limit: CORPUS_RESULT_LIMIT,
+      });
+    }
+
+    const topRank = matches.length > 0 ? matches[0].rank || 1 : 1;
+    return {
+      laws: matches
+        .filter(match => match.document.kind === 'statute')
+        .map(match => corpusDocumentToLaw(match.document, Math.round((match.rank / topRank) * 100) / 100)),
+      cases: matches
+        .filter(match => match.document.kind === 'case')
+        .map(match => corpusDocumentToCase(match.document)),
+    };
+  },
+};
+
+function formatJurisdiction(jurisdiction: string): string {
+  return jurisdiction === 'canada'
+    ? 'Federal (Canada)'
+    : jurisdiction.charAt(0).toUpperCase() + jurisdiction.slice(1).replace(/-/g, ' ');
+}
+
+function describeCorpusContext(earlier: ResearchFindings): string {
+  const items = [
+    ...earlier.laws.map(law => `- Statute: ${law.title}, ${law.source}. ${excerpt(law.description, 400)}`),
+    ...earlier.cases.map(item => `- Case: ${item.name}, ${item.citation}. ${excerpt(item.relevance, 400)}`),
+  ].slice(0, AI_CONTEXT_DOCUMENTS);
+  return items.length > 0
+    ? `Verified authorities from our research corpus:\n${items.join('\n')}`
+    : 'Our research corpus has no authorities matching this query.';
+}
+
+function parseJsonObject(response: string): any {
+  const start = response.indexOf('{');
+  const end = response.lastIndexOf('}');
+  if (start === -1 || end <= start) {
+    throw new Error('The AI service did not return research results');
+  }
+  return JSON.parse(response.slice(start, end + 1));
+}
+
+function asText(value: unknown): string {
+  return typeof value === 'string' ? value.trim() : '';
+}
+
+function asList(value: unknown): any[] {
+  return Array.isArray(value) ? value.filter(item => item && typeof item === 'object') : [];
+}
+
+const AI_PROVENANCE: ResearchProvenance = {
+  source: 'ai',
+  label: 'AI summary',
+  verified: false,
+  note: 'Generated by an AI model and not checked against a primary source',
+};
+
+/**
+ * Summary and suggested authorities from the AI summarizer, grounded in what
+ * the corpus found
+ */
+export const aiResearchSource: ResearchSource = {
+  id: 'ai',
+  label: 'AI summary',
+  async research(request, earlier) {
+    if (!aiFeatureFlags.enableAILegalResearch) {
+      throw new ResearchSourceUnavailableError('AI legal research is disabled');
+    }
+
+    const practiceAreaContext = request.practiceArea !== 'all'
+      ? ` with a focus on ${request.practiceArea.replace(/-/g, ' ')} law`
+      : '';
+    const prompt = `Research the following legal query for ${formatJurisdiction(request.jurisdiction)}${practiceAreaContext}:
+
+${request.query}
+
+${describeCorpusContext(earlier)}
+
+Respond in ${request.language === 'fr' ? 'French' : 'English'} with a JSON object:
+{
+  "summary": "plain-language summary of the law that applies",
+  "relevantLaws": [{ "title": "", "description": "", "source": "official citation" }],
+  "relevantCases": [{ "name": "", "citation": "neutral citation where one exists", "relevance": "", "year": "" }],
+  "legalConcepts": [{ "concept": "", "definition": "", "relevance": "" }]
+}`;
+
+    const response = await enhancedAIRequest<unknown>(prompt, {
+      system: 'You are a Canadian legal research assistant. Base your answer on the verified authorities you are given. ' +
+        'Only cite other statutes or cases if you are certain they exist, with their exact citations; ' +
+        'they will be shown to the user as unverified. Never invent citations.',
+      temperature: 0.2,
+      taskType: 'research',
+      logPrefix: 'Research',
+    });
+
+    if (response && typeof response === 'object' && 'error' in response) {
+      throw new ResearchSourceUnavailableError((response as { message?: string }).message || 'The AI service is unavailable');
+    }
+    const parsed = typeof response === 'string' ? parseJsonObject(response) : response as any;
+
+    const laws: ResearchLaw[] = asList(parsed.relevantLaws)
+      .filter(law => asText(law.title))
+      .map(law => ({
+        title: asText(law.title),
+        description: asText(law.description),
+        source: asText(law.source),
+        url: asText(law.url) || undefined,
+        provenance: [AI_PROVENANCE],
+        verified: false,
+      }));
+    const cases: ResearchCase[] = asList(parsed.relevantCases)
+      .filter(item => asText(item.name))
+      .map(item => ({
+        name: asText(item.name),
+        citation: asText(item.citation),
+        relevance: asText(item.relevance),
+        year: asText(item.year) || (typeof item.year === 'number' ? String(item.year) : undefined),
+        jurisdiction: asText(item.jurisdiction) || undefined,
+        keyPoints: Array.isArray(item.keyPoints) ? item.keyPoints.filter((point: unknown) => typeof point === 'string') : undefined,
+        provenance: [AI_PROVENANCE],
+        verified: false,
+      }));
+    const legalConcepts = asList(parsed.legalConcepts)
+      .filter(concept => asText(concept.concept))
+      .map(concept => ({
+        concept: asText(concept.concept),
+        definition: asText(concept.definition),
+        relevance: asText(concept.relevance),
+      }));
+
+    return {
+      laws,
+      cases,
+      summary: asText(parsed.summary) || undefined,
+      legalConcepts: legalConcepts.length > 0 ? legalConcepts : undefined,
+    };
+  },
+};
+
+interface CanliiCaseMetadata {
+  title?: string;
+  citation?: string;
+  url?: string;
+  decisionDate?: string;
+}
+
+/**
+ * Look a decision up in the CanLII API; null when CanLII has no such decision
+ */
+async function fetchCanliiCase(citation: ParsedCitation, language: 'en' | 'fr'): Promise<CanliiCaseMetadata | null> {
+  const database = COURTS[citation.court!].canlii!;
+  const caseId = `${citation.year}${citation.court!.toLowerCase()}${citation.number}`;
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), CANLII_TIMEOUT_MS);
+  try {
+    const response = await fetch(
+      `https://api.canlii.org/v1/caseBrowse/${language}/${database.database}/${caseId}/?api_key=${encodeURIComponent(config.CANLII_API_KEY!)}`,
+      { headers: { Accept: 'application/json' }, signal: controller.signal }
+    );
+    if (response.status === 404) {
+      return null;
+    }
+    if (!response.ok) {
+      throw new Error(`CanLII API returned ${response.status}`);
+    }
+    return await response.json() as CanliiCaseMetadata;
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+/**
+ * CanLII links for neutral citations in the query and in the cases the
+ * earlier sources found. A citation counts as verified when the corpus has
+ * the decision or the CanLII API confirms it exists; otherwise it only gets a
+ * constructed link.
+ */
+export const citationResearchSource: ResearchSource = {
+  id: 'citation',
+  label: 'CanLII citation resolver',
+  async research(request, earlier) {
+    // Impossible citations, such as a court's code before it existed, are not looked up
+    const resolvable = (text: string) => findCitations(text)
+      .filter(citation => citation.type === 'neutral' && validateCitation(citation).length === 0);
+
+    const byKey: Record<string, { citation: ParsedCitation; name?: string }> = {};
+    resolvable(request.query).forEach(citation => {
+      byKey[citationKey(citation.normalized)] = { citation };
+    });
+    earlier.cases.forEach(item => {
+      resolvable(item.citation).forEach(citation => {
+        const key = citationKey(citation.normalized);
+        byKey[key] = { citation, name: byKey[key]?.name || item.name };
+      });
+    });
+    const keys = Object.keys(byKey);
+    if (keys.length === 0) {
+      return { laws: [], cases: [] };
+    }
+
+    const corpusDocuments = await findCorpusDocumentsByCitation(keys.map(key => byKey[key].citation.normalized));
+    const inCorpus: Record<string, ResearchCorpusDocument> = {};
+    corpusDocuments
+      .filter(document => document.kind === 'case')
+      .forEach(document => {
+        if (!inCorpus[document.citationKey] || document.language === request.language) {
+          inCorpus[document.citationKey] = document;
+        }
+      });
+
+    const cases: ResearchCase[] = [];
+    for (const key of keys) {
+      const { citation, name } = byKey[key];
+      const url = canliiUrl(citation, request.language);
+
+      if (inCorpus[key]) {
+        const resolved = corpusDocumentToCase(inCorpus[key]);
+        cases.push({ ...resolved, url: resolved.url || url || undefined });
+        continue;
+      }
+      if (!url) {
+        continue;
+      }
+
+      let provenance: ResearchProvenance = {
+        source: 'citation',
+        label: 'CanLII',
+        verified: false,
+        reference: url,
+        note: 'Link built from the citation; not checked against CanLII',
+      };
+      let metadata: CanliiCaseMetadata | null = null;
+      if (config.CANLII_API_KEY) {
+        try {
+          metadata = await fetchCanliiCase(citation, request.language);
+          if (!metadata) {
+            // CanLII has no decision with this citation; drop the link
+            continue;
+          }
+          provenance = { source: 'citation', label: 'CanLII', verified: true, reference: metadata.url || url };
+        } catch (error) {
+          console.warn(`Research: CanLII lookup for ${citation.normalized} failed:`, error);
+        }
+      }
+
+      cases.push({
+        name: metadata?.title || name || citation.normalized,
+        citation: metadata?.citation || citation.normalized,
+        relevance: '',
+        year: String(citation.year),
+        jurisdiction: citation.jurisdiction,
+        url: metadata?.url || url,
+        provenance: [provenance],
+        verified: provenance.verified,
+      });
+    }
+
+    return { laws: [], cases };
+  },
+};
+
+const RESEARCH_SOURCES: Record<ResearchSourceId, ResearchSource> = {
+  corpus: corpusResearchSource,
+  ai: aiResearchSource,
+  citation: citationResearchSource,
+};
+
+let configuredSources: ResearchSource[] | undefined;
+
+/**
+ * The sources enabled by RESEARCH_SOURCES, in the order they run
+ */
+export function getResearchSources(): ResearchSource[] {
+  if (!configuredSources) {
+    configuredSources = config.RESEARCH_SOURCES
+      .split(',')
+      .map(id => id.trim())
+      .filter((id): id is ResearchSourceId => {
+        if (!(id in RESEARCH_SOURCES)) {
+          if (id) console.warn(`Research: ignoring unknown research source "${id}"`);
+          return false;
+        }
+        return true;
+      })
+      .map(id => RESEARCH_SOURCES[id]);
+  }
+  return configuredSources;
+}
+
+export function setResearchSources(sources: ResearchSource[] | undefined): void {
+  configuredSources = sources;
+}
@@ -0,0 +1,675 @@
+/**
+ * Settlement Negotiation
+ *
+ * Settlement proposals are negotiated in threads. A counter-proposal links to
+ * the proposal it answers, which is marked countered, and takes the next
+ * round number. This module:
+ * - Reads structured terms (amounts, dates, obligations) from a proposal's
+ *   termsAndConditions and diffs them term by term between rounds
+ * - Checks edits to an open proposal and answers to it
+ * - Lapses open proposals once their expiresAt has passed, on a schedule and
+ *   whenever a dispute's proposals are listed
+ * - Builds the zone of agreement: each side's latest position on every term,
+ *   the gap between them and whether it is closing, with an AI summary and
+ *   suggested compromises on top
+ *
+ * A term carried into a counter-proposal unchanged counts as accepted by the
+ * side that made the counter.
+ */
+
+import { z } from 'zod';
+import { storage } from '../storage';
+import { config } from '../config';
+import { settlementTermSchema, type SettlementProposal, type SettlementTerm } from '@shared/schema';
+import { enhancedAIRequest } from './aiService';
+import { logger } from '../utils/logger';
+
+// Statuses in which a proposal still awaits an answer
+export const OPEN_STATUSES = ['draft', 'proposed', 'pending'];
+
+// Statuses that answer a proposal
+export const ANSWER_STATUSES = ['accepted', 'rejected'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class NegotiationError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'NegotiationError';
+  }
+}
+
+export type TermChangeType = 'added' | 'removed' | 'changed' | 'unchanged';
+
+export interface TermChange {
+  key: string;
+  label: string;
+  type: SettlementTerm['type'];
+  change: TermChangeType;
+  before: SettlementTerm | null;
+  after: SettlementTerm | null;
+  amountDelta?: number; // after - before, for amounts
+  dayShift?: number; // Days the date moved, for dates
+}
+
+export interface NegotiationRound {
+  proposal: SettlementProposal;
+  terms: SettlementTerm[];
+  changes: TermChange[]; // Against the proposal it counters; empty for the opening proposal
+}
+
+export interface CounterProposalInput {
+  title: string;
+  content: string;
+  terms: SettlementTerm[];
+  documentId?: number;
+  expiresAt?: Date;
+}
+
+export type ConvergenceStatus = 'agreed' | 'converging' | 'diverging' | 'apart' | 'unanswered';
+
+export interface TermPosition {
+  userId: number | null;
+  round: number;
+  value: string | number | null; // null when this side dropped the term
+}
+
+export interface TermConvergence {
+  key: string;
+  label: string;
+  type: SettlementTerm['type'];
+  status: ConvergenceStatus;
+  positions: TermPosition[]; // Latest position of each side
+  gap: number | null; // Between the sides' latest amounts
+  previousGap: number | null; // Before the gap last changed
+  midpoint: number | null;
+}
+
+export interface ZoneOfAgreement {
+  rounds: number;
+  terms: TermConvergence[];
+  agreedCount: number;
+  openCount: number;
+  summary: string;
+  suggestions: string[];
+  aiGenerated: boolean; // False when the AI service failed and the summary was computed
+  generatedAt: Date;
+}
+
+/**
+ * Accepts termsAndConditions as sent by clients: JSON, a JSON string, or
+ * free text kept as a string
+ */
+export function parseTermsAndConditions(value: unknown): unknown {
+  if (typeof value !== 'string') {
+    return value;
+  }
+  try {
+    return JSON.parse(value);
+  } catch (error) {
+    return value;
+  }
+}
+
+function humanize(key: string): string {
+  const words = key.replace(/([a-z])([A-Z])/g, '$1 $2').replace(/[_-]+/g, ' ').trim();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+function inferTerm(key: string, value: unknown): SettlementTerm | null {
+  if (typeof value === 'number' && isFinite(value)) {
+    return { key, label: humanize(key), type: 'amount', value };
+  }
+  if (typeof value === 'string' && value.trim()) {
+    const type = /^\d{4}-\d{2}-\d{2}/.test(value) ? 'date' : 'text';
+    return { key, label: humanize(key), type, value: value.trim() };
+  }
+  if (typeof value === 'boolean') {
+    return { key, label: humanize(key), type: 'obligation', value: value ? 'Yes' : 'No' };
+  }
+  return null;
+}
+
+/**
+ * The structured terms of a proposal. Earlier proposals stored terms as a
+ * plain object or free text, so those are read too: object entries become
+ * terms of the type their value suggests and free text one text term.
+ */
+export function readTerms(raw: unknown): SettlementTerm[] {
+  const value = parseTermsAndConditions(raw);
+  const terms: SettlementTerm[] = [];
+
+  if (Array.isArray(value)) {
+    for (const item of value) {
+      const parsed = settlementTermSchema.safeParse(item);
+      if (parsed.success) {
+        terms.push(parsed.data);
+      }
+    }
+  } else if (value && typeof value === 'object') {
+    const object = value as Record<string, unknown>;
+    if (Array.isArray(object.terms)) {
+      return readTerms(object.terms);
+    }
+    for (const key of Object.keys(object)) {
+      const term = inferTerm(key, object[key]);
+      if (term) {
+        terms.push(term);
+      }
+    }
+  } else if (typeof value === 'string' && value.trim()) {
+    terms.push({ key: 'terms', label: 'Terms and conditions', type: 'text', value: value.trim() });
+  }
+
+  // The first term with a key wins
+  const seen: Record<string, boolean> = {};
+  return terms.filter(term => {
+    if (seen[term.key]) {
+      return false;
+    }
+    seen[term.key] = true;
+    return true;
+  });
+}
+
+/**
+ * An amount as a number: accepts numbers and strings such as "$12,500.00"
+ */
+export function toAmount(value: string | number): number | null {
+  if (typeof value === 'number') {
+    return isFinite(value) ? value : null;
+  }
+  const amount = parseFloat(value.replace(/[^0-9.-]/g, ''));
+  return isNaN(amount) ? null : amount;
+}
+
+function toDay(value: string | number): number | null {
+  const time = new Date(value).getTime();
+  return isNaN(time) ? null : Math.floor(time / DAY_MS);
+}
+
+function comparable(term: SettlementTerm): string {
+  if (term.type === 'amount') {
+    const amount = toAmount(term.value);
+    return `${amount === null ? String(term.value) : amount.toFixed(2)} ${term.currency || 'CAD'}`;
+  }
+  if (term.type === 'date') {
+    const day = toDay(term.value);
+    return day === null ? String(term.value) : String(day);
+  }
+  return `${String(term.value).trim().toLowerCase()}|${(term.party || '').trim().toLowerCase()}`;
+}
+
+/**
+ * Term-by-term changes from one round to the next. Terms are matched by
+ * key; removed terms are listed after the terms of the later round.
+ */
+export function diffTerms(before: SettlementTerm[], after: SettlementTerm[]): TermChange[] {
+  const previous: Record<string, SettlementTerm> = {};
+  for (const term of before) {
+    previous[term.key] = term;
+  }
+
+  const changes: TermChange[] = after.map(term => {
+    const earlier = previous[term.key];
+    if (!earlier) {
+      return { key: term.key, label: term.label, type: term.type, change: 'added' as TermChangeType, before: null, after: term };
+    }
+
+    const change: TermChange = {
+      key: term.key,
+      label: term.label,
+      type: term.type,
+      change: comparable(earlier) === comparable(term) && earlier.type === term.type ? 'unchanged' : 'changed',
+      before: earlier,
+      after: term,
+    };
+    if (change.change === 'changed' && term.type === 'amount' && earlier.type === 'amount') {
+      const from = toAmount(earlier.value);
+      const to = toAmount(term.value);
+      if (from !== null && to !== null) {
+        change.amountDelta = Math.round((to - from) * 100) / 100;
+      }
+    }
+    if (change.change === 'changed' && term.type === 'date' && earlier.type === 'date') {
+      const from = toDay(earlier.value);
+      const to = toDay(term.value);
+      if (from !== null && to !== null) {
+        change.dayShift = to - from;
+      }
+    }
+    return change;
+  });
+
+  const kept: Record<string, boolean> = {};
+  for (const term of after) {
+    kept[term.key] = true;
+  }
+  for (const term of before) {
+    if (!kept[term.key]) {
+      changes.push({ key: term.key, label: term.label, type: term.type, change: 'removed', before: term, after: null });
+    }
+  }
+  return changes;
+}
+
+export function isProposalOpen(proposal: SettlementProposal): boolean {
+  return OPEN_STATUSES.indexOf(proposal.status) !== -1;
+}
+
+/**
+ * The negotiation thread a proposal belongs to, from the opening proposal
+ * to the latest counter, each round diffed against the one before
+ */
+export async function getNegotiationThread(proposal: SettlementProposal): Promise<NegotiationRound[]> {
+  const proposals = proposal.disputeId ? await storage.getSettlementProposals(proposal.disputeId) : [proposal];
+  const byId: Record<number, SettlementProposal> = {};
+  for (const item of proposals) {
+    byId[item.id] = item;
+  }
+
+  // Back to the opening proposal; the visited set guards against a cycle
+  let root = byId[proposal.id] || proposal;
+  const visited: Record<number, boolean> = { [root.id]: true };
+  while (root.parentProposalId && byId[root.parentProposalId] && !visited[root.parentProposalId]) {
+    root = byId[root.parentProposalId];
+    visited[root.id] = true;
+  }
+
+  // Then forward through the counters. A countered proposal has one counter.
+  const chain = [root];
+  const seen: Record<number, boolean> = { [root.id]: true };
+  for (;;) {
+    const current = chain[chain.length - 1];
+    const counters = proposals
+      .filter(item => item.parentProposalId === current.id && !seen[item.id])
+      .sort((a, b) => a.id - b.id);
+    if (counters.length === 0) {
+      break;
+    }
+    chain.push(counters[0]);
+    seen[counters[0].id] = true;
+  }
+
+  let previousTerms: SettlementTerm[] | null = null;
+  return chain.map(item => {
+    const terms = readTerms(item.termsAndConditions);
+    const changes = previousTerms ? diffTerms(previousTerms, terms) : [];
+    previousTerms = terms;
+    return { proposal: item, terms, changes };
+  });
+}
+
+async function notify(userId: number | null, type: string, title: string, message: string, proposal: SettlementProposal) {
+  if (!userId) {
+    return;
+  }
+  try {
+    await storage.createNotification({
+      userId,
+      type,
+      title,
+      message,
+      link: `/dispute/${proposal.disputeId}`,
+      data: { disputeId: proposal.disputeId, proposalId: proposal.id },
+    });
+  } catch (error) {
+    logger.error(`[negotiation] Failed to notify user ${userId}: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Counter a proposal. The parent is marked countered and the counter takes
+ * the next round; both happen only if the parent is still open.
+ */
+export async function createCounterProposal(
+  parent: SettlementProposal,
+  input: CounterProposalInput,
+  userId: number
+): Promise<{ proposal: SettlementProposal; changes: TermChange[] }> {
+  if (!parent.disputeId) {
+    throw new NegotiationError('Proposal not found', 404);
+  }
+  if (parent.proposedBy === userId) {
+    throw new NegotiationError('Edit your own proposal rather than countering it');
+  }
+  if (parent.expiresAt && parent.expiresAt.getTime() <= Date.now()) {
+    await lapseExpiredProposals(parent.disputeId);
+    throw new NegotiationError('This proposal has lapsed', 409);
+  }
+  if (!isProposalOpen(parent)) {
+    throw new NegotiationError(`A ${parent.status} proposal cannot be countered`, 409);
+  }
+
+  const now = new Date();
+  const counter = await storage.createCounterProposal(parent.id, OPEN_STATUSES, {
+    disputeId: parent.disputeId,
+    proposedBy: userId,
+    title: input.title,
+    content: input.content,
+    status: 'proposed',
+    documentId: input.documentId,
+    termsAndConditions: input.terms,
+    expiresAt: input.expiresAt,
+    updatedAt: now,
+  });
+  if (!counter) {
+    throw new NegotiationError('This proposal was answered in the meantime', 409);
+  }
+
+  const changes = diffTerms(readTerms(parent.termsAndConditions), input.terms);
+  const changedCount = changes.filter(change => change.change !== 'unchanged').length;
+
+  await storage.createDisputeActivity({
+    disputeId: parent.disputeId,
+    userId,
+    activityType: 'proposal_counter',
+    details: {
+      proposalId: counter.id,
+      proposalTitle: counter.title,
+      parentProposalId: parent.id,
+      round: counter.round,
+      termsChanged: changedCount,
+    },
+  });
+  await notify(
+    parent.proposedBy,
+    'settlement_countered',
+    'Your settlement proposal was countered',
+    `"${parent.title}" received a counter-proposal with ${changedCount} changed term${changedCount === 1 ? '' : 's'}.`,
+    counter
+  );
+
+  return { proposal: counter, changes };
+}
+
+/**
+ * Check a direct update to a proposal before it is saved. Only an open
+ * proposal can change: countered and lapsed are reached through a counter or
+ * expiry, and an answered proposal is final. Its proposer or a mediator may
+ * edit it and move it between the open statuses; the other side or a
+ * mediator may accept or reject it, which changes nothing else.
+ */
+export async function checkProposalUpdate(
+  proposal: SettlementProposal,
+  update: { status?: string; edited: boolean },
+  access: { isProposer: boolean; isMediator: boolean }
+): Promise<void> {
+  if (!isProposalOpen(proposal)) {
+    throw new NegotiationError(`A ${proposal.status} proposal cannot be changed`, 409);
+  }
+  if (proposal.expiresAt && proposal.expiresAt.getTime() <= Date.now()) {
+    if (proposal.disputeId) {
+      await lapseExpiredProposals(proposal.disputeId);
+    }
+    throw new NegotiationError('This proposal has lapsed', 409);
+  }
+
+  const canEdit = access.isProposer || access.isMediator;
+  const { status } = update;
+  if (status && ANSWER_STATUSES.indexOf(status) !== -1) {
+    if (access.isProposer) {
+      throw new NegotiationError('You cannot answer your own proposal', 403);
+    }
+    if (update.edited) {
+      throw new NegotiationError('A proposal cannot be edited and answered at once');
+    }
+    return;
+  }
+  if (status && OPEN_STATUSES.indexOf(status) === -1) {
+    throw new NegotiationError(`A proposal cannot be set to ${status}`);
+  }
+  if (!canEdit) {
+    throw new NegotiationError('Only the proposer or a mediator can edit a proposal', 403);
+  }
+}
+
+/**
+ * Mark open proposals past their expiry lapsed, for one dispute or all
+ */
+export async function lapseExpiredProposals(disputeId?: number): Promise<SettlementProposal[]> {
+  const lapsed = await storage.lapseSettlementProposals(new Date(), OPEN_STATUSES, disputeId);
+  for (const proposal of lapsed) {
+    if (proposal.disputeId) {
+      await storage.createDisputeActivity({
+        disputeId: proposal.disputeId,
+        userId: proposal.proposedBy,
+        activityType: 'proposal_lapsed',
+        details: { proposalId: proposal.id, proposalTitle: proposal.title, round: proposal.round },
+      });
+    }
+    await notify(
+      proposal.proposedBy,
+      'settlement_lapsed',
+      'Your settlement proposal lapsed',
+      `"${proposal.title}" expired without an answer.`,
+      proposal
+    );
+  }
+  return lapsed;
+}
+
+function formatValue(term: { type: SettlementTerm['type'] }, value: string | number | null): string {
+  if (value === null) {
+    return 'dropped';
+  }
+  if (term.type === 'amount') {
+    const amount = toAmount(value);
+    return amount === null ? String(value) : `$${amount.toFixed(2)}`;
+  }
+  return String(value);
+}
+
+/**
+ * Where the sides stand on each term. Each side's position is the value in
+ * the latest round it proposed; terms one side never responded to are
+ * unanswered.
+ */
+export function measureConvergence(rounds: NegotiationRound[]): TermConvergence[] {
+  const order: string[] = [];
+  const meta: Record<string, { label: string; type: SettlementTerm['type'] }> = {};
+  const latest: Record<string, Record<string, TermPosition>> = {};
+  const gaps: Record<string, number[]> = {};
+
+  rounds.forEach((round, index) => {
+    const side = String(round.proposal.proposedBy);
+    const present: Record<string, boolean> = {};
+
+    for (const term of round.terms) {
+      present[term.key] = true;
+      if (!meta[term.key]) {
+        order.push(term.key);
+      }
+      meta[term.key] = { label: term.label, type: term.type };
+      latest[term.key] = latest[term.key] || {};
+      latest[term.key][side] = { userId: round.proposal.proposedBy, round: round.proposal.round || index + 1, value: term.value };
+    }
+    // A term missing from a counter was dropped by the side that countered
+    for (const key of order) {
+      if (!present[key] && latest[key]) {
+        latest[key][side] = { userId: round.proposal.proposedBy, round: round.proposal.round || index + 1, value: null };
+      }
+    }
+
+    for (const key of order) {
+      if (meta[key].type !== 'amount') {
+        continue;
+      }
+      const amounts = Object.keys(latest[key])
+        .map(id => latest[key][id].value)
+        .filter((value): value is string | number => value !== null)
+        .map(toAmount)
+        .filter((value): value is number => value !== null);
+      if (amounts.length >= 2) {
+        const gap = Math.max(...amounts) - Math.min(...amounts);
+        gaps[key] = gaps[key] || [];
+        if (gaps[key][gaps[key].length - 1] !== gap) {
+          gaps[key].push(gap);
+        }
+      }
+    }
+  });
+
+  return order.map(key => {
+    const positions = Object.keys(latest[key]).map(id => latest[key][id]);
+    const values = positions.map(position => position.value === null ? null : comparable({ ...meta[key], key, value: position.value }));
+    const amounts = meta[key].type === 'amount'
+      ? positions
+        .map(position => position.value === null ? null : toAmount(position.value))
+        .filter((value): value is number => value !== null)
+      : [];
+    // Once a side drops the term there is no gap left to measure
+    const history = amounts.length >= 2 ? gaps[key] || [] : [];
+    const gap = history.length ? history[history.length - 1] : null;
+    const previousGap = history.length > 1 ? history[history.length - 2] : null;
+
+    let status: ConvergenceStatus;
+    if (positions.length < 2) {
+      status = 'unanswered';
+    } else if (values.every(value => value === values[0])) {
+      // Including a term both sides have dropped
+      status = 'agreed';
+    } else if (gap !== null && previousGap !== null) {
+      status = gap < previousGap ? 'converging' : 'diverging';
+    } else {
+      status = 'apart';
+    }
+
+    const midpoint = status !== 'agreed' && gap !== null
+      ? Math.round((Math.min(...amounts) + gap / 2) * 100) / 100
+      : null;
+
+    return {
+      key,
+      label: meta[key].label,
+      type: meta[key].type,
+      status,
+      positions,
+      gap: status === 'agreed' ? 0 : gap,
+      previousGap,
+      midpoint,
+    };
+  });
+}
+
+// The JSON the AI service is asked to answer with
+const zoneResponseSchema = z.object({
+  summary: z.string().trim().min(1),
+  suggestions: z.array(z.string().trim()).default([]),
+});
+
+function parseJsonObject(response: string): unknown {
+  const start = response.indexOf('{');
+  const end = response.lastIndexOf('}');
+  if (start === -1 || end <= start) {
+    throw new NegotiationError('The AI service did not return an analysis', 502);
+  }
+  return JSON.parse(response.slice(start, end + 1));
+}
+
+function buildZonePrompt(rounds: NegotiationRound[], terms: TermConvergence[]): string {
+  const latest = rounds[rounds.length - 1].proposal;
+  const termLines = terms.map(term => {
+    const positions = term.positions
+      .map(position => `party ${position.userId} (round ${position.round}): ${formatValue(term, position.value)}`)
+      .join('; ');
+    const gap = term.gap !== null && term.type === 'amount' ? `, gap $${term.gap.toFixed(2)}` : '';
+    return `- ${term.label} [${term.type}, ${term.status}${gap}]: ${positions}`;
+  });
+  const roundLines = rounds.map(round =>
+    `Round ${round.proposal.round} by party ${round.proposal.proposedBy}: ${round.proposal.title}\n${round.proposal.content.substring(0, 1000)}`
+  );
+
+  return `Two parties are negotiating a settlement over ${rounds.length} round(s). The latest proposal is "${latest.title}".
+
+Proposals:
+${roundLines.join('\n\n')}
+
+Each party's latest position on each term:
+${termLines.join('\n')}
+
+Describe the zone of agreement: what is settled, where the positions are converging, and what still divides the parties. Then suggest up to three specific, balanced compromises that could close the remaining gaps.
+
+Answer only with JSON in this form:
+{"summary": "two to four sentences", "suggestions": ["...", "..."]}`;
+}
+
+function computedSummary(terms: TermConvergence[]): string {
+  const agreed = terms.filter(term => term.status === 'agreed').length;
+  const converging = terms.filter(term => term.status === 'converging').map(term => term.label);
+  const parts = [`The parties agree on ${agreed} of ${terms.length} term${terms.length === 1 ? '' : 's'}.`];
+  if (converging.length) {
+    parts.push(`Positions are converging on ${converging.join(', ')}.`);
+  }
+  return parts.join(' ');
+}
+
+/**
+ * The zone of agreement for the thread a proposal belongs to. The term
+ * positions are computed; the summary and suggestions come from the AI
+ * service, falling back to a computed summary when it fails.
+ */
+export async function analyzeZoneOfAgreement(proposal: SettlementProposal): Promise<ZoneOfAgreement> {
+  const rounds = await getNegotiationThread(proposal);
+  const terms = measureConvergence(rounds);
+  const agreedCount = terms.filter(term => term.status === 'agreed').length;
+
+  const zone: ZoneOfAgreement = {
+    rounds: rounds.length,
+    terms,
+    agreedCount,
+    openCount: terms.length - agreedCount,
+    summary: computedSummary(terms),
+    suggestions: [],
+    aiGenerated: false,
+    generatedAt: new Date(),
+  };
+  if (terms.length === 0) {
+    zone.summary = 'These proposals have no structured terms to compare.';
+    return zone;
+  }
+
+  try {
+    const response = await enhancedAIRequest<string>(buildZonePrompt(rounds, terms), {
+      system: 'You are an experienced Canadian mediator. You describe where negotiating parties agree and propose fair compromises, without taking sides. You answer only with JSON.',
+      temperature: 0.3,
+      useCache: false,
+      logPrefix: `Zone of agreement ${proposal.id}`,
+    });
+    const parsed = zoneResponseSchema.safeParse(parseJsonObject(String(response)));
+    if (!parsed.success) {
+      throw new NegotiationError(`The AI service returned an invalid analysis: ${parsed.error.errors[0].message}`, 502);
+    }
+    zone.summary = parsed.data.summary;
+    zone.suggestions = parsed.data.suggestions.filter(suggestion => suggestion).slice(0, 3);
+    zone.aiGenerated = true;
+  } catch (error) {
+    logger.error(`[negotiation] Zone of agreement for proposal ${proposal.id} failed: ${(error as Error).message}`);
+  }
+  return zone;
+}
+
+let timer: NodeJS.Timeout | undefined;
+
+async function runScheduledLapse(): Promise<void> {
+  try {
+    const lapsed = await lapseExpiredProposals();
+    if (lapsed.length > 0) {
+      logger.info(`[negotiation] ${lapsed.length} settlement proposal(s) lapsed`);
+    }
+  } catch (error) {
+    logger.error(`[negotiation] Lapsing expired proposals failed: ${(error as Error).message}`);
+  }
+}
+
+export function startProposalLapsing(): void {
+  const minutes = config.PROPOSAL_LAPSE_INTERVAL_MINUTES;
+  if (!minutes || minutes <= 0) {
+    return;
+  }
+  if (timer) {
+    clearInterval(timer);
+  }
+  timer = setInterval(runScheduledLapse, minutes * 60 * 1000);
+  runScheduledLapse();
+}
@@ -0,0 +1,1124 @@
+/**
+ * Template Authoring Language
+ *
+ * This module parses, validates and renders document templates. It extends
+ * the flat [PLACEHOLDER] syntax of templateSources.ts, so existing templates
+ * keep working unchanged:
+ *
+ *   [CLIENT_NAME]                      value of a field
+ *   [START_DATE|add_days:30|date]      computed value through filters
+ *   [AMOUNT|words]                     amount in words in the template language
+ *   [#IF HAS_MINOR_CHILDREN] ... [#ELSE] ... [/IF]
+ *   [#IF PROVINCE = "Quebec" AND NOT WAIVED] ... [/IF]
+ *   [#EACH PARTIES AS PARTY] [LOOP.NUMBER]. [PARTY.NAME] [/EACH]
+ *
+ * Field names are matched case-insensitively and without separators, so
+ * [SERVICE_PROVIDER_NAME] resolves to a `serviceProviderName` field. Bracketed
+ * text that is not a field reference, such as [LIST OF REMEDIES], is left in
+ * the document for the author to complete.
+ */
+
+export type TemplateLanguage = 'en' | 'fr';
+
+export type TemplateFieldType =
+  | 'text'
+  | 'textarea'
+  | 'number'
+  | 'currency'
+  | 'date'
+  | 'province'
+  | 'select'
+  | 'radio'
+  | 'checkbox'
+  | 'boolean'
+  | 'party_list';
+
+const FIELD_TYPES: TemplateFieldType[] = [
+  'text', 'textarea', 'number', 'currency', 'date', 'province',
+  'select', 'radio', 'checkbox', 'boolean', 'party_list'
+];
+
+export interface TemplateField {
+  name: string;
+  label: string;
+  type: TemplateFieldType;
+  required: boolean;
+  options?: string[];
+  defaultValue?: unknown;
+  itemFields?: TemplateField[]; // Fields of each entry in a party_list
+}
+
+export interface TemplateIssue {
+  message: string;
+  line?: number;
+  placeholder?: string;
+  field?: string;
+}
+
+export interface TemplateReference {
+  name: string;
+  usage: 'value' | 'condition' | 'list';
+  members: string[]; // Entry fields used inside loops over a list
+}
+
+export interface TemplateValidationResult {
+  valid: boolean;
+  errors: TemplateIssue[];
+  warnings: TemplateIssue[];
+}
+
+/**
+ * Error raised when the data supplied for a template does not match its fields
+ */
+export class TemplateDataError extends Error {
+  issues: TemplateIssue[];
+
+  constructor(issues: TemplateIssue[]) {
+    super(`Template data is invalid: ${issues.map(issue => issue.message).join('; ')}`);
+    this.name = 'TemplateDataError';
+    this.issues = issues;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Field schema
+// ---------------------------------------------------------------------------
+
+/**
+ * Key used to match placeholders to fields, e.g. "CLIENT_NAME", "clientName"
+ * and "client name" all become "clientname"
+ */
+export function fieldKey(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+const TYPE_ALIASES: Record<string, TemplateFieldType> = {
+  string: 'text',
+  money: 'currency',
+  amount: 'currency',
+  bool: 'boolean',
+  parties: 'party_list',
+  partylist: 'party_list',
+  list: 'party_list'
+};
+
+function normalizeField(name: string, config: Record<string, unknown>, issues: TemplateIssue[]): TemplateField {
+  const rawType = typeof config.type === 'string' ? config.type.toLowerCase() : 'text';
+  let type = (TYPE_ALIASES[rawType] ?? rawType) as TemplateFieldType;
+  if (FIELD_TYPES.indexOf(type) === -1) {
+    issues.push({ message: `Field "${name}" has unsupported type "${config.type}"`, field: name });
+    type = 'text';
+  }
+
+  const field: TemplateField = {
+    name,
+    label: typeof config.label === 'string' ? config.label : name,
+    type,
+    required: config.required === true,
+    defaultValue: config.defaultValue ?? config.default
+  };
+
+  if (Array.isArray(config.options)) {
+    field.options = config.options.map(option => String(option));
+  }
+  if (type === 'party_list') {
+    const itemSchema = config.itemFields ?? config.fields;
+    if (itemSchema) {
+      field.itemFields = normalizeTemplateFields(itemSchema, issues);
+    }
+  }
+  return field;
+}
+
+/**
+ * Read a `fields` schema in either of the shapes stored in documentTemplates:
+ * an array of field objects or an object keyed by field name
+ */
+export function normalizeTemplateFields(fields: unknown, issues: TemplateIssue[] = []): TemplateField[] {
+  if (Array.isArray(fields)) {
+    return fields
+      .filter((field): field is Record<string, unknown> => !!field && typeof field === 'object' && typeof field.name === 'string')
+      .map(field => normalizeField(field.name as string, field, issues));
+  }
+  if (fields && typeof fields === 'object') {
+    return Object.keys(fields).map(name => {
+      const config = (fields as Record<string, unknown>)[name];
+      return normalizeField(name, config && typeof config === 'object' ? config as Record<string, unknown> : {}, issues);
+    });
+  }
+  return [];
+}
+
+function findField(fields: TemplateField[], name: string): TemplateField | undefined {
+  const key = fieldKey(name);
+  return fields.find(field => fieldKey(field.name) === key);
+}
+
+// ---------------------------------------------------------------------------
+// Parsing
+// ---------------------------------------------------------------------------
+
+interface FilterCall {
+  name: string;
+  arg?: string;
+}
+
+type ComparisonOperator = '=' | '!=' | '>' | '<' | '>=' | '<=';
+
+interface ConditionTerm {
+  negate: boolean;
+  ref: string;
+  operator?: ComparisonOperator;
+  literal?: string;
+}
+
+// OR of ANDs
+type Condition = ConditionTerm[][];
+
+export type TemplateNode =
+  | { type: 'text'; text: string }
+  | { type: 'value'; ref: string; filters: FilterCall[]; raw: string; line: number; strict: boolean }
+  | { type: 'if'; condition: Condition; then: TemplateNode[]; otherwise: TemplateNode[]; line: number }
+  | { type: 'each'; list: string; alias: string; body: TemplateNode[]; line: number };
+
+const FILTERS: Record<string, { arg: 'none' | 'number' | 'optional' }> = {
+  date: { arg: 'optional' },
+  add_days: { arg: 'number' },
+  add_months: { arg: 'number' },
+  add_years: { arg: 'number' },
+  currency: { arg: 'none' },
+  words: { arg: 'optional' },
+  upper: { arg: 'none' },
+  lower: { arg: 'none' },
+  count: { arg: 'none' }
+};
+
+const IDENTIFIER = '[A-Z][A-Z0-9_]*(?:\\.[A-Z][A-Z0-9_]*)?';
+const REFERENCE_PATTERN = new RegExp(`^(${IDENTIFIER})((?:\\s*\\|\\s*[a-z_]+(?::\\s*[^|\\]]+)?)*)$`);
+const CONDITION_TERM_PATTERN = new RegExp(`^(NOT\\s+)?(${IDENTIFIER})(?:\\s*(!=|>=|<=|=|>|<)\\s*(.+))?$`);
+const EACH_PATTERN = new RegExp(`^#EACH\\s+(${IDENTIFIER})\\s+AS\\s+([A-Z][A-Z0-9_]*)$`);
+// Bracketed text that reads like a legacy placeholder, e.g. [PROVINCE/TERRITORY]
+const LOOSE_PLACEHOLDER_PATTERN = /^(?=[^a-z]*[A-Z])[A-Z0-9 _\/'&-]+$/;
+const TAG_PATTERN = /\[([^\[\]\n]+)\]/g;
+
+function parseFilters(source: string, line: number, raw: string, errors: TemplateIssue[]): FilterCall[] {
+  return source
+    .split('|')
+    .map(part => part.trim())
+    .filter(Boolean)
+    .map(part => {
+      const separator = part.indexOf(':');
+      const name = (separator === -1 ? part : part.slice(0, separator)).trim();
+      const arg = separator === -1 ? undefined : part.slice(separator + 1).trim();
+      const definition = FILTERS[name];
+      if (!definition) {
+        errors.push({ message: `Unknown filter "${name}"`, line, placeholder: raw });
+      } else if (definition.arg === 'number' && (arg === undefined || !/^[+-]?\d+$/.test(arg))) {
+        errors.push({ message: `Filter "${name}" needs a whole number, e.g. ${name}:30`, line, placeholder: raw });
+      } else if (definition.arg === 'none' && arg !== undefined) {
+        errors.push({ message: `Filter "${name}" does not take an argument`, line, placeholder: raw });
+      }
+      return { name, arg };
+    });
+}
+
+function parseCondition(source: string, line: number, raw: string, errors: TemplateIssue[]): Condition {
+  return source.split(/\s+OR\s+/).map(group =>
+    group.split(/\s+AND\s+/).map(term => {
+      const match = term.trim().match(CONDITION_TERM_PATTERN);
+      if (!match) {
+        errors.push({ message: `Cannot read condition "${term.trim()}"`, line, placeholder: raw });
+        return { negate: false, ref: '' };
+      }
+      let literal = match[4]?.trim();
+      if (literal && /^"[^"]*"$/.test(literal)) {
+        literal = literal.slice(1, -1);
+      }
+      return {
+        negate: !!match[1],
+        ref: match[2],
+        operator: match[3] as ComparisonOperator | undefined,
+        literal
+      };
+    })
+  );
+}
+
+interface OpenBlock {
+  node: Extract<TemplateNode, { type: 'if' | 'each' }>;
+  inElse: boolean;
+  raw: string;
+}
+
+/**
+ * Parse template content into a node tree. Syntax errors are collected rather
+ * than thrown so that the validator can report all of them at once.
+ */
+export function parseTemplate(content: string): { nodes: TemplateNode[]; errors: TemplateIssue[] } {
+  const errors: TemplateIssue[] = [];
+  const root: TemplateNode[] = [];
+  const stack: OpenBlock[] = [];
+
+  const target = (): TemplateNode[] => {
+    const open = stack[stack.length - 1];
+    if (!open) return root;
+    if (open.node.type === 'each') return open.node.body;
+    return open.inElse ? open.node.otherwise : open.node.then;
+  };
+  const pushText = (text: string) => {
+    if (text) target().push({ type: 'text', text });
+  };
+
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+  TAG_PATTERN.lastIndex = 0;
+  while ((match = TAG_PATTERN.exec(content)) !== null) {
+    const raw = match[0];
+    const body = match[1].trim();
+    const line = content.slice(0, match.index).split('\n').length;
+    pushText(content.slice(lastIndex, match.index));
+    lastIndex = match.index + raw.length;
+
+    if (/^#IF\s/.test(body)) {
+      const node: OpenBlock['node'] = {
+        type: 'if',
+        condition: parseCondition(body.slice(3).trim(), line, raw, errors),
+        then: [],
+        otherwise: [],
+        line
+      };
+      target().push(node);
+      stack.push({ node, inElse: false, raw });
+    } else if (body === '#ELSE') {
+      const open = stack[stack.length - 1];
+      if (!open || open.node.type !== 'if') {
+        errors.push({ message: '[#ELSE] is not inside an [#IF] block', line, placeholder: raw });
+      } else if (open.inElse) {
+        errors.push({ message: `[#IF] block opened on line ${open.node.line} has more than one [#ELSE]`, line, placeholder: raw });
+      } else {
+        open.inElse = true;
+      }
+    } else if (body === '/IF' || body === '/EACH') {
+      const expected = body === '/IF' ? 'if' : 'each';
+      const open = stack[stack.length - 1];
+      if (!open || open.node.type !== expected) {
+        errors.push({
+          message: open
+            ? `${raw} closes the ${open.raw} block opened on line ${open.node.line}`
+            : `${raw} has no matching opening block`,
+          line,
+          placeholder: raw
+        });
+        // Recover by closing the nearest block of the right kind, if any
+        for (let i = stack.length - 1; i >= 0; i--) {
+          if (stack[i].node.type === expected) {
+            stack.length = i;
+            break;
+          }
+        }
+      } else {
+        stack.pop();
+      }
+    } else if (/^#EACH\b/.test(body)) {
+      const each = body.match(EACH_PATTERN);
+      if (!each) {
+        errors.push({ message: 'Loops must be written as [#EACH LIST AS ITEM]', line, placeholder: raw });
+      }
+      const node: OpenBlock['node'] = { type: 'each', list: each?.[1] ?? '', alias: each?.[2] ?? '', body: [], line };
+      target().push(node);
+      stack.push({ node, inElse: false, raw });
+    } else if (/^[#\/]/.test(body)) {
+      errors.push({ message: `Unknown directive ${raw}`, line, placeholder: raw });
+    } else {
+      const reference = body.match(REFERENCE_PATTERN);
+      if (reference) {
+        target().push({
+          type: 'value',
+          ref: reference[1],
+          filters: parseFilters(reference[2], line, raw, errors),
+          raw,
+          line,
+          strict: true
+        });
+      } else if (LOOSE_PLACEHOLDER_PATTERN.test(body)) {
+        target().push({ type: 'value', ref: body, filters: [], raw, line, strict: false });
+      } else {
+        pushText(raw);
+      }
+    }
+  }
+  pushText(content.slice(lastIndex));
+
+  stack.forEach(open => {
+    errors.push({
+      message: `${open.raw} opened on line ${open.node.line} is never closed`,
+      line: open.node.line,
+      placeholder: open.raw
+    });
+  });
+
+  return { nodes: root, errors };
+}
+
+// ---------------------------------------------------------------------------
+// Validation
+// ---------------------------------------------------------------------------
+
+const LOOP_VARIABLES = ['INDEX', 'NUMBER', 'FIRST', 'LAST', 'COUNT'];
+
+interface ScopeEntry {
+  alias: string;
+  itemFields?: TemplateField[];
+}
+
+/**
+ * Check a template against its `fields` schema: syntax, references to
+ * undeclared fields, filters applied to values of the wrong type, loops over
+ * fields that are not lists, and declared fields the template never uses
+ */
+export function validateTemplate(content: string, fieldSchema: unknown): TemplateValidationResult {
+  const warnings: TemplateIssue[] = [];
+  const schemaIssues: TemplateIssue[] = [];
+  const fields = normalizeTemplateFields(fieldSchema, schemaIssues);
+  const { nodes, errors } = parseTemplate(content);
+  errors.push(...schemaIssues);
+
+  fields.forEach(field => {
+    if ((field.type === 'select' || field.type === 'radio') && (!field.options || field.options.length === 0)) {
+      errors.push({ message: `Field "${field.name}" is a ${field.type} without options`, field: field.name });
+    }
+    if (field.type === 'party_list' && !field.itemFields) {
+      warnings.push({ message: `List field "${field.name}" does not declare the fields of its entries`, field: field.name });
+    }
+  });
+
+  const used = new Set<string>();
+
+  // Resolve a reference to the type of value it produces
+  const resolve = (ref: string, scope: ScopeEntry[], issue: Omit<TemplateIssue, 'message'>): TemplateFieldType | 'loop' | undefined => {
+    const [head, member] = ref.split('.');
+    if (head === 'LOOP') {
+      if (scope.length === 0) {
+        errors.push({ ...issue, message: `${ref} can only be used inside an [#EACH] block` });
+      } else if (LOOP_VARIABLES.indexOf(member) === -1) {
+        errors.push({ ...issue, message: `Unknown loop variable ${ref}; use one of ${LOOP_VARIABLES.map(name => `LOOP.${name}`).join(', ')}` });
+      }
+      return 'loop';
+    }
+
+    const entry = scope.slice().reverse().find(item => item.alias === head);
+    if (entry) {
+      if (!member) {
+        errors.push({ ...issue, message: `${ref} is a list entry; refer to one of its fields, e.g. ${head}.NAME` });
+        return undefined;
+      }
+      if (!entry.itemFields) return 'text';
+      const itemField = findField(entry.itemFields, member);
+      if (!itemField) {
+        errors.push({ ...issue, message: `${ref} does not match any field of the list entries` });
+      }
+      return itemField?.type;
+    }
+
+    if (member) {
+      errors.push({ ...issue, message: `${ref} refers to a list entry outside of an [#EACH ${head}] block` });
+      return undefined;
+    }
+    const field = findField(fields, head);
+    if (!field) {
+      errors.push({ ...issue, message: `[${ref}] does not match any field in the template's fields schema` });
+      return undefined;
+    }
+    used.add(field.name);
+    return field.type;
+  };
+
+  const checkFilters = (node: Extract<TemplateNode, { type: 'value' }>, type: TemplateFieldType | 'loop' | undefined) => {
+    let current: string | undefined = type;
+    node.filters.forEach(filter => {
+      const issue = { line: node.line, placeholder: node.raw };
+      switch (filter.name) {
+        case 'add_days':
+        case 'add_months':
+        case 'add_years':
+          if (current && current !== 'date') {
+            errors.push({ ...issue, message: `Filter "${filter.name}" needs a date, but ${node.ref} is ${current}` });
+          }
+          current = 'date';
+          break;
+        case 'date':
+          if (current && current !== 'date') {
+            errors.push({ ...issue, message: `Filter "date" needs a date, but ${node.ref} is ${current}` });
+          }
+          if (filter.arg && filter.arg !== 'short') {
+            errors.push({ ...issue, message: `Filter "date" only supports the format "short"` });
+          }
+          current = 'text';
+          break;
+        case 'currency':
+        case 'words':
+          if (current && ['number', 'currency', 'loop'].indexOf(current) === -1) {
+            errors.push({ ...issue, message: `Filter "${filter.name}" needs a number or amount, but ${node.ref} is ${current}` });
+          }
+          if (filter.name === 'words' && filter.arg && ['en', 'fr'].indexOf(filter.arg) === -1) {
+            errors.push({ ...issue, message: `Filter "words" only supports the languages en and fr` });
+          }
+          current = 'text';
+          break;
+        case 'count':
+          if (current && current !== 'party_list') {
+            errors.push({ ...issue, message: `Filter "count" needs a list, but ${node.ref} is ${current}` });
+          }
+          current = 'number';
+          break;
+      }
+    });
+  };
+
+  const walk = (items: TemplateNode[], scope: ScopeEntry[]) => {
+    items.forEach(node => {
+      switch (node.type) {
+        case 'value': {
+          if (!node.strict) {
+            const field = scope.length === 0 ? findField(fields, node.ref) : undefined;
+            if (field) {
+              used.add(field.name);
+            } else {
+              warnings.push({ message: `${node.raw} does not match any field and will be left for the author to complete`, line: node.line, placeholder: node.raw });
+            }
+            return;
+          }
+          checkFilters(node, resolve(node.ref, scope, { line: node.line, placeholder: node.raw }));
+          return;
+        }
+        case 'if': {
+          node.condition.forEach(group => group.forEach(term => {
+            if (!term.ref) return;
+            const issue = { line: node.line, placeholder: `[#IF ${term.ref}]` };
+            const type = resolve(term.ref, scope, issue);
+            if (term.operator && ['>', '<', '>=', '<='].indexOf(term.operator) !== -1) {
+              if (type && ['number', 'currency', 'date', 'loop'].indexOf(type) === -1) {
+                errors.push({ ...issue, message: `${term.ref} is ${type} and cannot be compared with ${term.operator}` });
+              }
+            }
+            const field = term.ref.indexOf('.') === -1 ? findField(fields, term.ref) : undefined;
+            if (field?.options && term.operator && term.literal !== undefined && (term.operator === '=' || term.operator === '!=')
+              && field.options.indexOf(term.literal) === -1) {
+              warnings.push({ ...issue, message: `"${term.literal}" is not one of the options of ${term.ref}` });
+            }
+          }));
+          walk(node.then, scope);
+          walk(node.otherwise, scope);
+          return;
+        }
+        case 'each': {
+          if (!node.list) {
+            walk(node.body, scope);
+            return;
+          }
+          const field = findField(fields, node.list);
+          const issue = { line: node.line, placeholder: `[#EACH ${node.list} AS ${node.alias}]` };
+          if (!field) {
+            errors.push({ ...issue, message: `[#EACH ${node.list}] does not match any field in the template's fields schema` });
+          } else {
+            used.add(field.name);
+            if (field.type !== 'party_list') {
+              errors.push({ ...issue, message: `[#EACH ${node.list}] loops over a ${field.type} field; loops need a party_list field` });
+            }
+          }
+          if (findField(fields, node.alias)) {
+            warnings.push({ ...issue, message: `Loop name ${node.alias} hides the field of the same name inside the loop` });
+          }
+          walk(node.body, scope.concat({ alias: node.alias, itemFields: field?.itemFields }));
+          return;
+        }
+      }
+    });
+  };
+  walk(nodes, []);
+
+  fields.forEach(field => {
+    if (!used.has(field.name)) {
+      warnings.push({ message: `Field "${field.name}" is declared but never used in the template`, field: field.name });
+    }
+  });
+
+  return { valid: errors.length === 0, errors, warnings };
+}
+
+// ---------------------------------------------------------------------------
+// Typed values
+// ---------------------------------------------------------------------------
+
+const PROVINCES: { code: string; en: string; fr: string }[] = [
+  { code: 'AB', en: 'Alberta', fr: 'Alberta' },
+  { code: 'BC', en: 'British Columbia', fr: 'Colombie-Britannique' },
+  { code: 'MB', en: 'Manitoba', fr: 'Manitoba' },
+  { code: 'NB', en: 'New Brunswick', fr: 'Nouveau-Brunswick' },
+  { code: 'NL', en: 'Newfoundland and Labrador', fr: 'Terre-Neuve-et-Labrador' },
+  { code: 'NT', en: 'Northwest Territories', fr: 'Territoires du Nord-Ouest' },
+  { code: 'NS', en: 'Nova Scotia', fr: 'Nouvelle-Écosse' },
+  { code: 'NU', en: 'Nunavut', fr: 'Nunavut' },
+  { code: 'ON', en: 'Ontario', fr: 'Ontario' },
+  { code: 'PE', en: 'Prince Edward Island', fr: 'Île-du-Prince-Édouard' },
+  { code: 'QC', en: 'Quebec', fr: 'Québec' },
+  { code: 'SK', en: 'Saskatchewan', fr: 'Saskatchewan' },
+  { code: 'YT', en: 'Yukon', fr: 'Yukon' }
+];
+
+function foldAccents(value: string): string {
+  return value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().trim();
+}
+
+type TypedValue =
+  | { kind: 'text'; value: string }
+  | { kind: 'number'; value: number }
+  | { kind: 'currency'; value: number }
+  | { kind: 'date'; value: Date }
+  | { kind: 'boolean'; value: boolean }
+  | { kind: 'province'; value: typeof PROVINCES[number] }
+  | { kind: 'list'; value: Record<string, TypedValue | undefined>[] }
+  | { kind: 'empty' };
+
+function parseDateValue(value: unknown): Date | undefined {
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? undefined : new Date(Date.UTC(value.getFullYear(), value.getMonth(), value.getDate()));
+  }
+  if (typeof value !== 'string') return undefined;
+  const iso = value.trim().match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (iso) {
+    const date = new Date(Date.UTC(Number(iso[1]), Number(iso[2]) - 1, Number(iso[3])));
+    return date.getUTCMonth() === Number(iso[2]) - 1 ? date : undefined;
+  }
+  const parsed = new Date(value);
+  return isNaN(parsed.getTime()) ? undefined : new Date(Date.UTC(parsed.getFullYear(), parsed.getMonth(), parsed.getDate()));
+}
+
+function parseNumberValue(value: unknown): number | undefined {
+  if (typeof value === 'number') return isFinite(value) ? value : undefined;
+  if (typeof value !== 'string') return undefined;
+  // Accept "$1,234.50", "1 234,50 $" and "1234.5"
+  let cleaned = value.replace(/[$\s ]/g, '');
+  if (/^-?\d{1,3}(\.\d{3})*,\d{1,2}$/.test(cleaned) || /^-?\d+,\d{1,2}$/.test(cleaned)) {
+    cleaned = cleaned.replace(/\./g, '').replace(',', '.');
+  } else {
+    cleaned = cleaned.replace(/,/g, '');
+  }
+  if (!/^-?\d+(\.\d+)?$/.test(cleaned)) return undefined;
+  return Number(cleaned);
+}
+
+function isBlank(value: unknown): boolean {
+  return value === undefined || value === null || (typeof value === 'string' && value.trim() === '')
+    || (Array.isArray(value) && value.length === 0);
+}
+
+function coerceValue(field: TemplateField, value: unknown, path: string, issues: TemplateIssue[]): TypedValue {
+  if (isBlank(value)) {
+    if (field.required) {
+      issues.push({ message: `${field.label} is required`, field: path });
+    }
+    return { kind: 'empty' };
+  }
+
+  const invalid = (expected: string): TypedValue => {
+    issues.push({ message: `${field.label} must be ${expected}`, field: path });
+    return { kind: 'empty' };
+  };
+
+  switch (field.type) {
+    case 'date': {
+      const date = parseDateValue(value);
+      return date ? { kind: 'date', value: date } : invalid('a date in YYYY-MM-DD format');
+    }
+    case 'number':
+    case 'currency': {
+      const amount = parseNumberValue(value);
+      if (amount === undefined) return invalid(field.type === 'currency' ? 'an amount' : 'a number');
+      return field.type === 'currency' ? { kind: 'currency', value: Math.round(amount * 100) / 100 } : { kind: 'number', value: amount };
+    }
+    case 'checkbox':
+    case 'boolean': {
+      if (typeof value === 'boolean') return { kind: 'boolean', value };
+      const text = foldAccents(String(value));
+      if (['true', 'yes', 'oui', 'on', '1', 'y'].indexOf(text) !== -1) return { kind: 'boolean', value: true };
+      if (['false', 'no', 'non', 'off', '0', 'n'].indexOf(text) !== -1) return { kind: 'boolean', value: false };
+      return invalid('yes or no');
+    }
+    case 'province': {
+      const text = foldAccents(String(value));
+      const province = PROVINCES.find(item =>
+        item.code.toLowerCase() === text || foldAccents(item.en) === text || foldAccents(item.fr) === text
+      );
+      return province ? { kind: 'province', value: province } : invalid('a Canadian province or territory');
+    }
+    case 'select':
+    case 'radio': {
+      const text = String(value);
+      if (field.options && field.options.length > 0 && field.options.indexOf(text) === -1) {
+        return invalid(`one of: ${field.options.join(', ')}`);
+      }
+      return { kind: 'text', value: text };
+    }
+    case 'party_list': {
+      if (!Array.isArray(value)) return invalid('a list');
+      const itemFields = field.itemFields;
+      return {
+        kind: 'list',
+        value: value.map((item, index) => {
+          const entry: Record<string, TypedValue | undefined> = {};
+          const itemPath = `${path}[${index}]`;
+          if (!item || typeof item !== 'object') {
+            issues.push({ message: `Entry ${index + 1} of ${field.label} must be an object`, field: itemPath });
+            return entry;
+          }
+          const source = item as Record<string, unknown>;
+          if (itemFields) {
+            itemFields.forEach(itemField => {
+              const key = Object.keys(source).find(name => fieldKey(name) === fieldKey(itemField.name));
+              entry[fieldKey(itemField.name)] = coerceValue(
+                { ...itemField, label: `${field.label} ${index + 1}: ${itemField.label}` },
+                key ? source[key] : itemField.defaultValue,
+                `${itemPath}.${itemField.name}`,
+                issues
+              );
+            });
+          } else {
+            Object.keys(source).forEach(name => {
+              entry[fieldKey(name)] = isBlank(source[name]) ? { kind: 'empty' } : { kind: 'text', value: String(source[name]) };
+            });
+          }
+          return entry;
+        })
+      };
+    }
+    default:
+      return { kind: 'text', value: String(value) };
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Formatting
+// ---------------------------------------------------------------------------
+
+const MONTHS: Record<TemplateLanguage, string[]> = {
+  en: ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'],
+  fr: ['janvier', 'février', 'mars', 'avril', 'mai', 'juin', 'juillet', 'août', 'septembre', 'octobre', 'novembre', 'décembre']
+};
+
+export function formatTemplateDate(date: Date, language: TemplateLanguage): string {
+  const day = date.getUTCDate();
+  const month = MONTHS[language][date.getUTCMonth()];
+  if (language === 'fr') {
+    return `${day === 1 ? '1er' : day} ${month} ${date.getUTCFullYear()}`;
+  }
+  return `${month} ${day}, ${date.getUTCFullYear()}`;
+}
+
+export function formatTemplateCurrency(amount: number, language: TemplateLanguage): string {
+  const [whole, cents] = Math.abs(amount).toFixed(2).split('.');
+  const sign = amount < 0 ? '-' : '';
+  if (language === 'fr') {
+    return `${sign}${whole.replace(/\B(?=(\d{3})+(?!\d))/g, ' ')},${cents} $`;
+  }
+  return `${sign}$${whole.replace(/\B(?=(\d{3})+(?!\d))/g, ',')}.${cents}`;
+}
+
+function addToDate(date: Date, unit: 'days' | 'months' | 'years', amount: number): Date {
+  if (unit === 'days') {
+    return new Date(date.getTime() + amount * 24 * 60 * 60 * 1000);
+  }
+  const months = unit === 'months' ? amount : amount * 12;
+  const target = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + months, 1));
+  // Clamp to the last day of the target month, e.g. January 31 + 1 month
+  const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+  target.setUTCDate(Math.min(date.getUTCDate(), lastDay));
+  return target;
+}
+
+const EN_ONES = ['zero', 'one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine', 'ten',
+  'eleven', 'twelve', 'thirteen', 'fourteen', 'fifteen', 'sixteen', 'seventeen', 'eighteen', 'nineteen'];
+const EN_TENS = ['', '', 'twenty', 'thirty', 'forty', 'fifty', 'sixty', 'seventy', 'eighty', 'ninety'];
+const EN_SCALES = ['', 'thousand', 'million', 'billion', 'trillion'];
+
+function englishBelowThousand(n: number): string {
+  const words: string[] = [];
+  if (n >= 100) {
+    words.push(`${EN_ONES[Math.floor(n / 100)]} hundred`);
+    n %= 100;
+  }
+  if (n >= 20) {
+    words.push(EN_TENS[Math.floor(n / 10)] + (n % 10 ? `-${EN_ONES[n % 10]}` : ''));
+  } else if (n > 0) {
+    words.push(EN_ONES[n]);
+  }
+  return words.join(' ');
+}
+
+function englishWords(n: number): string {
+  if (n === 0) return EN_ONES[0];
+  const groups: string[] = [];
+  for (let scale = 0; n > 0; scale++, n = Math.floor(n / 1000)) {
+    const group = n % 1000;
+    if (group) {
+      groups.unshift(englishBelowThousand(group) + (EN_SCALES[scale] ? ` ${EN_SCALES[scale]}` : ''));
+    }
+  }
+  return groups.join(' ');
+}
+
+const FR_ONES = ['zéro', 'un', 'deux', 'trois', 'quatre', 'cinq', 'six', 'sept', 'huit', 'neuf', 'dix',
+  'onze', 'douze', 'treize', 'quatorze', 'quinze', 'seize', 'dix-sept', 'dix-huit', 'dix-neuf'];
+const FR_TENS = ['', '', 'vingt', 'trente', 'quarante', 'cinquante', 'soixante'];
+
+// `final` is false when the number is directly followed by "mille", which
+// drops the plural s of "quatre-vingts" and "cents"
+function frenchBelowHundred(n: number, final: boolean): string {
+  if (n < 20) return FR_ONES[n];
+  const tens = Math.floor(n / 10);
+  const units = n % 10;
+  if (tens <= 6) {
+    if (units === 0) return FR_TENS[tens];
+    return FR_TENS[tens] + (units === 1 ? ' et un' : `-${FR_ONES[units]}`);
+  }
+  if (tens === 7) {
+    return n === 71 ? 'soixante et onze' : `soixante-${FR_ONES[n - 60]}`;
+  }
+  if (n === 80) return final ? 'quatre-vingts' : 'quatre-vingt';
+  return `quatre-vingt-${FR_ONES[n - 80]}`;
+}
+
+function frenchBelowThousand(n: number, final: boolean): string {
+  const hundreds = Math.floor(n / 100);
+  const rest = n % 100;
+  const words: string[] = [];
+  if (hundreds) {
+    const cent = hundreds === 1 ? 'cent' : `${FR_ONES[hundreds]} cent`;
+    words.push(rest === 0 && hundreds > 1 && final ? `${cent}s` : cent);
+  }
+  if (rest) {
+    words.push(frenchBelowHundred(rest, final));
+  }
+  return words.join(' ');
+}
+
+function frenchWords(n: number): string {
+  if (n === 0) return FR_ONES[0];
+  const scales: [number, string, string][] = [
+    [1e12, 'billion', 'billions'],
+    [1e9, 'milliard', 'milliards'],
+    [1e6, 'million', 'millions']
+  ];
+  const words: string[] = [];
+  scales.forEach(([size, singular, plural]) => {
+    const count = Math.floor(n / size);
+    if (count) {
+      words.push(count === 1 ? `un ${singular}` : `${frenchWords(count)} ${plural}`);
+      n %= size;
+    }
+  });
+  const thousands = Math.floor(n / 1000);
+  if (thousands) {
+    words.push(thousands === 1 ? 'mille' : `${frenchBelowThousand(thousands, false)} mille`);
+    n %= 1000;
+  }
+  if (n) {
+    words.push(frenchBelowThousand(n, true));
+  }
+  return words.join(' ');
+}
+
+/**
+ * Spell out a number, or an amount of dollars and cents, in English or French
+ */
+export function amountInWords(amount: number, language: TemplateLanguage, asCurrency: boolean): string {
+  const spell = language === 'fr' ? frenchWords : englishWords;
+  const sign = amount < 0 ? (language === 'fr' ? 'moins ' : 'minus ') : '';
+  const cents = Math.round(Math.abs(amount) * 100);
+  const whole = Math.floor(cents / 100);
+  const fraction = cents % 100;
+
+  if (!asCurrency) {
+    const words = spell(whole);
+    if (!fraction) return sign + words;
+    return `${sign}${words} ${language === 'fr' ? 'et' : 'and'} ${fraction}/100`;
+  }
+
+  // French keeps "dollar" singular below two and says "un million de dollars"
+  const plural = language === 'fr' ? whole >= 2 : whole !== 1;
+  const preposition = language === 'fr' && whole >= 1e6 && whole % 1e6 === 0 ? 'de ' : '';
+  const dollars = `${spell(whole)} ${preposition}${plural ? 'dollars' : 'dollar'}`;
+  if (!fraction) return sign + dollars;
+  const centWords = `${spell(fraction)} ${fraction === 1 ? 'cent' : 'cents'}`;
+  return `${sign}${dollars} ${language === 'fr' ? 'et' : 'and'} ${centWords}`;
+}
+
+function joinNames(names: string[], language: TemplateLanguage): string {
+  if (names.length <= 1) return names.join('');
+  return `${names.slice(0, -1).join(', ')} ${language === 'fr' ? 'et' : 'and'} ${names[names.length - 1]}`;
+}
+
+function formatValue(value: TypedValue, language: TemplateLanguage): string {
+  switch (value.kind) {
+    case 'empty':
+      return '';
+    case 'text':
+      return value.value;
+    case 'number':
+      return String(value.value);
+    case 'currency':
+      return formatTemplateCurrency(value.value, language);
+    case 'date':
+      return formatTemplateDate(value.value, language);
+    case 'boolean':
+      return language === 'fr' ? (value.value ? 'Oui' : 'Non') : (value.value ? 'Yes' : 'No');
+    case 'province':
+      return value.value[language];
+    case 'list':
+      // A list on its own reads as the names of its entries
+      return joinNames(
+        value.value
+          .map(entry => entry.name ?? entry[Object.keys(entry)[0]])
+          .filter((entry): entry is TypedValue => !!entry)
+          .map(entry => formatValue(entry, language))
+          .filter(Boolean),
+        language
+      );
+  }
+}
+
+function isTruthy(value: TypedValue | undefined): boolean {
+  if (!value) return false;
+  switch (value.kind) {
+    case 'empty':
+      return false;
+    case 'boolean':
+      return value.value;
+    case 'number':
+    case 'currency':
+      return value.value !== 0;
+    case 'list':
+      return value.value.length > 0;
+    case 'text':
+      return foldAccents(value.value) !== 'no' && foldAccents(value.value) !== 'non' && value.value.trim() !== '';
+    default:
+      return true;
+  }
+}
+
+function compareValues(value: TypedValue | undefined, operator: ComparisonOperator, literal: string): boolean {
+  let left: number | string;
+  let right: number | string;
+  if (value && (value.kind === 'number' || value.kind === 'currency')) {
+    left = value.value;
+    right = parseNumberValue(literal) ?? NaN;
+  } else if (value && value.kind === 'date') {
+    left = value.value.getTime();
+    right = parseDateValue(literal)?.getTime() ?? NaN;
+  } else if (value && value.kind === 'province') {
+    const target = foldAccents(literal);
+    const matches = value.value.code.toLowerCase() === target || foldAccents(value.value.en) === target || foldAccents(value.value.fr) === target;
+    if (operator === '=') return matches;
+    if (operator === '!=') return !matches;
+    return false;
+  } else if (value && value.kind === 'boolean') {
+    left = value.value ? 1 : 0;
+    right = isTruthy({ kind: 'text', value: literal }) && foldAccents(literal) !== 'false' ? 1 : 0;
+  } else {
+    left = value && value.kind !== 'empty' ? foldAccents(formatValue(value, 'en')) : '';
+    right = foldAccents(literal);
+  }
+
+  switch (operator) {
+    case '=': return left === right;
+    case '!=': return left !== right;
+    case '>': return left > right;
+    case '<': return left < right;
+    case '>=': return left >= right;
+    case '<=': return left <= right;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Rendering
+// ---------------------------------------------------------------------------
+
+interface RenderScope {
+  alias: string;
+  entry: Record<string, TypedValue | undefined>;
+  index: number;
+  count: number;
+}
+
+export interface RenderTemplateOptions {
+  language?: TemplateLanguage;
+}
+
+/**
+ * Fill a template with form data. The data is checked against the field
+ * types first; a TemplateDataError lists every value that does not fit.
+ */
+export function renderTemplate(
+  content: string,
+  fieldSchema: unknown,
+  data: Record<string, unknown>,
+  options: RenderTemplateOptions = {}
+): string {
+  const language: TemplateLanguage = options.language === 'fr' ? 'fr' : 'en';
+  const fields = normalizeTemplateFields(fieldSchema);
+  const { nodes, errors } = parseTemplate(content);
+  if (errors.length > 0) {
+    throw new Error(`Template has syntax errors: ${errors.map(error => error.message).join('; ')}`);
+  }
+
+  const issues: TemplateIssue[] = [];
+  const values: Record<string, TypedValue> = {};
+  fields.forEach(field => {
+    const key = Object.keys(data).find(name => fieldKey(name) === fieldKey(field.name));
+    values[fieldKey(field.name)] = coerceValue(field, key ? data[key] : field.defaultValue, field.name, issues);
+  });
+  // Values without a declared field are still usable as plain text
+  Object.keys(data).forEach(name => {
+    if (!(fieldKey(name) in values) && !isBlank(data[name]) && typeof data[name] !== 'object') {
+      values[fieldKey(name)] = { kind: 'text', value: String(data[name]) };
+    }
+  });
+  if (issues.length > 0) {
+    throw new TemplateDataError(issues);
+  }
+
+  const lookup = (ref: string, scope: RenderScope[]): TypedValue | undefined => {
+    const [head, member] = ref.split('.');
+    const loop = scope[scope.length - 1];
+    if (head === 'LOOP' && loop) {
+      switch (member) {
+        case 'INDEX': return { kind: 'number', value: loop.index };
+        case 'NUMBER': return { kind: 'number', value: loop.index + 1 };
+        case 'COUNT': return { kind: 'number', value: loop.count };
+        case 'FIRST': return { kind: 'boolean', value: loop.index === 0 };
+        case 'LAST': return { kind: 'boolean', value: loop.index === loop.count - 1 };
+      }
+      return undefined;
+    }
+    const entry = scope.slice().reverse().find(item => item.alias === head);
+    if (entry) {
+      return member ? entry.entry[fieldKey(member)] : undefined;
+    }
+    return member ? undefined : values[fieldKey(head)];
+  };
+
+  const applyFilters = (value: TypedValue | undefined, filters: FilterCall[]): TypedValue | undefined => {
+    return filters.reduce<TypedValue | undefined>((current, filter) => {
+      if (!current || current.kind === 'empty') return current;
+      switch (filter.name) {
+        case 'add_days':
+        case 'add_months':
+        case 'add_years':
+          return current.kind === 'date'
+            ? { kind: 'date', value: addToDate(current.value, filter.name.slice(4) as 'days' | 'months' | 'years', Number(filter.arg)) }
+            : current;
+        case 'date':
+          if (current.kind !== 'date') return current;
+          return {
+            kind: 'text',
+            value: filter.arg === 'short' ? current.value.toISOString().slice(0, 10) : formatTemplateDate(current.value, language)
+          };
+        case 'currency':
+          return current.kind === 'number' || current.kind === 'currency'
+            ? { kind: 'text', value: formatTemplateCurrency(current.value, language) }
+            : current;
+        case 'words':
+          return current.kind === 'number' || current.kind === 'currency'
+            ? { kind: 'text', value: amountInWords(current.value, filter.arg === 'fr' || (!filter.arg && language === 'fr') ? 'fr' : 'en', current.kind === 'currency') }
+            : current;
+        case 'upper':
+          return { kind: 'text', value: formatValue(current, language).toUpperCase() };
+        case 'lower':
+          return { kind: 'text', value: formatValue(current, language).toLowerCase() };
+        case 'count':
+          return current.kind === 'list' ? { kind: 'number', value: current.value.length } : current;
+        default:
+          return current;
+      }
+    }, value);
+  };
+
+  const evaluate = (condition: Condition, scope: RenderScope[]): boolean =>
+    condition.some(group => group.every(term => {
+      const value = lookup(term.ref, scope);
+      const result = term.operator && term.literal !== undefined
+        ? compareValues(value, term.operator, term.literal)
+        : isTruthy(value);
+      return term.negate ? !result : result;
+    }));
+
+  const render = (items: TemplateNode[], scope: RenderScope[]): string => items.map(node => {
+    switch (node.type) {
+      case 'text':
+        return node.text;
+      case 'value': {
+        // Placeholders that match no field stay in the document as written
+        const value = node.strict || scope.length === 0 ? lookup(node.ref, scope) : undefined;
+        if (!value) return node.raw;
+        return formatValue(applyFilters(value, node.filters) ?? { kind: 'empty' }, language);
+      }
+      case 'if':
+        return render(evaluate(node.condition, scope) ? node.then : node.otherwise, scope);
+      case 'each': {
+        const list = lookup(node.list, scope);
+        if (!list || list.kind !== 'list') return '';
+        return list.value
+          .map((entry, index) => render(node.body, scope.concat({ alias: node.alias, entry, index, count: list.value.length })))
+          .join('');
+      }
+    }
+  }).join('');
+
+  return render(nodes, []);
+}
+
+/**
+ * Names of the fields a template refers to, in order of first use, with the
+ * entry fields used inside loops. Used to derive a fields schema for
+ * templates that do not declare one.
+ */
+export function collectTemplateReferences(content: string): TemplateReference[] {
+  const { nodes } = parseTemplate(content);
+  const references: TemplateReference[] = [];
+  const byKey: Record<string, TemplateReference> = {};
+
+  const add = (name: string, usage: TemplateReference['usage'], aliases: Record<string, TemplateReference>) => {
+    const [head, member] = name.split('.');
+    if (!head || head === 'LOOP') return;
+    const list = aliases[head];
+    if (list) {
+      if (member && list.members.indexOf(member) === -1) list.members.push(member);
+      return;
+    }
+    let reference = byKey[fieldKey(head)];
+    if (!reference) {
+      reference = byKey[fieldKey(head)] = { name: head, usage, members: [] };
+      references.push(reference);
+    } else if (usage === 'list') {
+      reference.usage = 'list';
+    }
+    return reference;
+  };
+
+  const walk = (items: TemplateNode[], aliases: Record<string, TemplateReference>) => {
+    items.forEach(node => {
+      if (node.type === 'value' && node.strict) {
+        add(node.ref, 'value', aliases);
+      } else if (node.type === 'if') {
+        node.condition.forEach(group => group.forEach(term => add(term.ref, 'condition', aliases)));
+        walk(node.then, aliases);
+        walk(node.otherwise, aliases);
+      } else if (node.type === 'each') {
+        const list = add(node.list, 'list', aliases);
+        walk(node.body, list ? { ...aliases, [node.alias]: list } : aliases);
+      }
+    });
+  };
+  walk(nodes, {});
+  return references;
+}
@@ -0,0 +1,644 @@
+/**
+ * Template Pack Importer
+ *
+ * This module imports template packs: a JSON manifest plus Markdown, text or
+ * DOCX template files, read from a local directory or an uploaded zip archive.
+ * Every template is validated against its fields before anything is saved,
+ * templates that already exist are matched instead of duplicated, and each
+ * saved template records the pack, version and file it came from so that
+ * re-importing a newer version of a pack updates the templates in place.
+ *
+ * A pack looks like:
+ *
+ *   manifest.json
+ *   templates/consumer/debt-collection.md
+ *   templates/family/separation-agreement.docx
+ *
+ * where manifest.json is
+ *
+ *   {
+ *     "id": "canada-core",
+ *     "name": "Canadian Core Templates",
+ *     "version": "1.2.0",
+ *     "templates": [
+ *       { "key": "consumer-debt-collection", "file": "templates/consumer/debt-collection.md",
+ *         "title": "Debt Collection Dispute Letter", "templateType": "consumer",
+ *         "language": "en", "fields": [ ... ] }
+ *     ]
+ *   }
+ *
+ * Templates without "fields" get fields derived from their placeholders.
+ */
+import { promises as fs } from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import JSZip from 'jszip';
+import { z } from 'zod';
+import { storage } from '../storage';
+import type { DocumentTemplate, InsertDocumentTemplate, TemplatePack } from '@shared/schema';
+import { validateTemplate } from './templateDsl';
+import { extractFieldsFromTemplate } from './templateSources';
+
+const MANIFEST_FILE = 'manifest.json';
+
+// Limits on what an uploaded zip may expand to, so that a small archive
+// cannot exhaust the server's memory when it is decompressed
+export const MAX_ARCHIVE_ENTRIES = 1000;
+export const MAX_ARCHIVE_UNCOMPRESSED_BYTES = 50 * 1024 * 1024;
+
+/**
+ * Where a pack's files are read from
+ */
+export interface TemplatePackSource {
+  kind: 'directory' | 'archive';
+  name: string;
+  /** Paths of all files in the pack, relative to its root and '/'-separated */
+  listFiles(): Promise<string[]>;
+  readFile(filePath: string): Promise<Buffer>;
+}
+
+export class TemplatePackError extends Error {
+  issues: string[];
+
+  constructor(message: string, issues: string[] = []) {
+    super(message);
+    this.name = 'TemplatePackError';
+    this.issues = issues;
+  }
+}
+
+// Reject absolute paths and paths that climb out of the pack
+function normalizePackPath(filePath: string): string | null {
+  const normalized = path.posix.normalize(filePath.replace(/\\/g, '/'));
+  if (normalized.startsWith('/') || normalized === '..' || normalized.startsWith('../')) {
+    return null;
+  }
+  return normalized;
+}
+
+/**
+ * Read a pack from a directory on the server
+ */
+export function directoryPackSource(directory: string): TemplatePackSource {
+  const root = path.resolve(directory);
+
+  const walk = async (relative: string): Promise<string[]> => {
+    const entries = await fs.readdir(path.join(root, relative), { withFileTypes: true });
+    const files: string[] = [];
+    for (const entry of entries) {
+      if (entry.name.startsWith('.')) continue;
+      const entryPath = relative ? `${relative}/${entry.name}` : entry.name;
+      if (entry.isDirectory()) {
+        files.push(...await walk(entryPath));
+      } else if (entry.isFile()) {
+        files.push(entryPath);
+      }
+    }
+    return files;
+  };
+
+  return {
+    kind: 'directory',
+    name: path.basename(root),
+    listFiles: () => walk(''),
+    async readFile(filePath: string) {
+      const normalized = normalizePackPath(filePath);
+      if (!normalized) {
+        throw new TemplatePackError(`File path "${filePath}" is outside the pack`);
+      }
+      return await fs.readFile(path.join(root, normalized));
+    }
+  };
+}
+
+// Size an entry claims in the zip's central directory. JSZip keeps it on an
+// untyped field, and it can be forged, so reads are also counted as they happen.
+function declaredEntrySize(entry: JSZip.JSZipObject): number {
+  const data = (entry as unknown as { _data?: { uncompressedSize?: number } })._data;
+  return data?.uncompressedSize ?? 0;
+}
+
+/**
+ * Open a zip archive, rejecting archives with too many entries or whose
+ * entries claim to expand past MAX_ARCHIVE_UNCOMPRESSED_BYTES
+ */
+async function loadZip(archive: Buffer, name: string): Promise<JSZip> {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(archive);
+  } catch (error: any) {
+    throw new TemplatePackError(`${name} is not a valid zip archive: ${error.message}`);
+  }
+
+  const entries = Object.values(zip.files);
+  if (entries.length > MAX_ARCHIVE_ENTRIES) {
+    throw new TemplatePackError(`${name} has ${entries.length} entries; at most ${MAX_ARCHIVE_ENTRIES} are allowed`);
+  }
+  const declaredBytes = entries.reduce((total, entry) => total + declaredEntrySize(entry), 0);
+  if (declaredBytes > MAX_ARCHIVE_UNCOMPRESSED_BYTES) {
+    throw new TemplatePackError(`${name} expands to more than ${MAX_ARCHIVE_UNCOMPRESSED_BYTES} bytes`);
+  }
+  return zip;
+}
+
+/**
+ * Decompress an entry, giving up as soon as it passes maxBytes rather than
+ * trusting the size recorded in the archive
+ */
+function readZipEntry(entry: JSZip.JSZipObject, maxBytes: number, name: string): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    let failed = false;
+    const stream = entry.nodeStream('nodebuffer');
+    stream.on('data', (chunk: Buffer) => {
+      if (failed) return;
+      size += chunk.length;
+      if (size > maxBytes) {
+        failed = true;
+        stream.pause();
+        reject(new TemplatePackError(`${name} expands to more than ${MAX_ARCHIVE_UNCOMPRESSED_BYTES} bytes`));
+        return;
+      }
+      chunks.push(chunk);
+    });
+    stream.on('end', () => {
+      if (!failed) resolve(Buffer.concat(chunks));
+    });
+    stream.on('error', reject);
+  });
+}
+
+/**
+ * Read a pack from a zip archive held in memory. All reads from the archive
+ * share one MAX_ARCHIVE_UNCOMPRESSED_BYTES budget.
+ */
+export async function archivePackSource(archive: Buffer, name: string): Promise<TemplatePackSource> {
+  const zip = await loadZip(archive, name);
+  let remainingBytes = MAX_ARCHIVE_UNCOMPRESSED_BYTES;
+
+  const files = Object.keys(zip.files).filter(entryName =>
+    !zip.files[entryName].dir &&
+    !entryName.startsWith('__MACOSX/') &&
+    normalizePackPath(entryName) !== null
+  );
+
+  return {
+    kind: 'archive',
+    name,
+    listFiles: async () => files,
+    async readFile(filePath: string) {
+      const normalized = normalizePackPath(filePath);
+      const entry = normalized ? zip.file(normalized) : null;
+      if (!entry) {
+        throw new TemplatePackError(`${filePath} is not in the archive`);
+      }
+      const buffer = await readZipEntry(entry, remainingBytes, name);
+      remainingBytes -= buffer.length;
+      return buffer;
+    }
+  };
+}
+
+const XML_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+function decodeXmlEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const value = code[1] === 'x' || code[1] === 'X' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return String.fromCharCode(value);
+    }
+    return XML_ENTITIES[code.toLowerCase()] ?? entity;
+  });
+}
+
+/**
+ * Convert the body of a .docx file to Markdown-style text: one line per
+ * paragraph, with Heading styles turned into '#' headings
+ */
+async function readDocxTemplate(buffer: Buffer): Promise<string> {
+  const zip = await loadZip(buffer, 'A .docx template');
+  const documentXml = zip.file('word/document.xml');
+  if (!documentXml) {
+    throw new Error('word/document.xml is missing');
+  }
+  const xml = (await readZipEntry(documentXml, MAX_ARCHIVE_UNCOMPRESSED_BYTES, 'A .docx template')).toString('utf8');
+
+  const paragraphs = xml.match(/<w:p[ >][\s\S]*?<\/w:p>|<w:p\/>/g) || [];
+  return paragraphs.map(paragraph => {
+    const heading = paragraph.match(/<w:pStyle w:val="(?:Heading|Titre)(\d)"/i);
+    const text = (paragraph.match(/<w:t(?: [^>]*)?>[^<]*<\/w:t>|<w:tab\/>|<w:br\/>/g) || [])
+      .map(run => run === '<w:tab/>' ? '\t' : run === '<w:br/>' ? '\n' : decodeXmlEntities(run.replace(/<[^>]+>/g, '')))
+      .join('');
+    return heading && text ? `${'#'.repeat(Number(heading[1]))} ${text}` : text;
+  }).join('\n\n').replace(/\n{3,}/g, '\n\n');
+}
+
+/**
+ * Template file readers by file extension. Other formats can be supported by
+ * registering a reader that turns the file into template text.
+ */
+export const templateFormatReaders: Record<string, (buffer: Buffer) => Promise<string>> = {
+  md: async (buffer) => buffer.toString('utf8'),
+  markdown: async (buffer) => buffer.toString('utf8'),
+  txt: async (buffer) => buffer.toString('utf8'),
+  docx: readDocxTemplate
+};
+
+const packFieldSchema = z.object({
+  name: z.string().min(1),
+  label: z.string().optional(),
+  type: z.string().optional(),
+  required: z.boolean().optional()
+}).passthrough();
+
+const manifestTemplateSchema = z.object({
+  key: z.string().regex(/^[a-z0-9][a-z0-9._-]*$/i, "must contain only letters, numbers, '.', '_' and '-'"),
+  file: z.string().min(1),
+  title: z.string().min(1),
+  description: z.string().optional(),
+  templateType: z.string().min(1),
+  subcategory: z.string().optional(),
+  language: z.enum(['en', 'fr']).optional(),
+  jurisdiction: z.string().optional(),
+  fields: z.union([z.array(packFieldSchema), z.record(z.any())]).optional()
+});
+
+const manifestSchema = z.object({
+  id: z.string().regex(/^[a-z0-9][a-z0-9._-]*$/i, "must contain only letters, numbers, '.', '_' and '-'"),
+  name: z.string().min(1),
+  version: z.string().regex(/^\d+(\.\d+)*$/, 'must be a version number such as 1.2.0'),
+  description: z.string().optional(),
+  publisher: z.string().optional(),
+  language: z.enum(['en', 'fr']).optional(),
+  jurisdiction: z.string().optional(),
+  templates: z.array(manifestTemplateSchema).min(1)
+});
+
+export type TemplatePackManifest = z.infer<typeof manifestSchema>;
+
+export type TemplatePackItemStatus = 'created' | 'updated' | 'unchanged' | 'adopted' | 'skipped' | 'invalid';
+
+export interface TemplatePackItem {
+  key: string;
+  file: string;
+  title: string;
+  language: string;
+  status: TemplatePackItemStatus;
+  templateId?: number;
+  messages: string[];
+}
+
+export interface TemplatePackImportReport {
+  pack: {
+    id?: number;
+    key: string;
+    name: string;
+    version: string;
+    previousVersion: string | null;
+  };
+  source: { kind: TemplatePackSource['kind']; name: string };
+  dryRun: boolean;
+  items: TemplatePackItem[];
+  /** Templates from an earlier version of the pack that this version no longer contains */
+  removed: { templateId: number; key: string | null; title: string }[];
+  summary: Record<TemplatePackItemStatus, number>;
+}
+
+export interface TemplatePackImportOptions {
+  dryRun?: boolean;
+  /** Import even if the pack is older than the version already imported */
+  force?: boolean;
+  importedBy?: number;
+}
+
+interface LoadedTemplate {
+  key: string;
+  file: string;
+  template: InsertDocumentTemplate;
+  errors: string[];
+  warnings: string[];
+}
+
+export interface LoadedTemplatePack {
+  manifest: TemplatePackManifest;
+  manifestHash: string;
+  source: TemplatePackSource;
+  templates: LoadedTemplate[];
+}
+
+/**
+ * Hash of template text that ignores line endings and surrounding whitespace
+ */
+export function hashTemplateContent(content: string): string {
+  return crypto.createHash('sha256').update(content.replace(/\r\n?/g, '\n').trim()).digest('hex');
+}
+
+/**
+ * Compare dotted version numbers: negative if a is older than b
+ */
+export function compareVersions(a: string, b: string): number {
+  const left = a.split('.').map(Number);
+  const right = b.split('.').map(Number);
+  for (let i = 0; i < Math.max(left.length, right.length); i++) {
+    const difference = (left[i] || 0) - (right[i] || 0);
+    if (difference !== 0) return difference;
+  }
+  return 0;
+}
+
+/**
+ * Read and validate a pack's manifest and template files. Problems with
+ * individual templates are recorded on them rather than thrown, so one bad
+ * file does not block the rest of the pack.
+ */
+export async function loadTemplatePack(source: TemplatePackSource): Promise<LoadedTemplatePack> {
+  const files = await source.listFiles();
+
+  // Archives often wrap the pack in a top-level folder
+  const manifestPath = files
+    .filter(file => file === MANIFEST_FILE || file.endsWith(`/${MANIFEST_FILE}`))
+    .sort((a, b) => a.split('/').length - b.split('/').length)[0];
+  if (!manifestPath) {
+    throw new TemplatePackError(`${source.name} does not contain a ${MANIFEST_FILE}`);
+  }
+  const baseDir = path.posix.dirname(manifestPath);
+
+  const manifestBuffer = await source.readFile(manifestPath);
+  let manifestJson: unknown;
+  try {
+    manifestJson = JSON.parse(manifestBuffer.toString('utf8'));
+  } catch (error: any) {
+    throw new TemplatePackError(`${MANIFEST_FILE} is not valid JSON: ${error.message}`);
+  }
+
+  const parsed = manifestSchema.safeParse(manifestJson);
+  if (!parsed.success) {
+    throw new TemplatePackError(
+      `${MANIFEST_FILE} is invalid`,
+      parsed.error.errors.map(error => `${error.path.join('.') || 'manifest'}: ${error.message}`)
+    );
+  }
+  const manifest = parsed.data;
+
+  const templates: LoadedTemplate[] = [];
+  for (const entry of manifest.templates) {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+    const filePath = normalizePackPath(baseDir === '.' ? entry.file : `${baseDir}/${entry.file}`);
+    const extension = path.posix.extname(entry.file).slice(1).toLowerCase();
+    const reader = templateFormatReaders[extension];
+
+    let content = '';
+    if (!filePath) {
+      errors.push(`${entry.file} is outside the pack`);
+    } else if (!reader) {
+      errors.push(`${entry.file} has an unsupported format; use ${Object.keys(templateFormatReaders).map(ext => `.${ext}`).join(', ')}`);
+    } else if (files.indexOf(filePath) === -1) {
+      errors.push(`${entry.file} is listed in the manifest but missing from the pack`);
+    } else {
+      try {
+        content = (await reader(await source.readFile(filePath))).replace(/\r\n?/g, '\n').trim();
+      } catch (error: any) {
+        // Archives over the size limits are rejected as a whole
+        if (error instanceof TemplatePackError) throw error;
+        errors.push(`${entry.file} could not be read: ${error.message}`);
+      }
+    }
+
+    const fields = entry.fields ?? extractFieldsFromTemplate(content);
+    if (content) {
+      if (/\{\{\s*[\w.]+\s*\}\}/.test(content)) {
+        errors.push(`${entry.file} uses {{placeholder}} syntax; write placeholders as [FIELD_NAME]`);
+      }
+      const validation = validateTemplate(content, fields);
+      validation.errors.forEach(issue => errors.push(issue.line ? `Line ${issue.line}: ${issue.message}` : issue.message));
+      validation.warnings.forEach(issue => warnings.push(issue.line ? `Line ${issue.line}: ${issue.message}` : issue.message));
+    } else if (errors.length === 0) {
+      errors.push(`${entry.file} is empty`);
+    }
+
+    templates.push({
+      key: entry.key,
+      file: entry.file,
+      errors,
+      warnings,
+      template: {
+        templateType: entry.templateType,
+        subcategory: entry.subcategory ?? null,
+        title: entry.title,
+        description: entry.description ?? entry.title,
+        language: entry.language ?? manifest.language ?? 'en',
+        templateContent: content,
+        fields,
+        jurisdiction: entry.jurisdiction ?? manifest.jurisdiction ?? 'Canada',
+        packTemplateKey: entry.key,
+        packVersion: manifest.version,
+        contentHash: content ? hashTemplateContent(content) : null
+      }
+    });
+  }
+
+  return {
+    manifest,
+    manifestHash: crypto.createHash('sha256').update(manifestBuffer).digest('hex'),
+    source,
+    templates
+  };
+}
+
+// Fields that make a pack template differ from the saved copy
+function templateChanged(existing: DocumentTemplate, template: InsertDocumentTemplate): boolean {
+  return existing.contentHash !== template.contentHash ||
+    existing.title !== template.title ||
+    existing.description !== template.description ||
+    existing.templateType !== template.templateType ||
+    (existing.subcategory ?? null) !== (template.subcategory ?? null) ||
+    existing.language !== template.language ||
+    existing.jurisdiction !== template.jurisdiction ||
+    JSON.stringify(existing.fields) !== JSON.stringify(template.fields);
+}
+
+function sameDocument(existing: DocumentTemplate, template: InsertDocumentTemplate): boolean {
+  const contentHash = existing.contentHash ?? hashTemplateContent(existing.templateContent);
+  return contentHash === template.contentHash || (
+    existing.title.toLowerCase() === template.title.toLowerCase() &&
+    existing.language === template.language &&
+    existing.templateType === template.templateType
+  );
+}
+
+/**
+ * Decide what importing a pack would do to the existing templates, without
+ * saving anything
+ */
+export function planTemplatePackImport(
+  loaded: LoadedTemplatePack,
+  existingPack: TemplatePack | undefined,
+  existingTemplates: DocumentTemplate[],
+  options: TemplatePackImportOptions = {}
+): {
+  report: TemplatePackImportReport;
+  create: InsertDocumentTemplate[];
+  update: { id: number; template: Partial<InsertDocumentTemplate> }[];
+} {
+  const { manifest, source } = loaded;
+
+  if (existingPack && !options.force && compareVersions(manifest.version, existingPack.version) < 0) {
+    throw new TemplatePackError(
+      `Pack ${manifest.id} ${manifest.version} is older than the imported version ${existingPack.version}; import with force to downgrade`
+    );
+  }
+
+  const importedAt = new Date().toISOString();
+  const owned = existingPack ? existingTemplates.filter(template => template.packId === existingPack.id) : [];
+  const others = existingTemplates.filter(template => !existingPack || template.packId !== existingPack.id);
+  const claimed = new Set<number>();
+  const seenKeys = new Set<string>();
+  const seenContent = new Map<string, string>();
+
+  const items: TemplatePackItem[] = [];
+  const create: InsertDocumentTemplate[] = [];
+  const update: { id: number; template: Partial<InsertDocumentTemplate> }[] = [];
+
+  loaded.templates.forEach(({ key, file, template, errors, warnings }) => {
+    const item: TemplatePackItem = {
+      key,
+      file,
+      title: template.title,
+      language: template.language || 'en',
+      status: 'created',
+      messages: [...warnings]
+    };
+    items.push(item);
+
+    if (errors.length > 0) {
+      item.status = 'invalid';
+      item.messages = [...errors, ...warnings];
+      return;
+    }
+    if (seenKeys.has(key)) {
+      item.status = 'skipped';
+      item.messages.push(`Template key ${key} appears more than once in the manifest`);
+      return;
+    }
+    seenKeys.add(key);
+
+    const contentKey = `${template.language}:${template.contentHash}`;
+    const duplicateOf = seenContent.get(contentKey);
+    if (duplicateOf) {
+      item.status = 'skipped';
+      item.messages.push(`Same content as ${duplicateOf} in this pack`);
+      return;
+    }
+    seenContent.set(contentKey, key);
+
+    const withProvenance: InsertDocumentTemplate = {
+      ...template,
+      provenance: {
+        pack: manifest.id,
+        version: manifest.version,
+        sourceType: source.kind,
+        sourceName: source.name,
+        file,
+        importedAt
+      }
+    };
+
+    const current = owned.find(existing => existing.packTemplateKey === key);
+    if (current) {
+      claimed.add(current.id);
+      item.templateId = current.id;
+      if (templateChanged(current, template)) {
+        item.status = 'updated';
+        update.push({ id: current.id, template: withProvenance });
+      } else {
+        item.status = 'unchanged';
+        if (current.packVersion !== manifest.version) {
+          update.push({ id: current.id, template: { packVersion: manifest.version, provenance: withProvenance.provenance } });
+        }
+      }
+      return;
+    }
+
+    // Templates added by hand or by the old SQL scripts are taken over by the
+    // pack; templates owned by another pack are left alone
+    const match = others.find(existing => !claimed.has(existing.id) && sameDocument(existing, template));
+    if (match && match.packId === null) {
+      claimed.add(match.id);
+      item.status = 'adopted';
+      item.templateId = match.id;
+      update.push({ id: match.id, template: withProvenance });
+    } else if (match) {
+      item.status = 'skipped';
+      item.templateId = match.id;
+      item.messages.push(`Duplicate of template #${match.id} from another pack`);
+    } else {
+      create.push(withProvenance);
+    }
+  });
+
+  const removed = owned
+    .filter(template => !claimed.has(template.id))
+    .map(template => ({ templateId: template.id, key: template.packTemplateKey, title: template.title }));
+
+  const summary: Record<TemplatePackItemStatus, number> = {
+    created: 0, updated: 0, unchanged: 0, adopted: 0, skipped: 0, invalid: 0
+  };
+  items.forEach(item => { summary[item.status]++; });
+
+  return {
+    report: {
+      pack: {
+        id: existingPack?.id,
+        key: manifest.id,
+        name: manifest.name,
+        version: manifest.version,
+        previousVersion: existingPack?.version ?? null
+      },
+      source: { kind: source.kind, name: source.name },
+      dryRun: !!options.dryRun,
+      items,
+      removed,
+      summary
+    },
+    create,
+    update
+  };
+}
+
+/**
+ * Import a template pack. Invalid templates are reported and left out; the
+ * rest of the pack is saved in a single transaction unless dryRun is set.
+ */
+export async function importTemplatePack(
+  source: TemplatePackSource,
+  options: TemplatePackImportOptions = {}
+): Promise<TemplatePackImportReport> {
+  const loaded = await loadTemplatePack(source);
+  const existingPack = await storage.getTemplatePackByKey(loaded.manifest.id);
+  const existingTemplates = await storage.getAllDocumentTemplates();
+
+  const { report, create, update } = planTemplatePackImport(loaded, existingPack, existingTemplates, options);
+  if (options.dryRun) {
+    return report;
+  }
+
+  const savedPack = await storage.applyTemplatePackImport(
+    {
+      packKey: loaded.manifest.id,
+      name: loaded.manifest.name,
+      description: loaded.manifest.description ?? null,
+      publisher: loaded.manifest.publisher ?? null,
+      version: loaded.manifest.version,
+      sourceType: source.kind,
+      sourceName: source.name,
+      manifestHash: loaded.manifestHash,
+      importedBy: options.importedBy ?? null
+    },
+    { create, update }
+  );
+
+  report.pack.id = savedPack.id;
+  return report;
+}
@@ -4,6 +4,7 @@
 import { storage } from '../storage';
 import { InsertDocumentTemplate } from '@shared/schema';
 import Anthropic from '@anthropic-ai/sdk';
+import { collectTemplateReferences, validateTemplate } from './templateDsl';
 
 // Import OpenAI as a fallback
 import OpenAI from "openai";
@@ -21,6 +22,7 @@ const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
 export const PLACEHOLDER_PREFIX = "[";
 export const PLACEHOLDER_SUFFIX = "]"; 
 export const PLACEHOLDER_PATTERN = /\[([A-Z0-9_]+)\]/g; // Updated regex to allow numbers
+// Conditionals, loops and computed values are handled by templateDsl.ts
 
 // Template source definitions - future expansion would include API integration with actual template repositories
 export interface TemplateSource {
@@ -746,21 +748,32 @@ async function generateTemplateFromId(templateId: string, category: string, lang
  * @param templateContent The template text with placeholders
  * @returns Array of field objects with improved typing
  */
-function extractFieldsFromTemplate(templateContent: string): Array<{
+export function extractFieldsFromTemplate(templateContent: string): Array<{
   name: string;
   label: string;
-  type: 'text' | 'date' | 'number' | 'textarea' | 'select' | 'checkbox' | 'radio';
+  type: 'text' | 'date' | 'number' | 'textarea' | 'select' | 'checkbox' | 'radio' | 'party_list';
   required: boolean;
   options?: string[];
   defaultValue?: any;
   description?: string;
+  itemFields?: Array<{ name: string; label: string; type: 'text'; required: boolean }>;
 }> {
   // Use the consistent placeholder pattern defined at the top of the file
   const fields: Record<string, any> = {};
   
+  // Placeholders used in conditions and loops, or with filters such as
+  // [START_DATE|add_days:30], are not matched by the flat pattern
+  const placeholders: string[] = [];
   let match;
   while ((match = PLACEHOLDER_PATTERN.exec(templateContent)) !== null) {
-    const placeholder = match[1];
+    placeholders.push(match[1]);
+  }
+  const references = collectTemplateReferences(templateContent);
+  references.forEach(reference => {
+    if (reference.usage === 'value') placeholders.push(reference.name);
+  });
+  
+  for (const placeholder of placeholders) {
     const fieldName = placeholder.toLowerCase();
     
     // Skip if we've already added this field
@@ -824,6 +837,31 @@ function extractFieldsFromTemplate(templateContent: string): Array<{
     };
   }
   
+  // Conditions read as yes/no questions and loops as lists of entries
+  references.forEach(reference => {
+    const fieldName = reference.name.toLowerCase();
+    const label = reference.name.split('_')
+      .map(word => word.charAt(0) + word.slice(1).toLowerCase())
+      .join(' ');
+    
+    if (reference.usage === 'list') {
+      fields[fieldName] = {
+        name: fieldName,
+        label,
+        type: 'party_list',
+        required: true,
+        itemFields: (reference.members.length > 0 ? reference.members : ['NAME']).map(member => ({
+          name: member.toLowerCase(),
+          label: member.charAt(0) + member.slice(1).toLowerCase().replace(/_/g, ' '),
+          type: 'text' as const,
+          required: true
+        }))
+      };
+    } else if (reference.usage === 'condition' && !fields[fieldName]) {
+      fields[fieldName] = { name: fieldName, label, type: 'checkbox', required: false, defaultValue: false };
+    }
+  });
+  
   return Object.values(fields);
 }
 
@@ -846,6 +884,13 @@ export async function importAndSaveTemplate(templateId: string, language: string
       throw new Error("Failed to generate template content. Please check your AI service API keys and try again.");
     }
     
+    // Reject templates whose syntax or placeholders do not match their fields
+    const validation = validateTemplate(template.templateContent, template.fields);
+    if (!validation.valid) {
+      console.error("Imported template failed validation:", validation.errors);
+      throw new Error(`Generated template is invalid: ${validation.errors.map(error => error.message).join('; ')}`);
+    }
+    
     // Save to database
     const savedTemplate = await storage.createDocumentTemplate(template);
     return savedTemplate;
@@ -0,0 +1,387 @@
+/**
+ * Usage Metering Service
+ *
+ * This module tracks per-user consumption of metered features in the
+ * user_usage table and enforces the limits defined in subscriptionPlans.features.
+ * Usage is counted per billing period, taken from the user's subscription
+ * (currentPeriodStart/currentPeriodEnd) or a calendar month when none exists.
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { db } from '../db';
+import {
+  subscriptionPlans,
+  userUsage,
+  type SubscriptionPlan,
+  type UserSubscription,
+  type UserUsage
+} from '@shared/schema';
+import { and, eq, sql } from 'drizzle-orm';
+import { getUserSubscription } from './stripe';
+import { logger } from './logger';
+
+// Features that are metered against the subscription plan
+export type UsageFeature = 'documentGen' | 'researchQuery' | 'contractAnalysis' | 'aiChatMessage';
+
+// Plan limits keyed the same way as subscriptionPlans.features; -1 means unlimited
+export interface UsageLimits {
+  documentLimit: number;
+  researchLimit: number;
+  contractLimit: number;
+  chatLimit: number;
+}
+
+export interface UsagePeriod {
+  start: Date;
+  end: Date;
+}
+
+export interface FeatureUsage {
+  used: number;
+  limit: number;
+  remaining: number | null; // null when unlimited
+}
+
+export interface UsageSummary {
+  userId: number;
+  tier: string;
+  subscriptionStatus: string | null;
+  period: UsagePeriod;
+  features: Record<UsageFeature, FeatureUsage>;
+}
+
+// Maps each metered feature to its counter column and plan limit key
+const FEATURE_CONFIG: Record<UsageFeature, {
+  column: 'documentGenCount' | 'researchQueryCount' | 'contractAnalysisCount' | 'aiChatMessageCount';
+  limitKey: keyof UsageLimits;
+  label: string;
+}> = {
+  documentGen: { column: 'documentGenCount', limitKey: 'documentLimit', label: 'document generation' },
+  researchQuery: { column: 'researchQueryCount', limitKey: 'researchLimit', label: 'legal research' },
+  contractAnalysis: { column: 'contractAnalysisCount', limitKey: 'contractLimit', label: 'contract analysis' },
+  aiChatMessage: { column: 'aiChatMessageCount', limitKey: 'chatLimit', label: 'AI assistant messages' },
+};
+
+// Limits applied during a trial and when no usable plan can be resolved.
+// These match the basic tier so a trial never exceeds the cheapest paid plan.
+export const DEFAULT_USAGE_LIMITS: UsageLimits = {
+  documentLimit: 10,
+  researchLimit: 20,
+  contractLimit: 5,
+  chatLimit: 50,
+};
+
+// Subscription statuses that grant the plan's own limits
+const PAID_STATUSES = ['active', 'past_due'];
+const TRIAL_STATUSES = ['trial', 'trialing'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Error raised when a user has exhausted a metered feature for the period
+ */
+export class QuotaExceededError extends Error {
+  feature: UsageFeature;
+  usage: FeatureUsage;
+  period: UsagePeriod;
+  tier: string;
+
+  constructor(feature: UsageFeature, usage: FeatureUsage, period: UsagePeriod, tier: string) {
+    super(`You have reached your ${FEATURE_CONFIG[feature].label} limit of ${usage.limit} for the current billing period`);
+    this.name = 'QuotaExceededError';
+    this.feature = feature;
+    this.usage = usage;
+    this.period = period;
+    this.tier = tier;
+  }
+
+  toJSON() {
+    return {
+      error: 'quota_exceeded',
+      message: this.message,
+      feature: this.feature,
+      tier: this.tier,
+      used: this.usage.used,
+      limit: this.usage.limit,
+      periodStart: this.period.start.toISOString(),
+      periodEnd: this.period.end.toISOString(),
+      upgradeUrl: '/subscription-plans',
+    };
+  }
+}
+
+/**
+ * Look up a subscription plan by tier name ("basic") or numeric ID ("2")
+ */
+export async function getPlanByPlanId(planId: string | null): Promise<SubscriptionPlan | undefined> {
+  if (!planId) return undefined;
+
+  const [plan] = isNaN(Number(planId))
+    ? await db.select().from(subscriptionPlans).where(eq(subscriptionPlans.tier, planId))
+    : await db.select().from(subscriptionPlans).where(eq(subscriptionPlans.id, parseInt(planId, 10)));
+
+  return plan;
+}
+
+/**
+ * Parse subscriptionPlans.features into limits, falling back to defaults for missing keys
+ */
+function parsePlanLimits(features: unknown): UsageLimits {
+  const source = (features && typeof features === 'object' ? features : {}) as Record<string, unknown>;
+  const limits = { ...DEFAULT_USAGE_LIMITS };
+
+  for (const key of Object.keys(limits) as (keyof UsageLimits)[]) {
+    const value = Number(source[key]);
+    if (Number.isFinite(value)) {
+      limits[key] = value;
+    }
+  }
+
+  return limits;
+}
+
+/**
+ * Take the stricter of two limits, treating negative values as unlimited
+ */
+function stricterLimit(a: number, b: number): number {
+  if (a < 0) return b;
+  if (b < 0) return a;
+  return Math.min(a, b);
+}
+
+/**
+ * Resolve the limits that currently apply to a subscription
+ */
+export async function resolveUsageLimits(
+  subscription: UserSubscription | null | undefined
+): Promise<{ tier: string; limits: UsageLimits }> {
+  if (!subscription) {
+    return { tier: 'trial', limits: DEFAULT_USAGE_LIMITS };
+  }
+
+  const now = new Date();
+  const isPaid = PAID_STATUSES.includes(subscription.status) ||
+    (subscription.status === 'canceled' && !!subscription.currentPeriodEnd && subscription.currentPeriodEnd > now);
+  const isTrial = TRIAL_STATUSES.includes(subscription.status) &&
+    (!subscription.trialEnd || subscription.trialEnd > now);
+
+  if (!isPaid && !isTrial) {
+    return { tier: 'trial', limits: DEFAULT_USAGE_LIMITS };
+  }
+
+  let plan: SubscriptionPlan | undefined;
+  try {
+    plan = await getPlanByPlanId(subscription.planId);
+  } catch (error) {
+    logger.error('[usage] Error looking up subscription plan:', error);
+  }
+
+  if (!plan) {
+    return { tier: 'trial', limits: DEFAULT_USAGE_LIMITS };
+  }
+
+  const planLimits = parsePlanLimits(plan.features);
+
+  if (isTrial) {
+    // Trials get the plan's features but never more than the default allowance
+    const limits = { ...planLimits };
+    for (const key of Object.keys(limits) as (keyof UsageLimits)[]) {
+      limits[key] = stricterLimit(planLimits[key], DEFAULT_USAGE_LIMITS[key]);
+    }
+    return { tier: 'trial', limits };
+  }
+
+  return { tier: plan.tier, limits: planLimits };
+}
+
+/**
+ * Determine the billing period containing `now`.
+ *
+ * Uses the subscription's current period, rolling it forward by whole periods
+ * if the stored period has lapsed without being renewed (e.g. a missed webhook).
+ * Without a subscription period, the calendar month (UTC) is used.
+ */
+export function getBillingPeriod(
+  subscription: UserSubscription | null | undefined,
+  now: Date = new Date()
+): UsagePeriod {
+  const start = subscription?.currentPeriodStart;
+  const end = subscription?.currentPeriodEnd;
+
+  if (start && end && end.getTime() > start.getTime()) {
+    if (now >= start && now < end) {
+      return { start, end };
+    }
+
+    if (now >= end) {
+      const length = end.getTime() - start.getTime();
+      const elapsed = Math.floor((now.getTime() - start.getTime()) / length);
+      const periodStart = new Date(start.getTime() + elapsed * length);
+      return { start: periodStart, end: new Date(periodStart.getTime() + length) };
+    }
+  }
+
+  const monthStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+  const monthEnd = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1));
+  return { start: monthStart, end: monthEnd };
+}
+
+/**
+ * Get the usage row for a user's billing period, creating it if necessary
+ */
+async function getOrCreateUsageRecord(userId: number, period: UsagePeriod): Promise<UserUsage> {
+  const findRecord = async () => {
+    const [record] = await db
+      .select()
+      .from(userUsage)
+      .where(and(eq(userUsage.userId, userId), eq(userUsage.periodStart, period.start)));
+    return record;
+  };
+
+  const existing = await findRecord();
+  if (existing) return existing;
+
+  const [created] = await db
+    .insert(userUsage)
+    .values({
+      userId,
+      periodStart: period.start,
+      periodEnd: period.end,
+      updatedAt: new Date(),
+    })
+    .onConflictDoNothing()
+    .returning();
+
+  // Another request may have created the row concurrently
+  return created ?? (await findRecord())!;
+}
+
+function toFeatureUsage(used: number, limit: number): FeatureUsage {
+  return {
+    used,
+    limit,
+    remaining: limit < 0 ? null : Math.max(limit - used, 0),
+  };
+}
+
+/**
+ * Load the subscription, limits, period and usage row for a user
+ */
+async function loadUsageContext(userId: number) {
+  const subscription = await getUserSubscription(userId);
+  const { tier, limits } = await resolveUsageLimits(subscription);
+  const period = getBillingPeriod(subscription);
+  const record = await getOrCreateUsageRecord(userId, period);
+  return { subscription, tier, limits, period, record };
+}
+
+/**
+ * Get a summary of the user's usage and limits for the current billing period
+ */
+export async function getUsageSummary(userId: number): Promise<UsageSummary> {
+  const { subscription, tier, limits, period, record } = await loadUsageContext(userId);
+
+  const features = {} as Record<UsageFeature, FeatureUsage>;
+  for (const feature of Object.keys(FEATURE_CONFIG) as UsageFeature[]) {
+    const { column, limitKey } = FEATURE_CONFIG[feature];
+    features[feature] = toFeatureUsage(record[column] ?? 0, limits[limitKey]);
+  }
+
+  return {
+    userId,
+    tier,
+    subscriptionStatus: subscription?.status ?? null,
+    period,
+    features,
+  };
+}
+
+/**
+ * Atomically reserve one unit of a feature for the user.
+ *
+ * The counter is only incremented while it is below the plan limit, so
+ * concurrent requests cannot push a user past their quota.
+ *
+ * @returns The usage row ID, to be passed to releaseUsage if the request fails
+ * @throws QuotaExceededError if the limit has been reached
+ */
+export async function reserveUsage(userId: number, feature: UsageFeature): Promise<number> {
+  const { tier, limits, period, record } = await loadUsageContext(userId);
+  const { column, limitKey } = FEATURE_CONFIG[feature];
+  const limit = limits[limitKey];
+  const counter = userUsage[column];
+
+  const [updated] = await db
+    .update(userUsage)
+    .set({
+      [column]: sql`coalesce(${counter}, 0) + 1`,
+      updatedAt: new Date(),
+    })
+    .where(
+      limit < 0
+        ? eq(userUsage.id, record.id)
+        : and(eq(userUsage.id, record.id), sql`coalesce(${counter}, 0) < ${limit}`)
+    )
+    .returning({ id: userUsage.id });
+
+  if (!updated) {
+    throw new QuotaExceededError(feature, toFeatureUsage(record[column] ?? 0, limit), period, tier);
+  }
+
+  return updated.id;
+}
+
+/**
+ * Give back a unit reserved by reserveUsage (used when the metered request fails)
+ */
+export async function releaseUsage(usageId: number, feature: UsageFeature): Promise<void> {
+  const { column } = FEATURE_CONFIG[feature];
+  const counter = userUsage[column];
+
+  await db
+    .update(userUsage)
+    .set({
+      [column]: sql`greatest(coalesce(${counter}, 0) - 1, 0)`,
+      updatedAt: new Date(),
+    })
+    .where(eq(userUsage.id, usageId));
+}
+
+/**
+ * Express middleware enforcing the quota for a metered feature.
+ *
+ * A unit is reserved before the route runs and released again if the route
+ * responds with an error, so only successful calls count against the quota.
+ * Admins are not metered.
+ */
+export function enforceUsageQuota(feature: UsageFeature) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user || req.user.role === 'admin') {
+      return next();
+    }
+
+    let usageId: number;
+    try {
+      usageId = await reserveUsage(req.user.id, feature);
+    } catch (error) {
+      if (error instanceof QuotaExceededError) {
+        logger.info(`[usage] User ${req.user.id} exceeded ${feature} quota (${error.usage.used}/${error.usage.limit})`);
+        return res.status(402).json(error.toJSON());
+      }
+
+      // Metering must not take the feature down; log and let the request through
+      logger.error(`[usage] Failed to meter ${feature} for user ${req.user.id}:`, error);
+      return next();
+    }
+
+    res.on('finish', () => {
+      if (res.statusCode >= 400) {
+        releaseUsage(usageId, feature).catch(error => {
+          logger.error(`[usage] Failed to release ${feature} usage ${usageId}:`, error);
+        });
+      }
+    });
+
+    next();
+  };
+}
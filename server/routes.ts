@@ -11,7 +11,10 @@ import {
   insertMediationMessageSchema,
   insertSavedCitationSchema,
   insertResearchVisualizationSchema,
-  insertUserFeedbackSchema
+  insertUserFeedbackSchema,
+  settlementTermSchema,
+  type ContractAnalysis,
+  type SettlementTerm
 } from "@shared/schema";
 import { z } from "zod";
 
@@ -19,30 +22,92 @@ import { z } from "zod";
 import { 
   generateAIResponse as generateDeepSeekResponse, 
   performLegalResearch as performDeepSeekResearch,
-  analyzeContract,
   compareContracts,
   extractTextFromPdf
 } from "./lib/deepseek";
-import { mediationHandlers, generateWelcomeMessage, generateMediatorResponse, generateMediationSummary } from "./lib/mediationAI";
-import { setupAuth, isAuthenticated, isAdmin } from "./auth";
+import { analyzeContract } from "./lib/contractAnalysis";
+import { annotateClauseImpacts, compareContractClauses } from "./lib/contractDiff";
+import { buildMatterHistory, diffAnalysisVersions } from "./lib/contractVersioning";
+import { mediationHandlers, generateWelcomeMessage, generateMediationSummary } from "./lib/mediationAI";
+import { attachMediationRealtime, broadcastToMediationSession, canAccessMediationSession, relayMediatorResponse } from "./lib/mediationRealtime";
+import { setupAuth, isAuthenticated } from "./auth";
+import { hasPermission, requirePermission } from "./lib/permissions";
 import multer from "multer";
 import path from "path";
+import os from "os";
+import { promises as fsPromises } from "fs";
+import { pipeline } from "stream";
 import { templateSources, importAndSaveTemplate } from "./lib/templateSources";
+import { renderTemplate, validateTemplate, TemplateDataError } from "./lib/templateDsl";
 import { 
   analyzeLegalDocument
 } from "./lib/anthropic";
 
 // Enhanced AI services
 import { generateChatResponse } from "./lib/aiService";
+import { ChatThreadError, getOrCreateActiveThread, getOwnedThread, prepareThreadMessage, saveThreadReply, sendThreadMessage } from "./lib/chatThreads";
 import { streamAIResponse } from "./lib/aiStreamService";
 import { enhancedLegalResearch } from "./lib/researchService";
+import { canliiUrl, checkCitation, checkCitationsInText, findCitations, formatMcGill } from "./lib/citations";
 import { registerAdminRoutes } from "./lib/adminRoutes";
+import { enforceUsageQuota } from "./lib/usageService";
+import { exportDocument, EXPORT_FORMATS, type ExportResult } from "./lib/documentExport";
+import { detectContentType, parseRangeHeader } from "./lib/blobStorage";
+import { enqueueCasePrediction, getQueuePosition, INITIAL_PREDICTION_STATE } from "./lib/casePrediction";
+import { searchKnowledge, KNOWLEDGE_RESULT_TYPES, MAX_PAGE_SIZE, type KnowledgeResultType } from "./lib/knowledgeSearch";
+import {
+  acceptAnswer,
+  answerQuestion,
+  askFollowUp,
+  assignQuestion,
+  buildDraft,
+  createEscalation,
+  describeSla,
+  EscalationError,
+  ESCALATION_URGENCIES,
+  getReviewers,
+  OPEN_STATUSES,
+  type EscalationUrgency
+} from "./lib/escalations";
+import {
+  buildCertificate,
+  confirmSigning,
+  invalidateSignaturesForEdit,
+  proposalContentHash,
+  publicSignature,
+  renderCertificateHtml,
+  resendSigningCode,
+  SigningError,
+  startSigning,
+  verifyAuditTrail,
+  verifyCertificate,
+  type SigningRequestInfo
+} from "./lib/proposalSigning";
+import { archiveInvalidatedSubmissions } from "./lib/docuSealSigning";
+import {
+  analyzeZoneOfAgreement,
+  checkProposalUpdate,
+  createCounterProposal,
+  getNegotiationThread,
+  lapseExpiredProposals,
+  NegotiationError,
+  parseTermsAndConditions
+} from "./lib/settlementNegotiation";
+import { config } from "./config";
 import complianceRouter from "./routes/compliance";
 import courtProceduresRouter from "./routes/courtProcedures";
+import procedurePersonalizationRouter from "./routes/procedurePersonalization";
 import userRouter from "./routes/user";
 import docusealRouter from "./routes/docuseal";
 import subscriptionRouter from "./routes/subscription";
 import jurisdictionsRouter from "./routes/jurisdictions";
+import templatePacksRouter from "./routes/templatePacks";
+import rolesRouter from "./routes/roles";
+import notificationsRouter from "./routes/notifications";
+import chatThreadsRouter from "./routes/chatThreads";
+import researchCorpusRouter from "./routes/researchCorpus";
+import costEstimatesRouter from "./routes/costEstimates";
+import costRateTablesRouter from "./routes/costRateTables";
 import { handleStripeWebhook } from "./routes/webhook";
 
 // Set up multer for file uploads
@@ -68,6 +133,39 @@ const upload = multer({
   }
 });
 
+// Dispute evidence is written to a temporary file and streamed into blob
+// storage, so large recordings and scans never sit in memory
+const evidenceUpload = multer({
+  storage: multer.diskStorage({ destination: os.tmpdir() }),
+  limits: {
+    fileSize: config.EVIDENCE_MAX_UPLOAD_MB * 1024 * 1024,
+  },
+});
+
+// Evidence types, checked against the file's content rather than its declared type
+const EVIDENCE_TYPES = [
+  'application/pdf',
+  'text/plain',
+  'text/csv',
+  'application/rtf',
+  'application/msword',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'application/vnd.ms-excel',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  'image/png',
+  'image/jpeg',
+  'image/gif',
+  'image/webp',
+  'image/tiff',
+  'image/heic',
+  'audio/mpeg',
+  'audio/mp4',
+  'video/mp4'
+];
+
+// Types a browser may display inline; anything else is always downloaded
+const INLINE_TYPES = ['application/pdf', 'image/png', 'image/jpeg', 'image/gif', 'image/webp', 'audio/mpeg', 'audio/mp4', 'video/mp4'];
+
 // Define Google Auth schema
 const googleAuthSchema = z.object({
   email: z.string().email(),
@@ -76,11 +174,46 @@ const googleAuthSchema = z.object({
   uid: z.string()
 });
 
+// List filters may be repeated (?tags=a&tags=b) or comma-separated (?tags=a,b)
+const queryList = z.union([z.string(), z.array(z.string())])
+  .transform(value => (Array.isArray(value) ? value : [value])
+    .flatMap(item => item.split(','))
+    .map(item => item.trim())
+    .filter(Boolean));
+
+const knowledgeSearchQuerySchema = z.object({
+  q: z.string().trim().min(1, "Search query is required").max(500),
+  language: z.enum(["en", "fr"]).default("en"),
+  domainId: z.coerce.number().int().positive().optional(),
+  jurisdiction: queryList.optional(),
+  tags: queryList.optional(),
+  type: queryList.pipe(z.array(z.enum(KNOWLEDGE_RESULT_TYPES as [KnowledgeResultType, ...KnowledgeResultType[]]))).optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(MAX_PAGE_SIZE).default(10),
+});
+
+/**
+ * Check that a contract matter exists and belongs to the user
+ */
+async function isOwnContractMatter(userId: number, matterId: number): Promise<boolean> {
+  const matter = await storage.getContractMatter(matterId);
+  return !!matter && matter.userId === userId;
+}
+
+/**
+ * Identifiers of a newly saved analysis version, for inclusion in analysis responses
+ */
+function savedVersionInfo(analysis?: ContractAnalysis) {
+  return analysis
+    ? { savedAnalysisId: analysis.id, matterId: analysis.matterId, version: analysis.version }
+    : {};
+}
+
 // Middleware is now imported from auth.ts, no need for duplicates
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // Setup authentication
-  setupAuth(app);
+  const sessionMiddleware = setupAuth(app);
 
   // Register admin routes for AI service management
   registerAdminRoutes(app);
@@ -90,6 +223,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.use('/api/docuseal', docusealRouter);
   app.use('/api/subscriptions', subscriptionRouter);
   app.use('/api/jurisdictions', jurisdictionsRouter);
+  app.use('/api/admin/template-packs', templatePacksRouter);
+  app.use('/api/admin/research-corpus', researchCorpusRouter);
+  app.use('/api/admin/cost-rate-tables', costRateTablesRouter);
+  app.use('/api/admin', rolesRouter);
+  app.use('/api/notifications', notificationsRouter);
+  app.use('/api/chat/threads', chatThreadsRouter);
+  app.use('/api/cost-estimates', costEstimatesRouter);
   
   // Stripe webhook endpoint - raw body required for signature verification
   app.post('/api/webhook/stripe', express.raw({type: 'application/json'}), handleStripeWebhook);
@@ -154,6 +294,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const response = await generateChatResponse(prompt, {
         system: "You are a test assistant. Keep responses brief (1-2 sentences).",
         cacheKey: `test-${Date.now()}`, // Prevent caching for test endpoint
+        semanticCache: false,
         logPrefix: "AI Test" 
       });
       
@@ -285,19 +426,25 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Chat message routes
+  // Chat message routes. Without a threadId these use the user's most
+  // recently active thread; see routes/chatThreads.ts for managing threads.
   app.get("/api/chat/messages", isAuthenticated, async (req: Request, res: Response) => {
     try {
-      // Get userId from authenticated user session
-      const userId = req.user!.id; // Using non-null assertion as we already checked in middleware
-      const messages = await storage.getChatMessagesByUserId(userId);
+      const threadId = req.query.threadId ? parseInt(req.query.threadId as string) : NaN;
+      const thread = isNaN(threadId)
+        ? await getOrCreateActiveThread(req.user!.id)
+        : await getOwnedThread(threadId, req.user!.id);
+      const messages = await storage.getChatMessagesByThreadId(thread.id);
       res.json(messages);
     } catch (error) {
+      if (error instanceof ChatThreadError) {
+        return res.status(error.status).json({ message: error.message });
+      }
       res.status(500).json({ message: "Error retrieving chat messages" });
     }
   });
 
-  app.post("/api/chat/messages", isAuthenticated, async (req: Request, res: Response) => {
+  app.post("/api/chat/messages", isAuthenticated, enforceUsageQuota('aiChatMessage'), async (req: Request, res: Response) => {
     try {
       // Validate message data
       const messageSchema = insertChatMessageSchema.omit({ userId: true });
@@ -306,50 +453,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Invalid message data" });
       }
       
-      // Save the user message with authenticated user ID
-      const userMessage = await storage.createChatMessage({
-        ...parsed.data,
-        userId: req.user!.id
-      });
-      
-      // Generate AI response using enhanced AI service with built-in fallback
-      const aiResponse = await generateChatResponse(parsed.data.content, {
-        system: `You are an AI legal assistant specialized in Canadian law. 
-        Provide helpful, accurate information about Canadian legal topics. 
-        Always clarify that you are not providing legal advice and recommend consulting a qualified lawyer for specific legal issues.
-        Focus on Canadian legal frameworks, regulations, and precedents.
-        Be respectful, concise, and easy to understand.
-        Avoid excessive legalese, but maintain accuracy in legal concepts.`,
-        cacheKey: `chat-${parsed.data.content.substring(0, 100)}`,
-        logPrefix: "Chat API"
-      });
-      
-      // Check if we received an error object from the enhanced error handling
-      let aiContent: string;
-      let aiErrorCode: string | null = null;
-      
-      if (aiResponse && typeof aiResponse === 'object' && 'error' in aiResponse) {
-        // Handle structured error response with recovery info
-        const errorObj = aiResponse as { error: boolean; message: string; errorType: string; recovery?: string };
-        console.log(`AI Chat error: Type=${errorObj.errorType}, Message="${errorObj.message}"`);
-        
-        // Format a user-friendly error message
-        aiContent = `${errorObj.message}\n\n${errorObj.recovery || 'Please try again later.'}`;
-        aiErrorCode = errorObj.errorType;
-      } else {
-        // Normal string response
-        aiContent = aiResponse as string;
-      }
+      const thread = parsed.data.threadId
+        ? await getOwnedThread(parsed.data.threadId, req.user!.id)
+        : await getOrCreateActiveThread(req.user!.id);
       
-      // Save the AI message
-      const aiMessage = await storage.createChatMessage({
-        userId: req.user!.id,
-        role: "assistant",
-        content: aiContent,
-        metadata: aiErrorCode ? { errorType: aiErrorCode } : undefined
-      });
+      // Save the user message, answer it in the context of the thread and save the answer
+      const { thread: updatedThread, userMessage, aiMessage, aiErrorCode } = await sendThreadMessage(thread, parsed.data.content);
       
       res.status(201).json({ 
+        thread: updatedThread,
         userMessage, 
         aiMessage,
         error: aiErrorCode ? {
@@ -358,16 +470,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
         } : null
       });
     } catch (error) {
+      if (error instanceof ChatThreadError) {
+        return res.status(error.status).json({ message: error.message });
+      }
       res.status(500).json({ message: "Error creating chat message" });
     }
   });
   
-  // Stream chat responses (for real-time UI updates)
-  app.post("/api/chat/stream", isAuthenticated, async (req: Request, res: Response) => {
+  // Stream chat responses (for real-time UI updates). Like POST
+  // /api/chat/messages, this answers in the given thread or the active one.
+  app.post("/api/chat/stream", isAuthenticated, enforceUsageQuota('aiChatMessage'), async (req: Request, res: Response) => {
     try {
       // Validate message data
       const messageSchema = z.object({
         content: z.string().min(1),
+        threadId: z.number().int().positive().optional(),
       });
       
       const parsed = messageSchema.safeParse(req.body);
@@ -375,27 +492,33 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Invalid message data" });
       }
       
-      // Save the user message
-      await storage.createChatMessage({
-        userId: req.user!.id,
-        role: "user",
-        content: parsed.data.content
-      });
+      const thread = parsed.data.threadId
+        ? await getOwnedThread(parsed.data.threadId, req.user!.id)
+        : await getOrCreateActiveThread(req.user!.id);
+
+      // Save the user message and build the prompt from the thread's summary and history
+      const prepared = await prepareThreadMessage(thread, parsed.data.content);
       
       // Set headers for streaming
       res.setHeader('Content-Type', 'text/event-stream');
       res.setHeader('Cache-Control', 'no-cache');
       res.setHeader('Connection', 'keep-alive');
       
-      // Start streaming the AI response
-      await streamAIResponse(req, res);
+      // Stream the AI response, then save it in the thread
+      const reply = await streamAIResponse(res, { prompt: prepared.prompt, system: prepared.system });
+      if (reply) {
+        await saveThreadReply(prepared.thread, prepared.grounding, reply, null);
+      }
       
     } catch (error) {
+      if (error instanceof ChatThreadError && !res.headersSent) {
+        return res.status(error.status).json({ message: error.message });
+      }
       console.error("Streaming chat error:", error);
       // If headers haven't been sent yet, send error response
       if (!res.headersSent) {
         res.status(500).json({ message: "Error streaming chat response" });
-      } else {
+      } else if (!res.writableEnded) {
         // Otherwise, end the response with an error event
         res.write(`event: error\ndata: ${JSON.stringify({ message: "Error occurred during streaming" })}\n\n`);
         res.end();
@@ -469,8 +592,89 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Check template content against a fields schema before it is saved
+  app.post("/api/document-templates/validate", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const validateSchema = z.object({
+        templateContent: z.string().min(1, "Template content is required"),
+        fields: z.union([z.array(z.any()), z.record(z.any())])
+      });
+      
+      const parsed = validateSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid template data", errors: parsed.error.format() });
+      }
+      
+      res.json(validateTemplate(parsed.data.templateContent, parsed.data.fields));
+    } catch (error) {
+      console.error("Template validation error:", error);
+      res.status(500).json({ message: "Error validating template" });
+    }
+  });
+
+  // Validate every stored template against its own fields schema
+  app.get("/api/admin/document-templates/validation", requirePermission("templates:publish"), async (_req: Request, res: Response) => {
+    try {
+      const templates = [
+        ...(await storage.getDocumentTemplates("en")),
+        ...(await storage.getDocumentTemplates("fr"))
+      ];
+      
+      const results = templates.map(template => ({
+        templateId: template.id,
+        title: template.title,
+        language: template.language,
+        ...validateTemplate(template.templateContent, template.fields)
+      }));
+      
+      res.json({
+        total: results.length,
+        invalid: results.filter(result => !result.valid).length,
+        results
+      });
+    } catch (error) {
+      console.error("Template validation report error:", error);
+      res.status(500).json({ message: "Error validating document templates" });
+    }
+  });
+
+  // Fill a template with typed form data, evaluating conditions, loops and computed values
+  app.post("/api/document-templates/:id/render", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid template ID" });
+      }
+      
+      const renderSchema = z.object({ data: z.record(z.any()) });
+      const parsed = renderSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid template data", errors: parsed.error.format() });
+      }
+      
+      const template = await storage.getDocumentTemplate(id);
+      if (!template) {
+        return res.status(404).json({ message: "Template not found" });
+      }
+      
+      const content = renderTemplate(template.templateContent, template.fields, parsed.data.data, {
+        language: template.language === "fr" ? "fr" : "en"
+      });
+      res.json({ content });
+    } catch (error) {
+      if (error instanceof TemplateDataError) {
+        return res.status(400).json({ message: error.message, issues: error.issues });
+      }
+      console.error("Template render error:", error);
+      res.status(500).json({ 
+        message: "Error rendering document template",
+        details: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
   // Generated document routes
-  app.post("/api/documents", isAuthenticated, async (req: Request, res: Response) => {
+  app.post("/api/documents", isAuthenticated, enforceUsageQuota('documentGen'), async (req: Request, res: Response) => {
     try {
       // Log the incoming document creation request for debugging
       console.log("Document creation request received");
@@ -537,15 +741,97 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Send an exported document file as a download
+  const sendExportedDocument = (res: Response, exported: ExportResult) => {
+    res.setHeader('Content-Type', exported.contentType);
+    res.setHeader(
+      'Content-Disposition',
+      `attachment; filename="${exported.fileName}"; filename*=UTF-8''${encodeURIComponent(exported.fileName)}`
+    );
+    res.setHeader('Content-Length', exported.buffer.length.toString());
+    res.send(exported.buffer);
+  };
+
+  // Export a saved generated document as DOCX or RTF
+  app.get("/api/documents/:id/export", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const format = z.enum(EXPORT_FORMATS).safeParse(req.query.format);
+      if (isNaN(id) || !format.success) {
+        return res.status(400).json({ 
+          message: "Invalid export request", 
+          details: `Format must be one of: ${EXPORT_FORMATS.join(', ')}`
+        });
+      }
+      
+      const document = await storage.getGeneratedDocument(id);
+      if (!document) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+      
+      if (document.userId !== req.user!.id) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      
+      // Use the template language as the default language for the document
+      const template = document.templateId 
+        ? await storage.getDocumentTemplate(document.templateId) 
+        : undefined;
+      
+      const exported = await exportDocument({
+        title: document.documentTitle,
+        content: document.documentContent,
+        language: template?.language
+      }, format.data);
+      
+      sendExportedDocument(res, exported);
+    } catch (error) {
+      console.error("Error exporting document:", error);
+      res.status(500).json({ message: "Error exporting document" });
+    }
+  });
+
+  // Export unsaved document content as DOCX or RTF
+  app.post("/api/documents/export", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const exportSchema = z.object({
+        content: z.string().min(1),
+        title: z.string().min(1).max(255),
+        language: z.string().optional(),
+        format: z.enum(EXPORT_FORMATS)
+      });
+      
+      const parsed = exportSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ 
+          message: "Invalid export request", 
+          details: parsed.error.format()
+        });
+      }
+      
+      const exported = await exportDocument({
+        title: parsed.data.title,
+        content: parsed.data.content,
+        language: parsed.data.language
+      }, parsed.data.format);
+      
+      sendExportedDocument(res, exported);
+    } catch (error) {
+      console.error("Error exporting document:", error);
+      res.status(500).json({ message: "Error exporting document" });
+    }
+  });
+
   // Contract analysis with text input
-  app.post("/api/analyze-contract", isAuthenticated, async (req: Request, res: Response) => {
+  app.post("/api/analyze-contract", isAuthenticated, enforceUsageQuota('contractAnalysis'), async (req: Request, res: Response) => {
     try {
       const contractSchema = z.object({
         content: z.string().min(1),
         save: z.boolean().optional(),
         title: z.string().optional(),
         jurisdiction: z.string().optional(),
-        contractType: z.string().optional()
+        contractType: z.string().optional(),
+        matterId: z.number().int().positive().optional()
       });
       
       const parsed = contractSchema.safeParse(req.body);
@@ -553,6 +839,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Invalid contract data" });
       }
       
+      // A new version can only be added to one of the user's own matters
+      if (parsed.data.matterId && !(await isOwnContractMatter(req.user!.id, parsed.data.matterId))) {
+        return res.status(404).json({ message: "Contract matter not found" });
+      }
+      
       // Analyze the contract with optional jurisdiction and contract type
       const analysisResult = await analyzeContract(
         parsed.data.content,
@@ -561,6 +852,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       );
       
       // Save the analysis result if requested
+      let savedAnalysis: ContractAnalysis | undefined;
       if (parsed.data.save && parsed.data.title) {
         const now = new Date();
         
@@ -568,13 +860,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
         const sanitizedContractContent = parsed.data.content.replace(/\0/g, '');
         
         // Create trimmed version if content is too large
-        const maxContentLength = 100000; // Reasonable max length for DB storage
+        const maxContentLength = 500000; // Matches the PDF text extraction limit, so risk locations stay valid
         const trimmedContractContent = sanitizedContractContent.length > maxContentLength
           ? sanitizedContractContent.substring(0, maxContentLength) + "... [content truncated due to size]"
           : sanitizedContractContent;
         
         try {
-          await storage.createContractAnalysis({
+          savedAnalysis = await storage.createContractAnalysisVersion({
             userId: req.user!.id,
             contractContent: trimmedContractContent,
             contractTitle: parsed.data.title,
@@ -585,14 +877,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
             contractType: parsed.data.contractType || 'general',
             updatedAt: now,
             categories: analysisResult.clause_categories as any
-          });
+          }, parsed.data.matterId);
         } catch (saveError) {
           console.error("Failed to save contract analysis:", saveError);
           // Continue with response even if saving fails
         }
       }
       
-      res.json(analysisResult);
+      res.json({ ...analysisResult, ...savedVersionInfo(savedAnalysis) });
     } catch (error) {
       console.error("Contract analysis error:", error);
       res.status(500).json({ message: "Error analyzing contract" });
@@ -600,7 +892,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // Contract analysis with file upload
-  app.post("/api/analyze-contract/upload", isAuthenticated, upload.single('contractFile'), async (req: Request, res: Response) => {
+  app.post("/api/analyze-contract/upload", isAuthenticated, enforceUsageQuota('contractAnalysis'), upload.single('contractFile'), async (req: Request, res: Response) => {
     try {
       console.log("Contract analysis upload request received");
       
@@ -617,9 +909,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const save = req.body.save === 'true';
       const jurisdiction = req.body.jurisdiction || 'Canada';
       const contractType = req.body.contractType || 'general';
+      const matterId = req.body.matterId ? parseInt(req.body.matterId) : undefined;
       
       console.log(`Analysis parameters: Title: ${title}, Save: ${save}, Jurisdiction: ${jurisdiction}, Type: ${contractType}`);
       
+      // A new version can only be added to one of the user's own matters
+      if (matterId !== undefined && (isNaN(matterId) || !(await isOwnContractMatter(req.user!.id, matterId)))) {
+        return res.status(404).json({ message: "Contract matter not found" });
+      }
+      
       // Check file size
       if (req.file.size === 0) {
         console.error("Empty file uploaded (size is 0 bytes)");
@@ -836,6 +1134,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       // Save the analysis result if requested
+      let savedAnalysis: ContractAnalysis | undefined;
       if (save && title && analysisResult.score !== undefined) {
         try {
           const now = new Date();
@@ -844,12 +1143,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
           const sanitizedContractText = contractText.replace(/\0/g, '');
           
           // Create trimmed version if content is too large
-          const maxContentLength = 100000; // Reasonable max length for DB storage
+          const maxContentLength = 500000; // Matches the PDF text extraction limit, so risk locations stay valid
           const trimmedContractText = sanitizedContractText.length > maxContentLength
             ? sanitizedContractText.substring(0, maxContentLength) + "... [content truncated due to size]"
             : sanitizedContractText;
           
-          await storage.createContractAnalysis({
+          savedAnalysis = await storage.createContractAnalysisVersion({
             userId: req.user!.id,
             contractContent: trimmedContractText,
             contractTitle: title,
@@ -861,7 +1160,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
             fileName: req.file.originalname,
             updatedAt: now,
             categories: analysisResult.clause_categories as any
-          });
+          }, matterId);
         } catch (saveError) {
           console.error("Failed to save contract analysis:", saveError);
           // Continue with response even if saving fails
@@ -871,6 +1170,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Include the extracted text in the response so client can use it for saving
       res.json({
         ...analysisResult,
+        ...savedVersionInfo(savedAnalysis),
         extractedText: contractText
       });
     } catch (error) {
@@ -893,6 +1193,38 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
+  // Get the user's contract matters with their latest version
+  app.get("/api/contract-analyses/matters", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const [matters, analyses] = await Promise.all([
+        storage.getContractMattersByUserId(req.user!.id),
+        storage.getContractAnalysesByUserId(req.user!.id)
+      ]);
+      
+      res.json(matters.map(matter => {
+        const versions = analyses.filter(analysis => analysis.matterId === matter.id);
+        const latest = versions.reduce<ContractAnalysis | undefined>(
+          (current, analysis) => !current || (analysis.version ?? 0) > (current.version ?? 0) ? analysis : current,
+          undefined
+        );
+        return {
+          ...matter,
+          versionCount: versions.length,
+          latest: latest ? {
+            analysisId: latest.id,
+            version: latest.version,
+            score: latest.score,
+            riskLevel: latest.riskLevel,
+            createdAt: latest.createdAt
+          } : null
+        };
+      }));
+    } catch (error) {
+      console.error("Contract matters retrieval error:", error);
+      res.status(500).json({ message: "Error retrieving contract matters" });
+    }
+  });
+  
   // Get a specific saved contract analysis
   app.get("/api/contract-analyses/:id", isAuthenticated, async (req: Request, res: Response) => {
     try {
@@ -918,6 +1250,68 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
+  // Version history of the matter a saved analysis belongs to
+  app.get("/api/contract-analyses/:id/history", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid ID format" });
+      }
+      
+      const analysis = await storage.getContractAnalysis(id);
+      if (!analysis) {
+        return res.status(404).json({ message: "Contract analysis not found" });
+      }
+      if (analysis.userId !== req.user!.id) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      
+      // Analyses saved before versioning are given their matter by db-migrate
+      const matter = analysis.matterId ? await storage.getContractMatter(analysis.matterId) : undefined;
+      if (!matter) {
+        return res.status(404).json({ message: "Contract matter not found" });
+      }
+      
+      const versions = await storage.getContractAnalysesByMatterId(matter.id);
+      res.json(buildMatterHistory(matter, versions));
+    } catch (error) {
+      console.error("Contract analysis history error:", error);
+      res.status(500).json({ message: "Error retrieving contract analysis history" });
+    }
+  });
+  
+  // Compare any two versions of the same matter
+  app.get("/api/contract-analyses/:id/compare/:otherId", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const otherId = parseInt(req.params.otherId);
+      if (isNaN(id) || isNaN(otherId)) {
+        return res.status(400).json({ message: "Invalid ID format" });
+      }
+      
+      const [first, second] = await Promise.all([
+        storage.getContractAnalysis(id),
+        storage.getContractAnalysis(otherId)
+      ]);
+      if (!first || !second) {
+        return res.status(404).json({ message: "Contract analysis not found" });
+      }
+      if (first.userId !== req.user!.id || second.userId !== req.user!.id) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      if (!first.matterId || first.matterId !== second.matterId) {
+        return res.status(400).json({ message: "Analyses are not versions of the same contract" });
+      }
+      
+      // Always report changes from the earlier version to the later one
+      const [earlier, later] = (first.version ?? 0) <= (second.version ?? 0) ? [first, second] : [second, first];
+      res.json(diffAnalysisVersions(earlier, later));
+    } catch (error) {
+      console.error("Contract analysis comparison error:", error);
+      res.status(500).json({ message: "Error comparing contract analysis versions" });
+    }
+  });
+  
   // Create a contract analysis directly (for saving after analysis)
   app.post("/api/contract-analyses", isAuthenticated, async (req: Request, res: Response) => {
     try {
@@ -927,6 +1321,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         jurisdiction: z.string().optional().default('Canada'),
         contractType: z.string().optional().default('general'),
         analysisResults: z.any(),
+        matterId: z.number().int().positive().optional(),
       });
       
       const parsed = analysisSchema.safeParse(req.body);
@@ -937,6 +1332,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const data = parsed.data;
       const analysisResults = data.analysisResults;
       
+      if (data.matterId && !(await isOwnContractMatter(req.user!.id, data.matterId))) {
+        return res.status(404).json({ message: "Contract matter not found" });
+      }
+      
       // Create new contract analysis record
       try {
         const now = new Date();
@@ -945,12 +1344,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
         const sanitizedContractContent = data.contractContent.replace(/\0/g, '');
         
         // Create trimmed version if content is too large
-        const maxContentLength = 100000; // Reasonable max length for DB storage
+        const maxContentLength = 500000; // Matches the PDF text extraction limit, so risk locations stay valid
         const trimmedContractContent = sanitizedContractContent.length > maxContentLength
           ? sanitizedContractContent.substring(0, maxContentLength) + "... [content truncated due to size]"
           : sanitizedContractContent;
         
-        const newAnalysis = await storage.createContractAnalysis({
+        const newAnalysis = await storage.createContractAnalysisVersion({
           userId: req.user!.id,
           contractContent: trimmedContractContent,
           contractTitle: data.title,
@@ -961,7 +1360,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           contractType: data.contractType || 'general',
           updatedAt: now,
           categories: analysisResults.clause_categories || null
-        });
+        }, data.matterId);
         
         return res.status(201).json(newAnalysis);
       } catch (saveError) {
@@ -1001,6 +1400,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
         console.warn("Failed to estimate token count:", estimateError);
       }
       
+      // The clause-aligned redline is computed locally and is returned even if
+      // the AI comparison fails; impact descriptions are added alongside it
+      const redline = compareContractClauses(parsed.data.firstContract, parsed.data.secondContract);
+      const impactsReady = annotateClauseImpacts(redline);
+      
       // Try to compare the contracts with enhanced error handling
       let comparison;
       try {
@@ -1064,7 +1468,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
       }
       
-      res.json(comparison);
+      await impactsReady;
+      res.json({ ...comparison, redline });
     } catch (error) {
       console.error("Contract comparison error:", error);
       res.status(500).json({ message: "Error comparing contracts" });
@@ -1072,7 +1477,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Legal research
-  app.post("/api/research", isAuthenticated, async (req: Request, res: Response) => {
+  app.post("/api/research", isAuthenticated, enforceUsageQuota('researchQuery'), async (req: Request, res: Response) => {
     try {
       // Create enhanced schema with jurisdiction and practiceArea
       const researchSchema = z.object({
@@ -1148,7 +1553,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // Streaming research for real-time UI updates
-  app.post("/api/research/stream", isAuthenticated, async (req: Request, res: Response) => {
+  app.post("/api/research/stream", isAuthenticated, enforceUsageQuota('researchQuery'), async (req: Request, res: Response) => {
     try {
       // Create enhanced schema with jurisdiction and practiceArea
       const researchSchema = z.object({
@@ -1174,15 +1579,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
       res.setHeader('Cache-Control', 'no-cache');
       res.setHeader('Connection', 'keep-alive');
       
-      // Set up initial context for the AI request
-      req.body.system = `You are a legal research assistant specialized in ${jurisdiction} law with expertise in ${practiceArea}. 
-      Provide accurate legal information including relevant cases, statutes, and analysis.
-      Your response should be scholarly, well-structured, and focused on legal accuracy.`;
-      req.body.content = query;
-      req.body.cacheKey = `research-${jurisdiction}-${practiceArea}-${query.substring(0, 50)}`;
-      
       // Stream research results
-      await streamAIResponse(req, res);
+      await streamAIResponse(res, {
+        prompt: query,
+        system: `You are a legal research assistant specialized in ${jurisdiction} law with expertise in ${practiceArea}. 
+      Provide accurate legal information including relevant cases, statutes, and analysis.
+      Your response should be scholarly, well-structured, and focused on legal accuracy.`
+      });
       
       // After streaming, save the research query (we don't have the full response here)
       await storage.createResearchQuery({
@@ -1731,6 +2134,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
       
+      // Only users whose role allows mediating can be named as the mediator
+      if (parsed.data.mediatorId) {
+        const mediator = await storage.getUser(parsed.data.mediatorId);
+        if (!mediator || !(await hasPermission(mediator, "dispute:mediate"))) {
+          return res.status(400).json({ message: "The selected mediator is not permitted to mediate disputes" });
+        }
+      }
+      
       // Generate a unique session code
       const sessionCode = Math.random().toString(36).substring(2, 10).toUpperCase();
       
@@ -1818,9 +2229,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Associated dispute not found" });
       }
       
-      // Check if the user is either the dispute owner or the mediator (if assigned)
-      const isMediatorAssigned = !!session.mediatorId;
-      if (dispute.userId !== req.user!.id && (!isMediatorAssigned || session.mediatorId !== req.user!.id)) {
+      // Check if the user is the dispute owner, a party, or the assigned mediator
+      if (!(await canAccessMediationSession(req.user!.id, session))) {
         return res.status(403).json({ message: "Access denied" });
       }
       
@@ -1854,9 +2264,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Associated dispute not found" });
       }
       
-      // Check if the user is either the dispute owner or the mediator (if assigned)
-      const isMediatorAssigned = !!session.mediatorId;
-      if (dispute.userId !== req.user!.id && (!isMediatorAssigned || session.mediatorId !== req.user!.id)) {
+      // Check if the user is the dispute owner, a party, or the assigned mediator
+      if (!(await canAccessMediationSession(req.user!.id, session))) {
         return res.status(403).json({ message: "Access denied" });
       }
       
@@ -1888,54 +2297,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
         sentiment: undefined // Sentiment analysis could be added later
       });
       
-      // If AI assistance is enabled, generate an AI mediator response
+      broadcastToMediationSession(session.sessionCode, { type: "message", message });
+      
+      // If AI assistance is enabled, stream an AI mediator response into the
+      // session room; the reply is persisted once the stream completes
       if (session.aiAssistance && role !== "mediator") {
-        try {
-          const dispute = await storage.getDispute(session.disputeId);
-          if (!dispute) {
-            throw new Error("Associated dispute not found");
-          }
-          
-          // Get previous messages for context
-          const previousMessages = await storage.getMediationMessagesBySessionId(sessionId);
-          
-          // Import and use the AI mediator helper
-          const { generateMediatorResponse } = await import('./lib/mediationAI');
-          
-          // Generate AI response based on dispute context and message history
-          const mediatorConfig = {
-            disputeType: dispute.disputeType || 'general',
-            disputeDescription: dispute.description || dispute.title,
-            parties: dispute.parties,
-            legalJurisdiction: 'Canada',
-            language: 'English',
-            mediationStyle: session.mediationStyle || 'facilitative',
-            requiresConfidentiality: true
-          };
-          
-          const aiResponse = await generateMediatorResponse(
-            mediatorConfig,
-            previousMessages,
-            message
-          );
-          
-          // Create the AI mediator message
-          await storage.createMediationMessage({
-            sessionId,
-            userId: undefined, // AI doesn't have a user ID
-            role: "ai",
-            content: aiResponse
-          });
-        } catch (error) {
+        relayMediatorResponse(session, dispute).catch(error => {
           console.error("AI mediator response generation error:", error);
-          // Fall back to a simple response if AI generation fails
-          await storage.createMediationMessage({
-            sessionId,
-            userId: undefined,
-            role: "ai",
-            content: "I'm processing your message. Let's continue our discussion to find a resolution."
-          });
-        }
+        });
       }
       
       // Update session status if it was scheduled
@@ -1993,9 +2362,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Associated dispute not found" });
       }
       
-      // Check if the user is either the dispute owner or the mediator (if assigned)
-      const isMediatorAssigned = !!session.mediatorId;
-      if (dispute.userId !== req.user!.id && (!isMediatorAssigned || session.mediatorId !== req.user!.id)) {
+      // Check if the user is the dispute owner, a party, or the assigned mediator
+      if (!(await canAccessMediationSession(req.user!.id, session))) {
         return res.status(403).json({ message: "Access denied" });
       }
       
@@ -2014,6 +2382,44 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
+  // Take on a session as its mediator, or hand it over to another mediator
+  app.post("/api/mediation-sessions/:sessionId/mediator", requirePermission("dispute:mediate"), async (req: Request, res: Response) => {
+    try {
+      const sessionId = parseInt(req.params.sessionId);
+      if (isNaN(sessionId)) {
+        return res.status(400).json({ message: "Invalid session ID format" });
+      }
+      
+      const parsed = z.object({ userId: z.number().optional() }).safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid mediator assignment" });
+      }
+      
+      const session = await storage.getMediationSession(sessionId);
+      if (!session) {
+        return res.status(404).json({ message: "Mediation session not found" });
+      }
+      
+      if (session.mediatorId && session.mediatorId !== req.user!.id) {
+        return res.status(409).json({ message: "This session already has a mediator" });
+      }
+      
+      const mediatorId = parsed.data.userId ?? req.user!.id;
+      if (mediatorId !== req.user!.id) {
+        const mediator = await storage.getUser(mediatorId);
+        if (!mediator || !(await hasPermission(mediator, "dispute:mediate"))) {
+          return res.status(400).json({ message: "The selected mediator is not permitted to mediate disputes" });
+        }
+      }
+      
+      const updatedSession = await storage.updateMediationSession(sessionId, { mediatorId });
+      res.json(updatedSession);
+    } catch (error) {
+      console.error("Error assigning mediator:", error);
+      res.status(500).json({ message: "Error assigning mediator" });
+    }
+  });
+  
   app.post("/api/mediation-sessions/:sessionId/summary", isAuthenticated, async (req: Request, res: Response) => {
     try {
       const sessionId = parseInt(req.params.sessionId);
@@ -2115,8 +2521,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Import an external template - no authentication required for feedback gathering phase
-  app.post("/api/template-sources/import", async (req: Request, res: Response) => {
+  // Import an external template into the library; requires permission to publish templates
+  app.post("/api/template-sources/import", requirePermission("templates:publish"), async (req: Request, res: Response) => {
     try {
       // Validate request body with more detailed schema
       const importSchema = z.object({
@@ -2303,18 +2709,25 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  // Search domain knowledge
+  // Ranked full-text search across domain knowledge, provincial information and procedural guides
   app.get("/api/knowledge/search", async (req: Request, res: Response) => {
     try {
-      const query = req.query.q as string;
-      if (!query) {
-        return res.status(400).json({ message: "Search query is required" });
+      const parsed = knowledgeSearchQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid search parameters", errors: parsed.error.errors });
       }
-      
-      const domainId = req.query.domainId ? parseInt(req.query.domainId as string) : undefined;
-      const language = req.query.language as string || 'en';
-      
-      const results = await storage.searchDomainKnowledge(query, domainId, language);
+
+      const { q, language, domainId, jurisdiction, tags, type, page, pageSize } = parsed.data;
+      const results = await searchKnowledge({
+        query: q,
+        language,
+        domainId,
+        jurisdictions: jurisdiction,
+        tags,
+        types: type,
+        page,
+        pageSize
+      });
       res.json(results);
     } catch (error) {
       console.error("Error searching domain knowledge:", error);
@@ -2417,19 +2830,58 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Invalid citation data" });
       }
       
+      // Fill in court, year and jurisdiction from the citation where it can be read
+      const check = checkCitation(parsed.data.citation);
+      const details = check.citation;
+      
       // Save the citation with the authenticated user ID
       const citation = await storage.createSavedCitation({
         ...parsed.data,
+        court: parsed.data.court || details?.court,
+        year: parsed.data.year || details?.year,
+        jurisdiction: parsed.data.jurisdiction || details?.jurisdiction,
+        formattedCitation: details ? formatMcGill(details, parsed.data.name) : null,
+        sourceUrl: parsed.data.sourceUrl || (details && canliiUrl(details)) || undefined,
         userId: req.user!.id
       });
       
-      res.status(201).json(citation);
+      res.status(201).json({ ...citation, citationIssues: check.issues });
     } catch (error) {
       console.error("Error saving citation:", error);
       res.status(500).json({ message: "Error saving citation" });
     }
   });
 
+  // Parse, format and check a single citation, or every citation in a text
+  app.post("/api/citations/check", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const checkSchema = z.union([
+        z.object({ citation: z.string().min(1).max(1000), styleOfCause: z.string().max(500).optional() }),
+        z.object({ text: z.string().min(1).max(100000) }),
+      ]);
+      const parsed = checkSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Provide a citation or a text to check" });
+      }
+      
+      if ('citation' in parsed.data) {
+        const check = checkCitation(parsed.data.citation);
+        return res.json({
+          ...check,
+          formatted: check.citation ? formatMcGill(check.citation, parsed.data.styleOfCause) : undefined,
+          url: check.citation ? canliiUrl(check.citation) : null,
+        });
+      }
+      res.json({
+        citations: findCitations(parsed.data.text),
+        issues: checkCitationsInText(parsed.data.text),
+      });
+    } catch (error) {
+      console.error("Error checking citation:", error);
+      res.status(500).json({ message: "Error checking citation" });
+    }
+  });
+
   app.get("/api/saved-citations", isAuthenticated, async (req: Request, res: Response) => {
     try {
       // Get userId from authenticated user session
@@ -2618,15 +3070,47 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  // Escalated questions endpoints (Phase 3)
+  // Escalated questions endpoints (Phase 3). The reviewer workflow is in lib/escalations.ts.
+  const sendEscalationError = (res: Response, error: unknown, message: string) => {
+    if (error instanceof EscalationError) {
+      return res.status(error.status).json({ message: error.message });
+    }
+    console.error(`${message}:`, error);
+    res.status(500).json({ message });
+  };
+  
+  // Loads a question for its owner or a reviewer; sends the error response otherwise
+  const loadEscalatedQuestion = async (req: Request, res: Response, options: { ownerOnly?: boolean } = {}) => {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      res.status(400).json({ message: "Invalid ID format" });
+      return null;
+    }
+    
+    const question = await storage.getEscalatedQuestion(id);
+    if (!question) {
+      res.status(404).json({ message: "Question not found" });
+      return null;
+    }
+    
+    const isOwner = question.userId === req.user!.id;
+    if (options.ownerOnly ? !isOwner : !isOwner && !(await hasPermission(req.user, "escalations:answer"))) {
+      res.status(403).json({ message: "Access denied" });
+      return null;
+    }
+    return question;
+  };
+  
   app.post("/api/escalated-questions", isAuthenticated, async (req: Request, res: Response) => {
     try {
       // Validate question data
       const questionSchema = z.object({
         question: z.string().min(5),
         legalDomainId: z.number().optional(),
-        urgency: z.string().optional(),
+        urgency: z.enum(ESCALATION_URGENCIES as [EscalationUrgency, ...EscalationUrgency[]]).optional(),
         additionalInfo: z.string().optional(),
+        threadId: z.number().int().optional(), // Chat the question came from
+        messageId: z.number().int().optional(), // Assistant answer being escalated
       });
       
       const parsed = questionSchema.safeParse(req.body);
@@ -2634,20 +3118,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Invalid question data" });
       }
       
-      // Create the escalated question with pending status
-      const question = await storage.createEscalatedQuestion({
+      // Create the escalated question with its SLA and assign it to a reviewer
+      const question = await createEscalation({
         userId: req.user!.id,
         question: parsed.data.question,
         context: parsed.data.additionalInfo || '', // Use additionalInfo as context
         domainId: parsed.data.legalDomainId, // Map legalDomainId to domainId
-        status: 'pending',
-        updatedAt: new Date()
+        urgency: parsed.data.urgency,
+        threadId: parsed.data.threadId,
+        messageId: parsed.data.messageId
       });
       
       res.status(201).json(question);
     } catch (error) {
-      console.error("Error creating escalated question:", error);
-      res.status(500).json({ message: "Error escalating question" });
+      sendEscalationError(res, error, "Error escalating question");
     }
   });
   
@@ -2656,34 +3140,179 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Get userId from authenticated user session
       const userId = req.user!.id;
       const questions = await storage.getEscalatedQuestionsByUserId(userId);
-      res.json(questions);
+      res.json(questions.map(question => ({ ...question, draftAnswer: undefined })));
     } catch (error) {
       console.error("Error retrieving escalated questions:", error);
       res.status(500).json({ message: "Error retrieving escalated questions" });
     }
   });
   
-  app.get("/api/escalated-questions/:id", isAuthenticated, async (req: Request, res: Response) => {
+  // Questions waiting for a legal professional, most pressing SLA first.
+  // status takes a comma-separated list or "open"; assignee takes "me", "unassigned" or a user ID.
+  app.get("/api/escalated-questions/queue", requirePermission("escalations:answer"), async (req: Request, res: Response) => {
     try {
-      const id = parseInt(req.params.id);
-      if (isNaN(id)) {
-        return res.status(400).json({ message: "Invalid ID format" });
+      const status = typeof req.query.status === "string" ? req.query.status : "pending";
+      const statuses = status === "open" ? OPEN_STATUSES : status.split(",").filter(Boolean);
+      
+      const assignee = typeof req.query.assignee === "string" ? req.query.assignee : undefined;
+      const assignedTo = assignee === "me" ? String(req.user!.id) : assignee === "unassigned" ? null : assignee;
+      
+      const now = new Date();
+      const questions = await storage.getEscalatedQuestionQueue({ statuses, assignedTo });
+      res.json(questions.map(question => ({ ...question, sla: describeSla(question, now) })));
+    } catch (error) {
+      console.error("Error retrieving escalated question queue:", error);
+      res.status(500).json({ message: "Error retrieving escalated questions" });
+    }
+  });
+  
+  // Reviewers who can be assigned questions, with their open question counts
+  app.get("/api/escalated-questions/reviewers", requirePermission("escalations:answer"), async (req: Request, res: Response) => {
+    try {
+      res.json(await getReviewers());
+    } catch (error) {
+      console.error("Error retrieving reviewers:", error);
+      res.status(500).json({ message: "Error retrieving reviewers" });
+    }
+  });
+  
+  app.get("/api/escalated-questions/:id", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const question = await loadEscalatedQuestion(req, res);
+      if (!question) return;
+      
+      // Drafts are for reviewers only
+      const visible = question.userId === req.user!.id ? { ...question, draftAnswer: undefined } : question;
+      res.json({ ...visible, sla: describeSla(question) });
+    } catch (error) {
+      console.error("Error retrieving question:", error);
+      res.status(500).json({ message: "Error retrieving question" });
+    }
+  });
+  
+  // Assign to a reviewer, or to the next reviewer in turn when reviewerId is omitted
+  app.post("/api/escalated-questions/:id/assign", requirePermission("escalations:answer"), async (req: Request, res: Response) => {
+    try {
+      const parsed = z.object({ reviewerId: z.number().int().optional() }).safeParse(req.body || {});
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid assignment" });
+      }
+      
+      const question = await loadEscalatedQuestion(req, res);
+      if (!question) return;
+      
+      res.json(await assignQuestion(question, parsed.data.reviewerId));
+    } catch (error) {
+      sendEscalationError(res, error, "Error assigning question");
+    }
+  });
+  
+  // The reviewer's draft, pre-filled with the assistant's answer, and the chat it came from
+  app.get("/api/escalated-questions/:id/draft", requirePermission("escalations:answer"), async (req: Request, res: Response) => {
+    try {
+      const question = await loadEscalatedQuestion(req, res);
+      if (!question) return;
+      
+      res.json(await buildDraft(question));
+    } catch (error) {
+      sendEscalationError(res, error, "Error loading draft");
+    }
+  });
+  
+  app.put("/api/escalated-questions/:id/draft", requirePermission("escalations:answer"), async (req: Request, res: Response) => {
+    try {
+      const parsed = z.object({ draft: z.string() }).safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "A draft is required" });
       }
       
-      const question = await storage.getEscalatedQuestion(id);
-      if (!question) {
-        return res.status(404).json({ message: "Question not found" });
+      const question = await loadEscalatedQuestion(req, res);
+      if (!question) return;
+      if (OPEN_STATUSES.indexOf(question.status) === -1) {
+        return res.status(409).json({ message: `Question is already ${question.status}` });
       }
       
-      // Ensure the question belongs to the requesting user (or is admin in the future)
-      if (question.userId !== req.user!.id) {
-        return res.status(403).json({ message: "Access denied" });
+      await storage.updateEscalatedQuestion(question.id, { draftAnswer: parsed.data.draft, updatedAt: new Date() });
+      res.json({ draft: parsed.data.draft });
+    } catch (error) {
+      sendEscalationError(res, error, "Error saving draft");
+    }
+  });
+  
+  // Internal notes, never shown to the user who asked
+  app.get("/api/escalated-questions/:id/notes", requirePermission("escalations:answer"), async (req: Request, res: Response) => {
+    try {
+      const question = await loadEscalatedQuestion(req, res);
+      if (!question) return;
+      
+      res.json(await storage.getEscalationNotes(question.id));
+    } catch (error) {
+      sendEscalationError(res, error, "Error retrieving notes");
+    }
+  });
+  
+  app.post("/api/escalated-questions/:id/notes", requirePermission("escalations:answer"), async (req: Request, res: Response) => {
+    try {
+      const parsed = z.object({ content: z.string().trim().min(1) }).safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "A note is required" });
       }
       
-      res.json(question);
+      const question = await loadEscalatedQuestion(req, res);
+      if (!question) return;
+      
+      const note = await storage.createEscalationNote({
+        questionId: question.id,
+        authorId: req.user!.id,
+        content: parsed.data.content
+      });
+      res.status(201).json(note);
     } catch (error) {
-      console.error("Error retrieving question:", error);
-      res.status(500).json({ message: "Error retrieving question" });
+      sendEscalationError(res, error, "Error adding note");
+    }
+  });
+  
+  app.post("/api/escalated-questions/:id/answer", requirePermission("escalations:answer"), async (req: Request, res: Response) => {
+    try {
+      const parsed = z.object({ answer: z.string().min(1) }).safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "An answer is required" });
+      }
+      
+      const question = await loadEscalatedQuestion(req, res);
+      if (!question) return;
+      
+      // Publishes the answer and notifies the user
+      res.json(await answerQuestion(question, req.user!.id, parsed.data.answer));
+    } catch (error) {
+      sendEscalationError(res, error, "Error answering question");
+    }
+  });
+  
+  app.post("/api/escalated-questions/:id/accept", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const question = await loadEscalatedQuestion(req, res, { ownerOnly: true });
+      if (!question) return;
+      
+      res.json(await acceptAnswer(question));
+    } catch (error) {
+      sendEscalationError(res, error, "Error accepting answer");
+    }
+  });
+  
+  app.post("/api/escalated-questions/:id/follow-up", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const parsed = z.object({ question: z.string().min(5) }).safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Please describe your follow-up question" });
+      }
+      
+      const question = await loadEscalatedQuestion(req, res, { ownerOnly: true });
+      if (!question) return;
+      
+      res.status(201).json(await askFollowUp(question, parsed.data.question));
+    } catch (error) {
+      sendEscalationError(res, error, "Error asking follow-up question");
     }
   });
   
@@ -2743,7 +3372,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // Case outcome prediction endpoints (Phase 4)
-  app.post("/api/case-outcome-predictions", isAuthenticated, async (req: Request, res: Response) => {
+  app.post("/api/case-outcome-predictions", isAuthenticated, enforceUsageQuota('researchQuery'), async (req: Request, res: Response) => {
     try {
       // Validate prediction request data
       const predictionSchema = z.object({
@@ -2760,9 +3389,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Invalid prediction request data" });
       }
       
-      // Here we would actually call an AI service to generate the prediction
-      // For now, we'll just store the request with mock data based on schema
-      
       // Create factor data object for the schema
       const factorData = {
         details: parsed.data.caseDetails,
@@ -2776,14 +3402,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
         caseType: parsed.data.caseType,
         jurisdiction: parsed.data.jurisdiction,
         factorData: factorData,
-        predictedOutcome: "Pending analysis", // Placeholder
-        confidenceScore: "0", // Placeholder
+        ...INITIAL_PREDICTION_STATE,
         updatedAt: new Date()
       });
       
-      // This would be done in a backend service/job
-      // For now, just return the pending prediction
-      res.status(201).json(prediction);
+      // The prediction is analysed in the background; poll its status for progress
+      enqueueCasePrediction(prediction.id);
+      res.status(202).json(prediction);
     } catch (error) {
       console.error("Error creating case outcome prediction:", error);
       res.status(500).json({ message: "Error creating case outcome prediction" });
@@ -2802,6 +3427,69 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
+  // Progress of a prediction's background analysis
+  app.get("/api/case-outcome-predictions/:id/status", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid ID format" });
+      }
+      
+      const prediction = await storage.getCaseOutcomePrediction(id);
+      if (!prediction) {
+        return res.status(404).json({ message: "Prediction not found" });
+      }
+      if (prediction.userId !== req.user!.id) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      
+      res.json({
+        id: prediction.id,
+        status: prediction.status,
+        progress: prediction.progress,
+        statusMessage: prediction.statusMessage,
+        queuePosition: prediction.status === "pending" ? getQueuePosition(prediction.id) : null,
+        errorMessage: prediction.errorMessage,
+        updatedAt: prediction.updatedAt,
+        completedAt: prediction.completedAt
+      });
+    } catch (error) {
+      console.error("Error retrieving prediction status:", error);
+      res.status(500).json({ message: "Error retrieving prediction status" });
+    }
+  });
+  
+  // Queue a failed prediction for analysis again
+  app.post("/api/case-outcome-predictions/:id/retry", isAuthenticated, enforceUsageQuota('researchQuery'), async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid ID format" });
+      }
+      
+      const prediction = await storage.getCaseOutcomePrediction(id);
+      if (!prediction) {
+        return res.status(404).json({ message: "Prediction not found" });
+      }
+      if (prediction.userId !== req.user!.id) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      if (prediction.status !== "failed") {
+        return res.status(409).json({ message: "Only failed predictions can be retried" });
+      }
+      
+      const updated = await storage.updateCaseOutcomePrediction(id, {
+        ...INITIAL_PREDICTION_STATE,
+        errorMessage: null
+      });
+      enqueueCasePrediction(id);
+      res.status(202).json(updated);
+    } catch (error) {
+      console.error("Error retrying prediction:", error);
+      res.status(500).json({ message: "Error retrying prediction" });
+    }
+  });
+  
   app.get("/api/case-outcome-predictions/:id", isAuthenticated, async (req: Request, res: Response) => {
     try {
       const id = parseInt(req.params.id);
@@ -2852,8 +3540,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Get all feedback (admin only)
-  app.get("/api/feedback", isAdmin, async (req: Request, res: Response) => {
+  // Get all feedback (feedback reviewers only)
+  app.get("/api/feedback", requirePermission("feedback:respond"), async (req: Request, res: Response) => {
     try {
       const status = req.query.status as string;
       let feedback;
@@ -2884,9 +3572,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Feedback not found" });
       }
       
-      // Check if user is admin or owns this feedback
-      const isUserAdmin = (req.user as any).isAdmin;
-      if (!isUserAdmin && feedback?.userId !== req.user!.id) {
+      // Check if user can respond to feedback or owns this feedback
+      const canRespond = await hasPermission(req.user, "feedback:respond");
+      if (!canRespond && feedback?.userId !== req.user!.id) {
         return res.status(403).json({ message: "Access denied" });
       }
       
@@ -2909,8 +3597,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Update feedback status and response (admin only)
-  app.patch("/api/feedback/:id", isAdmin, async (req: Request, res: Response) => {
+  // Update feedback status and response (feedback reviewers only)
+  app.patch("/api/feedback/:id", requirePermission("feedback:respond"), async (req: Request, res: Response) => {
     try {
       const id = parseInt(req.params.id);
       if (isNaN(id)) {
@@ -2972,7 +3660,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/disputes/:disputeId/documents/shared", isAuthenticated, upload.single('document'), async (req: Request, res: Response) => {
+  app.post("/api/disputes/:disputeId/documents/shared", isAuthenticated, evidenceUpload.single('document'), async (req: Request, res: Response) => {
     try {
       const disputeId = parseInt(req.params.disputeId);
       if (isNaN(disputeId)) {
@@ -2983,39 +3671,137 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "No document file uploaded" });
       }
       
+      // Only the dispute's owner and its parties may add documents to it
+      const canUpload = await storage.isDisputeOwner(req.user!.id, disputeId) || await storage.isDisputeParty(req.user!.id, disputeId);
+      if (!canUpload) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      
       const { title, description, isPublic, accessPermissions } = req.body;
-      const fileType = req.file.mimetype;
-      const fileSize = req.file.size;
-      const fileBuffer = req.file.buffer;
       
-      // Save file to storage system (could be cloud storage in production)
-      const fileUrl = await storage.saveDocumentFile(fileBuffer, fileType);
+      // Check the type the file's content shows, not the type the browser declared
+      const contentType = await detectContentType(req.file.path, req.file.mimetype);
+      if (!EVIDENCE_TYPES.includes(contentType)) {
+        return res.status(415).json({ message: `Unsupported file type: ${contentType}` });
+      }
+      
+      // Save file to blob storage
+      const storedFile = await storage.saveDocumentFile(req.file.path, contentType);
       
       const sharedDocument = await storage.createSharedDocument({
         disputeId,
-        title,
+        title: title || req.file.originalname,
         description,
-        fileUrl,
-        fileType,
-        fileSize,
+        fileUrl: '',
+        fileType: storedFile.contentType,
+        fileSize: storedFile.size,
+        fileName: req.file.originalname,
+        storageKey: storedFile.key,
+        contentHash: storedFile.contentHash,
         uploadedBy: req.user.id,
         isPublic: isPublic === 'true',
         accessPermissions: accessPermissions ? JSON.parse(accessPermissions) : undefined,
         updatedAt: new Date()
       });
+      const savedDocument = await storage.updateSharedDocument(sharedDocument.id, {
+        fileUrl: `/api/shared-documents/${sharedDocument.id}/download`
+      });
 
       // Track activity
       await storage.createDisputeActivity({
         disputeId,
         userId: req.user.id,
         activityType: 'document_upload',
-        details: { documentId: sharedDocument.id, documentTitle: title }
+        details: { documentId: sharedDocument.id, documentTitle: sharedDocument.title }
       });
       
-      res.status(201).json(sharedDocument);
+      res.status(201).json(savedDocument);
     } catch (error) {
       console.error("Error uploading shared document:", error);
       res.status(500).json({ message: "Error uploading shared document" });
+    } finally {
+      if (req.file) {
+        await fsPromises.rm(req.file.path, { force: true });
+      }
+    }
+  });
+
+  // Stream a shared document's file, honouring Range requests so large
+  // files can be resumed and media can be seeked
+  app.get("/api/shared-documents/:documentId/download", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const documentId = parseInt(req.params.documentId);
+      if (isNaN(documentId)) {
+        return res.status(400).json({ message: "Invalid document ID format" });
+      }
+      
+      const document = await storage.getSharedDocumentById(documentId);
+      if (!document) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+      
+      const hasAccess = await storage.userHasDocumentAccess(req.user!.id, document);
+      if (!hasAccess) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      
+      if (!document.storageKey) {
+        return res.status(410).json({ message: "This document was uploaded before file storage was available and has no stored file" });
+      }
+      
+      const etag = `"${document.contentHash}"`;
+      if (req.headers['if-none-match'] === etag) {
+        return res.status(304).end();
+      }
+      
+      const range = parseRangeHeader(req.headers.range, document.fileSize);
+      if (range === 'unsatisfiable') {
+        res.setHeader('Content-Range', `bytes */${document.fileSize}`);
+        return res.status(416).end();
+      }
+      
+      const file = await storage.openDocumentFile(document, range || undefined);
+      if (!file) {
+        return res.status(404).json({ message: "Stored file not found" });
+      }
+      
+      const extension = path.extname(document.fileName || '');
+      const fileName = `${document.title.replace(/[^\w .-]+/g, '_')}${extension && !document.title.endsWith(extension) ? extension : ''}`;
+      const disposition = req.query.inline === 'true' && INLINE_TYPES.includes(document.fileType) ? 'inline' : 'attachment';
+      
+      res.setHeader('Content-Type', document.fileType);
+      res.setHeader('Content-Disposition', `${disposition}; filename="${fileName}"; filename*=UTF-8''${encodeURIComponent(fileName)}`);
+      res.setHeader('X-Content-Type-Options', 'nosniff');
+      res.setHeader('Accept-Ranges', 'bytes');
+      res.setHeader('ETag', etag);
+      res.setHeader('Cache-Control', 'private, no-cache');
+      if (range) {
+        res.status(206);
+        res.setHeader('Content-Range', `bytes ${range.start}-${range.end}/${file.size}`);
+        res.setHeader('Content-Length', range.end - range.start + 1);
+      } else {
+        res.setHeader('Content-Length', file.size);
+        
+        // Track activity once per download rather than for every range request
+        await storage.createDisputeActivity({
+          disputeId: document.disputeId,
+          userId: req.user!.id,
+          activityType: 'document_download',
+          details: { documentId, documentTitle: document.title }
+        });
+      }
+      
+      // Closes the blob stream if the client goes away or the read fails
+      pipeline(file.stream, res, (error) => {
+        if (error && (error as NodeJS.ErrnoException).code !== 'ERR_STREAM_PREMATURE_CLOSE') {
+          console.error("Error streaming document:", error);
+        }
+      });
+    } catch (error) {
+      console.error("Error downloading document:", error);
+      if (!res.headersSent) {
+        res.status(500).json({ message: "Error downloading document" });
+      }
     }
   });
 
@@ -3121,6 +3907,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Invalid dispute ID format" });
       }
       
+      // Expired proposals are lapsed before they are shown
+      await lapseExpiredProposals(disputeId);
       const proposals = await storage.getSettlementProposals(disputeId);
       res.json(proposals);
     } catch (error) {
@@ -3143,7 +3931,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         title,
         content,
         documentId: documentId ? parseInt(documentId) : undefined,
-        termsAndConditions: termsAndConditions ? JSON.parse(termsAndConditions) : undefined,
+        termsAndConditions: termsAndConditions ? parseTermsAndConditions(termsAndConditions) : undefined,
         expiresAt: expiresAt ? new Date(expiresAt) : undefined,
         updatedAt: new Date()
       });
@@ -3175,27 +3963,53 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Proposal not found" });
       }
       
-      // Only the proposer or a mediator can update a proposal
+      // The proposer or a mediator can edit a proposal; the other side can answer it
       const isProposer = proposal.proposedBy === req.user.id;
       const isMediator = await storage.isDisputeMediator(req.user.id, proposal.disputeId);
+      const isOtherSide = !isProposer && !!proposal.disputeId && (
+        await storage.isDisputeParty(req.user!.id, proposal.disputeId) ||
+        await storage.isDisputeOwner(req.user!.id, proposal.disputeId)
+      );
       
-      if (!isProposer && !isMediator) {
+      if (!isProposer && !isMediator && !isOtherSide) {
         return res.status(403).json({ message: "Access denied" });
       }
       
       const { title, content, status, documentId, termsAndConditions, expiresAt } = req.body;
+      let terms: SettlementTerm[] | undefined;
+      if (termsAndConditions) {
+        const parsedTerms = z.array(settlementTermSchema).max(50).safeParse(parseTermsAndConditions(termsAndConditions));
+        if (!parsedTerms.success) {
+          return res.status(400).json({ message: "Invalid terms", errors: parsedTerms.error.errors });
+        }
+        terms = parsedTerms.data;
+      }
+      
+      await checkProposalUpdate(
+        proposal,
+        { status, edited: Boolean(title || content || documentId || terms || expiresAt) },
+        { isProposer, isMediator }
+      );
+      
+      const previousContentHash = proposalContentHash(proposal);
       const updateData = {
         ...(title && { title }),
         ...(content && { content }),
         ...(status && { status }),
         ...(documentId && { documentId: parseInt(documentId) }),
-        ...(termsAndConditions && { termsAndConditions: JSON.parse(termsAndConditions) }),
+        ...(terms && { termsAndConditions: terms }),
         ...(expiresAt && { expiresAt: new Date(expiresAt) }),
         updatedAt: new Date()
       };
       
       const updatedProposal = await storage.updateSettlementProposal(proposalId, updateData);
 
+      // Signatures only hold for the content that was signed
+      const signaturesInvalidated = await invalidateSignaturesForEdit(updatedProposal!, previousContentHash, signingRequestInfo(req));
+      if (signaturesInvalidated > 0) {
+        await archiveInvalidatedSubmissions(updatedProposal!, signingRequestInfo(req));
+      }
+
       // Track activity
       await storage.createDisputeActivity({
         disputeId: proposal.disputeId,
@@ -3204,63 +4018,278 @@ export async function registerRoutes(app: Express): Promise<Server> {
         details: { 
           proposalId, 
           proposalTitle: updatedProposal.title,
-          statusChange: status ? `${proposal.status} -> ${status}` : undefined
+          statusChange: status ? `${proposal.status} -> ${status}` : undefined,
+          signaturesInvalidated: signaturesInvalidated || undefined
         }
       });
       
       res.json(updatedProposal);
     } catch (error) {
-      console.error("Error updating settlement proposal:", error);
-      res.status(500).json({ message: "Error updating settlement proposal" });
+      sendNegotiationError(res, error, "Error updating settlement proposal");
     }
   });
 
-  // Digital Signatures
-  app.post("/api/settlement-proposals/:proposalId/signatures", isAuthenticated, async (req: Request, res: Response) => {
+  // Digital Signatures. The signing ceremony and audit trail are in lib/proposalSigning.ts.
+  const sendSigningError = (res: Response, error: unknown, message: string) => {
+    if (error instanceof SigningError) {
+      return res.status(error.status).json({ message: error.message });
+    }
+    console.error(`${message}:`, error);
+    res.status(500).json({ message });
+  };
+  
+  const signingRequestInfo = (req: Request): SigningRequestInfo => ({
+    userId: req.user!.id,
+    ipAddress: req.ip || null,
+    userAgent: req.get("user-agent") || null,
+  });
+  
+  // Loads a proposal for anyone with access to its dispute; sends the error response otherwise
+  const loadProposalForSigning = async (req: Request, res: Response) => {
+    const proposalId = parseInt(req.params.proposalId);
+    if (isNaN(proposalId)) {
+      res.status(400).json({ message: "Invalid proposal ID format" });
+      return null;
+    }
+    
+    const proposal = await storage.getSettlementProposalById(proposalId);
+    if (!proposal || !proposal.disputeId) {
+      res.status(404).json({ message: "Proposal not found" });
+      return null;
+    }
+    
+    const isParty = await storage.isDisputeParty(req.user!.id, proposal.disputeId);
+    const isMediator = await storage.isDisputeMediator(req.user!.id, proposal.disputeId);
+    const isOwner = await storage.isDisputeOwner(req.user!.id, proposal.disputeId);
+    if (!isParty && !isMediator && !isOwner) {
+      res.status(403).json({ message: "Access denied" });
+      return null;
+    }
+    return proposal;
+  };
+  
+  // Loads one of a proposal's signatures; only its signer may act on it when signerOnly is set
+  const loadProposalSignature = async (req: Request, res: Response, proposalId: number, options: { signerOnly?: boolean } = {}) => {
+    const signatureId = parseInt(req.params.signatureId);
+    if (isNaN(signatureId)) {
+      res.status(400).json({ message: "Invalid signature ID format" });
+      return null;
+    }
+    
+    const signature = await storage.getDigitalSignature(signatureId);
+    if (!signature || signature.proposalId !== proposalId) {
+      res.status(404).json({ message: "Signature not found" });
+      return null;
+    }
+    if (options.signerOnly && signature.signedBy !== req.user!.id) {
+      res.status(403).json({ message: "Only the signer can do this" });
+      return null;
+    }
+    return signature;
+  };
+  
+  // Negotiation threads. Counters, term diffs and the zone of agreement are in lib/settlementNegotiation.ts.
+  const counterProposalSchema = z.object({
+    title: z.string().trim().min(5).max(200),
+    content: z.string().trim().min(20),
+    terms: z.array(settlementTermSchema).max(50).default([]),
+    documentId: z.number().int().optional(),
+    expiresAt: z.string().datetime().optional(),
+  });
+
+  const sendNegotiationError = (res: Response, error: unknown, message: string) => {
+    if (error instanceof NegotiationError) {
+      return res.status(error.status).json({ message: error.message });
+    }
+    console.error(`${message}:`, error);
+    res.status(500).json({ message });
+  };
+
+  app.post("/api/settlement-proposals/:proposalId/counter", isAuthenticated, async (req: Request, res: Response) => {
     try {
-      const proposalId = parseInt(req.params.proposalId);
-      if (isNaN(proposalId)) {
-        return res.status(400).json({ message: "Invalid proposal ID format" });
+      const parent = await loadProposalForSigning(req, res);
+      if (!parent) return;
+
+      const validationResult = counterProposalSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          message: "Invalid counter-proposal",
+          errors: validationResult.error.format()
+        });
+      }
+      const { expiresAt, ...input } = validationResult.data;
+      if (expiresAt && new Date(expiresAt).getTime() <= Date.now()) {
+        return res.status(400).json({ message: "The expiry date must be in the future" });
       }
+
+      const result = await createCounterProposal(parent, {
+        ...input,
+        expiresAt: expiresAt ? new Date(expiresAt) : undefined,
+      }, req.user!.id);
+      res.status(201).json(result);
+    } catch (error) {
+      sendNegotiationError(res, error, "Error creating counter-proposal");
+    }
+  });
+
+  // The thread a proposal belongs to, each round diffed against the one it counters
+  app.get("/api/settlement-proposals/:proposalId/negotiation", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const proposal = await loadProposalForSigning(req, res);
+      if (!proposal) return;
+
+      const rounds = await getNegotiationThread(proposal);
+      res.json({ rounds });
+    } catch (error) {
+      sendNegotiationError(res, error, "Error fetching negotiation history");
+    }
+  });
+
+  app.post("/api/settlement-proposals/:proposalId/zone-of-agreement", isAuthenticated, enforceUsageQuota('aiChatMessage'), async (req: Request, res: Response) => {
+    try {
+      const proposal = await loadProposalForSigning(req, res);
+      if (!proposal) return;
+
+      const zone = await analyzeZoneOfAgreement(proposal);
+      res.json(zone);
+    } catch (error) {
+      sendNegotiationError(res, error, "Error analysing the zone of agreement");
+    }
+  });
+
+  app.get("/api/settlement-proposals/:proposalId/signatures", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const proposal = await loadProposalForSigning(req, res);
+      if (!proposal) return;
       
-      const proposal = await storage.getSettlementProposalById(proposalId);
-      if (!proposal) {
-        return res.status(404).json({ message: "Proposal not found" });
+      const signatures = await storage.getDigitalSignatures(proposal.id);
+      res.json({
+        contentHash: proposalContentHash(proposal),
+        signatures: signatures.map(publicSignature),
+      });
+    } catch (error) {
+      sendSigningError(res, error, "Error fetching signatures");
+    }
+  });
+  
+  // Start signing: the party is emailed a one-time code to confirm with
+  app.post("/api/settlement-proposals/:proposalId/signatures", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const startSchema = z.object({
+        signatureData: z.object({
+          typedName: z.string().min(2).max(200),
+          image: z.string().max(500000).optional(), // Drawn signature as a data URL
+        }),
+        consent: z.literal(true),
+      });
+      const validationResult = startSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          message: "Type your full name and agree to sign electronically", 
+          errors: validationResult.error.format() 
+        });
       }
       
-      // Check if the user is a party in the dispute
-      const party = await storage.getDisputePartyByUserId(proposal.disputeId, req.user.id);
+      const proposal = await loadProposalForSigning(req, res);
+      if (!proposal) return;
+      
+      const party = await storage.getDisputePartyByUserId(proposal.disputeId!, req.user.id);
       if (!party) {
         return res.status(403).json({ message: "Only dispute parties can sign proposals" });
       }
       
-      const { signatureData, ipAddress, userAgent } = req.body;
+      const signature = await startSigning(proposal, party, {
+        ...validationResult.data.signatureData,
+        consentedAt: new Date().toISOString(),
+      }, signingRequestInfo(req));
+      res.status(201).json(publicSignature(signature));
+    } catch (error) {
+      sendSigningError(res, error, "Error starting signature");
+    }
+  });
+  
+  app.post("/api/settlement-proposals/:proposalId/signatures/:signatureId/resend", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const proposal = await loadProposalForSigning(req, res);
+      if (!proposal) return;
+      const signature = await loadProposalSignature(req, res, proposal.id, { signerOnly: true });
+      if (!signature) return;
       
-      // Generate a verification code
-      const verificationCode = Math.random().toString(36).substring(2, 10).toUpperCase();
+      const updated = await resendSigningCode(proposal, signature, signingRequestInfo(req));
+      res.json(publicSignature(updated));
+    } catch (error) {
+      sendSigningError(res, error, "Error sending signing code");
+    }
+  });
+  
+  app.post("/api/settlement-proposals/:proposalId/signatures/:signatureId/confirm", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const codeSchema = z.object({ code: z.string().regex(/^\s*\d{6}\s*$/) });
+      const validationResult = codeSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ message: "Enter the 6-digit code from the email" });
+      }
       
-      const signature = await storage.createDigitalSignature({
-        proposalId,
-        partyId: party.id,
-        signedBy: req.user.id,
-        signatureData: JSON.parse(signatureData),
-        ipAddress,
-        userAgent,
-        verificationCode
-      });
+      const proposal = await loadProposalForSigning(req, res);
+      if (!proposal) return;
+      const signature = await loadProposalSignature(req, res, proposal.id, { signerOnly: true });
+      if (!signature) return;
+      
+      const signed = await confirmSigning(proposal, signature, validationResult.data.code, signingRequestInfo(req));
 
       // Track activity
       await storage.createDisputeActivity({
-        disputeId: proposal.disputeId,
+        disputeId: proposal.disputeId!,
         userId: req.user.id,
         activityType: 'proposal_sign',
-        details: { proposalId, proposalTitle: proposal.title }
+        details: { proposalId: proposal.id, proposalTitle: proposal.title, certificateNumber: signed.verificationCode }
       });
       
-      res.status(201).json(signature);
+      res.json(publicSignature(signed));
+    } catch (error) {
+      sendSigningError(res, error, "Error confirming signature");
+    }
+  });
+  
+  // Printable certificate page, or ?format=json for the certificate data
+  app.get("/api/settlement-proposals/:proposalId/signatures/:signatureId/certificate", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const proposal = await loadProposalForSigning(req, res);
+      if (!proposal) return;
+      const signature = await loadProposalSignature(req, res, proposal.id);
+      if (!signature) return;
+      
+      const certificate = await buildCertificate(proposal, signature);
+      if (req.query.format === "json") {
+        return res.json(certificate);
+      }
+      res.type("html").send(renderCertificateHtml(certificate));
+    } catch (error) {
+      sendSigningError(res, error, "Error generating certificate");
+    }
+  });
+  
+  app.get("/api/settlement-proposals/:proposalId/audit-trail", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const proposal = await loadProposalForSigning(req, res);
+      if (!proposal) return;
+      
+      const events = await storage.getSignatureAuditEvents(proposal.id);
+      res.json({ verification: verifyAuditTrail(events), events });
+    } catch (error) {
+      sendSigningError(res, error, "Error fetching audit trail");
+    }
+  });
+  
+  // Public check of a certificate number, for anyone shown a signed certificate
+  app.get("/api/signature-certificates/:certificateNumber", async (req: Request, res: Response) => {
+    try {
+      if (!/^[0-9A-Fa-f]{16}$/.test(req.params.certificateNumber)) {
+        return res.status(400).json({ message: "Invalid certificate number" });
+      }
+      res.json(await verifyCertificate(req.params.certificateNumber));
     } catch (error) {
-      console.error("Error creating digital signature:", error);
-      res.status(500).json({ message: "Error creating digital signature" });
+      sendSigningError(res, error, "Error verifying certificate");
     }
   });
 
@@ -3316,8 +4345,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Register compliance routes
   app.use('/api/compliance', complianceRouter);
   app.use('/api/court-procedures', courtProceduresRouter);
+  app.use('/api/court-procedures', isAuthenticated, procedurePersonalizationRouter);
 
   const httpServer = createServer(app);
+  attachMediationRealtime(httpServer, sessionMiddleware);
   return httpServer;
 }
 
@@ -2,21 +2,12 @@ import { Router } from 'express';
 import { apiKeyManager, ApiServiceType } from '../utils/apiKeyManager';
 import { dbBackupManager } from '../utils/dbBackup';
 import { logger } from '../utils/logger';
+import { requirePermission } from '../lib/permissions';
 
 const adminRouter = Router();
 
-// Middleware to ensure user is an admin
-const isAdmin = (req: any, res: any, next: any) => {
-  if (!req.isAuthenticated()) {
-    return res.status(401).json({ error: 'Not authenticated' });
-  }
-  
-  if (!req.user || req.user.role !== 'admin') {
-    return res.status(403).json({ error: 'Not authorized - admin access required' });
-  }
-  
-  next();
-};
+// Middleware to ensure user's role can manage the system
+const isAdmin = requirePermission('system:manage');
 
 /**
  * Get the status of all API services
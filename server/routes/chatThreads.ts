@@ -0,0 +1,209 @@
+import { Router, Request, Response } from "express";
+import { z } from "zod";
+import { storage } from "../storage";
+import { isAuthenticated } from "../auth";
+import { enforceUsageQuota } from "../lib/usageService";
+import {
+  ChatThreadError,
+  DEFAULT_THREAD_TITLE,
+  exportThread,
+  getOwnedThread,
+  sendThreadMessage,
+  THREAD_EXPORT_FORMATS,
+  type ThreadExportFormat
+} from "../lib/chatThreads";
+
+const router = Router();
+
+router.use(isAuthenticated);
+
+const threadUpdateSchema = z.object({
+  title: z.string().trim().min(1).max(200).optional(),
+  archived: z.boolean().optional(),
+});
+
+const contextUpdateSchema = z.object({
+  domainId: z.number().int().nullable().optional(),
+  activeGuideId: z.number().int().nullable().optional(),
+  currentStep: z.number().int().min(0).optional(),
+  recommendedTemplates: z.array(z.number().int()).optional(),
+  context: z.record(z.any()).optional(), // A "jurisdiction" here narrows the knowledge used to ground answers
+});
+
+function parseThreadId(req: Request, res: Response): number | null {
+  const id = parseInt(req.params.id);
+  if (isNaN(id)) {
+    res.status(400).json({ message: "Invalid thread ID format" });
+    return null;
+  }
+  return id;
+}
+
+function handleError(res: Response, error: unknown, message: string) {
+  if (error instanceof ChatThreadError) {
+    return res.status(error.status).json({ message: error.message });
+  }
+  console.error(`${message}:`, error);
+  res.status(500).json({ message });
+}
+
+// The user's threads, most recently active first
+router.get("/", async (req: Request, res: Response) => {
+  try {
+    const threads = await storage.getChatThreadsByUserId(req.user!.id, {
+      search: typeof req.query.q === "string" && req.query.q.trim() ? req.query.q.trim() : undefined,
+      archived: req.query.archived === "true",
+    });
+    res.json(threads);
+  } catch (error) {
+    handleError(res, error, "Error retrieving chat threads");
+  }
+});
+
+router.post("/", async (req: Request, res: Response) => {
+  try {
+    const parsed = z.object({ title: z.string().trim().min(1).max(200).optional() }).safeParse(req.body || {});
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid thread data", errors: parsed.error.errors });
+    }
+    const thread = await storage.createChatThread({
+      userId: req.user!.id,
+      title: parsed.data.title || DEFAULT_THREAD_TITLE,
+    });
+    res.status(201).json(thread);
+  } catch (error) {
+    handleError(res, error, "Error creating chat thread");
+  }
+});
+
+router.get("/:id", async (req: Request, res: Response) => {
+  const id = parseThreadId(req, res);
+  if (id === null) return;
+  try {
+    res.json(await getOwnedThread(id, req.user!.id));
+  } catch (error) {
+    handleError(res, error, "Error retrieving chat thread");
+  }
+});
+
+// Rename, archive or restore a thread
+router.patch("/:id", async (req: Request, res: Response) => {
+  const id = parseThreadId(req, res);
+  if (id === null) return;
+  try {
+    const parsed = threadUpdateSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid thread data", errors: parsed.error.errors });
+    }
+    const thread = await getOwnedThread(id, req.user!.id);
+
+    const updates: { title?: string; archivedAt?: Date | null } = {};
+    if (parsed.data.title !== undefined) {
+      updates.title = parsed.data.title;
+    }
+    if (parsed.data.archived !== undefined) {
+      updates.archivedAt = parsed.data.archived ? (thread.archivedAt || new Date()) : null;
+    }
+    res.json(await storage.updateChatThread(id, updates));
+  } catch (error) {
+    handleError(res, error, "Error updating chat thread");
+  }
+});
+
+router.get("/:id/messages", async (req: Request, res: Response) => {
+  const id = parseThreadId(req, res);
+  if (id === null) return;
+  try {
+    await getOwnedThread(id, req.user!.id);
+    res.json(await storage.getChatMessagesByThreadId(id));
+  } catch (error) {
+    handleError(res, error, "Error retrieving chat messages");
+  }
+});
+
+router.post("/:id/messages", enforceUsageQuota('aiChatMessage'), async (req: Request, res: Response) => {
+  const id = parseThreadId(req, res);
+  if (id === null) return;
+  try {
+    const parsed = z.object({ content: z.string().trim().min(1) }).safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid message data" });
+    }
+    const thread = await getOwnedThread(id, req.user!.id);
+    const result = await sendThreadMessage(thread, parsed.data.content);
+    res.status(201).json({
+      thread: result.thread,
+      userMessage: result.userMessage,
+      aiMessage: result.aiMessage,
+      error: result.aiErrorCode ? {
+        type: result.aiErrorCode,
+        retry: result.aiErrorCode === 'rate_limit' || result.aiErrorCode === 'timeout'
+      } : null
+    });
+  } catch (error) {
+    handleError(res, error, "Error creating chat message");
+  }
+});
+
+// The thread's domain, procedural guide and recommended templates
+router.get("/:id/context", async (req: Request, res: Response) => {
+  const id = parseThreadId(req, res);
+  if (id === null) return;
+  try {
+    await getOwnedThread(id, req.user!.id);
+    res.json((await storage.getConversationContextByThreadId(id)) || null);
+  } catch (error) {
+    handleError(res, error, "Error retrieving conversation context");
+  }
+});
+
+router.patch("/:id/context", async (req: Request, res: Response) => {
+  const id = parseThreadId(req, res);
+  if (id === null) return;
+  try {
+    const parsed = contextUpdateSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid context data", errors: parsed.error.errors });
+    }
+    await getOwnedThread(id, req.user!.id);
+
+    const existing = await storage.getConversationContextByThreadId(id);
+    if (existing) {
+      return res.json(await storage.updateConversationContext(existing.id, {
+        ...parsed.data,
+        updatedAt: new Date(),
+      }));
+    }
+    const context = await storage.createConversationContext({
+      ...parsed.data,
+      userId: req.user!.id,
+      threadId: id,
+      context: parsed.data.context || {},
+    });
+    res.status(201).json(context);
+  } catch (error) {
+    handleError(res, error, "Error updating conversation context");
+  }
+});
+
+router.get("/:id/export", async (req: Request, res: Response) => {
+  const id = parseThreadId(req, res);
+  if (id === null) return;
+  try {
+    const format = ((req.query.format as string) || 'markdown') as ThreadExportFormat;
+    if (THREAD_EXPORT_FORMATS.indexOf(format) === -1) {
+      return res.status(400).json({ message: `Unsupported export format. Use one of: ${THREAD_EXPORT_FORMATS.join(', ')}` });
+    }
+    const thread = await getOwnedThread(id, req.user!.id);
+    const messages = await storage.getChatMessagesByThreadId(id);
+
+    const exported = exportThread(thread, messages, format);
+    res.setHeader('Content-Type', exported.contentType);
+    res.setHeader('Content-Disposition', `attachment; filename="${exported.filename}"`);
+    res.send(exported.body);
+  } catch (error) {
+    handleError(res, error, "Error exporting chat thread");
+  }
+});
+
+export default router;
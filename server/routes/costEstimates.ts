@@ -0,0 +1,150 @@
+import { Router, Request, Response } from "express";
+import { z } from "zod";
+import { storage } from "../storage";
+import { isAuthenticated } from "../auth";
+import {
+  compareEstimates,
+  CostEstimateError,
+  estimateCosts,
+  estimateInputSchema,
+  ESTIMATE_EXPORT_FORMATS,
+  exportEstimate,
+  saveEstimate
+} from "../lib/costEstimation";
+
+const router = Router();
+
+const saveEstimateSchema = z.object({
+  title: z.string().trim().min(1).max(200),
+  inputs: estimateInputSchema,
+});
+
+// Up to four estimates side by side
+const compareSchema = z.array(z.number().int()).min(2).max(4);
+
+function handleError(res: Response, error: unknown, message: string) {
+  if (error instanceof CostEstimateError) {
+    return res.status(error.status).json({ message: error.message });
+  }
+  console.error(`${message}:`, error);
+  res.status(500).json({ message });
+}
+
+router.use(isAuthenticated);
+
+// Estimate from the published rate table without saving
+router.post("/calculate", async (req: Request, res: Response) => {
+  try {
+    const parsed = estimateInputSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid estimate request", errors: parsed.error.format() });
+    }
+    res.json(await estimateCosts(parsed.data));
+  } catch (error) {
+    handleError(res, error, "Error calculating cost estimate");
+  }
+});
+
+router.get("/", async (req: Request, res: Response) => {
+  try {
+    res.json(await storage.getCostEstimatesByUserId(req.user!.id));
+  } catch (error) {
+    handleError(res, error, "Error fetching cost estimates");
+  }
+});
+
+// Recalculates from the published rate table and saves the result
+router.post("/", async (req: Request, res: Response) => {
+  try {
+    const parsed = saveEstimateSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid estimate", errors: parsed.error.format() });
+    }
+    const estimate = await saveEstimate(req.user!.id, parsed.data.title, parsed.data.inputs);
+    res.status(201).json(estimate);
+  } catch (error) {
+    handleError(res, error, "Error saving cost estimate");
+  }
+});
+
+// ?ids=1,2,3
+router.get("/compare", async (req: Request, res: Response) => {
+  try {
+    const ids = String(req.query.ids || "").split(",").filter(Boolean).map(Number);
+    const parsed = compareSchema.safeParse(ids);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Choose between two and four estimates to compare" });
+    }
+
+    const estimates = await Promise.all(parsed.data.map(id => storage.getCostEstimate(id)));
+    if (estimates.some(estimate => !estimate || estimate.userId !== req.user!.id)) {
+      return res.status(404).json({ message: "Cost estimate not found" });
+    }
+    res.json(compareEstimates(estimates.map(estimate => estimate!)));
+  } catch (error) {
+    handleError(res, error, "Error comparing cost estimates");
+  }
+});
+
+router.get("/:id", async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "Invalid estimate ID format" });
+    }
+    const estimate = await storage.getCostEstimate(id);
+    if (!estimate || estimate.userId !== req.user!.id) {
+      return res.status(404).json({ message: "Cost estimate not found" });
+    }
+    res.json(estimate);
+  } catch (error) {
+    handleError(res, error, "Error fetching cost estimate");
+  }
+});
+
+// ?format=csv|docx|rtf
+router.get("/:id/export", async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "Invalid estimate ID format" });
+    }
+    const format = z.enum(ESTIMATE_EXPORT_FORMATS).safeParse(req.query.format || "csv");
+    if (!format.success) {
+      return res.status(400).json({ message: `Format must be one of: ${ESTIMATE_EXPORT_FORMATS.join(", ")}` });
+    }
+    const estimate = await storage.getCostEstimate(id);
+    if (!estimate || estimate.userId !== req.user!.id) {
+      return res.status(404).json({ message: "Cost estimate not found" });
+    }
+
+    const exported = await exportEstimate(estimate, format.data);
+    res.setHeader("Content-Type", exported.contentType);
+    res.setHeader(
+      "Content-Disposition",
+      `attachment; filename="${exported.fileName}"; filename*=UTF-8''${encodeURIComponent(exported.fileName)}`
+    );
+    res.setHeader("Content-Length", exported.buffer.length.toString());
+    res.send(exported.buffer);
+  } catch (error) {
+    handleError(res, error, "Error exporting cost estimate");
+  }
+});
+
+router.delete("/:id", async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "Invalid estimate ID format" });
+    }
+    const deleted = await storage.deleteCostEstimate(id, req.user!.id);
+    if (!deleted) {
+      return res.status(404).json({ message: "Cost estimate not found" });
+    }
+    res.status(204).end();
+  } catch (error) {
+    handleError(res, error, "Error deleting cost estimate");
+  }
+});
+
+export default router;
@@ -0,0 +1,87 @@
+import { Router, Request, Response } from "express";
+import { z } from "zod";
+import { storage } from "../storage";
+import { requirePermission } from "../lib/permissions";
+import {
+  CostEstimateError,
+  createDraftRateTable,
+  getPublishedRateTable,
+  publishRateTable,
+  updateDraftRateTable
+} from "../lib/costEstimation";
+
+const router = Router();
+
+const createDraftSchema = z.object({
+  baseId: z.number().int().optional(), // Defaults to the published table
+  notes: z.string().max(1000).optional(),
+});
+
+const updateDraftSchema = z.object({
+  data: z.unknown().optional(), // Checked against the rate table schema
+  notes: z.string().max(1000).optional(),
+});
+
+function handleError(res: Response, error: unknown, message: string) {
+  if (error instanceof CostEstimateError) {
+    return res.status(error.status).json({ message: error.message });
+  }
+  console.error(`${message}:`, error);
+  res.status(500).json({ message });
+}
+
+router.use(requirePermission("cost_rates:manage"));
+
+// Every version, newest first
+router.get("/", async (_req: Request, res: Response) => {
+  try {
+    // Makes sure version 1 exists
+    await getPublishedRateTable();
+    res.json(await storage.getCostRateTables());
+  } catch (error) {
+    handleError(res, error, "Error fetching cost rate tables");
+  }
+});
+
+router.post("/", async (req: Request, res: Response) => {
+  try {
+    const parsed = createDraftSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid rate table request", errors: parsed.error.format() });
+    }
+    const table = await createDraftRateTable(req.user!.id, parsed.data.baseId, parsed.data.notes);
+    res.status(201).json(table);
+  } catch (error) {
+    handleError(res, error, "Error creating cost rate table");
+  }
+});
+
+router.patch("/:id", async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "Invalid rate table ID format" });
+    }
+    const parsed = updateDraftSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid rate table update", errors: parsed.error.format() });
+    }
+    res.json(await updateDraftRateTable(id, parsed.data));
+  } catch (error) {
+    handleError(res, error, "Error updating cost rate table");
+  }
+});
+
+router.post("/:id/publish", async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "Invalid rate table ID format" });
+    }
+    res.json(await publishRateTable(id, req.user!.id));
+  } catch (error) {
+    handleError(res, error, "Error publishing cost rate table");
+  }
+});
+
+export default router;
@@ -8,6 +8,7 @@ import {
   courtProcedureSteps,
   userCourtProcedures
 } from '@shared/schema';
+import { estimateProcedureTimeline, TimelineError, timelineOptionsSchema } from '../lib/procedureTimeline';
 
 const router = Router();
 
@@ -84,6 +85,29 @@ router.get("/procedures/:id", asyncHandler(async (req: Request, res: Response) =
   });
 }));
 
+// Estimate a procedure's timeline from its steps on the court calendar
+// ?jurisdiction=on&startDate=YYYY-MM-DD&includeOptional=true
+router.get("/procedures/:id/timeline", asyncHandler(async (req: Request, res: Response) => {
+  const id = parseInt(req.params.id);
+  if (isNaN(id)) {
+    return res.status(400).json({ message: 'Invalid procedure ID' });
+  }
+  
+  const validation = timelineOptionsSchema.safeParse(req.query);
+  if (!validation.success) {
+    return res.status(400).json({ message: 'Invalid timeline options', errors: validation.error.errors });
+  }
+  
+  try {
+    res.json(await estimateProcedureTimeline(id, validation.data));
+  } catch (error) {
+    if (error instanceof TimelineError) {
+      return res.status(error.status).json({ message: error.message });
+    }
+    throw error;
+  }
+}));
+
 // Get all user's court procedures
 router.get("/user", asyncHandler(async (req: Request, res: Response) => {
   if (!req.isAuthenticated() || !req.user) {
@@ -1,49 +1,166 @@
-
-import express from 'express';
+import { Router, Request, Response } from 'express';
+import { pipeline } from 'stream';
+import { z } from 'zod';
 import { storage } from '../storage';
-import { DocuSealService } from '../lib/docuSealService';
+import { isAuthenticated } from '../auth';
+import { getBlobStorage } from '../lib/blobStorage';
+import { DocuSealError } from '../lib/docuSealService';
+import { SigningError } from '../lib/proposalSigning';
+import {
+  canAccessSubmission,
+  describeSubmission,
+  handleWebhookEvent,
+  parseWebhook,
+  sendGeneratedDocumentForSigning,
+  sendProposalForSigning,
+} from '../lib/docuSealSigning';
+
+const router = Router();
+
+const submissionSchema = z.union([
+  z.object({ proposalId: z.number().int() }),
+  z.object({
+    generatedDocumentId: z.number().int(),
+    signers: z.array(z.object({
+      name: z.string().trim().min(1).max(200),
+      email: z.string().email(),
+      role: z.string().max(100).optional(),
+    })).min(1).max(10),
+  }),
+]);
 
-const router = express.Router();
-const docusealService = new DocuSealService(process.env.DOCUSEAL_API_KEY!);
+function handleError(res: Response, error: unknown, message: string) {
+  if (error instanceof DocuSealError || error instanceof SigningError) {
+    return res.status(error.status).json({ message: error.message });
+  }
+  console.error(`${message}:`, error);
+  res.status(500).json({ message });
+}
 
-// Webhook handler for signature events
-router.post('/webhook', async (req, res) => {
+// Webhook for signer and submission events. Authenticated by its HMAC
+// rather than a session; the raw body is kept by the JSON parser for it.
+router.post('/webhook', async (req: Request, res: Response) => {
   try {
-    const { event, data } = req.body;
-    
-    switch (event) {
-      case 'submission.completed':
-        await handleSubmissionCompleted(data);
-        break;
-      case 'submission.signed':
-        await handleSubmissionSigned(data);
-        break;
-    }
-    
-    res.json({ status: 'success' });
+    const event = parseWebhook((req as Request & { rawBody?: Buffer }).rawBody, req.get('x-docuseal-signature'));
+    const result = await handleWebhookEvent(event);
+    res.json({ status: result });
   } catch (error) {
+    if (error instanceof DocuSealError && error.status < 500) {
+      return res.status(error.status).json({ error: error.message });
+    }
     console.error('DocuSeal webhook error:', error);
     res.status(500).json({ error: 'Webhook processing failed' });
   }
 });
 
-async function handleSubmissionCompleted(data: any) {
-  const { submission_id } = data;
-  // Update signature status in database
-  await storage.updateDigitalSignatureBySubmissionId(
-    submission_id,
-    { signatureStatus: 'completed', verifiedAt: new Date() }
-  );
-}
+router.use(isAuthenticated);
 
-async function handleSubmissionSigned(data: any) {
-  const { submission_id, signer_id } = data;
-  // Update individual signer status
-  await storage.updateDigitalSignatureBySigner(
-    submission_id,
-    signer_id,
-    { signatureStatus: 'signed' }
-  );
-}
+// Send a settlement proposal or a generated document for signing
+router.post('/submissions', async (req: Request, res: Response) => {
+  try {
+    const validationResult = submissionSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({
+        message: 'Send a proposalId, or a generatedDocumentId with at least one signer',
+        errors: validationResult.error.format()
+      });
+    }
+    const data = validationResult.data;
+
+    if ('proposalId' in data) {
+      const proposal = await storage.getSettlementProposalById(data.proposalId);
+      if (!proposal || !proposal.disputeId) {
+        return res.status(404).json({ message: 'Proposal not found' });
+      }
+      // As for editing, only the proposer or a mediator sends a proposal out
+      const isProposer = proposal.proposedBy === req.user!.id;
+      const isMediator = await storage.isDisputeMediator(req.user!.id, proposal.disputeId);
+      if (!isProposer && !isMediator) {
+        return res.status(403).json({ message: 'Access denied' });
+      }
+
+      const submission = await sendProposalForSigning(proposal, {
+        userId: req.user!.id,
+        ipAddress: req.ip || null,
+        userAgent: req.get('user-agent') || null,
+      });
+      return res.status(201).json(describeSubmission(submission));
+    }
+
+    const document = await storage.getGeneratedDocument(data.generatedDocumentId);
+    if (!document || document.userId !== req.user!.id) {
+      return res.status(404).json({ message: 'Document not found' });
+    }
+    const submission = await sendGeneratedDocumentForSigning(document, data.signers, req.user!.id);
+    res.status(201).json(describeSubmission(submission));
+  } catch (error) {
+    handleError(res, error, 'Error creating signature request');
+  }
+});
+
+// Submissions for a proposal, newest first
+router.get('/proposals/:proposalId/submissions', async (req: Request, res: Response) => {
+  try {
+    const proposalId = parseInt(req.params.proposalId);
+    if (isNaN(proposalId)) {
+      return res.status(400).json({ message: 'Invalid proposal ID format' });
+    }
+    const proposal = await storage.getSettlementProposalById(proposalId);
+    if (!proposal || !proposal.disputeId) {
+      return res.status(404).json({ message: 'Proposal not found' });
+    }
+    const isParty = await storage.isDisputeParty(req.user!.id, proposal.disputeId);
+    const isMediator = await storage.isDisputeMediator(req.user!.id, proposal.disputeId);
+    const isOwner = await storage.isDisputeOwner(req.user!.id, proposal.disputeId);
+    if (!isParty && !isMediator && !isOwner) {
+      return res.status(403).json({ message: 'Access denied' });
+    }
+
+    const submissions = await storage.getDocusealSubmissionsBySource({ proposalId });
+    res.json(submissions.map(describeSubmission));
+  } catch (error) {
+    handleError(res, error, 'Error fetching signature requests');
+  }
+});
+
+router.get('/status/:submissionId', async (req: Request, res: Response) => {
+  try {
+    const submission = await storage.getDocusealSubmission(req.params.submissionId);
+    if (!submission || !await canAccessSubmission(submission, req.user!.id)) {
+      return res.status(404).json({ message: 'Signature request not found' });
+    }
+    res.json(describeSubmission(submission));
+  } catch (error) {
+    handleError(res, error, 'Error fetching signature status');
+  }
+});
+
+router.get('/submissions/:submissionId/signed-document', async (req: Request, res: Response) => {
+  try {
+    const submission = await storage.getDocusealSubmission(req.params.submissionId);
+    if (!submission || !await canAccessSubmission(submission, req.user!.id)) {
+      return res.status(404).json({ message: 'Signature request not found' });
+    }
+    if (!submission.signedStorageKey) {
+      return res.status(409).json({ message: 'The document has not been signed by everyone yet' });
+    }
+
+    const file = await getBlobStorage().get(submission.signedStorageKey);
+    if (!file) {
+      return res.status(404).json({ message: 'Signed document file not found' });
+    }
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Length', file.size);
+    res.setHeader('Content-Disposition', `attachment; filename="signed-${submission.submissionId}.pdf"`);
+    // Closes the blob stream if the client goes away or the read fails
+    pipeline(file.stream, res, (error) => {
+      if (error && (error as NodeJS.ErrnoException).code !== 'ERR_STREAM_PREMATURE_CLOSE') {
+        console.error('Error streaming signed document:', error);
+      }
+    });
+  } catch (error) {
+    handleError(res, error, 'Error downloading signed document');
+  }
+});
 
 export default router;
@@ -0,0 +1,52 @@
+import { Router, Request, Response } from "express";
+import { storage } from "../storage";
+import { isAuthenticated } from "../auth";
+
+const router = Router();
+
+router.use(isAuthenticated);
+
+// The user's most recent notifications, with the number still unread
+router.get("/", async (req: Request, res: Response) => {
+  try {
+    const unreadOnly = req.query.unread === "true";
+    const [notifications, unreadCount] = await Promise.all([
+      storage.getNotificationsByUserId(req.user!.id, { unreadOnly }),
+      storage.countUnreadNotifications(req.user!.id)
+    ]);
+    res.json({ notifications, unreadCount });
+  } catch (error) {
+    console.error("Error fetching notifications:", error);
+    res.status(500).json({ message: "Error fetching notifications" });
+  }
+});
+
+router.patch("/:id/read", async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "Invalid notification ID format" });
+    }
+
+    const notification = await storage.markNotificationRead(id, req.user!.id);
+    if (!notification) {
+      return res.status(404).json({ message: "Notification not found" });
+    }
+    res.json(notification);
+  } catch (error) {
+    console.error("Error updating notification:", error);
+    res.status(500).json({ message: "Error updating notification" });
+  }
+});
+
+router.post("/read-all", async (req: Request, res: Response) => {
+  try {
+    const updated = await storage.markAllNotificationsRead(req.user!.id);
+    res.json({ updated });
+  } catch (error) {
+    console.error("Error updating notifications:", error);
+    res.status(500).json({ message: "Error updating notifications" });
+  }
+});
+
+export default router;
@@ -1,5 +1,7 @@
-import express from 'express';
-import { db } from '@server/db';
+import { Router, Request, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import { db } from '../db';
+import { userCourtProcedures } from '@shared/schema';
 import { 
   userProcedureNotes, userProcedureReminders, 
   userProcedureChecklist, userProcedureDocuments,
@@ -7,13 +9,41 @@ import {
   insertUserProcedureChecklistItemSchema, insertUserProcedureDocumentSchema
 } from '@shared/schema-procedure-extensions';
 import { eq, and } from 'drizzle-orm';
-import { asyncHandler } from '@server/utils/asyncHandler';
-import { logger } from '@server/logger';
+import { asyncHandler } from '../utils/asyncHandler';
+import { attachTimelineReminders, attachTimelineSchema, TimelineError } from '../lib/procedureTimeline';
 
-const router = express.Router();
+const router = Router();
+
+const updateNoteSchema = insertUserProcedureNoteSchema.omit({ userProcedureId: true }).partial();
+const updateReminderSchema = insertUserProcedureReminderSchema.omit({ userProcedureId: true }).partial();
+const updateChecklistItemSchema = insertUserProcedureChecklistItemSchema.omit({ userProcedureId: true }).partial();
+const updateDocumentSchema = insertUserProcedureDocumentSchema.omit({ userProcedureId: true }).partial();
+
+const MAX_SNOOZE_MINUTES = 60 * 24 * 30;
+
+const snoozeReminderSchema = z.object({
+  until: z.coerce.date().optional(),
+  minutes: z.number().int().positive().max(MAX_SNOOZE_MINUTES).optional(),
+}).refine(data => !!data.until !== !!data.minutes, {
+  message: 'Provide either until or minutes',
+});
+
+// Check whether a user court procedure belongs to the user
+async function ownsUserProcedure(userProcedureId: number, userId: number): Promise<boolean> {
+  const [userProcedure] = await db
+    .select({ id: userCourtProcedures.id })
+    .from(userCourtProcedures)
+    .where(
+      and(
+        eq(userCourtProcedures.id, userProcedureId),
+        eq(userCourtProcedures.userId, userId)
+      )
+    );
+  return !!userProcedure;
+}
 
 // Middleware to check if user has access to the user procedure
-const checkUserProcedureAccess = asyncHandler(async (req, res, next) => {
+const checkUserProcedureAccess = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
   if (!req.user) return res.status(401).json({ message: 'Not authenticated' });
   
   const userProcedureId = parseInt(req.params.userProcedureId);
@@ -21,25 +51,15 @@ const checkUserProcedureAccess = asyncHandler(async (req, res, next) => {
     return res.status(400).json({ message: 'Invalid user procedure ID' });
   }
   
-  // Check if the user procedure exists and belongs to the user
-  const userProcedure = await db.query.userProcedures.findFirst({
-    where: and(
-      eq(userProcedures.id, userProcedureId),
-      eq(userProcedures.userId, req.user.id)
-    )
-  });
-  
-  if (!userProcedure) {
+  if (!(await ownsUserProcedure(userProcedureId, req.user.id))) {
     return res.status(404).json({ message: 'User procedure not found or access denied' });
   }
   
-  // Store the user procedure for reference in the handler
-  req.userProcedure = userProcedure;
   next();
 });
 
 // Get all notes for a user procedure
-router.get('/user/:userProcedureId/notes', checkUserProcedureAccess, asyncHandler(async (req, res) => {
+router.get('/user/:userProcedureId/notes', checkUserProcedureAccess, asyncHandler(async (req: Request, res: Response) => {
   const { userProcedureId } = req.params;
   
   const notes = await db
@@ -52,14 +72,19 @@ router.get('/user/:userProcedureId/notes', checkUserProcedureAccess, asyncHandle
 }));
 
 // Create a new note for a user procedure
-router.post('/user/:userProcedureId/notes', checkUserProcedureAccess, asyncHandler(async (req, res) => {
+router.post('/user/:userProcedureId/notes', checkUserProcedureAccess, asyncHandler(async (req: Request, res: Response) => {
   const { userProcedureId } = req.params;
   
-  const validatedData = insertUserProcedureNoteSchema.parse({
+  const validation = insertUserProcedureNoteSchema.safeParse({
     ...req.body,
     userProcedureId: parseInt(userProcedureId)
   });
   
+  if (!validation.success) {
+    return res.status(400).json({ message: 'Invalid request data', errors: validation.error.errors });
+  }
+  const validatedData = validation.data;
+  
   const [newNote] = await db
     .insert(userProcedureNotes)
     .values(validatedData)
@@ -69,7 +94,7 @@ router.post('/user/:userProcedureId/notes', checkUserProcedureAccess, asyncHandl
 }));
 
 // Update a note
-router.patch('/notes/:noteId', asyncHandler(async (req, res) => {
+router.patch('/notes/:noteId', asyncHandler(async (req: Request, res: Response) => {
   if (!req.user) return res.status(401).json({ message: 'Not authenticated' });
   
   const noteId = parseInt(req.params.noteId);
@@ -78,25 +103,28 @@ router.patch('/notes/:noteId', asyncHandler(async (req, res) => {
   }
   
   // Get the note to check ownership
-  const note = await db.query.userProcedureNotes.findFirst({
-    where: eq(userProcedureNotes.id, noteId),
-    with: {
-      userProcedure: true
-    }
-  });
+  const [note] = await db
+    .select()
+    .from(userProcedureNotes)
+    .where(eq(userProcedureNotes.id, noteId));
   
   if (!note) {
     return res.status(404).json({ message: 'Note not found' });
   }
   
-  if (note.userProcedure.userId !== req.user.id) {
+  if (!(await ownsUserProcedure(note.userProcedureId, req.user.id))) {
     return res.status(403).json({ message: 'Access denied' });
   }
   
+  const validation = updateNoteSchema.safeParse(req.body);
+  if (!validation.success) {
+    return res.status(400).json({ message: 'Invalid request data', errors: validation.error.errors });
+  }
+  
   const [updatedNote] = await db
     .update(userProcedureNotes)
     .set({
-      ...req.body,
+      ...validation.data,
       updatedAt: new Date()
     })
     .where(eq(userProcedureNotes.id, noteId))
@@ -106,7 +134,7 @@ router.patch('/notes/:noteId', asyncHandler(async (req, res) => {
 }));
 
 // Delete a note
-router.delete('/notes/:noteId', asyncHandler(async (req, res) => {
+router.delete('/notes/:noteId', asyncHandler(async (req: Request, res: Response) => {
   if (!req.user) return res.status(401).json({ message: 'Not authenticated' });
   
   const noteId = parseInt(req.params.noteId);
@@ -115,18 +143,16 @@ router.delete('/notes/:noteId', asyncHandler(async (req, res) => {
   }
   
   // Get the note to check ownership
-  const note = await db.query.userProcedureNotes.findFirst({
-    where: eq(userProcedureNotes.id, noteId),
-    with: {
-      userProcedure: true
-    }
-  });
+  const [note] = await db
+    .select()
+    .from(userProcedureNotes)
+    .where(eq(userProcedureNotes.id, noteId));
   
   if (!note) {
     return res.status(404).json({ message: 'Note not found' });
   }
   
-  if (note.userProcedure.userId !== req.user.id) {
+  if (!(await ownsUserProcedure(note.userProcedureId, req.user.id))) {
     return res.status(403).json({ message: 'Access denied' });
   }
   
@@ -140,7 +166,7 @@ router.delete('/notes/:noteId', asyncHandler(async (req, res) => {
 // REMINDERS ENDPOINTS
 
 // Get all reminders for a user procedure
-router.get('/user/:userProcedureId/reminders', checkUserProcedureAccess, asyncHandler(async (req, res) => {
+router.get('/user/:userProcedureId/reminders', checkUserProcedureAccess, asyncHandler(async (req: Request, res: Response) => {
   const { userProcedureId } = req.params;
   
   const reminders = await db
@@ -153,14 +179,19 @@ router.get('/user/:userProcedureId/reminders', checkUserProcedureAccess, asyncHa
 }));
 
 // Create a new reminder for a user procedure
-router.post('/user/:userProcedureId/reminders', checkUserProcedureAccess, asyncHandler(async (req, res) => {
+router.post('/user/:userProcedureId/reminders', checkUserProcedureAccess, asyncHandler(async (req: Request, res: Response) => {
   const { userProcedureId } = req.params;
   
-  const validatedData = insertUserProcedureReminderSchema.parse({
+  const validation = insertUserProcedureReminderSchema.safeParse({
     ...req.body,
     userProcedureId: parseInt(userProcedureId)
   });
   
+  if (!validation.success) {
+    return res.status(400).json({ message: 'Invalid request data', errors: validation.error.errors });
+  }
+  const validatedData = validation.data;
+  
   const [newReminder] = await db
     .insert(userProcedureReminders)
     .values(validatedData)
@@ -169,8 +200,28 @@ router.post('/user/:userProcedureId/reminders', checkUserProcedureAccess, asyncH
   res.status(201).json(newReminder);
 }));
 
+// Build the procedure's timeline from the user's current step and attach one
+// reminder per remaining step. Open reminders from an earlier timeline are
+// updated in place, and completed ones are kept.
+router.post('/user/:userProcedureId/timeline', checkUserProcedureAccess, asyncHandler(async (req: Request, res: Response) => {
+  const validation = attachTimelineSchema.safeParse(req.body);
+  if (!validation.success) {
+    return res.status(400).json({ message: 'Invalid request data', errors: validation.error.errors });
+  }
+  
+  try {
+    const result = await attachTimelineReminders(parseInt(req.params.userProcedureId), validation.data);
+    res.status(201).json(result);
+  } catch (error) {
+    if (error instanceof TimelineError) {
+      return res.status(error.status).json({ message: error.message });
+    }
+    throw error;
+  }
+}));
+
 // Update a reminder
-router.patch('/reminders/:reminderId', asyncHandler(async (req, res) => {
+router.patch('/reminders/:reminderId', asyncHandler(async (req: Request, res: Response) => {
   if (!req.user) return res.status(401).json({ message: 'Not authenticated' });
   
   const reminderId = parseInt(req.params.reminderId);
@@ -179,25 +230,32 @@ router.patch('/reminders/:reminderId', asyncHandler(async (req, res) => {
   }
   
   // Get the reminder to check ownership
-  const reminder = await db.query.userProcedureReminders.findFirst({
-    where: eq(userProcedureReminders.id, reminderId),
-    with: {
-      userProcedure: true
-    }
-  });
+  const [reminder] = await db
+    .select()
+    .from(userProcedureReminders)
+    .where(eq(userProcedureReminders.id, reminderId));
   
   if (!reminder) {
     return res.status(404).json({ message: 'Reminder not found' });
   }
   
-  if (reminder.userProcedure.userId !== req.user.id) {
+  if (!(await ownsUserProcedure(reminder.userProcedureId, req.user.id))) {
     return res.status(403).json({ message: 'Access denied' });
   }
   
+  const validation = updateReminderSchema.safeParse(req.body);
+  if (!validation.success) {
+    return res.status(400).json({ message: 'Invalid request data', errors: validation.error.errors });
+  }
+  
+  // A new schedule replaces any snooze, and the reminder is sent again
+  const rescheduled = validation.data.dueDate !== undefined || validation.data.notifyBefore !== undefined;
+  
   const [updatedReminder] = await db
     .update(userProcedureReminders)
     .set({
-      ...req.body,
+      ...validation.data,
+      ...(rescheduled ? { snoozedUntil: null, lastNotifiedAt: null } : {}),
       updatedAt: new Date()
     })
     .where(eq(userProcedureReminders.id, reminderId))
@@ -206,8 +264,56 @@ router.patch('/reminders/:reminderId', asyncHandler(async (req, res) => {
   res.json(updatedReminder);
 }));
 
+// Snooze a reminder, either until a time or for a number of minutes
+router.post('/reminders/:reminderId/snooze', asyncHandler(async (req: Request, res: Response) => {
+  if (!req.user) return res.status(401).json({ message: 'Not authenticated' });
+  
+  const reminderId = parseInt(req.params.reminderId);
+  if (isNaN(reminderId)) {
+    return res.status(400).json({ message: 'Invalid reminder ID' });
+  }
+  
+  const validation = snoozeReminderSchema.safeParse(req.body);
+  if (!validation.success) {
+    return res.status(400).json({ message: 'Invalid request data', errors: validation.error.errors });
+  }
+  
+  const snoozedUntil = validation.data.until || new Date(Date.now() + validation.data.minutes! * 60 * 1000);
+  if (snoozedUntil.getTime() <= Date.now()) {
+    return res.status(400).json({ message: 'Snooze time must be in the future' });
+  }
+  if (snoozedUntil.getTime() > Date.now() + MAX_SNOOZE_MINUTES * 60 * 1000) {
+    return res.status(400).json({ message: 'Reminders can be snoozed for at most 30 days' });
+  }
+  
+  const [reminder] = await db
+    .select()
+    .from(userProcedureReminders)
+    .where(eq(userProcedureReminders.id, reminderId));
+  
+  if (!reminder) {
+    return res.status(404).json({ message: 'Reminder not found' });
+  }
+  
+  if (!(await ownsUserProcedure(reminder.userProcedureId, req.user.id))) {
+    return res.status(403).json({ message: 'Access denied' });
+  }
+  
+  if (reminder.isCompleted) {
+    return res.status(409).json({ message: 'Completed reminders cannot be snoozed' });
+  }
+  
+  const [updatedReminder] = await db
+    .update(userProcedureReminders)
+    .set({ snoozedUntil, updatedAt: new Date() })
+    .where(eq(userProcedureReminders.id, reminderId))
+    .returning();
+    
+  res.json(updatedReminder);
+}));
+
 // Delete a reminder
-router.delete('/reminders/:reminderId', asyncHandler(async (req, res) => {
+router.delete('/reminders/:reminderId', asyncHandler(async (req: Request, res: Response) => {
   if (!req.user) return res.status(401).json({ message: 'Not authenticated' });
   
   const reminderId = parseInt(req.params.reminderId);
@@ -216,18 +322,16 @@ router.delete('/reminders/:reminderId', asyncHandler(async (req, res) => {
   }
   
   // Get the reminder to check ownership
-  const reminder = await db.query.userProcedureReminders.findFirst({
-    where: eq(userProcedureReminders.id, reminderId),
-    with: {
-      userProcedure: true
-    }
-  });
+  const [reminder] = await db
+    .select()
+    .from(userProcedureReminders)
+    .where(eq(userProcedureReminders.id, reminderId));
   
   if (!reminder) {
     return res.status(404).json({ message: 'Reminder not found' });
   }
   
-  if (reminder.userProcedure.userId !== req.user.id) {
+  if (!(await ownsUserProcedure(reminder.userProcedureId, req.user.id))) {
     return res.status(403).json({ message: 'Access denied' });
   }
   
@@ -241,7 +345,7 @@ router.delete('/reminders/:reminderId', asyncHandler(async (req, res) => {
 // CHECKLIST ENDPOINTS
 
 // Get all checklist items for a user procedure
-router.get('/user/:userProcedureId/checklist', checkUserProcedureAccess, asyncHandler(async (req, res) => {
+router.get('/user/:userProcedureId/checklist', checkUserProcedureAccess, asyncHandler(async (req: Request, res: Response) => {
   const { userProcedureId } = req.params;
   
   const checklist = await db
@@ -254,14 +358,19 @@ router.get('/user/:userProcedureId/checklist', checkUserProcedureAccess, asyncHa
 }));
 
 // Create a new checklist item for a user procedure
-router.post('/user/:userProcedureId/checklist', checkUserProcedureAccess, asyncHandler(async (req, res) => {
+router.post('/user/:userProcedureId/checklist', checkUserProcedureAccess, asyncHandler(async (req: Request, res: Response) => {
   const { userProcedureId } = req.params;
   
-  const validatedData = insertUserProcedureChecklistItemSchema.parse({
+  const validation = insertUserProcedureChecklistItemSchema.safeParse({
     ...req.body,
     userProcedureId: parseInt(userProcedureId)
   });
   
+  if (!validation.success) {
+    return res.status(400).json({ message: 'Invalid request data', errors: validation.error.errors });
+  }
+  const validatedData = validation.data;
+  
   const [newChecklistItem] = await db
     .insert(userProcedureChecklist)
     .values(validatedData)
@@ -271,7 +380,7 @@ router.post('/user/:userProcedureId/checklist', checkUserProcedureAccess, asyncH
 }));
 
 // Update a checklist item
-router.patch('/checklist/:itemId', asyncHandler(async (req, res) => {
+router.patch('/checklist/:itemId', asyncHandler(async (req: Request, res: Response) => {
   if (!req.user) return res.status(401).json({ message: 'Not authenticated' });
   
   const itemId = parseInt(req.params.itemId);
@@ -280,25 +389,28 @@ router.patch('/checklist/:itemId', asyncHandler(async (req, res) => {
   }
   
   // Get the checklist item to check ownership
-  const checklistItem = await db.query.userProcedureChecklist.findFirst({
-    where: eq(userProcedureChecklist.id, itemId),
-    with: {
-      userProcedure: true
-    }
-  });
+  const [checklistItem] = await db
+    .select()
+    .from(userProcedureChecklist)
+    .where(eq(userProcedureChecklist.id, itemId));
   
   if (!checklistItem) {
     return res.status(404).json({ message: 'Checklist item not found' });
   }
   
-  if (checklistItem.userProcedure.userId !== req.user.id) {
+  if (!(await ownsUserProcedure(checklistItem.userProcedureId, req.user.id))) {
     return res.status(403).json({ message: 'Access denied' });
   }
   
+  const validation = updateChecklistItemSchema.safeParse(req.body);
+  if (!validation.success) {
+    return res.status(400).json({ message: 'Invalid request data', errors: validation.error.errors });
+  }
+  
   const [updatedChecklistItem] = await db
     .update(userProcedureChecklist)
     .set({
-      ...req.body,
+      ...validation.data,
       updatedAt: new Date()
     })
     .where(eq(userProcedureChecklist.id, itemId))
@@ -308,7 +420,7 @@ router.patch('/checklist/:itemId', asyncHandler(async (req, res) => {
 }));
 
 // Delete a checklist item
-router.delete('/checklist/:itemId', asyncHandler(async (req, res) => {
+router.delete('/checklist/:itemId', asyncHandler(async (req: Request, res: Response) => {
   if (!req.user) return res.status(401).json({ message: 'Not authenticated' });
   
   const itemId = parseInt(req.params.itemId);
@@ -317,18 +429,16 @@ router.delete('/checklist/:itemId', asyncHandler(async (req, res) => {
   }
   
   // Get the checklist item to check ownership
-  const checklistItem = await db.query.userProcedureChecklist.findFirst({
-    where: eq(userProcedureChecklist.id, itemId),
-    with: {
-      userProcedure: true
-    }
-  });
+  const [checklistItem] = await db
+    .select()
+    .from(userProcedureChecklist)
+    .where(eq(userProcedureChecklist.id, itemId));
   
   if (!checklistItem) {
     return res.status(404).json({ message: 'Checklist item not found' });
   }
   
-  if (checklistItem.userProcedure.userId !== req.user.id) {
+  if (!(await ownsUserProcedure(checklistItem.userProcedureId, req.user.id))) {
     return res.status(403).json({ message: 'Access denied' });
   }
   
@@ -342,7 +452,7 @@ router.delete('/checklist/:itemId', asyncHandler(async (req, res) => {
 // DOCUMENT ENDPOINTS
 
 // Get all documents for a user procedure
-router.get('/user/:userProcedureId/documents', checkUserProcedureAccess, asyncHandler(async (req, res) => {
+router.get('/user/:userProcedureId/documents', checkUserProcedureAccess, asyncHandler(async (req: Request, res: Response) => {
   const { userProcedureId } = req.params;
   
   const documents = await db
@@ -355,14 +465,19 @@ router.get('/user/:userProcedureId/documents', checkUserProcedureAccess, asyncHa
 }));
 
 // Create a new document for a user procedure
-router.post('/user/:userProcedureId/documents', checkUserProcedureAccess, asyncHandler(async (req, res) => {
+router.post('/user/:userProcedureId/documents', checkUserProcedureAccess, asyncHandler(async (req: Request, res: Response) => {
   const { userProcedureId } = req.params;
   
-  const validatedData = insertUserProcedureDocumentSchema.parse({
+  const validation = insertUserProcedureDocumentSchema.safeParse({
     ...req.body,
     userProcedureId: parseInt(userProcedureId)
   });
   
+  if (!validation.success) {
+    return res.status(400).json({ message: 'Invalid request data', errors: validation.error.errors });
+  }
+  const validatedData = validation.data;
+  
   const [newDocument] = await db
     .insert(userProcedureDocuments)
     .values(validatedData)
@@ -372,7 +487,7 @@ router.post('/user/:userProcedureId/documents', checkUserProcedureAccess, asyncH
 }));
 
 // Update a document
-router.patch('/documents/:documentId', asyncHandler(async (req, res) => {
+router.patch('/documents/:documentId', asyncHandler(async (req: Request, res: Response) => {
   if (!req.user) return res.status(401).json({ message: 'Not authenticated' });
   
   const documentId = parseInt(req.params.documentId);
@@ -381,25 +496,28 @@ router.patch('/documents/:documentId', asyncHandler(async (req, res) => {
   }
   
   // Get the document to check ownership
-  const document = await db.query.userProcedureDocuments.findFirst({
-    where: eq(userProcedureDocuments.id, documentId),
-    with: {
-      userProcedure: true
-    }
-  });
+  const [document] = await db
+    .select()
+    .from(userProcedureDocuments)
+    .where(eq(userProcedureDocuments.id, documentId));
   
   if (!document) {
     return res.status(404).json({ message: 'Document not found' });
   }
   
-  if (document.userProcedure.userId !== req.user.id) {
+  if (!(await ownsUserProcedure(document.userProcedureId, req.user.id))) {
     return res.status(403).json({ message: 'Access denied' });
   }
   
+  const validation = updateDocumentSchema.safeParse(req.body);
+  if (!validation.success) {
+    return res.status(400).json({ message: 'Invalid request data', errors: validation.error.errors });
+  }
+  
   const [updatedDocument] = await db
     .update(userProcedureDocuments)
     .set({
-      ...req.body,
+      ...validation.data,
       updatedAt: new Date()
     })
     .where(eq(userProcedureDocuments.id, documentId))
@@ -409,7 +527,7 @@ router.patch('/documents/:documentId', asyncHandler(async (req, res) => {
 }));
 
 // Delete a document
-router.delete('/documents/:documentId', asyncHandler(async (req, res) => {
+router.delete('/documents/:documentId', asyncHandler(async (req: Request, res: Response) => {
   if (!req.user) return res.status(401).json({ message: 'Not authenticated' });
   
   const documentId = parseInt(req.params.documentId);
@@ -418,18 +536,16 @@ router.delete('/documents/:documentId', asyncHandler(async (req, res) => {
   }
   
   // Get the document to check ownership
-  const document = await db.query.userProcedureDocuments.findFirst({
-    where: eq(userProcedureDocuments.id, documentId),
-    with: {
-      userProcedure: true
-    }
-  });
+  const [document] = await db
+    .select()
+    .from(userProcedureDocuments)
+    .where(eq(userProcedureDocuments.id, documentId));
   
   if (!document) {
     return res.status(404).json({ message: 'Document not found' });
   }
   
-  if (document.userProcedure.userId !== req.user.id) {
+  if (!(await ownsUserProcedure(document.userProcedureId, req.user.id))) {
     return res.status(403).json({ message: 'Access denied' });
   }
   
@@ -0,0 +1,66 @@
+import { Router, Request, Response } from "express";
+import multer from "multer";
+import { z } from "zod";
+import { requirePermission } from "../lib/permissions";
+import { countCorpusDocuments, CorpusImportError, importCorpusDump } from "../lib/researchCorpus";
+
+// Dumps are read in memory and never written to disk
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 100 * 1024 * 1024, // 100MB limit
+  },
+  fileFilter: (_req, file, callback) => {
+    if (/\.(json|xml)$/i.test(file.originalname)) {
+      callback(null, true);
+    } else {
+      callback(new Error('Research corpus dumps must be .json or .xml files'));
+    }
+  }
+});
+
+const importOptionsSchema = z.object({
+  source: z.string().trim().min(1).max(100).optional(),
+  dryRun: z.union([z.boolean(), z.enum(["true", "false"])]).optional(),
+});
+
+const router = Router();
+
+router.use(requirePermission("system:manage"));
+
+// Document counts per source and kind
+router.get("/", async (_req: Request, res: Response) => {
+  try {
+    res.json(await countCorpusDocuments());
+  } catch (error) {
+    console.error("Error fetching research corpus:", error);
+    res.status(500).json({ message: "Error fetching research corpus" });
+  }
+});
+
+// Import an uploaded dump; set dryRun to validate it without saving
+router.post("/import", upload.single("dump"), async (req: Request, res: Response) => {
+  try {
+    if (!req.file) {
+      return res.status(400).json({ message: "No corpus dump uploaded" });
+    }
+    const parsed = importOptionsSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid import options", errors: parsed.error.errors });
+    }
+
+    const report = await importCorpusDump(req.file.buffer.toString("utf8"), {
+      source: parsed.data.source,
+      dryRun: parsed.data.dryRun === true || parsed.data.dryRun === "true",
+    });
+    res.json(report);
+  } catch (error) {
+    if (error instanceof CorpusImportError) {
+      return res.status(400).json({ message: error.message });
+    }
+    console.error("Error importing research corpus:", error);
+    res.status(500).json({ message: "Error importing research corpus" });
+  }
+});
+
+export default router;
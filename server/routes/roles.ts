@@ -0,0 +1,212 @@
+import { Router, Request, Response } from "express";
+import { z } from "zod";
+import { storage } from "../storage";
+import {
+  ALL_PERMISSIONS,
+  BUILT_IN_ROLES,
+  PERMISSIONS,
+  getRolePermissions,
+  holdsAllPermissions,
+  invalidateRolePermissions,
+  isPermission,
+  normalizeRolePermissions,
+  requirePermission
+} from "../lib/permissions";
+
+const router = Router();
+
+const permissionListSchema = z.array(z.string()).refine(
+  names => names.every(name => name === ALL_PERMISSIONS || isPermission(name)),
+  { message: "Unknown permission" }
+);
+
+const roleSchema = z.object({
+  name: z.string().regex(/^[a-z][a-z0-9_]*$/, "Role names use lowercase letters, numbers and underscores").max(50),
+  description: z.string().max(500).optional(),
+  permissions: permissionListSchema,
+});
+
+const roleUpdateSchema = roleSchema.partial();
+
+const userRoleSchema = z.object({
+  role: z.string().min(1),
+});
+
+// Permission catalog and roles with the number of users holding each
+router.get("/roles", requirePermission("roles:manage", "users:manage"), async (_req: Request, res: Response) => {
+  try {
+    const [roles, userCounts] = await Promise.all([storage.getRoles(), storage.countUsersByRole()]);
+
+    res.json({
+      permissions: PERMISSIONS,
+      roles: roles.map(role => ({
+        ...role,
+        permissions: normalizeRolePermissions(role.permissions),
+        builtIn: BUILT_IN_ROLES.includes(role.name),
+        userCount: userCounts[role.name] || 0
+      }))
+    });
+  } catch (error) {
+    console.error("Error fetching roles:", error);
+    res.status(500).json({ message: "Error fetching roles" });
+  }
+});
+
+router.post("/roles", requirePermission("roles:manage"), async (req: Request, res: Response) => {
+  try {
+    const parsed = roleSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid role data", errors: parsed.error.errors });
+    }
+
+    if (await storage.getRoleByName(parsed.data.name)) {
+      return res.status(409).json({ message: `Role ${parsed.data.name} already exists` });
+    }
+    if (!await holdsAllPermissions(req.user!, parsed.data.permissions)) {
+      return res.status(403).json({ message: "You can only grant permissions your own role has" });
+    }
+
+    const role = await storage.createRole(parsed.data);
+    invalidateRolePermissions(role.name);
+    res.status(201).json(role);
+  } catch (error) {
+    console.error("Error creating role:", error);
+    res.status(500).json({ message: "Error creating role" });
+  }
+});
+
+router.patch("/roles/:id", requirePermission("roles:manage"), async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "Invalid role ID format" });
+    }
+
+    const parsed = roleUpdateSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid role data", errors: parsed.error.errors });
+    }
+
+    const role = await storage.getRole(id);
+    if (!role) {
+      return res.status(404).json({ message: "Role not found" });
+    }
+
+    if (parsed.data.name && parsed.data.name !== role.name) {
+      if (BUILT_IN_ROLES.includes(role.name)) {
+        return res.status(400).json({ message: `The ${role.name} role cannot be renamed` });
+      }
+      if ((await storage.countUsersByRole())[role.name]) {
+        return res.status(400).json({ message: "Roles assigned to users cannot be renamed" });
+      }
+    }
+
+    // Editing a role changes what its holders can do, so the editor must
+    // already hold both its current and its new permissions
+    const affected = [...normalizeRolePermissions(role.permissions), ...(parsed.data.permissions || [])];
+    if (!await holdsAllPermissions(req.user!, affected)) {
+      return res.status(403).json({ message: "You can only change roles whose permissions your own role has" });
+    }
+
+    const updatedRole = await storage.updateRole(id, parsed.data);
+    invalidateRolePermissions();
+    res.json(updatedRole);
+  } catch (error) {
+    console.error("Error updating role:", error);
+    res.status(500).json({ message: "Error updating role" });
+  }
+});
+
+router.delete("/roles/:id", requirePermission("roles:manage"), async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "Invalid role ID format" });
+    }
+
+    const role = await storage.getRole(id);
+    if (!role) {
+      return res.status(404).json({ message: "Role not found" });
+    }
+    if (BUILT_IN_ROLES.includes(role.name)) {
+      return res.status(400).json({ message: `The ${role.name} role cannot be deleted` });
+    }
+    if ((await storage.countUsersByRole())[role.name]) {
+      return res.status(400).json({ message: "Reassign the users holding this role before deleting it" });
+    }
+
+    await storage.deleteRole(id);
+    invalidateRolePermissions(role.name);
+    res.status(204).end();
+  } catch (error) {
+    console.error("Error deleting role:", error);
+    res.status(500).json({ message: "Error deleting role" });
+  }
+});
+
+// Users and their roles, without credentials
+router.get("/users", requirePermission("users:manage"), async (_req: Request, res: Response) => {
+  try {
+    const users = await storage.getUsers();
+    res.json(users.map(user => ({
+      id: user.id,
+      username: user.username,
+      email: user.email,
+      fullName: user.fullName,
+      role: user.role,
+      createdAt: user.createdAt
+    })));
+  } catch (error) {
+    console.error("Error fetching users:", error);
+    res.status(500).json({ message: "Error fetching users" });
+  }
+});
+
+router.put("/users/:id/role", requirePermission("users:manage"), async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "Invalid user ID format" });
+    }
+
+    const parsed = userRoleSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid role assignment", errors: parsed.error.errors });
+    }
+
+    if (!await storage.getRoleByName(parsed.data.role)) {
+      return res.status(400).json({ message: `Role ${parsed.data.role} does not exist` });
+    }
+
+    // Only roles within the caller's own permissions can be given, and users
+    // holding more than the caller cannot be reassigned by them
+    if (!await holdsAllPermissions(req.user!, await getRolePermissions(parsed.data.role))) {
+      return res.status(403).json({ message: `You cannot assign the ${parsed.data.role} role` });
+    }
+
+    // Keep at least one administrator who can undo mistakes
+    if (id === req.user!.id && req.user!.role === "admin" && parsed.data.role !== "admin") {
+      return res.status(400).json({ message: "You cannot remove your own admin role" });
+    }
+
+    const target = await storage.getUser(id);
+    if (!target) {
+      return res.status(404).json({ message: "User not found" });
+    }
+    if (!await holdsAllPermissions(req.user!, await getRolePermissions(target.role))) {
+      return res.status(403).json({ message: "You cannot change the role of this user" });
+    }
+
+    const user = await storage.updateUser(id, { role: parsed.data.role });
+    if (!user) {
+      return res.status(404).json({ message: "User not found" });
+    }
+
+    res.json({ id: user.id, username: user.username, role: user.role });
+  } catch (error) {
+    console.error("Error updating user role:", error);
+    res.status(500).json({ message: "Error updating user role" });
+  }
+});
+
+export default router;
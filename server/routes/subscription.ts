@@ -15,6 +15,7 @@ import {
   createOrUpdateUserSubscription,
   getUserSubscription
 } from '../lib/stripe';
+import { getUsageSummary } from '../lib/usageService';
 
 // Define types for our Stripe-like interfaces
 interface CheckoutSessionOptions {
@@ -274,6 +275,21 @@ router.get('/current', ensureAuthenticated, async (req, res) => {
   }
 });
 
+// Get usage and limits for the current billing period
+router.get('/usage', ensureAuthenticated, async (req, res) => {
+  try {
+    const summary = await getUsageSummary(req.user!.id);
+    res.set('Cache-Control', 'private, no-cache');
+    res.json(summary);
+  } catch (error) {
+    logger.error('[subscription] Error fetching usage summary:', error);
+    res.status(500).json({ 
+      error: 'Failed to fetch usage',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
 // Create new subscription or start trial
 router.post('/create', ensureAuthenticated, async (req, res) => {
   try {
@@ -0,0 +1,116 @@
+import { Router, Request, Response } from "express";
+import multer from "multer";
+import path from "path";
+import { z } from "zod";
+import { storage } from "../storage";
+import { requirePermission } from "../lib/permissions";
+import {
+  archivePackSource,
+  directoryPackSource,
+  importTemplatePack,
+  TemplatePackError
+} from "../lib/templatePackImporter";
+
+// Pack archives are read in memory and never written to disk
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 25 * 1024 * 1024, // 25MB limit
+  },
+  fileFilter: (_req, file, callback) => {
+    if (file.originalname.toLowerCase().endsWith('.zip')) {
+      callback(null, true);
+    } else {
+      callback(new Error('Template packs must be uploaded as a .zip archive'));
+    }
+  }
+});
+
+// Directory imports are limited to the pack folders under this root
+const packsRoot = path.resolve(process.env.TEMPLATE_PACKS_DIR || "template-packs");
+
+const importOptionsSchema = z.object({
+  dryRun: z.union([z.boolean(), z.enum(["true", "false"])]).optional(),
+  force: z.union([z.boolean(), z.enum(["true", "false"])]).optional(),
+});
+
+const directoryImportSchema = importOptionsSchema.extend({
+  directory: z.string().regex(/^[a-z0-9][a-z0-9._-]*$/i, "Directory must be the name of a folder in the template packs directory"),
+});
+
+const flag = (value: boolean | string | undefined) => value === true || value === "true";
+
+function handleImportError(error: any, res: Response) {
+  if (error instanceof TemplatePackError) {
+    return res.status(400).json({ message: error.message, issues: error.issues });
+  }
+  if (error.code === "ENOENT") {
+    return res.status(404).json({ message: "Template pack not found" });
+  }
+  console.error("Error importing template pack:", error);
+  res.status(500).json({ message: "Error importing template pack" });
+}
+
+const router = Router();
+
+router.use(requirePermission("templates:publish"));
+
+// List imported template packs
+router.get("/", async (_req: Request, res: Response) => {
+  try {
+    const [packs, templates] = await Promise.all([
+      storage.getTemplatePacks(),
+      storage.getAllDocumentTemplates()
+    ]);
+
+    res.json(packs.map(pack => ({
+      ...pack,
+      templateCount: templates.filter(template => template.packId === pack.id).length
+    })));
+  } catch (error) {
+    console.error("Error fetching template packs:", error);
+    res.status(500).json({ message: "Error fetching template packs" });
+  }
+});
+
+// Import an uploaded pack archive; set dryRun to preview the changes
+router.post("/import", upload.single("pack"), async (req: Request, res: Response) => {
+  try {
+    if (!req.file) {
+      return res.status(400).json({ message: "No pack archive uploaded" });
+    }
+
+    const options = importOptionsSchema.safeParse(req.body);
+    if (!options.success) {
+      return res.status(400).json({ message: "Invalid import options", errors: options.error.errors });
+    }
+
+    const report = await importTemplatePack(
+      await archivePackSource(req.file.buffer, req.file.originalname),
+      { dryRun: flag(options.data.dryRun), force: flag(options.data.force), importedBy: req.user!.id }
+    );
+    res.json(report);
+  } catch (error: any) {
+    handleImportError(error, res);
+  }
+});
+
+// Import a pack from a folder in the server's template packs directory
+router.post("/import-directory", async (req: Request, res: Response) => {
+  try {
+    const parsed = directoryImportSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid import request", errors: parsed.error.errors });
+    }
+
+    const report = await importTemplatePack(
+      directoryPackSource(path.join(packsRoot, parsed.data.directory)),
+      { dryRun: flag(parsed.data.dryRun), force: flag(parsed.data.force), importedBy: req.user!.id }
+    );
+    res.json(report);
+  } catch (error: any) {
+    handleImportError(error, res);
+  }
+});
+
+export default router;
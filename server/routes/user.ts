@@ -2,6 +2,7 @@ import express, { Request, Response } from 'express';
 import { z } from 'zod';
 import { storage } from '../storage';
 import { isAuthenticated } from '../auth';
+import { getRolePermissions } from '../lib/permissions';
 import crypto from 'crypto';
 
 const router = express.Router();
@@ -49,6 +50,17 @@ router.get('/profile', isAuthenticated, async (req: Request, res: Response) => {
   }
 });
 
+// Get the permissions granted by the current user's role
+router.get('/permissions', isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    const permissions = await getRolePermissions(req.user!.role);
+    res.json({ role: req.user!.role, permissions });
+  } catch (error) {
+    console.error('Error fetching user permissions:', error);
+    res.status(500).json({ message: 'Failed to retrieve user permissions' });
+  }
+});
+
 // Update user profile
 router.patch('/profile', isAuthenticated, async (req: Request, res: Response) => {
   try {
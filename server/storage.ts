@@ -1,10 +1,14 @@
 import { 
   users, type User, type InsertUser,
+  roles, type Role, type InsertRole,
+  chatThreads, type ChatThread, type InsertChatThread,
   chatMessages, type ChatMessage, type InsertChatMessage,
   documentTemplates, type DocumentTemplate, type InsertDocumentTemplate,
+  templatePacks, type TemplatePack, type InsertTemplatePack,
   generatedDocuments, type GeneratedDocument, type InsertGeneratedDocument,
   researchQueries, type ResearchQuery, type InsertResearchQuery,
   contractAnalyses, type ContractAnalysis, type InsertContractAnalysis,
+  contractMatters, type ContractMatter, type InsertContractMatter,
   complianceChecks, type ComplianceCheck, type InsertComplianceCheck,
   disputes, type Dispute, type InsertDispute,
   disputeParties, type DisputeParty, type InsertDisputeParty,
@@ -17,6 +21,7 @@ import {
   provincialInfo, type ProvincialInfo, type InsertProvincialInfo,
   proceduralGuides, type ProceduralGuide, type InsertProceduralGuide,
   escalatedQuestions, type EscalatedQuestion, type InsertEscalatedQuestion,
+  escalationNotes, type EscalationNote, type InsertEscalationNote,
   conversationContexts, type ConversationContext, type InsertConversationContext,
   caseOutcomePredictions, type CaseOutcomePrediction, type InsertCaseOutcomePrediction,
   userFeedback, type UserFeedback, type InsertUserFeedback,
@@ -24,17 +29,24 @@ import {
   documentComments, type DocumentComment, type InsertDocumentComment,
   settlementProposals, type SettlementProposal, type InsertSettlementProposal,
   digitalSignatures, type DigitalSignature, type InsertDigitalSignature,
+  signatureAuditEvents, type SignatureAuditEvent, type InsertSignatureAuditEvent,
+  docusealSubmissions, type DocusealSubmission, type InsertDocusealSubmission,
+  docusealWebhookEvents,
   disputeActivities, type DisputeActivity, type InsertDisputeActivity,
   passwordResetTokens, type PasswordResetToken, type InsertPasswordResetToken,
   jurisdictionComparisons, type JurisdictionComparison, type InsertJurisdictionComparison,
   provincialJurisdictions, type ProvincialJurisdiction, type InsertProvincialJurisdiction,
-  legalRequirements, type LegalRequirement, type InsertLegalRequirement
+  legalRequirements, type LegalRequirement, type InsertLegalRequirement,
+  userNotifications, type UserNotification, type InsertUserNotification,
+  costRateTables, type CostRateTable, type InsertCostRateTable,
+  costEstimates, type CostEstimate, type InsertCostEstimate
 } from "@shared/schema";
 import { db } from './db';
-import { eq, and, desc, inArray, sql } from 'drizzle-orm';
+import { eq, and, desc, gt, lte, inArray, isNull, isNotNull, sql } from 'drizzle-orm';
 import session from 'express-session';
 import connectPg from 'connect-pg-simple';
 import { type json as Json } from 'drizzle-orm/pg-core';
+import { getBlobStorage, storeBlob, type BlobObject, type BlobRange, type BlobSource, type StoredBlob } from './lib/blobStorage';
 
 // Interface for storage operations
 export interface IStorage {
@@ -51,6 +63,16 @@ export interface IStorage {
   createUser(user: InsertUser): Promise<User>;
   updateUser(id: number, userData: Partial<Omit<User, "id">>): Promise<User | undefined>;
   updateStripeCustomerId(userId: number, stripeCustomerId: string): Promise<User | undefined>;
+  getUsers(): Promise<User[]>;
+  
+  // Role operations
+  getRoles(): Promise<Role[]>;
+  getRole(id: number): Promise<Role | undefined>;
+  getRoleByName(name: string): Promise<Role | undefined>;
+  createRole(role: InsertRole): Promise<Role>;
+  updateRole(id: number, role: Partial<InsertRole>): Promise<Role | undefined>;
+  deleteRole(id: number): Promise<boolean>;
+  countUsersByRole(): Promise<Record<string, number>>;
   
   // Password reset token operations
   createPasswordResetToken(userId: number, token: string, expiresAt: Date): Promise<PasswordResetToken>;
@@ -63,7 +85,8 @@ export interface IStorage {
   getSharedDocumentById(documentId: number): Promise<SharedDocument | undefined>;
   createSharedDocument(document: InsertSharedDocument): Promise<SharedDocument>;
   updateSharedDocument(id: number, documentData: Partial<SharedDocument>): Promise<SharedDocument | undefined>;
-  saveDocumentFile(fileBuffer: Buffer, fileType: string): Promise<string>;
+  saveDocumentFile(file: BlobSource, fileType: string): Promise<StoredBlob>;
+  openDocumentFile(document: SharedDocument, range?: BlobRange): Promise<BlobObject | null>;
   userHasDocumentAccess(userId: number, document: SharedDocument): Promise<boolean>;
   
   // Document Comments
@@ -76,11 +99,30 @@ export interface IStorage {
   getSettlementProposalById(proposalId: number): Promise<SettlementProposal | undefined>;
   createSettlementProposal(proposal: InsertSettlementProposal): Promise<SettlementProposal>;
   updateSettlementProposal(id: number, proposalData: Partial<SettlementProposal>): Promise<SettlementProposal | undefined>;
+  createCounterProposal(parentId: number, openStatuses: string[], proposal: InsertSettlementProposal): Promise<SettlementProposal | undefined>;
+  lapseSettlementProposals(expiredBefore: Date, openStatuses: string[], disputeId?: number): Promise<SettlementProposal[]>;
   
   // Digital Signatures
   getDigitalSignatures(proposalId: number): Promise<DigitalSignature[]>;
   createDigitalSignature(signature: InsertDigitalSignature): Promise<DigitalSignature>;
   verifyDigitalSignature(id: number, verificationCode: string): Promise<DigitalSignature | undefined>;
+  getDigitalSignature(id: number): Promise<DigitalSignature | undefined>;
+  getDigitalSignatureByVerificationCode(verificationCode: string): Promise<DigitalSignature | undefined>;
+  updateDigitalSignature(id: number, data: Partial<DigitalSignature>): Promise<DigitalSignature | undefined>;
+  getSignatureAuditEvents(proposalId: number): Promise<SignatureAuditEvent[]>;
+  appendSignatureAuditEvent(
+    event: Omit<InsertSignatureAuditEvent, 'id' | 'previousHash' | 'hash'> & { createdAt: Date },
+    hashEvent: (previousHash: string | null) => string
+  ): Promise<SignatureAuditEvent>;
+  getDigitalSignatureByDocusealSigner(submissionId: string, signerId: string): Promise<DigitalSignature | undefined>;
+  
+  // DocuSeal Submissions
+  getDocusealSubmission(submissionId: string): Promise<DocusealSubmission | undefined>;
+  getDocusealSubmissionsBySource(source: { proposalId?: number; generatedDocumentId?: number }): Promise<DocusealSubmission[]>;
+  createDocusealSubmission(submission: InsertDocusealSubmission): Promise<DocusealSubmission>;
+  updateDocusealSubmission(id: number, data: Partial<DocusealSubmission>): Promise<DocusealSubmission | undefined>;
+  recordDocusealWebhookEvent(eventKey: string, eventType: string): Promise<boolean>;
+  forgetDocusealWebhookEvent(eventKey: string): Promise<void>;
   
   // Activity Tracking
   createDisputeActivity(activity: InsertDisputeActivity): Promise<DisputeActivity>;
@@ -95,13 +137,30 @@ export interface IStorage {
   
   // Chat message operations
   getChatMessagesByUserId(userId: number): Promise<ChatMessage[]>;
+  getChatMessagesByThreadId(threadId: number, options?: { afterId?: number | null }): Promise<ChatMessage[]>;
   createChatMessage(message: InsertChatMessage): Promise<ChatMessage>;
   
+  // Chat thread operations
+  getChatThreadsByUserId(userId: number, options?: { search?: string; archived?: boolean }): Promise<ChatThread[]>;
+  getChatThread(id: number): Promise<ChatThread | undefined>;
+  createChatThread(thread: InsertChatThread): Promise<ChatThread>;
+  updateChatThread(id: number, updates: Partial<ChatThread>): Promise<ChatThread | undefined>;
+  
   // Document template operations
   getDocumentTemplates(language?: string): Promise<DocumentTemplate[]>;
   getDocumentTemplatesByType(templateType: string, language?: string): Promise<DocumentTemplate[]>;
   getDocumentTemplate(id: number): Promise<DocumentTemplate | undefined>;
   createDocumentTemplate(template: InsertDocumentTemplate): Promise<DocumentTemplate>;
+  getAllDocumentTemplates(): Promise<DocumentTemplate[]>;
+  updateDocumentTemplate(id: number, template: Partial<InsertDocumentTemplate>): Promise<DocumentTemplate | undefined>;
+  
+  // Template pack operations
+  getTemplatePacks(): Promise<TemplatePack[]>;
+  getTemplatePackByKey(packKey: string): Promise<TemplatePack | undefined>;
+  applyTemplatePackImport(
+    pack: InsertTemplatePack,
+    changes: { create: InsertDocumentTemplate[]; update: { id: number; template: Partial<InsertDocumentTemplate> }[] }
+  ): Promise<TemplatePack>;
   
   // Generated document operations
   getGeneratedDocumentsByUserId(userId: number): Promise<GeneratedDocument[]>;
@@ -117,6 +176,12 @@ export interface IStorage {
   getContractAnalysis(id: number): Promise<ContractAnalysis | undefined>;
   createContractAnalysis(analysis: InsertContractAnalysis): Promise<ContractAnalysis>;
   
+  // Contract matter (versioned analysis) operations
+  getContractMattersByUserId(userId: number): Promise<ContractMatter[]>;
+  getContractMatter(id: number): Promise<ContractMatter | undefined>;
+  getContractAnalysesByMatterId(matterId: number): Promise<ContractAnalysis[]>;
+  createContractAnalysisVersion(analysis: InsertContractAnalysis, matterId?: number): Promise<ContractAnalysis>;
+  
   // Compliance check operations
   getComplianceChecksByUserId(userId: number): Promise<ComplianceCheck[]>;
   getComplianceCheck(id: number): Promise<ComplianceCheck | undefined>;
@@ -149,6 +214,7 @@ export interface IStorage {
   // Mediation message operations
   getMediationMessagesBySessionId(sessionId: number): Promise<MediationMessage[]>;
   createMediationMessage(message: InsertMediationMessage): Promise<MediationMessage>;
+  markMediationMessagesRead(sessionId: number, userId: number, messageIds: number[]): Promise<number[]>;
   
   // Saved citations operations
   getSavedCitationsByUserId(userId: number): Promise<SavedCitation[]>;
@@ -176,7 +242,6 @@ export interface IStorage {
   getDomainKnowledge(id: number): Promise<DomainKnowledge | undefined>;
   createDomainKnowledge(knowledge: InsertDomainKnowledge): Promise<DomainKnowledge>;
   updateDomainKnowledge(id: number, updates: Partial<DomainKnowledge>): Promise<DomainKnowledge | undefined>;
-  searchDomainKnowledge(query: string, domainId?: number, language?: string): Promise<DomainKnowledge[]>;
   
   // Procedural guide operations (Phase 3)
   getProceduralGuidesByDomainId(domainId: number, language?: string): Promise<ProceduralGuide[]>;
@@ -190,9 +255,14 @@ export interface IStorage {
   createEscalatedQuestion(question: InsertEscalatedQuestion): Promise<EscalatedQuestion>;
   updateEscalatedQuestion(id: number, updates: Partial<EscalatedQuestion>): Promise<EscalatedQuestion | undefined>;
   getEscalatedQuestionsByStatus(status: string): Promise<EscalatedQuestion[]>;
+  getEscalatedQuestionQueue(options?: { statuses?: string[]; assignedTo?: string | null }): Promise<EscalatedQuestion[]>;
+  getEscalationReviewerLoad(): Promise<Record<string, { open: number; lastAssignedAt: Date | null }>>;
+  getEscalationNotes(questionId: number): Promise<EscalationNote[]>;
+  createEscalationNote(note: InsertEscalationNote): Promise<EscalationNote>;
   
   // Conversation context operations (Phase 3)
   getConversationContextByUserId(userId: number): Promise<ConversationContext | undefined>;
+  getConversationContextByThreadId(threadId: number): Promise<ConversationContext | undefined>;
   createConversationContext(context: InsertConversationContext): Promise<ConversationContext>;
   updateConversationContext(id: number, updates: Partial<ConversationContext>): Promise<ConversationContext | undefined>;
   
@@ -201,6 +271,26 @@ export interface IStorage {
   getCaseOutcomePrediction(id: number): Promise<CaseOutcomePrediction | undefined>;
   createCaseOutcomePrediction(prediction: InsertCaseOutcomePrediction): Promise<CaseOutcomePrediction>;
   updateCaseOutcomePrediction(id: number, updates: Partial<CaseOutcomePrediction>): Promise<CaseOutcomePrediction | undefined>;
+  getCaseOutcomePredictionsByStatus(statuses: string[]): Promise<CaseOutcomePrediction[]>;
+  
+  // Notification operations
+  createNotification(notification: InsertUserNotification): Promise<UserNotification>;
+  getNotificationsByUserId(userId: number, options?: { unreadOnly?: boolean; limit?: number }): Promise<UserNotification[]>;
+  countUnreadNotifications(userId: number): Promise<number>;
+  markNotificationRead(id: number, userId: number): Promise<UserNotification | undefined>;
+  markAllNotificationsRead(userId: number): Promise<number>;
+  
+  // Cost estimation operations
+  getCostRateTables(): Promise<CostRateTable[]>;
+  getCostRateTable(id: number): Promise<CostRateTable | undefined>;
+  getPublishedCostRateTable(): Promise<CostRateTable | undefined>;
+  createCostRateTable(table: Omit<InsertCostRateTable, 'version'>): Promise<CostRateTable>;
+  updateCostRateTable(id: number, updates: Partial<CostRateTable>): Promise<CostRateTable | undefined>;
+  publishCostRateTable(id: number, userId: number | null): Promise<CostRateTable | undefined>;
+  createCostEstimate(estimate: InsertCostEstimate): Promise<CostEstimate>;
+  getCostEstimatesByUserId(userId: number): Promise<CostEstimate[]>;
+  getCostEstimate(id: number): Promise<CostEstimate | undefined>;
+  deleteCostEstimate(id: number, userId: number): Promise<boolean>;
   
   // Initialize methods
   initializeDefaultDocumentTemplates(): Promise<void>;
@@ -293,6 +383,63 @@ export class DatabaseStorage implements IStorage {
     return updatedUser;
   }
   
+  async getUsers(): Promise<User[]> {
+    return await db
+      .select()
+      .from(users)
+      .orderBy(users.username);
+  }
+  
+  // Role operations
+  async getRoles(): Promise<Role[]> {
+    return await db
+      .select()
+      .from(roles)
+      .orderBy(roles.name);
+  }
+  
+  async getRole(id: number): Promise<Role | undefined> {
+    const [role] = await db.select().from(roles).where(eq(roles.id, id));
+    return role;
+  }
+  
+  async getRoleByName(name: string): Promise<Role | undefined> {
+    const [role] = await db.select().from(roles).where(eq(roles.name, name));
+    return role;
+  }
+  
+  async createRole(role: InsertRole): Promise<Role> {
+    const [newRole] = await db.insert(roles).values(role).returning();
+    return newRole;
+  }
+  
+  async updateRole(id: number, role: Partial<InsertRole>): Promise<Role | undefined> {
+    const [updatedRole] = await db
+      .update(roles)
+      .set({ ...role, updatedAt: new Date() })
+      .where(eq(roles.id, id))
+      .returning();
+    return updatedRole;
+  }
+  
+  async deleteRole(id: number): Promise<boolean> {
+    const result = await db
+      .delete(roles)
+      .where(eq(roles.id, id))
+      .returning({ id: roles.id });
+    return result.length > 0;
+  }
+  
+  async countUsersByRole(): Promise<Record<string, number>> {
+    const rows = await db
+      .select({ role: users.role, count: sql<number>`count(*)` })
+      .from(users)
+      .groupBy(users.role);
+    const counts: Record<string, number> = {};
+    rows.forEach(row => { counts[row.role] = Number(row.count); });
+    return counts;
+  }
+  
   async updateUserStripeInfo(userId: number, stripeInfo: { stripeCustomerId: string, stripeSubscriptionId: string }): Promise<User | undefined> {
     // Update user with Stripe info (customer ID and subscription ID)
     // Use type assertion to bypass type checking since the schema supports these fields
@@ -345,14 +492,80 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(chatMessages.timestamp));
   }
 
+  async getChatMessagesByThreadId(threadId: number, options: { afterId?: number | null } = {}): Promise<ChatMessage[]> {
+    const conditions = [eq(chatMessages.threadId, threadId)];
+    if (options.afterId) {
+      conditions.push(gt(chatMessages.id, options.afterId));
+    }
+
+    return await db
+      .select()
+      .from(chatMessages)
+      .where(and(...conditions))
+      .orderBy(chatMessages.id);
+  }
+
   async createChatMessage(message: InsertChatMessage): Promise<ChatMessage> {
     const [newMessage] = await db
       .insert(chatMessages)
       .values(message)
       .returning();
+    if (newMessage.threadId) {
+      await db
+        .update(chatThreads)
+        .set({ lastMessageAt: newMessage.timestamp || new Date() })
+        .where(eq(chatThreads.id, newMessage.threadId));
+    }
     return newMessage;
   }
 
+  // Chat thread operations
+  async getChatThreadsByUserId(userId: number, options: { search?: string; archived?: boolean } = {}): Promise<ChatThread[]> {
+    const conditions = [eq(chatThreads.userId, userId)];
+    if (options.archived !== undefined) {
+      conditions.push(options.archived ? isNotNull(chatThreads.archivedAt) : isNull(chatThreads.archivedAt));
+    }
+    if (options.search) {
+      // Matches the title or any message in the thread
+      const pattern = `%${options.search.replace(/[\\%_]/g, char => `\\${char}`)}%`;
+      conditions.push(sql`(${chatThreads.title} ILIKE ${pattern} OR EXISTS (
+        SELECT 1 FROM ${chatMessages}
+        WHERE ${chatMessages.threadId} = ${chatThreads.id} AND ${chatMessages.content} ILIKE ${pattern}
+      ))`);
+    }
+
+    return await db
+      .select()
+      .from(chatThreads)
+      .where(and(...conditions))
+      .orderBy(desc(sql`coalesce(${chatThreads.lastMessageAt}, ${chatThreads.createdAt})`));
+  }
+
+  async getChatThread(id: number): Promise<ChatThread | undefined> {
+    const [thread] = await db
+      .select()
+      .from(chatThreads)
+      .where(eq(chatThreads.id, id));
+    return thread;
+  }
+
+  async createChatThread(thread: InsertChatThread): Promise<ChatThread> {
+    const [newThread] = await db
+      .insert(chatThreads)
+      .values(thread)
+      .returning();
+    return newThread;
+  }
+
+  async updateChatThread(id: number, updates: Partial<ChatThread>): Promise<ChatThread | undefined> {
+    const [updatedThread] = await db
+      .update(chatThreads)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(chatThreads.id, id))
+      .returning();
+    return updatedThread;
+  }
+
   // Document template operations
   async getDocumentTemplates(language: string = 'en'): Promise<DocumentTemplate[]> {
     return await db
@@ -391,6 +604,74 @@ export class DatabaseStorage implements IStorage {
     return newTemplate;
   }
 
+  async getAllDocumentTemplates(): Promise<DocumentTemplate[]> {
+    return await db
+      .select()
+      .from(documentTemplates)
+      .orderBy(documentTemplates.id);
+  }
+
+  async updateDocumentTemplate(id: number, template: Partial<InsertDocumentTemplate>): Promise<DocumentTemplate | undefined> {
+    const [updatedTemplate] = await db
+      .update(documentTemplates)
+      .set({ ...template, updatedAt: new Date() })
+      .where(eq(documentTemplates.id, id))
+      .returning();
+    return updatedTemplate;
+  }
+
+  // Template pack operations
+  async getTemplatePacks(): Promise<TemplatePack[]> {
+    return await db
+      .select()
+      .from(templatePacks)
+      .orderBy(templatePacks.packKey);
+  }
+
+  async getTemplatePackByKey(packKey: string): Promise<TemplatePack | undefined> {
+    const [pack] = await db
+      .select()
+      .from(templatePacks)
+      .where(eq(templatePacks.packKey, packKey));
+    return pack;
+  }
+
+  /**
+   * Record a pack import in one transaction: upsert the pack row by its key,
+   * then insert new templates and update the ones the pack already owns or
+   * has adopted, so a failed import leaves the previous version in place
+   */
+  async applyTemplatePackImport(
+    pack: InsertTemplatePack,
+    changes: { create: InsertDocumentTemplate[]; update: { id: number; template: Partial<InsertDocumentTemplate> }[] }
+  ): Promise<TemplatePack> {
+    return await db.transaction(async (tx) => {
+      const [savedPack] = await tx
+        .insert(templatePacks)
+        .values(pack)
+        .onConflictDoUpdate({
+          target: templatePacks.packKey,
+          set: { ...pack, importedAt: new Date(), updatedAt: new Date() }
+        })
+        .returning();
+
+      if (changes.create.length > 0) {
+        await tx
+          .insert(documentTemplates)
+          .values(changes.create.map((template) => ({ ...template, packId: savedPack.id })));
+      }
+
+      for (const { id, template } of changes.update) {
+        await tx
+          .update(documentTemplates)
+          .set({ ...template, packId: savedPack.id, updatedAt: new Date() })
+          .where(eq(documentTemplates.id, id));
+      }
+
+      return savedPack;
+    });
+  }
+
   // Generated document operations
   async getGeneratedDocumentsByUserId(userId: number): Promise<GeneratedDocument[]> {
     return await db
@@ -458,6 +739,79 @@ export class DatabaseStorage implements IStorage {
     return newAnalysis;
   }
 
+  // Contract matter operations
+  async getContractMattersByUserId(userId: number): Promise<ContractMatter[]> {
+    return await db
+      .select()
+      .from(contractMatters)
+      .where(eq(contractMatters.userId, userId))
+      .orderBy(desc(contractMatters.updatedAt));
+  }
+
+  async getContractMatter(id: number): Promise<ContractMatter | undefined> {
+    const [matter] = await db
+      .select()
+      .from(contractMatters)
+      .where(eq(contractMatters.id, id));
+    return matter;
+  }
+
+  async getContractAnalysesByMatterId(matterId: number): Promise<ContractAnalysis[]> {
+    return await db
+      .select()
+      .from(contractAnalyses)
+      .where(eq(contractAnalyses.matterId, matterId))
+      .orderBy(contractAnalyses.version);
+  }
+
+  /**
+   * Save an analysis as the next version of a matter, or as version 1 of a
+   * new matter named after the contract when no matter is given. The matter
+   * row is locked so concurrent uploads get distinct version numbers.
+   */
+  async createContractAnalysisVersion(analysis: InsertContractAnalysis, matterId?: number): Promise<ContractAnalysis> {
+    return await db.transaction(async (tx) => {
+      let matter: ContractMatter | undefined;
+      if (matterId) {
+        [matter] = await tx
+          .select()
+          .from(contractMatters)
+          .where(eq(contractMatters.id, matterId))
+          .for('update');
+        if (!matter) {
+          throw new Error(`Contract matter ${matterId} not found`);
+        }
+      } else {
+        [matter] = await tx
+          .insert(contractMatters)
+          .values({
+            userId: analysis.userId!,
+            title: analysis.contractTitle,
+            jurisdiction: analysis.jurisdiction,
+            contractType: analysis.contractType
+          })
+          .returning();
+      }
+
+      const [{ latest }] = await tx
+        .select({ latest: sql<number>`COALESCE(MAX(${contractAnalyses.version}), 0)` })
+        .from(contractAnalyses)
+        .where(eq(contractAnalyses.matterId, matter.id));
+
+      const [newAnalysis] = await tx
+        .insert(contractAnalyses)
+        .values({ ...analysis, matterId: matter.id, version: Number(latest) + 1 })
+        .returning();
+
+      await tx
+        .update(contractMatters)
+        .set({ updatedAt: new Date() })
+        .where(eq(contractMatters.id, matter.id));
+
+      return newAnalysis;
+    });
+  }
+
   // Compliance check operations
   async getComplianceChecksByUserId(userId: number): Promise<ComplianceCheck[]> {
     return await db
@@ -656,6 +1010,30 @@ export class DatabaseStorage implements IStorage {
     return newMessage;
   }
 
+  async markMediationMessagesRead(sessionId: number, userId: number, messageIds: number[]): Promise<number[]> {
+    if (messageIds.length === 0) {
+      return [];
+    }
+
+    // Append the reader to read_by only where they are not already listed,
+    // so repeated receipts are no-ops and the returned ids are the new reads
+    const reader = JSON.stringify([userId]);
+    const updated = await db
+      .update(mediationMessages)
+      .set({
+        readBy: sql`coalesce(${mediationMessages.readBy}, '[]'::jsonb) || ${reader}::jsonb`
+      })
+      .where(
+        and(
+          eq(mediationMessages.sessionId, sessionId),
+          inArray(mediationMessages.id, messageIds),
+          sql`not (coalesce(${mediationMessages.readBy}, '[]'::jsonb) @> ${reader}::jsonb)`
+        )
+      )
+      .returning({ id: mediationMessages.id });
+    return updated.map(row => row.id);
+  }
+
   // Saved citations operations
   async getSavedCitationsByUserId(userId: number): Promise<SavedCitation[]> {
     return await db
@@ -811,33 +1189,6 @@ export class DatabaseStorage implements IStorage {
     return updatedKnowledge;
   }
 
-  async searchDomainKnowledge(query: string, domainId?: number, language: string = 'en'): Promise<DomainKnowledge[]> {
-    let whereClause;
-    
-    if (domainId) {
-      whereClause = and(
-        eq(domainKnowledge.language, language),
-        eq(domainKnowledge.domainId, domainId)
-      );
-    } else {
-      whereClause = eq(domainKnowledge.language, language);
-    }
-    
-    // Basic search implementation
-    // In a production environment, this would use full-text search capabilities
-    const results = await db
-      .select()
-      .from(domainKnowledge)
-      .where(whereClause);
-    
-    // Filter results that contain the query in question or answer
-    // This is a simple approach - a production system would use proper text search
-    return results.filter(item => 
-      item.question.toLowerCase().includes(query.toLowerCase()) || 
-      item.answer.toLowerCase().includes(query.toLowerCase())
-    ).sort((a, b) => (b.relevanceScore || 0) - (a.relevanceScore || 0));
-  }
-
   // Procedural guides operations (Phase 3)
   async getProceduralGuidesByDomainId(domainId: number, language: string = 'en'): Promise<ProceduralGuide[]> {
     return await db
@@ -919,17 +1270,81 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(escalatedQuestions.createdAt));
   }
 
+  // Most pressing first: earliest SLA deadline, then oldest. assignedTo null means unassigned.
+  async getEscalatedQuestionQueue(options: { statuses?: string[]; assignedTo?: string | null } = {}): Promise<EscalatedQuestion[]> {
+    const conditions = [];
+    if (options.statuses && options.statuses.length > 0) {
+      conditions.push(inArray(escalatedQuestions.status, options.statuses));
+    }
+    if (options.assignedTo === null) {
+      conditions.push(isNull(escalatedQuestions.assignedTo));
+    } else if (options.assignedTo !== undefined) {
+      conditions.push(eq(escalatedQuestions.assignedTo, options.assignedTo));
+    }
+    return await db
+      .select()
+      .from(escalatedQuestions)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(sql`${escalatedQuestions.dueAt} ASC NULLS LAST`, escalatedQuestions.createdAt);
+  }
+
+  // Open questions and the latest assignment for each reviewer, keyed by reviewer ID
+  async getEscalationReviewerLoad(): Promise<Record<string, { open: number; lastAssignedAt: Date | null }>> {
+    const rows = await db
+      .select({
+        assignedTo: escalatedQuestions.assignedTo,
+        open: sql<number>`count(*) FILTER (WHERE ${escalatedQuestions.status} IN ('pending', 'assigned'))::int`,
+        lastAssignedAt: sql<Date | null>`max(${escalatedQuestions.assignedAt})`,
+      })
+      .from(escalatedQuestions)
+      .where(isNotNull(escalatedQuestions.assignedTo))
+      .groupBy(escalatedQuestions.assignedTo);
+
+    const load: Record<string, { open: number; lastAssignedAt: Date | null }> = {};
+    rows.forEach(row => {
+      load[row.assignedTo!] = {
+        open: Number(row.open),
+        lastAssignedAt: row.lastAssignedAt ? new Date(row.lastAssignedAt) : null,
+      };
+    });
+    return load;
+  }
+
+  async getEscalationNotes(questionId: number): Promise<EscalationNote[]> {
+    return await db
+      .select()
+      .from(escalationNotes)
+      .where(eq(escalationNotes.questionId, questionId))
+      .orderBy(escalationNotes.createdAt);
+  }
+
+  async createEscalationNote(note: InsertEscalationNote): Promise<EscalationNote> {
+    const [newNote] = await db
+      .insert(escalationNotes)
+      .values(note)
+      .returning();
+    return newNote;
+  }
+
   // Conversation context operations (Phase 3)
   async getConversationContextByUserId(userId: number): Promise<ConversationContext | undefined> {
     const [context] = await db
       .select()
       .from(conversationContexts)
-      .where(eq(conversationContexts.userId, userId))
+      .where(and(eq(conversationContexts.userId, userId), isNull(conversationContexts.threadId)))
       .orderBy(desc(conversationContexts.updatedAt))
       .limit(1);
     return context;
   }
 
+  async getConversationContextByThreadId(threadId: number): Promise<ConversationContext | undefined> {
+    const [context] = await db
+      .select()
+      .from(conversationContexts)
+      .where(eq(conversationContexts.threadId, threadId));
+    return context;
+  }
+
   async createConversationContext(context: InsertConversationContext): Promise<ConversationContext> {
     const [newContext] = await db
       .insert(conversationContexts)
@@ -981,6 +1396,169 @@ export class DatabaseStorage implements IStorage {
     return updatedPrediction;
   }
 
+  async getCaseOutcomePredictionsByStatus(statuses: string[]): Promise<CaseOutcomePrediction[]> {
+    return await db
+      .select()
+      .from(caseOutcomePredictions)
+      .where(inArray(caseOutcomePredictions.status, statuses))
+      .orderBy(caseOutcomePredictions.createdAt);
+  }
+
+  // Notification operations
+  async createNotification(notification: InsertUserNotification): Promise<UserNotification> {
+    const [newNotification] = await db
+      .insert(userNotifications)
+      .values(notification)
+      .returning();
+    return newNotification;
+  }
+
+  async getNotificationsByUserId(userId: number, options: { unreadOnly?: boolean; limit?: number } = {}): Promise<UserNotification[]> {
+    const conditions = [eq(userNotifications.userId, userId)];
+    if (options.unreadOnly) {
+      conditions.push(isNull(userNotifications.readAt));
+    }
+
+    return await db
+      .select()
+      .from(userNotifications)
+      .where(and(...conditions))
+      .orderBy(desc(userNotifications.createdAt))
+      .limit(options.limit || 50);
+  }
+
+  async countUnreadNotifications(userId: number): Promise<number> {
+    const [result] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(userNotifications)
+      .where(and(eq(userNotifications.userId, userId), isNull(userNotifications.readAt)));
+    return result?.count || 0;
+  }
+
+  async markNotificationRead(id: number, userId: number): Promise<UserNotification | undefined> {
+    const [notification] = await db
+      .update(userNotifications)
+      .set({ readAt: sql`coalesce(${userNotifications.readAt}, now())` })
+      .where(and(eq(userNotifications.id, id), eq(userNotifications.userId, userId)))
+      .returning();
+    return notification;
+  }
+
+  async markAllNotificationsRead(userId: number): Promise<number> {
+    const updated = await db
+      .update(userNotifications)
+      .set({ readAt: new Date() })
+      .where(and(eq(userNotifications.userId, userId), isNull(userNotifications.readAt)))
+      .returning({ id: userNotifications.id });
+    return updated.length;
+  }
+
+  // Cost estimation operations
+  async getCostRateTables(): Promise<CostRateTable[]> {
+    return await db
+      .select()
+      .from(costRateTables)
+      .orderBy(desc(costRateTables.version));
+  }
+
+  async getCostRateTable(id: number): Promise<CostRateTable | undefined> {
+    const [table] = await db
+      .select()
+      .from(costRateTables)
+      .where(eq(costRateTables.id, id));
+    return table;
+  }
+
+  async getPublishedCostRateTable(): Promise<CostRateTable | undefined> {
+    const [table] = await db
+      .select()
+      .from(costRateTables)
+      .where(eq(costRateTables.status, 'published'))
+      .orderBy(desc(costRateTables.version))
+      .limit(1);
+    return table;
+  }
+
+  // Versions are numbered in the order tables are created
+  async createCostRateTable(table: Omit<InsertCostRateTable, 'version'>): Promise<CostRateTable> {
+    return await db.transaction(async (tx) => {
+      await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext('cost_rate_tables'))`);
+      const [latest] = await tx
+        .select({ version: costRateTables.version })
+        .from(costRateTables)
+        .orderBy(desc(costRateTables.version))
+        .limit(1);
+      const [created] = await tx
+        .insert(costRateTables)
+        .values({ ...table, version: latest ? latest.version + 1 : 1 })
+        .returning();
+      return created;
+    });
+  }
+
+  async updateCostRateTable(id: number, updates: Partial<CostRateTable>): Promise<CostRateTable | undefined> {
+    const [table] = await db
+      .update(costRateTables)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(costRateTables.id, id))
+      .returning();
+    return table;
+  }
+
+  // Publishes a draft and archives the version it replaces; undefined if the
+  // table is not a draft
+  async publishCostRateTable(id: number, userId: number | null): Promise<CostRateTable | undefined> {
+    return await db.transaction(async (tx) => {
+      await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext('cost_rate_tables'))`);
+      const now = new Date();
+      const [published] = await tx
+        .update(costRateTables)
+        .set({ status: 'published', publishedBy: userId, publishedAt: now, updatedAt: now })
+        .where(and(eq(costRateTables.id, id), eq(costRateTables.status, 'draft')))
+        .returning();
+      if (!published) {
+        return undefined;
+      }
+      await tx
+        .update(costRateTables)
+        .set({ status: 'archived', updatedAt: now })
+        .where(and(eq(costRateTables.status, 'published'), sql`${costRateTables.id} <> ${id}`));
+      return published;
+    });
+  }
+
+  async createCostEstimate(estimate: InsertCostEstimate): Promise<CostEstimate> {
+    const [created] = await db
+      .insert(costEstimates)
+      .values(estimate)
+      .returning();
+    return created;
+  }
+
+  async getCostEstimatesByUserId(userId: number): Promise<CostEstimate[]> {
+    return await db
+      .select()
+      .from(costEstimates)
+      .where(eq(costEstimates.userId, userId))
+      .orderBy(desc(costEstimates.createdAt));
+  }
+
+  async getCostEstimate(id: number): Promise<CostEstimate | undefined> {
+    const [estimate] = await db
+      .select()
+      .from(costEstimates)
+      .where(eq(costEstimates.id, id));
+    return estimate;
+  }
+
+  async deleteCostEstimate(id: number, userId: number): Promise<boolean> {
+    const deleted = await db
+      .delete(costEstimates)
+      .where(and(eq(costEstimates.id, id), eq(costEstimates.userId, userId)))
+      .returning({ id: costEstimates.id });
+    return deleted.length > 0;
+  }
+
   // Initialize methods
   async initializeDefaultDocumentTemplates(): Promise<void> {
     // Check if templates already exist
@@ -1740,11 +2318,14 @@ export class DatabaseStorage implements IStorage {
     return updatedDocument;
   }
   
-  async saveDocumentFile(fileBuffer: Buffer, fileType: string): Promise<string> {
-    // In a production environment, this would upload to cloud storage
-    // For now, we'll just create a unique identifier and pretend we saved it
-    const fileId = `file_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
-    return `https://storage.example.com/documents/${fileId}`;
+  async saveDocumentFile(file: BlobSource, fileType: string): Promise<StoredBlob> {
+    return await storeBlob(file, fileType);
+  }
+  
+  async openDocumentFile(document: SharedDocument, range?: BlobRange): Promise<BlobObject | null> {
+    // Documents uploaded before blob storage only have a placeholder URL
+    if (!document.storageKey) return null;
+    return await getBlobStorage().get(document.storageKey, range);
   }
   
   async userHasDocumentAccess(userId: number, document: SharedDocument): Promise<boolean> {
@@ -1838,6 +2419,45 @@ export class DatabaseStorage implements IStorage {
       .returning();
     return updatedProposal;
   }
+
+  // Marks the parent countered and adds the counter-proposal in one step, or
+  // returns undefined if the parent is no longer open
+  async createCounterProposal(parentId: number, openStatuses: string[], proposal: InsertSettlementProposal): Promise<SettlementProposal | undefined> {
+    return await db.transaction(async (tx) => {
+      const [parent] = await tx
+        .update(settlementProposals)
+        .set({ status: 'countered', updatedAt: new Date() })
+        .where(and(
+          eq(settlementProposals.id, parentId),
+          inArray(settlementProposals.status, openStatuses)
+        ))
+        .returning();
+      if (!parent) {
+        return undefined;
+      }
+      const [counter] = await tx
+        .insert(settlementProposals)
+        .values({ ...proposal, parentProposalId: parent.id, round: parent.round + 1 })
+        .returning();
+      return counter;
+    });
+  }
+
+  async lapseSettlementProposals(expiredBefore: Date, openStatuses: string[], disputeId?: number): Promise<SettlementProposal[]> {
+    const conditions = [
+      inArray(settlementProposals.status, openStatuses),
+      isNotNull(settlementProposals.expiresAt),
+      lte(settlementProposals.expiresAt, expiredBefore),
+    ];
+    if (disputeId !== undefined) {
+      conditions.push(eq(settlementProposals.disputeId, disputeId));
+    }
+    return await db
+      .update(settlementProposals)
+      .set({ status: 'lapsed', lapsedAt: expiredBefore, updatedAt: expiredBefore })
+      .where(and(...conditions))
+      .returning();
+  }
   
   // Digital Signatures
   async getDigitalSignatures(proposalId: number): Promise<DigitalSignature[]> {
@@ -1877,6 +2497,131 @@ export class DatabaseStorage implements IStorage {
       
     return verifiedSignature;
   }
+
+  async getDigitalSignature(id: number): Promise<DigitalSignature | undefined> {
+    const [signature] = await db
+      .select()
+      .from(digitalSignatures)
+      .where(eq(digitalSignatures.id, id));
+    return signature;
+  }
+
+  async getDigitalSignatureByVerificationCode(verificationCode: string): Promise<DigitalSignature | undefined> {
+    const [signature] = await db
+      .select()
+      .from(digitalSignatures)
+      .where(eq(digitalSignatures.verificationCode, verificationCode));
+    return signature;
+  }
+
+  async updateDigitalSignature(id: number, data: Partial<DigitalSignature>): Promise<DigitalSignature | undefined> {
+    const [updatedSignature] = await db
+      .update(digitalSignatures)
+      .set(data)
+      .where(eq(digitalSignatures.id, id))
+      .returning();
+    return updatedSignature;
+  }
+
+  async getSignatureAuditEvents(proposalId: number): Promise<SignatureAuditEvent[]> {
+    return await db
+      .select()
+      .from(signatureAuditEvents)
+      .where(eq(signatureAuditEvents.proposalId, proposalId))
+      .orderBy(signatureAuditEvents.id);
+  }
+
+  /**
+   * Append an event to a proposal's audit trail. A transaction-scoped
+   * advisory lock on the proposal serialises appends, so each event is
+   * chained to the one that was last when it was written.
+   */
+  async appendSignatureAuditEvent(
+    event: Omit<InsertSignatureAuditEvent, 'id' | 'previousHash' | 'hash'> & { createdAt: Date },
+    hashEvent: (previousHash: string | null) => string
+  ): Promise<SignatureAuditEvent> {
+    return await db.transaction(async (tx) => {
+      await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext('signature_audit_events'), ${event.proposalId})`);
+      const [last] = await tx
+        .select({ hash: signatureAuditEvents.hash })
+        .from(signatureAuditEvents)
+        .where(eq(signatureAuditEvents.proposalId, event.proposalId))
+        .orderBy(desc(signatureAuditEvents.id))
+        .limit(1);
+      const previousHash = last ? last.hash : null;
+      const [appended] = await tx
+        .insert(signatureAuditEvents)
+        .values({ ...event, previousHash, hash: hashEvent(previousHash) })
+        .returning();
+      return appended;
+    });
+  }
+
+  async getDigitalSignatureByDocusealSigner(submissionId: string, signerId: string): Promise<DigitalSignature | undefined> {
+    const [signature] = await db
+      .select()
+      .from(digitalSignatures)
+      .where(and(
+        eq(digitalSignatures.docusealSubmissionId, submissionId),
+        eq(digitalSignatures.docusealSignerId, signerId)
+      ));
+    return signature;
+  }
+  
+  // DocuSeal Submissions
+  async getDocusealSubmission(submissionId: string): Promise<DocusealSubmission | undefined> {
+    const [submission] = await db
+      .select()
+      .from(docusealSubmissions)
+      .where(eq(docusealSubmissions.submissionId, submissionId));
+    return submission;
+  }
+  
+  async getDocusealSubmissionsBySource(source: { proposalId?: number; generatedDocumentId?: number }): Promise<DocusealSubmission[]> {
+    const condition = source.proposalId !== undefined
+      ? eq(docusealSubmissions.proposalId, source.proposalId)
+      : eq(docusealSubmissions.generatedDocumentId, source.generatedDocumentId ?? -1);
+    return await db
+      .select()
+      .from(docusealSubmissions)
+      .where(condition)
+      .orderBy(desc(docusealSubmissions.createdAt));
+  }
+  
+  async createDocusealSubmission(submission: InsertDocusealSubmission): Promise<DocusealSubmission> {
+    const [newSubmission] = await db
+      .insert(docusealSubmissions)
+      .values(submission)
+      .returning();
+    return newSubmission;
+  }
+  
+  async updateDocusealSubmission(id: number, data: Partial<DocusealSubmission>): Promise<DocusealSubmission | undefined> {
+    const [updatedSubmission] = await db
+      .update(docusealSubmissions)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(docusealSubmissions.id, id))
+      .returning();
+    return updatedSubmission;
+  }
+  
+  /**
+   * Record a webhook delivery; false when it was already recorded
+   */
+  async recordDocusealWebhookEvent(eventKey: string, eventType: string): Promise<boolean> {
+    const inserted = await db
+      .insert(docusealWebhookEvents)
+      .values({ eventKey, eventType })
+      .onConflictDoNothing({ target: docusealWebhookEvents.eventKey })
+      .returning({ id: docusealWebhookEvents.id });
+    return inserted.length > 0;
+  }
+  
+  async forgetDocusealWebhookEvent(eventKey: string): Promise<void> {
+    await db
+      .delete(docusealWebhookEvents)
+      .where(eq(docusealWebhookEvents.eventKey, eventKey));
+  }
   
   // Activity Tracking
   async createDisputeActivity(activity: InsertDisputeActivity): Promise<DisputeActivity> {
@@ -1,5 +1,5 @@
 import { 
-  pgTable, serial, integer, text, json, timestamp, boolean, varchar 
+  pgTable, serial, integer, text, json, timestamp, boolean, varchar, uniqueIndex, index
 } from 'drizzle-orm/pg-core';
 import { createInsertSchema } from 'drizzle-zod';
 import { z } from 'zod';
@@ -31,15 +31,47 @@ export const userProcedureReminders = pgTable('user_procedure_reminders', {
   notifyBefore: integer('notify_before').default(1), // days
   notifyMethod: varchar('notify_method', { length: 20 }).default('app'), // email, app, both
   isCompleted: boolean('is_completed').default(false),
+  snoozedUntil: timestamp('snoozed_until'), // Send again at this time instead of before the due date
+  lastNotifiedAt: timestamp('last_notified_at'),
+  source: varchar('source', { length: 20 }).notNull().default('user'), // user, timeline
   createdAt: timestamp('created_at').defaultNow(),
   updatedAt: timestamp('updated_at').defaultNow(),
-});
+}, (table) => [
+  index('user_procedure_reminders_due_idx').on(table.isCompleted, table.dueDate),
+]);
 
 export type UserProcedureReminder = typeof userProcedureReminders.$inferSelect;
 export type InsertUserProcedureReminder = typeof userProcedureReminders.$inferInsert;
 
+export const REMINDER_NOTIFY_METHODS = ['email', 'app', 'both'] as const;
+
 export const insertUserProcedureReminderSchema = createInsertSchema(userProcedureReminders)
-  .omit({ id: true, createdAt: true, updatedAt: true });
+  .omit({ id: true, snoozedUntil: true, lastNotifiedAt: true, source: true, createdAt: true, updatedAt: true })
+  .extend({
+    dueDate: z.coerce.date(),
+    notifyBefore: z.number().int().min(0).max(365).optional(),
+    notifyMethod: z.enum(REMINDER_NOTIFY_METHODS).optional(),
+  });
+
+// One row per reminder, channel and occurrence, so a reminder is never sent
+// twice for the same due date or snooze
+export const reminderDeliveries = pgTable('reminder_deliveries', {
+  id: serial('id').primaryKey(),
+  reminderId: integer('reminder_id').notNull().references(() => userProcedureReminders.id, { onDelete: 'cascade' }),
+  userId: integer('user_id').notNull(),
+  channel: varchar('channel', { length: 10 }).notNull(), // email, app
+  occurrenceKey: varchar('occurrence_key', { length: 100 }).notNull(),
+  status: varchar('status', { length: 20 }).notNull().default('sending'), // sending, sent, failed
+  attempts: integer('attempts').notNull().default(1),
+  error: text('error'),
+  messageId: text('message_id'), // Email message ID, or the in-app notification ID
+  createdAt: timestamp('created_at').defaultNow(),
+  sentAt: timestamp('sent_at'),
+}, (table) => [
+  uniqueIndex('reminder_deliveries_occurrence_idx').on(table.reminderId, table.channel, table.occurrenceKey),
+]);
+
+export type ReminderDelivery = typeof reminderDeliveries.$inferSelect;
 
 // User Checklist Items for Court Procedures
 export const userProcedureChecklist = pgTable('user_procedure_checklist', {
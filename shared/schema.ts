@@ -1,7 +1,7 @@
-import { pgTable, text, serial, integer, boolean, timestamp, jsonb, uuid, json, varchar, numeric } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, jsonb, uuid, json, varchar, numeric, uniqueIndex, index, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
-import { relations } from "drizzle-orm";
+import { relations, sql } from "drizzle-orm";
 
 // User schema
 export const users = pgTable("users", {
@@ -22,10 +22,20 @@ export const roles = pgTable("roles", {
   id: serial("id").primaryKey(),
   name: text("name").notNull().unique(),
   description: text("description"),
-  permissions: jsonb("permissions").notNull(),
+  permissions: jsonb("permissions").notNull(), // Capability names, e.g. ["feedback:respond"], or ["*"] for all
   createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at"),
+});
+
+export const insertRoleSchema = createInsertSchema(roles).pick({
+  name: true,
+  description: true,
+  permissions: true,
 });
 
+export type InsertRole = z.infer<typeof insertRoleSchema>;
+export type Role = typeof roles.$inferSelect;
+
 // Password reset tokens schema
 export const passwordResetTokens = pgTable("password_reset_tokens", {
   id: serial("id").primaryKey(),
@@ -59,18 +69,45 @@ export const insertUserSchema = userSchema.pick({
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
 
+// Named conversations with the legal assistant
+export const chatThreads = pgTable("chat_threads", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id, { onDelete: 'cascade' }).notNull(),
+  title: text("title").notNull(),
+  summary: text("summary"), // Rolling summary of the turns that no longer go into the prompt
+  summarizedThroughId: integer("summarized_through_id"), // Last chat message covered by the summary
+  archivedAt: timestamp("archived_at"),
+  lastMessageAt: timestamp("last_message_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at"),
+}, (table) => [
+  index("chat_threads_user_idx").on(table.userId, table.lastMessageAt.desc()),
+]);
+
+export const insertChatThreadSchema = createInsertSchema(chatThreads).pick({
+  userId: true,
+  title: true,
+});
+
+export type InsertChatThread = z.infer<typeof insertChatThreadSchema>;
+export type ChatThread = typeof chatThreads.$inferSelect;
+
 // Chat history schema
 export const chatMessages = pgTable("chat_messages", {
   id: serial("id").primaryKey(),
   userId: integer("user_id").references(() => users.id, { onDelete: 'cascade' }),
+  threadId: integer("thread_id").references(() => chatThreads.id, { onDelete: 'cascade' }),
   role: text("role").notNull(), // 'user' or 'assistant'
   content: text("content").notNull(),
   timestamp: timestamp("timestamp").defaultNow(),
   metadata: jsonb("metadata"), // Store error information or other metadata
-});
+}, (table) => [
+  index("chat_messages_thread_idx").on(table.threadId, table.id),
+]);
 
 export const insertChatMessageSchema = createInsertSchema(chatMessages).pick({
   userId: true,
+  threadId: true,
   role: true,
   content: true,
   metadata: true,
@@ -79,6 +116,37 @@ export const insertChatMessageSchema = createInsertSchema(chatMessages).pick({
 export type InsertChatMessage = z.infer<typeof insertChatMessageSchema>;
 export type ChatMessage = typeof chatMessages.$inferSelect;
 
+// Template packs are versioned bundles of templates imported from a directory or archive
+export const templatePacks = pgTable("template_packs", {
+  id: serial("id").primaryKey(),
+  packKey: text("pack_key").notNull().unique(), // Stable id from the pack manifest, e.g. 'canada-core'
+  name: text("name").notNull(),
+  description: text("description"),
+  publisher: text("publisher"),
+  version: text("version").notNull(),
+  sourceType: text("source_type").notNull(), // 'directory' or 'archive'
+  sourceName: text("source_name"), // Directory or archive file name the pack was last imported from
+  manifestHash: text("manifest_hash"),
+  importedBy: integer("imported_by").references(() => users.id, { onDelete: 'set null' }),
+  importedAt: timestamp("imported_at").defaultNow(),
+  updatedAt: timestamp("updated_at"),
+});
+
+export const insertTemplatePackSchema = createInsertSchema(templatePacks).pick({
+  packKey: true,
+  name: true,
+  description: true,
+  publisher: true,
+  version: true,
+  sourceType: true,
+  sourceName: true,
+  manifestHash: true,
+  importedBy: true,
+});
+
+export type InsertTemplatePack = z.infer<typeof insertTemplatePackSchema>;
+export type TemplatePack = typeof templatePacks.$inferSelect;
+
 // Document templates schema
 export const documentTemplates = pgTable("document_templates", {
   id: serial("id").primaryKey(),
@@ -90,7 +158,15 @@ export const documentTemplates = pgTable("document_templates", {
   templateContent: text("template_content").notNull(),
   fields: jsonb("fields").notNull(), // Required fields for template generation
   jurisdiction: text("jurisdiction").default("Canada"), // Jurisdiction: 'Canada', 'Ontario', etc.
-});
+  packId: integer("pack_id").references(() => templatePacks.id, { onDelete: 'set null' }),
+  packTemplateKey: text("pack_template_key"), // Template key within the pack manifest
+  packVersion: text("pack_version"), // Pack version the template was last imported from
+  contentHash: text("content_hash"),
+  provenance: jsonb("provenance"), // Source file, pack and import details
+  updatedAt: timestamp("updated_at"),
+}, (table) => [
+  uniqueIndex("document_templates_pack_key_idx").on(table.packId, table.packTemplateKey),
+]);
 
 export const insertDocumentTemplateSchema = createInsertSchema(documentTemplates).pick({
   templateType: true,
@@ -101,6 +177,11 @@ export const insertDocumentTemplateSchema = createInsertSchema(documentTemplates
   templateContent: true,
   fields: true,
   jurisdiction: true,
+  packId: true,
+  packTemplateKey: true,
+  packVersion: true,
+  contentHash: true,
+  provenance: true,
 });
 
 export type InsertDocumentTemplate = z.infer<typeof insertDocumentTemplateSchema>;
@@ -150,6 +231,27 @@ export const insertResearchQuerySchema = createInsertSchema(researchQueries).pic
 export type InsertResearchQuery = z.infer<typeof insertResearchQuerySchema>;
 export type ResearchQuery = typeof researchQueries.$inferSelect;
 
+// Contract matters group successive analyses of the same contract as versions
+export const contractMatters = pgTable("contract_matters", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id, { onDelete: 'cascade' }).notNull(),
+  title: text("title").notNull(),
+  jurisdiction: text("jurisdiction").default('Canada'),
+  contractType: text("contract_type").default('general'),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at"),
+});
+
+export const insertContractMatterSchema = createInsertSchema(contractMatters).pick({
+  userId: true,
+  title: true,
+  jurisdiction: true,
+  contractType: true,
+});
+
+export type InsertContractMatter = z.infer<typeof insertContractMatterSchema>;
+export type ContractMatter = typeof contractMatters.$inferSelect;
+
 // Contract analysis results schema
 export const contractAnalyses = pgTable("contract_analyses", {
   id: serial("id").primaryKey(),
@@ -165,7 +267,11 @@ export const contractAnalyses = pgTable("contract_analyses", {
   fileName: text("file_name"),
   updatedAt: timestamp("updated_at"),
   categories: jsonb("categories"),
-});
+  matterId: integer("matter_id").references(() => contractMatters.id, { onDelete: 'cascade' }),
+  version: integer("version"), // 1-based position within the matter
+}, (table) => [
+  uniqueIndex("contract_analyses_matter_version_idx").on(table.matterId, table.version),
+]);
 
 export const insertContractAnalysisSchema = createInsertSchema(contractAnalyses).pick({
   userId: true,
@@ -179,6 +285,8 @@ export const insertContractAnalysisSchema = createInsertSchema(contractAnalyses)
   fileName: true,
   updatedAt: true,
   categories: true,
+  matterId: true,
+  version: true,
 });
 
 export type InsertContractAnalysis = z.infer<typeof insertContractAnalysisSchema>;
@@ -347,6 +455,10 @@ export const savedCitations = pgTable("saved_citations", {
   userId: integer("user_id").references(() => users.id, { onDelete: 'cascade' }),
   name: text("name").notNull(),
   citation: text("citation").notNull(),
+  court: text("court"), // Court code, e.g. SCC; filled in from the citation
+  year: integer("year"),
+  jurisdiction: text("jurisdiction"),
+  formattedCitation: text("formatted_citation"), // McGill Guide form
   sourceName: text("source_name"),
   sourceUrl: text("source_url"),
   notes: text("notes"),
@@ -357,6 +469,10 @@ export const insertSavedCitationSchema = createInsertSchema(savedCitations).pick
   userId: true,
   name: true,
   citation: true,
+  court: true,
+  year: true,
+  jurisdiction: true,
+  formattedCitation: true,
   sourceName: true, 
   sourceUrl: true,
   notes: true,
@@ -398,6 +514,7 @@ export const usersRelations = relations(users, ({ many }) => ({
   generatedDocuments: many(generatedDocuments),
   researchQueries: many(researchQueries),
   contractAnalyses: many(contractAnalyses),
+  contractMatters: many(contractMatters),
   complianceChecks: many(complianceChecks),
   disputes: many(disputes),
   mediatedSessions: many(mediationSessions, { relationName: "mediator" }),
@@ -425,8 +542,16 @@ export const chatMessagesRelations = relations(chatMessages, ({ one }) => ({
   }),
 }));
 
-export const documentTemplatesRelations = relations(documentTemplates, ({ many }) => ({
+export const templatePacksRelations = relations(templatePacks, ({ many }) => ({
+  templates: many(documentTemplates),
+}));
+
+export const documentTemplatesRelations = relations(documentTemplates, ({ one, many }) => ({
   generatedDocuments: many(generatedDocuments),
+  pack: one(templatePacks, {
+    fields: [documentTemplates.packId],
+    references: [templatePacks.id],
+  }),
 }));
 
 export const generatedDocumentsRelations = relations(generatedDocuments, ({ one }) => ({
@@ -466,11 +591,23 @@ export const researchVisualizationsRelations = relations(researchVisualizations,
   }),
 }));
 
+export const contractMattersRelations = relations(contractMatters, ({ one, many }) => ({
+  user: one(users, {
+    fields: [contractMatters.userId],
+    references: [users.id],
+  }),
+  versions: many(contractAnalyses),
+}));
+
 export const contractAnalysesRelations = relations(contractAnalyses, ({ one }) => ({
   user: one(users, {
     fields: [contractAnalyses.userId],
     references: [users.id],
   }),
+  matter: one(contractMatters, {
+    fields: [contractAnalyses.matterId],
+    references: [contractMatters.id],
+  }),
 }));
 
 export const complianceChecksRelations = relations(complianceChecks, ({ one }) => ({
@@ -550,6 +687,30 @@ export const insertLegalDomainSchema = createInsertSchema(legalDomains).pick({
 export type InsertLegalDomain = z.infer<typeof insertLegalDomainSchema>;
 export type LegalDomain = typeof legalDomains.$inferSelect;
 
+// Full-text search documents for the knowledge tables. Rows are indexed with
+// the legal_en or legal_fr text search configuration, created by the database
+// migration, according to their language; server/lib/knowledgeSearch.ts
+// matches against these same expressions so the GIN indexes are used.
+const knowledgeSearchConfig = sql.raw(`(CASE WHEN language = 'fr' THEN 'legal_fr'::regconfig ELSE 'legal_en'::regconfig END)`);
+
+export const domainKnowledgeSearchDocument = sql`(
+  setweight(to_tsvector(${knowledgeSearchConfig}, coalesce(question, '')), 'A') ||
+  setweight(to_tsvector(${knowledgeSearchConfig}, coalesce(answer, '')), 'B') ||
+  setweight(jsonb_to_tsvector(${knowledgeSearchConfig}, coalesce(tags, '[]'::jsonb), '["string"]'), 'C')
+)`;
+
+export const provincialInfoSearchDocument = sql`(
+  setweight(to_tsvector(${knowledgeSearchConfig}, coalesce(title, '')), 'A') ||
+  setweight(to_tsvector(${knowledgeSearchConfig}, coalesce(content, '')), 'B') ||
+  setweight(jsonb_to_tsvector(${knowledgeSearchConfig}, coalesce(key_legislation, '[]'::jsonb), '["string"]'), 'C')
+)`;
+
+export const proceduralGuideSearchDocument = sql`(
+  setweight(to_tsvector(${knowledgeSearchConfig}, coalesce(title, '')), 'A') ||
+  setweight(to_tsvector(${knowledgeSearchConfig}, coalesce(description, '')), 'B') ||
+  setweight(jsonb_to_tsvector(${knowledgeSearchConfig}, coalesce(steps, '[]'::jsonb), '["string"]'), 'C')
+)`;
+
 // Specialized domain knowledge for enhanced assistant
 export const domainKnowledge = pgTable("domain_knowledge", {
   id: serial("id").primaryKey(),
@@ -563,7 +724,9 @@ export const domainKnowledge = pgTable("domain_knowledge", {
   sources: jsonb("sources"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at"),
-});
+}, () => [
+  index("domain_knowledge_search_idx").using("gin", domainKnowledgeSearchDocument),
+]);
 
 // Provincial-specific legal information
 export const provincialInfo = pgTable("provincial_info", {
@@ -577,7 +740,9 @@ export const provincialInfo = pgTable("provincial_info", {
   resources: jsonb("resources"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at"),
-});
+}, () => [
+  index("provincial_info_search_idx").using("gin", provincialInfoSearchDocument),
+]);
 
 export const insertDomainKnowledgeSchema = createInsertSchema(domainKnowledge).pick({
   domainId: true,
@@ -621,7 +786,9 @@ export const proceduralGuides = pgTable("procedural_guides", {
   prerequisites: jsonb("prerequisites"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at"),
-});
+}, () => [
+  index("procedural_guides_search_idx").using("gin", proceduralGuideSearchDocument),
+]);
 
 export const insertProceduralGuideSchema = createInsertSchema(proceduralGuides).pick({
   domainId: true,
@@ -638,6 +805,41 @@ export const insertProceduralGuideSchema = createInsertSchema(proceduralGuides).
 export type InsertProceduralGuide = z.infer<typeof insertProceduralGuideSchema>;
 export type ProceduralGuide = typeof proceduralGuides.$inferSelect;
 
+// Statutes and decisions imported from research corpus dumps, searched by the
+// offline corpus research source
+export const researchCorpusSearchDocument = sql`(
+  setweight(to_tsvector(${knowledgeSearchConfig}, coalesce(title, '') || ' ' || coalesce(citation, '')), 'A') ||
+  setweight(to_tsvector(${knowledgeSearchConfig}, coalesce(summary, '')), 'B') ||
+  setweight(to_tsvector(${knowledgeSearchConfig}, coalesce(body, '')), 'C') ||
+  setweight(jsonb_to_tsvector(${knowledgeSearchConfig}, coalesce(key_points, '[]'::jsonb), '["string"]'), 'C')
+)`;
+
+export const researchCorpusDocuments = pgTable("research_corpus_documents", {
+  id: serial("id").primaryKey(),
+  kind: text("kind").notNull(), // statute, case
+  title: text("title").notNull(),
+  citation: text("citation").notNull(),
+  citationKey: text("citation_key").notNull(), // Citation without case, spaces or punctuation
+  jurisdiction: text("jurisdiction").default("canada"),
+  court: text("court"),
+  year: integer("year"),
+  decisionDate: text("decision_date"),
+  summary: text("summary"),
+  body: text("body"),
+  keyPoints: jsonb("key_points"),
+  url: text("url"),
+  language: text("language").default("en"),
+  source: text("source").notNull(), // Name of the dump the document was imported from
+  importedAt: timestamp("imported_at").defaultNow(),
+  updatedAt: timestamp("updated_at"),
+}, (table) => [
+  uniqueIndex("research_corpus_citation_idx").on(table.kind, table.citationKey, table.language),
+  index("research_corpus_search_idx").using("gin", researchCorpusSearchDocument),
+]);
+
+export type ResearchCorpusDocument = typeof researchCorpusDocuments.$inferSelect;
+export type InsertResearchCorpusDocument = typeof researchCorpusDocuments.$inferInsert;
+
 // Escalation tracking for complex legal questions
 export const escalatedQuestions = pgTable("escalated_questions", {
   id: serial("id").primaryKey(),
@@ -646,12 +848,24 @@ export const escalatedQuestions = pgTable("escalated_questions", {
   context: text("context").notNull(),
   domainId: integer("domain_id").references(() => legalDomains.id),
   status: text("status").notNull().default("pending"), // 'pending', 'assigned', 'answered', 'closed'
-  assignedTo: text("assigned_to"),
+  urgency: text("urgency").notNull().default("normal"), // 'normal', 'high' or 'urgent'; sets the SLA
+  assignedTo: text("assigned_to"), // ID of the reviewing user
+  assignedAt: timestamp("assigned_at"),
+  dueAt: timestamp("due_at"), // SLA deadline for the answer
+  threadId: integer("thread_id").references(() => chatThreads.id, { onDelete: 'set null' }), // Chat the question came from
+  aiAnswer: text("ai_answer"), // The assistant's answer that was escalated
+  draftAnswer: text("draft_answer"),
   answer: text("answer"),
+  answeredBy: integer("answered_by").references(() => users.id, { onDelete: 'set null' }),
+  answeredAt: timestamp("answered_at"),
+  userResponse: text("user_response"), // 'accepted' or 'follow_up'
+  parentId: integer("parent_id").references((): AnyPgColumn => escalatedQuestions.id, { onDelete: 'set null' }), // Question this follows up on
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at"),
   resolvedAt: timestamp("resolved_at"),
-});
+}, (table) => [
+  index("escalated_questions_queue_idx").on(table.status, table.dueAt),
+]);
 
 export const insertEscalatedQuestionSchema = createInsertSchema(escalatedQuestions).pick({
   userId: true,
@@ -659,8 +873,14 @@ export const insertEscalatedQuestionSchema = createInsertSchema(escalatedQuestio
   context: true,
   domainId: true,
   status: true,
+  urgency: true,
   assignedTo: true,
+  assignedAt: true,
+  dueAt: true,
+  threadId: true,
+  aiAnswer: true,
   answer: true,
+  parentId: true,
   updatedAt: true,
   resolvedAt: true,
 });
@@ -668,10 +888,31 @@ export const insertEscalatedQuestionSchema = createInsertSchema(escalatedQuestio
 export type InsertEscalatedQuestion = z.infer<typeof insertEscalatedQuestionSchema>;
 export type EscalatedQuestion = typeof escalatedQuestions.$inferSelect;
 
+// Internal notes on an escalated question, visible only to reviewers
+export const escalationNotes = pgTable("escalation_notes", {
+  id: serial("id").primaryKey(),
+  questionId: integer("question_id").references(() => escalatedQuestions.id, { onDelete: 'cascade' }).notNull(),
+  authorId: integer("author_id").references(() => users.id, { onDelete: 'set null' }),
+  content: text("content").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("escalation_notes_question_idx").on(table.questionId),
+]);
+
+export const insertEscalationNoteSchema = createInsertSchema(escalationNotes).pick({
+  questionId: true,
+  authorId: true,
+  content: true,
+});
+
+export type InsertEscalationNote = z.infer<typeof insertEscalationNoteSchema>;
+export type EscalationNote = typeof escalationNotes.$inferSelect;
+
 // Conversation context tracking
 export const conversationContexts = pgTable("conversation_contexts", {
   id: serial("id").primaryKey(),
   userId: integer("user_id").references(() => users.id, { onDelete: 'cascade' }),
+  threadId: integer("thread_id").references(() => chatThreads.id, { onDelete: 'cascade' }).unique(), // Null for the user's general context
   domainId: integer("domain_id").references(() => legalDomains.id),
   context: jsonb("context").notNull(),
   activeGuideId: integer("active_guide_id").references(() => proceduralGuides.id),
@@ -683,6 +924,7 @@ export const conversationContexts = pgTable("conversation_contexts", {
 
 export const insertConversationContextSchema = createInsertSchema(conversationContexts).pick({
   userId: true,
+  threadId: true,
   domainId: true,
   context: true,
   activeGuideId: true,
@@ -703,10 +945,17 @@ export const caseOutcomePredictions = pgTable("case_outcome_predictions", {
   factorData: jsonb("factor_data").notNull(),
   predictedOutcome: text("predicted_outcome").notNull(),
   confidenceScore: text("confidence_score").notNull(),
+  status: text("status").notNull().default("pending"), // 'pending', 'processing', 'completed', 'failed'
+  progress: integer("progress").notNull().default(0), // Percentage, for progress indicators
+  statusMessage: text("status_message"),
+  outcomeDistribution: jsonb("outcome_distribution"), // [{ outcome, probability }]
+  keyFactors: jsonb("key_factors"), // [{ factor, impact, weight, explanation }]
   similarCases: jsonb("similar_cases"),
   visualizationData: jsonb("visualization_data"),
+  errorMessage: text("error_message"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at"),
+  completedAt: timestamp("completed_at"),
 });
 
 export const insertCaseOutcomePredictionSchema = createInsertSchema(caseOutcomePredictions).pick({
@@ -752,7 +1001,7 @@ export const proceduralGuidesRelations = relations(proceduralGuides, ({ one, man
   activeConversations: many(conversationContexts),
 }));
 
-export const escalatedQuestionsRelations = relations(escalatedQuestions, ({ one }) => ({
+export const escalatedQuestionsRelations = relations(escalatedQuestions, ({ one, many }) => ({
   user: one(users, {
     fields: [escalatedQuestions.userId],
     references: [users.id],
@@ -761,6 +1010,18 @@ export const escalatedQuestionsRelations = relations(escalatedQuestions, ({ one
     fields: [escalatedQuestions.domainId],
     references: [legalDomains.id],
   }),
+  notes: many(escalationNotes),
+}));
+
+export const escalationNotesRelations = relations(escalationNotes, ({ one }) => ({
+  question: one(escalatedQuestions, {
+    fields: [escalationNotes.questionId],
+    references: [escalatedQuestions.id],
+  }),
+  author: one(users, {
+    fields: [escalationNotes.authorId],
+    references: [users.id],
+  }),
 }));
 
 export const conversationContextsRelations = relations(conversationContexts, ({ one }) => ({
@@ -768,6 +1029,10 @@ export const conversationContextsRelations = relations(conversationContexts, ({
     fields: [conversationContexts.userId],
     references: [users.id],
   }),
+  thread: one(chatThreads, {
+    fields: [conversationContexts.threadId],
+    references: [chatThreads.id],
+  }),
   domain: one(legalDomains, {
     fields: [conversationContexts.domainId],
     references: [legalDomains.id],
@@ -801,6 +1066,9 @@ export const sharedDocuments = pgTable("shared_documents", {
   fileUrl: text("file_url").notNull(),
   fileType: text("file_type").notNull(),
   fileSize: integer("file_size").notNull(),
+  fileName: text("file_name"), // Original name of the uploaded file
+  storageKey: text("storage_key"), // Blob storage key; null for files uploaded before blob storage
+  contentHash: text("content_hash"), // SHA-256 of the file content
   uploadedBy: integer("uploaded_by").references(() => users.id),
   isPublic: boolean("is_public").default(false),
   accessPermissions: jsonb("access_permissions"), // Array of party IDs who can access
@@ -850,14 +1118,32 @@ export const settlementProposals = pgTable("settlement_proposals", {
   proposedBy: integer("proposed_by").references(() => users.id),
   title: text("title").notNull(),
   content: text("content").notNull(),
-  status: text("status").notNull().default("draft"), // 'draft', 'proposed', 'countered', 'accepted', 'rejected'
+  status: text("status").notNull().default("draft"), // 'draft', 'proposed', 'countered', 'accepted', 'rejected', 'lapsed'
   documentId: integer("document_id").references(() => sharedDocuments.id),
-  termsAndConditions: jsonb("terms_and_conditions"),
+  termsAndConditions: jsonb("terms_and_conditions"), // SettlementTerm[] for structured proposals
+  parentProposalId: integer("parent_proposal_id").references((): AnyPgColumn => settlementProposals.id, { onDelete: 'set null' }), // Proposal this counters
+  round: integer("round").notNull().default(1), // Position in the negotiation thread, starting at 1
   expiresAt: timestamp("expires_at"),
+  lapsedAt: timestamp("lapsed_at"), // Set when the proposal passed expiresAt unanswered
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at"),
+}, (table) => [
+  index("settlement_proposals_parent_idx").on(table.parentProposalId),
+]);
+
+// One negotiable term of a settlement proposal. Terms with the same key are
+// compared between rounds of a negotiation.
+export const settlementTermSchema = z.object({
+  key: z.string().trim().min(1).max(100),
+  label: z.string().trim().min(1).max(200),
+  type: z.enum(["amount", "date", "obligation", "text"]),
+  value: z.union([z.number(), z.string()]),
+  currency: z.string().length(3).optional(), // For amounts; CAD when omitted
+  party: z.string().max(200).optional(), // Who an obligation falls on
 });
 
+export type SettlementTerm = z.infer<typeof settlementTermSchema>;
+
 export const insertSettlementProposalSchema = createInsertSchema(settlementProposals)
   .omit({ id: true, createdAt: true })
   .extend({
@@ -882,8 +1168,19 @@ export const digitalSignatures = pgTable("digital_signatures", {
   signatureStatus: text("signature_status").default("pending"),
   ipAddress: text("ip_address"),
   userAgent: text("user_agent"),
-  verificationCode: text("verification_code"),
+  verificationCode: text("verification_code"), // Certificate number, issued once the signer is verified
   verifiedAt: timestamp("verified_at"),
+  contentHash: text("content_hash"), // SHA-256 of the proposal content and terms being signed
+  signerName: text("signer_name"),
+  signerEmail: text("signer_email"),
+  otpHash: text("otp_hash"),
+  otpSentAt: timestamp("otp_sent_at"),
+  otpExpiresAt: timestamp("otp_expires_at"),
+  otpAttempts: integer("otp_attempts").notNull().default(0), // Incorrect codes across every code sent
+  signedAt: timestamp("signed_at"),
+  invalidatedAt: timestamp("invalidated_at"),
+  invalidationReason: text("invalidation_reason"),
+  certificateSeal: text("certificate_seal"), // HMAC over the certificate facts, stored when signed
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -898,6 +1195,65 @@ export const insertDigitalSignatureSchema = createInsertSchema(digitalSignatures
 export type InsertDigitalSignature = z.infer<typeof insertDigitalSignatureSchema>;
 export type DigitalSignature = typeof digitalSignatures.$inferSelect;
 
+// Documents sent to DocuSeal for signing, one row per submission
+export const docusealSubmissions = pgTable("docuseal_submissions", {
+  id: serial("id").primaryKey(),
+  submissionId: text("submission_id").notNull().unique(), // DocuSeal's submission ID
+  templateId: text("template_id").notNull(),
+  sourceType: text("source_type").notNull(), // 'settlement_proposal', 'generated_document'
+  proposalId: integer("proposal_id").references(() => settlementProposals.id, { onDelete: 'cascade' }),
+  generatedDocumentId: integer("generated_document_id").references(() => generatedDocuments.id, { onDelete: 'cascade' }),
+  contentHash: text("content_hash").notNull(), // SHA-256 of the rendered template, used to reuse templates
+  createdBy: integer("created_by").references(() => users.id, { onDelete: 'set null' }),
+  status: text("status").notNull().default("pending"), // 'pending', 'completed', 'declined', 'expired', 'archived'
+  submitters: jsonb("submitters").notNull(), // [{ id, role, name, email, status, completedAt }]
+  signedStorageKey: text("signed_storage_key"), // Blob storage key of the completed PDF
+  signedContentHash: text("signed_content_hash"),
+  signedFileSize: integer("signed_file_size"),
+  signedDocumentId: integer("signed_document_id").references(() => sharedDocuments.id, { onDelete: 'set null' }),
+  completedAt: timestamp("completed_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("docuseal_submissions_proposal_idx").on(table.proposalId),
+  index("docuseal_submissions_generated_document_idx").on(table.generatedDocumentId),
+]);
+
+export type DocusealSubmission = typeof docusealSubmissions.$inferSelect;
+export type InsertDocusealSubmission = typeof docusealSubmissions.$inferInsert;
+
+// Webhook deliveries already processed, so a replayed delivery is ignored
+export const docusealWebhookEvents = pgTable("docuseal_webhook_events", {
+  id: serial("id").primaryKey(),
+  eventKey: text("event_key").notNull().unique(), // SHA-256 of the raw payload
+  eventType: text("event_type").notNull(),
+  receivedAt: timestamp("received_at").notNull().defaultNow(),
+});
+
+// Append-only audit trail of signing events. Each event's hash covers the
+// previous event's hash, so altering or removing an event breaks the chain.
+export const signatureAuditEvents = pgTable("signature_audit_events", {
+  id: serial("id").primaryKey(),
+  // Hashed into the chain, so the rows they point at cannot be deleted; a trigger
+  // also rejects UPDATE and DELETE on this table
+  proposalId: integer("proposal_id").notNull().references(() => settlementProposals.id, { onDelete: 'restrict' }),
+  signatureId: integer("signature_id").references(() => digitalSignatures.id, { onDelete: 'restrict' }),
+  eventType: text("event_type").notNull(), // 'signing_started', 'otp_sent', 'otp_failed', 'signed', 'signature_invalidated'
+  actorId: integer("actor_id").references(() => users.id, { onDelete: 'restrict' }),
+  ipAddress: text("ip_address"),
+  userAgent: text("user_agent"),
+  contentHash: text("content_hash"),
+  details: jsonb("details"),
+  previousHash: text("previous_hash"),
+  hash: text("hash").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("signature_audit_events_proposal_idx").on(table.proposalId, table.id),
+]);
+
+export type SignatureAuditEvent = typeof signatureAuditEvents.$inferSelect;
+export type InsertSignatureAuditEvent = typeof signatureAuditEvents.$inferInsert;
+
 // Activity tracking for engagement analytics
 export const disputeActivities = pgTable("dispute_activities", {
   id: serial("id").primaryKey(),
@@ -1163,6 +1519,7 @@ export const settlementProposalsRelations = relations(settlementProposals, ({ on
     references: [sharedDocuments.id],
   }),
   signatures: many(digitalSignatures),
+  auditEvents: many(signatureAuditEvents),
 }));
 
 export const digitalSignaturesRelations = relations(digitalSignatures, ({ one }) => ({
@@ -1180,6 +1537,17 @@ export const digitalSignaturesRelations = relations(digitalSignatures, ({ one })
   }),
 }));
 
+export const signatureAuditEventsRelations = relations(signatureAuditEvents, ({ one }) => ({
+  proposal: one(settlementProposals, {
+    fields: [signatureAuditEvents.proposalId],
+    references: [settlementProposals.id],
+  }),
+  signature: one(digitalSignatures, {
+    fields: [signatureAuditEvents.signatureId],
+    references: [digitalSignatures.id],
+  }),
+}));
+
 export const disputeActivitiesRelations = relations(disputeActivities, ({ one }) => ({
   dispute: one(disputes, {
     fields: [disputeActivities.disputeId],
@@ -1200,10 +1568,14 @@ export const aiResponseCache = pgTable("ai_response_cache", {
   prompt: text("prompt").notNull(),
   response: text("response").notNull(),
   options: jsonb("options").default({}),
+  normalizedPrompt: text("normalized_prompt"), // Prompt after normalization, used by the semantic cache tier
+  contextKey: varchar("context_key", { length: 64 }), // Hash of the settings that shape the response (model, system prompt, ...)
   accessCount: integer("access_count").notNull().default(1),
   createdAt: timestamp("created_at").defaultNow(),
   lastAccessed: timestamp("last_accessed").defaultNow(),
-});
+}, (table) => [
+  index("ai_response_cache_context_idx").on(table.contextKey, table.lastAccessed.desc()),
+]);
 
 export const insertAiResponseCacheSchema = createInsertSchema(aiResponseCache).omit({
   id: true,
@@ -1362,7 +1734,10 @@ export const userUsage = pgTable("user_usage", {
   aiChatMessageCount: integer("ai_chat_message_count").default(0),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at"),
-});
+}, (table) => [
+  // One usage row per user per billing period
+  uniqueIndex("user_usage_user_period_idx").on(table.userId, table.periodStart),
+]);
 
 export const insertUserUsageSchema = createInsertSchema(userUsage).omit({
   id: true, 
@@ -1392,3 +1767,67 @@ export const userUsageRelations = relations(userUsage, ({ one }) => ({
     references: [users.id],
   }),
 }));
+
+// In-app notifications shown in the user's inbox
+export const userNotifications = pgTable("user_notifications", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id, { onDelete: 'cascade' }).notNull(),
+  type: text("type").notNull(), // e.g. 'case_prediction_completed'
+  title: text("title").notNull(),
+  message: text("message").notNull(),
+  link: text("link"), // Client route the notification opens
+  data: jsonb("data"),
+  readAt: timestamp("read_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("user_notifications_user_idx").on(table.userId, table.createdAt.desc()),
+]);
+
+export const insertUserNotificationSchema = createInsertSchema(userNotifications).pick({
+  userId: true,
+  type: true,
+  title: true,
+  message: true,
+  link: true,
+  data: true,
+});
+
+export type InsertUserNotification = z.infer<typeof insertUserNotificationSchema>;
+export type UserNotification = typeof userNotifications.$inferSelect;
+
+// Versioned rate tables behind server-side cost estimates. Drafts are edited
+// by admins; publishing one archives the version it replaces.
+export const costRateTables = pgTable("cost_rate_tables", {
+  id: serial("id").primaryKey(),
+  version: integer("version").notNull().unique(),
+  status: text("status").notNull().default("draft"), // 'draft', 'published', 'archived'
+  notes: text("notes"), // What changed in this version
+  data: jsonb("data").notNull(), // CostRateTableData, see server/lib/costEstimation.ts
+  createdBy: integer("created_by").references(() => users.id, { onDelete: 'set null' }),
+  publishedBy: integer("published_by").references(() => users.id, { onDelete: 'set null' }),
+  publishedAt: timestamp("published_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export type CostRateTable = typeof costRateTables.$inferSelect;
+export type InsertCostRateTable = typeof costRateTables.$inferInsert;
+
+// Saved cost estimates, with the rate table version they were calculated from
+export const costEstimates = pgTable("cost_estimates", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id, { onDelete: 'cascade' }).notNull(),
+  title: text("title").notNull(),
+  inputs: jsonb("inputs").notNull(), // The questionnaire answers
+  rateTableId: integer("rate_table_id").references(() => costRateTables.id, { onDelete: 'restrict' }).notNull(),
+  rateTableVersion: integer("rate_table_version").notNull(),
+  totalMin: integer("total_min").notNull(), // Whole dollars, CAD
+  totalMax: integer("total_max").notNull(),
+  breakdown: jsonb("breakdown").notNull(), // Itemized categories as calculated
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("cost_estimates_user_idx").on(table.userId, table.createdAt.desc()),
+]);
+
+export type CostEstimate = typeof costEstimates.$inferSelect;
+export type InsertCostEstimate = typeof costEstimates.$inferInsert;